@@ -13,6 +13,7 @@ vi.mock('@/lib/appwrite', () => ({
       $id: '123',
       email: 'test@test.com',
     }),
+    getRole: vi.fn().mockResolvedValue('packer'),
     logout: vi.fn().mockResolvedValue(undefined),
   },
 }))
@@ -8,10 +8,12 @@ import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
 import AuthGuard from '@/components/AuthGuard'
 import { AuthProvider } from '@/contexts/AuthContext'
 import { LoadingProvider } from '@/contexts/LoadingContext'
+import type { UserRole } from '@/types/role'
 
 vi.mock('@/lib/appwrite', () => ({
   authService: {
     getCurrentUser: vi.fn(),
+    getRole: vi.fn(),
   },
 }))
 
@@ -29,6 +31,8 @@ vi.mock('@/hooks/use-jobs', () => ({
 }))
 
 const TestChild = () => <div data-testid="protected-content">Protected Content</div>
+const SupervisorChild = () => <div data-testid="supervisor-content">Supervisor Content</div>
+const AdminChild = () => <div data-testid="admin-content">Admin Content</div>
 const LoginPage = () => <div data-testid="login-page">Login Page</div>
 
 interface WrapperProps {
@@ -51,9 +55,14 @@ function TestWrapper({ children }: WrapperProps) {
   )
 }
 
-const renderWithRouter = async (initialPath: string, mockUser: unknown = null) => {
+const renderWithRouter = async (
+  initialPath: string,
+  mockUser: unknown = null,
+  role: UserRole = 'packer'
+) => {
   const { authService } = await import('@/lib/appwrite')
   vi.mocked(authService.getCurrentUser).mockResolvedValue(mockUser as never)
+  vi.mocked(authService.getRole).mockResolvedValue(role)
 
   return render(
     <MemoryRouter initialEntries={[initialPath]}>
@@ -67,6 +76,8 @@ const renderWithRouter = async (initialPath: string, mockUser: unknown = null) =
                   <Route path="/" element={<TestChild />} />
                   <Route path="/login" element={<LoginPage />} />
                   <Route path="/dashboard" element={<TestChild />} />
+                  <Route path="/reports" element={<SupervisorChild />} />
+                  <Route path="/audit-logs" element={<AdminChild />} />
                 </Routes>
               </AuthGuard>
             }
@@ -133,6 +144,32 @@ describe('AuthGuard', () => {
     })
   })
 
+  describe('role-restricted routes', () => {
+    const mockUser = { $id: '123', email: 'test@test.com' }
+
+    it('should redirect packers away from supervisor routes', async () => {
+      await renderWithRouter('/reports', mockUser, 'packer')
+      expect(await screen.findByTestId('protected-content')).toBeInTheDocument()
+      expect(screen.queryByTestId('supervisor-content')).not.toBeInTheDocument()
+    })
+
+    it('should render supervisor routes for supervisors', async () => {
+      await renderWithRouter('/reports', mockUser, 'supervisor')
+      expect(await screen.findByTestId('supervisor-content')).toBeInTheDocument()
+    })
+
+    it('should redirect supervisors away from admin routes', async () => {
+      await renderWithRouter('/audit-logs', mockUser, 'supervisor')
+      expect(await screen.findByTestId('protected-content')).toBeInTheDocument()
+      expect(screen.queryByTestId('admin-content')).not.toBeInTheDocument()
+    })
+
+    it('should render admin routes for admins', async () => {
+      await renderWithRouter('/audit-logs', mockUser, 'admin')
+      expect(await screen.findByTestId('admin-content')).toBeInTheDocument()
+    })
+  })
+
   describe('authentication check', () => {
     it('should consider user authenticated when user object exists', async () => {
       await renderWithRouter('/dashboard', { $id: '123', email: 'test@test.com' })
@@ -17,6 +17,9 @@ vi.mock('react-i18next', () => ({
         'jobs.import': 'Import',
         'jobs.export': 'Export',
         'jobs.reportExport': 'Report Export',
+        'jobs.reportEmail': 'Report Email',
+        'jobs.phase.generating': 'Generating report',
+        'jobs.phase.emailing': 'Emailing report',
         'jobs.startedAgo': 'Started {{time}} ago',
         'jobs.status.pending': 'Pending',
         'jobs.status.processing': 'Processing',
@@ -61,6 +64,9 @@ vi.mock('@/hooks/use-jobs', () => ({
         return ''
     }
   },
+  getJobExportFormat: () => 'excel',
+  getJobStatusKey: (job: { status: string; phase?: string | null }) =>
+    job.status === 'processing' && job.phase ? `jobs.phase.${job.phase}` : `jobs.status.${job.status}`,
   formatJobStats: (job: { stats?: { imported?: number; updated?: number; skipped?: number; failed?: number } | null }) => {
     if (!job.stats) return ''
     const parts = []
@@ -121,6 +127,13 @@ const mockReportJob: ParsedJob = {
   action: 'export-reporting-excel',
 }
 
+const mockReportEmailJob: ParsedJob = {
+  ...mockProcessingJob,
+  $id: 'job-6',
+  action: 'export-reporting-email',
+  phase: 'emailing',
+}
+
 const createWrapper = () => {
   const queryClient = new QueryClient({
     defaultOptions: {
@@ -234,6 +247,28 @@ describe('JobStatusPanel', () => {
       expect(screen.getByText('Report Export')).toBeInTheDocument()
     })
 
+    it('should show the phase of a running generate-and-email job', () => {
+      render(<JobStatusPanel jobs={[mockReportEmailJob]} />, {
+        wrapper: createWrapper(),
+      })
+
+      expect(screen.getByText('Report Email')).toBeInTheDocument()
+      expect(screen.getByText('Emailing report')).toBeInTheDocument()
+      expect(screen.queryByText('Processing')).not.toBeInTheDocument()
+    })
+
+    it('should show the phase error of a failed generate-and-email job', () => {
+      render(
+        <JobStatusPanel
+          jobs={[{ ...mockReportEmailJob, status: 'failed', error: 'Report email failed: Invalid API key' }]}
+        />,
+        { wrapper: createWrapper() }
+      )
+
+      expect(screen.getByText('Failed')).toBeInTheDocument()
+      expect(screen.getByText('Report email failed: Invalid API key')).toBeInTheDocument()
+    })
+
     it('should show time ago for active jobs', () => {
       render(<JobStatusPanel jobs={[mockPendingJob]} />, {
         wrapper: createWrapper(),
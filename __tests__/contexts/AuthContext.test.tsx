@@ -9,6 +9,7 @@ import { authService } from '@/lib/appwrite'
 vi.mock('@/lib/appwrite', () => ({
   authService: {
     getCurrentUser: vi.fn(),
+    getRole: vi.fn().mockResolvedValue('packer'),
     login: vi.fn(),
     createAccount: vi.fn(),
     logout: vi.fn(),
@@ -10,16 +10,18 @@ import {
   useCompletedReportExports,
   useJob,
   useQueueImport,
+  useQueuePrealertImport,
   useQueueExport,
   useQueueReportExport,
   useQueueSendReportEmail,
   useDownloadExport,
   useDeleteJob,
   getJobStatusColor,
+  getJobExportFormat,
   formatJobStats,
 } from '@/hooks/use-jobs'
-import { jobService } from '@/lib/appwrite'
-import type { ParsedJob } from '@/types/job'
+import { jobService, realtimeService } from '@/lib/appwrite'
+import type { ImportJob, ParsedJob } from '@/types/job'
 
 // Mock the job service
 vi.mock('@/lib/appwrite', () => ({
@@ -30,12 +32,16 @@ vi.mock('@/lib/appwrite', () => ({
     getCompletedReportExports: vi.fn(),
     getById: vi.fn(),
     queueImport: vi.fn(),
+    queuePrealertImport: vi.fn(),
     queueExport: vi.fn(),
     queueReportExport: vi.fn(),
     queueSendReportEmail: vi.fn(),
     downloadExport: vi.fn(),
     deleteJob: vi.fn(),
   },
+  realtimeService: {
+    subscribe: vi.fn(() => vi.fn()),
+  },
 }))
 
 const mockJob: ParsedJob = {
@@ -229,6 +235,50 @@ describe('useActiveJobs', () => {
 
     expect(jobService.getActiveJobs).not.toHaveBeenCalled()
   })
+
+  it('should refetch when one of the user\'s jobs changes', async () => {
+    (jobService.getActiveJobs as Mock).mockResolvedValue([mockJob])
+
+    const { result, unmount } = renderHook(
+      () => useActiveJobs('user-123'),
+      { wrapper: createWrapper() }
+    )
+
+    await waitFor(() => {
+      expect(result.current.isSuccess).toBe(true)
+    })
+
+    const [collectionId, listener] = (realtimeService.subscribe as Mock).mock.calls[0]
+    expect(collectionId).toBe('import_jobs')
+
+    ;(jobService.getActiveJobs as Mock).mockResolvedValue([])
+    act(() => {
+      listener({ type: 'update', document: { ...mockJob, user_id: 'other-user' } as ImportJob })
+    })
+    expect(jobService.getActiveJobs).toHaveBeenCalledTimes(1)
+
+    act(() => {
+      listener({ type: 'update', document: { ...mockJob, status: 'completed' } as ImportJob })
+    })
+
+    await waitFor(() => {
+      expect(result.current.data).toHaveLength(0)
+    })
+    expect(jobService.getActiveJobs).toHaveBeenCalledTimes(2)
+
+    const unsubscribe = (realtimeService.subscribe as Mock).mock.results[0].value
+    unmount()
+    expect(unsubscribe).toHaveBeenCalled()
+  })
+
+  it('should not subscribe when disabled', () => {
+    renderHook(
+      () => useActiveJobs('user-123', false),
+      { wrapper: createWrapper() }
+    )
+
+    expect(realtimeService.subscribe).not.toHaveBeenCalled()
+  })
 })
 
 describe('useRecentCompletedExports', () => {
@@ -331,6 +381,29 @@ describe('useQueueImport', () => {
   })
 })
 
+describe('useQueuePrealertImport', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should queue a pre-alert import job', async () => {
+    (jobService.queuePrealertImport as Mock).mockResolvedValue({ success: true, jobId: 'new-job' })
+
+    const { result } = renderHook(
+      () => useQueuePrealertImport(),
+      { wrapper: createWrapper() }
+    )
+
+    const file = new File(['content'], 'prealerts.csv')
+
+    await act(async () => {
+      await result.current.mutateAsync({ file, userId: 'user-123' })
+    })
+
+    expect(jobService.queuePrealertImport).toHaveBeenCalledWith(file, 'user-123')
+  })
+})
+
 describe('useQueueExport', () => {
   beforeEach(() => {
     vi.clearAllMocks()
@@ -348,7 +421,7 @@ describe('useQueueExport', () => {
       await result.current.mutateAsync({ userId: 'user-123' })
     })
 
-    expect(jobService.queueExport).toHaveBeenCalledWith('user-123', undefined)
+    expect(jobService.queueExport).toHaveBeenCalledWith('user-123', undefined, undefined)
   })
 
   it('should queue an export job with filters', async () => {
@@ -363,7 +436,22 @@ describe('useQueueExport', () => {
       await result.current.mutateAsync({ userId: 'user-123', filters: { type: 'bundle' } })
     })
 
-    expect(jobService.queueExport).toHaveBeenCalledWith('user-123', { type: 'bundle' })
+    expect(jobService.queueExport).toHaveBeenCalledWith('user-123', { type: 'bundle' }, undefined)
+  })
+
+  it('should queue an export job in the given format', async () => {
+    (jobService.queueExport as Mock).mockResolvedValue({ success: true, jobId: 'new-job' })
+
+    const { result } = renderHook(
+      () => useQueueExport(),
+      { wrapper: createWrapper() }
+    )
+
+    await act(async () => {
+      await result.current.mutateAsync({ userId: 'user-123', format: 'csv' })
+    })
+
+    expect(jobService.queueExport).toHaveBeenCalledWith('user-123', undefined, 'csv')
   })
 })
 
@@ -393,7 +481,37 @@ describe('useQueueReportExport', () => {
       'user-123',
       '2024-01-01',
       '2024-01-31',
-      'pdf'
+      'pdf',
+      undefined,
+      undefined
+    )
+  })
+
+  it('should pass the courier and template through', async () => {
+    (jobService.queueReportExport as Mock).mockResolvedValue({ success: true, jobId: 'new-job' })
+
+    const { result } = renderHook(
+      () => useQueueReportExport(),
+      { wrapper: createWrapper() }
+    )
+
+    await act(async () => {
+      await result.current.mutateAsync({
+        userId: 'user-123',
+        startDate: '2024-01-01',
+        endDate: '2024-01-31',
+        courierId: 'courier-1',
+        templateId: 'template-1',
+      })
+    })
+
+    expect(jobService.queueReportExport).toHaveBeenCalledWith(
+      'user-123',
+      '2024-01-01',
+      '2024-01-31',
+      'excel',
+      'courier-1',
+      'template-1'
     )
   })
 })
@@ -600,3 +718,20 @@ describe('formatJobStats', () => {
     expect(result).toBe('5 imported, 3 updated')
   })
 })
+
+describe('getJobExportFormat', () => {
+  it('should read the format from the action', () => {
+    expect(getJobExportFormat({ action: 'export-csv', filters: null })).toBe('csv')
+    expect(getJobExportFormat({ action: 'export-reporting-json', filters: null })).toBe('json')
+    expect(getJobExportFormat({ action: 'export-reporting-stocktake-pdf', filters: null })).toBe('pdf')
+  })
+
+  it('should fall back to the format in the filters', () => {
+    expect(getJobExportFormat({ action: 'export-reporting-email', filters: { format: 'csv' } })).toBe('csv')
+  })
+
+  it('should default to excel', () => {
+    expect(getJobExportFormat({ action: 'export-reporting-receiving', filters: null })).toBe('excel')
+    expect(getJobExportFormat({ action: 'export-reporting-email', filters: { format: 'doc' } })).toBe('excel')
+  })
+})
@@ -0,0 +1,134 @@
+import { describe, expect, it, vi } from 'vitest'
+
+import { mergeItems, mergeRecordChange, removeItem } from '@/hooks/use-packaging-realtime'
+import type {
+  PackagingItemWithProduct,
+  PackagingRecord,
+  PackagingRecordWithProducts,
+} from '@/types/packaging'
+
+vi.mock('@/lib/appwrite/packaging', () => ({
+  packagingRecordService: {
+    enrichItems: vi.fn(),
+  },
+}))
+
+vi.mock('@/lib/appwrite/realtime', () => ({
+  realtimeService: {
+    subscribe: vi.fn(() => vi.fn()),
+  },
+}))
+
+const documentFields = {
+  $collectionId: 'packaging_records',
+  $databaseId: 'main',
+  $createdAt: '2026-10-19T08:00:00.000Z',
+  $updatedAt: '2026-10-19T08:00:00.000Z',
+  $permissions: [],
+  $sequence: 0,
+}
+
+const record = (id: string, waybill: string, date = '2026-10-19'): PackagingRecord => ({
+  ...documentFields,
+  $id: id,
+  packaging_date: date,
+  waybill_number: waybill,
+})
+
+const item = (id: string, recordId: string): PackagingItemWithProduct => ({
+  ...documentFields,
+  $collectionId: 'packaging_items',
+  $id: id,
+  packaging_record_id: recordId,
+  product_barcode: '123',
+  scanned_at: '2026-10-19T08:00:00.000Z',
+  product_name: 'Product',
+})
+
+const withItems = (
+  base: PackagingRecord,
+  items: PackagingItemWithProduct[] = []
+): PackagingRecordWithProducts => ({ ...base, items })
+
+describe('mergeRecordChange', () => {
+  it('should add a record created for the date at the top', () => {
+    const existing = [withItems(record('r1', 'WB1'))]
+
+    const merged = mergeRecordChange(existing, 'create', record('r2', 'WB2'), '2026-10-19')
+
+    expect(merged.map((r) => r.$id)).toEqual(['r2', 'r1'])
+    expect(merged[0].items).toEqual([])
+  })
+
+  it('should ignore records of other dates', () => {
+    const existing = [withItems(record('r1', 'WB1'))]
+
+    const merged = mergeRecordChange(existing, 'create', record('r2', 'WB2', '2026-10-18'), '2026-10-19')
+
+    expect(merged).toBe(existing)
+  })
+
+  it('should not add a record twice', () => {
+    const existing = [withItems(record('r1', 'WB1'), [item('i1', 'r1')])]
+
+    const merged = mergeRecordChange(existing, 'create', record('r1', 'WB1'), '2026-10-19')
+
+    expect(merged).toHaveLength(1)
+    expect(merged[0].items).toHaveLength(1)
+  })
+
+  it('should update a record and keep its items', () => {
+    const existing = [withItems(record('r1', 'WB1'), [item('i1', 'r1')])]
+
+    const merged = mergeRecordChange(existing, 'update', record('r1', 'WB1-FIXED'), '2026-10-19')
+
+    expect(merged[0].waybill_number).toBe('WB1-FIXED')
+    expect(merged[0].items).toHaveLength(1)
+  })
+
+  it('should remove deleted records', () => {
+    const existing = [withItems(record('r1', 'WB1')), withItems(record('r2', 'WB2'))]
+
+    const merged = mergeRecordChange(existing, 'delete', record('r1', 'WB1'), '2026-10-19')
+
+    expect(merged.map((r) => r.$id)).toEqual(['r2'])
+  })
+})
+
+describe('mergeItems', () => {
+  it('should add items to their records', () => {
+    const existing = [withItems(record('r1', 'WB1')), withItems(record('r2', 'WB2'))]
+
+    const merged = mergeItems(existing, [item('i1', 'r2'), item('i2', 'r2')])
+
+    expect(merged[0].items).toHaveLength(0)
+    expect(merged[1].items.map((i) => i.$id)).toEqual(['i1', 'i2'])
+  })
+
+  it('should replace items already in the record', () => {
+    const existing = [withItems(record('r1', 'WB1'), [item('i1', 'r1')])]
+    const updated = { ...item('i1', 'r1'), product_name: 'Renamed' }
+
+    const merged = mergeItems(existing, [updated])
+
+    expect(merged[0].items).toEqual([updated])
+  })
+
+  it('should ignore items of records not in the list', () => {
+    const existing = [withItems(record('r1', 'WB1'))]
+
+    const merged = mergeItems(existing, [item('i1', 'r9')])
+
+    expect(merged[0].items).toHaveLength(0)
+  })
+})
+
+describe('removeItem', () => {
+  it('should remove the item from its record', () => {
+    const existing = [withItems(record('r1', 'WB1'), [item('i1', 'r1'), item('i2', 'r1')])]
+
+    const merged = removeItem(existing, item('i1', 'r1'))
+
+    expect(merged[0].items.map((i) => i.$id)).toEqual(['i2'])
+  })
+})
@@ -17,6 +17,10 @@ const mockAccount = {
   updateVerification: vi.fn(),
 }
 
+const mockTeams = {
+  listMemberships: vi.fn(),
+}
+
 vi.mock('@/lib/appwrite/config', () => ({
   account: {
     create: (...args: unknown[]) => mockAccount.create(...args),
@@ -34,9 +38,15 @@ vi.mock('@/lib/appwrite/config', () => ({
     updateVerification: (...args: unknown[]) =>
       mockAccount.updateVerification(...args),
   },
+  teams: {
+    listMemberships: (...args: unknown[]) => mockTeams.listMemberships(...args),
+  },
   ID: {
     unique: () => 'unique-id',
   },
+  Query: {
+    equal: (attr: string, value: unknown) => `equal("${attr}", ${JSON.stringify(value)})`,
+  },
 }))
 
 const mockUser = {
@@ -276,6 +286,49 @@ describe('authService', () => {
     })
   })
 
+  describe('getRole', () => {
+    it('should return the most privileged membership role', async () => {
+      mockTeams.listMemberships.mockResolvedValue({
+        total: 1,
+        memberships: [{ roles: ['packer', 'supervisor'] }],
+      })
+
+      const result = await authService.getRole('user-123')
+
+      expect(result).toBe('supervisor')
+      expect(mockTeams.listMemberships).toHaveBeenCalledWith('staff', [
+        'equal("userId", "user-123")',
+      ])
+    })
+
+    it('should ignore unknown membership roles', async () => {
+      mockTeams.listMemberships.mockResolvedValue({
+        total: 1,
+        memberships: [{ roles: ['owner', 'admin'] }],
+      })
+
+      const result = await authService.getRole('user-123')
+
+      expect(result).toBe('admin')
+    })
+
+    it('should default to packer without a membership', async () => {
+      mockTeams.listMemberships.mockResolvedValue({ total: 0, memberships: [] })
+
+      const result = await authService.getRole('user-123')
+
+      expect(result).toBe('packer')
+    })
+
+    it('should default to packer when the lookup fails', async () => {
+      mockTeams.listMemberships.mockRejectedValue(new Error('Team not found'))
+
+      const result = await authService.getRole('user-123')
+
+      expect(result).toBe('packer')
+    })
+  })
+
   describe('updateName', () => {
     it('should update user name', async () => {
       const updatedUser = { ...mockUser, name: 'New Name' }
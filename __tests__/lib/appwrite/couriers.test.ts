@@ -0,0 +1,200 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { checkWaybill, courierService, hasValidCheckDigit } from '@/lib/appwrite/couriers'
+import { setCurrentRole } from '@/lib/appwrite/roles'
+import { COLLECTIONS } from '@/types/courier'
+import type { Courier } from '@/types/courier'
+
+const mockDatabaseService = {
+  createDocument: vi.fn(),
+  getDocument: vi.fn(),
+  listDocuments: vi.fn(),
+  updateDocument: vi.fn(),
+  deleteDocument: vi.fn(),
+}
+
+const mockAuditLog = vi.fn()
+
+vi.mock('@/lib/appwrite/database', () => ({
+  databaseService: {
+    createDocument: (...args: unknown[]) => mockDatabaseService.createDocument(...args),
+    getDocument: (...args: unknown[]) => mockDatabaseService.getDocument(...args),
+    listDocuments: (...args: unknown[]) => mockDatabaseService.listDocuments(...args),
+    updateDocument: (...args: unknown[]) => mockDatabaseService.updateDocument(...args),
+    deleteDocument: (...args: unknown[]) => mockDatabaseService.deleteDocument(...args),
+  },
+  Query: {
+    limit: (value: number) => `limit(${value})`,
+    orderAsc: (field: string) => `orderAsc("${field}")`,
+  },
+}))
+
+vi.mock('@/lib/appwrite/audit-log', () => ({
+  auditLogService: {
+    log: (...args: unknown[]) => mockAuditLog(...args),
+  },
+}))
+
+const baseCourier: Courier = {
+  $id: 'courier-jt',
+  $collectionId: 'couriers',
+  $databaseId: 'main',
+  $createdAt: '2024-01-01T00:00:00.000Z',
+  $updatedAt: '2024-01-01T00:00:00.000Z',
+  $permissions: [],
+  $sequence: 0,
+  name: 'J&T Express',
+  prefix: 'JT',
+  pattern: null,
+  length: 13,
+  check_digit: 'luhn',
+}
+
+const postCourier: Courier = {
+  ...baseCourier,
+  $id: 'courier-post',
+  name: 'Post',
+  prefix: null,
+  pattern: '[A-Z]{2}\\d{9}[A-Z]{2}',
+  length: null,
+  check_digit: 's10',
+}
+
+describe('hasValidCheckDigit', () => {
+  it('should check Luhn digits after the prefix', () => {
+    expect(hasValidCheckDigit('JT79927398713', 'luhn', 'JT')).toBe(true)
+    expect(hasValidCheckDigit('JT79927398714', 'luhn', 'JT')).toBe(false)
+  })
+
+  it('should check mod 7 digits', () => {
+    expect(hasValidCheckDigit('12345675', 'mod7')).toBe(true)
+    expect(hasValidCheckDigit('12345670', 'mod7')).toBe(false)
+  })
+
+  it('should check UPU S10 numbers', () => {
+    expect(hasValidCheckDigit('RR473124829GB', 's10')).toBe(true)
+    expect(hasValidCheckDigit('RR473124828GB', 's10')).toBe(false)
+    expect(hasValidCheckDigit('RR47312482GB', 's10')).toBe(false)
+  })
+})
+
+describe('checkWaybill', () => {
+  const couriers = [baseCourier, postCourier]
+
+  it('should detect the courier of a valid waybill', () => {
+    expect(checkWaybill('JT79927398713', couriers)).toEqual({ status: 'valid', courier: baseCourier })
+    expect(checkWaybill('RR473124829GB', couriers)).toEqual({ status: 'valid', courier: postCourier })
+  })
+
+  it('should flag a partial scan by its length', () => {
+    expect(checkWaybill('JT7992739871', couriers)).toEqual({
+      status: 'invalid',
+      courier: baseCourier,
+      issue: 'length',
+    })
+  })
+
+  it('should flag a mistyped waybill by its check digit', () => {
+    expect(checkWaybill('JT79927398714', couriers)).toEqual({
+      status: 'invalid',
+      courier: baseCourier,
+      issue: 'check_digit',
+    })
+  })
+
+  it('should report waybills no courier claims as unknown', () => {
+    expect(checkWaybill('ABC123', couriers)).toEqual({ status: 'unknown' })
+    expect(checkWaybill('JT79927398713', [])).toEqual({ status: 'unknown' })
+  })
+
+  it('should prefer a courier the waybill fully fits', () => {
+    const strictCourier = { ...baseCourier, $id: 'courier-strict', length: 20 }
+
+    expect(checkWaybill('JT79927398713', [strictCourier, baseCourier])).toEqual({
+      status: 'valid',
+      courier: baseCourier,
+    })
+  })
+})
+
+describe('courierService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockAuditLog.mockResolvedValue(null)
+    setCurrentRole('admin')
+  })
+
+  describe('list', () => {
+    it('should list couriers by name', async () => {
+      mockDatabaseService.listDocuments.mockResolvedValue({ documents: [baseCourier], total: 1 })
+
+      const result = await courierService.list()
+
+      expect(result).toEqual([baseCourier])
+      expect(mockDatabaseService.listDocuments).toHaveBeenCalledWith(COLLECTIONS.COURIERS, [
+        'orderAsc("name")',
+        'limit(100)',
+      ])
+    })
+  })
+
+  describe('create', () => {
+    it('should create a courier and audit it', async () => {
+      mockDatabaseService.createDocument.mockResolvedValue(baseCourier)
+
+      const result = await courierService.create({ name: 'J&T Express', prefix: 'JT', length: 13 })
+
+      expect(result).toEqual(baseCourier)
+      expect(mockDatabaseService.createDocument).toHaveBeenCalledWith(COLLECTIONS.COURIERS, {
+        name: 'J&T Express',
+        prefix: 'JT',
+        pattern: null,
+        length: 13,
+        check_digit: null,
+      })
+      expect(mockAuditLog).toHaveBeenCalledWith('courier_create', 'courier', expect.objectContaining({
+        resource_id: 'courier-jt',
+      }))
+    })
+
+    it('should refuse a courier without a prefix, pattern or length', async () => {
+      await expect(courierService.create({ name: 'Vague' })).rejects.toThrow(
+        'A courier needs a prefix, a pattern or a length'
+      )
+      expect(mockDatabaseService.createDocument).not.toHaveBeenCalled()
+    })
+
+    it('should refuse an invalid pattern', async () => {
+      await expect(courierService.create({ name: 'Broken', pattern: '[A-Z' })).rejects.toThrow(
+        'Invalid waybill pattern'
+      )
+      expect(mockAuditLog).toHaveBeenCalledWith('courier_create', 'courier', expect.objectContaining({
+        status: 'failure',
+      }))
+    })
+
+    it('should deny non-admins', async () => {
+      setCurrentRole('supervisor')
+
+      await expect(
+        courierService.create({ name: 'J&T Express', prefix: 'JT' })
+      ).rejects.toThrow('Permission denied: requires admin role')
+      expect(mockDatabaseService.createDocument).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('update', () => {
+    it('should validate the update against the saved profile', async () => {
+      mockDatabaseService.getDocument.mockResolvedValue(baseCourier)
+      mockDatabaseService.updateDocument.mockResolvedValue({ ...baseCourier, length: null })
+
+      await courierService.update('courier-jt', { length: null })
+
+      expect(mockDatabaseService.updateDocument).toHaveBeenCalledWith(
+        COLLECTIONS.COURIERS,
+        'courier-jt',
+        { length: null }
+      )
+    })
+  })
+})
@@ -0,0 +1,170 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { dashboardService, summarizePackaging } from '@/lib/appwrite/dashboard'
+import type { PackagingItem, PackagingRecord } from '@/types/packaging'
+
+const mockListByDate = vi.fn()
+const mockCacheGet = vi.fn()
+const mockProductList = vi.fn()
+
+vi.mock('@/lib/appwrite/packaging', () => ({
+  packagingRecordService: {
+    listByDate: (...args: unknown[]) => mockListByDate(...args),
+  },
+}))
+
+vi.mock('@/lib/appwrite/packaging-cache', () => ({
+  packagingCacheService: {
+    get: (...args: unknown[]) => mockCacheGet(...args),
+  },
+}))
+
+vi.mock('@/lib/appwrite/products', () => ({
+  productService: {
+    list: (...args: unknown[]) => mockProductList(...args),
+  },
+}))
+
+vi.mock('@/lib/utils', () => ({
+  getTodayDate: () => '2024-01-16',
+}))
+
+function makeItem(barcode: string, scannedAt: string, productName?: string) {
+  return {
+    $id: `${barcode}-${scannedAt}`,
+    packaging_record_id: 'record',
+    product_barcode: barcode,
+    scanned_at: scannedAt,
+    ...(productName ? { product_name: productName } : {}),
+  } as PackagingItem & { product_name?: string }
+}
+
+function makeRecord(
+  id: string,
+  date: string,
+  items: Array<PackagingItem & { product_name?: string }>
+) {
+  return {
+    $id: id,
+    packaging_date: date,
+    waybill_number: `WB-${id}`,
+    items,
+  } as PackagingRecord & { items: typeof items }
+}
+
+describe('summarizePackaging', () => {
+  it('should produce one entry per day including empty days', () => {
+    const stats = summarizePackaging('2024-01-14', '2024-01-16', [
+      makeRecord('r1', '2024-01-15', [makeItem('A', '2024-01-15T10:00:00')]),
+    ])
+
+    expect(stats.days).toEqual([
+      { date: '2024-01-14', waybills: 0, items: 0 },
+      { date: '2024-01-15', waybills: 1, items: 1 },
+      { date: '2024-01-16', waybills: 0, items: 0 },
+    ])
+    expect(stats.totalWaybills).toBe(1)
+    expect(stats.totalItems).toBe(1)
+  })
+
+  it('should bucket items by local hour', () => {
+    const stats = summarizePackaging('2024-01-15', '2024-01-15', [
+      makeRecord('r1', '2024-01-15', [
+        makeItem('A', '2024-01-15T09:15:00'),
+        makeItem('B', '2024-01-15T09:45:00'),
+        makeItem('C', '2024-01-15T14:00:00'),
+      ]),
+    ])
+
+    expect(stats.itemsByHour).toHaveLength(24)
+    expect(stats.itemsByHour[9]).toBe(2)
+    expect(stats.itemsByHour[14]).toBe(1)
+  })
+
+  it('should rank top products by quantity and respect the limit', () => {
+    const stats = summarizePackaging(
+      '2024-01-15',
+      '2024-01-15',
+      [
+        makeRecord('r1', '2024-01-15', [
+          makeItem('A', '2024-01-15T09:00:00', 'Product A'),
+          makeItem('B', '2024-01-15T09:00:00', 'Product B'),
+          makeItem('B', '2024-01-15T09:01:00', 'Product B'),
+          makeItem('C', '2024-01-15T09:02:00'),
+        ]),
+      ],
+      2
+    )
+
+    expect(stats.topProducts).toEqual([
+      { barcode: 'B', name: 'Product B', quantity: 2 },
+      { barcode: 'A', name: 'Product A', quantity: 1 },
+    ])
+  })
+
+  it('should ignore records outside the range', () => {
+    const stats = summarizePackaging('2024-01-15', '2024-01-15', [
+      makeRecord('r1', '2024-01-10', [makeItem('A', '2024-01-10T09:00:00')]),
+    ])
+
+    expect(stats.totalWaybills).toBe(0)
+    expect(stats.topProducts).toEqual([])
+  })
+})
+
+describe('dashboardService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('getRecordsForDate', () => {
+    it('should always read today from the database', async () => {
+      mockListByDate.mockResolvedValue([])
+
+      await dashboardService.getRecordsForDate('2024-01-16')
+
+      expect(mockCacheGet).not.toHaveBeenCalled()
+      expect(mockListByDate).toHaveBeenCalledWith('2024-01-16')
+    })
+
+    it('should use the cache for past dates', async () => {
+      const cached = [makeRecord('r1', '2024-01-15', [])]
+      mockCacheGet.mockResolvedValue(cached)
+
+      const result = await dashboardService.getRecordsForDate('2024-01-15')
+
+      expect(result).toBe(cached)
+      expect(mockListByDate).not.toHaveBeenCalled()
+    })
+
+    it('should fall back to the database on cache miss', async () => {
+      mockCacheGet.mockResolvedValue(null)
+      mockListByDate.mockResolvedValue([])
+
+      await dashboardService.getRecordsForDate('2024-01-15')
+
+      expect(mockListByDate).toHaveBeenCalledWith('2024-01-15')
+    })
+  })
+
+  describe('getPackagingStats', () => {
+    it('should resolve names for unnamed top products', async () => {
+      mockCacheGet.mockResolvedValue(null)
+      mockListByDate.mockImplementation(async (date: string) =>
+        date === '2024-01-16'
+          ? [makeRecord('r1', date, [makeItem('A', '2024-01-16T09:00:00')])]
+          : []
+      )
+      mockProductList.mockResolvedValue({
+        documents: [{ barcode: 'A', name: 'Resolved A' }],
+        total: 1,
+      })
+
+      const stats = await dashboardService.getPackagingStats('2024-01-15', '2024-01-16')
+
+      expect(mockListByDate).toHaveBeenCalledTimes(2)
+      expect(mockProductList).toHaveBeenCalledWith({ barcodes: ['A'], limit: 1 })
+      expect(stats.topProducts).toEqual([{ barcode: 'A', name: 'Resolved A', quantity: 1 }])
+    })
+  })
+})
@@ -1,6 +1,7 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest'
 
 import { jobService } from '@/lib/appwrite/jobs'
+import { setCurrentRole } from '@/lib/appwrite/roles'
 import { COLLECTIONS } from '@/types/job'
 import type { ImportJob } from '@/types/job'
 
@@ -100,11 +101,23 @@ const mockExportJob: ImportJob = {
 describe('jobService', () => {
   beforeEach(() => {
     vi.clearAllMocks()
+    setCurrentRole('supervisor')
     // Reset Date.now mock
     vi.spyOn(Date, 'now').mockReturnValue(new Date('2024-01-01T00:05:00.000Z').getTime())
   })
 
   describe('queueImport', () => {
+    it('should reject imports for packers before uploading', async () => {
+      setCurrentRole('packer')
+      const file = new File(['test content'], 'test.xlsx')
+
+      await expect(jobService.queueImport(file, 'user-123')).rejects.toThrow(
+        'Permission denied: requires supervisor role'
+      )
+
+      expect(mockStorage.createFile).not.toHaveBeenCalled()
+    })
+
     it('should upload file and queue import job', async () => {
       const file = new File(['test content'], 'test.xlsx', {
         type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
@@ -643,6 +656,7 @@ describe('jobService', () => {
 describe('jobService edge cases', () => {
   beforeEach(() => {
     vi.clearAllMocks()
+    setCurrentRole('supervisor')
   })
 
   describe('parsing edge cases', () => {
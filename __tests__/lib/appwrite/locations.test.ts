@@ -0,0 +1,291 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { locationService, locationStockService } from '@/lib/appwrite/locations'
+import { setCurrentRole } from '@/lib/appwrite/roles'
+import { COLLECTIONS } from '@/types/location'
+import type { Location, ProductStock } from '@/types/location'
+import type { Product } from '@/types/product'
+
+const mockDatabaseService = {
+  createDocument: vi.fn(),
+  getDocument: vi.fn(),
+  listDocuments: vi.fn(),
+  updateDocument: vi.fn(),
+  deleteDocument: vi.fn(),
+}
+
+const mockAuditLog = vi.fn()
+
+vi.mock('@/lib/appwrite/database', () => ({
+  databaseService: {
+    createDocument: (...args: unknown[]) => mockDatabaseService.createDocument(...args),
+    getDocument: (...args: unknown[]) => mockDatabaseService.getDocument(...args),
+    listDocuments: (...args: unknown[]) => mockDatabaseService.listDocuments(...args),
+    updateDocument: (...args: unknown[]) => mockDatabaseService.updateDocument(...args),
+    deleteDocument: (...args: unknown[]) => mockDatabaseService.deleteDocument(...args),
+  },
+  Query: {
+    equal: (field: string, value: unknown) => `equal("${field}", ${JSON.stringify(value)})`,
+    limit: (value: number) => `limit(${value})`,
+    orderAsc: (field: string) => `orderAsc("${field}")`,
+    orderDesc: (field: string) => `orderDesc("${field}")`,
+    cursorAfter: (id: string) => `cursorAfter("${id}")`,
+  },
+}))
+
+vi.mock('@/lib/appwrite/audit-log', () => ({
+  auditLogService: {
+    log: (...args: unknown[]) => mockAuditLog(...args),
+  },
+}))
+
+const mainWarehouse: Location = {
+  $id: 'loc-main',
+  $collectionId: 'locations',
+  $databaseId: 'main',
+  $createdAt: '2024-01-01T00:00:00.000Z',
+  $updatedAt: '2024-01-01T00:00:00.000Z',
+  $permissions: [],
+  $sequence: 0,
+  name: 'Main Warehouse',
+  code: 'MAIN',
+  is_default: true,
+}
+
+const warehouseB: Location = {
+  ...mainWarehouse,
+  $id: 'loc-b',
+  name: 'Warehouse B',
+  code: 'B',
+  is_default: false,
+}
+
+const mockProduct: Product = {
+  $id: 'prod-1',
+  $collectionId: 'products',
+  $databaseId: 'main',
+  $createdAt: '2024-01-01T00:00:00.000Z',
+  $updatedAt: '2024-01-01T00:00:00.000Z',
+  $permissions: [],
+  $sequence: 0,
+  barcode: '1234567890128',
+  sku_code: 'SKU-001',
+  name: 'Test Product',
+  type: 'single',
+  cost: 29.99,
+  stock_quantity: 100,
+}
+
+const stockRow = {
+  $id: 'stock-1',
+  product_id: 'prod-1',
+  location_id: 'loc-b',
+  quantity: 30,
+} as ProductStock
+
+describe('locationService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockAuditLog.mockResolvedValue(null)
+    setCurrentRole('admin')
+  })
+
+  describe('list', () => {
+    it('should list locations with the default first', async () => {
+      mockDatabaseService.listDocuments.mockResolvedValue({
+        documents: [mainWarehouse, warehouseB],
+        total: 2,
+      })
+
+      const result = await locationService.list()
+
+      expect(result).toEqual([mainWarehouse, warehouseB])
+      expect(mockDatabaseService.listDocuments).toHaveBeenCalledWith(COLLECTIONS.LOCATIONS, [
+        'orderDesc("is_default")',
+        'orderAsc("name")',
+        'limit(100)',
+      ])
+    })
+  })
+
+  describe('create', () => {
+    it('should create a non-default location and audit it', async () => {
+      mockDatabaseService.createDocument.mockResolvedValue(warehouseB)
+
+      const result = await locationService.create({ name: 'Warehouse B', code: 'B' })
+
+      expect(result).toEqual(warehouseB)
+      expect(mockDatabaseService.createDocument).toHaveBeenCalledWith(COLLECTIONS.LOCATIONS, {
+        name: 'Warehouse B',
+        code: 'B',
+        is_default: false,
+      })
+      expect(mockAuditLog).toHaveBeenCalledWith('location_create', 'location', expect.objectContaining({
+        resource_id: 'loc-b',
+      }))
+    })
+
+    it('should deny non-admins', async () => {
+      setCurrentRole('supervisor')
+
+      await expect(
+        locationService.create({ name: 'Warehouse B', code: 'B' })
+      ).rejects.toThrow('Permission denied: requires admin role')
+      expect(mockDatabaseService.createDocument).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('delete', () => {
+    it('should refuse to delete the default location', async () => {
+      mockDatabaseService.getDocument.mockResolvedValue(mainWarehouse)
+
+      await expect(locationService.delete('loc-main')).rejects.toThrow(
+        'Cannot delete the default location'
+      )
+      expect(mockDatabaseService.deleteDocument).not.toHaveBeenCalled()
+    })
+
+    it('should refuse to delete a location that still holds stock', async () => {
+      mockDatabaseService.getDocument.mockResolvedValue(warehouseB)
+      mockDatabaseService.listDocuments.mockResolvedValue({ documents: [stockRow], total: 1 })
+
+      await expect(locationService.delete('loc-b')).rejects.toThrow('still holds stock')
+      expect(mockDatabaseService.deleteDocument).not.toHaveBeenCalled()
+    })
+
+    it('should delete an empty location with its stock rows', async () => {
+      mockDatabaseService.getDocument.mockResolvedValue(warehouseB)
+      mockDatabaseService.listDocuments.mockResolvedValue({
+        documents: [{ ...stockRow, quantity: 0 }],
+        total: 1,
+      })
+
+      await locationService.delete('loc-b')
+
+      expect(mockDatabaseService.deleteDocument).toHaveBeenCalledWith(COLLECTIONS.PRODUCT_STOCK, 'stock-1')
+      expect(mockDatabaseService.deleteDocument).toHaveBeenCalledWith(COLLECTIONS.LOCATIONS, 'loc-b')
+    })
+  })
+})
+
+describe('locationStockService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockAuditLog.mockResolvedValue(null)
+    setCurrentRole('supervisor')
+  })
+
+  describe('getQuantities', () => {
+    it('should read quantities from stock rows at a non-default location', async () => {
+      mockDatabaseService.listDocuments.mockResolvedValue({ documents: [stockRow], total: 1 })
+
+      const result = await locationStockService.getQuantities(
+        [mockProduct, { ...mockProduct, $id: 'prod-2' }],
+        warehouseB
+      )
+
+      expect(result.get('prod-1')).toBe(30)
+      expect(result.get('prod-2')).toBe(0)
+    })
+
+    it('should give the default location whatever is not held elsewhere', async () => {
+      mockDatabaseService.listDocuments.mockResolvedValue({ documents: [stockRow], total: 1 })
+
+      const result = await locationStockService.getQuantities([mockProduct], mainWarehouse)
+
+      expect(result.get('prod-1')).toBe(70)
+    })
+  })
+
+  describe('_listInternal', () => {
+    it('should query product IDs in chunks of 60', async () => {
+      mockDatabaseService.listDocuments.mockResolvedValue({ documents: [], total: 0 })
+      const productIds = Array.from({ length: 61 }, (_, i) => `prod-${i}`)
+
+      await locationStockService._listInternal(productIds, 'loc-b')
+
+      expect(mockDatabaseService.listDocuments).toHaveBeenCalledTimes(2)
+      expect(mockDatabaseService.listDocuments).toHaveBeenLastCalledWith(COLLECTIONS.PRODUCT_STOCK, [
+        'limit(1000)',
+        'equal("product_id", ["prod-60"])',
+        'equal("location_id", "loc-b")',
+      ])
+    })
+
+    it('should page with a cursor until the rows run out', async () => {
+      const page = Array.from({ length: 1000 }, (_, i) => ({ ...stockRow, $id: `stock-${i}` }))
+      mockDatabaseService.listDocuments
+        .mockResolvedValueOnce({ documents: page, total: 1001 })
+        .mockResolvedValueOnce({ documents: [{ ...stockRow, $id: 'stock-1000' }], total: 1001 })
+
+      const rows = await locationStockService._listInternal([])
+
+      expect(rows).toHaveLength(1001)
+      expect(mockDatabaseService.listDocuments).toHaveBeenLastCalledWith(COLLECTIONS.PRODUCT_STOCK, [
+        'limit(1000)',
+        'cursorAfter("stock-999")',
+      ])
+    })
+  })
+
+  describe('applyToProducts', () => {
+    it('should return copies with the location quantity as stock', async () => {
+      mockDatabaseService.listDocuments.mockResolvedValue({ documents: [stockRow], total: 1 })
+
+      const [result] = await locationStockService.applyToProducts([mockProduct], warehouseB)
+
+      expect(result.stock_quantity).toBe(30)
+      expect(mockProduct.stock_quantity).toBe(100)
+    })
+  })
+
+  describe('getStockByLocation', () => {
+    it('should split each product across every location in one query', async () => {
+      mockDatabaseService.listDocuments.mockResolvedValue({ documents: [stockRow], total: 1 })
+
+      const result = await locationStockService.getStockByLocation(
+        [mockProduct, { ...mockProduct, $id: 'prod-2' }],
+        [mainWarehouse, warehouseB]
+      )
+
+      expect(mockDatabaseService.listDocuments).toHaveBeenCalledTimes(1)
+      expect(result.get('prod-1')).toEqual(new Map([['loc-b', 30], ['loc-main', 70]]))
+      expect(result.get('prod-2')).toEqual(new Map([['loc-b', 0], ['loc-main', 100]]))
+    })
+  })
+
+  describe('transfer', () => {
+    it('should move stock from the default location without touching the total', async () => {
+      mockDatabaseService.listDocuments.mockResolvedValue({ documents: [stockRow], total: 1 })
+
+      await locationStockService.transfer(mockProduct, mainWarehouse, warehouseB, 20)
+
+      expect(mockDatabaseService.updateDocument).toHaveBeenCalledTimes(1)
+      expect(mockDatabaseService.updateDocument).toHaveBeenCalledWith(
+        COLLECTIONS.PRODUCT_STOCK,
+        'stock-1',
+        { quantity: 50 }
+      )
+    })
+
+    it('should refuse to move more than the source location holds', async () => {
+      mockDatabaseService.listDocuments.mockResolvedValue({ documents: [stockRow], total: 1 })
+
+      await expect(
+        locationStockService.transfer(mockProduct, warehouseB, mainWarehouse, 31)
+      ).rejects.toThrow('Insufficient stock for Test Product at Warehouse B')
+      expect(mockDatabaseService.updateDocument).not.toHaveBeenCalled()
+      expect(mockAuditLog).toHaveBeenCalledWith('location_stock_transfer', 'location', expect.objectContaining({
+        status: 'failure',
+      }))
+    })
+
+    it('should deny packers', async () => {
+      setCurrentRole('packer')
+
+      await expect(
+        locationStockService.transfer(mockProduct, mainWarehouse, warehouseB, 1)
+      ).rejects.toThrow('Permission denied: requires supervisor role')
+    })
+  })
+})
@@ -0,0 +1,68 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { isCacheComplete, packagingCacheService } from '@/lib/appwrite/packaging-cache'
+import { PACKAGING_CACHE_VERSION } from '@/types/packaging'
+
+const mockDatabaseService = {
+  listDocuments: vi.fn(),
+}
+
+vi.mock('@/lib/appwrite/database', () => ({
+  databaseService: {
+    listDocuments: (...args: unknown[]) => mockDatabaseService.listDocuments(...args),
+  },
+  Query: {
+    equal: (field: string, value: unknown) => `equal("${field}", ${JSON.stringify(value)})`,
+    limit: (value: number) => `limit(${value})`,
+  },
+}))
+
+const cachedRecords = [{ $id: 'record-1', packaging_date: '2024-01-15', waybill_number: 'WB1', items: [] }]
+
+function mockCache(overrides: Record<string, unknown> = {}) {
+  mockDatabaseService.listDocuments.mockResolvedValue({
+    documents: [
+      {
+        $id: 'cache-1',
+        cache_date: '2024-01-15',
+        data: JSON.stringify(cachedRecords),
+        cached_at: '2024-01-16T12:00:00.000Z',
+        schema_version: PACKAGING_CACHE_VERSION,
+        ...overrides,
+      },
+    ],
+    total: 1,
+  })
+}
+
+describe('isCacheComplete', () => {
+  it('should need the cache written after the date ended at UTC-12', () => {
+    expect(isCacheComplete('2024-01-15', '2024-01-16T12:00:00.000Z')).toBe(true)
+    expect(isCacheComplete('2024-01-15', '2024-01-16T11:59:59.999Z')).toBe(false)
+  })
+})
+
+describe('packagingCacheService.get', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  it('should return a complete cache of the current layout', async () => {
+    mockCache()
+
+    await expect(packagingCacheService.get('2024-01-15')).resolves.toEqual(cachedRecords)
+  })
+
+  it('should miss a cache written before the day ended', async () => {
+    mockCache({ cached_at: '2024-01-15T23:00:00.000Z' })
+
+    await expect(packagingCacheService.get('2024-01-15')).resolves.toBeNull()
+  })
+
+  it('should miss a cache of an older layout', async () => {
+    mockCache({ schema_version: null })
+
+    await expect(packagingCacheService.get('2024-01-15')).resolves.toBeNull()
+  })
+})
@@ -0,0 +1,161 @@
+import { AppwriteException } from 'appwrite'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import {
+  DRAFT_TTL_MS,
+  getStationId,
+  isDraftActive,
+  packagingDraftService,
+} from '@/lib/appwrite/packaging-drafts'
+import { COLLECTIONS } from '@/types/packaging'
+import type { PackagingDraft } from '@/types/packaging'
+
+const mockDatabaseService = {
+  createDocument: vi.fn(),
+  listDocuments: vi.fn(),
+  deleteDocument: vi.fn(),
+}
+
+vi.mock('@/lib/appwrite/database', () => ({
+  databaseService: {
+    createDocument: (...args: unknown[]) => mockDatabaseService.createDocument(...args),
+    listDocuments: (...args: unknown[]) => mockDatabaseService.listDocuments(...args),
+    deleteDocument: (...args: unknown[]) => mockDatabaseService.deleteDocument(...args),
+  },
+  Query: {
+    equal: (field: string, value: unknown) => `equal("${field}", ${JSON.stringify(value)})`,
+    limit: (value: number) => `limit(${value})`,
+  },
+}))
+
+vi.mock('@/lib/appwrite/audit-log', () => ({
+  getAuditUserContext: () => ({ user_id: 'user-1', user_email: 'packer@example.com' }),
+}))
+
+const draft = (overrides: Partial<PackagingDraft> = {}): PackagingDraft => ({
+  $id: 'draft-1',
+  $collectionId: 'packaging_drafts',
+  $databaseId: 'main',
+  $createdAt: '2026-10-19T08:00:00.000Z',
+  $updatedAt: '2026-10-19T08:00:00.000Z',
+  $permissions: [],
+  $sequence: 0,
+  packaging_date: '2026-10-19',
+  waybill_number: 'WB123',
+  station_id: 'station_other',
+  user_id: 'user-2',
+  user_email: 'other@example.com',
+  claimed_at: new Date().toISOString(),
+  ...overrides,
+})
+
+describe('getStationId', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  it('should keep the same ID for the browser', () => {
+    const stationId = getStationId()
+
+    expect(stationId).toMatch(/^station_/)
+    expect(getStationId()).toBe(stationId)
+  })
+})
+
+describe('isDraftActive', () => {
+  it('should expire drafts after the TTL', () => {
+    const claimedAt = new Date('2026-10-19T08:00:00.000Z')
+    const active = draft({ claimed_at: claimedAt.toISOString() })
+
+    expect(isDraftActive(active, claimedAt.getTime() + DRAFT_TTL_MS - 1)).toBe(true)
+    expect(isDraftActive(active, claimedAt.getTime() + DRAFT_TTL_MS)).toBe(false)
+  })
+})
+
+describe('packagingDraftService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    localStorage.clear()
+  })
+
+  describe('claim', () => {
+    it('should claim a waybill no station holds', async () => {
+      const created = draft({ station_id: getStationId(), user_id: 'user-1' })
+      mockDatabaseService.listDocuments.mockResolvedValue({ documents: [], total: 0 })
+      mockDatabaseService.createDocument.mockResolvedValue(created)
+
+      const claim = await packagingDraftService.claim('2026-10-19', 'WB123')
+
+      expect(claim).toEqual({ claimed: true, draft: created })
+      expect(mockDatabaseService.createDocument).toHaveBeenCalledWith(
+        COLLECTIONS.PACKAGING_DRAFTS,
+        expect.objectContaining({
+          packaging_date: '2026-10-19',
+          waybill_number: 'WB123',
+          station_id: getStationId(),
+          user_id: 'user-1',
+          user_email: 'packer@example.com',
+        })
+      )
+    })
+
+    it('should not claim a waybill another station is packing', async () => {
+      const held = draft()
+      mockDatabaseService.listDocuments.mockResolvedValue({ documents: [held], total: 1 })
+
+      const claim = await packagingDraftService.claim('2026-10-19', 'WB123')
+
+      expect(claim).toEqual({ claimed: false, draft: held })
+      expect(mockDatabaseService.createDocument).not.toHaveBeenCalled()
+    })
+
+    it('should take over an expired draft', async () => {
+      const stale = draft({ claimed_at: new Date(Date.now() - DRAFT_TTL_MS - 1000).toISOString() })
+      mockDatabaseService.listDocuments.mockResolvedValue({ documents: [stale], total: 1 })
+      mockDatabaseService.createDocument.mockResolvedValue(draft({ $id: 'draft-2' }))
+
+      const claim = await packagingDraftService.claim('2026-10-19', 'WB123')
+
+      expect(claim.claimed).toBe(true)
+      expect(mockDatabaseService.deleteDocument).toHaveBeenCalledWith(
+        COLLECTIONS.PACKAGING_DRAFTS,
+        'draft-1'
+      )
+    })
+
+    it('should lose a claim raced by another station', async () => {
+      const winner = draft()
+      mockDatabaseService.listDocuments
+        .mockResolvedValueOnce({ documents: [], total: 0 })
+        .mockResolvedValueOnce({ documents: [winner], total: 1 })
+      mockDatabaseService.createDocument.mockRejectedValue(
+        new AppwriteException('Document already exists', 409)
+      )
+
+      const claim = await packagingDraftService.claim('2026-10-19', 'WB123')
+
+      expect(claim).toEqual({ claimed: false, draft: winner })
+    })
+  })
+
+  describe('release', () => {
+    it('should delete the draft', async () => {
+      mockDatabaseService.deleteDocument.mockResolvedValue(undefined)
+
+      await packagingDraftService.release('draft-1')
+
+      expect(mockDatabaseService.deleteDocument).toHaveBeenCalledWith(
+        COLLECTIONS.PACKAGING_DRAFTS,
+        'draft-1'
+      )
+    })
+
+    it('should ignore drafts that are already gone', async () => {
+      mockDatabaseService.deleteDocument.mockRejectedValue(
+        new AppwriteException('Document not found', 404)
+      )
+
+      await expect(packagingDraftService.release('draft-1')).resolves.toBeUndefined()
+    })
+  })
+})
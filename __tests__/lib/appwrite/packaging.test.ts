@@ -4,8 +4,17 @@ import {
   packagingRecordService,
   packagingItemService,
 } from '@/lib/appwrite/packaging'
+import { functions } from '@/lib/appwrite/config'
+import { productService } from '@/lib/appwrite/products'
+import { setAuditUserContext } from '@/lib/appwrite/audit-log'
+import { setCurrentRole } from '@/lib/appwrite/roles'
 import { COLLECTIONS } from '@/types/packaging'
-import type { PackagingRecord, PackagingItem } from '@/types/packaging'
+import type {
+  PackagingRecord,
+  PackagingItem,
+  PackagingRecordWithProducts,
+} from '@/types/packaging'
+import type { Product } from '@/types/product'
 
 const mockDatabaseService = {
   createDocument: vi.fn(),
@@ -58,6 +67,7 @@ const mockPackagingItem: PackagingItem = {
 describe('packagingRecordService', () => {
   beforeEach(() => {
     vi.clearAllMocks()
+    setCurrentRole('supervisor')
   })
 
   describe('create', () => {
@@ -336,11 +346,447 @@ describe('packagingRecordService', () => {
       expect(deleteOrder).toEqual(['item-1', 'record-1'])
     })
   })
+
+  describe('getLatestByWaybill', () => {
+    it('should return null when the waybill has no record', async () => {
+      mockDatabaseService.listDocuments.mockResolvedValue({ documents: [], total: 0 })
+
+      const result = await packagingRecordService.getLatestByWaybill('WB-UNKNOWN')
+
+      expect(result).toBeNull()
+      expect(mockDatabaseService.listDocuments).toHaveBeenCalledWith(
+        COLLECTIONS.PACKAGING_RECORDS,
+        expect.arrayContaining([
+          'equal("waybill_number", "WB-UNKNOWN")',
+          'orderDesc("packaging_date")',
+          'limit(1)',
+        ])
+      )
+    })
+
+    it('should return the latest record with enriched items', async () => {
+      mockDatabaseService.listDocuments
+        .mockResolvedValueOnce({ documents: [mockPackagingRecord], total: 1 })
+        .mockResolvedValueOnce({ documents: [mockPackagingItem], total: 1 })
+      vi.spyOn(packagingRecordService, 'enrichWithProducts').mockImplementation(
+        async (records) =>
+          records.map((record) => ({
+            ...record,
+            items: record.items.map((item) => ({ ...item, product_name: 'Test Product' })),
+          }))
+      )
+
+      const result = await packagingRecordService.getLatestByWaybill('WB-12345')
+
+      expect(result?.$id).toBe('record-1')
+      expect(result?.items).toHaveLength(1)
+      expect(result?.items[0].product_name).toBe('Test Product')
+    })
+  })
+
+  describe('enrichItems', () => {
+    beforeEach(() => {
+      vi.restoreAllMocks()
+    })
+
+    it('should read the pack-time snapshot without looking products up', async () => {
+      const listSpy = vi.spyOn(productService, 'list')
+      const snapshotted: PackagingItem = {
+        ...mockPackagingItem,
+        product_barcode: 'GIFT-BOX',
+        product_name: 'Gift Box (2024)',
+        unit_cost: 12.5,
+        components_snapshot: JSON.stringify([
+          { barcode: 'MUG', product_name: 'Mug', quantity: 2, unit_cost: 4 },
+        ]),
+      }
+
+      const [item] = await packagingRecordService.enrichItems([snapshotted])
+
+      expect(listSpy).not.toHaveBeenCalled()
+      expect(item.product_name).toBe('Gift Box (2024)')
+      expect(item.is_bundle).toBe(true)
+      expect(item.bundle_components).toEqual([
+        { barcode: 'MUG', productName: 'Mug', quantity: 2, unitCost: 4 },
+      ])
+    })
+
+    it('should look up the current product for items packed before snapshots', async () => {
+      const product = { $id: 'prod-1', barcode: '1234567890128', name: 'Renamed Product', type: 'single' } as Product
+      const listSpy = vi.spyOn(productService, 'list').mockResolvedValue({ documents: [product], total: 1 })
+      const snapshotted: PackagingItem = {
+        ...mockPackagingItem,
+        $id: 'item-2',
+        product_barcode: 'OTHER',
+        product_name: 'Original Name',
+        unit_cost: 3,
+        components_snapshot: null,
+      }
+
+      const items = await packagingRecordService.enrichItems([mockPackagingItem, snapshotted])
+
+      expect(listSpy).toHaveBeenCalledWith({ barcodes: ['1234567890128'], limit: 50 })
+      expect(items.map((item) => item.product_name)).toEqual(['Renamed Product', 'Original Name'])
+      expect(items[1].is_bundle).toBe(false)
+    })
+  })
+
+  describe('createWithItemsViaFunction', () => {
+    const functionResponse = (body: object) =>
+      ({ responseBody: JSON.stringify(body) }) as Awaited<ReturnType<typeof functions.createExecution>>
+
+    const committed = {
+      success: true,
+      record: {
+        $id: 'record-1',
+        packaging_date: '2024-01-15',
+        waybill_number: 'WB-12345',
+        location_id: null,
+        $createdAt: '2024-01-15T10:00:00.000Z',
+      },
+      items: [
+        {
+          $id: 'item-1',
+          packaging_record_id: 'record-1',
+          product_barcode: '1234567890128',
+          scanned_at: '2024-01-15T10:05:00.000Z',
+        },
+      ],
+      stock_updates: { success: true, updated: 1, errors: [] },
+    }
+
+    const payloadOf = (call: unknown[]) => JSON.parse(call[1] as string)
+
+    it('should send the idempotency key with the commit', async () => {
+      const executeSpy = vi
+        .spyOn(functions, 'createExecution')
+        .mockResolvedValue(functionResponse(committed))
+
+      const result = await packagingRecordService.createWithItemsViaFunction(
+        { packaging_date: '2024-01-15', waybill_number: 'WB-12345' },
+        [{ product_barcode: '1234567890128' }],
+        [{ product_id: 'prod-1', deduct_amount: 1 }],
+        'commit-key-1'
+      )
+
+      expect(payloadOf(executeSpy.mock.calls[0])).toMatchObject({
+        idempotency_key: 'commit-key-1',
+        stock_updates: [{ product_id: 'prod-1', deduct_amount: 1 }],
+      })
+      expect(result.record.$id).toBe('record-1')
+      expect(result.replayed).toBe(false)
+    })
+
+    it('should drop the cache of a past date', async () => {
+      vi.spyOn(functions, 'createExecution').mockResolvedValue(functionResponse(committed))
+      mockDatabaseService.listDocuments.mockResolvedValue({ documents: [{ $id: 'cache-1' }], total: 1 })
+
+      await packagingRecordService.createWithItemsViaFunction(
+        { packaging_date: '2024-01-15', waybill_number: 'WB-12345' },
+        [{ product_barcode: '1234567890128' }]
+      )
+
+      expect(mockDatabaseService.listDocuments).toHaveBeenCalledWith(COLLECTIONS.PACKAGING_CACHE, [
+        'equal("cache_date", "2024-01-15")',
+        'limit(1)',
+      ])
+      expect(mockDatabaseService.deleteDocument).toHaveBeenCalledWith(COLLECTIONS.PACKAGING_CACHE, 'cache-1')
+    })
+
+    it('should send the packing times and return the packer', async () => {
+      const executeSpy = vi
+        .spyOn(functions, 'createExecution')
+        .mockResolvedValue(functionResponse({
+          ...committed,
+          record: {
+            ...committed.record,
+            packed_by: 'user-1',
+            packed_by_name: 'Alice',
+            started_at: '2024-01-15T09:58:00.000Z',
+            finished_at: '2024-01-15T10:00:00.000Z',
+          },
+        }))
+
+      const result = await packagingRecordService.createWithItemsViaFunction(
+        {
+          packaging_date: '2024-01-15',
+          waybill_number: 'WB-12345',
+          started_at: '2024-01-15T09:58:00.000Z',
+          finished_at: '2024-01-15T10:00:00.000Z',
+        },
+        [{ product_barcode: '1234567890128' }]
+      )
+
+      expect(payloadOf(executeSpy.mock.calls[0])).toMatchObject({
+        started_at: '2024-01-15T09:58:00.000Z',
+        finished_at: '2024-01-15T10:00:00.000Z',
+      })
+      expect(result.record).toMatchObject({
+        packed_by: 'user-1',
+        packed_by_name: 'Alice',
+        started_at: '2024-01-15T09:58:00.000Z',
+        finished_at: '2024-01-15T10:00:00.000Z',
+      })
+    })
+
+    it('should retry an unreachable function with the same key', async () => {
+      vi.useFakeTimers()
+      const executeSpy = vi
+        .spyOn(functions, 'createExecution')
+        .mockRejectedValueOnce(new Error('Network request failed'))
+        .mockResolvedValueOnce(functionResponse({ ...committed, replayed: true }))
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+      const promise = packagingRecordService.createWithItemsViaFunction(
+        { packaging_date: '2024-01-15', waybill_number: 'WB-12345' },
+        [{ product_barcode: '1234567890128' }]
+      )
+      await vi.runAllTimersAsync()
+      const result = await promise
+
+      expect(executeSpy).toHaveBeenCalledTimes(2)
+      const [first, second] = executeSpy.mock.calls.map(payloadOf)
+      expect(first.idempotency_key).toBeTruthy()
+      expect(second.idempotency_key).toBe(first.idempotency_key)
+      expect(result.replayed).toBe(true)
+
+      warnSpy.mockRestore()
+      vi.useRealTimers()
+    })
+
+    it('should not retry when the function rejects the commit', async () => {
+      const executeSpy = vi
+        .spyOn(functions, 'createExecution')
+        .mockResolvedValue(functionResponse({ success: false, error: 'Insufficient stock', rolled_back: true }))
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+
+      await expect(
+        packagingRecordService.createWithItemsViaFunction(
+          { packaging_date: '2024-01-15', waybill_number: 'WB-12345' },
+          [{ product_barcode: '1234567890128' }]
+        )
+      ).rejects.toThrow('Insufficient stock')
+      expect(executeSpy).toHaveBeenCalledTimes(1)
+
+      errorSpy.mockRestore()
+    })
+  })
+
+  describe('unpackItems', () => {
+    const unpackRecord: PackagingRecordWithProducts = {
+      ...mockPackagingRecord,
+      items: [
+        { ...mockPackagingItem, product_name: 'Test Product' },
+        { ...mockPackagingItem, $id: 'item-2', product_name: 'Test Product' },
+      ],
+    }
+
+    beforeEach(() => {
+      vi.restoreAllMocks()
+      vi.spyOn(productService, 'restoreStockForPackaging').mockResolvedValue({
+        success: true,
+        errors: [],
+      })
+    })
+
+    it('should update the record with remaining items on partial return', async () => {
+      const updateSpy = vi
+        .spyOn(packagingRecordService, 'updateViaFunction')
+        .mockResolvedValue({ record: mockPackagingRecord, items: [] })
+      const deleteSpy = vi.spyOn(packagingRecordService, 'deleteViaFunction')
+
+      const result = await packagingRecordService.unpackItems(unpackRecord, ['item-1'])
+
+      expect(updateSpy).toHaveBeenCalledWith('record-1', undefined, [
+        {
+          product_barcode: '1234567890128',
+          product_name: 'Test Product',
+          scanned_at: mockPackagingItem.scanned_at,
+        },
+      ])
+      expect(deleteSpy).not.toHaveBeenCalled()
+      expect(productService.restoreStockForPackaging).toHaveBeenCalledWith(
+        [{ product_barcode: '1234567890128', is_bundle: undefined, bundle_components: undefined }],
+        undefined,
+        { reason: 'unpack', sourceId: unpackRecord.$id }
+      )
+      expect(result).toEqual({
+        remainingCount: 1,
+        recordDeleted: false,
+        stockRestoreSuccess: true,
+        errors: [],
+      })
+    })
+
+    it('should delete the record without server-side restore on full return', async () => {
+      const deleteSpy = vi
+        .spyOn(packagingRecordService, 'deleteViaFunction')
+        .mockResolvedValue({ success: true, itemsDeleted: 2, stockRestoreSuccess: true })
+
+      const result = await packagingRecordService.unpackItems(unpackRecord, ['item-1', 'item-2'])
+
+      expect(deleteSpy).toHaveBeenCalledWith('record-1', false)
+      expect(productService.restoreStockForPackaging).toHaveBeenCalledTimes(1)
+      expect(result.recordDeleted).toBe(true)
+      expect(result.remainingCount).toBe(0)
+    })
+
+    it('should restore bundle components for returned bundles', async () => {
+      const bundle = { $id: 'bundle-1', barcode: 'BUNDLE-1', type: 'bundle' } as Product
+      const child = { $id: 'child-1', barcode: 'CHILD-1', type: 'single' } as Product
+      vi.spyOn(packagingRecordService, 'deleteViaFunction').mockResolvedValue({
+        success: true,
+        itemsDeleted: 1,
+        stockRestoreSuccess: true,
+      })
+      vi.spyOn(productService, 'getByBarcode').mockResolvedValue(bundle)
+      vi.spyOn(productService, 'getWithComponents').mockResolvedValue({
+        ...bundle,
+        components: [{ product: child, quantity: 2 }],
+      })
+
+      await packagingRecordService.unpackItems(
+        {
+          ...mockPackagingRecord,
+          items: [
+            {
+              ...mockPackagingItem,
+              product_barcode: 'BUNDLE-1',
+              product_name: 'Bundle',
+              is_bundle: true,
+            },
+          ],
+        },
+        ['item-1']
+      )
+
+      expect(productService.restoreStockForPackaging).toHaveBeenCalledWith(
+        [
+          {
+            product_barcode: 'BUNDLE-1',
+            is_bundle: true,
+            bundle_components: [{ product: child, quantity: 2 }],
+          },
+        ],
+        undefined,
+        expect.objectContaining({ reason: 'unpack' })
+      )
+    })
+
+    it('should restore returned bundles from their pack-time snapshot', async () => {
+      const mug = { $id: 'mug-1', barcode: 'MUG-1', type: 'single' } as Product
+      vi.spyOn(packagingRecordService, 'deleteViaFunction').mockResolvedValue({
+        success: true,
+        itemsDeleted: 1,
+        stockRestoreSuccess: true,
+      })
+      vi.spyOn(productService, '_resolveBarcodesInternal').mockResolvedValue(
+        new Map([['MUG-1', { product: mug, packQuantity: 1 }]])
+      )
+      const getByBarcodeSpy = vi.spyOn(productService, 'getByBarcode')
+
+      const result = await packagingRecordService.unpackItems(
+        {
+          ...mockPackagingRecord,
+          items: [
+            {
+              ...mockPackagingItem,
+              product_barcode: 'BUNDLE-1',
+              product_name: 'Bundle',
+              is_bundle: true,
+              components_snapshot: JSON.stringify([
+                { barcode: 'MUG-1', product_name: 'Mug', quantity: 2, unit_cost: 2.5 },
+                { barcode: 'GONE-1', product_name: 'Gone', quantity: 1, unit_cost: 1 },
+              ]),
+            },
+          ],
+        },
+        ['item-1']
+      )
+
+      expect(getByBarcodeSpy).not.toHaveBeenCalled()
+      expect(productService.restoreStockForPackaging).toHaveBeenCalledWith(
+        [
+          {
+            product_barcode: 'BUNDLE-1',
+            is_bundle: true,
+            bundle_components: [{ product: mug, quantity: 2 }],
+          },
+        ],
+        undefined,
+        expect.objectContaining({ reason: 'unpack' })
+      )
+      expect(result.stockRestoreSuccess).toBe(false)
+      expect(result.errors).toEqual(['Product not found: Gone'])
+    })
+
+    it('should restore stock to the location the record was packed from', async () => {
+      vi.spyOn(packagingRecordService, 'deleteViaFunction').mockResolvedValue({
+        success: true,
+        itemsDeleted: 2,
+        stockRestoreSuccess: true,
+      })
+
+      await packagingRecordService.unpackItems(
+        { ...unpackRecord, location_id: 'location-2' },
+        ['item-1', 'item-2']
+      )
+
+      expect(productService.restoreStockForPackaging).toHaveBeenCalledWith(
+        expect.any(Array),
+        'location-2',
+        expect.objectContaining({ reason: 'unpack' })
+      )
+    })
+
+    it('should let a packer unpack a waybill they packed', async () => {
+      setCurrentRole('packer')
+      setAuditUserContext({ user_id: 'packer-1', user_email: 'packer@example.com' })
+      const deleteSpy = vi
+        .spyOn(packagingRecordService, 'deleteViaFunction')
+        .mockResolvedValue({ success: true, itemsDeleted: 2, stockRestoreSuccess: true })
+
+      try {
+        const result = await packagingRecordService.unpackItems(
+          { ...unpackRecord, packed_by: 'packer-1' },
+          ['item-1', 'item-2']
+        )
+
+        expect(deleteSpy).toHaveBeenCalledWith('record-1', false)
+        expect(result.recordDeleted).toBe(true)
+
+        await expect(
+          packagingRecordService.unpackItems({ ...unpackRecord, packed_by: 'packer-2' }, ['item-1'])
+        ).rejects.toThrow('Permission denied: requires supervisor role')
+      } finally {
+        setCurrentRole('supervisor')
+        setAuditUserContext(null)
+      }
+    })
+
+    it('should throw when no items are selected', async () => {
+      await expect(
+        packagingRecordService.unpackItems(unpackRecord, [])
+      ).rejects.toThrow('No items selected for return')
+    })
+
+    it('should not restore stock when the record update fails', async () => {
+      vi.spyOn(packagingRecordService, 'updateViaFunction').mockRejectedValue(
+        new Error('Function execution failed')
+      )
+
+      await expect(
+        packagingRecordService.unpackItems(unpackRecord, ['item-1'])
+      ).rejects.toThrow('Function execution failed')
+      expect(productService.restoreStockForPackaging).not.toHaveBeenCalled()
+    })
+  })
 })
 
 describe('packagingItemService', () => {
   beforeEach(() => {
     vi.clearAllMocks()
+    setCurrentRole('supervisor')
   })
 
   describe('create', () => {
@@ -480,6 +926,7 @@ describe('packagingItemService', () => {
 describe('packaging services edge cases', () => {
   beforeEach(() => {
     vi.clearAllMocks()
+    setCurrentRole('supervisor')
   })
 
   describe('concurrent operations', () => {
@@ -0,0 +1,150 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { checkPrealert, getScanFlags, prealertService } from '@/lib/appwrite/prealerts'
+import { setCurrentRole } from '@/lib/appwrite/roles'
+import { COLLECTIONS } from '@/types/prealert'
+import type { ExpectedItem, OrderPrealert, ParsedOrderPrealert } from '@/types/prealert'
+
+const mockDatabaseService = {
+  listDocuments: vi.fn(),
+}
+
+const mockAuditLog = vi.fn()
+
+vi.mock('@/lib/appwrite/database', () => ({
+  databaseService: {
+    listDocuments: (...args: unknown[]) => mockDatabaseService.listDocuments(...args),
+  },
+  Query: {
+    equal: (field: string, value: unknown) => `equal("${field}", ${JSON.stringify(value)})`,
+    limit: (value: number) => `limit(${value})`,
+  },
+}))
+
+vi.mock('@/lib/appwrite/audit-log', () => ({
+  auditLogService: {
+    log: (...args: unknown[]) => mockAuditLog(...args),
+  },
+}))
+
+const expected: ExpectedItem[] = [
+  { barcode: '111', quantity: 2, product_name: 'Mug' },
+  { barcode: '222', quantity: 1, product_name: 'Spoon' },
+]
+
+const prealertDocument: OrderPrealert = {
+  $id: 'prealert-1',
+  $collectionId: 'order_prealerts',
+  $databaseId: 'main',
+  $createdAt: '2026-10-19T08:00:00.000Z',
+  $updatedAt: '2026-10-19T08:00:00.000Z',
+  $permissions: [],
+  $sequence: 0,
+  waybill_number: 'WB123',
+  order_reference: 'SO-1001',
+  expected_items: JSON.stringify(expected),
+  import_job_id: 'job-1',
+  imported_at: '2026-10-19T08:00:00.000Z',
+}
+
+const parsedPrealert: ParsedOrderPrealert = { ...prealertDocument, expected_items: expected }
+
+describe('checkPrealert', () => {
+  it('should match when every expected item is scanned', () => {
+    const check = checkPrealert(expected, [
+      { barcode: '222' },
+      { barcode: '111' },
+      { barcode: '111' },
+    ])
+
+    expect(check.matches).toBe(true)
+    expect(check.lines.map((line) => line.status)).toEqual(['matched', 'matched'])
+  })
+
+  it('should report short, over and unexpected lines', () => {
+    const check = checkPrealert(expected, [
+      { barcode: '111' },
+      { barcode: '222' },
+      { barcode: '222' },
+      { barcode: '333', productName: 'Fork' },
+    ])
+
+    expect(check.matches).toBe(false)
+    expect(check.lines).toEqual([
+      { barcode: '111', productName: 'Mug', expected: 2, scanned: 1, status: 'short' },
+      { barcode: '222', productName: 'Spoon', expected: 1, scanned: 2, status: 'over' },
+      { barcode: '333', productName: 'Fork', expected: 0, scanned: 1, status: 'wrong' },
+    ])
+  })
+
+  it('should not match before anything is scanned', () => {
+    expect(checkPrealert(expected, []).matches).toBe(false)
+  })
+})
+
+describe('getScanFlags', () => {
+  it('should flag unexpected products and scans past the expected quantity', () => {
+    expect(getScanFlags(expected, ['111', '333', '222', '111', '222', '111'])).toEqual([
+      null,
+      'wrong',
+      null,
+      null,
+      'over',
+      'over',
+    ])
+  })
+})
+
+describe('prealertService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    setCurrentRole('supervisor')
+  })
+
+  describe('getByWaybill', () => {
+    it('should return the parsed pre-alert of a waybill', async () => {
+      mockDatabaseService.listDocuments.mockResolvedValue({ documents: [prealertDocument], total: 1 })
+
+      const prealert = await prealertService.getByWaybill('WB123')
+
+      expect(prealert?.expected_items).toEqual(expected)
+      expect(mockDatabaseService.listDocuments).toHaveBeenCalledWith(
+        COLLECTIONS.ORDER_PREALERTS,
+        ['equal("waybill_number", "WB123")', 'limit(1)']
+      )
+    })
+
+    it('should return null for waybills without a pre-alert', async () => {
+      mockDatabaseService.listDocuments.mockResolvedValue({ documents: [], total: 0 })
+
+      await expect(prealertService.getByWaybill('WB999')).resolves.toBeNull()
+    })
+  })
+
+  describe('overrideMismatch', () => {
+    it('should audit the mismatched lines', () => {
+      mockAuditLog.mockResolvedValue(undefined)
+      const check = checkPrealert(expected, [{ barcode: '111' }, { barcode: '111' }])
+
+      prealertService.overrideMismatch(parsedPrealert, check)
+
+      expect(mockAuditLog).toHaveBeenCalledWith('prealert_override', 'prealert', {
+        resource_id: 'prealert-1',
+        action_details: {
+          waybill: 'WB123',
+          mismatches: [{ barcode: '222', expected: 1, scanned: 0, status: 'short' }],
+        },
+      })
+    })
+
+    it('should require the supervisor role', () => {
+      setCurrentRole('packer')
+      mockAuditLog.mockResolvedValue(undefined)
+      const check = checkPrealert(expected, [])
+
+      expect(() => prealertService.overrideMismatch(parsedPrealert, check)).toThrow(
+        'Permission denied: requires supervisor role'
+      )
+    })
+  })
+})
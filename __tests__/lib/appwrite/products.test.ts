@@ -1,8 +1,21 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest'
 
-import { productService, productComponentService } from '@/lib/appwrite/products'
+import {
+  calculateBuildableQuantities,
+  calculateBuildableQuantity,
+  formatBarcodeAliases,
+  orderImportedBundles,
+  parseBarcodeAliases,
+  productBarcodeService,
+  productComponentService,
+  productService,
+} from '@/lib/appwrite/products'
+import { setCurrentRole } from '@/lib/appwrite/roles'
+import { COLLECTIONS as LOCATION_COLLECTIONS } from '@/types/location'
+import type { Location } from '@/types/location'
 import { COLLECTIONS } from '@/types/product'
-import type { Product, ProductComponent } from '@/types/product'
+import type { Product, ProductBarcode, ProductComponent } from '@/types/product'
+import { COLLECTIONS as MOVEMENT_COLLECTIONS } from '@/types/stock-movement'
 
 const mockDatabaseService = {
   createDocument: vi.fn(),
@@ -27,6 +40,8 @@ vi.mock('@/lib/appwrite/database', () => ({
     or: (queries: string[]) => `or(${JSON.stringify(queries)})`,
     limit: (value: number) => `limit(${value})`,
     offset: (value: number) => `offset(${value})`,
+    lessThanEqual: (field: string, value: number) => `lessThanEqual("${field}", ${value})`,
+    orderAsc: (field: string) => `orderAsc("${field}")`,
   },
 }))
 
@@ -69,6 +84,7 @@ const mockComponent: ProductComponent = {
 describe('productService', () => {
   beforeEach(() => {
     vi.clearAllMocks()
+    setCurrentRole('supervisor')
   })
 
   describe('create', () => {
@@ -258,6 +274,23 @@ describe('productService', () => {
       )
     })
 
+    it('should filter by maximum stock, lowest first', async () => {
+      mockDatabaseService.listDocuments.mockResolvedValue({
+        documents: [mockProduct],
+        total: 1,
+      })
+
+      await productService.list({ type: 'single', maxStock: 10 })
+
+      expect(mockDatabaseService.listDocuments).toHaveBeenCalledWith(
+        COLLECTIONS.PRODUCTS,
+        expect.arrayContaining([
+          'lessThanEqual("stock_quantity", 10)',
+          'orderAsc("stock_quantity")',
+        ])
+      )
+    })
+
     it('should apply search filter', async () => {
       mockDatabaseService.listDocuments.mockResolvedValue({
         documents: [mockProduct],
@@ -358,16 +391,27 @@ describe('productService', () => {
   })
 
   describe('delete', () => {
+    it('should reject deletion for packers', async () => {
+      setCurrentRole('packer')
+
+      await expect(productService.delete('prod-bundle')).rejects.toThrow(
+        'Permission denied: requires supervisor role'
+      )
+
+      expect(mockDatabaseService.deleteDocument).not.toHaveBeenCalled()
+    })
+
     it('should delete product and its components', async () => {
       mockDatabaseService.listDocuments
         .mockResolvedValueOnce({ documents: [mockComponent], total: 1 }) // parent components
         .mockResolvedValueOnce({ documents: [], total: 0 }) // child components
+        .mockResolvedValueOnce({ documents: [], total: 0 }) // alternate barcodes
       mockDatabaseService.deleteDocument.mockResolvedValue({})
 
       await productService.delete('prod-bundle')
 
-      // Should query for both parent and child components
-      expect(mockDatabaseService.listDocuments).toHaveBeenCalledTimes(2)
+      // Should query for parent and child components, then alternate barcodes
+      expect(mockDatabaseService.listDocuments).toHaveBeenCalledTimes(3)
       expect(mockDatabaseService.listDocuments).toHaveBeenCalledWith(
         COLLECTIONS.PRODUCT_COMPONENTS,
         ['equal("parent_product_id", "prod-bundle")']
@@ -451,6 +495,7 @@ describe('productService', () => {
 describe('productComponentService', () => {
   beforeEach(() => {
     vi.clearAllMocks()
+    setCurrentRole('supervisor')
   })
 
   describe('create', () => {
@@ -608,9 +653,230 @@ describe('productComponentService', () => {
   })
 })
 
+describe('productService stock at a location', () => {
+  const warehouseB: Location = {
+    $id: 'loc-b',
+    $collectionId: 'locations',
+    $databaseId: 'main',
+    $createdAt: '2024-01-01T00:00:00.000Z',
+    $updatedAt: '2024-01-01T00:00:00.000Z',
+    $permissions: [],
+    $sequence: 0,
+    name: 'Warehouse B',
+    code: 'B',
+    is_default: false,
+  }
+  const mainWarehouse: Location = { ...warehouseB, $id: 'loc-main', name: 'Main', code: 'MAIN', is_default: true }
+  const stockRow = {
+    $id: 'stock-1',
+    product_id: 'prod-1',
+    location_id: 'loc-b',
+    quantity: 5,
+  }
+
+  const mockStock = (rows: Array<typeof stockRow>) => {
+    mockDatabaseService.listDocuments.mockImplementation(async (collection: string) =>
+      collection === LOCATION_COLLECTIONS.PRODUCT_STOCK
+        ? { documents: rows, total: rows.length }
+        : { documents: [mockProduct], total: 1 }
+    )
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    setCurrentRole('supervisor')
+  })
+
+  it('should deduct from the location and the product total', async () => {
+    mockDatabaseService.getDocument.mockResolvedValue(warehouseB)
+    mockStock([stockRow])
+
+    const result = await productService.deductStockForPackaging(
+      [{ product_barcode: '1234567890128' }],
+      'loc-b'
+    )
+
+    expect(result).toEqual({ success: true, errors: [] })
+    expect(mockDatabaseService.updateDocument).toHaveBeenCalledWith(
+      COLLECTIONS.PRODUCTS,
+      'prod-1',
+      { stock_quantity: 99 }
+    )
+    expect(mockDatabaseService.updateDocument).toHaveBeenCalledWith(
+      LOCATION_COLLECTIONS.PRODUCT_STOCK,
+      'stock-1',
+      { quantity: 4 }
+    )
+  })
+
+  it('should refuse to deduct when the location has no stock', async () => {
+    mockDatabaseService.getDocument.mockResolvedValue(warehouseB)
+    mockStock([])
+
+    const result = await productService.deductStockForPackaging(
+      [{ product_barcode: '1234567890128' }],
+      'loc-b'
+    )
+
+    expect(result.success).toBe(false)
+    expect(result.errors[0]).toContain('available 0')
+    expect(mockDatabaseService.updateDocument).not.toHaveBeenCalled()
+  })
+
+  it('should validate the default location against stock not held elsewhere', async () => {
+    mockDatabaseService.getDocument.mockResolvedValue(mainWarehouse)
+    mockStock([{ ...stockRow, quantity: 98 }])
+
+    const result = await productService.validateStockForPackaging(
+      [
+        { product_barcode: '1234567890128' },
+        { product_barcode: '1234567890128' },
+        { product_barcode: '1234567890128' },
+      ],
+      'loc-main'
+    )
+
+    expect(result.valid).toBe(false)
+    expect(result.insufficientStock).toEqual([
+      { barcode: '1234567890128', name: 'Test Product', required: 3, available: 2 },
+    ])
+  })
+
+  it('should restore to a location without a stock row by creating one', async () => {
+    mockDatabaseService.getDocument.mockResolvedValue(warehouseB)
+    mockStock([])
+
+    const result = await productService.restoreStockForPackaging(
+      [{ product_barcode: '1234567890128' }],
+      'loc-b'
+    )
+
+    expect(result.success).toBe(true)
+    expect(mockDatabaseService.updateDocument).toHaveBeenCalledWith(
+      COLLECTIONS.PRODUCTS,
+      'prod-1',
+      { stock_quantity: 101 }
+    )
+    expect(mockDatabaseService.createDocument).toHaveBeenCalledWith(
+      LOCATION_COLLECTIONS.PRODUCT_STOCK,
+      { product_id: 'prod-1', location_id: 'loc-b', quantity: 1 }
+    )
+  })
+
+  it('should only touch the product total when restoring to the default location', async () => {
+    mockDatabaseService.getDocument.mockResolvedValue(mainWarehouse)
+    mockStock([stockRow])
+
+    await productService.restoreStockForPackaging(
+      [{ product_barcode: '1234567890128' }],
+      'loc-main'
+    )
+
+    expect(mockDatabaseService.updateDocument).toHaveBeenCalledTimes(1)
+    expect(mockDatabaseService.createDocument).not.toHaveBeenCalledWith(
+      LOCATION_COLLECTIONS.PRODUCT_STOCK,
+      expect.anything()
+    )
+  })
+})
+
+describe('productService stock movements', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    setCurrentRole('supervisor')
+  })
+
+  it('should record a manual adjustment when stock is updated', async () => {
+    mockDatabaseService.getDocument.mockResolvedValue(mockProduct)
+    mockDatabaseService.updateDocument.mockResolvedValue({ ...mockProduct, stock_quantity: 80 })
+
+    await productService.updateStock('prod-1', 80)
+
+    expect(mockDatabaseService.createDocument).toHaveBeenCalledWith(
+      MOVEMENT_COLLECTIONS.STOCK_MOVEMENTS,
+      expect.objectContaining({
+        product_id: 'prod-1',
+        delta: -20,
+        resulting_quantity: 80,
+        reason: 'manual_adjust',
+        source_id: null,
+      })
+    )
+  })
+
+  it('should not record a movement when a product update leaves stock alone', async () => {
+    mockDatabaseService.updateDocument.mockResolvedValue({ ...mockProduct, name: 'Renamed' })
+
+    await productService.update('prod-1', { name: 'Renamed' })
+
+    expect(mockDatabaseService.getDocument).not.toHaveBeenCalled()
+    expect(mockDatabaseService.createDocument).not.toHaveBeenCalled()
+  })
+
+  it('should record packaging deductions with their source document', async () => {
+    mockDatabaseService.listDocuments.mockResolvedValue({ documents: [mockProduct], total: 1 })
+
+    await productService.deductStockForPackaging(
+      [{ product_barcode: '1234567890128' }, { product_barcode: '1234567890128' }],
+      undefined,
+      { reason: 'packaging', sourceId: 'record-1' }
+    )
+
+    expect(mockDatabaseService.createDocument).toHaveBeenCalledWith(
+      MOVEMENT_COLLECTIONS.STOCK_MOVEMENTS,
+      expect.objectContaining({
+        product_id: 'prod-1',
+        delta: -2,
+        resulting_quantity: 98,
+        reason: 'packaging',
+        source_id: 'record-1',
+      })
+    )
+  })
+
+  it('should not record movements for a deduction that was rolled back', async () => {
+    mockDatabaseService.listDocuments.mockResolvedValue({
+      documents: [mockProduct, { ...mockProduct, $id: 'prod-2', barcode: '9876543210123' }],
+      total: 2,
+    })
+    mockDatabaseService.updateDocument
+      .mockResolvedValueOnce(mockProduct)
+      .mockRejectedValueOnce(new Error('Network error'))
+
+    const result = await productService.deductStockForPackaging([
+      { product_barcode: '1234567890128' },
+      { product_barcode: '9876543210123' },
+    ])
+
+    expect(result.success).toBe(false)
+    expect(mockDatabaseService.createDocument).not.toHaveBeenCalled()
+  })
+
+  it('should record unpacked stock as an unpack movement at the location', async () => {
+    mockDatabaseService.listDocuments.mockResolvedValue({ documents: [mockProduct], total: 1 })
+
+    await productService.restoreStockForPackaging(
+      [{ product_barcode: '1234567890128' }],
+      undefined,
+      { reason: 'unpack', sourceId: 'record-1' }
+    )
+
+    expect(mockDatabaseService.createDocument).toHaveBeenCalledWith(
+      MOVEMENT_COLLECTIONS.STOCK_MOVEMENTS,
+      expect.objectContaining({
+        delta: 1,
+        resulting_quantity: 101,
+        reason: 'unpack',
+        source_id: 'record-1',
+      })
+    )
+  })
+})
+
 describe('productService edge cases', () => {
   beforeEach(() => {
     vi.clearAllMocks()
+    setCurrentRole('supervisor')
   })
 
   describe('create with edge values', () => {
@@ -903,6 +1169,7 @@ describe('productService edge cases', () => {
 describe('productComponentService edge cases', () => {
   beforeEach(() => {
     vi.clearAllMocks()
+    setCurrentRole('supervisor')
   })
 
   describe('create with different quantities', () => {
@@ -1012,3 +1279,382 @@ describe('productComponentService edge cases', () => {
     })
   })
 })
+
+const mockCaseBarcode: ProductBarcode = {
+  $id: 'alias-1',
+  $collectionId: 'product_barcodes',
+  $databaseId: 'main',
+  $createdAt: '2024-01-01T00:00:00.000Z',
+  $updatedAt: '2024-01-01T00:00:00.000Z',
+  $permissions: [],
+  $sequence: 0,
+  product_id: 'prod-1',
+  barcode: 'CARTON-12',
+  pack_quantity: 12,
+}
+
+describe('alternate barcodes', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    setCurrentRole('supervisor')
+  })
+
+  describe('parseBarcodeAliases', () => {
+    it('should parse barcodes with optional pack quantities', () => {
+      expect(parseBarcodeAliases(' OLD-1 , CARTON-12:12,,')).toEqual([
+        { barcode: 'OLD-1', pack_quantity: 1 },
+        { barcode: 'CARTON-12', pack_quantity: 12 },
+      ])
+    })
+
+    it('should round-trip through formatBarcodeAliases', () => {
+      expect(formatBarcodeAliases(parseBarcodeAliases('OLD-1,CARTON-12:12'))).toBe(
+        'OLD-1,CARTON-12:12'
+      )
+    })
+  })
+
+  describe('productService.resolveBarcode', () => {
+    it('should resolve a product barcode as one unit', async () => {
+      mockDatabaseService.listDocuments.mockResolvedValueOnce({ documents: [mockProduct], total: 1 })
+
+      const result = await productService.resolveBarcode('1234567890128')
+
+      expect(result).toEqual({ product: mockProduct, packQuantity: 1 })
+      expect(mockDatabaseService.listDocuments).toHaveBeenCalledTimes(1)
+    })
+
+    it('should resolve an alternate barcode to its product and pack quantity', async () => {
+      mockDatabaseService.listDocuments
+        .mockResolvedValueOnce({ documents: [], total: 0 })
+        .mockResolvedValueOnce({ documents: [mockCaseBarcode], total: 1 })
+      mockDatabaseService.getDocument.mockResolvedValue(mockProduct)
+
+      const result = await productService.resolveBarcode('CARTON-12')
+
+      expect(result).toEqual({ product: mockProduct, packQuantity: 12 })
+      expect(mockDatabaseService.listDocuments).toHaveBeenLastCalledWith(
+        COLLECTIONS.PRODUCT_BARCODES,
+        ['equal("barcode", "CARTON-12")', 'limit(1)']
+      )
+      expect(mockDatabaseService.getDocument).toHaveBeenCalledWith(COLLECTIONS.PRODUCTS, 'prod-1')
+    })
+
+    it('should return null for unknown barcodes', async () => {
+      mockDatabaseService.listDocuments.mockResolvedValue({ documents: [], total: 0 })
+
+      await expect(productService.resolveBarcode('unknown')).resolves.toBeNull()
+    })
+  })
+
+  describe('productService.calculateStockRequirements', () => {
+    it('should count a case-pack barcode as its pack quantity', async () => {
+      mockDatabaseService.listDocuments
+        .mockResolvedValueOnce({ documents: [mockProduct], total: 1 }) // products by barcode
+        .mockResolvedValueOnce({ documents: [mockCaseBarcode], total: 1 }) // alternate barcodes
+        .mockResolvedValueOnce({ documents: [mockProduct], total: 1 }) // alias products by ID
+
+      const requirements = await productService.calculateStockRequirements([
+        { product_barcode: '1234567890128' },
+        { product_barcode: 'CARTON-12' },
+      ])
+
+      expect(requirements.get('prod-1')).toEqual({ product: mockProduct, required: 13 })
+    })
+  })
+
+  describe('productService.delete', () => {
+    it('should delete the alternate barcodes of the product', async () => {
+      mockDatabaseService.listDocuments
+        .mockResolvedValueOnce({ documents: [], total: 0 })
+        .mockResolvedValueOnce({ documents: [], total: 0 })
+        .mockResolvedValueOnce({ documents: [mockCaseBarcode], total: 1 })
+      mockDatabaseService.deleteDocument.mockResolvedValue({})
+
+      await productService.delete('prod-1')
+
+      expect(mockDatabaseService.deleteDocument).toHaveBeenCalledWith(
+        COLLECTIONS.PRODUCT_BARCODES,
+        'alias-1'
+      )
+      expect(mockDatabaseService.deleteDocument).toHaveBeenLastCalledWith(
+        COLLECTIONS.PRODUCTS,
+        'prod-1'
+      )
+    })
+  })
+
+  describe('productBarcodeService.replaceForProduct', () => {
+    it('should create, update and delete alternate barcodes', async () => {
+      const oldBarcode = { ...mockCaseBarcode, $id: 'alias-2', barcode: 'OLD-1', pack_quantity: 1 }
+      mockDatabaseService.listDocuments
+        .mockResolvedValueOnce({ documents: [], total: 0 }) // product barcode clashes
+        .mockResolvedValueOnce({ documents: [mockCaseBarcode], total: 1 }) // taken aliases
+        .mockResolvedValueOnce({ documents: [mockCaseBarcode, oldBarcode], total: 2 }) // current
+      mockDatabaseService.createDocument.mockImplementation((_collection, data) =>
+        Promise.resolve({ ...mockCaseBarcode, $id: 'alias-3', ...data })
+      )
+      mockDatabaseService.updateDocument.mockResolvedValue({ ...mockCaseBarcode, pack_quantity: 24 })
+      mockDatabaseService.deleteDocument.mockResolvedValue({})
+
+      const saved = await productBarcodeService.replaceForProduct('prod-1', [
+        { barcode: 'CARTON-12', pack_quantity: 24 },
+        { barcode: ' NEW-1 ', pack_quantity: 1 },
+      ])
+
+      expect(mockDatabaseService.deleteDocument).toHaveBeenCalledWith(
+        COLLECTIONS.PRODUCT_BARCODES,
+        'alias-2'
+      )
+      expect(mockDatabaseService.updateDocument).toHaveBeenCalledWith(
+        COLLECTIONS.PRODUCT_BARCODES,
+        'alias-1',
+        { pack_quantity: 24 }
+      )
+      expect(mockDatabaseService.createDocument).toHaveBeenCalledWith(
+        COLLECTIONS.PRODUCT_BARCODES,
+        { product_id: 'prod-1', barcode: 'NEW-1', pack_quantity: 1 }
+      )
+      expect(saved.map((alias) => alias.barcode)).toEqual(['CARTON-12', 'NEW-1'])
+    })
+
+    it('should reject the barcode of another product', async () => {
+      mockDatabaseService.listDocuments.mockResolvedValueOnce({
+        documents: [{ ...mockProduct, $id: 'prod-2', name: 'Other Product', barcode: 'OTHER-1' }],
+        total: 1,
+      })
+
+      await expect(
+        productBarcodeService.replaceForProduct('prod-1', [{ barcode: 'OTHER-1', pack_quantity: 1 }])
+      ).rejects.toThrow('Barcode OTHER-1 already belongs to Other Product')
+      expect(mockDatabaseService.createDocument).not.toHaveBeenCalled()
+    })
+
+    it('should reject an alternate barcode of another product', async () => {
+      mockDatabaseService.listDocuments
+        .mockResolvedValueOnce({ documents: [], total: 0 })
+        .mockResolvedValueOnce({ documents: [{ ...mockCaseBarcode, product_id: 'prod-2' }], total: 1 })
+
+      await expect(
+        productBarcodeService.replaceForProduct('prod-1', [{ barcode: 'CARTON-12', pack_quantity: 12 }])
+      ).rejects.toThrow('Barcode CARTON-12 is already an alternate barcode of another product')
+    })
+
+    it('should reject invalid pack quantities and duplicates', async () => {
+      await expect(
+        productBarcodeService.replaceForProduct('prod-1', [{ barcode: 'CARTON-12', pack_quantity: 0 }])
+      ).rejects.toThrow('Pack quantity of CARTON-12 must be a whole number of at least 1')
+      await expect(
+        productBarcodeService.replaceForProduct('prod-1', [
+          { barcode: 'OLD-1', pack_quantity: 1 },
+          { barcode: 'OLD-1', pack_quantity: 2 },
+        ])
+      ).rejects.toThrow('Alternate barcode OLD-1 is listed twice')
+      expect(mockDatabaseService.listDocuments).not.toHaveBeenCalled()
+    })
+
+    it('should require the supervisor role', async () => {
+      setCurrentRole('packer')
+
+      await expect(productBarcodeService.replaceForProduct('prod-1', [])).rejects.toThrow(
+        'Permission denied: requires supervisor role'
+      )
+    })
+  })
+})
+
+describe('nested bundles', () => {
+  const giftBox: Product = { ...mockBundleProduct, $id: 'gift-box', name: 'Gift Box' }
+  const miniSet: Product = { ...mockBundleProduct, $id: 'mini-set', name: 'Mini Set' }
+  const component = (parent: string, child: string, quantity: number): ProductComponent => ({
+    ...mockComponent,
+    $id: `${parent}-${child}`,
+    parent_product_id: parent,
+    child_product_id: child,
+    quantity,
+  })
+
+  // Components and products keyed by ID, served through the database mock
+  const useCatalog = (products: Product[], components: ProductComponent[]) => {
+    mockDatabaseService.getDocument.mockImplementation((_collection, id: string) =>
+      Promise.resolve(products.find((product) => product.$id === id))
+    )
+    mockDatabaseService.listDocuments.mockImplementation((collection: string, queries: string[]) => {
+      if (collection === COLLECTIONS.PRODUCT_COMPONENTS) {
+        const parent = queries[0].match(/"parent_product_id", "(.+)"/)![1]
+        const documents = components.filter((c) => c.parent_product_id === parent)
+        return Promise.resolve({ documents, total: documents.length })
+      }
+      const ids = queries[0].match(/"\$id", "(.+)"/)![1].split(',')
+      const documents = products.filter((product) => ids.includes(product.$id))
+      return Promise.resolve({ documents, total: documents.length })
+    })
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    setCurrentRole('supervisor')
+  })
+
+  describe('getWithComponents', () => {
+    it('should expand nested bundles into the products they contain', async () => {
+      const spoon = { ...mockProduct, $id: 'spoon', name: 'Spoon' }
+      useCatalog([giftBox, miniSet, mockProduct, spoon], [
+        component('gift-box', 'mini-set', 2),
+        component('gift-box', 'prod-1', 1),
+        component('mini-set', 'prod-1', 3),
+        component('mini-set', 'spoon', 1),
+      ])
+
+      const result = await productService.getWithComponents('gift-box')
+
+      expect(result.components).toEqual([
+        { product: mockProduct, quantity: 7 },
+        { product: spoon, quantity: 2 },
+      ])
+    })
+
+    it('should reject a bundle that contains itself', async () => {
+      useCatalog([giftBox, miniSet], [
+        component('gift-box', 'mini-set', 1),
+        component('mini-set', 'gift-box', 1),
+      ])
+
+      await expect(productService.getWithComponents('gift-box')).rejects.toThrow(
+        'Bundle cycle: Gift Box → Mini Set → Gift Box'
+      )
+    })
+  })
+
+  describe('calculateStockRequirements', () => {
+    it('should expand nested bundles passed as components', async () => {
+      useCatalog([miniSet, mockProduct], [component('mini-set', 'prod-1', 3)])
+
+      const requirements = await productService.calculateStockRequirements([
+        {
+          product_barcode: 'GIFT-BOX',
+          is_bundle: true,
+          bundle_components: [{ product: miniSet, quantity: 2 }],
+        },
+      ])
+
+      expect(requirements.get('prod-1')?.required).toBe(6)
+      expect(requirements.has('mini-set')).toBe(false)
+    })
+  })
+
+  describe('validateBundleComponents', () => {
+    it('should reject a bundle containing itself', async () => {
+      await expect(
+        productService.validateBundleComponents({ $id: 'gift-box', name: 'Gift Box' }, ['gift-box'])
+      ).rejects.toThrow('Bundle cycle: Gift Box → Gift Box')
+    })
+
+    it('should reject a bundle reached again through its components', async () => {
+      useCatalog([giftBox, miniSet, mockProduct], [component('mini-set', 'gift-box', 1)])
+
+      await expect(
+        productService.validateBundleComponents(
+          { $id: 'gift-box', name: 'Gift Box' },
+          ['prod-1', 'mini-set']
+        )
+      ).rejects.toThrow('Bundle cycle: Gift Box → Mini Set → Gift Box')
+    })
+
+    it('should accept nested bundles without a cycle', async () => {
+      useCatalog([giftBox, miniSet, mockProduct], [component('mini-set', 'prod-1', 2)])
+
+      await expect(
+        productService.validateBundleComponents({ name: 'New Hamper' }, ['mini-set', 'prod-1'])
+      ).resolves.toBeUndefined()
+    })
+  })
+
+  describe('orderImportedBundles', () => {
+    it('should order nested bundles before the bundles containing them', () => {
+      const { ordered, cycles } = orderImportedBundles(
+        [
+          { barcode: 'HAMPER', components: 'GIFT:1,SINGLE:2' },
+          { barcode: 'GIFT', components: 'MINI:2' },
+        ],
+        new Map([['MINI', ['SINGLE']]])
+      )
+
+      expect(ordered.map((bundle) => bundle.barcode)).toEqual(['GIFT', 'HAMPER'])
+      expect(cycles).toEqual([])
+    })
+
+    it('should hold back bundles in a cycle, including through existing bundles', () => {
+      const { ordered, cycles } = orderImportedBundles(
+        [
+          { barcode: 'GIFT', components: 'MINI:1' },
+          { barcode: 'SOLO', components: 'SINGLE:1' },
+        ],
+        new Map([['MINI', ['GIFT']]])
+      )
+
+      expect(ordered.map((bundle) => bundle.barcode)).toEqual(['SOLO'])
+      expect(cycles.map(({ cycle }) => cycle)).toEqual([['GIFT', 'MINI', 'GIFT']])
+    })
+  })
+
+  describe('buildable quantity', () => {
+    it('should divide component stock by the quantity one bundle takes', () => {
+      expect(
+        calculateBuildableQuantity([
+          { product: { stock_quantity: 100 }, quantity: 3 },
+          { product: { stock_quantity: 10 }, quantity: 1 },
+        ])
+      ).toBe(10)
+      expect(calculateBuildableQuantity([{ product: { stock_quantity: 2 }, quantity: 3 }])).toBe(0)
+    })
+
+    it('should not build bundles without components or with negative stock', () => {
+      expect(calculateBuildableQuantity([])).toBe(0)
+      expect(calculateBuildableQuantity([{ product: { stock_quantity: -4 }, quantity: 1 }])).toBe(0)
+    })
+
+    it('should calculate every bundle at once, through nested bundles', () => {
+      const spoon = { ...mockProduct, $id: 'spoon', stock_quantity: 5 }
+      const buildable = calculateBuildableQuantities(
+        [giftBox, miniSet, mockProduct, spoon],
+        [
+          component('gift-box', 'mini-set', 2),
+          component('gift-box', 'prod-1', 1),
+          component('mini-set', 'prod-1', 3),
+          component('mini-set', 'spoon', 1),
+        ]
+      )
+
+      // Mini Set: min(100 / 3, 5 / 1); Gift Box takes 7 of prod-1 and 2 spoons
+      expect(buildable).toEqual(new Map([['gift-box', 2], ['mini-set', 5]]))
+    })
+
+    it('should leave out bundles caught in a cycle', () => {
+      const hamper = { ...mockBundleProduct, $id: 'hamper' }
+      const buildable = calculateBuildableQuantities(
+        [giftBox, miniSet, hamper, mockProduct],
+        [
+          component('gift-box', 'mini-set', 1),
+          component('mini-set', 'gift-box', 1),
+          component('hamper', 'prod-1', 4),
+        ]
+      )
+
+      expect(buildable).toEqual(new Map([['hamper', 25]]))
+    })
+
+    it('should get the buildable quantity of bundles from the database', async () => {
+      const spoon = { ...mockProduct, $id: 'spoon', name: 'Spoon', stock_quantity: 5 }
+      useCatalog([giftBox, miniSet, mockProduct, spoon], [
+        component('gift-box', 'mini-set', 2),
+        component('mini-set', 'prod-1', 3),
+        component('mini-set', 'spoon', 1),
+      ])
+
+      const buildable = await productService.getBuildableQuantities([giftBox, miniSet])
+
+      expect(buildable).toEqual(new Map([['gift-box', 2], ['mini-set', 5]]))
+    })
+  })
+})
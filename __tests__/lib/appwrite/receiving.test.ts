@@ -0,0 +1,215 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { mergeReceivingLines, receivingService } from '@/lib/appwrite/receiving'
+import { setCurrentRole } from '@/lib/appwrite/roles'
+import { COLLECTIONS } from '@/types/receiving'
+
+const mockDatabaseService = {
+  getDocument: vi.fn(),
+  listDocuments: vi.fn(),
+}
+
+const mockCreateExecution = vi.fn()
+const mockAuditLog = vi.fn()
+
+vi.mock('@/lib/appwrite/database', () => ({
+  databaseService: {
+    getDocument: (...args: unknown[]) => mockDatabaseService.getDocument(...args),
+    listDocuments: (...args: unknown[]) => mockDatabaseService.listDocuments(...args),
+  },
+  Query: {
+    equal: (field: string, value: unknown) => `equal("${field}", ${JSON.stringify(value)})`,
+    greaterThanEqual: (field: string, value: unknown) => `greaterThanEqual("${field}", ${JSON.stringify(value)})`,
+    lessThanEqual: (field: string, value: unknown) => `lessThanEqual("${field}", ${JSON.stringify(value)})`,
+    orderDesc: (field: string) => `orderDesc("${field}")`,
+    limit: (value: number) => `limit(${value})`,
+    offset: (value: number) => `offset(${value})`,
+  },
+}))
+
+vi.mock('@/lib/appwrite/config', () => ({
+  functions: {
+    createExecution: (...args: unknown[]) => mockCreateExecution(...args),
+  },
+}))
+
+vi.mock('@/lib/appwrite/audit-log', () => ({
+  auditLogService: {
+    log: (...args: unknown[]) => mockAuditLog(...args),
+  },
+  getAuditUserContext: () => ({ user_id: 'user-1', user_email: 'staff@example.com', session_id: 'session-1' }),
+}))
+
+const record = {
+  $id: 'receiving-1',
+  $createdAt: '2026-10-19T08:00:00.000Z',
+  $updatedAt: '2026-10-19T08:00:00.000Z',
+  receiving_date: '2026-10-19',
+  reference_number: 'DO-1001',
+  location_id: null,
+  notes: null,
+  received_by: 'user-1',
+  received_by_name: 'Staff',
+  status: 'received',
+  voided_at: null,
+  voided_by: null,
+  void_reason: null,
+}
+
+const item = {
+  $id: 'item-1',
+  receiving_record_id: 'receiving-1',
+  product_id: 'product-1',
+  product_barcode: '111',
+  product_name: 'Mug',
+  quantity: 14,
+  unit_cost: 2.5,
+}
+
+// Payload the receive-stock function was executed with
+function executedPayload() {
+  return JSON.parse(mockCreateExecution.mock.calls[0][1])
+}
+
+describe('mergeReceivingLines', () => {
+  it('should merge repeated barcodes in first-scanned order', () => {
+    expect(
+      mergeReceivingLines([
+        { product_barcode: '111', quantity: 2 },
+        { product_barcode: '222', quantity: 1 },
+        { product_barcode: '111', quantity: 12 },
+      ])
+    ).toEqual([
+      { product_barcode: '111', quantity: 14 },
+      { product_barcode: '222', quantity: 1 },
+    ])
+  })
+})
+
+describe('receivingService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    setCurrentRole('supervisor')
+    mockAuditLog.mockResolvedValue(undefined)
+    mockCreateExecution.mockResolvedValue({
+      responseBody: JSON.stringify({ success: true, record, items: [item] }),
+    })
+  })
+
+  describe('create', () => {
+    it('should send the merged lines with the user context', async () => {
+      const result = await receivingService.create({
+        receiving_date: '2026-10-19',
+        reference_number: '  DO-1001 ',
+        items: [
+          { product_barcode: '111', quantity: 2 },
+          { product_barcode: '111', quantity: 12 },
+        ],
+      })
+
+      expect(mockCreateExecution).toHaveBeenCalledWith('receive-stock', expect.any(String), false)
+      expect(executedPayload()).toEqual({
+        action: 'create',
+        receiving_date: '2026-10-19',
+        reference_number: 'DO-1001',
+        location_id: null,
+        notes: null,
+        items: [{ product_barcode: '111', quantity: 14 }],
+        user_id: 'user-1',
+        user_email: 'staff@example.com',
+        session_id: 'session-1',
+      })
+      expect(result.reference_number).toBe('DO-1001')
+      expect(result.items[0].$collectionId).toBe(COLLECTIONS.RECEIVING_ITEMS)
+    })
+
+    it('should reject a receiving without a reference or products', async () => {
+      await expect(
+        receivingService.create({ receiving_date: '2026-10-19', reference_number: ' ', items: [{ product_barcode: '111', quantity: 1 }] })
+      ).rejects.toThrow('Reference number is required')
+      await expect(
+        receivingService.create({ receiving_date: '2026-10-19', reference_number: 'DO-1001', items: [] })
+      ).rejects.toThrow('Scan at least one product')
+      expect(mockCreateExecution).not.toHaveBeenCalled()
+    })
+
+    it('should surface function errors', async () => {
+      mockCreateExecution.mockResolvedValue({
+        responseBody: JSON.stringify({ success: false, error: 'Reference "DO-1001" was already received' }),
+      })
+
+      await expect(
+        receivingService.create({ receiving_date: '2026-10-19', reference_number: 'DO-1001', items: [{ product_barcode: '111', quantity: 1 }] })
+      ).rejects.toThrow('Reference "DO-1001" was already received')
+    })
+  })
+
+  describe('update', () => {
+    it('should only send the fields being changed', async () => {
+      await receivingService.update('receiving-1', { items: [{ product_barcode: '111', quantity: 10 }] })
+
+      expect(executedPayload()).toMatchObject({
+        action: 'update',
+        record_id: 'receiving-1',
+        items: [{ product_barcode: '111', quantity: 10 }],
+      })
+      expect(executedPayload()).not.toHaveProperty('reference_number')
+      expect(executedPayload()).not.toHaveProperty('notes')
+    })
+
+    it('should require the supervisor role', async () => {
+      setCurrentRole('packer')
+
+      await expect(receivingService.update('receiving-1', { notes: 'Late' })).rejects.toThrow(
+        'Permission denied: requires supervisor role'
+      )
+      expect(mockCreateExecution).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('void', () => {
+    it('should send the trimmed void reason', async () => {
+      await receivingService.void('receiving-1', ' Wrong delivery ')
+
+      expect(executedPayload()).toMatchObject({
+        action: 'void',
+        record_id: 'receiving-1',
+        void_reason: 'Wrong delivery',
+      })
+    })
+
+    it('should require the supervisor role', async () => {
+      setCurrentRole('packer')
+
+      await expect(receivingService.void('receiving-1')).rejects.toThrow(
+        'Permission denied: requires supervisor role'
+      )
+      expect(mockAuditLog).toHaveBeenCalledWith('receiving_void', 'receiving_record', expect.objectContaining({
+        resource_id: 'receiving-1',
+        status: 'failure',
+      }))
+    })
+  })
+
+  describe('list', () => {
+    it('should filter by date range and status, newest first', async () => {
+      mockDatabaseService.listDocuments.mockResolvedValue({ documents: [record], total: 1 })
+
+      const result = await receivingService.list({
+        startDate: '2026-10-01',
+        endDate: '2026-10-19',
+        status: 'received',
+      })
+
+      expect(result.total).toBe(1)
+      expect(mockDatabaseService.listDocuments).toHaveBeenCalledWith(COLLECTIONS.RECEIVING_RECORDS, [
+        'orderDesc("receiving_date")',
+        'orderDesc("$createdAt")',
+        'limit(25)',
+        'greaterThanEqual("receiving_date", "2026-10-01")',
+        'lessThanEqual("receiving_date", "2026-10-19")',
+        'equal("status", "received")',
+      ])
+    })
+  })
+})
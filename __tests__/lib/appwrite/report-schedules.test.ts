@@ -0,0 +1,199 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { getNextRunAt, parseRecipients, reportScheduleService } from '@/lib/appwrite/report-schedules'
+import { setCurrentRole } from '@/lib/appwrite/roles'
+import { COLLECTIONS } from '@/types/report-schedule'
+import type { CreateReportScheduleInput } from '@/types/report-schedule'
+
+const mockDatabaseService = {
+  createDocument: vi.fn(),
+  getDocument: vi.fn(),
+  listDocuments: vi.fn(),
+  updateDocument: vi.fn(),
+  deleteDocument: vi.fn(),
+}
+
+const mockAuditLog = vi.fn()
+
+vi.mock('@/lib/appwrite/database', () => ({
+  databaseService: {
+    createDocument: (...args: unknown[]) => mockDatabaseService.createDocument(...args),
+    getDocument: (...args: unknown[]) => mockDatabaseService.getDocument(...args),
+    listDocuments: (...args: unknown[]) => mockDatabaseService.listDocuments(...args),
+    updateDocument: (...args: unknown[]) => mockDatabaseService.updateDocument(...args),
+    deleteDocument: (...args: unknown[]) => mockDatabaseService.deleteDocument(...args),
+  },
+  Query: {
+    limit: (value: number) => `limit(${value})`,
+    orderAsc: (field: string) => `orderAsc("${field}")`,
+  },
+}))
+
+vi.mock('@/lib/appwrite/audit-log', () => ({
+  auditLogService: {
+    log: (...args: unknown[]) => mockAuditLog(...args),
+  },
+}))
+
+const input: CreateReportScheduleInput = {
+  name: ' Daily summary ',
+  frequency: 'daily',
+  date_range: 'yesterday',
+  format: 'pdf',
+  recipients: ['ops@example.com', 'boss@example.com'],
+  hour: 8,
+  day_of_week: 3,
+  day_of_month: 15,
+}
+
+const owner = { id: 'user-1', name: 'Supervisor' }
+
+describe('getNextRunAt', () => {
+  // Wednesday 2026-10-14 10:30 UTC
+  const after = new Date('2026-10-14T10:30:00.000Z')
+  const timing = { hour: 8, day_of_week: null, day_of_month: null, utc_offset: 0 }
+
+  it('should run daily schedules tomorrow once today has passed', () => {
+    expect(getNextRunAt({ ...timing, frequency: 'daily' }, after).toISOString()).toBe('2026-10-15T08:00:00.000Z')
+    expect(getNextRunAt({ ...timing, frequency: 'daily', hour: 11 }, after).toISOString()).toBe(
+      '2026-10-14T11:00:00.000Z'
+    )
+  })
+
+  it('should place the hour on the schedule clock', () => {
+    // 08:00 at UTC+8 is 00:00 UTC; it is already 18:30 there
+    expect(getNextRunAt({ ...timing, frequency: 'daily', utc_offset: 480 }, after).toISOString()).toBe(
+      '2026-10-15T00:00:00.000Z'
+    )
+  })
+
+  it('should move weekly schedules to their weekday', () => {
+    expect(getNextRunAt({ ...timing, frequency: 'weekly', day_of_week: 1 }, after).toISOString()).toBe(
+      '2026-10-19T08:00:00.000Z'
+    )
+    // Today at a passed hour goes to next week
+    expect(getNextRunAt({ ...timing, frequency: 'weekly', day_of_week: 3 }, after).toISOString()).toBe(
+      '2026-10-21T08:00:00.000Z'
+    )
+  })
+
+  it('should move monthly schedules into next month once their day has passed', () => {
+    expect(getNextRunAt({ ...timing, frequency: 'monthly', day_of_month: 20 }, after).toISOString()).toBe(
+      '2026-10-20T08:00:00.000Z'
+    )
+    expect(getNextRunAt({ ...timing, frequency: 'monthly', day_of_month: 1 }, after).toISOString()).toBe(
+      '2026-11-01T08:00:00.000Z'
+    )
+  })
+})
+
+describe('parseRecipients', () => {
+  it('should treat an unreadable list as empty', () => {
+    expect(parseRecipients({ recipients: '["a@example.com"]' })).toEqual(['a@example.com'])
+    expect(parseRecipients({ recipients: 'not json' })).toEqual([])
+  })
+})
+
+describe('reportScheduleService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    setCurrentRole('supervisor')
+    mockAuditLog.mockResolvedValue(undefined)
+    mockDatabaseService.createDocument.mockImplementation((_collection, data) =>
+      Promise.resolve({ $id: 'schedule-1', ...data })
+    )
+    mockDatabaseService.updateDocument.mockImplementation((_collection, id, data) =>
+      Promise.resolve({ $id: id, name: 'Daily summary', ...data })
+    )
+  })
+
+  describe('create', () => {
+    it('should save the schedule with its first run', async () => {
+      await reportScheduleService.create(input, owner)
+
+      const [collection, data] = mockDatabaseService.createDocument.mock.calls[0]
+      expect(collection).toBe(COLLECTIONS.REPORT_SCHEDULES)
+      expect(data).toMatchObject({
+        name: 'Daily summary',
+        recipients: '["ops@example.com","boss@example.com"]',
+        day_of_week: null,
+        day_of_month: null,
+        enabled: true,
+        user_id: 'user-1',
+        created_by_name: 'Supervisor',
+      })
+      expect(new Date(data.next_run_at).getTime()).toBeGreaterThan(Date.now())
+      expect(mockAuditLog).toHaveBeenCalledWith('report_schedule_create', 'report_schedule', expect.objectContaining({
+        resource_id: 'schedule-1',
+      }))
+    })
+
+    it('should reject schedules without valid recipients', async () => {
+      await expect(reportScheduleService.create({ ...input, recipients: [] }, owner)).rejects.toThrow(
+        'A report schedule needs at least one recipient'
+      )
+      await expect(reportScheduleService.create({ ...input, recipients: ['nobody'] }, owner)).rejects.toThrow(
+        'Invalid email address: nobody'
+      )
+      expect(mockDatabaseService.createDocument).not.toHaveBeenCalled()
+    })
+
+    it('should require the supervisor role', async () => {
+      setCurrentRole('packer')
+
+      await expect(reportScheduleService.create(input, owner)).rejects.toThrow(
+        'Permission denied: requires supervisor role'
+      )
+      expect(mockDatabaseService.createDocument).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('update', () => {
+    const existing = {
+      $id: 'schedule-1',
+      name: 'Daily summary',
+      frequency: 'daily',
+      hour: 8,
+      day_of_week: null,
+      day_of_month: null,
+      utc_offset: 0,
+      enabled: false,
+      next_run_at: '2026-01-01T08:00:00.000Z',
+    }
+
+    it('should pause without touching the next run', async () => {
+      mockDatabaseService.getDocument.mockResolvedValue({ ...existing, enabled: true })
+
+      await reportScheduleService.update('schedule-1', { enabled: false })
+
+      expect(mockDatabaseService.updateDocument).toHaveBeenCalledWith(
+        COLLECTIONS.REPORT_SCHEDULES,
+        'schedule-1',
+        { enabled: false }
+      )
+    })
+
+    it('should work out the next run again on resume', async () => {
+      mockDatabaseService.getDocument.mockResolvedValue(existing)
+
+      await reportScheduleService.update('schedule-1', { enabled: true })
+
+      const updates = mockDatabaseService.updateDocument.mock.calls[0][2]
+      expect(updates.enabled).toBe(true)
+      expect(new Date(updates.next_run_at).getTime()).toBeGreaterThan(Date.now())
+    })
+  })
+
+  describe('delete', () => {
+    it('should delete and audit the schedule', async () => {
+      mockDatabaseService.deleteDocument.mockResolvedValue(undefined)
+
+      await reportScheduleService.delete('schedule-1')
+
+      expect(mockDatabaseService.deleteDocument).toHaveBeenCalledWith(COLLECTIONS.REPORT_SCHEDULES, 'schedule-1')
+      expect(mockAuditLog).toHaveBeenCalledWith('report_schedule_delete', 'report_schedule', {
+        resource_id: 'schedule-1',
+      })
+    })
+  })
+})
@@ -0,0 +1,140 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { parseReportDefinition, reportTemplateService } from '@/lib/appwrite/report-templates'
+import { setCurrentRole } from '@/lib/appwrite/roles'
+import { COLLECTIONS, DEFAULT_REPORT_DEFINITION } from '@/types/report-template'
+import type { CreateReportTemplateInput } from '@/types/report-template'
+
+const mockDatabaseService = {
+  createDocument: vi.fn(),
+  listDocuments: vi.fn(),
+  updateDocument: vi.fn(),
+  deleteDocument: vi.fn(),
+}
+
+const mockAuditLog = vi.fn()
+
+vi.mock('@/lib/appwrite/database', () => ({
+  databaseService: {
+    createDocument: (...args: unknown[]) => mockDatabaseService.createDocument(...args),
+    listDocuments: (...args: unknown[]) => mockDatabaseService.listDocuments(...args),
+    updateDocument: (...args: unknown[]) => mockDatabaseService.updateDocument(...args),
+    deleteDocument: (...args: unknown[]) => mockDatabaseService.deleteDocument(...args),
+  },
+  Query: {
+    limit: (value: number) => `limit(${value})`,
+    orderAsc: (field: string) => `orderAsc("${field}")`,
+  },
+}))
+
+vi.mock('@/lib/appwrite/audit-log', () => ({
+  auditLogService: {
+    log: (...args: unknown[]) => mockAuditLog(...args),
+  },
+}))
+
+const input: CreateReportTemplateInput = {
+  name: ' Packers by cost ',
+  definition: {
+    sections: ['summary', 'breakdown'],
+    groupBy: 'packer',
+    columns: ['waybill', 'product'],
+    sortBy: 'cost',
+    sortDirection: 'desc',
+    bundles: 'exploded',
+  },
+}
+
+const owner = { id: 'user-1', name: 'Supervisor' }
+
+describe('parseReportDefinition', () => {
+  it('should read a saved definition', () => {
+    expect(parseReportDefinition({ definition: JSON.stringify(input.definition) })).toEqual(input.definition)
+  })
+
+  it('should fall back to the standard report for unknown or unreadable values', () => {
+    expect(parseReportDefinition({ definition: 'not json' })).toEqual(DEFAULT_REPORT_DEFINITION)
+    expect(
+      parseReportDefinition({
+        definition: JSON.stringify({ sections: ['charts'], groupBy: 'week', columns: ['date', 'date', 'colour'] }),
+      })
+    ).toEqual({ ...DEFAULT_REPORT_DEFINITION, columns: ['date'] })
+  })
+})
+
+describe('reportTemplateService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    setCurrentRole('supervisor')
+    mockAuditLog.mockResolvedValue(undefined)
+    mockDatabaseService.createDocument.mockImplementation((_collection, data) =>
+      Promise.resolve({ $id: 'template-1', ...data })
+    )
+    mockDatabaseService.updateDocument.mockImplementation((_collection, id, data) =>
+      Promise.resolve({ $id: id, name: 'Packers by cost', ...data })
+    )
+  })
+
+  describe('create', () => {
+    it('should save the definition as JSON', async () => {
+      await reportTemplateService.create(input, owner)
+
+      expect(mockDatabaseService.createDocument).toHaveBeenCalledWith(COLLECTIONS.REPORT_TEMPLATES, {
+        name: 'Packers by cost',
+        definition: JSON.stringify(input.definition),
+        user_id: 'user-1',
+        created_by_name: 'Supervisor',
+      })
+      expect(mockAuditLog).toHaveBeenCalledWith('report_template_create', 'report_template', expect.objectContaining({
+        resource_id: 'template-1',
+      }))
+    })
+
+    it('should reject templates that would produce an empty report', async () => {
+      await expect(
+        reportTemplateService.create({ ...input, definition: { ...input.definition, sections: [] } }, owner)
+      ).rejects.toThrow('A report template needs at least one section')
+      await expect(
+        reportTemplateService.create(
+          { ...input, definition: { ...input.definition, sections: ['details'], columns: [] } },
+          owner
+        )
+      ).rejects.toThrow('The details section needs at least one column')
+      expect(mockDatabaseService.createDocument).not.toHaveBeenCalled()
+    })
+
+    it('should require the supervisor role', async () => {
+      setCurrentRole('packer')
+
+      await expect(reportTemplateService.create(input, owner)).rejects.toThrow(
+        'Permission denied: requires supervisor role'
+      )
+      expect(mockDatabaseService.createDocument).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('update', () => {
+    it('should only write the fields given', async () => {
+      await reportTemplateService.update('template-1', { name: ' Renamed ' })
+
+      expect(mockDatabaseService.updateDocument).toHaveBeenCalledWith(
+        COLLECTIONS.REPORT_TEMPLATES,
+        'template-1',
+        { name: 'Renamed' }
+      )
+    })
+  })
+
+  describe('delete', () => {
+    it('should delete and audit the template', async () => {
+      mockDatabaseService.deleteDocument.mockResolvedValue(undefined)
+
+      await reportTemplateService.delete('template-1')
+
+      expect(mockDatabaseService.deleteDocument).toHaveBeenCalledWith(COLLECTIONS.REPORT_TEMPLATES, 'template-1')
+      expect(mockAuditLog).toHaveBeenCalledWith('report_template_delete', 'report_template', {
+        resource_id: 'template-1',
+      })
+    })
+  })
+})
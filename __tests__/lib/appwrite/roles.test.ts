@@ -0,0 +1,82 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import {
+  getCurrentRole,
+  hasRole,
+  requireRole,
+  resolveRole,
+  setCurrentRole,
+} from '@/lib/appwrite/roles'
+
+const mockAuditLog = vi.fn()
+
+vi.mock('@/lib/appwrite/audit-log', () => ({
+  auditLogService: {
+    log: (...args: unknown[]) => mockAuditLog(...args),
+  },
+}))
+
+describe('roles', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockAuditLog.mockResolvedValue(null)
+    setCurrentRole(null)
+  })
+
+  describe('hasRole', () => {
+    it('should grant equal and lower roles', () => {
+      expect(hasRole('supervisor', 'packer')).toBe(true)
+      expect(hasRole('supervisor', 'supervisor')).toBe(true)
+      expect(hasRole('admin', 'supervisor')).toBe(true)
+    })
+
+    it('should deny higher roles', () => {
+      expect(hasRole('packer', 'supervisor')).toBe(false)
+      expect(hasRole('supervisor', 'admin')).toBe(false)
+    })
+
+    it('should deny everything without a role', () => {
+      expect(hasRole(null, 'packer')).toBe(false)
+    })
+  })
+
+  describe('resolveRole', () => {
+    it('should pick the most privileged role', () => {
+      expect(resolveRole(['packer', 'admin', 'supervisor'])).toBe('admin')
+    })
+
+    it('should ignore unknown roles', () => {
+      expect(resolveRole(['owner'])).toBeNull()
+      expect(resolveRole(['owner', 'packer'])).toBe('packer')
+    })
+  })
+
+  describe('requireRole', () => {
+    it('should pass when the current role is sufficient', () => {
+      setCurrentRole('admin')
+
+      expect(() => requireRole('supervisor', 'product_delete', 'product')).not.toThrow()
+      expect(mockAuditLog).not.toHaveBeenCalled()
+    })
+
+    it('should throw and audit a failure when the role is insufficient', () => {
+      setCurrentRole('packer')
+
+      expect(() =>
+        requireRole('supervisor', 'product_delete', 'product', { resource_id: 'product-123' })
+      ).toThrow('Permission denied: requires supervisor role')
+
+      expect(mockAuditLog).toHaveBeenCalledWith('product_delete', 'product', {
+        resource_id: 'product-123',
+        action_details: { required_role: 'supervisor', role: 'packer' },
+        status: 'failure',
+        error_message: 'Permission denied: requires supervisor role',
+      })
+    })
+
+    it('should deny when no role is set', () => {
+      expect(getCurrentRole()).toBeNull()
+      expect(() => requireRole('packer', 'job_queue_export', 'job')).toThrow()
+    })
+  })
+})
@@ -0,0 +1,194 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { stockMovementService } from '@/lib/appwrite/stock-movements'
+import type { Product } from '@/types/product'
+import { COLLECTIONS } from '@/types/stock-movement'
+import type { StockMovement } from '@/types/stock-movement'
+
+const mockDatabaseService = {
+  createDocument: vi.fn(),
+  getDocument: vi.fn(),
+  listDocuments: vi.fn(),
+}
+
+vi.mock('@/lib/appwrite/database', () => ({
+  databaseService: {
+    createDocument: (...args: unknown[]) => mockDatabaseService.createDocument(...args),
+    getDocument: (...args: unknown[]) => mockDatabaseService.getDocument(...args),
+    listDocuments: (...args: unknown[]) => mockDatabaseService.listDocuments(...args),
+  },
+  Query: {
+    equal: (field: string, value: unknown) => `equal("${field}", ${JSON.stringify(value)})`,
+    limit: (value: number) => `limit(${value})`,
+    offset: (value: number) => `offset(${value})`,
+    orderAsc: (field: string) => `orderAsc("${field}")`,
+    orderDesc: (field: string) => `orderDesc("${field}")`,
+    cursorAfter: (id: string) => `cursorAfter("${id}")`,
+  },
+}))
+
+const mockAuditLog = vi.fn()
+let mockUserContext: { user_id: string; user_email: string | null } | null = null
+
+vi.mock('@/lib/appwrite/audit-log', () => ({
+  auditLogService: {
+    log: (...args: unknown[]) => mockAuditLog(...args),
+  },
+  getAuditUserContext: () => mockUserContext,
+}))
+
+const mockProduct = {
+  $id: 'prod-1',
+  barcode: '1234567890128',
+  name: 'Test Product',
+  type: 'single',
+  stock_quantity: 90,
+} as Product
+
+const movement = (delta: number, resulting: number): StockMovement =>
+  ({
+    product_id: 'prod-1',
+    delta,
+    resulting_quantity: resulting,
+    reason: 'packaging',
+    source_id: null,
+    user_id: null,
+    location_id: null,
+  }) as StockMovement
+
+describe('stockMovementService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockAuditLog.mockResolvedValue(null)
+    mockUserContext = null
+  })
+
+  describe('_recordInternal', () => {
+    it('should record movements with the current user', async () => {
+      mockUserContext = { user_id: 'user-1', user_email: 'user@example.com' }
+      mockDatabaseService.createDocument.mockResolvedValue({})
+
+      await stockMovementService._recordInternal([
+        {
+          product_id: 'prod-1',
+          delta: -2,
+          resulting_quantity: 98,
+          reason: 'packaging',
+          source_id: 'record-1',
+          location_id: 'loc-b',
+        },
+      ])
+
+      expect(mockDatabaseService.createDocument).toHaveBeenCalledWith(COLLECTIONS.STOCK_MOVEMENTS, {
+        product_id: 'prod-1',
+        delta: -2,
+        resulting_quantity: 98,
+        reason: 'packaging',
+        source_id: 'record-1',
+        user_id: 'user-1',
+        location_id: 'loc-b',
+      })
+    })
+
+    it('should not throw when a movement cannot be written', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+      mockDatabaseService.createDocument.mockRejectedValue(new Error('Network error'))
+
+      await expect(
+        stockMovementService._recordInternal([
+          { product_id: 'prod-1', delta: 5, resulting_quantity: 5, reason: 'import' },
+        ])
+      ).resolves.toBeUndefined()
+      expect(consoleSpy).toHaveBeenCalled()
+
+      consoleSpy.mockRestore()
+    })
+  })
+
+  describe('listByProduct', () => {
+    it('should list a product history newest first', async () => {
+      mockDatabaseService.listDocuments.mockResolvedValue({ documents: [movement(-1, 99)], total: 1 })
+
+      const result = await stockMovementService.listByProduct('prod-1', { limit: 10, offset: 20 })
+
+      expect(result.total).toBe(1)
+      expect(mockDatabaseService.listDocuments).toHaveBeenCalledWith(COLLECTIONS.STOCK_MOVEMENTS, [
+        'equal("product_id", "prod-1")',
+        'orderDesc("$createdAt")',
+        'limit(10)',
+        'offset(20)',
+      ])
+    })
+  })
+
+  describe('rebuildStock', () => {
+    it('should report no drift when movements add up to the stored stock', async () => {
+      mockDatabaseService.getDocument.mockResolvedValue(mockProduct)
+      mockDatabaseService.listDocuments.mockResolvedValue({
+        documents: [movement(100, 100), movement(-5, 95), movement(-5, 90)],
+        total: 3,
+      })
+
+      const result = await stockMovementService.rebuildStock('prod-1')
+
+      expect(result).toEqual({
+        product_id: 'prod-1',
+        movement_count: 3,
+        opening_quantity: 0,
+        rebuilt_quantity: 90,
+        current_quantity: 90,
+        drift: 0,
+        gaps: 0,
+      })
+    })
+
+    it('should report drift and gaps when stock changed outside the ledger', async () => {
+      mockDatabaseService.getDocument.mockResolvedValue({ ...mockProduct, stock_quantity: 70 })
+      mockDatabaseService.listDocuments.mockResolvedValue({
+        documents: [movement(-10, 40), movement(-5, 20)],
+        total: 2,
+      })
+
+      const result = await stockMovementService.rebuildStock('prod-1')
+
+      expect(result.opening_quantity).toBe(50)
+      expect(result.rebuilt_quantity).toBe(35)
+      expect(result.drift).toBe(35)
+      expect(result.gaps).toBe(1)
+      expect(mockAuditLog).toHaveBeenCalledWith('product_stock_ledger_check', 'product', expect.objectContaining({
+        resource_id: 'prod-1',
+      }))
+    })
+
+    it('should page by cursor in creation then ID order', async () => {
+      mockDatabaseService.getDocument.mockResolvedValue({ ...mockProduct, stock_quantity: 99 })
+      const page = Array.from({ length: 100 }, (_, i) => ({ ...movement(-1, 199 - i), $id: `move-${i}` }))
+      mockDatabaseService.listDocuments
+        .mockResolvedValueOnce({ documents: page, total: 101 })
+        .mockResolvedValueOnce({ documents: [{ ...movement(-1, 99), $id: 'move-100' }], total: 101 })
+
+      const result = await stockMovementService.rebuildStock('prod-1')
+
+      expect(result.movement_count).toBe(101)
+      expect(result.gaps).toBe(0)
+      expect(result.drift).toBe(0)
+      expect(mockDatabaseService.listDocuments).toHaveBeenLastCalledWith('stock_movements', [
+        'equal("product_id", "prod-1")',
+        'orderAsc("$createdAt")',
+        'orderAsc("$id")',
+        'limit(100)',
+        'cursorAfter("move-99")',
+      ])
+    })
+
+    it('should treat a product without movements as in balance', async () => {
+      mockDatabaseService.getDocument.mockResolvedValue(mockProduct)
+      mockDatabaseService.listDocuments.mockResolvedValue({ documents: [], total: 0 })
+
+      const result = await stockMovementService.rebuildStock('prod-1')
+
+      expect(result.movement_count).toBe(0)
+      expect(result.drift).toBe(0)
+    })
+  })
+})
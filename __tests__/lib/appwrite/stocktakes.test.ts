@@ -0,0 +1,209 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { getStocktakeVariance, stocktakeService, summarizeStocktake } from '@/lib/appwrite/stocktakes'
+import { setCurrentRole } from '@/lib/appwrite/roles'
+import { COLLECTIONS } from '@/types/stocktake'
+
+const mockDatabaseService = {
+  getDocument: vi.fn(),
+  listDocuments: vi.fn(),
+}
+
+const mockCreateExecution = vi.fn()
+const mockAuditLog = vi.fn()
+
+vi.mock('@/lib/appwrite/database', () => ({
+  databaseService: {
+    getDocument: (...args: unknown[]) => mockDatabaseService.getDocument(...args),
+    listDocuments: (...args: unknown[]) => mockDatabaseService.listDocuments(...args),
+  },
+  Query: {
+    equal: (field: string, value: unknown) => `equal("${field}", ${JSON.stringify(value)})`,
+    orderAsc: (field: string) => `orderAsc("${field}")`,
+    orderDesc: (field: string) => `orderDesc("${field}")`,
+    limit: (value: number) => `limit(${value})`,
+    offset: (value: number) => `offset(${value})`,
+  },
+}))
+
+vi.mock('@/lib/appwrite/config', () => ({
+  functions: {
+    createExecution: (...args: unknown[]) => mockCreateExecution(...args),
+  },
+}))
+
+vi.mock('@/lib/appwrite/audit-log', () => ({
+  auditLogService: {
+    log: (...args: unknown[]) => mockAuditLog(...args),
+  },
+  getAuditUserContext: () => ({ user_id: 'user-1', user_email: 'staff@example.com', session_id: 'session-1' }),
+}))
+
+const stocktake = {
+  $id: 'stocktake-1',
+  $createdAt: '2026-10-19T08:00:00.000Z',
+  $updatedAt: '2026-10-19T08:00:00.000Z',
+  name: 'Aisle 3',
+  location_id: null,
+  blind: true,
+  filters: null,
+  status: 'counting',
+  item_count: 2,
+  created_by: 'user-1',
+  created_by_name: 'Staff',
+  reason_code: null,
+  notes: null,
+  closed_by: null,
+  closed_by_name: null,
+  closed_at: null,
+}
+
+// Payload the stocktake function was executed with
+function executedPayload() {
+  return JSON.parse(mockCreateExecution.mock.calls[0][1])
+}
+
+describe('getStocktakeVariance', () => {
+  it('should be null until counted', () => {
+    expect(getStocktakeVariance({ system_quantity: 5, counted_quantity: null })).toBeNull()
+    expect(getStocktakeVariance({ system_quantity: 5, counted_quantity: 3 })).toBe(-2)
+  })
+})
+
+describe('summarizeStocktake', () => {
+  it('should total counts, variances and their value', () => {
+    expect(
+      summarizeStocktake([
+        { system_quantity: 10, counted_quantity: 12, unit_cost: 1.5 },
+        { system_quantity: 8, counted_quantity: 5, unit_cost: 2 },
+        { system_quantity: 4, counted_quantity: 4, unit_cost: 3 },
+        { system_quantity: 7, counted_quantity: null, unit_cost: 1 },
+      ])
+    ).toEqual({
+      total: 4,
+      counted: 3,
+      uncounted: 1,
+      withVariance: 2,
+      unitsOver: 2,
+      unitsShort: 3,
+      varianceValue: -3,
+    })
+  })
+})
+
+describe('stocktakeService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    setCurrentRole('supervisor')
+    mockAuditLog.mockResolvedValue(undefined)
+    mockCreateExecution.mockResolvedValue({
+      responseBody: JSON.stringify({ success: true, stocktake, stock_updates: { updated: 0 } }),
+    })
+  })
+
+  describe('create', () => {
+    it('should send the trimmed name and filter with the user context', async () => {
+      const result = await stocktakeService.create({
+        name: ' Aisle 3 ',
+        blind: true,
+        filters: { search: ' MUG ' },
+      })
+
+      expect(mockCreateExecution).toHaveBeenCalledWith('stocktake', expect.any(String), false)
+      expect(executedPayload()).toEqual({
+        action: 'create',
+        name: 'Aisle 3',
+        location_id: null,
+        blind: true,
+        filters: { search: 'MUG' },
+        user_id: 'user-1',
+        user_email: 'staff@example.com',
+        session_id: 'session-1',
+      })
+      expect(result.$collectionId).toBe(COLLECTIONS.STOCKTAKES)
+    })
+
+    it('should require the supervisor role', async () => {
+      setCurrentRole('packer')
+
+      await expect(stocktakeService.create({ name: 'Aisle 3' })).rejects.toThrow(
+        'Permission denied: requires supervisor role'
+      )
+      expect(mockCreateExecution).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('saveCounts', () => {
+    it('should let packers save counts', async () => {
+      setCurrentRole('packer')
+
+      await stocktakeService.saveCounts('stocktake-1', [
+        { product_barcode: '111', counted_quantity: 4 },
+        { product_barcode: '222', counted_quantity: null },
+      ])
+
+      expect(executedPayload()).toMatchObject({
+        action: 'count',
+        stocktake_id: 'stocktake-1',
+        counts: [
+          { product_barcode: '111', counted_quantity: 4 },
+          { product_barcode: '222', counted_quantity: null },
+        ],
+      })
+    })
+
+    it('should surface function errors', async () => {
+      mockCreateExecution.mockResolvedValue({
+        responseBody: JSON.stringify({ success: false, error: 'This stocktake has been approved' }),
+      })
+
+      await expect(
+        stocktakeService.saveCounts('stocktake-1', [{ product_barcode: '111', counted_quantity: 4 }])
+      ).rejects.toThrow('This stocktake has been approved')
+    })
+  })
+
+  describe('approve', () => {
+    it('should send the reason code and trimmed notes', async () => {
+      await stocktakeService.approve('stocktake-1', 'damaged', ' Water leak ')
+
+      expect(executedPayload()).toMatchObject({
+        action: 'approve',
+        stocktake_id: 'stocktake-1',
+        reason_code: 'damaged',
+        notes: 'Water leak',
+      })
+    })
+
+    it('should require the supervisor role', async () => {
+      setCurrentRole('packer')
+
+      await expect(stocktakeService.approve('stocktake-1', 'cycle_count')).rejects.toThrow(
+        'Permission denied: requires supervisor role'
+      )
+      expect(mockAuditLog).toHaveBeenCalledWith('stocktake_approve', 'stocktake', expect.objectContaining({
+        resource_id: 'stocktake-1',
+        status: 'failure',
+      }))
+    })
+  })
+
+  describe('getWithItems', () => {
+    it('should read the items a page at a time', async () => {
+      mockDatabaseService.getDocument.mockResolvedValue(stocktake)
+      mockDatabaseService.listDocuments
+        .mockResolvedValueOnce({ documents: Array.from({ length: 5000 }, (_, i) => ({ $id: `item-${i}` })), total: 5001 })
+        .mockResolvedValueOnce({ documents: [{ $id: 'item-5000' }], total: 5001 })
+
+      const result = await stocktakeService.getWithItems('stocktake-1')
+
+      expect(result.items).toHaveLength(5001)
+      expect(mockDatabaseService.listDocuments).toHaveBeenLastCalledWith(COLLECTIONS.STOCKTAKE_ITEMS, [
+        'equal("stocktake_id", "stocktake-1")',
+        'orderAsc("product_name")',
+        'limit(5000)',
+        'offset(5000)',
+      ])
+    })
+  })
+})
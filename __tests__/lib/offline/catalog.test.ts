@@ -0,0 +1,130 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { getQueuedDeductions, offlineCatalogService } from '@/lib/offline/catalog'
+import type { CatalogProduct, QueuedWaybill } from '@/types/offline'
+import type { Product } from '@/types/product'
+
+const catalog = new Map<string, CatalogProduct>()
+
+vi.mock('@/lib/offline/idb', () => ({
+  STORES: { CATALOG: 'catalog', CATALOG_META: 'catalog_meta' },
+  offlineDb: {
+    get: async (_store: string, key: string) => catalog.get(key),
+    getAll: async () => [...catalog.values()],
+    getByIndex: async (_store: string, _index: string, barcode: string) =>
+      [...catalog.values()].find((entry) => entry.product.barcode === barcode),
+  },
+}))
+
+vi.mock('@/lib/appwrite/database', () => ({
+  databaseService: { listDocuments: vi.fn() },
+  Query: {},
+}))
+
+vi.mock('@/lib/appwrite/locations', () => ({
+  locationStockService: { getStockByLocation: vi.fn() },
+}))
+
+const product = (id: string, barcode: string, type: 'single' | 'bundle' = 'single') =>
+  ({ $id: id, barcode, name: `Product ${id}`, sku_code: null, type, stock_quantity: 100 }) as Product
+
+const queued = (locationId: string | undefined, deductions: Record<string, number>) =>
+  ({
+    record: { packaging_date: '2024-01-15', waybill_number: 'WB001', location_id: locationId },
+    stock_updates: Object.entries(deductions).map(([product_id, deduct_amount]) => ({
+      product_id,
+      deduct_amount,
+    })),
+  }) as QueuedWaybill
+
+describe('getQueuedDeductions', () => {
+  it('should add up queued deductions for the location only', () => {
+    const deductions = getQueuedDeductions(
+      [
+        queued('loc-b', { 'prod-1': 2 }),
+        queued('loc-b', { 'prod-1': 1, 'prod-2': 4 }),
+        queued('loc-main', { 'prod-1': 10 }),
+      ],
+      'loc-b'
+    )
+
+    expect(deductions.get('prod-1')).toBe(3)
+    expect(deductions.get('prod-2')).toBe(4)
+  })
+})
+
+describe('offlineCatalogService', () => {
+  beforeEach(() => {
+    catalog.clear()
+    catalog.set('prod-1', {
+      product: product('prod-1', '111'),
+      components: [],
+      aliases: [{ barcode: 'CASE-111', pack_quantity: 6 }],
+      stock_by_location: { 'loc-main': 70, 'loc-b': 30 },
+    })
+    catalog.set('bundle-1', {
+      product: product('bundle-1', '999', 'bundle'),
+      components: [{ product_id: 'prod-1', quantity: 2 }],
+      stock_by_location: {},
+    })
+  })
+
+  describe('lookup', () => {
+    it('should return cached stock at the location less queued waybills', async () => {
+      const result = await offlineCatalogService.lookup('111', 'loc-b', [
+        queued('loc-b', { 'prod-1': 5 }),
+      ])
+
+      expect(result?.product.stock_quantity).toBe(25)
+    })
+
+    it('should return bundles with their components', async () => {
+      const result = await offlineCatalogService.lookup('999', 'loc-main', [])
+
+      expect(result?.bundleComponents).toEqual([
+        { product: expect.objectContaining({ $id: 'prod-1', stock_quantity: 70 }), quantity: 2 },
+      ])
+    })
+
+    it('should resolve alternate barcodes with their pack quantity', async () => {
+      const result = await offlineCatalogService.lookup('CASE-111', 'loc-b', [])
+
+      expect(result?.product.$id).toBe('prod-1')
+      expect(result?.packQuantity).toBe(6)
+    })
+
+    it('should expand nested bundles into the products they contain', async () => {
+      catalog.set('hamper-1', {
+        product: product('hamper-1', '888', 'bundle'),
+        components: [{ product_id: 'bundle-1', quantity: 3 }, { product_id: 'prod-1', quantity: 1 }],
+        stock_by_location: {},
+      })
+
+      const result = await offlineCatalogService.lookup('888', 'loc-main', [])
+
+      expect(result?.bundleComponents).toEqual([
+        { product: expect.objectContaining({ $id: 'prod-1' }), quantity: 7 },
+      ])
+    })
+
+    it('should reject bundles that contain themselves', async () => {
+      catalog.get('bundle-1')!.components.push({ product_id: 'bundle-1', quantity: 1 })
+
+      await expect(offlineCatalogService.lookup('999', 'loc-main', [])).rejects.toThrow(
+        'Bundle cycle: Product bundle-1 → Product bundle-1'
+      )
+    })
+
+    it('should return null for barcodes that are not cached', async () => {
+      expect(await offlineCatalogService.lookup('000', 'loc-b', [])).toBeNull()
+    })
+  })
+
+  describe('search', () => {
+    it('should match barcode or name', async () => {
+      const result = await offlineCatalogService.search('product bundle')
+
+      expect(result.map((p) => p.$id)).toEqual(['bundle-1'])
+    })
+  })
+})
@@ -0,0 +1,193 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import {
+  findStockConflicts,
+  MAX_SYNC_ATTEMPTS,
+  offlineQueueService,
+} from '@/lib/offline/sync-queue'
+import type { QueuedWaybill } from '@/types/offline'
+import type { Product } from '@/types/product'
+
+const stores = new Map<string, Map<IDBValidKey, unknown>>()
+const storeFor = (name: string) => {
+  if (!stores.has(name)) stores.set(name, new Map())
+  return stores.get(name)!
+}
+
+vi.mock('@/lib/offline/idb', () => ({
+  STORES: { WAYBILL_QUEUE: 'waybill_queue' },
+  offlineDb: {
+    get: async (store: string, key: IDBValidKey) => storeFor(store).get(key),
+    getAll: async (store: string) => [...storeFor(store).values()],
+    put: async (store: string, value: QueuedWaybill) => {
+      storeFor(store).set(value.idempotency_key, value)
+    },
+    delete: async (store: string, key: IDBValidKey) => {
+      storeFor(store).delete(key)
+    },
+  },
+}))
+
+const mockCreateWithItems = vi.fn()
+const mockGetByIds = vi.fn()
+const mockGetLocation = vi.fn()
+const mockGetQuantities = vi.fn()
+
+vi.mock('@/lib/appwrite/packaging', () => ({
+  packagingRecordService: {
+    createWithItemsViaFunction: (...args: unknown[]) => mockCreateWithItems(...args),
+  },
+}))
+
+vi.mock('@/lib/appwrite/products', () => ({
+  productService: {
+    _getByIdsInternal: (...args: unknown[]) => mockGetByIds(...args),
+  },
+}))
+
+vi.mock('@/lib/appwrite/locations', () => ({
+  locationService: {
+    getById: (...args: unknown[]) => mockGetLocation(...args),
+  },
+  locationStockService: {
+    getQuantities: (...args: unknown[]) => mockGetQuantities(...args),
+  },
+}))
+
+const mockProduct = {
+  $id: 'prod-1',
+  barcode: '1234567890128',
+  name: 'Test Product',
+  type: 'single',
+  stock_quantity: 10,
+} as Product
+
+const waybillInput = {
+  idempotency_key: 'key-1',
+  record: { packaging_date: '2024-01-15', waybill_number: 'WB001', location_id: 'loc-b' },
+  items: [{ product_barcode: '1234567890128', product_name: 'Test Product' }],
+  stock_updates: [{ product_id: 'prod-1', deduct_amount: 2 }],
+  expected_stock: { 'prod-1': 5 },
+}
+
+describe('findStockConflicts', () => {
+  it('should report products the location can no longer cover', async () => {
+    const waybill = await offlineQueueService.enqueue(waybillInput)
+
+    const conflicts = findStockConflicts(
+      waybill,
+      new Map([['prod-1', mockProduct]]),
+      new Map([['prod-1', 1]])
+    )
+
+    expect(conflicts).toEqual([{
+      product_id: 'prod-1',
+      barcode: '1234567890128',
+      name: 'Test Product',
+      required: 2,
+      expected: 5,
+      available: 1,
+    }])
+  })
+
+  it('should ignore stock that changed but still covers the waybill', async () => {
+    const waybill = await offlineQueueService.enqueue(waybillInput)
+
+    expect(
+      findStockConflicts(waybill, new Map([['prod-1', mockProduct]]), new Map([['prod-1', 3]]))
+    ).toEqual([])
+  })
+
+  it('should report deleted products', async () => {
+    const waybill = await offlineQueueService.enqueue(waybillInput)
+
+    const [conflict] = findStockConflicts(waybill, new Map(), new Map())
+
+    expect(conflict).toMatchObject({ product_id: 'prod-1', available: 0 })
+  })
+})
+
+describe('offlineQueueService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    stores.clear()
+    mockGetByIds.mockResolvedValue(new Map([['prod-1', mockProduct]]))
+    mockGetLocation.mockResolvedValue({ $id: 'loc-b', is_default: false })
+    mockGetQuantities.mockResolvedValue(new Map([['prod-1', 4]]))
+  })
+
+  describe('sync', () => {
+    it('should save pending waybills with their idempotency key and dequeue them', async () => {
+      await offlineQueueService.enqueue(waybillInput)
+      mockCreateWithItems.mockResolvedValue({ record: {}, items: [] })
+
+      const result = await offlineQueueService.sync()
+
+      expect(result).toEqual({ synced: 1, conflicts: 0, failed: 0, offline: false })
+      expect(mockCreateWithItems).toHaveBeenCalledWith(
+        waybillInput.record,
+        waybillInput.items,
+        waybillInput.stock_updates,
+        'key-1'
+      )
+      expect(await offlineQueueService.list()).toEqual([])
+    })
+
+    it('should hold back waybills whose stock changed as conflicts', async () => {
+      await offlineQueueService.enqueue(waybillInput)
+      mockGetQuantities.mockResolvedValue(new Map([['prod-1', 1]]))
+
+      const result = await offlineQueueService.sync()
+
+      expect(result.conflicts).toBe(1)
+      expect(mockCreateWithItems).not.toHaveBeenCalled()
+      const [queued] = await offlineQueueService.list()
+      expect(queued.status).toBe('conflict')
+      expect(queued.conflicts[0]).toMatchObject({ required: 2, available: 1 })
+    })
+
+    it('should sync a conflict anyway once it is retried', async () => {
+      await offlineQueueService.enqueue(waybillInput)
+      mockGetQuantities.mockResolvedValue(new Map([['prod-1', 1]]))
+      await offlineQueueService.sync()
+      mockCreateWithItems.mockResolvedValue({ record: {}, items: [] })
+
+      await offlineQueueService.retry('key-1')
+      const result = await offlineQueueService.sync()
+
+      expect(result.synced).toBe(1)
+      expect(mockCreateWithItems).toHaveBeenCalledTimes(1)
+    })
+
+    it('should keep the queue intact and stop when the network is down', async () => {
+      await offlineQueueService.enqueue(waybillInput)
+      await offlineQueueService.enqueue({ ...waybillInput, idempotency_key: 'key-2' })
+      mockCreateWithItems.mockRejectedValue(new TypeError('Failed to fetch'))
+
+      const result = await offlineQueueService.sync()
+
+      expect(result.offline).toBe(true)
+      expect(mockCreateWithItems).toHaveBeenCalledTimes(1)
+      const queue = await offlineQueueService.list()
+      expect(queue).toHaveLength(2)
+      expect(queue.every((waybill) => waybill.status === 'pending' && waybill.attempts === 0)).toBe(true)
+    })
+
+    it('should mark a waybill failed after repeated server errors', async () => {
+      await offlineQueueService.enqueue(waybillInput)
+      mockCreateWithItems.mockRejectedValue(new Error('Permission denied'))
+
+      for (let attempt = 1; attempt < MAX_SYNC_ATTEMPTS; attempt++) {
+        await offlineQueueService.sync()
+      }
+      expect((await offlineQueueService.list())[0].status).toBe('pending')
+
+      const result = await offlineQueueService.sync()
+
+      expect(result.failed).toBe(1)
+      const [queued] = await offlineQueueService.list()
+      expect(queued.status).toBe('failed')
+      expect(queued.last_error).toBe('Permission denied')
+    })
+  })
+})
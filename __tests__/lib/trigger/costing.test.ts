@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+  type CatalogueComponent,
+  type CatalogueProduct,
+  getBundleCosting,
+  getComponentsCost,
+  getItemCost,
+  roundCost,
+} from '../../../trigger/lib/costing'
+
+const snapshot = JSON.stringify([
+  { barcode: '1111', product_name: 'Mug', quantity: 2, unit_cost: 2.5 },
+  { barcode: '2222', product_name: 'Box', quantity: 1, unit_cost: 0.35 },
+])
+
+describe('getBundleCosting', () => {
+  it('should cost from components only when set to components', () => {
+    expect(getBundleCosting(' Components ')).toBe('components')
+    expect(getBundleCosting('bundle')).toBe('bundle')
+    expect(getBundleCosting('other')).toBe('bundle')
+    expect(getBundleCosting(undefined)).toBe('bundle')
+  })
+})
+
+describe('roundCost', () => {
+  it('should round to cents', () => {
+    expect(roundCost(0.1 + 0.2)).toBe(0.3)
+    expect(roundCost(2.5 * 3 + 0.004)).toBe(7.5)
+  })
+})
+
+describe('getItemCost', () => {
+  it('should cost a single product at its pack-time cost', () => {
+    const item = { unit_cost: 4, components_snapshot: null }
+
+    expect(getItemCost(item, 'bundle', 9)).toBe(4)
+    expect(getItemCost(item, 'components', 9)).toBe(4)
+  })
+
+  it('should cost a snapshotted bundle from its own cost or its components', () => {
+    const item = { unit_cost: 6, components_snapshot: snapshot }
+
+    expect(getItemCost(item, 'bundle', 9, 7)).toBe(6)
+    expect(getItemCost(item, 'components', 9, 7)).toBe(5.35)
+  })
+
+  it('should cost a bundle packed before snapshots from its current components', () => {
+    const item = { unit_cost: null, components_snapshot: null }
+
+    expect(getItemCost(item, 'components', 9, 7)).toBe(7)
+    expect(getItemCost(item, 'bundle', 9, 7)).toBe(9)
+  })
+
+  it('should fall back to the current cost without current components', () => {
+    expect(getItemCost({ unit_cost: null, components_snapshot: null }, 'components', 9)).toBe(9)
+  })
+})
+
+describe('getComponentsCost', () => {
+  const products: CatalogueProduct[] = [
+    { $id: 'gift-set', type: 'bundle', cost: 20 },
+    { $id: 'mug-pair', type: 'bundle', cost: 8 },
+    { $id: 'mug', type: 'single', cost: 2.5 },
+    { $id: 'box', type: 'single', cost: 0.35 },
+  ]
+  const productsById = new Map(products.map((product) => [product.$id, product]))
+  const componentsByParent = new Map<string, CatalogueComponent[]>([
+    ['gift-set', [{ child_product_id: 'mug-pair', quantity: 2 }, { child_product_id: 'box', quantity: 1 }]],
+    ['mug-pair', [{ child_product_id: 'mug', quantity: 2 }]],
+  ])
+
+  it('should sum nested bundles from the products they hold', () => {
+    expect(getComponentsCost(productsById.get('gift-set')!, productsById, componentsByParent)).toBe(10.35)
+  })
+
+  it('should skip components whose product is gone', () => {
+    const components = new Map([
+      ['mug-pair', [{ child_product_id: 'mug', quantity: 1 }, { child_product_id: 'deleted', quantity: 3 }]],
+    ])
+
+    expect(getComponentsCost(productsById.get('mug-pair')!, productsById, components)).toBe(2.5)
+  })
+
+  it('should cost a bundle that contains itself at its own cost', () => {
+    const components = new Map([
+      ['mug-pair', [{ child_product_id: 'mug', quantity: 1 }, { child_product_id: 'mug-pair', quantity: 1 }]],
+    ])
+
+    expect(getComponentsCost(productsById.get('mug-pair')!, productsById, components)).toBe(10.5)
+  })
+})
@@ -0,0 +1,87 @@
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+
+import { escapeCsv, writeCsvFile, writeJsonFile } from '../../../trigger/lib/export-files'
+
+let dir: string
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'export-files-'))
+})
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true })
+})
+
+describe('escapeCsv', () => {
+  it('should quote fields with commas, quotes or newlines', () => {
+    expect(escapeCsv('plain')).toBe('plain')
+    expect(escapeCsv('a,b')).toBe('"a,b"')
+    expect(escapeCsv('say "hi"')).toBe('"say ""hi"""')
+    expect(escapeCsv('two\nlines')).toBe('"two\nlines"')
+    expect(escapeCsv('cr\rhere')).toBe('"cr\rhere"')
+  })
+
+  it('should write missing values as empty fields', () => {
+    expect(escapeCsv(null)).toBe('')
+    expect(escapeCsv(undefined)).toBe('')
+    expect(escapeCsv(0)).toBe('0')
+  })
+})
+
+describe('writeCsvFile', () => {
+  it('should write a header and one escaped line per row', async () => {
+    const filePath = path.join(dir, 'table.csv')
+
+    await writeCsvFile(filePath, ['Name', 'Note, with comma'], [
+      { Name: 'Mug, large', 'Note, with comma': 'says "hi"' },
+      { Name: 'Box', 'Note, with comma': 'line one\nline two' },
+      { Name: 'Tape' },
+    ])
+
+    expect(fs.readFileSync(filePath, 'utf8')).toBe(
+      'Name,"Note, with comma"\n' +
+        '"Mug, large","says ""hi"""\n' +
+        'Box,"line one\nline two"\n' +
+        'Tape,\n'
+    )
+  })
+})
+
+describe('writeJsonFile', () => {
+  it('should write each section as a list of its rows', async () => {
+    const filePath = path.join(dir, 'report.json')
+    const rows = [{ name: 'Mug, "large"', quantity: 2 }, { name: 'Box\nlid', quantity: 1 }]
+
+    await writeJsonFile(filePath, { items: rows, empty: [], totals: [{ quantity: 3 }] })
+
+    const text = fs.readFileSync(filePath, 'utf8')
+    expect(JSON.parse(text)).toEqual({ items: rows, empty: [], totals: [{ quantity: 3 }] })
+    expect(text).toBe(
+      '{\n' +
+        '  "items": [\n' +
+        '    {"name":"Mug, \\"large\\"","quantity":2},\n' +
+        '    {"name":"Box\\nlid","quantity":1}\n' +
+        '  ],\n' +
+        '  "empty": [],\n' +
+        '  "totals": [\n' +
+        '    {"quantity":3}\n' +
+        '  ]\n' +
+        '}\n'
+    )
+  })
+
+  it('should read rows from a generator', async () => {
+    const filePath = path.join(dir, 'generated.json')
+    function* rows() {
+      yield { n: 1 }
+      yield { n: 2 }
+    }
+
+    await writeJsonFile(filePath, { rows: rows() })
+
+    expect(JSON.parse(fs.readFileSync(filePath, 'utf8'))).toEqual({ rows: [{ n: 1 }, { n: 2 }] })
+  })
+})
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+  explodeBundleItems,
+  getDatesInRange,
+  isCacheComplete,
+  type PackagingItem,
+} from '../../../trigger/lib/packaging-report-data'
+
+const item = (overrides: Partial<PackagingItem> = {}): PackagingItem => ({
+  $id: 'item-1',
+  packaging_record_id: 'record-1',
+  product_barcode: '1111',
+  scanned_at: '2026-10-14T01:00:00.000Z',
+  product_name: 'Mug',
+  unit_cost: 2.5,
+  components_snapshot: null,
+  ...overrides,
+})
+
+describe('getDatesInRange', () => {
+  it('should list every date inclusively', () => {
+    expect(getDatesInRange('2026-10-30', '2026-11-02')).toEqual([
+      '2026-10-30',
+      '2026-10-31',
+      '2026-11-01',
+      '2026-11-02',
+    ])
+  })
+
+  it('should return one date for a single day and none for a reversed range', () => {
+    expect(getDatesInRange('2026-10-14', '2026-10-14')).toEqual(['2026-10-14'])
+    expect(getDatesInRange('2026-10-15', '2026-10-14')).toEqual([])
+  })
+})
+
+describe('isCacheComplete', () => {
+  it('should accept a cache written once the date ended at UTC-12', () => {
+    expect(isCacheComplete('2026-10-14', '2026-10-15T12:00:00.000Z')).toBe(true)
+    expect(isCacheComplete('2026-10-14', '2026-10-16T00:00:00.000Z')).toBe(true)
+  })
+
+  it('should reject a cache written while the date was still going somewhere', () => {
+    expect(isCacheComplete('2026-10-14', '2026-10-15T00:00:00.000Z')).toBe(false)
+    expect(isCacheComplete('2026-10-14', '2026-10-15T11:59:59.999Z')).toBe(false)
+  })
+})
+
+describe('explodeBundleItems', () => {
+  it('should replace a bundle with one item per component unit', () => {
+    const bundle = item({
+      $id: 'bundle-item',
+      product_barcode: '9999',
+      product_name: 'Gift Set',
+      unit_cost: 10,
+      components_snapshot: JSON.stringify([
+        { barcode: '1111', product_name: 'Mug', quantity: 2, unit_cost: 2.5 },
+        { barcode: '2222', product_name: 'Spoon', quantity: 1, unit_cost: 1 },
+      ]),
+    })
+
+    const exploded = explodeBundleItems([bundle])
+
+    expect(exploded.map((entry) => [entry.$id, entry.product_barcode, entry.product_name, entry.unit_cost])).toEqual([
+      ['bundle-item:0:0', '1111', 'Mug', 2.5],
+      ['bundle-item:0:1', '1111', 'Mug', 2.5],
+      ['bundle-item:1:0', '2222', 'Spoon', 1],
+    ])
+    expect(exploded.every((entry) => entry.packaging_record_id === 'record-1')).toBe(true)
+    expect(exploded.every((entry) => entry.scanned_at === bundle.scanned_at)).toBe(true)
+    expect(exploded.every((entry) => entry.components_snapshot === null)).toBe(true)
+  })
+
+  it('should keep single products and bundles packed before snapshots', () => {
+    const single = item()
+    const oldBundle = item({ $id: 'item-2', product_barcode: '9999', product_name: null, unit_cost: null })
+
+    expect(explodeBundleItems([single, oldBundle])).toEqual([single, oldBundle])
+  })
+})
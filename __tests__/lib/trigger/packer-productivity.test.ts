@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest'
+
+import { buildPackerShifts, type PackedWaybill } from '../../../trigger/lib/packer-productivity'
+
+const MINUTE_MS = 60 * 1000
+
+// A waybill for packer-1 that starts `startMinute` minutes after 08:00 and takes `minutes`
+const waybill = (startMinute: number, minutes = 1, overrides: Partial<PackedWaybill> = {}): PackedWaybill => {
+  const started = Date.parse('2026-10-14T08:00:00.000Z') + startMinute * MINUTE_MS
+  return {
+    packed_by: 'packer-1',
+    packed_by_name: 'Alice',
+    packaging_date: '2026-10-14',
+    started_at: new Date(started).toISOString(),
+    finished_at: new Date(started + minutes * MINUTE_MS).toISOString(),
+    items: 2,
+    ...overrides,
+  }
+}
+
+describe('buildPackerShifts', () => {
+  it('should measure a packer with a single waybill', () => {
+    expect(buildPackerShifts([waybill(0, 2)])).toEqual([
+      {
+        packerId: 'packer-1',
+        packerName: 'Alice',
+        date: '2026-10-14',
+        start: '2026-10-14T08:00:00.000Z',
+        end: '2026-10-14T08:02:00.000Z',
+        waybills: 1,
+        items: 2,
+        avgSecondsPerWaybill: 120,
+        idleGaps: 0,
+        idleMinutes: 0,
+      },
+    ])
+  })
+
+  it('should keep a break of exactly two hours in the same shift', () => {
+    const shifts = buildPackerShifts([waybill(0), waybill(121)])
+
+    expect(shifts).toHaveLength(1)
+    expect(shifts[0].waybills).toBe(2)
+    expect(shifts[0].idleGaps).toBe(1)
+    expect(shifts[0].idleMinutes).toBe(120)
+  })
+
+  it('should start a new shift after a break longer than two hours', () => {
+    const shifts = buildPackerShifts([waybill(0), waybill(121.5)])
+
+    expect(shifts).toHaveLength(2)
+    expect(shifts.map((shift) => shift.waybills)).toEqual([1, 1])
+    expect(shifts.map((shift) => shift.idleGaps)).toEqual([0, 0])
+    expect(shifts[1].start).toBe('2026-10-14T10:01:30.000Z')
+  })
+
+  it('should count only pauses longer than five minutes as idle', () => {
+    const shifts = buildPackerShifts([waybill(0), waybill(6), waybill(13, 1)])
+
+    expect(shifts).toHaveLength(1)
+    expect(shifts[0].idleGaps).toBe(1)
+    expect(shifts[0].idleMinutes).toBe(6)
+    expect(shifts[0].end).toBe('2026-10-14T08:14:00.000Z')
+  })
+
+  it('should order shifts by packer name and use the latest name', () => {
+    const shifts = buildPackerShifts([
+      waybill(0, 1, { packed_by: 'packer-2', packed_by_name: 'Zoe' }),
+      waybill(0, 1, { packed_by_name: 'Al' }),
+      waybill(2, 1),
+    ])
+
+    expect(shifts.map((shift) => [shift.packerName, shift.waybills])).toEqual([
+      ['Alice', 2],
+      ['Zoe', 1],
+    ])
+  })
+})
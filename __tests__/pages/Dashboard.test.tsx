@@ -1,16 +1,129 @@
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
 import { render, screen } from '@testing-library/react'
-import { describe, expect, it } from 'vitest'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import type { ReactNode } from 'react'
 
 import Dashboard from '@/pages/Dashboard'
 
+// Mock the auth context
+vi.mock('@/contexts/AuthContext', () => ({
+  useAuth: () => ({
+    user: { $id: 'user-123', email: 'test@example.com' },
+    isLoading: false,
+  }),
+}))
+
+// Mock translations
+vi.mock('react-i18next', () => ({
+  useTranslation: () => ({
+    t: (key: string) => {
+      const translations: Record<string, string> = {
+        'dashboard.title': 'Dashboard',
+        'dashboard.waybillsToday': 'Waybills Today',
+        'dashboard.itemsToday': 'Items Scanned Today',
+        'dashboard.topProducts': 'Top Products',
+        'dashboard.noFailedJobs': 'No failed jobs',
+      }
+      return translations[key] || key
+    },
+  }),
+}))
+
+const mockUsePackagingStats = vi.fn()
+const mockUseLowStockProducts = vi.fn()
+const mockUseActiveJobs = vi.fn()
+
+vi.mock('@/hooks/use-dashboard', () => ({
+  usePackagingStats: (...args: unknown[]) => mockUsePackagingStats(...args),
+  useLowStockProducts: (...args: unknown[]) => mockUseLowStockProducts(...args),
+}))
+
+vi.mock('@/hooks/use-jobs', () => ({
+  useActiveJobs: (...args: unknown[]) => mockUseActiveJobs(...args),
+}))
+
+const mockStats = {
+  startDate: '2024-01-15',
+  endDate: '2024-01-15',
+  totalWaybills: 57,
+  totalItems: 345,
+  days: [{ date: '2024-01-15', waybills: 57, items: 345 }],
+  itemsByHour: Array.from({ length: 24 }, () => 0),
+  topProducts: [{ barcode: '1234567890128', name: 'Top Seller', quantity: 20 }],
+}
+
+function renderDashboard() {
+  const queryClient = new QueryClient({
+    defaultOptions: { queries: { retry: false } },
+  })
+  const wrapper = ({ children }: { children: ReactNode }) => (
+    <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+  )
+  return render(<Dashboard />, { wrapper })
+}
+
 describe('Dashboard', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockUsePackagingStats.mockReturnValue({
+      data: mockStats,
+      isLoading: false,
+      isFetching: false,
+      isError: false,
+    })
+    mockUseLowStockProducts.mockReturnValue({
+      data: {
+        documents: [
+          { $id: 'p1', name: 'Almost Gone', barcode: '111', stock_quantity: 0 },
+        ],
+        total: 1,
+      },
+      isLoading: false,
+      isFetching: false,
+    })
+    mockUseActiveJobs.mockReturnValue({ data: [], isLoading: false })
+  })
+
   it('should render the dashboard page', () => {
-    render(<Dashboard />)
+    renderDashboard()
     expect(screen.getByText('Dashboard')).toBeInTheDocument()
   })
 
   it('should render a div element', () => {
-    const { container } = render(<Dashboard />)
+    const { container } = renderDashboard()
     expect(container.querySelector('div')).toBeInTheDocument()
   })
+
+  it('should show today totals', () => {
+    renderDashboard()
+    expect(screen.getByText('Waybills Today')).toBeInTheDocument()
+    expect(screen.getByText('57')).toBeInTheDocument()
+    expect(screen.getByText('345')).toBeInTheDocument()
+  })
+
+  it('should list top products and low stock singles', () => {
+    renderDashboard()
+    expect(screen.getByText('Top Seller')).toBeInTheDocument()
+    expect(screen.getByText('Almost Gone')).toBeInTheDocument()
+  })
+
+  it('should list failed jobs only', () => {
+    mockUseActiveJobs.mockReturnValue({
+      data: [
+        { $id: 'job-1', action: 'export-excel', status: 'failed', error: 'Boom', created_at: '2024-01-15T10:00:00.000Z' },
+        { $id: 'job-2', action: 'import-excel', status: 'completed', error: null, created_at: '2024-01-15T10:00:00.000Z' },
+      ],
+      isLoading: false,
+    })
+
+    renderDashboard()
+
+    expect(screen.getByText('Boom')).toBeInTheDocument()
+    expect(screen.queryByText('import-excel')).not.toBeInTheDocument()
+  })
+
+  it('should show empty failed jobs state', () => {
+    renderDashboard()
+    expect(screen.getByText('No failed jobs')).toBeInTheDocument()
+  })
 })
@@ -63,6 +63,9 @@ vi.mock('@/lib/appwrite', () => ({
     downloadExport: vi.fn(),
     deleteJob: vi.fn(),
   },
+  realtimeService: {
+    subscribe: vi.fn(() => vi.fn()),
+  },
 }))
 
 const mockJobs: ParsedJob[] = [
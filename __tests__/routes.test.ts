@@ -1,6 +1,6 @@
 import { describe, expect, it } from 'vitest'
 
-import { publicPaths, routes, type RouteConfig } from '@/routes'
+import { getRequiredRole, publicPaths, routes, type RouteConfig } from '@/routes'
 
 describe('routes', () => {
   describe('route configuration', () => {
@@ -31,6 +31,13 @@ describe('routes', () => {
       expect(dashboardRoute?.isPublic).toBe(false)
     })
 
+    it('should restrict audit logs route to admins', () => {
+      const auditLogsRoute = routes.find((route) => route.path === '/audit-logs')
+      expect(auditLogsRoute).toBeDefined()
+      expect(auditLogsRoute?.isPublic).toBe(false)
+      expect(auditLogsRoute?.requiredRole).toBe('admin')
+    })
+
     it('should have unique paths', () => {
       const paths = routes.map((route) => route.path)
       const uniquePaths = new Set(paths)
@@ -59,4 +66,23 @@ describe('routes', () => {
       expect(publicPaths).not.toContain('/dashboard')
     })
   })
+
+  describe('getRequiredRole', () => {
+    it('should return the role for restricted routes', () => {
+      expect(getRequiredRole('/reports')).toBe('supervisor')
+      expect(getRequiredRole('/audit-logs')).toBe('admin')
+    })
+
+    it('should return undefined for routes open to every role', () => {
+      expect(getRequiredRole('/dashboard')).toBeUndefined()
+      expect(getRequiredRole('/packaging')).toBeUndefined()
+      expect(getRequiredRole('/unpack')).toBeUndefined()
+    })
+
+    it('should not restrict public paths', () => {
+      publicPaths.forEach((path) => {
+        expect(getRequiredRole(path)).toBeUndefined()
+      })
+    })
+  })
 })
@@ -1,38 +1,491 @@
-const { Client, Databases, ID, Query } = require("node-appwrite");
+const crypto = require("crypto");
+const { Client, Databases, ID, Query, Teams, Users } = require("node-appwrite");
 
 const COLLECTIONS = {
   PACKAGING_RECORDS: "packaging_records",
   PACKAGING_ITEMS: "packaging_items",
   PRODUCTS: "products",
+  PRODUCT_COMPONENTS: "product_components",
+  LOCATIONS: "locations",
+  PRODUCT_STOCK: "product_stock",
+  STOCK_MOVEMENTS: "stock_movements",
+  PACKAGING_COMMITS: "packaging_commits",
   AUDIT_LOGS: "audit_logs",
 };
 
+// Idempotency keys become document IDs, so they follow Appwrite's ID rules
+const IDEMPOTENCY_KEY_PATTERN = /^[a-zA-Z0-9][a-zA-Z0-9._-]{0,35}$/;
+
 // Batch size for parallel operations to avoid overwhelming Appwrite
 const BATCH_SIZE = 20;
 
+// A pending claim older than this belongs to an execution that was killed:
+// the function times out after 120 seconds (see appwrite.json)
+const CLAIM_TIMEOUT_MS = 150 * 1000;
+
 /**
  * Process array in batches with parallel execution within each batch
+ * `afterBatch` runs once each batch has settled
  */
-async function processBatches(items, processor, batchSize = BATCH_SIZE) {
+async function processBatches(items, processor, { batchSize = BATCH_SIZE, afterBatch = null } = {}) {
   const results = [];
   for (let i = 0; i < items.length; i += batchSize) {
     const batch = items.slice(i, i + batchSize);
     const batchResults = await Promise.all(batch.map(processor));
     results.push(...batchResults);
+    if (afterBatch) await afterBatch();
   }
   return results;
 }
 
+/**
+ * Whether a packaging date is before today. Allows one day of slack because
+ * the client's local date can run ahead of or behind UTC.
+ */
+function isPastPackagingDate(packagingDate) {
+  const cutoff = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  return packagingDate < cutoff;
+}
+
+/**
+ * Load the stock rows of a non-default location for the given products.
+ * Returns null for the default location (or no location): its stock is the
+ * product total minus every other location, so only the total is updated.
+ */
+async function getLocationStockRows(databases, databaseId, locationId, productIds) {
+  if (!locationId) return null;
+
+  const location = await databases.getDocument(databaseId, COLLECTIONS.LOCATIONS, locationId);
+  if (location.is_default) return null;
+
+  // Appwrite Query.equal() has a limit of 60 values, so we batch the queries
+  const rows = new Map();
+  for (let i = 0; i < productIds.length; i += 60) {
+    const batchIds = productIds.slice(i, i + 60);
+    const result = await databases.listDocuments(databaseId, COLLECTIONS.PRODUCT_STOCK, [
+      Query.equal("location_id", locationId),
+      Query.equal("product_id", batchIds),
+      Query.limit(batchIds.length),
+    ]);
+    for (const row of result.documents) {
+      rows.set(row.product_id, row);
+    }
+  }
+  return rows;
+}
+
+/**
+ * Record stock movements in the ledger. A failed write is logged and skipped
+ * so the ledger never fails a stock change that already happened.
+ */
+async function recordStockMovements(databases, databaseId, movements, error) {
+  await processBatches(movements, async (movement) => {
+    try {
+      await databases.createDocument(databaseId, COLLECTIONS.STOCK_MOVEMENTS, ID.unique(), movement);
+    } catch (err) {
+      error(`Failed to record stock movement for product ${movement.product_id}: ${err.message}`);
+    }
+  });
+}
+
+/**
+ * Explode a bundle into the products it holds, for the item snapshot:
+ * product ID -> { barcode, product_name, quantity, unit_cost }.
+ * Nested bundles are expanded; a bundle that contains itself is kept as is.
+ */
+async function snapshotBundleComponents(databases, databaseId, bundle, quantity, path) {
+  const expanded = new Map();
+  const componentsResult = await databases.listDocuments(databaseId, COLLECTIONS.PRODUCT_COMPONENTS, [
+    Query.equal("parent_product_id", bundle.$id),
+    Query.limit(100),
+  ]);
+
+  const componentProductIds = componentsResult.documents.map((c) => c.child_product_id);
+  if (componentProductIds.length === 0) {
+    return expanded;
+  }
+  const componentProductsResult = await databases.listDocuments(databaseId, COLLECTIONS.PRODUCTS, [
+    Query.equal("$id", componentProductIds),
+    Query.limit(componentProductIds.length),
+  ]);
+  const componentProductMap = new Map(componentProductsResult.documents.map((p) => [p.$id, p]));
+
+  for (const comp of componentsResult.documents) {
+    const product = componentProductMap.get(comp.child_product_id);
+    if (!product) continue;
+
+    const contained = product.type === "bundle" && !path.includes(product.$id)
+      ? await snapshotBundleComponents(databases, databaseId, product, comp.quantity * quantity, [...path, product.$id])
+      : new Map([[product.$id, {
+          barcode: product.barcode,
+          product_name: product.name,
+          quantity: comp.quantity * quantity,
+          unit_cost: product.cost ?? 0,
+        }]]);
+
+    for (const [productId, component] of contained) {
+      const existing = expanded.get(productId);
+      if (existing) {
+        existing.quantity += component.quantity;
+      } else {
+        expanded.set(productId, component);
+      }
+    }
+  }
+
+  return expanded;
+}
+
+/**
+ * Snapshot the packed products as they are now: name, unit cost and, for
+ * bundles, the exploded components. Stored on each item so renaming a
+ * product or changing a bundle later doesn't rewrite history.
+ * Returns barcode -> item attributes; unknown barcodes get no snapshot.
+ */
+async function buildItemSnapshots(databases, databaseId, barcodes) {
+  const uniqueBarcodes = [...new Set(barcodes)];
+  const snapshots = new Map();
+
+  // Appwrite Query.equal() has a limit of 60 values, so we batch the queries
+  for (let i = 0; i < uniqueBarcodes.length; i += 60) {
+    const batch = uniqueBarcodes.slice(i, i + 60);
+    const result = await databases.listDocuments(databaseId, COLLECTIONS.PRODUCTS, [
+      Query.equal("barcode", batch),
+      Query.limit(batch.length),
+    ]);
+
+    for (const product of result.documents) {
+      const components = product.type === "bundle"
+        ? await snapshotBundleComponents(databases, databaseId, product, 1, [product.$id])
+        : null;
+      snapshots.set(product.barcode, {
+        product_name: product.name,
+        unit_cost: product.cost ?? 0,
+        components_snapshot: components ? JSON.stringify([...components.values()]) : null,
+      });
+    }
+  }
+
+  return snapshots;
+}
+
+/**
+ * Hash the parts of a request that define a waybill commit, so a reused
+ * idempotency key with a different payload can be rejected.
+ */
+function hashCommitPayload({ packaging_date, waybill_number, location_id, items, stock_updates }) {
+  return crypto
+    .createHash("sha256")
+    .update(JSON.stringify({
+      packaging_date,
+      waybill_number,
+      location_id: location_id || null,
+      items: items.map((i) => i.product_barcode),
+      stock_updates: stock_updates || [],
+    }))
+    .digest("hex");
+}
+
+/**
+ * Claim an idempotency key by creating its commit document. Appwrite rejects
+ * a second document with the same ID, which makes the claim atomic.
+ * Returns { claimed: true } for a new key, otherwise the existing commit.
+ */
+async function claimCommit(databases, databaseId, key, payloadHash, userId) {
+  try {
+    await databases.createDocument(databaseId, COLLECTIONS.PACKAGING_COMMITS, key, {
+      status: "pending",
+      payload_hash: payloadHash,
+      user_id: userId,
+      record_id: null,
+      claimed_at: new Date().toISOString(),
+      journal: null,
+    });
+    return { claimed: true };
+  } catch (err) {
+    if (err.code !== 409) throw err;
+    const existing = await databases.getDocument(databaseId, COLLECTIONS.PACKAGING_COMMITS, key);
+    return { claimed: false, existing };
+  }
+}
+
+/**
+ * Whether a pending claim was left by an execution that no longer runs
+ * Claims made before claimed_at existed fall back to their creation time
+ */
+function isStaleClaim(commit) {
+  const claimedAt = Date.parse(commit.claimed_at || commit.$createdAt);
+  return commit.status === "pending" && Date.now() - claimedAt > CLAIM_TIMEOUT_MS;
+}
+
+/**
+ * Save what a commit has written so far on its claim, so an execution that
+ * takes over a stale claim can roll it back
+ */
+async function saveJournal(databases, databaseId, journal) {
+  await databases.updateDocument(databaseId, COLLECTIONS.PACKAGING_COMMITS, journal.commit_key, {
+    record_id: journal.record_id,
+    journal: JSON.stringify({ stock: journal.stock, written: journal.written }),
+  });
+}
+
+/**
+ * Take over a stale claim: roll back what its execution saved in the
+ * journal, then claim the key again. Deleting the claim first means only one
+ * of several concurrent retries rolls it back; the others just claim the key
+ * again. A claim whose journal shows the waybill fully written (its stock
+ * movements may already be in the ledger) is marked committed instead.
+ * Returns a claim like claimCommit.
+ */
+async function takeOverClaim(databases, databaseId, stale, payloadHash, userId, log, error) {
+  let saved = { stock: [], written: false };
+  try {
+    saved = stale.journal ? { ...saved, ...JSON.parse(stale.journal) } : saved;
+  } catch {
+    error(`Unreadable journal on stale claim ${stale.$id}`);
+  }
+
+  if (saved.written && stale.record_id) {
+    const record = await databases
+      .getDocument(databaseId, COLLECTIONS.PACKAGING_RECORDS, stale.record_id)
+      .catch((err) => {
+        if (err.code === 404) return null;
+        throw err;
+      });
+    if (record) {
+      log(`Marking stale claim ${stale.$id} committed: record ${stale.record_id} was fully written`);
+      const existing = await databases.updateDocument(databaseId, COLLECTIONS.PACKAGING_COMMITS, stale.$id, {
+        status: "committed",
+      });
+      return { claimed: false, existing };
+    }
+  }
+
+  try {
+    await databases.deleteDocument(databaseId, COLLECTIONS.PACKAGING_COMMITS, stale.$id);
+  } catch (err) {
+    if (err.code !== 404) throw err;
+    return claimCommit(databases, databaseId, stale.$id, payloadHash, userId);
+  }
+
+  // Items are found by their record, since they are written before stock
+  let itemIds = [];
+  if (stale.record_id) {
+    const itemsResult = await databases.listDocuments(databaseId, COLLECTIONS.PACKAGING_ITEMS, [
+      Query.equal("packaging_record_id", stale.record_id),
+      Query.limit(5000),
+    ]);
+    itemIds = itemsResult.documents.map((item) => item.$id);
+  }
+
+  log(`Taking over stale claim ${stale.$id} from ${stale.claimed_at || stale.$createdAt}`);
+  const failures = await rollbackCommit(
+    databases,
+    databaseId,
+    { commit_key: null, record_id: stale.record_id || null, item_ids: itemIds, stock: saved.stock || [] },
+    log,
+    error
+  );
+  if (failures.length > 0) {
+    throw new Error(`Failed to roll back the stale commit of ${stale.$id}: ${failures.join("; ")}`);
+  }
+
+  return claimCommit(databases, databaseId, stale.$id, payloadHash, userId);
+}
+
+/**
+ * Build the response of an already committed waybill from what was stored
+ */
+async function buildReplayResponse(databases, databaseId, recordId) {
+  const record = await databases.getDocument(databaseId, COLLECTIONS.PACKAGING_RECORDS, recordId);
+  const itemsResult = await databases.listDocuments(databaseId, COLLECTIONS.PACKAGING_ITEMS, [
+    Query.equal("packaging_record_id", recordId),
+    Query.limit(5000),
+  ]);
+
+  return {
+    success: true,
+    replayed: true,
+    record: {
+      $id: record.$id,
+      packaging_date: record.packaging_date,
+      waybill_number: record.waybill_number,
+      location_id: record.location_id,
+      courier_id: record.courier_id || null,
+      packed_by: record.packed_by || null,
+      packed_by_name: record.packed_by_name || null,
+      started_at: record.started_at || null,
+      finished_at: record.finished_at || null,
+      $createdAt: record.$createdAt,
+    },
+    items: itemsResult.documents.map((item) => ({
+      $id: item.$id,
+      packaging_record_id: item.packaging_record_id,
+      product_barcode: item.product_barcode,
+      scanned_at: item.scanned_at,
+      product_name: item.product_name ?? null,
+      unit_cost: item.unit_cost ?? null,
+      components_snapshot: item.components_snapshot ?? null,
+    })),
+    stock_updates: { success: true, updated: 0, errors: [] },
+  };
+}
+
+/**
+ * Undo a partially applied waybill commit: return deducted stock, then delete
+ * the items, the record and the commit claim (so the key can be retried).
+ * Stock is re-read and incremented rather than reset, so changes made by
+ * other packers in the meantime are kept. Returns the steps that failed.
+ */
+async function rollbackCommit(databases, databaseId, journal, log, error) {
+  const failures = [];
+
+  await processBatches(journal.stock, async (entry) => {
+    try {
+      if (entry.deducted > 0) {
+        const product = await databases.getDocument(databaseId, COLLECTIONS.PRODUCTS, entry.product_id);
+        await databases.updateDocument(databaseId, COLLECTIONS.PRODUCTS, entry.product_id, {
+          stock_quantity: product.stock_quantity + entry.deducted,
+        });
+      }
+      if (entry.location_row_id && entry.location_deducted > 0) {
+        const row = await databases.getDocument(databaseId, COLLECTIONS.PRODUCT_STOCK, entry.location_row_id);
+        await databases.updateDocument(databaseId, COLLECTIONS.PRODUCT_STOCK, entry.location_row_id, {
+          quantity: row.quantity + entry.location_deducted,
+        });
+      }
+    } catch (err) {
+      failures.push(`stock for product ${entry.product_id}: ${err.message}`);
+    }
+  });
+
+  await processBatches(journal.item_ids, async (itemId) => {
+    try {
+      await databases.deleteDocument(databaseId, COLLECTIONS.PACKAGING_ITEMS, itemId);
+    } catch (err) {
+      failures.push(`item ${itemId}: ${err.message}`);
+    }
+  });
+
+  if (journal.record_id) {
+    try {
+      await databases.deleteDocument(databaseId, COLLECTIONS.PACKAGING_RECORDS, journal.record_id);
+    } catch (err) {
+      failures.push(`record ${journal.record_id}: ${err.message}`);
+    }
+  }
+
+  if (journal.commit_key) {
+    try {
+      await databases.deleteDocument(databaseId, COLLECTIONS.PACKAGING_COMMITS, journal.commit_key);
+    } catch (err) {
+      failures.push(`commit ${journal.commit_key}: ${err.message}`);
+    }
+  }
+
+  if (failures.length > 0) {
+    error(`Rollback incomplete: ${failures.join("; ")}`);
+  } else {
+    log(`Rolled back record ${journal.record_id || "(none)"}, ${journal.item_ids.length} items, ${journal.stock.length} stock updates`);
+  }
+  return failures;
+}
+
+// Roles ordered from least to most privileged, stored as membership roles on the staff team
+const ROLES = ["packer", "supervisor", "admin"];
+
+/**
+ * Resolve a user's role from their staff team membership.
+ * Users without a membership (or when the lookup fails) are packers.
+ */
+async function getUserRole(client, userId) {
+  try {
+    const teams = new Teams(client);
+    const result = await teams.listMemberships(
+      process.env.APPWRITE_ROLES_TEAM_ID || "staff",
+      [Query.equal("userId", userId)]
+    );
+    let level = 0;
+    for (const membership of result.memberships) {
+      for (const role of membership.roles) {
+        level = Math.max(level, ROLES.indexOf(role));
+      }
+    }
+    return ROLES[level];
+  } catch {
+    return ROLES[0];
+  }
+}
+
+function hasRole(role, required) {
+  return ROLES.indexOf(role) >= ROLES.indexOf(required);
+}
+
+/**
+ * Resolve the display name of the packing user.
+ * Falls back to the given email when the lookup fails.
+ */
+async function getUserName(client, userId, fallback) {
+  try {
+    const user = await new Users(client).get(userId);
+    return user.name || user.email || fallback || null;
+  } catch {
+    return fallback || null;
+  }
+}
+
+/**
+ * Normalise a client timestamp to ISO, or null if it is missing or invalid
+ */
+function parseTimestamp(value) {
+  if (!value) return null;
+  const time = new Date(value);
+  return Number.isNaN(time.getTime()) ? null : time.toISOString();
+}
+
+/**
+ * Record a permission denial as a failed audit entry
+ */
+async function auditPermissionDenied(databases, databaseId, req, entry) {
+  await databases.createDocument(databaseId, COLLECTIONS.AUDIT_LOGS, ID.unique(), {
+    user_id: entry.user_id,
+    user_email: entry.user_email || null,
+    action_type: entry.action_type,
+    resource_type: entry.resource_type,
+    resource_id: entry.resource_id || null,
+    action_details: JSON.stringify({
+      ...entry.details,
+      role: entry.role,
+      required_role: entry.required_role,
+    }),
+    ip_address: null,
+    user_agent: req.headers["user-agent"] || null,
+    status: "failure",
+    error_message: `Permission denied: requires ${entry.required_role} role`,
+    timestamp: new Date().toISOString(),
+    session_id: entry.session_id || null,
+  });
+}
+
 /**
  * Appwrite Function: create-packaging
  *
  * Creates a packaging record with all items and updates stock in a single operation.
  * Uses Server SDK (API Key) - NO RATE LIMITS.
  *
+ * The commit is all-or-nothing: if any step fails, the stock, items and record
+ * written so far are rolled back. With an idempotency key, a retried request
+ * returns the original result instead of deducting stock again.
+ *
  * Expected body:
  * {
  *   packaging_date: string (YYYY-MM-DD),
  *   waybill_number: string,
+ *   location_id?: string,              // Location to take stock from (default location if omitted)
+ *   courier_id?: string,               // Courier detected from the waybill format
+ *   started_at?: string,               // When the waybill was scanned (ISO datetime)
+ *   finished_at?: string,              // When the waybill was completed (defaults to now)
+ *   idempotency_key?: string,          // Same key on every retry of one waybill commit
  *   items: Array<{
  *     product_barcode: string,
  *     product_name?: string,
@@ -60,6 +513,16 @@ module.exports = async (context) => {
     database_id: process.env.APPWRITE_DATABASE_ID || 'NOT_SET',
   };
 
+  // Everything written so far, for rollback on failure
+  const journal = {
+    commit_key: null,
+    record_id: null,
+    item_ids: [],
+    stock: [],
+    written: false, // Record, items and stock all written
+  };
+  let rollback = null;
+
   try {
     // Parse request body
     let body;
@@ -72,6 +535,11 @@ module.exports = async (context) => {
     const {
       packaging_date,
       waybill_number,
+      location_id,
+      courier_id,
+      started_at,
+      finished_at,
+      idempotency_key,
       items,
       stock_updates,
       user_id,
@@ -103,6 +571,13 @@ module.exports = async (context) => {
       );
     }
 
+    if (idempotency_key && !IDEMPOTENCY_KEY_PATTERN.test(idempotency_key)) {
+      return res.json(
+        { success: false, error: "Invalid idempotency_key" },
+        400
+      );
+    }
+
     log(
       `Creating packaging record: ${waybill_number} with ${items.length} items`
     );
@@ -116,6 +591,82 @@ module.exports = async (context) => {
     const databases = new Databases(client);
     const databaseId = process.env.APPWRITE_DATABASE_ID;
 
+    // Packers may only record today's packaging; past dates need a supervisor
+    traceContext.current_operation = 'checking permissions';
+    const callerId = req.headers["x-appwrite-user-id"] || user_id;
+    const role = await getUserRole(client, callerId);
+    const requiredRole = isPastPackagingDate(packaging_date) ? "supervisor" : "packer";
+    if (!hasRole(role, requiredRole)) {
+      log(`Permission denied for user ${callerId} (role: ${role}, requires: ${requiredRole})`);
+      try {
+        await auditPermissionDenied(databases, databaseId, req, {
+          user_id: callerId,
+          user_email,
+          session_id,
+          action_type: "packaging_record_create",
+          resource_type: "packaging_record",
+          resource_id: null,
+          details: { packaging_date, waybill_number },
+          role,
+          required_role: requiredRole,
+        });
+      } catch (auditError) {
+        error(`Failed to create audit log: ${auditError.message}`);
+      }
+      return res.json(
+        { success: false, error: `Permission denied: requires ${requiredRole} role` },
+        403
+      );
+    }
+
+    rollback = () => rollbackCommit(databases, databaseId, journal, log, error);
+
+    // 0. Claim the idempotency key so a retried request never commits twice
+    if (idempotency_key) {
+      traceContext.current_operation = `claiming idempotency key in ${COLLECTIONS.PACKAGING_COMMITS}`;
+      const payloadHash = hashCommitPayload(body);
+      let claim = await claimCommit(databases, databaseId, idempotency_key, payloadHash, callerId);
+
+      if (!claim.claimed && claim.existing.payload_hash === payloadHash && isStaleClaim(claim.existing)) {
+        traceContext.current_operation = `taking over stale claim in ${COLLECTIONS.PACKAGING_COMMITS}`;
+        claim = await takeOverClaim(databases, databaseId, claim.existing, payloadHash, callerId, log, error);
+      }
+
+      if (!claim.claimed) {
+        const { existing } = claim;
+        if (existing.payload_hash !== payloadHash) {
+          return res.json(
+            { success: false, error: "Idempotency key was already used for a different waybill" },
+            422
+          );
+        }
+        if (existing.status !== "committed") {
+          return res.json(
+            { success: false, error: "This waybill is still being committed, try again shortly" },
+            409
+          );
+        }
+
+        log(`Replaying committed waybill ${waybill_number} (key: ${idempotency_key})`);
+        traceContext.current_operation = 'loading committed waybill';
+        return res.json(await buildReplayResponse(databases, databaseId, existing.record_id));
+      }
+
+      journal.commit_key = idempotency_key;
+    }
+
+    // Who packed the waybill, and over what time span. Offline waybills sync
+    // later, so the client's timestamps win over the time of this request
+    traceContext.current_operation = 'resolving packer';
+    const packedByName = await getUserName(client, callerId, user_email);
+    const finishedAt = parseTimestamp(finished_at) || new Date().toISOString();
+    const earliestScan = items
+      .map((item) => parseTimestamp(item.scanned_at))
+      .filter(Boolean)
+      .sort()[0];
+    let startedAt = parseTimestamp(started_at) || earliestScan || finishedAt;
+    if (startedAt > finishedAt) startedAt = finishedAt;
+
     // 1. Create packaging record
     traceContext.current_operation = `creating record in ${COLLECTIONS.PACKAGING_RECORDS}`;
     const record = await databases.createDocument(
@@ -125,27 +676,52 @@ module.exports = async (context) => {
       {
         packaging_date,
         waybill_number,
+        location_id: location_id || null,
+        courier_id: courier_id || null,
+        packed_by: callerId,
+        packed_by_name: packedByName,
+        started_at: startedAt,
+        finished_at: finishedAt,
       }
     );
     traceContext.record_id = record.$id;
+    journal.record_id = record.$id;
+    if (journal.commit_key) await saveJournal(databases, databaseId, journal);
 
     log(`Created packaging record: ${record.$id}`);
 
     // 2. Create all packaging items in batches to avoid overwhelming Appwrite
+    // Every create is settled before moving on, so rollback knows each item written
+    traceContext.current_operation = `snapshotting products from ${COLLECTIONS.PRODUCTS}`;
+    const snapshots = await buildItemSnapshots(databases, databaseId, items.map((i) => i.product_barcode));
+
     traceContext.current_operation = `creating items in ${COLLECTIONS.PACKAGING_ITEMS}`;
     log(`Creating ${items.length} packaging items in batches of ${BATCH_SIZE}...`);
-    const createdItems = await processBatches(items, (item) =>
-      databases.createDocument(
-        databaseId,
-        COLLECTIONS.PACKAGING_ITEMS,
-        ID.unique(),
-        {
-          packaging_record_id: record.$id,
-          product_barcode: item.product_barcode,
-          scanned_at: item.scanned_at || new Date().toISOString(),
-        }
-      )
-    );
+    const itemResults = await processBatches(items, async (item) => {
+      try {
+        const created = await databases.createDocument(
+          databaseId,
+          COLLECTIONS.PACKAGING_ITEMS,
+          ID.unique(),
+          {
+            packaging_record_id: record.$id,
+            product_barcode: item.product_barcode,
+            scanned_at: item.scanned_at || new Date().toISOString(),
+            ...(snapshots.get(item.product_barcode) || {}),
+          }
+        );
+        journal.item_ids.push(created.$id);
+        return { item: created };
+      } catch (err) {
+        return { error: `Failed to create item ${item.product_barcode}: ${err.message}` };
+      }
+    });
+
+    const itemErrors = itemResults.filter((r) => r.error).map((r) => r.error);
+    if (itemErrors.length > 0) {
+      throw new Error(itemErrors.join("; "));
+    }
+    const createdItems = itemResults.map((r) => r.item);
 
     log(`Created ${createdItems.length} packaging items`);
 
@@ -175,6 +751,9 @@ module.exports = async (context) => {
         }
       }
 
+      // Stock at a non-default location is also tracked in product_stock
+      const locationRows = await getLocationStockRows(databases, databaseId, location_id, productIds);
+
       // Update each product's stock in batches to avoid overwhelming Appwrite
       log(`Updating stock for ${stock_updates.length} products in batches of ${BATCH_SIZE}...`);
       const results = await processBatches(stock_updates, async (update) => {
@@ -195,6 +774,26 @@ module.exports = async (context) => {
             update.product_id,
             { stock_quantity: newStock }
           );
+          const entry = {
+            product_id: update.product_id,
+            deducted: product.stock_quantity - newStock,
+            location_row_id: null,
+            location_deducted: 0,
+          };
+          journal.stock.push(entry);
+
+          const locationRow = locationRows?.get(update.product_id);
+          if (locationRow) {
+            const newQuantity = Math.max(0, locationRow.quantity - update.deduct_amount);
+            await databases.updateDocument(
+              databaseId,
+              COLLECTIONS.PRODUCT_STOCK,
+              locationRow.$id,
+              { quantity: newQuantity }
+            );
+            entry.location_row_id = locationRow.$id;
+            entry.location_deducted = locationRow.quantity - newQuantity;
+          }
           return {
             success: true,
             product_id: update.product_id,
@@ -214,16 +813,56 @@ module.exports = async (context) => {
             error: errorMsg,
           };
         }
-      });
+      }, { afterBatch: journal.commit_key ? () => saveJournal(databases, databaseId, journal) : null });
       stockUpdateResults.updated = results.filter((r) => r.success).length;
       stockUpdateResults.errors = results
         .filter((r) => !r.success)
         .map((r) => r.error);
       stockUpdateResults.success = stockUpdateResults.errors.length === 0;
 
-      log(
-        `Stock updates: ${stockUpdateResults.updated} succeeded, ${stockUpdateResults.errors.length} failed`
+      // A waybill is only committed with all of its stock deducted
+      if (!stockUpdateResults.success) {
+        throw new Error(stockUpdateResults.errors.join("; "));
+      }
+
+      // From here on a retry must not roll the waybill back: the movements
+      // below go into the ledger, which a rollback would leave behind
+      journal.written = true;
+      if (journal.commit_key) await saveJournal(databases, databaseId, journal);
+
+      await recordStockMovements(
+        databases,
+        databaseId,
+        results
+          .filter((r) => r.success)
+          .map((r) => ({
+            product_id: r.product_id,
+            delta: r.new - r.previous,
+            resulting_quantity: r.new,
+            reason: "packaging",
+            source_id: record.$id,
+            user_id: callerId,
+            location_id: location_id || null,
+          })),
+        error
       );
+
+      log(`Stock updates: ${stockUpdateResults.updated} succeeded`);
+    }
+
+    // Mark the key committed so retries replay this result
+    if (journal.commit_key) {
+      traceContext.current_operation = `marking commit in ${COLLECTIONS.PACKAGING_COMMITS}`;
+      try {
+        await databases.updateDocument(databaseId, COLLECTIONS.PACKAGING_COMMITS, journal.commit_key, {
+          status: "committed",
+          record_id: record.$id,
+        });
+      } catch (commitError) {
+        // The waybill is committed; once the claim is stale, a retry sees
+        // the written journal and marks it committed
+        error(`Failed to mark commit ${journal.commit_key}: ${commitError.message}`);
+      }
     }
 
     // 4. Create a single audit log entry for the entire operation
@@ -241,6 +880,7 @@ module.exports = async (context) => {
           action_details: JSON.stringify({
             packaging_date,
             waybill_number,
+            location_id: location_id || null,
             item_count: items.length,
             items: items.map((i) => ({
               barcode: i.product_barcode,
@@ -270,6 +910,12 @@ module.exports = async (context) => {
         $id: record.$id,
         packaging_date: record.packaging_date,
         waybill_number: record.waybill_number,
+        location_id: record.location_id,
+        courier_id: record.courier_id || null,
+        packed_by: record.packed_by,
+        packed_by_name: record.packed_by_name,
+        started_at: record.started_at,
+        finished_at: record.finished_at,
         $createdAt: record.$createdAt,
       },
       items: createdItems.map((item) => ({
@@ -277,6 +923,9 @@ module.exports = async (context) => {
         packaging_record_id: item.packaging_record_id,
         product_barcode: item.product_barcode,
         scanned_at: item.scanned_at,
+        product_name: item.product_name ?? null,
+        unit_cost: item.unit_cost ?? null,
+        components_snapshot: item.components_snapshot ?? null,
       })),
       stock_updates: stockUpdateResults,
     });
@@ -292,10 +941,15 @@ module.exports = async (context) => {
     const traceableError = `Error during "${traceContext.current_operation}" [${contextInfo}]: ${err.message || err}`;
     error(traceableError);
 
+    // Undo whatever was written so the waybill is not half committed
+    const rollbackFailures = rollback ? await rollback() : [];
+
     return res.json(
       {
         success: false,
         error: traceableError,
+        rolled_back: rollbackFailures.length === 0,
+        rollback_errors: rollbackFailures,
         context: {
           database_id: traceContext.database_id,
           waybill_number: traceContext.waybill_number,
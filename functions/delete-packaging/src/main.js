@@ -1,10 +1,13 @@
-const { Client, Databases, ID, Query } = require("node-appwrite");
+const { Client, Databases, ID, Query, Teams } = require("node-appwrite");
 
 const COLLECTIONS = {
   PACKAGING_RECORDS: "packaging_records",
   PACKAGING_ITEMS: "packaging_items",
   PRODUCTS: "products",
   PRODUCT_COMPONENTS: "product_components",
+  LOCATIONS: "locations",
+  PRODUCT_STOCK: "product_stock",
+  STOCK_MOVEMENTS: "stock_movements",
   AUDIT_LOGS: "audit_logs",
 };
 
@@ -24,10 +27,200 @@ async function processBatches(items, processor, batchSize = BATCH_SIZE) {
   return results;
 }
 
+/**
+ * Whether a packaging date is before today. Allows one day of slack because
+ * the client's local date can run ahead of or behind UTC.
+ */
+function isPastPackagingDate(packagingDate) {
+  const cutoff = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  return packagingDate < cutoff;
+}
+
+/**
+ * Read an item's pack-time bundle components (nested bundles already
+ * exploded). Returns null for single products, items packed before
+ * snapshots and unreadable snapshots.
+ */
+function parseComponentsSnapshot(snapshot) {
+  if (!snapshot) return null;
+  try {
+    const components = JSON.parse(snapshot);
+    return Array.isArray(components) ? components : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Work out the stock a bundle holds: product ID -> { product, quantity }.
+ * Nested bundles are expanded into the products they contain. Throws when
+ * a bundle contains itself.
+ */
+async function expandBundle(databases, databaseId, bundle, quantity, path = [bundle]) {
+  const expanded = new Map();
+  const componentsResult = await databases.listDocuments(
+    databaseId,
+    COLLECTIONS.PRODUCT_COMPONENTS,
+    [
+      Query.equal("parent_product_id", bundle.$id),
+      Query.limit(100),
+    ]
+  );
+
+  // Get component products
+  const componentProductIds = componentsResult.documents.map(
+    (c) => c.child_product_id
+  );
+  if (componentProductIds.length === 0) {
+    return expanded;
+  }
+  const componentProductsResult = await databases.listDocuments(
+    databaseId,
+    COLLECTIONS.PRODUCTS,
+    [
+      Query.equal("$id", componentProductIds),
+      Query.limit(componentProductIds.length),
+    ]
+  );
+
+  const componentProductMap = new Map();
+  for (const cp of componentProductsResult.documents) {
+    componentProductMap.set(cp.$id, cp);
+  }
+
+  for (const comp of componentsResult.documents) {
+    const componentProduct = componentProductMap.get(comp.child_product_id);
+    if (!componentProduct) continue;
+
+    let contained = [{ product: componentProduct, quantity: comp.quantity * quantity }];
+    if (componentProduct.type === "bundle") {
+      if (path.some((parent) => parent.$id === componentProduct.$id)) {
+        const names = [...path, componentProduct].map((p) => p.name);
+        throw new Error(`Bundle cycle: ${names.join(" → ")}`);
+      }
+      const nested = await expandBundle(
+        databases,
+        databaseId,
+        componentProduct,
+        comp.quantity * quantity,
+        [...path, componentProduct]
+      );
+      contained = [...nested.values()];
+    }
+
+    for (const entry of contained) {
+      const current = expanded.get(entry.product.$id) || {
+        product: entry.product,
+        quantity: 0,
+      };
+      current.quantity += entry.quantity;
+      expanded.set(entry.product.$id, current);
+    }
+  }
+
+  return expanded;
+}
+
+/**
+ * Load the stock rows of a non-default location for the given products.
+ * Returns null for the default location (or no location): its stock is the
+ * product total minus every other location, so only the total is updated.
+ */
+async function getLocationStockRows(databases, databaseId, locationId, productIds) {
+  if (!locationId) return null;
+
+  const location = await databases.getDocument(databaseId, COLLECTIONS.LOCATIONS, locationId);
+  if (location.is_default) return null;
+
+  // Appwrite Query.equal() has a limit of 60 values, so we batch the queries
+  const rows = new Map();
+  for (let i = 0; i < productIds.length; i += 60) {
+    const batchIds = productIds.slice(i, i + 60);
+    const result = await databases.listDocuments(databaseId, COLLECTIONS.PRODUCT_STOCK, [
+      Query.equal("location_id", locationId),
+      Query.equal("product_id", batchIds),
+      Query.limit(batchIds.length),
+    ]);
+    for (const row of result.documents) {
+      rows.set(row.product_id, row);
+    }
+  }
+  return rows;
+}
+
+/**
+ * Record stock movements in the ledger. A failed write is logged and skipped
+ * so the ledger never fails a stock change that already happened.
+ */
+async function recordStockMovements(databases, databaseId, movements, error) {
+  await processBatches(movements, async (movement) => {
+    try {
+      await databases.createDocument(databaseId, COLLECTIONS.STOCK_MOVEMENTS, ID.unique(), movement);
+    } catch (err) {
+      error(`Failed to record stock movement for product ${movement.product_id}: ${err.message}`);
+    }
+  });
+}
+
+// Roles ordered from least to most privileged, stored as membership roles on the staff team
+const ROLES = ["packer", "supervisor", "admin"];
+
+/**
+ * Resolve a user's role from their staff team membership.
+ * Users without a membership (or when the lookup fails) are packers.
+ */
+async function getUserRole(client, userId) {
+  try {
+    const teams = new Teams(client);
+    const result = await teams.listMemberships(
+      process.env.APPWRITE_ROLES_TEAM_ID || "staff",
+      [Query.equal("userId", userId)]
+    );
+    let level = 0;
+    for (const membership of result.memberships) {
+      for (const role of membership.roles) {
+        level = Math.max(level, ROLES.indexOf(role));
+      }
+    }
+    return ROLES[level];
+  } catch {
+    return ROLES[0];
+  }
+}
+
+function hasRole(role, required) {
+  return ROLES.indexOf(role) >= ROLES.indexOf(required);
+}
+
+/**
+ * Record a permission denial as a failed audit entry
+ */
+async function auditPermissionDenied(databases, databaseId, req, entry) {
+  await databases.createDocument(databaseId, COLLECTIONS.AUDIT_LOGS, ID.unique(), {
+    user_id: entry.user_id,
+    user_email: entry.user_email || null,
+    action_type: entry.action_type,
+    resource_type: entry.resource_type,
+    resource_id: entry.resource_id || null,
+    action_details: JSON.stringify({
+      ...entry.details,
+      role: entry.role,
+      required_role: entry.required_role,
+    }),
+    ip_address: null,
+    user_agent: req.headers["user-agent"] || null,
+    status: "failure",
+    error_message: `Permission denied: requires ${entry.required_role} role`,
+    timestamp: new Date().toISOString(),
+    session_id: entry.session_id || null,
+  });
+}
+
 /**
  * Appwrite Function: delete-packaging
  *
- * Deletes a packaging record with all items and restores stock.
+ * Deletes a packaging record with all items and restores stock to the
+ * location the record was packed from.
  * Uses Server SDK (API Key) - NO RATE LIMITS.
  *
  * Expected body:
@@ -96,6 +289,7 @@ module.exports = async (context) => {
     traceContext.current_operation = `fetching record from ${COLLECTIONS.PACKAGING_RECORDS}`;
     let recordDetails = {};
     let packagingDate = null;
+    let locationId = null;
     try {
       const record = await databases.getDocument(
         databaseId,
@@ -107,6 +301,7 @@ module.exports = async (context) => {
         waybill_number: record.waybill_number,
       };
       packagingDate = record.packaging_date;
+      locationId = record.location_id || null;
       // Update trace context with human-readable info
       traceContext.waybill_number = record.waybill_number;
       traceContext.packaging_date = record.packaging_date;
@@ -115,6 +310,34 @@ module.exports = async (context) => {
       log(`Record not found (ID: ${record_id}), continuing with deletion. Error: ${fetchError.message}`);
     }
 
+    // Packers may only delete today's records; past dates need a supervisor
+    traceContext.current_operation = 'checking permissions';
+    const callerId = req.headers["x-appwrite-user-id"] || user_id;
+    const role = await getUserRole(client, callerId);
+    const requiredRole = packagingDate && isPastPackagingDate(packagingDate) ? "supervisor" : "packer";
+    if (!hasRole(role, requiredRole)) {
+      log(`Permission denied for user ${callerId} (role: ${role}, requires: ${requiredRole})`);
+      try {
+        await auditPermissionDenied(databases, databaseId, req, {
+          user_id: callerId,
+          user_email,
+          session_id,
+          action_type: "packaging_record_delete",
+          resource_type: "packaging_record",
+          resource_id: record_id,
+          details: recordDetails,
+          role,
+          required_role: requiredRole,
+        });
+      } catch (auditError) {
+        error(`Failed to create audit log: ${auditError.message}`);
+      }
+      return res.json(
+        { success: false, error: `Permission denied: requires ${requiredRole} role` },
+        403
+      );
+    }
+
     // 2. Get all items for this record
     const itemsResult = await databases.listDocuments(
       databaseId,
@@ -134,27 +357,57 @@ module.exports = async (context) => {
     if (restore_stock && items.length > 0) {
       log("Restoring stock for deleted items");
 
+      // Bundles give back the components they held when packed; only items
+      // packed before snapshots use the bundle's current recipe
+      const snapshotComponents = [];
+      const liveItems = [];
+      for (const item of items) {
+        const snapshot = parseComponentsSnapshot(item.components_snapshot);
+        if (snapshot) {
+          snapshotComponents.push(...snapshot);
+        } else {
+          liveItems.push(item);
+        }
+      }
+
       // Get unique barcodes
-      const barcodes = [...new Set(items.map((item) => item.product_barcode))];
+      const barcodes = [...new Set([
+        ...liveItems.map((item) => item.product_barcode),
+        ...snapshotComponents.map((component) => component.barcode),
+      ])];
 
       // Fetch all products by barcode
-      const productsResult = await databases.listDocuments(
-        databaseId,
-        COLLECTIONS.PRODUCTS,
-        [Query.equal("barcode", barcodes), Query.limit(barcodes.length)]
-      );
-
+      // Appwrite Query.equal() has a limit of 60 values, so we batch the queries
       const productMap = new Map();
-      for (const product of productsResult.documents) {
-        productMap.set(product.barcode, product);
+      for (let i = 0; i < barcodes.length; i += 60) {
+        const batch = barcodes.slice(i, i + 60);
+        const productsResult = await databases.listDocuments(
+          databaseId,
+          COLLECTIONS.PRODUCTS,
+          [Query.equal("barcode", batch), Query.limit(batch.length)]
+        );
+        for (const product of productsResult.documents) {
+          productMap.set(product.barcode, product);
+        }
       }
 
       // Calculate stock requirements (barcode -> quantity to restore)
       const stockRequirements = new Map();
 
+      for (const component of snapshotComponents) {
+        const product = productMap.get(component.barcode);
+        if (!product) {
+          stockRestoreResults.errors.push(`Product not found: ${component.barcode}`);
+          continue;
+        }
+        const current = stockRequirements.get(product.$id) || { product, quantity: 0 };
+        current.quantity += component.quantity;
+        stockRequirements.set(product.$id, current);
+      }
+
       // Count occurrences of each barcode
       const barcodeCounts = new Map();
-      for (const item of items) {
+      for (const item of liveItems) {
         const count = barcodeCounts.get(item.product_barcode) || 0;
         barcodeCounts.set(item.product_barcode, count + 1);
       }
@@ -168,46 +421,22 @@ module.exports = async (context) => {
         }
 
         if (product.type === "bundle") {
-          // For bundles, restore component stock
-          const componentsResult = await databases.listDocuments(
-            databaseId,
-            COLLECTIONS.PRODUCT_COMPONENTS,
-            [
-              Query.equal("parent_product_id", product.$id),
-              Query.limit(100),
-            ]
-          );
-
-          // Get component products
-          const componentProductIds = componentsResult.documents.map(
-            (c) => c.child_product_id
-          );
-          if (componentProductIds.length > 0) {
-            const componentProductsResult = await databases.listDocuments(
-              databaseId,
-              COLLECTIONS.PRODUCTS,
-              [
-                Query.equal("$id", componentProductIds),
-                Query.limit(componentProductIds.length),
-              ]
-            );
-
-            const componentProductMap = new Map();
-            for (const cp of componentProductsResult.documents) {
-              componentProductMap.set(cp.$id, cp);
-            }
+          // For bundles, restore component stock (nested bundles included)
+          let components;
+          try {
+            components = await expandBundle(databases, databaseId, product, count);
+          } catch (err) {
+            stockRestoreResults.errors.push(err.message);
+            continue;
+          }
 
-            for (const comp of componentsResult.documents) {
-              const componentProduct = componentProductMap.get(comp.child_product_id);
-              if (componentProduct) {
-                const current = stockRequirements.get(componentProduct.$id) || {
-                  product: componentProduct,
-                  quantity: 0,
-                };
-                current.quantity += comp.quantity * count;
-                stockRequirements.set(componentProduct.$id, current);
-              }
-            }
+          for (const [productId, { product: componentProduct, quantity }] of components) {
+            const current = stockRequirements.get(productId) || {
+              product: componentProduct,
+              quantity: 0,
+            };
+            current.quantity += quantity;
+            stockRequirements.set(productId, current);
           }
         } else {
           // For single products, restore 1 per item
@@ -222,6 +451,12 @@ module.exports = async (context) => {
 
       // Update stock for all products in batches to avoid overwhelming Appwrite
       const stockUpdateEntries = Array.from(stockRequirements.entries());
+      const locationRows = await getLocationStockRows(
+        databases,
+        databaseId,
+        locationId,
+        stockUpdateEntries.map(([productId]) => productId)
+      );
       log(`Restoring stock for ${stockUpdateEntries.length} products in batches of ${BATCH_SIZE}...`);
 
       const results = await processBatches(stockUpdateEntries, async ([productId, { product, quantity }]) => {
@@ -233,6 +468,24 @@ module.exports = async (context) => {
             productId,
             { stock_quantity: newStock }
           );
+          if (locationRows) {
+            const locationRow = locationRows.get(productId);
+            if (locationRow) {
+              await databases.updateDocument(
+                databaseId,
+                COLLECTIONS.PRODUCT_STOCK,
+                locationRow.$id,
+                { quantity: locationRow.quantity + quantity }
+              );
+            } else {
+              await databases.createDocument(
+                databaseId,
+                COLLECTIONS.PRODUCT_STOCK,
+                ID.unique(),
+                { product_id: productId, location_id: locationId, quantity }
+              );
+            }
+          }
           return {
             success: true,
             product_id: productId,
@@ -260,6 +513,24 @@ module.exports = async (context) => {
       );
       stockRestoreResults.success = stockRestoreResults.errors.length === 0;
 
+      // Restored stock reverses the packaging deduction of this record
+      await recordStockMovements(
+        databases,
+        databaseId,
+        results
+          .filter((r) => r.success)
+          .map((r) => ({
+            product_id: r.product_id,
+            delta: r.restored,
+            resulting_quantity: r.new,
+            reason: "packaging",
+            source_id: record_id,
+            user_id: callerId,
+            location_id: locationId || null,
+          })),
+        error
+      );
+
       log(
         `Stock restore: ${stockRestoreResults.updated} succeeded, ${stockRestoreResults.errors.length} failed`
       );
@@ -305,6 +576,7 @@ module.exports = async (context) => {
           resource_id: record_id,
           action_details: JSON.stringify({
             ...recordDetails,
+            location_id: locationId,
             items_deleted: items.length,
             stock_restored: restore_stock,
             stock_restore_success: stockRestoreResults.success,
@@ -1,10 +1,64 @@
-const { Client, Databases, Storage, ID } = require("node-appwrite");
+const { Client, Databases, Storage, ID, Query, Teams } = require("node-appwrite");
 
 const COLLECTIONS = {
   IMPORT_JOBS: "import_jobs",
   AUDIT_LOGS: "audit_logs",
 };
 
+// Roles ordered from least to most privileged, stored as membership roles on the staff team
+const ROLES = ["packer", "supervisor", "admin"];
+
+/**
+ * Resolve a user's role from their staff team membership.
+ * Users without a membership (or when the lookup fails) are packers.
+ */
+async function getUserRole(client, userId) {
+  try {
+    const teams = new Teams(client);
+    const result = await teams.listMemberships(
+      process.env.APPWRITE_ROLES_TEAM_ID || "staff",
+      [Query.equal("userId", userId)]
+    );
+    let level = 0;
+    for (const membership of result.memberships) {
+      for (const role of membership.roles) {
+        level = Math.max(level, ROLES.indexOf(role));
+      }
+    }
+    return ROLES[level];
+  } catch {
+    return ROLES[0];
+  }
+}
+
+function hasRole(role, required) {
+  return ROLES.indexOf(role) >= ROLES.indexOf(required);
+}
+
+/**
+ * Record a permission denial as a failed audit entry
+ */
+async function auditPermissionDenied(databases, databaseId, req, entry) {
+  await databases.createDocument(databaseId, COLLECTIONS.AUDIT_LOGS, ID.unique(), {
+    user_id: entry.user_id,
+    user_email: entry.user_email || null,
+    action_type: entry.action_type,
+    resource_type: entry.resource_type,
+    resource_id: entry.resource_id || null,
+    action_details: JSON.stringify({
+      ...entry.details,
+      role: entry.role,
+      required_role: entry.required_role,
+    }),
+    ip_address: null,
+    user_agent: req.headers["user-agent"] || null,
+    status: "failure",
+    error_message: `Permission denied: requires ${entry.required_role} role`,
+    timestamp: new Date().toISOString(),
+    session_id: entry.session_id || null,
+  });
+}
+
 /**
  * Appwrite Function: delete-report
  *
@@ -68,6 +122,33 @@ module.exports = async (context) => {
     const databaseId = process.env.APPWRITE_DATABASE_ID;
     const bucketId = process.env.APPWRITE_BUCKET_ID;
 
+    // Deleting reports needs a supervisor
+    const callerId = req.headers["x-appwrite-user-id"] || user_id;
+    const role = await getUserRole(client, callerId);
+    const requiredRole = "supervisor";
+    if (!hasRole(role, requiredRole)) {
+      log(`Permission denied for user ${callerId} (role: ${role}, requires: ${requiredRole})`);
+      try {
+        await auditPermissionDenied(databases, databaseId, req, {
+          user_id: callerId,
+          user_email,
+          session_id,
+          action_type: "report_delete",
+          resource_type: "job",
+          resource_id: job_ids.join(","),
+          details: { job_ids, file_ids },
+          role,
+          required_role: requiredRole,
+        });
+      } catch (auditError) {
+        error(`Failed to create audit log: ${auditError.message}`);
+      }
+      return res.json(
+        { success: false, error: `Permission denied: requires ${requiredRole} role` },
+        403
+      );
+    }
+
     const results = {
       jobs_deleted: 0,
       jobs_failed: [],
@@ -1,10 +1,99 @@
-const { Client, Databases, ID } = require("node-appwrite");
+const { Client, Databases, ID, Query, Teams } = require("node-appwrite");
 
 const COLLECTIONS = {
   IMPORT_JOBS: "import_jobs",
+  AUDIT_LOGS: "audit_logs",
 };
 
-const VALID_ACTIONS = ["import-excel", "export-excel", "export-reporting-excel", "export-reporting-pdf", "send-report-email"];
+const VALID_ACTIONS = ["import-excel", "import-prealerts", "export-excel", "export-csv", "export-json", "export-reporting-excel", "export-reporting-pdf", "export-reporting-csv", "export-reporting-json", "export-reporting-receiving", "export-reporting-stocktake-excel", "export-reporting-stocktake-pdf", "send-report-email", "export-reporting-email"];
+
+// Minimum role and audit action type for each job action
+const ACTION_PERMISSIONS = {
+  "import-excel": { role: "supervisor", audit: "job_queue_import" },
+  "import-prealerts": { role: "supervisor", audit: "job_queue_prealert_import" },
+  "export-excel": { role: "packer", audit: "job_queue_export" },
+  "export-csv": { role: "packer", audit: "job_queue_export" },
+  "export-json": { role: "packer", audit: "job_queue_export" },
+  "export-reporting-excel": { role: "supervisor", audit: "job_queue_report_export" },
+  "export-reporting-pdf": { role: "supervisor", audit: "job_queue_report_export" },
+  "export-reporting-csv": { role: "supervisor", audit: "job_queue_report_export" },
+  "export-reporting-json": { role: "supervisor", audit: "job_queue_report_export" },
+  "export-reporting-receiving": { role: "supervisor", audit: "job_queue_receiving_export" },
+  "export-reporting-stocktake-excel": { role: "supervisor", audit: "job_queue_stocktake_export" },
+  "export-reporting-stocktake-pdf": { role: "supervisor", audit: "job_queue_stocktake_export" },
+  "send-report-email": { role: "supervisor", audit: "job_queue_send_email" },
+  "export-reporting-email": { role: "supervisor", audit: "job_queue_report_email" },
+};
+
+// Product export actions and packaging report actions, by the file format they write
+const PRODUCT_EXPORT_FORMATS = {
+  "export-excel": "excel",
+  "export-csv": "csv",
+  "export-json": "json",
+};
+const REPORT_EXPORT_FORMATS = {
+  "export-reporting-excel": "excel",
+  "export-reporting-pdf": "pdf",
+  "export-reporting-csv": "csv",
+  "export-reporting-json": "json",
+};
+
+// Formats a generate-and-email report can be written in
+const REPORT_EMAIL_FORMATS = ["excel", "pdf", "csv", "json"];
+
+// Roles ordered from least to most privileged, stored as membership roles on the staff team
+const ROLES = ["packer", "supervisor", "admin"];
+
+/**
+ * Resolve a user's role from their staff team membership.
+ * Users without a membership (or when the lookup fails) are packers.
+ */
+async function getUserRole(client, userId) {
+  try {
+    const teams = new Teams(client);
+    const result = await teams.listMemberships(
+      process.env.APPWRITE_ROLES_TEAM_ID || "staff",
+      [Query.equal("userId", userId)]
+    );
+    let level = 0;
+    for (const membership of result.memberships) {
+      for (const role of membership.roles) {
+        level = Math.max(level, ROLES.indexOf(role));
+      }
+    }
+    return ROLES[level];
+  } catch {
+    return ROLES[0];
+  }
+}
+
+function hasRole(role, required) {
+  return ROLES.indexOf(role) >= ROLES.indexOf(required);
+}
+
+/**
+ * Record a permission denial as a failed audit entry
+ */
+async function auditPermissionDenied(databases, databaseId, req, entry) {
+  await databases.createDocument(databaseId, COLLECTIONS.AUDIT_LOGS, ID.unique(), {
+    user_id: entry.user_id,
+    user_email: entry.user_email || null,
+    action_type: entry.action_type,
+    resource_type: entry.resource_type,
+    resource_id: entry.resource_id || null,
+    action_details: JSON.stringify({
+      ...entry.details,
+      role: entry.role,
+      required_role: entry.required_role,
+    }),
+    ip_address: null,
+    user_agent: req.headers["user-agent"] || null,
+    status: "failure",
+    error_message: `Permission denied: requires ${entry.required_role} role`,
+    timestamp: new Date().toISOString(),
+    session_id: entry.session_id || null,
+  });
+}
 
 module.exports = async (context) => {
   const { req, res, log, error } = context;
@@ -18,30 +107,44 @@ module.exports = async (context) => {
       return res.json({ error: "Invalid JSON body" }, 400);
     }
 
-    const { action, fileId, userId, filters, startDate, endDate, format, recipients, dateRange, jobId: preGeneratedJobId } = body;
+    const { action, fileId, filters, startDate, endDate, format, courierId, templateId, recipients, dateRange, stocktakeId, stocktakeName, jobId: preGeneratedJobId } = body;
+
+    // Jobs belong to the signed-in caller, never to a user ID from the body
+    const callerId = req.headers["x-appwrite-user-id"];
+    if (!callerId) {
+      return res.json({ error: "Unauthorized: no signed-in user" }, 401);
+    }
 
     // Validate required fields
-    if (!action || !userId) {
-      return res.json({ error: "Missing required fields: action, userId" }, 400);
+    if (!action) {
+      return res.json({ error: "Missing required field: action" }, 400);
     }
 
-    if (action === "import-excel" && !fileId) {
+    if ((action === "import-excel" || action === "import-prealerts") && !fileId) {
       return res.json({ error: "Missing fileId for import action" }, 400);
     }
 
-    if ((action === "export-reporting-excel" || action === "export-reporting-pdf") && (!startDate || !endDate)) {
+    if ((REPORT_EXPORT_FORMATS[action] || action === "export-reporting-receiving") && (!startDate || !endDate)) {
       return res.json({ error: "Missing startDate or endDate for report export" }, 400);
     }
 
+    if ((action === "export-reporting-stocktake-excel" || action === "export-reporting-stocktake-pdf") && !stocktakeId) {
+      return res.json({ error: "Missing stocktakeId for stocktake export" }, 400);
+    }
+
     if (action === "send-report-email" && (!fileId || !recipients || !Array.isArray(recipients) || recipients.length === 0)) {
       return res.json({ error: "Missing fileId or recipients for send-report-email action" }, 400);
     }
 
+    if (action === "export-reporting-email" && (!startDate || !endDate || !recipients || !Array.isArray(recipients) || recipients.length === 0)) {
+      return res.json({ error: "Missing startDate, endDate or recipients for export-reporting-email action" }, 400);
+    }
+
     if (!VALID_ACTIONS.includes(action)) {
-      return res.json({ error: "Invalid action. Must be one of: import-excel, export-excel, export-reporting-excel, export-reporting-pdf, send-report-email" }, 400);
+      return res.json({ error: "Invalid action. Must be one of: import-excel, import-prealerts, export-excel, export-csv, export-json, export-reporting-excel, export-reporting-pdf, export-reporting-csv, export-reporting-json, export-reporting-receiving, export-reporting-stocktake-excel, export-reporting-stocktake-pdf, send-report-email, export-reporting-email" }, 400);
     }
 
-    log(`Processing ${action} job for user ${userId}`);
+    log(`Processing ${action} job for user ${callerId}`);
 
     // Initialize Appwrite client
     const client = new Client()
@@ -52,9 +155,29 @@ module.exports = async (context) => {
     const databases = new Databases(client);
     const databaseId = process.env.APPWRITE_DATABASE_ID;
 
+    // Check the caller's role for this action
+    const role = await getUserRole(client, callerId);
+    const permission = ACTION_PERMISSIONS[action];
+    if (!hasRole(role, permission.role)) {
+      log(`Permission denied for user ${callerId} (role: ${role}, requires: ${permission.role})`);
+      try {
+        await auditPermissionDenied(databases, databaseId, req, {
+          user_id: callerId,
+          action_type: permission.audit,
+          resource_type: "job",
+          details: { action, fileId, startDate, endDate, stocktakeId },
+          role,
+          required_role: permission.role,
+        });
+      } catch (auditError) {
+        error(`Failed to create audit log: ${auditError.message}`);
+      }
+      return res.json({ error: `Permission denied: requires ${permission.role} role` }, 403);
+    }
+
     // Build job metadata
     const jobData = {
-      user_id: userId,
+      user_id: callerId,
       action,
       status: "pending",
       file_id: fileId || null,
@@ -63,8 +186,26 @@ module.exports = async (context) => {
     };
 
     // Add report-specific metadata
-    if (action === "export-reporting-excel" || action === "export-reporting-pdf") {
-      jobData.filters = JSON.stringify({ startDate, endDate, format: format || "excel" });
+    if (REPORT_EXPORT_FORMATS[action]) {
+      jobData.filters = JSON.stringify({
+        startDate,
+        endDate,
+        format: REPORT_EXPORT_FORMATS[action],
+        courierId: courierId || null,
+        templateId: templateId || null,
+      });
+    }
+
+    if (action === "export-reporting-receiving") {
+      jobData.filters = JSON.stringify({ startDate, endDate, format: "excel" });
+    }
+
+    if (action === "export-reporting-stocktake-excel" || action === "export-reporting-stocktake-pdf") {
+      jobData.filters = JSON.stringify({
+        stocktakeId,
+        stocktakeName: stocktakeName || null,
+        format: action === "export-reporting-stocktake-pdf" ? "pdf" : "excel",
+      });
     }
 
     // Add email-specific metadata
@@ -72,6 +213,19 @@ module.exports = async (context) => {
       jobData.filters = JSON.stringify({ recipients, dateRange, fileId });
     }
 
+    // Generate-and-email jobs carry both the report range and the recipients
+    const reportEmailFormat = REPORT_EMAIL_FORMATS.includes(format) ? format : "excel";
+    if (action === "export-reporting-email") {
+      jobData.filters = JSON.stringify({
+        startDate,
+        endDate,
+        format: reportEmailFormat,
+        courierId: courierId || null,
+        templateId: templateId || null,
+        recipients,
+      });
+    }
+
     // Create job record for tracking
     // Use pre-generated job ID if provided (for async execution), otherwise generate one
     const job = await databases.createDocument(
@@ -102,34 +256,63 @@ module.exports = async (context) => {
         await tasks.trigger("product-import", {
           jobId: job.$id,
           fileId: fileId,
-          userId,
+          userId: callerId,
         });
         log(`Triggered product-import task for job ${job.$id}`);
-      } else if (action === "export-excel") {
+      } else if (action === "import-prealerts") {
+        // Order pre-alerts (expected contents per waybill)
+        await tasks.trigger("prealert-import", {
+          jobId: job.$id,
+          fileId: fileId,
+          userId: callerId,
+        });
+        log(`Triggered prealert-import task for job ${job.$id}`);
+      } else if (PRODUCT_EXPORT_FORMATS[action]) {
         // Product export
         await tasks.trigger("product-export", {
           jobId: job.$id,
-          userId,
+          userId: callerId,
           filters,
+          format: PRODUCT_EXPORT_FORMATS[action],
         });
         log(`Triggered product-export task for job ${job.$id}`);
-      } else if (action === "export-reporting-excel" || action === "export-reporting-pdf") {
+      } else if (REPORT_EXPORT_FORMATS[action]) {
         // Report export (packaging report)
         const payload = {
           jobId: job.$id,
-          userId,
+          userId: callerId,
           startDate,
           endDate,
-          format: action === "export-reporting-pdf" ? "pdf" : "excel",
+          format: REPORT_EXPORT_FORMATS[action],
+          courierId: courierId || undefined,
+          templateId: templateId || undefined,
         };
         log(`Report export payload: ${JSON.stringify(payload)}`);
         await tasks.trigger("report-export", payload);
         log(`Triggered report-export task for job ${job.$id}`);
+      } else if (action === "export-reporting-receiving") {
+        // Receiving export (goods received in the date range)
+        await tasks.trigger("receiving-export", {
+          jobId: job.$id,
+          userId: callerId,
+          startDate,
+          endDate,
+        });
+        log(`Triggered receiving-export task for job ${job.$id}`);
+      } else if (action === "export-reporting-stocktake-excel" || action === "export-reporting-stocktake-pdf") {
+        // Stocktake variance report
+        await tasks.trigger("stocktake-export", {
+          jobId: job.$id,
+          userId: callerId,
+          stocktakeId,
+          format: action === "export-reporting-stocktake-pdf" ? "pdf" : "excel",
+        });
+        log(`Triggered stocktake-export task for job ${job.$id}`);
       } else if (action === "send-report-email") {
         // Send report via email
         const payload = {
           jobId: job.$id,
-          userId,
+          userId: callerId,
           fileId,
           recipients,
           dateRange,
@@ -137,6 +320,21 @@ module.exports = async (context) => {
         log(`Send report email payload: ${JSON.stringify(payload)}`);
         await tasks.trigger("send-report-email", payload);
         log(`Triggered send-report-email task for job ${job.$id}`);
+      } else if (action === "export-reporting-email") {
+        // Generate a packaging report, then email it, on one job
+        const payload = {
+          jobId: job.$id,
+          userId: callerId,
+          startDate,
+          endDate,
+          format: reportEmailFormat,
+          courierId: courierId || undefined,
+          templateId: templateId || undefined,
+          recipients,
+        };
+        log(`Report export email payload: ${JSON.stringify(payload)}`);
+        await tasks.trigger("report-export-email", payload);
+        log(`Triggered report-export-email task for job ${job.$id}`);
       }
     } catch (triggerError) {
       error(`Failed to trigger task: ${triggerError.message || triggerError}`);
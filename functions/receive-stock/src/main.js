@@ -0,0 +1,759 @@
+const { Client, Databases, ID, Query, Teams, Users } = require("node-appwrite");
+
+const COLLECTIONS = {
+  RECEIVING_RECORDS: "receiving_records",
+  RECEIVING_ITEMS: "receiving_items",
+  PRODUCTS: "products",
+  LOCATIONS: "locations",
+  PRODUCT_STOCK: "product_stock",
+  STOCK_MOVEMENTS: "stock_movements",
+  AUDIT_LOGS: "audit_logs",
+};
+
+const VALID_ACTIONS = ["create", "update", "void"];
+
+// Batch size for parallel operations to avoid overwhelming Appwrite
+const BATCH_SIZE = 20;
+
+/**
+ * Process array in batches with parallel execution within each batch
+ */
+async function processBatches(items, processor, batchSize = BATCH_SIZE) {
+  const results = [];
+  for (let i = 0; i < items.length; i += batchSize) {
+    const batch = items.slice(i, i + batchSize);
+    const batchResults = await Promise.all(batch.map(processor));
+    results.push(...batchResults);
+  }
+  return results;
+}
+
+/**
+ * Whether a receiving date is before today. Allows one day of slack because
+ * the client's local date can run ahead of or behind UTC.
+ */
+function isPastReceivingDate(receivingDate) {
+  const cutoff = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  return receivingDate < cutoff;
+}
+
+/**
+ * Check the scanned lines and merge repeated barcodes into one line.
+ * Returns { lines } or { error }.
+ */
+function normaliseLines(items) {
+  if (!Array.isArray(items) || items.length === 0) {
+    return { error: "Items must be a non-empty array" };
+  }
+
+  const merged = new Map();
+  for (const item of items) {
+    const barcode = typeof item.product_barcode === "string" ? item.product_barcode.trim() : "";
+    if (!barcode) {
+      return { error: "Every item needs a product_barcode" };
+    }
+    if (!Number.isInteger(item.quantity) || item.quantity < 1) {
+      return { error: `Quantity for ${barcode} must be a whole number of at least 1` };
+    }
+    merged.set(barcode, (merged.get(barcode) || 0) + item.quantity);
+  }
+
+  return {
+    lines: [...merged].map(([product_barcode, quantity]) => ({ product_barcode, quantity })),
+  };
+}
+
+/**
+ * Look up the products of the scanned lines by barcode.
+ * Returns { products: barcode -> product } or { error } for unknown barcodes
+ * and bundles, which hold no stock of their own.
+ */
+async function resolveProducts(databases, databaseId, lines) {
+  const barcodes = lines.map((line) => line.product_barcode);
+  const products = new Map();
+
+  // Appwrite Query.equal() has a limit of 60 values, so we batch the queries
+  for (let i = 0; i < barcodes.length; i += 60) {
+    const batch = barcodes.slice(i, i + 60);
+    const result = await databases.listDocuments(databaseId, COLLECTIONS.PRODUCTS, [
+      Query.equal("barcode", batch),
+      Query.limit(batch.length),
+    ]);
+    for (const product of result.documents) {
+      products.set(product.barcode, product);
+    }
+  }
+
+  const unknown = barcodes.filter((barcode) => !products.has(barcode));
+  if (unknown.length > 0) {
+    return { error: `Unknown product barcodes: ${unknown.join(", ")}` };
+  }
+  const bundles = barcodes.filter((barcode) => products.get(barcode).type === "bundle");
+  if (bundles.length > 0) {
+    return { error: `Bundles cannot be received, receive their components instead: ${bundles.join(", ")}` };
+  }
+
+  return { products };
+}
+
+/**
+ * Load the location stock goes to. Returns null for the default location
+ * (or no location): its stock is the product total minus every other
+ * location, so only the total is updated.
+ */
+async function getStockLocation(databases, databaseId, locationId) {
+  if (!locationId) return null;
+  const location = await databases.getDocument(databaseId, COLLECTIONS.LOCATIONS, locationId);
+  return location.is_default ? null : location;
+}
+
+/**
+ * Add (or with a negative delta, remove) stock of one product: the product
+ * total and, for a non-default location, its product_stock row. Stock never
+ * goes below zero. What was actually applied is pushed to the journal.
+ */
+async function adjustStock(databases, databaseId, location, productId, delta, journal) {
+  const product = await databases.getDocument(databaseId, COLLECTIONS.PRODUCTS, productId);
+  const newStock = Math.max(0, product.stock_quantity + delta);
+  await databases.updateDocument(databaseId, COLLECTIONS.PRODUCTS, productId, {
+    stock_quantity: newStock,
+  });
+  const entry = {
+    product_id: productId,
+    applied: newStock - product.stock_quantity,
+    location_row_id: null,
+    location_applied: 0,
+    location_row_created: false,
+  };
+  journal.stock.push(entry);
+
+  if (location) {
+    const rows = await databases.listDocuments(databaseId, COLLECTIONS.PRODUCT_STOCK, [
+      Query.equal("location_id", location.$id),
+      Query.equal("product_id", productId),
+      Query.limit(1),
+    ]);
+    const row = rows.documents[0];
+    if (row) {
+      const newQuantity = Math.max(0, row.quantity + delta);
+      await databases.updateDocument(databaseId, COLLECTIONS.PRODUCT_STOCK, row.$id, {
+        quantity: newQuantity,
+      });
+      entry.location_row_id = row.$id;
+      entry.location_applied = newQuantity - row.quantity;
+    } else if (delta > 0) {
+      const created = await databases.createDocument(databaseId, COLLECTIONS.PRODUCT_STOCK, ID.unique(), {
+        product_id: productId,
+        location_id: location.$id,
+        quantity: delta,
+      });
+      entry.location_row_id = created.$id;
+      entry.location_applied = delta;
+      entry.location_row_created = true;
+    }
+  }
+
+  return {
+    product_id: productId,
+    previous: product.stock_quantity,
+    new: newStock,
+  };
+}
+
+/**
+ * Record stock movements in the ledger. A failed write is logged and skipped
+ * so the ledger never fails a stock change that already happened.
+ */
+async function recordStockMovements(databases, databaseId, movements, error) {
+  await processBatches(movements, async (movement) => {
+    try {
+      await databases.createDocument(databaseId, COLLECTIONS.STOCK_MOVEMENTS, ID.unique(), movement);
+    } catch (err) {
+      error(`Failed to record stock movement for product ${movement.product_id}: ${err.message}`);
+    }
+  });
+}
+
+/**
+ * Undo a partially applied change: take back the stock applied so far and
+ * delete the documents created so far. Stock is re-read and adjusted rather
+ * than reset, so changes made by others in the meantime are kept.
+ * Returns the steps that failed.
+ */
+async function rollbackChange(databases, databaseId, journal, log, error) {
+  const failures = [];
+
+  await processBatches(journal.stock, async (entry) => {
+    try {
+      if (entry.applied !== 0) {
+        const product = await databases.getDocument(databaseId, COLLECTIONS.PRODUCTS, entry.product_id);
+        await databases.updateDocument(databaseId, COLLECTIONS.PRODUCTS, entry.product_id, {
+          stock_quantity: Math.max(0, product.stock_quantity - entry.applied),
+        });
+      }
+      if (entry.location_row_created) {
+        await databases.deleteDocument(databaseId, COLLECTIONS.PRODUCT_STOCK, entry.location_row_id);
+      } else if (entry.location_row_id && entry.location_applied !== 0) {
+        const row = await databases.getDocument(databaseId, COLLECTIONS.PRODUCT_STOCK, entry.location_row_id);
+        await databases.updateDocument(databaseId, COLLECTIONS.PRODUCT_STOCK, entry.location_row_id, {
+          quantity: Math.max(0, row.quantity - entry.location_applied),
+        });
+      }
+    } catch (err) {
+      failures.push(`stock for product ${entry.product_id}: ${err.message}`);
+    }
+  });
+
+  await processBatches(journal.item_ids, async (itemId) => {
+    try {
+      await databases.deleteDocument(databaseId, COLLECTIONS.RECEIVING_ITEMS, itemId);
+    } catch (err) {
+      failures.push(`item ${itemId}: ${err.message}`);
+    }
+  });
+
+  if (journal.record_id) {
+    try {
+      await databases.deleteDocument(databaseId, COLLECTIONS.RECEIVING_RECORDS, journal.record_id);
+    } catch (err) {
+      failures.push(`record ${journal.record_id}: ${err.message}`);
+    }
+  }
+
+  if (failures.length > 0) {
+    error(`Rollback incomplete: ${failures.join("; ")}`);
+  } else {
+    log(`Rolled back ${journal.item_ids.length} items and ${journal.stock.length} stock updates`);
+  }
+  return failures;
+}
+
+/**
+ * Create the items of a receiving with the product name and cost as they are now
+ */
+async function createItems(databases, databaseId, recordId, lines, products, journal) {
+  const results = await processBatches(lines, async (line) => {
+    const product = products.get(line.product_barcode);
+    try {
+      const created = await databases.createDocument(databaseId, COLLECTIONS.RECEIVING_ITEMS, ID.unique(), {
+        receiving_record_id: recordId,
+        product_id: product.$id,
+        product_barcode: line.product_barcode,
+        product_name: product.name,
+        quantity: line.quantity,
+        unit_cost: product.cost ?? 0,
+      });
+      journal.item_ids.push(created.$id);
+      return { item: created };
+    } catch (err) {
+      return { error: `Failed to create item ${line.product_barcode}: ${err.message}` };
+    }
+  });
+
+  const errors = results.filter((r) => r.error).map((r) => r.error);
+  if (errors.length > 0) {
+    throw new Error(errors.join("; "));
+  }
+  return results.map((r) => r.item);
+}
+
+/**
+ * List every item of a receiving
+ */
+async function listItems(databases, databaseId, recordId) {
+  const result = await databases.listDocuments(databaseId, COLLECTIONS.RECEIVING_ITEMS, [
+    Query.equal("receiving_record_id", recordId),
+    Query.limit(5000),
+  ]);
+  return result.documents;
+}
+
+/**
+ * Whether another receiving that still counts towards stock has this reference
+ */
+async function isDuplicateReference(databases, databaseId, referenceNumber, excludeId) {
+  const result = await databases.listDocuments(databaseId, COLLECTIONS.RECEIVING_RECORDS, [
+    Query.equal("reference_number", referenceNumber),
+    Query.equal("status", "received"),
+    Query.limit(2),
+  ]);
+  return result.documents.some((record) => record.$id !== excludeId);
+}
+
+function toRecordResponse(record) {
+  return {
+    $id: record.$id,
+    $createdAt: record.$createdAt,
+    $updatedAt: record.$updatedAt,
+    receiving_date: record.receiving_date,
+    reference_number: record.reference_number,
+    location_id: record.location_id || null,
+    notes: record.notes || null,
+    received_by: record.received_by || null,
+    received_by_name: record.received_by_name || null,
+    status: record.status,
+    voided_at: record.voided_at || null,
+    voided_by: record.voided_by || null,
+    void_reason: record.void_reason || null,
+  };
+}
+
+function toItemResponse(item) {
+  return {
+    $id: item.$id,
+    receiving_record_id: item.receiving_record_id,
+    product_id: item.product_id,
+    product_barcode: item.product_barcode,
+    product_name: item.product_name ?? null,
+    quantity: item.quantity,
+    unit_cost: item.unit_cost ?? null,
+  };
+}
+
+// Roles ordered from least to most privileged, stored as membership roles on the staff team
+const ROLES = ["packer", "supervisor", "admin"];
+
+/**
+ * Resolve a user's role from their staff team membership.
+ * Users without a membership (or when the lookup fails) are packers.
+ */
+async function getUserRole(client, userId) {
+  try {
+    const teams = new Teams(client);
+    const result = await teams.listMemberships(
+      process.env.APPWRITE_ROLES_TEAM_ID || "staff",
+      [Query.equal("userId", userId)]
+    );
+    let level = 0;
+    for (const membership of result.memberships) {
+      for (const role of membership.roles) {
+        level = Math.max(level, ROLES.indexOf(role));
+      }
+    }
+    return ROLES[level];
+  } catch {
+    return ROLES[0];
+  }
+}
+
+function hasRole(role, required) {
+  return ROLES.indexOf(role) >= ROLES.indexOf(required);
+}
+
+/**
+ * Resolve the display name of the receiving user.
+ * Falls back to the given email when the lookup fails.
+ */
+async function getUserName(client, userId, fallback) {
+  try {
+    const user = await new Users(client).get(userId);
+    return user.name || user.email || fallback || null;
+  } catch {
+    return fallback || null;
+  }
+}
+
+/**
+ * Record a permission denial as a failed audit entry
+ */
+async function auditPermissionDenied(databases, databaseId, req, entry) {
+  await databases.createDocument(databaseId, COLLECTIONS.AUDIT_LOGS, ID.unique(), {
+    user_id: entry.user_id,
+    user_email: entry.user_email || null,
+    action_type: entry.action_type,
+    resource_type: entry.resource_type,
+    resource_id: entry.resource_id || null,
+    action_details: JSON.stringify({
+      ...entry.details,
+      role: entry.role,
+      required_role: entry.required_role,
+    }),
+    ip_address: null,
+    user_agent: req.headers["user-agent"] || null,
+    status: "failure",
+    error_message: `Permission denied: requires ${entry.required_role} role`,
+    timestamp: new Date().toISOString(),
+    session_id: entry.session_id || null,
+  });
+}
+
+/**
+ * Appwrite Function: receive-stock
+ *
+ * Records an inbound delivery and adds its products to stock, or edits or
+ * voids one, adjusting stock by the difference. Uses Server SDK (API Key).
+ * Each action is all-or-nothing: if a step fails, the stock and documents
+ * written so far are rolled back.
+ *
+ * Packers may receive today's deliveries; past dates, edits and voids need
+ * a supervisor.
+ *
+ * Expected body:
+ * {
+ *   action: "create" | "update" | "void",
+ *   // create
+ *   receiving_date?: string (YYYY-MM-DD),
+ *   reference_number?: string,         // Delivery or reference number (also on update)
+ *   location_id?: string,              // Location stock goes to (default location if omitted)
+ *   notes?: string,                    // Also on update
+ *   items?: Array<{                    // Required on create; replaces the items on update
+ *     product_barcode: string,
+ *     quantity: number
+ *   }>,
+ *   // update and void
+ *   record_id?: string,
+ *   void_reason?: string,
+ *   user_id: string,
+ *   user_email?: string,
+ *   session_id?: string
+ * }
+ */
+module.exports = async (context) => {
+  const { req, res, log, error } = context;
+
+  // Track context for error messages
+  let traceContext = {
+    action: null,
+    reference_number: null,
+    record_id: null,
+    current_operation: 'parsing request',
+    database_id: process.env.APPWRITE_DATABASE_ID || 'NOT_SET',
+  };
+
+  // Everything written so far, for rollback on failure
+  const journal = {
+    record_id: null,
+    item_ids: [],
+    stock: [],
+  };
+  let rollback = null;
+
+  try {
+    // Parse request body
+    let body;
+    try {
+      body = JSON.parse(req.body || "{}");
+    } catch {
+      return res.json({ success: false, error: "Invalid JSON body" }, 400);
+    }
+
+    const {
+      action,
+      record_id,
+      receiving_date,
+      reference_number,
+      location_id,
+      notes,
+      items,
+      void_reason,
+      user_id,
+      user_email,
+      session_id,
+    } = body;
+
+    traceContext.action = action;
+    traceContext.record_id = record_id || null;
+    traceContext.reference_number = reference_number || null;
+
+    // Validate required fields
+    if (!VALID_ACTIONS.includes(action)) {
+      return res.json(
+        { success: false, error: "Invalid action. Must be one of: create, update, void" },
+        400
+      );
+    }
+    if (!user_id) {
+      return res.json({ success: false, error: "Missing required field: user_id" }, 400);
+    }
+    if (action === "create" && (!receiving_date || !reference_number?.trim() || !items)) {
+      return res.json(
+        { success: false, error: "Missing required fields: receiving_date, reference_number, items" },
+        400
+      );
+    }
+    if (action !== "create" && !record_id) {
+      return res.json({ success: false, error: "Missing required field: record_id" }, 400);
+    }
+    if (action === "update" && reference_number !== undefined && !reference_number.trim()) {
+      return res.json({ success: false, error: "Reference number cannot be empty" }, 400);
+    }
+
+    let lines = null;
+    if (items !== undefined && action !== "void") {
+      const normalised = normaliseLines(items);
+      if (normalised.error) {
+        return res.json({ success: false, error: normalised.error }, 400);
+      }
+      lines = normalised.lines;
+    }
+
+    // Initialize Appwrite client with Server SDK (API Key)
+    const client = new Client()
+      .setEndpoint(process.env.APPWRITE_ENDPOINT)
+      .setProject(process.env.APPWRITE_PROJECT_ID)
+      .setKey(process.env.APPWRITE_API_KEY);
+
+    const databases = new Databases(client);
+    const databaseId = process.env.APPWRITE_DATABASE_ID;
+
+    // The record being edited or voided
+    let existing = null;
+    if (action !== "create") {
+      traceContext.current_operation = `loading record from ${COLLECTIONS.RECEIVING_RECORDS}`;
+      existing = await databases.getDocument(databaseId, COLLECTIONS.RECEIVING_RECORDS, record_id);
+      traceContext.reference_number = existing.reference_number;
+    }
+
+    // Check the caller's role for this action
+    traceContext.current_operation = 'checking permissions';
+    const callerId = req.headers["x-appwrite-user-id"] || user_id;
+    const role = await getUserRole(client, callerId);
+    const requiredRole = action === "create" && !isPastReceivingDate(receiving_date) ? "packer" : "supervisor";
+    if (!hasRole(role, requiredRole)) {
+      log(`Permission denied for user ${callerId} (role: ${role}, requires: ${requiredRole})`);
+      try {
+        await auditPermissionDenied(databases, databaseId, req, {
+          user_id: callerId,
+          user_email,
+          session_id,
+          action_type: `receiving_${action}`,
+          resource_type: "receiving_record",
+          resource_id: record_id || null,
+          details: { reference_number: traceContext.reference_number },
+          role,
+          required_role: requiredRole,
+        });
+      } catch (auditError) {
+        error(`Failed to create audit log: ${auditError.message}`);
+      }
+      return res.json(
+        { success: false, error: `Permission denied: requires ${requiredRole} role` },
+        403
+      );
+    }
+
+    if (existing && existing.status === "voided") {
+      return res.json({ success: false, error: "This receiving has been voided" }, 409);
+    }
+
+    // A delivery is only received once; void the first receiving to redo it
+    const newReference = reference_number?.trim();
+    if (newReference && newReference !== existing?.reference_number) {
+      traceContext.current_operation = 'checking reference number';
+      if (await isDuplicateReference(databases, databaseId, newReference, record_id)) {
+        return res.json(
+          { success: false, error: `Reference "${newReference}" has already been received` },
+          409
+        );
+      }
+    }
+
+    let products = new Map();
+    if (lines) {
+      traceContext.current_operation = `resolving products from ${COLLECTIONS.PRODUCTS}`;
+      const resolved = await resolveProducts(databases, databaseId, lines);
+      if (resolved.error) {
+        return res.json({ success: false, error: resolved.error }, 400);
+      }
+      products = resolved.products;
+    }
+
+    rollback = () => rollbackChange(databases, databaseId, journal, log, error);
+
+    const stockLocationId = existing ? existing.location_id : location_id;
+    const stockLocation = await getStockLocation(databases, databaseId, stockLocationId);
+
+    // Product ID -> stock change, and what each line looked like before
+    const stockChanges = new Map();
+    let record = existing;
+    let recordItems = [];
+    let previousItems = [];
+
+    if (action === "create") {
+      log(`Receiving ${newReference} with ${lines.length} products`);
+
+      // 1. Create the record
+      traceContext.current_operation = `creating record in ${COLLECTIONS.RECEIVING_RECORDS}`;
+      record = await databases.createDocument(databaseId, COLLECTIONS.RECEIVING_RECORDS, ID.unique(), {
+        receiving_date,
+        reference_number: newReference,
+        location_id: location_id || null,
+        notes: notes?.trim() || null,
+        received_by: callerId,
+        received_by_name: await getUserName(client, callerId, user_email),
+        status: "received",
+        voided_at: null,
+        voided_by: null,
+        void_reason: null,
+      });
+      traceContext.record_id = record.$id;
+      journal.record_id = record.$id;
+
+      // 2. Create the items
+      traceContext.current_operation = `creating items in ${COLLECTIONS.RECEIVING_ITEMS}`;
+      recordItems = await createItems(databases, databaseId, record.$id, lines, products, journal);
+
+      for (const line of lines) {
+        const productId = products.get(line.product_barcode).$id;
+        stockChanges.set(productId, (stockChanges.get(productId) || 0) + line.quantity);
+      }
+    } else if (action === "update") {
+      traceContext.current_operation = `loading items from ${COLLECTIONS.RECEIVING_ITEMS}`;
+      previousItems = await listItems(databases, databaseId, record_id);
+
+      if (lines) {
+        // 1. Create the new items; the old ones are deleted once stock is adjusted
+        traceContext.current_operation = `creating items in ${COLLECTIONS.RECEIVING_ITEMS}`;
+        recordItems = await createItems(databases, databaseId, record_id, lines, products, journal);
+
+        for (const item of previousItems) {
+          stockChanges.set(item.product_id, (stockChanges.get(item.product_id) || 0) - item.quantity);
+        }
+        for (const line of lines) {
+          const productId = products.get(line.product_barcode).$id;
+          stockChanges.set(productId, (stockChanges.get(productId) || 0) + line.quantity);
+        }
+      } else {
+        recordItems = previousItems;
+      }
+    } else {
+      traceContext.current_operation = `loading items from ${COLLECTIONS.RECEIVING_ITEMS}`;
+      recordItems = await listItems(databases, databaseId, record_id);
+      for (const item of recordItems) {
+        stockChanges.set(item.product_id, (stockChanges.get(item.product_id) || 0) - item.quantity);
+      }
+    }
+
+    // 3. Adjust stock by the change of each product
+    traceContext.current_operation = `updating stock in ${COLLECTIONS.PRODUCTS}`;
+    const changes = [...stockChanges].filter(([, delta]) => delta !== 0);
+    const stockResults = [];
+    for (const [productId, delta] of changes) {
+      stockResults.push(await adjustStock(databases, databaseId, stockLocation, productId, delta, journal));
+    }
+
+    // 4. Finish the record: drop replaced items, save the edit or mark it voided
+    if (action === "update") {
+      const updates = {};
+      if (newReference !== undefined) updates.reference_number = newReference;
+      if (notes !== undefined) updates.notes = notes?.trim() || null;
+      if (Object.keys(updates).length > 0) {
+        traceContext.current_operation = `updating record in ${COLLECTIONS.RECEIVING_RECORDS}`;
+        record = await databases.updateDocument(databaseId, COLLECTIONS.RECEIVING_RECORDS, record_id, updates);
+      }
+
+      if (lines) {
+        // Past this point the new items are the receiving; stop rolling back
+        rollback = null;
+        traceContext.current_operation = `deleting replaced items in ${COLLECTIONS.RECEIVING_ITEMS}`;
+        await processBatches(previousItems, async (item) => {
+          try {
+            await databases.deleteDocument(databaseId, COLLECTIONS.RECEIVING_ITEMS, item.$id);
+          } catch (err) {
+            error(`Failed to delete replaced item ${item.$id}: ${err.message}`);
+          }
+        });
+      }
+    } else if (action === "void") {
+      traceContext.current_operation = `voiding record in ${COLLECTIONS.RECEIVING_RECORDS}`;
+      record = await databases.updateDocument(databaseId, COLLECTIONS.RECEIVING_RECORDS, record_id, {
+        status: "voided",
+        voided_at: new Date().toISOString(),
+        voided_by: callerId,
+        void_reason: void_reason?.trim() || null,
+      });
+    }
+    rollback = null;
+
+    await recordStockMovements(
+      databases,
+      databaseId,
+      stockResults.map((r) => ({
+        product_id: r.product_id,
+        delta: r.new - r.previous,
+        resulting_quantity: r.new,
+        reason: "receiving",
+        source_id: record.$id,
+        user_id: callerId,
+        location_id: record.location_id || null,
+      })),
+      error
+    );
+
+    log(`Receiving ${action}: ${record.reference_number}, ${stockResults.length} stock updates`);
+
+    // 5. Create a single audit log entry for the entire operation
+    try {
+      await databases.createDocument(
+        databaseId,
+        COLLECTIONS.AUDIT_LOGS,
+        ID.unique(),
+        {
+          user_id,
+          user_email: user_email || null,
+          action_type: `receiving_${action}`,
+          resource_type: "receiving_record",
+          resource_id: record.$id,
+          action_details: JSON.stringify({
+            receiving_date: record.receiving_date,
+            reference_number: record.reference_number,
+            location_id: record.location_id || null,
+            ...(action === "update" && existing.reference_number !== record.reference_number
+              ? { previous_reference_number: existing.reference_number }
+              : {}),
+            ...(action === "void" ? { void_reason: record.void_reason } : {}),
+            items: recordItems.map((item) => ({
+              barcode: item.product_barcode,
+              name: item.product_name,
+              quantity: item.quantity,
+            })),
+            stock_changes: stockResults.map((r) => ({
+              product_id: r.product_id,
+              delta: r.new - r.previous,
+            })),
+          }),
+          ip_address: null,
+          user_agent: req.headers["user-agent"] || null,
+          status: "success",
+          error_message: null,
+          timestamp: new Date().toISOString(),
+          session_id: session_id || null,
+        }
+      );
+    } catch (auditError) {
+      // Audit log failure shouldn't fail the whole operation
+      error(`Failed to create audit log: ${auditError.message}`);
+    }
+
+    return res.json({
+      success: true,
+      record: toRecordResponse(record),
+      items: recordItems.map(toItemResponse),
+      stock_updates: { updated: stockResults.length },
+    });
+  } catch (err) {
+    // Build traceable error message with context
+    const contextInfo = [
+      `db: ${traceContext.database_id}`,
+      traceContext.action ? `action: ${traceContext.action}` : null,
+      traceContext.reference_number ? `reference: ${traceContext.reference_number}` : null,
+      traceContext.record_id ? `record: ${traceContext.record_id}` : null,
+    ].filter(Boolean).join(', ');
+
+    const traceableError = `Error during "${traceContext.current_operation}" [${contextInfo}]: ${err.message || err}`;
+    error(traceableError);
+
+    // Undo whatever was written so the receiving is not half applied
+    const rollbackFailures = rollback ? await rollback() : [];
+
+    return res.json(
+      {
+        success: false,
+        error: traceableError,
+        rolled_back: rollbackFailures.length === 0,
+        rollback_errors: rollbackFailures,
+      },
+      500
+    );
+  }
+};
@@ -0,0 +1,753 @@
+const { Client, Databases, ID, Query, Teams, Users } = require("node-appwrite");
+
+const COLLECTIONS = {
+  STOCKTAKES: "stocktakes",
+  STOCKTAKE_ITEMS: "stocktake_items",
+  PRODUCTS: "products",
+  LOCATIONS: "locations",
+  PRODUCT_STOCK: "product_stock",
+  STOCK_MOVEMENTS: "stock_movements",
+  AUDIT_LOGS: "audit_logs",
+};
+
+const VALID_ACTIONS = ["create", "count", "approve", "cancel"];
+
+const REASON_CODES = ["cycle_count", "damaged", "lost", "found", "correction"];
+
+// Batch size for parallel operations to avoid overwhelming Appwrite
+const BATCH_SIZE = 20;
+
+// Page size when reading whole tables
+const PAGE_SIZE = 100;
+
+/**
+ * Process array in batches with parallel execution within each batch
+ */
+async function processBatches(items, processor, batchSize = BATCH_SIZE) {
+  const results = [];
+  for (let i = 0; i < items.length; i += batchSize) {
+    const batch = items.slice(i, i + batchSize);
+    const batchResults = await Promise.all(batch.map(processor));
+    results.push(...batchResults);
+  }
+  return results;
+}
+
+/**
+ * Read every document matching the queries, a page at a time
+ */
+async function listAll(databases, databaseId, collectionId, queries) {
+  const documents = [];
+  let offset = 0;
+  let hasMore = true;
+
+  while (hasMore) {
+    const result = await databases.listDocuments(databaseId, collectionId, [
+      ...queries,
+      Query.limit(PAGE_SIZE),
+      Query.offset(offset),
+    ]);
+    documents.push(...result.documents);
+    offset += result.documents.length;
+    hasMore = result.documents.length === PAGE_SIZE;
+  }
+
+  return documents;
+}
+
+/**
+ * Check the counted lines and keep the last count of each barcode.
+ * Returns { counts } or { error }.
+ */
+function normaliseCounts(counts) {
+  if (!Array.isArray(counts) || counts.length === 0) {
+    return { error: "Counts must be a non-empty array" };
+  }
+
+  const merged = new Map();
+  for (const count of counts) {
+    const barcode = typeof count.product_barcode === "string" ? count.product_barcode.trim() : "";
+    if (!barcode) {
+      return { error: "Every count needs a product_barcode" };
+    }
+    const quantity = count.counted_quantity;
+    if (quantity !== null && (!Number.isInteger(quantity) || quantity < 0)) {
+      return { error: `Count for ${barcode} must be a whole number of at least 0` };
+    }
+    merged.set(barcode, quantity);
+  }
+
+  return {
+    counts: [...merged].map(([product_barcode, counted_quantity]) => ({ product_barcode, counted_quantity })),
+  };
+}
+
+/**
+ * Load the location being counted. Returns null for the default location
+ * (or no location): its stock is the product total minus every other
+ * location, so only the total is updated.
+ */
+async function getStockLocation(databases, databaseId, locationId) {
+  if (!locationId) return null;
+  const location = await databases.getDocument(databaseId, COLLECTIONS.LOCATIONS, locationId);
+  return location.is_default ? null : location;
+}
+
+/**
+ * Load the single products a stocktake counts. Bundles hold no stock of
+ * their own, so they are never counted.
+ */
+async function loadProducts(databases, databaseId, filters) {
+  const queries = [Query.equal("type", "single"), Query.orderAsc("name")];
+  const search = filters?.search?.trim();
+  if (search) {
+    queries.push(
+      Query.or([
+        Query.contains("barcode", search),
+        Query.contains("name", search),
+        Query.contains("sku_code", search),
+      ])
+    );
+  }
+  return listAll(databases, databaseId, COLLECTIONS.PRODUCTS, queries);
+}
+
+/**
+ * Stock of each product at the location, keyed by product ID. The default
+ * location holds the total minus what every other location holds.
+ */
+async function getSystemQuantities(databases, databaseId, location, products) {
+  const rows = await listAll(
+    databases,
+    databaseId,
+    COLLECTIONS.PRODUCT_STOCK,
+    location ? [Query.equal("location_id", location.$id)] : []
+  );
+
+  const assigned = new Map();
+  for (const row of rows) {
+    assigned.set(row.product_id, (assigned.get(row.product_id) || 0) + row.quantity);
+  }
+
+  const quantities = new Map();
+  for (const product of products) {
+    const quantity = location
+      ? assigned.get(product.$id) || 0
+      : (product.stock_quantity || 0) - (assigned.get(product.$id) || 0);
+    quantities.set(product.$id, Math.max(0, quantity));
+  }
+  return quantities;
+}
+
+/**
+ * Add (or with a negative delta, remove) stock of one product: the product
+ * total and, for a non-default location, its product_stock row. Stock never
+ * goes below zero. What was actually applied is pushed to the journal.
+ */
+async function adjustStock(databases, databaseId, location, productId, delta, journal) {
+  const product = await databases.getDocument(databaseId, COLLECTIONS.PRODUCTS, productId);
+  const newStock = Math.max(0, product.stock_quantity + delta);
+  await databases.updateDocument(databaseId, COLLECTIONS.PRODUCTS, productId, {
+    stock_quantity: newStock,
+  });
+  const entry = {
+    product_id: productId,
+    applied: newStock - product.stock_quantity,
+    location_row_id: null,
+    location_applied: 0,
+    location_row_created: false,
+  };
+  journal.stock.push(entry);
+
+  if (location) {
+    const rows = await databases.listDocuments(databaseId, COLLECTIONS.PRODUCT_STOCK, [
+      Query.equal("location_id", location.$id),
+      Query.equal("product_id", productId),
+      Query.limit(1),
+    ]);
+    const row = rows.documents[0];
+    if (row) {
+      const newQuantity = Math.max(0, row.quantity + delta);
+      await databases.updateDocument(databaseId, COLLECTIONS.PRODUCT_STOCK, row.$id, {
+        quantity: newQuantity,
+      });
+      entry.location_row_id = row.$id;
+      entry.location_applied = newQuantity - row.quantity;
+    } else if (delta > 0) {
+      const created = await databases.createDocument(databaseId, COLLECTIONS.PRODUCT_STOCK, ID.unique(), {
+        product_id: productId,
+        location_id: location.$id,
+        quantity: delta,
+      });
+      entry.location_row_id = created.$id;
+      entry.location_applied = delta;
+      entry.location_row_created = true;
+    }
+  }
+
+  return {
+    product_id: productId,
+    previous: product.stock_quantity,
+    new: newStock,
+  };
+}
+
+/**
+ * Record stock movements in the ledger. A failed write is logged and skipped
+ * so the ledger never fails a stock change that already happened.
+ */
+async function recordStockMovements(databases, databaseId, movements, error) {
+  await processBatches(movements, async (movement) => {
+    try {
+      await databases.createDocument(databaseId, COLLECTIONS.STOCK_MOVEMENTS, ID.unique(), movement);
+    } catch (err) {
+      error(`Failed to record stock movement for product ${movement.product_id}: ${err.message}`);
+    }
+  });
+}
+
+/**
+ * Undo a partially applied change: take back the stock applied so far and
+ * delete the documents created so far. Stock is re-read and adjusted rather
+ * than reset, so changes made by others in the meantime are kept.
+ * Returns the steps that failed.
+ */
+async function rollbackChange(databases, databaseId, journal, log, error) {
+  const failures = [];
+
+  await processBatches(journal.stock, async (entry) => {
+    try {
+      if (entry.applied !== 0) {
+        const product = await databases.getDocument(databaseId, COLLECTIONS.PRODUCTS, entry.product_id);
+        await databases.updateDocument(databaseId, COLLECTIONS.PRODUCTS, entry.product_id, {
+          stock_quantity: Math.max(0, product.stock_quantity - entry.applied),
+        });
+      }
+      if (entry.location_row_created) {
+        await databases.deleteDocument(databaseId, COLLECTIONS.PRODUCT_STOCK, entry.location_row_id);
+      } else if (entry.location_row_id && entry.location_applied !== 0) {
+        const row = await databases.getDocument(databaseId, COLLECTIONS.PRODUCT_STOCK, entry.location_row_id);
+        await databases.updateDocument(databaseId, COLLECTIONS.PRODUCT_STOCK, entry.location_row_id, {
+          quantity: Math.max(0, row.quantity - entry.location_applied),
+        });
+      }
+    } catch (err) {
+      failures.push(`stock for product ${entry.product_id}: ${err.message}`);
+    }
+  });
+
+  await processBatches(journal.item_ids, async (itemId) => {
+    try {
+      await databases.deleteDocument(databaseId, COLLECTIONS.STOCKTAKE_ITEMS, itemId);
+    } catch (err) {
+      failures.push(`item ${itemId}: ${err.message}`);
+    }
+  });
+
+  if (journal.stocktake_id) {
+    try {
+      await databases.deleteDocument(databaseId, COLLECTIONS.STOCKTAKES, journal.stocktake_id);
+    } catch (err) {
+      failures.push(`stocktake ${journal.stocktake_id}: ${err.message}`);
+    }
+  }
+
+  if (failures.length > 0) {
+    error(`Rollback incomplete: ${failures.join("; ")}`);
+  } else {
+    log(`Rolled back ${journal.item_ids.length} items and ${journal.stock.length} stock updates`);
+  }
+  return failures;
+}
+
+/**
+ * Whether a stocktake of this location is still being counted
+ */
+async function hasOpenStocktake(databases, databaseId, locationId) {
+  const result = await databases.listDocuments(databaseId, COLLECTIONS.STOCKTAKES, [
+    Query.equal("status", "counting"),
+    Query.limit(100),
+  ]);
+  return result.documents.some((stocktake) => (stocktake.location_id || null) === (locationId || null));
+}
+
+function toStocktakeResponse(stocktake) {
+  return {
+    $id: stocktake.$id,
+    $createdAt: stocktake.$createdAt,
+    $updatedAt: stocktake.$updatedAt,
+    name: stocktake.name,
+    location_id: stocktake.location_id || null,
+    blind: Boolean(stocktake.blind),
+    filters: stocktake.filters || null,
+    status: stocktake.status,
+    item_count: stocktake.item_count || 0,
+    created_by: stocktake.created_by || null,
+    created_by_name: stocktake.created_by_name || null,
+    reason_code: stocktake.reason_code || null,
+    notes: stocktake.notes || null,
+    closed_by: stocktake.closed_by || null,
+    closed_by_name: stocktake.closed_by_name || null,
+    closed_at: stocktake.closed_at || null,
+  };
+}
+
+// Roles ordered from least to most privileged, stored as membership roles on the staff team
+const ROLES = ["packer", "supervisor", "admin"];
+
+/**
+ * Resolve a user's role from their staff team membership.
+ * Users without a membership (or when the lookup fails) are packers.
+ */
+async function getUserRole(client, userId) {
+  try {
+    const teams = new Teams(client);
+    const result = await teams.listMemberships(
+      process.env.APPWRITE_ROLES_TEAM_ID || "staff",
+      [Query.equal("userId", userId)]
+    );
+    let level = 0;
+    for (const membership of result.memberships) {
+      for (const role of membership.roles) {
+        level = Math.max(level, ROLES.indexOf(role));
+      }
+    }
+    return ROLES[level];
+  } catch {
+    return ROLES[0];
+  }
+}
+
+function hasRole(role, required) {
+  return ROLES.indexOf(role) >= ROLES.indexOf(required);
+}
+
+/**
+ * Resolve the display name of the calling user.
+ * Falls back to the given email when the lookup fails.
+ */
+async function getUserName(client, userId, fallback) {
+  try {
+    const user = await new Users(client).get(userId);
+    return user.name || user.email || fallback || null;
+  } catch {
+    return fallback || null;
+  }
+}
+
+/**
+ * Record a permission denial as a failed audit entry
+ */
+async function auditPermissionDenied(databases, databaseId, req, entry) {
+  await databases.createDocument(databaseId, COLLECTIONS.AUDIT_LOGS, ID.unique(), {
+    user_id: entry.user_id,
+    user_email: entry.user_email || null,
+    action_type: entry.action_type,
+    resource_type: entry.resource_type,
+    resource_id: entry.resource_id || null,
+    action_details: JSON.stringify({
+      ...entry.details,
+      role: entry.role,
+      required_role: entry.required_role,
+    }),
+    ip_address: null,
+    user_agent: req.headers["user-agent"] || null,
+    status: "failure",
+    error_message: `Permission denied: requires ${entry.required_role} role`,
+    timestamp: new Date().toISOString(),
+    session_id: entry.session_id || null,
+  });
+}
+
+/**
+ * Appwrite Function: stocktake
+ *
+ * Runs stock count sessions. Uses Server SDK (API Key).
+ * - create: snapshot the system stock of every counted product at a location
+ * - count: save counted quantities
+ * - approve: apply each variance (counted minus system quantity) to stock
+ * - cancel: close the stocktake without changing stock
+ *
+ * Variances are applied as adjustments, so stock moved while counting is
+ * kept. Approving is all-or-nothing: if a step fails, the stock written so
+ * far is rolled back.
+ *
+ * Anyone can count; creating, approving and cancelling need a supervisor.
+ *
+ * Expected body:
+ * {
+ *   action: "create" | "count" | "approve" | "cancel",
+ *   // create
+ *   name?: string,
+ *   location_id?: string,              // Location counted (default location if omitted)
+ *   blind?: boolean,                   // Hide system quantities from counters
+ *   filters?: { search?: string },     // Products counted (every single product if omitted)
+ *   // count, approve and cancel
+ *   stocktake_id?: string,
+ *   counts?: Array<{                   // Required on count
+ *     product_barcode: string,
+ *     counted_quantity: number | null
+ *   }>,
+ *   reason_code?: string,              // Required on approve
+ *   notes?: string,
+ *   user_id: string,
+ *   user_email?: string,
+ *   session_id?: string
+ * }
+ */
+module.exports = async (context) => {
+  const { req, res, log, error } = context;
+
+  // Track context for error messages
+  let traceContext = {
+    action: null,
+    stocktake_id: null,
+    current_operation: 'parsing request',
+    database_id: process.env.APPWRITE_DATABASE_ID || 'NOT_SET',
+  };
+
+  // Everything written so far, for rollback on failure
+  const journal = {
+    stocktake_id: null,
+    item_ids: [],
+    stock: [],
+  };
+  let rollback = null;
+
+  try {
+    // Parse request body
+    let body;
+    try {
+      body = JSON.parse(req.body || "{}");
+    } catch {
+      return res.json({ success: false, error: "Invalid JSON body" }, 400);
+    }
+
+    const {
+      action,
+      stocktake_id,
+      name,
+      location_id,
+      blind,
+      filters,
+      counts,
+      reason_code,
+      notes,
+      user_id,
+      user_email,
+      session_id,
+    } = body;
+
+    traceContext.action = action;
+    traceContext.stocktake_id = stocktake_id || null;
+
+    // Validate required fields
+    if (!VALID_ACTIONS.includes(action)) {
+      return res.json(
+        { success: false, error: "Invalid action. Must be one of: create, count, approve, cancel" },
+        400
+      );
+    }
+    if (!user_id) {
+      return res.json({ success: false, error: "Missing required field: user_id" }, 400);
+    }
+    if (action === "create" && !name?.trim()) {
+      return res.json({ success: false, error: "Missing required field: name" }, 400);
+    }
+    if (action !== "create" && !stocktake_id) {
+      return res.json({ success: false, error: "Missing required field: stocktake_id" }, 400);
+    }
+    if (action === "approve" && !REASON_CODES.includes(reason_code)) {
+      return res.json(
+        { success: false, error: `Invalid reason_code. Must be one of: ${REASON_CODES.join(", ")}` },
+        400
+      );
+    }
+
+    let lines = null;
+    if (action === "count") {
+      const normalised = normaliseCounts(counts);
+      if (normalised.error) {
+        return res.json({ success: false, error: normalised.error }, 400);
+      }
+      lines = normalised.counts;
+    }
+
+    // Initialize Appwrite client with Server SDK (API Key)
+    const client = new Client()
+      .setEndpoint(process.env.APPWRITE_ENDPOINT)
+      .setProject(process.env.APPWRITE_PROJECT_ID)
+      .setKey(process.env.APPWRITE_API_KEY);
+
+    const databases = new Databases(client);
+    const databaseId = process.env.APPWRITE_DATABASE_ID;
+
+    // The stocktake being counted, approved or cancelled
+    let existing = null;
+    if (action !== "create") {
+      traceContext.current_operation = `loading stocktake from ${COLLECTIONS.STOCKTAKES}`;
+      existing = await databases.getDocument(databaseId, COLLECTIONS.STOCKTAKES, stocktake_id);
+    }
+
+    // Check the caller's role for this action
+    traceContext.current_operation = 'checking permissions';
+    const callerId = req.headers["x-appwrite-user-id"] || user_id;
+    const role = await getUserRole(client, callerId);
+    const requiredRole = action === "count" ? "packer" : "supervisor";
+    if (!hasRole(role, requiredRole)) {
+      log(`Permission denied for user ${callerId} (role: ${role}, requires: ${requiredRole})`);
+      try {
+        await auditPermissionDenied(databases, databaseId, req, {
+          user_id: callerId,
+          user_email,
+          session_id,
+          action_type: `stocktake_${action}`,
+          resource_type: "stocktake",
+          resource_id: stocktake_id || null,
+          details: { name: existing ? existing.name : name },
+          role,
+          required_role: requiredRole,
+        });
+      } catch (auditError) {
+        error(`Failed to create audit log: ${auditError.message}`);
+      }
+      return res.json(
+        { success: false, error: `Permission denied: requires ${requiredRole} role` },
+        403
+      );
+    }
+
+    if (existing && existing.status !== "counting") {
+      return res.json({ success: false, error: `This stocktake has been ${existing.status}` }, 409);
+    }
+
+    const stockLocationId = existing ? existing.location_id : location_id;
+    const stockLocation = await getStockLocation(databases, databaseId, stockLocationId);
+
+    let stocktake = existing;
+    let details = {};
+    let stockResults = [];
+
+    if (action === "create") {
+      traceContext.current_operation = 'checking for open stocktakes';
+      if (await hasOpenStocktake(databases, databaseId, location_id)) {
+        return res.json(
+          { success: false, error: "A stocktake of this location is already being counted" },
+          409
+        );
+      }
+
+      traceContext.current_operation = `loading products from ${COLLECTIONS.PRODUCTS}`;
+      const products = await loadProducts(databases, databaseId, filters);
+      if (products.length === 0) {
+        return res.json({ success: false, error: "No products match this stocktake" }, 400);
+      }
+
+      traceContext.current_operation = `loading stock from ${COLLECTIONS.PRODUCT_STOCK}`;
+      const quantities = await getSystemQuantities(databases, databaseId, stockLocation, products);
+
+      rollback = () => rollbackChange(databases, databaseId, journal, log, error);
+
+      // 1. Create the stocktake
+      traceContext.current_operation = `creating stocktake in ${COLLECTIONS.STOCKTAKES}`;
+      stocktake = await databases.createDocument(databaseId, COLLECTIONS.STOCKTAKES, ID.unique(), {
+        name: name.trim(),
+        location_id: location_id || null,
+        blind: Boolean(blind),
+        filters: filters?.search?.trim() ? JSON.stringify({ search: filters.search.trim() }) : null,
+        status: "counting",
+        item_count: products.length,
+        created_by: callerId,
+        created_by_name: await getUserName(client, callerId, user_email),
+        reason_code: null,
+        notes: null,
+        closed_by: null,
+        closed_by_name: null,
+        closed_at: null,
+      });
+      traceContext.stocktake_id = stocktake.$id;
+      journal.stocktake_id = stocktake.$id;
+
+      // 2. Snapshot the system quantity of each product
+      traceContext.current_operation = `creating items in ${COLLECTIONS.STOCKTAKE_ITEMS}`;
+      await processBatches(products, async (product) => {
+        const created = await databases.createDocument(databaseId, COLLECTIONS.STOCKTAKE_ITEMS, ID.unique(), {
+          stocktake_id: stocktake.$id,
+          product_id: product.$id,
+          product_barcode: product.barcode,
+          product_name: product.name,
+          unit_cost: product.cost ?? 0,
+          system_quantity: quantities.get(product.$id),
+          counted_quantity: null,
+          counted_by: null,
+          counted_at: null,
+        });
+        journal.item_ids.push(created.$id);
+      });
+
+      details = { item_count: products.length, blind: Boolean(blind), filters: filters || null };
+      log(`Created stocktake ${stocktake.name} with ${products.length} products`);
+    } else if (action === "count") {
+      traceContext.current_operation = `loading items from ${COLLECTIONS.STOCKTAKE_ITEMS}`;
+      const items = await listAll(databases, databaseId, COLLECTIONS.STOCKTAKE_ITEMS, [
+        Query.equal("stocktake_id", stocktake_id),
+      ]);
+      const byBarcode = new Map(items.map((item) => [item.product_barcode, item]));
+
+      const unknown = lines.filter((line) => !byBarcode.has(line.product_barcode));
+      if (unknown.length > 0) {
+        return res.json(
+          {
+            success: false,
+            error: `Not part of this stocktake: ${unknown.map((line) => line.product_barcode).join(", ")}`,
+          },
+          400
+        );
+      }
+
+      // Counts are absolute, so saving them again is harmless
+      traceContext.current_operation = `saving counts in ${COLLECTIONS.STOCKTAKE_ITEMS}`;
+      const countedAt = new Date().toISOString();
+      await processBatches(lines, async (line) => {
+        const item = byBarcode.get(line.product_barcode);
+        await databases.updateDocument(databaseId, COLLECTIONS.STOCKTAKE_ITEMS, item.$id, {
+          counted_quantity: line.counted_quantity,
+          counted_by: line.counted_quantity === null ? null : callerId,
+          counted_at: line.counted_quantity === null ? null : countedAt,
+        });
+      });
+
+      details = { counts: lines.length };
+      log(`Saved ${lines.length} counts for stocktake ${existing.name}`);
+    } else if (action === "approve") {
+      traceContext.current_operation = `loading items from ${COLLECTIONS.STOCKTAKE_ITEMS}`;
+      const items = await listAll(databases, databaseId, COLLECTIONS.STOCKTAKE_ITEMS, [
+        Query.equal("stocktake_id", stocktake_id),
+      ]);
+
+      // Uncounted items are left as they are
+      const variances = items
+        .filter((item) => item.counted_quantity !== null && item.counted_quantity !== undefined)
+        .map((item) => ({ item, delta: item.counted_quantity - item.system_quantity }))
+        .filter(({ delta }) => delta !== 0);
+
+      rollback = () => rollbackChange(databases, databaseId, journal, log, error);
+
+      // 1. Apply each variance to stock
+      traceContext.current_operation = `updating stock in ${COLLECTIONS.PRODUCTS}`;
+      for (const { item, delta } of variances) {
+        stockResults.push(await adjustStock(databases, databaseId, stockLocation, item.product_id, delta, journal));
+      }
+
+      // 2. Close the stocktake
+      traceContext.current_operation = `approving stocktake in ${COLLECTIONS.STOCKTAKES}`;
+      stocktake = await databases.updateDocument(databaseId, COLLECTIONS.STOCKTAKES, stocktake_id, {
+        status: "approved",
+        reason_code,
+        notes: notes?.trim() || null,
+        closed_by: callerId,
+        closed_by_name: await getUserName(client, callerId, user_email),
+        closed_at: new Date().toISOString(),
+      });
+      rollback = null;
+
+      await recordStockMovements(
+        databases,
+        databaseId,
+        stockResults.map((r) => ({
+          product_id: r.product_id,
+          delta: r.new - r.previous,
+          resulting_quantity: r.new,
+          reason: "stocktake",
+          source_id: stocktake.$id,
+          user_id: callerId,
+          location_id: stocktake.location_id || null,
+        })),
+        error
+      );
+
+      details = {
+        reason_code,
+        counted: items.filter((item) => item.counted_quantity !== null && item.counted_quantity !== undefined).length,
+        variances: variances.map(({ item, delta }) => ({
+          barcode: item.product_barcode,
+          name: item.product_name,
+          system: item.system_quantity,
+          counted: item.counted_quantity,
+          delta,
+        })),
+      };
+      log(`Approved stocktake ${stocktake.name}: ${stockResults.length} stock updates`);
+    } else {
+      traceContext.current_operation = `cancelling stocktake in ${COLLECTIONS.STOCKTAKES}`;
+      stocktake = await databases.updateDocument(databaseId, COLLECTIONS.STOCKTAKES, stocktake_id, {
+        status: "cancelled",
+        notes: notes?.trim() || null,
+        closed_by: callerId,
+        closed_by_name: await getUserName(client, callerId, user_email),
+        closed_at: new Date().toISOString(),
+      });
+      log(`Cancelled stocktake ${stocktake.name}`);
+    }
+    rollback = null;
+
+    // 3. Create a single audit log entry for the entire operation
+    try {
+      await databases.createDocument(
+        databaseId,
+        COLLECTIONS.AUDIT_LOGS,
+        ID.unique(),
+        {
+          user_id,
+          user_email: user_email || null,
+          action_type: `stocktake_${action}`,
+          resource_type: "stocktake",
+          resource_id: stocktake.$id,
+          action_details: JSON.stringify({
+            name: stocktake.name,
+            location_id: stocktake.location_id || null,
+            ...details,
+          }),
+          ip_address: null,
+          user_agent: req.headers["user-agent"] || null,
+          status: "success",
+          error_message: null,
+          timestamp: new Date().toISOString(),
+          session_id: session_id || null,
+        }
+      );
+    } catch (auditError) {
+      // Audit log failure shouldn't fail the whole operation
+      error(`Failed to create audit log: ${auditError.message}`);
+    }
+
+    return res.json({
+      success: true,
+      stocktake: toStocktakeResponse(stocktake),
+      stock_updates: { updated: stockResults.length },
+    });
+  } catch (err) {
+    // Build traceable error message with context
+    const contextInfo = [
+      `db: ${traceContext.database_id}`,
+      traceContext.action ? `action: ${traceContext.action}` : null,
+      traceContext.stocktake_id ? `stocktake: ${traceContext.stocktake_id}` : null,
+    ].filter(Boolean).join(', ');
+
+    const traceableError = `Error during "${traceContext.current_operation}" [${contextInfo}]: ${err.message || err}`;
+    error(traceableError);
+
+    // Undo whatever was written so the stocktake is not half applied
+    const rollbackFailures = rollback ? await rollback() : [];
+
+    return res.json(
+      {
+        success: false,
+        error: traceableError,
+        rolled_back: rollbackFailures.length === 0,
+        rollback_errors: rollbackFailures,
+      },
+      500
+    );
+  }
+};
@@ -1,9 +1,10 @@
-const { Client, Databases, ID, Query } = require("node-appwrite");
+const { Client, Databases, ID, Query, Teams } = require("node-appwrite");
 
 const COLLECTIONS = {
   PACKAGING_RECORDS: "packaging_records",
   PACKAGING_ITEMS: "packaging_items",
   PRODUCTS: "products",
+  PRODUCT_COMPONENTS: "product_components",
   AUDIT_LOGS: "audit_logs",
 };
 
@@ -23,6 +24,150 @@ async function processBatches(items, processor, batchSize = BATCH_SIZE) {
   return results;
 }
 
+/**
+ * Whether a packaging date is before today. Allows one day of slack because
+ * the client's local date can run ahead of or behind UTC.
+ */
+function isPastPackagingDate(packagingDate) {
+  const cutoff = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  return packagingDate < cutoff;
+}
+
+/**
+ * Explode a bundle into the products it holds, for the item snapshot:
+ * product ID -> { barcode, product_name, quantity, unit_cost }.
+ * Nested bundles are expanded; a bundle that contains itself is kept as is.
+ */
+async function snapshotBundleComponents(databases, databaseId, bundle, quantity, path) {
+  const expanded = new Map();
+  const componentsResult = await databases.listDocuments(databaseId, COLLECTIONS.PRODUCT_COMPONENTS, [
+    Query.equal("parent_product_id", bundle.$id),
+    Query.limit(100),
+  ]);
+
+  const componentProductIds = componentsResult.documents.map((c) => c.child_product_id);
+  if (componentProductIds.length === 0) {
+    return expanded;
+  }
+  const componentProductsResult = await databases.listDocuments(databaseId, COLLECTIONS.PRODUCTS, [
+    Query.equal("$id", componentProductIds),
+    Query.limit(componentProductIds.length),
+  ]);
+  const componentProductMap = new Map(componentProductsResult.documents.map((p) => [p.$id, p]));
+
+  for (const comp of componentsResult.documents) {
+    const product = componentProductMap.get(comp.child_product_id);
+    if (!product) continue;
+
+    const contained = product.type === "bundle" && !path.includes(product.$id)
+      ? await snapshotBundleComponents(databases, databaseId, product, comp.quantity * quantity, [...path, product.$id])
+      : new Map([[product.$id, {
+          barcode: product.barcode,
+          product_name: product.name,
+          quantity: comp.quantity * quantity,
+          unit_cost: product.cost ?? 0,
+        }]]);
+
+    for (const [productId, component] of contained) {
+      const existing = expanded.get(productId);
+      if (existing) {
+        existing.quantity += component.quantity;
+      } else {
+        expanded.set(productId, component);
+      }
+    }
+  }
+
+  return expanded;
+}
+
+/**
+ * Snapshot the packed products as they are now: name, unit cost and, for
+ * bundles, the exploded components. Stored on each item so renaming a
+ * product or changing a bundle later doesn't rewrite history.
+ * Returns barcode -> item attributes; unknown barcodes get no snapshot.
+ */
+async function buildItemSnapshots(databases, databaseId, barcodes) {
+  const uniqueBarcodes = [...new Set(barcodes)];
+  const snapshots = new Map();
+
+  // Appwrite Query.equal() has a limit of 60 values, so we batch the queries
+  for (let i = 0; i < uniqueBarcodes.length; i += 60) {
+    const batch = uniqueBarcodes.slice(i, i + 60);
+    const result = await databases.listDocuments(databaseId, COLLECTIONS.PRODUCTS, [
+      Query.equal("barcode", batch),
+      Query.limit(batch.length),
+    ]);
+
+    for (const product of result.documents) {
+      const components = product.type === "bundle"
+        ? await snapshotBundleComponents(databases, databaseId, product, 1, [product.$id])
+        : null;
+      snapshots.set(product.barcode, {
+        product_name: product.name,
+        unit_cost: product.cost ?? 0,
+        components_snapshot: components ? JSON.stringify([...components.values()]) : null,
+      });
+    }
+  }
+
+  return snapshots;
+}
+
+// Roles ordered from least to most privileged, stored as membership roles on the staff team
+const ROLES = ["packer", "supervisor", "admin"];
+
+/**
+ * Resolve a user's role from their staff team membership.
+ * Users without a membership (or when the lookup fails) are packers.
+ */
+async function getUserRole(client, userId) {
+  try {
+    const teams = new Teams(client);
+    const result = await teams.listMemberships(
+      process.env.APPWRITE_ROLES_TEAM_ID || "staff",
+      [Query.equal("userId", userId)]
+    );
+    let level = 0;
+    for (const membership of result.memberships) {
+      for (const role of membership.roles) {
+        level = Math.max(level, ROLES.indexOf(role));
+      }
+    }
+    return ROLES[level];
+  } catch {
+    return ROLES[0];
+  }
+}
+
+function hasRole(role, required) {
+  return ROLES.indexOf(role) >= ROLES.indexOf(required);
+}
+
+/**
+ * Record a permission denial as a failed audit entry
+ */
+async function auditPermissionDenied(databases, databaseId, req, entry) {
+  await databases.createDocument(databaseId, COLLECTIONS.AUDIT_LOGS, ID.unique(), {
+    user_id: entry.user_id,
+    user_email: entry.user_email || null,
+    action_type: entry.action_type,
+    resource_type: entry.resource_type,
+    resource_id: entry.resource_id || null,
+    action_details: JSON.stringify({
+      ...entry.details,
+      role: entry.role,
+      required_role: entry.required_role,
+    }),
+    ip_address: null,
+    user_agent: req.headers["user-agent"] || null,
+    status: "failure",
+    error_message: `Permission denied: requires ${entry.required_role} role`,
+    timestamp: new Date().toISOString(),
+    session_id: entry.session_id || null,
+  });
+}
+
 /**
  * Appwrite Function: update-packaging
  *
@@ -33,6 +178,7 @@ async function processBatches(items, processor, batchSize = BATCH_SIZE) {
  * {
  *   record_id: string,
  *   waybill_number?: string,           // New waybill number (optional)
+ *   courier_id?: string,               // Courier detected from the new waybill (optional)
  *   items?: Array<{                    // New items to replace existing (optional)
  *     product_barcode: string,
  *     product_name?: string,
@@ -69,6 +215,7 @@ module.exports = async (context) => {
     const {
       record_id,
       waybill_number,
+      courier_id,
       items,
       user_id,
       user_email,
@@ -129,6 +276,37 @@ module.exports = async (context) => {
       traceContext.waybill_number = originalRecord.waybill_number;
     }
 
+    // Packers may only edit today's records; past dates need a supervisor
+    traceContext.current_operation = 'checking permissions';
+    const callerId = req.headers["x-appwrite-user-id"] || user_id;
+    const role = await getUserRole(client, callerId);
+    const requiredRole = isPastPackagingDate(originalRecord.packaging_date) ? "supervisor" : "packer";
+    if (!hasRole(role, requiredRole)) {
+      log(`Permission denied for user ${callerId} (role: ${role}, requires: ${requiredRole})`);
+      try {
+        await auditPermissionDenied(databases, databaseId, req, {
+          user_id: callerId,
+          user_email,
+          session_id,
+          action_type: items !== undefined ? "packaging_items_update" : "packaging_record_update",
+          resource_type: "packaging_record",
+          resource_id: record_id,
+          details: {
+            packaging_date: originalRecord.packaging_date,
+            waybill_number: originalRecord.waybill_number,
+          },
+          role,
+          required_role: requiredRole,
+        });
+      } catch (auditError) {
+        error(`Failed to create audit log: ${auditError.message}`);
+      }
+      return res.json(
+        { success: false, error: `Permission denied: requires ${requiredRole} role` },
+        403
+      );
+    }
+
     let updatedRecord = originalRecord;
     let oldItems = [];
     let newItems = [];
@@ -140,7 +318,11 @@ module.exports = async (context) => {
         databaseId,
         COLLECTIONS.PACKAGING_RECORDS,
         record_id,
-        { waybill_number }
+        {
+          waybill_number,
+          // Callers that don't send a courier keep the record's courier
+          ...(courier_id !== undefined ? { courier_id: courier_id || null } : {}),
+        }
       );
       log(`Updated waybill number to: ${waybill_number}`);
     }
@@ -180,6 +362,26 @@ module.exports = async (context) => {
 
       // Create new items in batches
       if (items.length > 0) {
+        // Products already on the waybill keep their pack-time snapshot;
+        // only products added by the edit are snapshotted now
+        traceContext.current_operation = `snapshotting products from ${COLLECTIONS.PRODUCTS}`;
+        const snapshots = new Map();
+        for (const oldItem of oldItems) {
+          if (oldItem.product_name != null && !snapshots.has(oldItem.product_barcode)) {
+            snapshots.set(oldItem.product_barcode, {
+              product_name: oldItem.product_name,
+              unit_cost: oldItem.unit_cost ?? null,
+              components_snapshot: oldItem.components_snapshot ?? null,
+            });
+          }
+        }
+        const addedBarcodes = items
+          .map((i) => i.product_barcode)
+          .filter((barcode) => !snapshots.has(barcode));
+        for (const [barcode, snapshot] of await buildItemSnapshots(databases, databaseId, addedBarcodes)) {
+          snapshots.set(barcode, snapshot);
+        }
+
         traceContext.current_operation = `creating new items in ${COLLECTIONS.PACKAGING_ITEMS}`;
         log(`Creating ${items.length} new items in batches of ${BATCH_SIZE}...`);
 
@@ -193,6 +395,7 @@ module.exports = async (context) => {
                 packaging_record_id: record_id,
                 product_barcode: item.product_barcode,
                 scanned_at: item.scanned_at || new Date().toISOString(),
+                ...(snapshots.get(item.product_barcode) || {}),
               }
             );
             return { success: true, doc };
@@ -263,6 +466,8 @@ module.exports = async (context) => {
         $id: updatedRecord.$id,
         packaging_date: updatedRecord.packaging_date,
         waybill_number: updatedRecord.waybill_number,
+        location_id: updatedRecord.location_id || null,
+        courier_id: updatedRecord.courier_id || null,
         $createdAt: updatedRecord.$createdAt,
         $updatedAt: updatedRecord.$updatedAt,
       },
@@ -271,6 +476,9 @@ module.exports = async (context) => {
         packaging_record_id: item.packaging_record_id,
         product_barcode: item.product_barcode,
         scanned_at: item.scanned_at,
+        product_name: item.product_name ?? null,
+        unit_cost: item.unit_cost ?? null,
+        components_snapshot: item.components_snapshot ?? null,
       })),
     });
   } catch (err) {
@@ -0,0 +1,336 @@
+/**
+ * Packaging Report Benchmark Script
+ *
+ * Seeds a month of packaging data in memory and times the packaging report
+ * export against it: how many database requests loading takes, how long the
+ * report takes to write and how much memory it peaks at. Requests are served
+ * from memory after a simulated network latency, so no Appwrite project is needed.
+ *
+ * Usage:
+ *   npm run benchmark:report -- [options]
+ *
+ * Options:
+ *   --month=YYYY-MM     Month to seed (default: last month)
+ *   --waybills=N        Waybills packed per day (default: 400)
+ *   --latency=MS        Simulated latency of each request (default: 40)
+ *   --cached-days=N     Days at the start of the month with a packaging cache (default: 0)
+ *   --format=FORMAT     excel, pdf, csv or json (default: excel; pdf fetches its font on first use)
+ *   --courier=ID        Only the records of one courier
+ */
+
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+
+import type { Databases } from 'node-appwrite'
+
+import { EXPORT_EXTENSIONS, type ExportFormat } from '../trigger/lib/export-files'
+import { getDatesInRange, PACKAGING_CACHE_VERSION } from '../trigger/lib/packaging-report-data'
+import { writePackagingReport } from '../trigger/report-export'
+
+type SeedDocument = Record<string, unknown> & { $id: string }
+
+interface ParsedQuery {
+  method: string
+  attribute?: string
+  values?: unknown[]
+}
+
+const LEGACY_API_DELAY = 50 // Pause the per-record export made after every request
+const LEGACY_PAGE_SIZE = 100
+
+// Parse --name=value options
+const options = Object.fromEntries(
+  process.argv
+    .slice(2)
+    .filter((arg) => arg.startsWith('--'))
+    .map((arg) => {
+      const [name, value = ''] = arg.slice(2).split('=')
+      return [name, value]
+    })
+)
+
+function lastMonth(): string {
+  const now = new Date()
+  const month = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1))
+  return month.toISOString().slice(0, 7)
+}
+
+const month = options.month || lastMonth()
+const waybillsPerDay = Number(options.waybills || 400)
+const latency = Number(options.latency || 40)
+const cachedDayCount = Number(options['cached-days'] || 0)
+const format: ExportFormat = options.format in EXPORT_EXTENSIONS ? options.format : 'excel'
+const courierId = options.courier || undefined
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+// Deterministic random numbers, so runs are comparable
+let seed = 42
+function random(): number {
+  seed = (seed * 16807) % 2147483647
+  return (seed - 1) / 2147483646
+}
+
+function randomNumber(min: number, max: number): number {
+  return Math.floor(random() * (max - min + 1)) + min
+}
+
+/**
+ * Seed products, couriers, locations and a month of packaging records
+ */
+function seedMonth(dates: string[]): Map<string, SeedDocument[]> {
+  const collections = new Map<string, SeedDocument[]>()
+  const products: SeedDocument[] = Array.from({ length: 300 }, (_, i) => ({
+    $id: `product-${i}`,
+    barcode: `BC${String(i).padStart(6, '0')}`,
+    name: `Product ${i}`,
+    type: i % 20 === 0 ? 'bundle' : 'single',
+    stock_quantity: 0,
+    cost: randomNumber(100, 5000) / 100,
+  }))
+  const couriers: SeedDocument[] = ['J&T Express', 'Shopee Express', 'Ninja Van'].map((name, i) => ({
+    $id: `courier-${i}`,
+    name,
+  }))
+  const locations: SeedDocument[] = [
+    { $id: 'location-0', name: 'Main Warehouse', code: 'MAIN', is_default: true },
+    { $id: 'location-1', name: 'Store Front', code: 'STORE', is_default: false },
+  ]
+  const productStock: SeedDocument[] = products.flatMap((product) =>
+    locations.map((location) => {
+      const quantity = randomNumber(0, 250)
+      product.stock_quantity = (product.stock_quantity as number) + quantity
+      return {
+        $id: `${product.$id}-${location.$id}`,
+        product_id: product.$id,
+        location_id: location.$id,
+        quantity,
+      }
+    })
+  )
+
+  const records: SeedDocument[] = []
+  const items: SeedDocument[] = []
+  const caches: SeedDocument[] = []
+
+  for (const [dayIndex, date] of dates.entries()) {
+    const dayRecords: SeedDocument[] = []
+    const dayItems: SeedDocument[] = []
+
+    for (let i = 0; i < waybillsPerDay; i++) {
+      const startedAt = Date.parse(`${date}T01:00:00.000Z`) + i * 60_000
+      const itemCount = randomNumber(1, 5)
+      const record: SeedDocument = {
+        $id: `record-${date}-${i}`,
+        $createdAt: new Date(startedAt).toISOString(),
+        packaging_date: date,
+        waybill_number: `WB-${date.replace(/-/g, '')}-${String(i).padStart(5, '0')}`,
+        location_id: i % 4 === 0 ? 'location-1' : null,
+        courier_id: couriers[i % couriers.length].$id,
+        packed_by: `packer-${i % 6}`,
+        packed_by_name: `Packer ${i % 6}`,
+        started_at: new Date(startedAt).toISOString(),
+        finished_at: new Date(startedAt + 20_000 + itemCount * 5_000).toISOString(),
+      }
+      dayRecords.push(record)
+
+      for (let j = 0; j < itemCount; j++) {
+        const product = products[randomNumber(0, products.length - 1)]
+        dayItems.push({
+          $id: `item-${date}-${i}-${j}`,
+          packaging_record_id: record.$id,
+          product_barcode: product.barcode,
+          scanned_at: new Date(startedAt + 15_000 + j * 5_000).toISOString(),
+          product_name: product.name,
+          unit_cost: product.cost,
+          components_snapshot: null,
+        })
+      }
+    }
+
+    records.push(...dayRecords)
+    items.push(...dayItems)
+
+    if (dayIndex < cachedDayCount) {
+      // As packaging-archival writes it: at noon UTC the day after
+      caches.push({
+        $id: `cache-${date}`,
+        cache_date: date,
+        cached_at: new Date(Date.parse(`${date}T00:00:00.000Z`) + 36 * 60 * 60 * 1000).toISOString(),
+        schema_version: PACKAGING_CACHE_VERSION,
+        data: JSON.stringify(
+          dayRecords.map((record) => ({
+            ...record,
+            items: dayItems.filter((item) => item.packaging_record_id === record.$id),
+          }))
+        ),
+      })
+    }
+  }
+
+  collections.set('products', products)
+  collections.set('couriers', couriers)
+  collections.set('locations', locations)
+  collections.set('product_stock', productStock)
+  collections.set('packaging_records', records)
+  collections.set('packaging_items', items)
+  collections.set('packaging_cache', caches)
+  return collections
+}
+
+/**
+ * Answer listDocuments from the seeded collections, after the simulated latency
+ * Supports the queries the report export makes
+ */
+function createMemoryDatabases(collections: Map<string, SeedDocument[]>, stats: { requests: number }): Databases {
+  const listDocuments = async (_databaseId: string, collectionId: string, queries: string[] = []) => {
+    stats.requests++
+    await sleep(latency)
+
+    const parsed = queries.map((query) => JSON.parse(query) as ParsedQuery)
+    let documents = [...(collections.get(collectionId) ?? [])]
+
+    for (const query of parsed) {
+      if (query.method === 'equal') {
+        documents = documents.filter((doc) => query.values!.includes(doc[query.attribute!]))
+      } else if (query.method === 'greaterThanEqual') {
+        documents = documents.filter((doc) => String(doc[query.attribute!]) >= String(query.values![0]))
+      } else if (query.method === 'lessThanEqual') {
+        documents = documents.filter((doc) => String(doc[query.attribute!]) <= String(query.values![0]))
+      }
+    }
+
+    const orders = parsed.filter((query) => query.method === 'orderAsc' || query.method === 'orderDesc')
+    documents.sort((a, b) => {
+      for (const order of orders) {
+        const compared = String(a[order.attribute!]).localeCompare(String(b[order.attribute!]))
+        if (compared !== 0) return order.method === 'orderAsc' ? compared : -compared
+      }
+      return a.$id.localeCompare(b.$id)
+    })
+
+    const total = documents.length
+    const cursor = parsed.find((query) => query.method === 'cursorAfter')?.values?.[0]
+    if (cursor) {
+      documents = documents.slice(documents.findIndex((doc) => doc.$id === cursor) + 1)
+    }
+    const offset = Number(parsed.find((query) => query.method === 'offset')?.values?.[0] ?? 0)
+    const limit = Number(parsed.find((query) => query.method === 'limit')?.values?.[0] ?? 25)
+
+    return { total, documents: documents.slice(offset, offset + limit) }
+  }
+
+  return { listDocuments } as unknown as Databases
+}
+
+/**
+ * Requests the per-record export made for the same data: pages of records,
+ * then at least one page of items per record and one request per product
+ */
+function countLegacyRequests(collections: Map<string, SeedDocument[]>, dates: string[]): number {
+  const dateSet = new Set(dates)
+  const records = collections
+    .get('packaging_records')!
+    .filter((record) => dateSet.has(record.packaging_date as string))
+    .filter((record) => !courierId || record.courier_id === courierId)
+  const recordIds = new Set(records.map((record) => record.$id))
+  const itemCounts = new Map<string, number>()
+  const barcodes = new Set<string>()
+
+  for (const item of collections.get('packaging_items')!) {
+    const recordId = item.packaging_record_id as string
+    if (!recordIds.has(recordId)) continue
+    itemCounts.set(recordId, (itemCounts.get(recordId) ?? 0) + 1)
+    barcodes.add(item.product_barcode as string)
+  }
+
+  const recordPages = Math.floor(records.length / LEGACY_PAGE_SIZE) + 1
+  const itemPages = records.reduce(
+    (sum, record) => sum + Math.floor((itemCounts.get(record.$id) ?? 0) / LEGACY_PAGE_SIZE) + 1,
+    0
+  )
+  return recordPages + itemPages + barcodes.size
+}
+
+async function main() {
+  console.log('='.repeat(60))
+  console.log('Packaging Report Benchmark')
+  console.log('='.repeat(60))
+
+  process.env.APPWRITE_DATABASE_ID ||= 'benchmark'
+
+  const [year, monthNumber] = month.split('-').map(Number)
+  const startDate = `${month}-01`
+  const endDate = new Date(Date.UTC(year, monthNumber, 0)).toISOString().slice(0, 10)
+  const dates = getDatesInRange(startDate, endDate)
+
+  console.log(`\nMonth: ${startDate} to ${endDate}`)
+  console.log(`Waybills per day: ${waybillsPerDay}`)
+  console.log(`Cached days: ${Math.min(cachedDayCount, dates.length)}`)
+  console.log(`Latency: ${latency}ms per request`)
+  console.log(`Format: ${format}${courierId ? `, courier ${courierId}` : ''}`)
+
+  console.log('\nSeeding...')
+  const collections = seedMonth(dates)
+  console.log(
+    `Seeded ${collections.get('packaging_records')!.length} records and ` +
+      `${collections.get('packaging_items')!.length} items`
+  )
+
+  const stats = { requests: 0 }
+  const databases = createMemoryDatabases(collections, stats)
+  const filePath = path.join(os.tmpdir(), `benchmark-report-${Date.now()}.${EXPORT_EXTENSIONS[format]}`)
+
+  // Sample memory while the report is written
+  global.gc?.()
+  const baseline = process.memoryUsage().rss
+  let peak = baseline
+  const sampler = setInterval(() => {
+    peak = Math.max(peak, process.memoryUsage().rss)
+  }, 25)
+
+  const started = performance.now()
+  try {
+    const report = await writePackagingReport(
+      databases,
+      { startDate, endDate, format, courierId },
+      'Benchmark',
+      filePath
+    )
+    const elapsed = performance.now() - started
+    clearInterval(sampler)
+    peak = Math.max(peak, process.memoryUsage().rss)
+
+    if (!report) {
+      console.log('\nNothing was packed in the range')
+      return
+    }
+
+    const legacyRequests = countLegacyRequests(collections, dates)
+    const mb = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)} MB`
+
+    console.log('\nResults')
+    console.log('-'.repeat(60))
+    console.log(`Records / items / products: ${report.records} / ${report.items} / ${report.products}`)
+    console.log(`Days read from cache:       ${report.cachedDays}`)
+    console.log(`Report data requests:       ${report.requests}`)
+    console.log(`All requests:               ${stats.requests}`)
+    console.log(`Total time:                 ${(elapsed / 1000).toFixed(2)}s`)
+    console.log(`File size:                  ${mb(fs.statSync(filePath).size)}`)
+    console.log(`Peak memory:                ${mb(peak)} (${mb(peak - baseline)} above start)`)
+    console.log('-'.repeat(60))
+    console.log(
+      `Per-record loading would make ${legacyRequests} requests, ` +
+        `about ${((legacyRequests * (latency + LEGACY_API_DELAY)) / 1000).toFixed(0)}s before writing`
+    )
+  } finally {
+    clearInterval(sampler)
+    fs.rmSync(filePath, { force: true })
+  }
+}
+
+main().catch((error) => {
+  console.error('Benchmark failed:', error)
+  process.exit(1)
+})
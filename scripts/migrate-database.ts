@@ -9,6 +9,8 @@
  * 5. import_jobs - Tracking async import/export jobs
  * 6. packaging_cache - Cache for historical packaging data
  * 7. audit_logs - Audit trail for user actions and system events
+ * 8. locations - Warehouses stock is held in (seeded with a default location)
+ * 9. product_stock - Per-location stock quantities for non-default locations
  *
  * Usage:
  *   npx tsx scripts/migrate-database.ts
@@ -26,7 +28,7 @@ import dotenv from 'dotenv'
 dotenv.config()
 dotenv.config({ path: '.env.local' })
 
-import { Client, IndexType, Permission, Role, Storage, TablesDB } from 'node-appwrite'
+import { Client, ID, IndexType, Permission, Query, Role, Storage, TablesDB } from 'node-appwrite'
 
 // Configuration
 const config = {
@@ -41,11 +43,25 @@ const config = {
 export const TABLES = {
   PRODUCTS: 'products',
   PRODUCT_COMPONENTS: 'product_components',
+  PRODUCT_BARCODES: 'product_barcodes',
   PACKAGING_RECORDS: 'packaging_records',
   PACKAGING_ITEMS: 'packaging_items',
   PACKAGING_CACHE: 'packaging_cache',
   IMPORT_JOBS: 'import_jobs',
   AUDIT_LOGS: 'audit_logs',
+  LOCATIONS: 'locations',
+  PRODUCT_STOCK: 'product_stock',
+  STOCK_MOVEMENTS: 'stock_movements',
+  PACKAGING_COMMITS: 'packaging_commits',
+  COURIERS: 'couriers',
+  PACKAGING_DRAFTS: 'packaging_drafts',
+  ORDER_PREALERTS: 'order_prealerts',
+  RECEIVING_RECORDS: 'receiving_records',
+  RECEIVING_ITEMS: 'receiving_items',
+  STOCKTAKES: 'stocktakes',
+  STOCKTAKE_ITEMS: 'stocktake_items',
+  REPORT_SCHEDULES: 'report_schedules',
+  REPORT_TEMPLATES: 'report_templates',
 } as const
 
 // Initialize Appwrite client
@@ -390,6 +406,122 @@ async function createProductComponentsTable() {
   console.log('Product Components table setup complete!')
 }
 
+/**
+ * Create the Product Barcodes table (alternate and case-pack barcodes)
+ */
+async function createProductBarcodesTable() {
+  console.log('\n--- Creating Product Barcodes Table ---')
+
+  // Create table if it doesn't exist
+  if (await tableExists(TABLES.PRODUCT_BARCODES)) {
+    console.log('Table "product_barcodes" already exists, skipping creation...')
+  } else {
+    await tablesDB.createTable({
+      databaseId: config.databaseId,
+      tableId: TABLES.PRODUCT_BARCODES,
+      name: 'Product Barcodes',
+      permissions: [
+        Permission.read(Role.users()),
+        Permission.create(Role.users()),
+        Permission.update(Role.users()),
+        Permission.delete(Role.users()),
+      ],
+      rowSecurity: false,
+      enabled: true,
+    })
+    console.log('Created table: product_barcodes')
+  }
+
+  await sleep(500)
+
+  // Create columns
+  const columns = [
+    {
+      key: 'product_id',
+      create: () =>
+        tablesDB.createStringColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.PRODUCT_BARCODES,
+          key: 'product_id',
+          size: 36,
+          required: true,
+        }),
+    },
+    {
+      key: 'barcode',
+      create: () =>
+        tablesDB.createStringColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.PRODUCT_BARCODES,
+          key: 'barcode',
+          size: 255,
+          required: true,
+        }),
+    },
+    {
+      key: 'pack_quantity',
+      create: () =>
+        tablesDB.createIntegerColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.PRODUCT_BARCODES,
+          key: 'pack_quantity',
+          required: false,
+          min: 1,
+          max: 999999,
+          xdefault: 1,
+        }),
+    },
+  ]
+
+  for (const col of columns) {
+    if (await columnExists(TABLES.PRODUCT_BARCODES, col.key)) {
+      console.log(`Column "${col.key}" already exists, skipping...`)
+    } else {
+      await col.create()
+      console.log(`Created column: ${col.key}`)
+      await sleep(1000)
+    }
+  }
+
+  // Create indexes
+  const indexes = [
+    {
+      key: 'idx_barcode',
+      create: () =>
+        tablesDB.createIndex({
+          databaseId: config.databaseId,
+          tableId: TABLES.PRODUCT_BARCODES,
+          key: 'idx_barcode',
+          type: IndexType.Unique,
+          columns: ['barcode'],
+        }),
+    },
+    {
+      key: 'idx_product_id',
+      create: () =>
+        tablesDB.createIndex({
+          databaseId: config.databaseId,
+          tableId: TABLES.PRODUCT_BARCODES,
+          key: 'idx_product_id',
+          type: IndexType.Key,
+          columns: ['product_id'],
+        }),
+    },
+  ]
+
+  for (const idx of indexes) {
+    if (await indexExists(TABLES.PRODUCT_BARCODES, idx.key)) {
+      console.log(`Index "${idx.key}" already exists, skipping...`)
+    } else {
+      await idx.create()
+      console.log(`Created index: ${idx.key}`)
+      await sleep(1000)
+    }
+  }
+
+  console.log('Product Barcodes table setup complete!')
+}
+
 /**
  * Create the Packaging Records table
  */
@@ -442,6 +574,70 @@ async function createPackagingRecordsTable() {
           required: true,
         }),
     },
+    {
+      key: 'location_id',
+      create: () =>
+        tablesDB.createStringColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.PACKAGING_RECORDS,
+          key: 'location_id',
+          size: 36,
+          required: false,
+        }),
+    },
+    {
+      key: 'courier_id',
+      create: () =>
+        tablesDB.createStringColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.PACKAGING_RECORDS,
+          key: 'courier_id',
+          size: 36,
+          required: false,
+        }),
+    },
+    {
+      key: 'packed_by',
+      create: () =>
+        tablesDB.createStringColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.PACKAGING_RECORDS,
+          key: 'packed_by',
+          size: 36,
+          required: false,
+        }),
+    },
+    {
+      key: 'packed_by_name',
+      create: () =>
+        tablesDB.createStringColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.PACKAGING_RECORDS,
+          key: 'packed_by_name',
+          size: 128,
+          required: false,
+        }),
+    },
+    {
+      key: 'started_at',
+      create: () =>
+        tablesDB.createDatetimeColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.PACKAGING_RECORDS,
+          key: 'started_at',
+          required: false,
+        }),
+    },
+    {
+      key: 'finished_at',
+      create: () =>
+        tablesDB.createDatetimeColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.PACKAGING_RECORDS,
+          key: 'finished_at',
+          required: false,
+        }),
+    },
   ]
 
   for (const col of columns) {
@@ -489,6 +685,28 @@ async function createPackagingRecordsTable() {
           columns: ['packaging_date', 'waybill_number'],
         }),
     },
+    {
+      key: 'idx_courier',
+      create: () =>
+        tablesDB.createIndex({
+          databaseId: config.databaseId,
+          tableId: TABLES.PACKAGING_RECORDS,
+          key: 'idx_courier',
+          type: IndexType.Key,
+          columns: ['courier_id', 'packaging_date'],
+        }),
+    },
+    {
+      key: 'idx_packed_by',
+      create: () =>
+        tablesDB.createIndex({
+          databaseId: config.databaseId,
+          tableId: TABLES.PACKAGING_RECORDS,
+          key: 'idx_packed_by',
+          type: IndexType.Key,
+          columns: ['packed_by', 'packaging_date'],
+        }),
+    },
   ]
 
   for (const idx of indexes) {
@@ -566,6 +784,41 @@ async function createPackagingItemsTable() {
           required: true,
         }),
     },
+    // Snapshot of the product at pack time, so reports keep the history
+    {
+      key: 'product_name',
+      create: () =>
+        tablesDB.createStringColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.PACKAGING_ITEMS,
+          key: 'product_name',
+          size: 255,
+          required: false,
+        }),
+    },
+    {
+      key: 'unit_cost',
+      create: () =>
+        tablesDB.createFloatColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.PACKAGING_ITEMS,
+          key: 'unit_cost',
+          required: false,
+          min: 0,
+          max: 9999999999.99,
+        }),
+    },
+    {
+      key: 'components_snapshot',
+      create: () =>
+        tablesDB.createStringColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.PACKAGING_ITEMS,
+          key: 'components_snapshot',
+          size: 10000, // JSON array of the exploded bundle components
+          required: false,
+        }),
+    },
   ]
 
   for (const col of columns) {
@@ -680,6 +933,17 @@ async function createPackagingCacheTable() {
           required: true,
         }),
     },
+    {
+      key: 'schema_version',
+      create: () =>
+        tablesDB.createIntegerColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.PACKAGING_CACHE,
+          key: 'schema_version',
+          required: false,
+          min: 1,
+        }),
+    },
   ]
 
   for (const col of columns) {
@@ -726,6 +990,23 @@ async function createPackagingCacheTable() {
 async function createImportJobsTable() {
   console.log('\n--- Creating Import Jobs Table ---')
 
+  const JOB_ACTIONS = [
+    'import-excel',
+    'import-prealerts',
+    'export-excel',
+    'export-reporting-excel',
+    'export-reporting-pdf',
+    'send-report-email',
+    'export-reporting-receiving',
+    'export-reporting-stocktake-excel',
+    'export-reporting-stocktake-pdf',
+    'export-reporting-email',
+    'export-csv',
+    'export-json',
+    'export-reporting-csv',
+    'export-reporting-json',
+  ]
+
   // Create table if it doesn't exist
   if (await tableExists(TABLES.IMPORT_JOBS)) {
     console.log('Table "import_jobs" already exists, skipping creation...')
@@ -768,7 +1049,7 @@ async function createImportJobsTable() {
           databaseId: config.databaseId,
           tableId: TABLES.IMPORT_JOBS,
           key: 'action',
-          elements: ['import-excel', 'export-excel', 'export-reporting-excel', 'export-reporting-pdf', 'send-report-email'],
+          elements: JOB_ACTIONS,
           required: true,
         }),
     },
@@ -859,6 +1140,17 @@ async function createImportJobsTable() {
           required: false,
         }),
     },
+    {
+      key: 'phase',
+      create: () =>
+        tablesDB.createEnumColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.IMPORT_JOBS,
+          key: 'phase',
+          elements: ['generating', 'emailing'],
+          required: false,
+        }),
+    },
   ]
 
   for (const col of columns) {
@@ -871,6 +1163,16 @@ async function createImportJobsTable() {
     }
   }
 
+  // Existing databases need job actions added since the table was created
+  await tablesDB.updateEnumColumn({
+    databaseId: config.databaseId,
+    tableId: TABLES.IMPORT_JOBS,
+    key: 'action',
+    elements: JOB_ACTIONS,
+    required: true,
+  })
+  console.log('Updated column: action')
+
   // Create indexes
   const indexes = [
     {
@@ -1200,6 +1502,1984 @@ async function createAuditLogsTable() {
   console.log('Audit Logs table setup complete!')
 }
 
+/**
+ * Create the Locations table (warehouses stock is held in)
+ */
+async function createLocationsTable() {
+  console.log('\n--- Creating Locations Table ---')
+
+  // Create table if it doesn't exist
+  if (await tableExists(TABLES.LOCATIONS)) {
+    console.log('Table "locations" already exists, skipping creation...')
+  } else {
+    await tablesDB.createTable({
+      databaseId: config.databaseId,
+      tableId: TABLES.LOCATIONS,
+      name: 'Locations',
+      permissions: [
+        Permission.read(Role.users()),
+        Permission.create(Role.users()),
+        Permission.update(Role.users()),
+        Permission.delete(Role.users()),
+      ],
+      rowSecurity: false,
+      enabled: true,
+    })
+    console.log('Created table: locations')
+  }
+
+  await sleep(500)
+
+  // Create columns
+  const columns = [
+    {
+      key: 'name',
+      create: () =>
+        tablesDB.createStringColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.LOCATIONS,
+          key: 'name',
+          size: 100,
+          required: true,
+        }),
+    },
+    {
+      key: 'code',
+      create: () =>
+        tablesDB.createStringColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.LOCATIONS,
+          key: 'code',
+          size: 20,
+          required: true,
+        }),
+    },
+    {
+      key: 'is_default',
+      create: () =>
+        tablesDB.createBooleanColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.LOCATIONS,
+          key: 'is_default',
+          required: false,
+          xdefault: false,
+        }),
+    },
+  ]
+
+  for (const col of columns) {
+    if (await columnExists(TABLES.LOCATIONS, col.key)) {
+      console.log(`Column "${col.key}" already exists, skipping...`)
+    } else {
+      await col.create()
+      console.log(`Created column: ${col.key}`)
+      await sleep(1000)
+    }
+  }
+
+  // Create indexes
+  const indexes = [
+    {
+      key: 'idx_code',
+      create: () =>
+        tablesDB.createIndex({
+          databaseId: config.databaseId,
+          tableId: TABLES.LOCATIONS,
+          key: 'idx_code',
+          type: IndexType.Unique,
+          columns: ['code'],
+        }),
+    },
+    {
+      key: 'idx_is_default',
+      create: () =>
+        tablesDB.createIndex({
+          databaseId: config.databaseId,
+          tableId: TABLES.LOCATIONS,
+          key: 'idx_is_default',
+          type: IndexType.Key,
+          columns: ['is_default'],
+        }),
+    },
+  ]
+
+  for (const idx of indexes) {
+    if (await indexExists(TABLES.LOCATIONS, idx.key)) {
+      console.log(`Index "${idx.key}" already exists, skipping...`)
+    } else {
+      await idx.create()
+      console.log(`Created index: ${idx.key}`)
+      await sleep(1000)
+    }
+  }
+
+  // Seed the default location, which holds all stock not assigned elsewhere
+  const defaults = await tablesDB.listRows({
+    databaseId: config.databaseId,
+    tableId: TABLES.LOCATIONS,
+    queries: [Query.equal('is_default', true), Query.limit(1)],
+  })
+  if (defaults.total > 0) {
+    console.log('Default location already exists, skipping...')
+  } else {
+    await tablesDB.createRow({
+      databaseId: config.databaseId,
+      tableId: TABLES.LOCATIONS,
+      rowId: ID.unique(),
+      data: { name: 'Main Warehouse', code: 'MAIN', is_default: true },
+    })
+    console.log('Created default location: Main Warehouse (MAIN)')
+  }
+
+  console.log('Locations table setup complete!')
+}
+
+/**
+ * Create the Product Stock table (per-location quantities)
+ * The default location has no rows; it holds the product total minus all other locations
+ */
+async function createProductStockTable() {
+  console.log('\n--- Creating Product Stock Table ---')
+
+  // Create table if it doesn't exist
+  if (await tableExists(TABLES.PRODUCT_STOCK)) {
+    console.log('Table "product_stock" already exists, skipping creation...')
+  } else {
+    await tablesDB.createTable({
+      databaseId: config.databaseId,
+      tableId: TABLES.PRODUCT_STOCK,
+      name: 'Product Stock',
+      permissions: [
+        Permission.read(Role.users()),
+        Permission.create(Role.users()),
+        Permission.update(Role.users()),
+        Permission.delete(Role.users()),
+      ],
+      rowSecurity: false,
+      enabled: true,
+    })
+    console.log('Created table: product_stock')
+  }
+
+  await sleep(500)
+
+  // Create columns
+  const columns = [
+    {
+      key: 'product_id',
+      create: () =>
+        tablesDB.createStringColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.PRODUCT_STOCK,
+          key: 'product_id',
+          size: 36,
+          required: true,
+        }),
+    },
+    {
+      key: 'location_id',
+      create: () =>
+        tablesDB.createStringColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.PRODUCT_STOCK,
+          key: 'location_id',
+          size: 36,
+          required: true,
+        }),
+    },
+    {
+      key: 'quantity',
+      create: () =>
+        tablesDB.createIntegerColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.PRODUCT_STOCK,
+          key: 'quantity',
+          required: false,
+          min: 0,
+          max: 999999999,
+          xdefault: 0,
+        }),
+    },
+  ]
+
+  for (const col of columns) {
+    if (await columnExists(TABLES.PRODUCT_STOCK, col.key)) {
+      console.log(`Column "${col.key}" already exists, skipping...`)
+    } else {
+      await col.create()
+      console.log(`Created column: ${col.key}`)
+      await sleep(1000)
+    }
+  }
+
+  // Create indexes
+  const indexes = [
+    {
+      key: 'idx_location',
+      create: () =>
+        tablesDB.createIndex({
+          databaseId: config.databaseId,
+          tableId: TABLES.PRODUCT_STOCK,
+          key: 'idx_location',
+          type: IndexType.Key,
+          columns: ['location_id'],
+        }),
+    },
+    {
+      key: 'idx_product_location',
+      create: () =>
+        tablesDB.createIndex({
+          databaseId: config.databaseId,
+          tableId: TABLES.PRODUCT_STOCK,
+          key: 'idx_product_location',
+          type: IndexType.Unique,
+          columns: ['product_id', 'location_id'],
+        }),
+    },
+  ]
+
+  for (const idx of indexes) {
+    if (await indexExists(TABLES.PRODUCT_STOCK, idx.key)) {
+      console.log(`Index "${idx.key}" already exists, skipping...`)
+    } else {
+      await idx.create()
+      console.log(`Created index: ${idx.key}`)
+      await sleep(1000)
+    }
+  }
+
+  console.log('Product Stock table setup complete!')
+}
+
+/**
+ * Create the Stock Movements table (per-product stock ledger)
+ */
+async function createStockMovementsTable() {
+  console.log('\n--- Creating Stock Movements Table ---')
+
+  const MOVEMENT_REASONS = ['packaging', 'unpack', 'import', 'manual_adjust', 'receiving', 'stocktake']
+
+  // Create table if it doesn't exist
+  if (await tableExists(TABLES.STOCK_MOVEMENTS)) {
+    console.log('Table "stock_movements" already exists, skipping creation...')
+  } else {
+    await tablesDB.createTable({
+      databaseId: config.databaseId,
+      tableId: TABLES.STOCK_MOVEMENTS,
+      name: 'Stock Movements',
+      permissions: [
+        Permission.read(Role.users()),
+        Permission.create(Role.users()),
+      ],
+      rowSecurity: false,
+      enabled: true,
+    })
+    console.log('Created table: stock_movements')
+  }
+
+  await sleep(500)
+
+  // Create columns
+  const columns = [
+    {
+      key: 'product_id',
+      create: () =>
+        tablesDB.createStringColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.STOCK_MOVEMENTS,
+          key: 'product_id',
+          size: 36,
+          required: true,
+        }),
+    },
+    {
+      key: 'delta',
+      create: () =>
+        tablesDB.createIntegerColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.STOCK_MOVEMENTS,
+          key: 'delta',
+          required: true,
+          min: -999999999,
+          max: 999999999,
+        }),
+    },
+    {
+      key: 'resulting_quantity',
+      create: () =>
+        tablesDB.createIntegerColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.STOCK_MOVEMENTS,
+          key: 'resulting_quantity',
+          required: true,
+          min: -999999999,
+          max: 999999999,
+        }),
+    },
+    {
+      key: 'reason',
+      create: () =>
+        tablesDB.createEnumColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.STOCK_MOVEMENTS,
+          key: 'reason',
+          elements: MOVEMENT_REASONS,
+          required: true,
+        }),
+    },
+    {
+      key: 'source_id',
+      create: () =>
+        tablesDB.createStringColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.STOCK_MOVEMENTS,
+          key: 'source_id',
+          size: 36,
+          required: false,
+        }),
+    },
+    {
+      key: 'user_id',
+      create: () =>
+        tablesDB.createStringColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.STOCK_MOVEMENTS,
+          key: 'user_id',
+          size: 36,
+          required: false,
+        }),
+    },
+    {
+      key: 'location_id',
+      create: () =>
+        tablesDB.createStringColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.STOCK_MOVEMENTS,
+          key: 'location_id',
+          size: 36,
+          required: false,
+        }),
+    },
+  ]
+
+  for (const col of columns) {
+    if (await columnExists(TABLES.STOCK_MOVEMENTS, col.key)) {
+      console.log(`Column "${col.key}" already exists, skipping...`)
+    } else {
+      await col.create()
+      console.log(`Created column: ${col.key}`)
+      await sleep(1000)
+    }
+  }
+
+  // Existing databases need reasons added since the table was created
+  await tablesDB.updateEnumColumn({
+    databaseId: config.databaseId,
+    tableId: TABLES.STOCK_MOVEMENTS,
+    key: 'reason',
+    elements: MOVEMENT_REASONS,
+    required: true,
+  })
+  console.log('Updated column: reason')
+
+  // Create indexes
+  const indexes = [
+    {
+      key: 'idx_product_created',
+      create: () =>
+        tablesDB.createIndex({
+          databaseId: config.databaseId,
+          tableId: TABLES.STOCK_MOVEMENTS,
+          key: 'idx_product_created',
+          type: IndexType.Key,
+          columns: ['product_id', '$createdAt'],
+        }),
+    },
+    {
+      key: 'idx_source',
+      create: () =>
+        tablesDB.createIndex({
+          databaseId: config.databaseId,
+          tableId: TABLES.STOCK_MOVEMENTS,
+          key: 'idx_source',
+          type: IndexType.Key,
+          columns: ['source_id'],
+        }),
+    },
+  ]
+
+  for (const idx of indexes) {
+    if (await indexExists(TABLES.STOCK_MOVEMENTS, idx.key)) {
+      console.log(`Index "${idx.key}" already exists, skipping...`)
+    } else {
+      await idx.create()
+      console.log(`Created index: ${idx.key}`)
+      await sleep(1000)
+    }
+  }
+
+  console.log('Stock Movements table setup complete!')
+}
+
+/**
+ * Create the Packaging Commits table (idempotency keys of create-packaging)
+ * Only the create-packaging function (API key) reads and writes it
+ */
+async function createPackagingCommitsTable() {
+  console.log('\n--- Creating Packaging Commits Table ---')
+
+  // Create table if it doesn't exist
+  if (await tableExists(TABLES.PACKAGING_COMMITS)) {
+    console.log('Table "packaging_commits" already exists, skipping creation...')
+  } else {
+    await tablesDB.createTable({
+      databaseId: config.databaseId,
+      tableId: TABLES.PACKAGING_COMMITS,
+      name: 'Packaging Commits',
+      permissions: [],
+      rowSecurity: false,
+      enabled: true,
+    })
+    console.log('Created table: packaging_commits')
+  }
+
+  await sleep(500)
+
+  // Create columns
+  const columns = [
+    {
+      key: 'status',
+      create: () =>
+        tablesDB.createEnumColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.PACKAGING_COMMITS,
+          key: 'status',
+          elements: ['pending', 'committed'],
+          required: true,
+        }),
+    },
+    {
+      key: 'payload_hash',
+      create: () =>
+        tablesDB.createStringColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.PACKAGING_COMMITS,
+          key: 'payload_hash',
+          size: 64,
+          required: true,
+        }),
+    },
+    {
+      key: 'user_id',
+      create: () =>
+        tablesDB.createStringColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.PACKAGING_COMMITS,
+          key: 'user_id',
+          size: 36,
+          required: true,
+        }),
+    },
+    {
+      key: 'record_id',
+      create: () =>
+        tablesDB.createStringColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.PACKAGING_COMMITS,
+          key: 'record_id',
+          size: 36,
+          required: false,
+        }),
+    },
+    {
+      key: 'claimed_at',
+      create: () =>
+        tablesDB.createDatetimeColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.PACKAGING_COMMITS,
+          key: 'claimed_at',
+          required: false,
+        }),
+    },
+    {
+      key: 'journal',
+      create: () =>
+        tablesDB.createStringColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.PACKAGING_COMMITS,
+          key: 'journal',
+          size: 100000, // JSON of the stock deducted so far
+          required: false,
+        }),
+    },
+  ]
+
+  for (const col of columns) {
+    if (await columnExists(TABLES.PACKAGING_COMMITS, col.key)) {
+      console.log(`Column "${col.key}" already exists, skipping...`)
+    } else {
+      await col.create()
+      console.log(`Created column: ${col.key}`)
+      await sleep(1000)
+    }
+  }
+
+  console.log('Packaging Commits table setup complete!')
+}
+
+/**
+ * Create the Couriers table (waybill number formats per courier)
+ */
+async function createCouriersTable() {
+  console.log('\n--- Creating Couriers Table ---')
+
+  // Create table if it doesn't exist
+  if (await tableExists(TABLES.COURIERS)) {
+    console.log('Table "couriers" already exists, skipping creation...')
+  } else {
+    await tablesDB.createTable({
+      databaseId: config.databaseId,
+      tableId: TABLES.COURIERS,
+      name: 'Couriers',
+      permissions: [
+        Permission.read(Role.users()),
+        Permission.create(Role.users()),
+        Permission.update(Role.users()),
+        Permission.delete(Role.users()),
+      ],
+      rowSecurity: false,
+      enabled: true,
+    })
+    console.log('Created table: couriers')
+  }
+
+  await sleep(500)
+
+  // Create columns
+  const columns = [
+    {
+      key: 'name',
+      create: () =>
+        tablesDB.createStringColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.COURIERS,
+          key: 'name',
+          size: 100,
+          required: true,
+        }),
+    },
+    {
+      key: 'prefix',
+      create: () =>
+        tablesDB.createStringColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.COURIERS,
+          key: 'prefix',
+          size: 20,
+          required: false,
+        }),
+    },
+    {
+      key: 'pattern',
+      create: () =>
+        tablesDB.createStringColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.COURIERS,
+          key: 'pattern',
+          size: 255,
+          required: false,
+        }),
+    },
+    {
+      key: 'length',
+      create: () =>
+        tablesDB.createIntegerColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.COURIERS,
+          key: 'length',
+          required: false,
+          min: 1,
+          max: 100,
+        }),
+    },
+    {
+      key: 'check_digit',
+      create: () =>
+        tablesDB.createEnumColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.COURIERS,
+          key: 'check_digit',
+          elements: ['luhn', 'mod7', 's10'],
+          required: false,
+        }),
+    },
+  ]
+
+  for (const col of columns) {
+    if (await columnExists(TABLES.COURIERS, col.key)) {
+      console.log(`Column "${col.key}" already exists, skipping...`)
+    } else {
+      await col.create()
+      console.log(`Created column: ${col.key}`)
+      await sleep(1000)
+    }
+  }
+
+  // Create indexes
+  const indexes = [
+    {
+      key: 'idx_name',
+      create: () =>
+        tablesDB.createIndex({
+          databaseId: config.databaseId,
+          tableId: TABLES.COURIERS,
+          key: 'idx_name',
+          type: IndexType.Key,
+          columns: ['name'],
+        }),
+    },
+  ]
+
+  for (const idx of indexes) {
+    if (await indexExists(TABLES.COURIERS, idx.key)) {
+      console.log(`Index "${idx.key}" already exists, skipping...`)
+    } else {
+      await idx.create()
+      console.log(`Created index: ${idx.key}`)
+      await sleep(1000)
+    }
+  }
+
+  console.log('Couriers table setup complete!')
+}
+
+/**
+ * Create the Packaging Drafts table (waybills being packed at a station)
+ */
+async function createPackagingDraftsTable() {
+  console.log('\n--- Creating Packaging Drafts Table ---')
+
+  // Create table if it doesn't exist
+  if (await tableExists(TABLES.PACKAGING_DRAFTS)) {
+    console.log('Table "packaging_drafts" already exists, skipping creation...')
+  } else {
+    await tablesDB.createTable({
+      databaseId: config.databaseId,
+      tableId: TABLES.PACKAGING_DRAFTS,
+      name: 'Packaging Drafts',
+      permissions: [
+        Permission.read(Role.users()),
+        Permission.create(Role.users()),
+        Permission.update(Role.users()),
+        Permission.delete(Role.users()),
+      ],
+      rowSecurity: false,
+      enabled: true,
+    })
+    console.log('Created table: packaging_drafts')
+  }
+
+  await sleep(500)
+
+  // Create columns
+  const columns = [
+    {
+      key: 'packaging_date',
+      create: () =>
+        tablesDB.createStringColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.PACKAGING_DRAFTS,
+          key: 'packaging_date',
+          size: 10,
+          required: true,
+        }),
+    },
+    {
+      key: 'waybill_number',
+      create: () =>
+        tablesDB.createStringColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.PACKAGING_DRAFTS,
+          key: 'waybill_number',
+          size: 255,
+          required: true,
+        }),
+    },
+    {
+      key: 'station_id',
+      create: () =>
+        tablesDB.createStringColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.PACKAGING_DRAFTS,
+          key: 'station_id',
+          size: 64,
+          required: true,
+        }),
+    },
+    {
+      key: 'user_id',
+      create: () =>
+        tablesDB.createStringColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.PACKAGING_DRAFTS,
+          key: 'user_id',
+          size: 36,
+          required: true,
+        }),
+    },
+    {
+      key: 'user_email',
+      create: () =>
+        tablesDB.createStringColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.PACKAGING_DRAFTS,
+          key: 'user_email',
+          size: 255,
+          required: false,
+        }),
+    },
+    {
+      key: 'claimed_at',
+      create: () =>
+        tablesDB.createDatetimeColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.PACKAGING_DRAFTS,
+          key: 'claimed_at',
+          required: true,
+        }),
+    },
+  ]
+
+  for (const col of columns) {
+    if (await columnExists(TABLES.PACKAGING_DRAFTS, col.key)) {
+      console.log(`Column "${col.key}" already exists, skipping...`)
+    } else {
+      await col.create()
+      console.log(`Created column: ${col.key}`)
+      await sleep(1000)
+    }
+  }
+
+  // Create indexes
+  // One station at a time can hold a waybill on a date
+  const indexes = [
+    {
+      key: 'idx_date_waybill',
+      create: () =>
+        tablesDB.createIndex({
+          databaseId: config.databaseId,
+          tableId: TABLES.PACKAGING_DRAFTS,
+          key: 'idx_date_waybill',
+          type: IndexType.Unique,
+          columns: ['packaging_date', 'waybill_number'],
+        }),
+    },
+  ]
+
+  for (const idx of indexes) {
+    if (await indexExists(TABLES.PACKAGING_DRAFTS, idx.key)) {
+      console.log(`Index "${idx.key}" already exists, skipping...`)
+    } else {
+      await idx.create()
+      console.log(`Created index: ${idx.key}`)
+      await sleep(1000)
+    }
+  }
+
+  console.log('Packaging drafts table setup complete!')
+}
+
+/**
+ * Create the Order Pre-alerts table (expected contents per waybill)
+ */
+async function createOrderPrealertsTable() {
+  console.log('\n--- Creating Order Pre-alerts Table ---')
+
+  // Create table if it doesn't exist
+  if (await tableExists(TABLES.ORDER_PREALERTS)) {
+    console.log('Table "order_prealerts" already exists, skipping creation...')
+  } else {
+    await tablesDB.createTable({
+      databaseId: config.databaseId,
+      tableId: TABLES.ORDER_PREALERTS,
+      name: 'Order Pre-alerts',
+      permissions: [
+        Permission.read(Role.users()),
+        Permission.create(Role.users()),
+        Permission.update(Role.users()),
+        Permission.delete(Role.users()),
+      ],
+      rowSecurity: false,
+      enabled: true,
+    })
+    console.log('Created table: order_prealerts')
+  }
+
+  await sleep(500)
+
+  // Create columns
+  const columns = [
+    {
+      key: 'waybill_number',
+      create: () =>
+        tablesDB.createStringColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.ORDER_PREALERTS,
+          key: 'waybill_number',
+          size: 255,
+          required: true,
+        }),
+    },
+    {
+      key: 'order_reference',
+      create: () =>
+        tablesDB.createStringColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.ORDER_PREALERTS,
+          key: 'order_reference',
+          size: 100,
+          required: false,
+        }),
+    },
+    {
+      key: 'expected_items',
+      create: () =>
+        tablesDB.createStringColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.ORDER_PREALERTS,
+          key: 'expected_items',
+          size: 10000,
+          required: true,
+        }),
+    },
+    {
+      key: 'import_job_id',
+      create: () =>
+        tablesDB.createStringColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.ORDER_PREALERTS,
+          key: 'import_job_id',
+          size: 36,
+          required: false,
+        }),
+    },
+    {
+      key: 'imported_at',
+      create: () =>
+        tablesDB.createDatetimeColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.ORDER_PREALERTS,
+          key: 'imported_at',
+          required: true,
+        }),
+    },
+  ]
+
+  for (const col of columns) {
+    if (await columnExists(TABLES.ORDER_PREALERTS, col.key)) {
+      console.log(`Column "${col.key}" already exists, skipping...`)
+    } else {
+      await col.create()
+      console.log(`Created column: ${col.key}`)
+      await sleep(1000)
+    }
+  }
+
+  // Create indexes
+  const indexes = [
+    {
+      key: 'idx_waybill',
+      create: () =>
+        tablesDB.createIndex({
+          databaseId: config.databaseId,
+          tableId: TABLES.ORDER_PREALERTS,
+          key: 'idx_waybill',
+          type: IndexType.Unique,
+          columns: ['waybill_number'],
+        }),
+    },
+  ]
+
+  for (const idx of indexes) {
+    if (await indexExists(TABLES.ORDER_PREALERTS, idx.key)) {
+      console.log(`Index "${idx.key}" already exists, skipping...`)
+    } else {
+      await idx.create()
+      console.log(`Created index: ${idx.key}`)
+      await sleep(1000)
+    }
+  }
+
+  console.log('Order pre-alerts table setup complete!')
+}
+
+/**
+ * Create the Receiving Records table (inbound deliveries)
+ * Written only by the receive-stock function (API key); staff can read
+ */
+async function createReceivingRecordsTable() {
+  console.log('\n--- Creating Receiving Records Table ---')
+
+  // Create table if it doesn't exist
+  if (await tableExists(TABLES.RECEIVING_RECORDS)) {
+    console.log('Table "receiving_records" already exists, skipping creation...')
+  } else {
+    await tablesDB.createTable({
+      databaseId: config.databaseId,
+      tableId: TABLES.RECEIVING_RECORDS,
+      name: 'Receiving Records',
+      permissions: [
+        Permission.read(Role.users()),
+      ],
+      rowSecurity: false,
+      enabled: true,
+    })
+    console.log('Created table: receiving_records')
+  }
+
+  await sleep(500)
+
+  // Create columns
+  const columns = [
+    {
+      key: 'receiving_date',
+      create: () =>
+        tablesDB.createStringColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.RECEIVING_RECORDS,
+          key: 'receiving_date',
+          size: 10,
+          required: true,
+        }),
+    },
+    {
+      key: 'reference_number',
+      create: () =>
+        tablesDB.createStringColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.RECEIVING_RECORDS,
+          key: 'reference_number',
+          size: 255,
+          required: true,
+        }),
+    },
+    {
+      key: 'location_id',
+      create: () =>
+        tablesDB.createStringColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.RECEIVING_RECORDS,
+          key: 'location_id',
+          size: 36,
+          required: false,
+        }),
+    },
+    {
+      key: 'notes',
+      create: () =>
+        tablesDB.createStringColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.RECEIVING_RECORDS,
+          key: 'notes',
+          size: 1000,
+          required: false,
+        }),
+    },
+    {
+      key: 'received_by',
+      create: () =>
+        tablesDB.createStringColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.RECEIVING_RECORDS,
+          key: 'received_by',
+          size: 36,
+          required: false,
+        }),
+    },
+    {
+      key: 'received_by_name',
+      create: () =>
+        tablesDB.createStringColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.RECEIVING_RECORDS,
+          key: 'received_by_name',
+          size: 255,
+          required: false,
+        }),
+    },
+    {
+      key: 'status',
+      create: () =>
+        tablesDB.createEnumColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.RECEIVING_RECORDS,
+          key: 'status',
+          elements: ['received', 'voided'],
+          required: true,
+        }),
+    },
+    {
+      key: 'voided_at',
+      create: () =>
+        tablesDB.createDatetimeColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.RECEIVING_RECORDS,
+          key: 'voided_at',
+          required: false,
+        }),
+    },
+    {
+      key: 'voided_by',
+      create: () =>
+        tablesDB.createStringColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.RECEIVING_RECORDS,
+          key: 'voided_by',
+          size: 36,
+          required: false,
+        }),
+    },
+    {
+      key: 'void_reason',
+      create: () =>
+        tablesDB.createStringColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.RECEIVING_RECORDS,
+          key: 'void_reason',
+          size: 500,
+          required: false,
+        }),
+    },
+  ]
+
+  for (const col of columns) {
+    if (await columnExists(TABLES.RECEIVING_RECORDS, col.key)) {
+      console.log(`Column "${col.key}" already exists, skipping...`)
+    } else {
+      await col.create()
+      console.log(`Created column: ${col.key}`)
+      await sleep(1000)
+    }
+  }
+
+  // Create indexes
+  const indexes = [
+    {
+      key: 'idx_receiving_date',
+      create: () =>
+        tablesDB.createIndex({
+          databaseId: config.databaseId,
+          tableId: TABLES.RECEIVING_RECORDS,
+          key: 'idx_receiving_date',
+          type: IndexType.Key,
+          columns: ['receiving_date'],
+        }),
+    },
+    {
+      key: 'idx_reference',
+      create: () =>
+        tablesDB.createIndex({
+          databaseId: config.databaseId,
+          tableId: TABLES.RECEIVING_RECORDS,
+          key: 'idx_reference',
+          type: IndexType.Key,
+          columns: ['reference_number'],
+        }),
+    },
+  ]
+
+  for (const idx of indexes) {
+    if (await indexExists(TABLES.RECEIVING_RECORDS, idx.key)) {
+      console.log(`Index "${idx.key}" already exists, skipping...`)
+    } else {
+      await idx.create()
+      console.log(`Created index: ${idx.key}`)
+      await sleep(1000)
+    }
+  }
+
+  console.log('Receiving Records table setup complete!')
+}
+
+/**
+ * Create the Receiving Items table (products and quantities of a receiving)
+ * Written only by the receive-stock function (API key); staff can read
+ */
+async function createReceivingItemsTable() {
+  console.log('\n--- Creating Receiving Items Table ---')
+
+  // Create table if it doesn't exist
+  if (await tableExists(TABLES.RECEIVING_ITEMS)) {
+    console.log('Table "receiving_items" already exists, skipping creation...')
+  } else {
+    await tablesDB.createTable({
+      databaseId: config.databaseId,
+      tableId: TABLES.RECEIVING_ITEMS,
+      name: 'Receiving Items',
+      permissions: [
+        Permission.read(Role.users()),
+      ],
+      rowSecurity: false,
+      enabled: true,
+    })
+    console.log('Created table: receiving_items')
+  }
+
+  await sleep(500)
+
+  // Create columns
+  const columns = [
+    {
+      key: 'receiving_record_id',
+      create: () =>
+        tablesDB.createStringColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.RECEIVING_ITEMS,
+          key: 'receiving_record_id',
+          size: 36,
+          required: true,
+        }),
+    },
+    {
+      key: 'product_id',
+      create: () =>
+        tablesDB.createStringColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.RECEIVING_ITEMS,
+          key: 'product_id',
+          size: 36,
+          required: true,
+        }),
+    },
+    {
+      key: 'product_barcode',
+      create: () =>
+        tablesDB.createStringColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.RECEIVING_ITEMS,
+          key: 'product_barcode',
+          size: 255,
+          required: true,
+        }),
+    },
+    {
+      key: 'product_name',
+      create: () =>
+        tablesDB.createStringColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.RECEIVING_ITEMS,
+          key: 'product_name',
+          size: 255,
+          required: false,
+        }),
+    },
+    {
+      key: 'quantity',
+      create: () =>
+        tablesDB.createIntegerColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.RECEIVING_ITEMS,
+          key: 'quantity',
+          required: true,
+          min: 1,
+          max: 999999999,
+        }),
+    },
+    {
+      key: 'unit_cost',
+      create: () =>
+        tablesDB.createFloatColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.RECEIVING_ITEMS,
+          key: 'unit_cost',
+          required: false,
+        }),
+    },
+  ]
+
+  for (const col of columns) {
+    if (await columnExists(TABLES.RECEIVING_ITEMS, col.key)) {
+      console.log(`Column "${col.key}" already exists, skipping...`)
+    } else {
+      await col.create()
+      console.log(`Created column: ${col.key}`)
+      await sleep(1000)
+    }
+  }
+
+  // Create indexes
+  const indexes = [
+    {
+      key: 'idx_receiving_record',
+      create: () =>
+        tablesDB.createIndex({
+          databaseId: config.databaseId,
+          tableId: TABLES.RECEIVING_ITEMS,
+          key: 'idx_receiving_record',
+          type: IndexType.Key,
+          columns: ['receiving_record_id'],
+        }),
+    },
+  ]
+
+  for (const idx of indexes) {
+    if (await indexExists(TABLES.RECEIVING_ITEMS, idx.key)) {
+      console.log(`Index "${idx.key}" already exists, skipping...`)
+    } else {
+      await idx.create()
+      console.log(`Created index: ${idx.key}`)
+      await sleep(1000)
+    }
+  }
+
+  console.log('Receiving Items table setup complete!')
+}
+
+/**
+ * Create the Stocktakes table (stock count sessions)
+ * Written only by the stocktake function (API key); staff can read
+ */
+async function createStocktakesTable() {
+  console.log('\n--- Creating Stocktakes Table ---')
+
+  // Why the approved variances were applied
+  const STOCKTAKE_REASON_CODES = ['cycle_count', 'damaged', 'lost', 'found', 'correction']
+
+  // Create table if it doesn't exist
+  if (await tableExists(TABLES.STOCKTAKES)) {
+    console.log('Table "stocktakes" already exists, skipping creation...')
+  } else {
+    await tablesDB.createTable({
+      databaseId: config.databaseId,
+      tableId: TABLES.STOCKTAKES,
+      name: 'Stocktakes',
+      permissions: [
+        Permission.read(Role.users()),
+      ],
+      rowSecurity: false,
+      enabled: true,
+    })
+    console.log('Created table: stocktakes')
+  }
+
+  await sleep(500)
+
+  // Create columns
+  const columns = [
+    {
+      key: 'name',
+      create: () =>
+        tablesDB.createStringColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.STOCKTAKES,
+          key: 'name',
+          size: 255,
+          required: true,
+        }),
+    },
+    {
+      key: 'location_id',
+      create: () =>
+        tablesDB.createStringColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.STOCKTAKES,
+          key: 'location_id',
+          size: 36,
+          required: false,
+        }),
+    },
+    {
+      key: 'blind',
+      create: () =>
+        tablesDB.createBooleanColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.STOCKTAKES,
+          key: 'blind',
+          required: false,
+          xdefault: false,
+        }),
+    },
+    {
+      key: 'filters',
+      create: () =>
+        tablesDB.createStringColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.STOCKTAKES,
+          key: 'filters',
+          size: 1000,
+          required: false,
+        }),
+    },
+    {
+      key: 'status',
+      create: () =>
+        tablesDB.createEnumColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.STOCKTAKES,
+          key: 'status',
+          elements: ['counting', 'approved', 'cancelled'],
+          required: true,
+        }),
+    },
+    {
+      key: 'item_count',
+      create: () =>
+        tablesDB.createIntegerColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.STOCKTAKES,
+          key: 'item_count',
+          required: false,
+          min: 0,
+          max: 999999999,
+          xdefault: 0,
+        }),
+    },
+    {
+      key: 'created_by',
+      create: () =>
+        tablesDB.createStringColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.STOCKTAKES,
+          key: 'created_by',
+          size: 36,
+          required: false,
+        }),
+    },
+    {
+      key: 'created_by_name',
+      create: () =>
+        tablesDB.createStringColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.STOCKTAKES,
+          key: 'created_by_name',
+          size: 255,
+          required: false,
+        }),
+    },
+    {
+      key: 'reason_code',
+      create: () =>
+        tablesDB.createEnumColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.STOCKTAKES,
+          key: 'reason_code',
+          elements: STOCKTAKE_REASON_CODES,
+          required: false,
+        }),
+    },
+    {
+      key: 'notes',
+      create: () =>
+        tablesDB.createStringColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.STOCKTAKES,
+          key: 'notes',
+          size: 1000,
+          required: false,
+        }),
+    },
+    {
+      key: 'closed_by',
+      create: () =>
+        tablesDB.createStringColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.STOCKTAKES,
+          key: 'closed_by',
+          size: 36,
+          required: false,
+        }),
+    },
+    {
+      key: 'closed_by_name',
+      create: () =>
+        tablesDB.createStringColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.STOCKTAKES,
+          key: 'closed_by_name',
+          size: 255,
+          required: false,
+        }),
+    },
+    {
+      key: 'closed_at',
+      create: () =>
+        tablesDB.createDatetimeColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.STOCKTAKES,
+          key: 'closed_at',
+          required: false,
+        }),
+    },
+  ]
+
+  for (const col of columns) {
+    if (await columnExists(TABLES.STOCKTAKES, col.key)) {
+      console.log(`Column "${col.key}" already exists, skipping...`)
+    } else {
+      await col.create()
+      console.log(`Created column: ${col.key}`)
+      await sleep(1000)
+    }
+  }
+
+  // Create indexes
+  const indexes = [
+    {
+      key: 'idx_status',
+      create: () =>
+        tablesDB.createIndex({
+          databaseId: config.databaseId,
+          tableId: TABLES.STOCKTAKES,
+          key: 'idx_status',
+          type: IndexType.Key,
+          columns: ['status'],
+        }),
+    },
+  ]
+
+  for (const idx of indexes) {
+    if (await indexExists(TABLES.STOCKTAKES, idx.key)) {
+      console.log(`Index "${idx.key}" already exists, skipping...`)
+    } else {
+      await idx.create()
+      console.log(`Created index: ${idx.key}`)
+      await sleep(1000)
+    }
+  }
+
+  console.log('Stocktakes table setup complete!')
+}
+
+/**
+ * Create the Stocktake Items table (system and counted quantity per product)
+ * Written only by the stocktake function (API key); staff can read
+ */
+async function createStocktakeItemsTable() {
+  console.log('\n--- Creating Stocktake Items Table ---')
+
+  // Create table if it doesn't exist
+  if (await tableExists(TABLES.STOCKTAKE_ITEMS)) {
+    console.log('Table "stocktake_items" already exists, skipping creation...')
+  } else {
+    await tablesDB.createTable({
+      databaseId: config.databaseId,
+      tableId: TABLES.STOCKTAKE_ITEMS,
+      name: 'Stocktake Items',
+      permissions: [
+        Permission.read(Role.users()),
+      ],
+      rowSecurity: false,
+      enabled: true,
+    })
+    console.log('Created table: stocktake_items')
+  }
+
+  await sleep(500)
+
+  // Create columns
+  const columns = [
+    {
+      key: 'stocktake_id',
+      create: () =>
+        tablesDB.createStringColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.STOCKTAKE_ITEMS,
+          key: 'stocktake_id',
+          size: 36,
+          required: true,
+        }),
+    },
+    {
+      key: 'product_id',
+      create: () =>
+        tablesDB.createStringColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.STOCKTAKE_ITEMS,
+          key: 'product_id',
+          size: 36,
+          required: true,
+        }),
+    },
+    {
+      key: 'product_barcode',
+      create: () =>
+        tablesDB.createStringColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.STOCKTAKE_ITEMS,
+          key: 'product_barcode',
+          size: 255,
+          required: true,
+        }),
+    },
+    {
+      key: 'product_name',
+      create: () =>
+        tablesDB.createStringColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.STOCKTAKE_ITEMS,
+          key: 'product_name',
+          size: 255,
+          required: false,
+        }),
+    },
+    {
+      key: 'unit_cost',
+      create: () =>
+        tablesDB.createFloatColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.STOCKTAKE_ITEMS,
+          key: 'unit_cost',
+          required: false,
+        }),
+    },
+    {
+      key: 'system_quantity',
+      create: () =>
+        tablesDB.createIntegerColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.STOCKTAKE_ITEMS,
+          key: 'system_quantity',
+          required: true,
+          min: 0,
+          max: 999999999,
+        }),
+    },
+    {
+      key: 'counted_quantity',
+      create: () =>
+        tablesDB.createIntegerColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.STOCKTAKE_ITEMS,
+          key: 'counted_quantity',
+          required: false,
+          min: 0,
+          max: 999999999,
+        }),
+    },
+    {
+      key: 'counted_by',
+      create: () =>
+        tablesDB.createStringColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.STOCKTAKE_ITEMS,
+          key: 'counted_by',
+          size: 36,
+          required: false,
+        }),
+    },
+    {
+      key: 'counted_at',
+      create: () =>
+        tablesDB.createDatetimeColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.STOCKTAKE_ITEMS,
+          key: 'counted_at',
+          required: false,
+        }),
+    },
+  ]
+
+  for (const col of columns) {
+    if (await columnExists(TABLES.STOCKTAKE_ITEMS, col.key)) {
+      console.log(`Column "${col.key}" already exists, skipping...`)
+    } else {
+      await col.create()
+      console.log(`Created column: ${col.key}`)
+      await sleep(1000)
+    }
+  }
+
+  // Create indexes
+  const indexes = [
+    {
+      key: 'idx_stocktake',
+      create: () =>
+        tablesDB.createIndex({
+          databaseId: config.databaseId,
+          tableId: TABLES.STOCKTAKE_ITEMS,
+          key: 'idx_stocktake',
+          type: IndexType.Key,
+          columns: ['stocktake_id'],
+        }),
+    },
+  ]
+
+  for (const idx of indexes) {
+    if (await indexExists(TABLES.STOCKTAKE_ITEMS, idx.key)) {
+      console.log(`Index "${idx.key}" already exists, skipping...`)
+    } else {
+      await idx.create()
+      console.log(`Created index: ${idx.key}`)
+      await sleep(1000)
+    }
+  }
+
+  console.log('Stocktake Items table setup complete!')
+}
+
+/**
+ * Create the Report Schedules table (recurring report emails)
+ * Supervisors manage schedules; the report-schedules task runs them
+ */
+async function createReportSchedulesTable() {
+  console.log('\n--- Creating Report Schedules Table ---')
+
+  const RUN_STATUSES = ['success', 'failed', 'no_data']
+
+  // Create table if it doesn't exist
+  if (await tableExists(TABLES.REPORT_SCHEDULES)) {
+    console.log('Table "report_schedules" already exists, skipping creation...')
+  } else {
+    await tablesDB.createTable({
+      databaseId: config.databaseId,
+      tableId: TABLES.REPORT_SCHEDULES,
+      name: 'Report Schedules',
+      permissions: [
+        Permission.read(Role.users()),
+        Permission.create(Role.users()),
+        Permission.update(Role.users()),
+        Permission.delete(Role.users()),
+      ],
+      rowSecurity: false,
+      enabled: true,
+    })
+    console.log('Created table: report_schedules')
+  }
+
+  await sleep(500)
+
+  // Create columns
+  const columns = [
+    {
+      key: 'name',
+      create: () =>
+        tablesDB.createStringColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.REPORT_SCHEDULES,
+          key: 'name',
+          size: 255,
+          required: true,
+        }),
+    },
+    {
+      key: 'frequency',
+      create: () =>
+        tablesDB.createEnumColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.REPORT_SCHEDULES,
+          key: 'frequency',
+          elements: ['daily', 'weekly', 'monthly'],
+          required: true,
+        }),
+    },
+    {
+      key: 'date_range',
+      create: () =>
+        tablesDB.createEnumColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.REPORT_SCHEDULES,
+          key: 'date_range',
+          elements: ['yesterday', 'last_7_days', 'last_week', 'last_month'],
+          required: true,
+        }),
+    },
+    {
+      key: 'format',
+      create: () =>
+        tablesDB.createEnumColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.REPORT_SCHEDULES,
+          key: 'format',
+          elements: ['excel', 'pdf'],
+          required: true,
+        }),
+    },
+    {
+      key: 'recipients',
+      create: () =>
+        tablesDB.createStringColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.REPORT_SCHEDULES,
+          key: 'recipients',
+          size: 2000,
+          required: true,
+        }),
+    },
+    {
+      key: 'hour',
+      create: () =>
+        tablesDB.createIntegerColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.REPORT_SCHEDULES,
+          key: 'hour',
+          required: true,
+          min: 0,
+          max: 23,
+        }),
+    },
+    {
+      key: 'day_of_week',
+      create: () =>
+        tablesDB.createIntegerColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.REPORT_SCHEDULES,
+          key: 'day_of_week',
+          required: false,
+          min: 0,
+          max: 6,
+        }),
+    },
+    {
+      key: 'day_of_month',
+      create: () =>
+        tablesDB.createIntegerColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.REPORT_SCHEDULES,
+          key: 'day_of_month',
+          required: false,
+          min: 1,
+          max: 28,
+        }),
+    },
+    {
+      key: 'utc_offset',
+      create: () =>
+        tablesDB.createIntegerColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.REPORT_SCHEDULES,
+          key: 'utc_offset',
+          required: false,
+          min: -840,
+          max: 840,
+          xdefault: 0,
+        }),
+    },
+    {
+      key: 'enabled',
+      create: () =>
+        tablesDB.createBooleanColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.REPORT_SCHEDULES,
+          key: 'enabled',
+          required: false,
+          xdefault: true,
+        }),
+    },
+    {
+      key: 'user_id',
+      create: () =>
+        tablesDB.createStringColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.REPORT_SCHEDULES,
+          key: 'user_id',
+          size: 36,
+          required: true,
+        }),
+    },
+    {
+      key: 'created_by_name',
+      create: () =>
+        tablesDB.createStringColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.REPORT_SCHEDULES,
+          key: 'created_by_name',
+          size: 255,
+          required: false,
+        }),
+    },
+    {
+      key: 'next_run_at',
+      create: () =>
+        tablesDB.createDatetimeColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.REPORT_SCHEDULES,
+          key: 'next_run_at',
+          required: false,
+        }),
+    },
+    {
+      key: 'last_run_at',
+      create: () =>
+        tablesDB.createDatetimeColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.REPORT_SCHEDULES,
+          key: 'last_run_at',
+          required: false,
+        }),
+    },
+    {
+      key: 'last_run_status',
+      create: () =>
+        tablesDB.createEnumColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.REPORT_SCHEDULES,
+          key: 'last_run_status',
+          elements: RUN_STATUSES,
+          required: false,
+        }),
+    },
+    {
+      key: 'last_run_error',
+      create: () =>
+        tablesDB.createStringColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.REPORT_SCHEDULES,
+          key: 'last_run_error',
+          size: 1000,
+          required: false,
+        }),
+    },
+    {
+      key: 'last_file_id',
+      create: () =>
+        tablesDB.createStringColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.REPORT_SCHEDULES,
+          key: 'last_file_id',
+          size: 36,
+          required: false,
+        }),
+    },
+  ]
+
+  for (const col of columns) {
+    if (await columnExists(TABLES.REPORT_SCHEDULES, col.key)) {
+      console.log(`Column "${col.key}" already exists, skipping...`)
+    } else {
+      await col.create()
+      console.log(`Created column: ${col.key}`)
+      await sleep(1000)
+    }
+  }
+
+  // Existing databases need run statuses added since the table was created
+  await tablesDB.updateEnumColumn({
+    databaseId: config.databaseId,
+    tableId: TABLES.REPORT_SCHEDULES,
+    key: 'last_run_status',
+    elements: RUN_STATUSES,
+    required: false,
+  })
+  console.log('Updated column: last_run_status')
+
+  // Create indexes
+  const indexes = [
+    {
+      key: 'idx_due',
+      create: () =>
+        tablesDB.createIndex({
+          databaseId: config.databaseId,
+          tableId: TABLES.REPORT_SCHEDULES,
+          key: 'idx_due',
+          type: IndexType.Key,
+          columns: ['enabled', 'next_run_at'],
+        }),
+    },
+  ]
+
+  for (const idx of indexes) {
+    if (await indexExists(TABLES.REPORT_SCHEDULES, idx.key)) {
+      console.log(`Index "${idx.key}" already exists, skipping...`)
+    } else {
+      await idx.create()
+      console.log(`Created index: ${idx.key}`)
+      await sleep(1000)
+    }
+  }
+
+  console.log('Report Schedules table setup complete!')
+}
+
+/**
+ * Create the Report Templates table (saved report layouts)
+ * Supervisors manage templates; report exports read them by ID
+ */
+async function createReportTemplatesTable() {
+  console.log('\n--- Creating Report Templates Table ---')
+
+  // Create table if it doesn't exist
+  if (await tableExists(TABLES.REPORT_TEMPLATES)) {
+    console.log('Table "report_templates" already exists, skipping creation...')
+  } else {
+    await tablesDB.createTable({
+      databaseId: config.databaseId,
+      tableId: TABLES.REPORT_TEMPLATES,
+      name: 'Report Templates',
+      permissions: [
+        Permission.read(Role.users()),
+        Permission.create(Role.users()),
+        Permission.update(Role.users()),
+        Permission.delete(Role.users()),
+      ],
+      rowSecurity: false,
+      enabled: true,
+    })
+    console.log('Created table: report_templates')
+  }
+
+  await sleep(500)
+
+  // Create columns
+  const columns = [
+    {
+      key: 'name',
+      create: () =>
+        tablesDB.createStringColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.REPORT_TEMPLATES,
+          key: 'name',
+          size: 255,
+          required: true,
+        }),
+    },
+    {
+      key: 'definition',
+      create: () =>
+        tablesDB.createStringColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.REPORT_TEMPLATES,
+          key: 'definition',
+          size: 2000,
+          required: true,
+        }),
+    },
+    {
+      key: 'user_id',
+      create: () =>
+        tablesDB.createStringColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.REPORT_TEMPLATES,
+          key: 'user_id',
+          size: 36,
+          required: true,
+        }),
+    },
+    {
+      key: 'created_by_name',
+      create: () =>
+        tablesDB.createStringColumn({
+          databaseId: config.databaseId,
+          tableId: TABLES.REPORT_TEMPLATES,
+          key: 'created_by_name',
+          size: 255,
+          required: false,
+        }),
+    },
+  ]
+
+  for (const col of columns) {
+    if (await columnExists(TABLES.REPORT_TEMPLATES, col.key)) {
+      console.log(`Column "${col.key}" already exists, skipping...`)
+    } else {
+      await col.create()
+      console.log(`Created column: ${col.key}`)
+      await sleep(1000)
+    }
+  }
+
+  console.log('Report Templates table setup complete!')
+}
+
 /**
  * Create storage bucket for export files
  */
@@ -1279,11 +3559,25 @@ async function migrate() {
     // Run all table migrations
     await createProductsTable()
     await createProductComponentsTable()
+    await createProductBarcodesTable()
     await createPackagingRecordsTable()
     await createPackagingItemsTable()
     await createPackagingCacheTable()
     await createImportJobsTable()
     await createAuditLogsTable()
+    await createLocationsTable()
+    await createProductStockTable()
+    await createStockMovementsTable()
+    await createPackagingCommitsTable()
+    await createCouriersTable()
+    await createPackagingDraftsTable()
+    await createOrderPrealertsTable()
+    await createReceivingRecordsTable()
+    await createReceivingItemsTable()
+    await createStocktakesTable()
+    await createStocktakeItemsTable()
+    await createReportSchedulesTable()
+    await createReportTemplatesTable()
 
     // Create storage bucket
     await createExportsBucket()
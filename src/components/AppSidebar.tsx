@@ -1,4 +1,4 @@
-import { BarChart3, LayoutDashboard, ListTodo, Loader2, LogOut, Package, PackageOpen, Tags } from 'lucide-react'
+import { BarChart3, ClipboardList, LayoutDashboard, ListTodo, Loader2, LogOut, Package, PackageOpen, PackagePlus, ScrollText, Tags, Truck } from 'lucide-react'
 import { useTranslation } from 'react-i18next'
 import { Link, useLocation } from 'react-router-dom'
 
@@ -16,22 +16,33 @@ import {
 } from '@/components/ui/sidebar'
 import { useAuth } from '@/contexts/AuthContext'
 import { useActiveJobs } from '@/hooks/use-jobs'
+import { getRequiredRole } from '@/routes'
 
 const navItems = [
   { titleKey: 'sidebar.dashboard', url: '/dashboard', icon: LayoutDashboard },
   { titleKey: 'sidebar.packaging', url: '/packaging', icon: Package },
   { titleKey: 'sidebar.unpack', url: '/unpack', icon: PackageOpen },
+  { titleKey: 'sidebar.receiving', url: '/receiving', icon: PackagePlus },
+  { titleKey: 'sidebar.stocktake', url: '/stocktake', icon: ClipboardList },
   { titleKey: 'sidebar.products', url: '/products', icon: Tags },
   { titleKey: 'sidebar.reports', url: '/reports', icon: BarChart3 },
+  { titleKey: 'sidebar.couriers', url: '/couriers', icon: Truck },
+  { titleKey: 'sidebar.auditLogs', url: '/audit-logs', icon: ScrollText },
 ]
 
 export function AppSidebar() {
   const { t } = useTranslation()
   const location = useLocation()
-  const { logout, user } = useAuth()
+  const { logout, user, hasRole } = useAuth()
   const { setOpenMobile, isMobile } = useSidebar()
   const { data: activeJobs = [] } = useActiveJobs(user?.$id || '', !!user)
 
+  // Hide links the user's role cannot open (see requiredRole in routes)
+  const visibleNavItems = navItems.filter((item) => {
+    const requiredRole = getRequiredRole(item.url)
+    return !requiredRole || hasRole(requiredRole)
+  })
+
   // Count active jobs (pending or processing)
   const pendingCount = activeJobs.filter(j => j.status === 'pending').length
   const processingCount = activeJobs.filter(j => j.status === 'processing').length
@@ -64,7 +75,7 @@ export function AppSidebar() {
         <SidebarGroup>
           <SidebarGroupContent>
             <SidebarMenu>
-              {navItems.map((item) => (
+              {visibleNavItems.map((item) => (
                 <SidebarMenuItem key={item.titleKey}>
                   <SidebarMenuButton
                     asChild
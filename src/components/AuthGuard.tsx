@@ -5,14 +5,14 @@ import { Navigate, useLocation } from 'react-router-dom'
 import { AppLayout } from '@/components/AppLayout'
 import { FullScreenSpinner } from '@/components/ui/spinner'
 import { useAuth } from '@/contexts/AuthContext'
-import { publicPaths } from '@/routes'
+import { getRequiredRole, publicPaths } from '@/routes'
 
 interface AuthGuardProps {
   children: ReactNode
 }
 
 export default function AuthGuard({ children }: AuthGuardProps) {
-  const { user, isLoading } = useAuth()
+  const { user, isLoading, hasRole } = useAuth()
   const location = useLocation()
   const isPublicRoute = publicPaths.includes(location.pathname)
 
@@ -28,5 +28,10 @@ export default function AuthGuard({ children }: AuthGuardProps) {
     return <Navigate to="/login" state={{ from: location }} replace />
   }
 
+  const requiredRole = getRequiredRole(location.pathname)
+  if (requiredRole && !hasRole(requiredRole)) {
+    return <Navigate to="/dashboard" replace />
+  }
+
   return <AppLayout>{children}</AppLayout>
 }
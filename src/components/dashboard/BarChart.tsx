@@ -0,0 +1,63 @@
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from '@/components/ui/tooltip'
+import { cn } from '@/lib/utils'
+
+export interface BarChartDatum {
+  label: string
+  value: number
+  tooltip?: string
+}
+
+interface BarChartProps {
+  data: BarChartDatum[]
+  height?: number
+  // Show every Nth label under the bars to avoid crowding (1 = all)
+  labelEvery?: number
+  className?: string
+}
+
+/**
+ * Minimal vertical bar chart built from divs (no chart library dependency)
+ */
+export function BarChart({ data, height = 160, labelEvery = 1, className }: BarChartProps) {
+  const max = Math.max(1, ...data.map((d) => d.value))
+
+  return (
+    <div className={cn('flex flex-col gap-1', className)}>
+      <div className="flex items-end gap-1" style={{ height }}>
+        {data.map((datum) => (
+          <Tooltip key={datum.label}>
+            <TooltipTrigger asChild>
+              <div className="flex h-full flex-1 items-end">
+                <div
+                  className={cn(
+                    'w-full rounded-t-sm',
+                    datum.value > 0 ? 'bg-primary' : 'bg-muted'
+                  )}
+                  style={{ height: `${Math.max((datum.value / max) * 100, 2)}%` }}
+                  data-testid="bar"
+                />
+              </div>
+            </TooltipTrigger>
+            <TooltipContent side="top">
+              {datum.tooltip ?? `${datum.label}: ${datum.value}`}
+            </TooltipContent>
+          </Tooltip>
+        ))}
+      </div>
+      <div className="flex gap-1">
+        {data.map((datum, index) => (
+          <div
+            key={datum.label}
+            className="text-muted-foreground flex-1 truncate text-center text-[10px]"
+          >
+            {index % labelEvery === 0 ? datum.label : ''}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -29,10 +29,13 @@ import { useAuth } from '@/contexts/AuthContext'
 import {
   formatJobStats,
   getJobStatusColor,
+  getJobExportFormat,
+  getJobStatusKey,
   useActiveJobs,
   useDownloadExport,
 } from '@/hooks/use-jobs'
 import type { ParsedJob } from '@/types/job'
+import { EXPORT_FILE_TYPES } from '@/types/job'
 
 export function JobIndicator() {
   const { t } = useTranslation()
@@ -50,15 +53,20 @@ export function JobIndicator() {
   const handleDownload = async (job: ParsedJob) => {
     if (job.result_file_id && job.action) {
       const date = new Date(job.created_at).toISOString().split('T')[0]
-      const isPdf = job.action === 'export-reporting-pdf'
+      const format = getJobExportFormat(job)
       const isReport = job.action.includes('reporting')
-      const ext = isPdf ? 'pdf' : 'xlsx'
-      const fileName = isReport
-        ? `packaging_report_${date}.${ext}`
-        : `products_export_${date}.xlsx`
+      const ext = EXPORT_FILE_TYPES[format].extension
+      const fileName = job.action === 'export-reporting-receiving'
+        ? `receiving_report_${date}.${ext}`
+        : job.action.startsWith('export-reporting-stocktake')
+          ? `stocktake_report_${date}.${ext}`
+          : isReport
+            ? `packaging_report_${date}.${ext}`
+            : `products_export_${date}.${ext}`
       await downloadExport.mutateAsync({
         fileId: job.result_file_id,
         fileName,
+        format,
       })
     }
   }
@@ -80,10 +88,10 @@ export function JobIndicator() {
 
   const getActionIcon = (action: string | null) => {
     if (!action) return null
-    if (action === 'import-excel') {
+    if (action === 'import-excel' || action === 'import-prealerts') {
       return <FileUp className="size-4" />
     }
-    if (action === 'export-excel') {
+    if (action === 'export-excel' || action === 'export-csv' || action === 'export-json') {
       return <Download className="size-4" />
     }
     if (action.includes('reporting')) {
@@ -151,15 +159,23 @@ export function JobIndicator() {
                               className={`inline-flex items-center gap-1 rounded-full px-1.5 py-0.5 text-xs font-medium ${getJobStatusColor(job.status)}`}
                             >
                               {getStatusIcon(job.status)}
-                              {t(`jobs.status.${job.status}`)}
+                              {t(getJobStatusKey(job))}
                             </span>
                           </div>
                           <div className="text-xs text-muted-foreground mt-1">
                             {job.action === 'import-excel'
                               ? t('jobs.import')
-                              : job.action?.includes('reporting')
-                                ? t('jobs.reportExport')
-                                : t('jobs.export')}
+                              : job.action === 'import-prealerts'
+                                ? t('jobs.prealertImport')
+                                : job.action === 'export-reporting-receiving'
+                                  ? t('jobs.receivingExport')
+                                  : job.action?.startsWith('export-reporting-stocktake')
+                                    ? t('jobs.stocktakeExport')
+                                    : job.action === 'export-reporting-email'
+                                      ? t('jobs.reportEmail')
+                                      : job.action?.includes('reporting')
+                                        ? t('jobs.reportExport')
+                                        : t('jobs.export')}
                             {' • '}
                             {formatDistanceToNow(new Date(job.created_at), { addSuffix: true })}
                           </div>
@@ -175,7 +191,7 @@ export function JobIndicator() {
                           )}
                           {job.status === 'completed' &&
                             job.action &&
-                            (job.action === 'export-excel' || job.action.includes('reporting')) &&
+                            job.action.startsWith('export-') &&
                             job.result_file_id && (
                               <button
                                 onClick={() => handleDownload(job)}
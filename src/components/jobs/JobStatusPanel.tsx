@@ -12,10 +12,13 @@ import {
 import { Button } from '@/components/ui/button'
 import {
   formatJobStats,
+  getJobExportFormat,
   getJobStatusColor,
+  getJobStatusKey,
   useDownloadExport,
 } from '@/hooks/use-jobs'
 import type { ParsedJob } from '@/types/job'
+import { EXPORT_FILE_TYPES } from '@/types/job'
 
 interface JobStatusPanelProps {
   jobs: ParsedJob[]
@@ -68,9 +71,11 @@ export function JobStatusPanel({ jobs, isLoading }: JobStatusPanelProps) {
   const handleDownload = async (job: ParsedJob) => {
     if (job.result_file_id) {
       const date = new Date(job.created_at).toISOString().split('T')[0]
+      const format = getJobExportFormat(job)
       await downloadExport.mutateAsync({
         fileId: job.result_file_id,
-        fileName: `products_export_${date}.xlsx`,
+        fileName: `products_export_${date}.${EXPORT_FILE_TYPES[format].extension}`,
+        format,
       })
     }
   }
@@ -94,14 +99,22 @@ export function JobStatusPanel({ jobs, isLoading }: JobStatusPanelProps) {
                     className={`inline-flex items-center gap-1 rounded-full px-2 py-0.5 text-xs font-medium ${getJobStatusColor(job.status)}`}
                   >
                     {getStatusIcon(job.status)}
-                    {t(`jobs.status.${job.status}`)}
+                    {t(getJobStatusKey(job))}
                   </span>
                   <span className="text-xs text-muted-foreground">
                     {job.action === 'import-excel'
                       ? t('jobs.import')
-                      : job.action?.includes('reporting')
-                        ? t('jobs.reportExport')
-                        : t('jobs.export')}
+                      : job.action === 'import-prealerts'
+                        ? t('jobs.prealertImport')
+                        : job.action === 'export-reporting-receiving'
+                          ? t('jobs.receivingExport')
+                          : job.action?.startsWith('export-reporting-stocktake')
+                            ? t('jobs.stocktakeExport')
+                            : job.action === 'export-reporting-email'
+                              ? t('jobs.reportEmail')
+                              : job.action?.includes('reporting')
+                                ? t('jobs.reportExport')
+                                : t('jobs.export')}
                   </span>
                 </div>
                 <div className="mt-1 text-xs text-muted-foreground">
@@ -123,7 +136,7 @@ export function JobStatusPanel({ jobs, isLoading }: JobStatusPanelProps) {
             </div>
             {job.status === 'completed' &&
               job.action &&
-              (job.action === 'export-excel' || job.action.includes('reporting')) &&
+              job.action.startsWith('export-') &&
               job.result_file_id && (
                 <Button
                   variant="outline"
@@ -0,0 +1,146 @@
+import { useEffect, useRef, useState, type ReactNode } from 'react'
+import { useTranslation } from 'react-i18next'
+import { BrowserMultiFormatReader, type IScannerControls } from '@zxing/browser'
+import { BarcodeFormat, DecodeHintType } from '@zxing/library'
+import { CameraOff } from 'lucide-react'
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { playScanFeedback } from '@/lib/scan-feedback'
+
+// Barcode types printed on products and courier waybills
+const SUPPORTED_FORMATS = [
+  BarcodeFormat.EAN_13,
+  BarcodeFormat.UPC_A,
+  BarcodeFormat.CODE_128,
+  BarcodeFormat.QR_CODE,
+]
+
+// A code still in view is not scanned again until it has been out of
+// view this long, so holding the camera still does not repeat the scan
+const RESCAN_COOLDOWN_MS = 1500
+
+interface CameraScannerProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onScan: (code: string) => void | Promise<void>
+  title: string
+  description?: string
+  children?: ReactNode // Footer actions
+}
+
+export function CameraScanner({
+  open,
+  onOpenChange,
+  onScan,
+  title,
+  description,
+  children,
+}: CameraScannerProps) {
+  const { t } = useTranslation()
+  // State rather than a ref: the dialog mounts its content after opening
+  const [video, setVideo] = useState<HTMLVideoElement | null>(null)
+  const onScanRef = useRef(onScan)
+  const [cameraError, setCameraError] = useState<'denied' | 'unavailable' | null>(null)
+
+  useEffect(() => {
+    onScanRef.current = onScan
+  }, [onScan])
+
+  // Decode continuously from the rear camera while open
+  useEffect(() => {
+    if (!open || !video) return
+
+    let controls: IScannerControls | null = null
+    let cancelled = false
+    let busy = false
+    let lastSeen = { code: '', at: 0 }
+
+    const reader = new BrowserMultiFormatReader(
+      new Map([[DecodeHintType.POSSIBLE_FORMATS, SUPPORTED_FORMATS]])
+    )
+
+    reader
+      .decodeFromConstraints(
+        { video: { facingMode: 'environment' } },
+        video,
+        (result) => {
+          if (!result || busy) return
+
+          const code = result.getText().trim()
+          const now = Date.now()
+          const isRepeat = code === lastSeen.code && now - lastSeen.at < RESCAN_COOLDOWN_MS
+          lastSeen = { code, at: now }
+          if (!code || isRepeat) return
+
+          // One scan at a time; the handler may look the code up
+          busy = true
+          playScanFeedback()
+          Promise.resolve(onScanRef.current(code))
+            .catch((error) => console.error('Error handling camera scan:', error))
+            .finally(() => {
+              busy = false
+            })
+        }
+      )
+      .then((scannerControls) => {
+        if (cancelled) {
+          scannerControls.stop()
+        } else {
+          controls = scannerControls
+        }
+      })
+      .catch((error) => {
+        console.error('Error starting camera:', error)
+        if (!cancelled) {
+          setCameraError(error instanceof Error && error.name === 'NotAllowedError' ? 'denied' : 'unavailable')
+        }
+      })
+
+    return () => {
+      cancelled = true
+      controls?.stop()
+    }
+  }, [open, video])
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) setCameraError(null)
+    onOpenChange(isOpen)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          {description && <DialogDescription>{description}</DialogDescription>}
+        </DialogHeader>
+
+        <div className="relative overflow-hidden rounded-md bg-black">
+          <video
+            ref={setVideo}
+            className="aspect-square w-full object-cover"
+            muted
+            playsInline
+          />
+          {cameraError && (
+            <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 p-4 text-center text-sm text-white">
+              <CameraOff className="size-6" />
+              {cameraError === 'denied'
+                ? t('packaging.cameraDenied')
+                : t('packaging.cameraUnavailable')}
+            </div>
+          )}
+        </div>
+
+        {children && <DialogFooter>{children}</DialogFooter>}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,200 @@
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { format } from 'date-fns'
+import { Loader2, RefreshCw, Trash2 } from 'lucide-react'
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import type { QueuedWaybill } from '@/types/offline'
+
+interface PendingSyncDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  queue: QueuedWaybill[]
+  isOnline: boolean
+  isSyncing: boolean
+  catalogRefreshedAt: string | null
+  onSync: () => void
+  onRetry: (idempotencyKey: string) => void
+  onDiscard: (idempotencyKey: string) => void
+}
+
+const STATUS_CLASSES: Record<QueuedWaybill['status'], string> = {
+  pending: 'text-amber-600',
+  conflict: 'text-destructive',
+  failed: 'text-destructive',
+}
+
+export function PendingSyncDialog({
+  open,
+  onOpenChange,
+  queue,
+  isOnline,
+  isSyncing,
+  catalogRefreshedAt,
+  onSync,
+  onRetry,
+  onDiscard,
+}: PendingSyncDialogProps) {
+  const { t } = useTranslation()
+  const [discardWaybill, setDiscardWaybill] = useState<QueuedWaybill | null>(null)
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="sm:max-w-[720px] max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{t('offlineSync.title')}</DialogTitle>
+            <DialogDescription>
+              {isOnline ? t('offlineSync.online') : t('offlineSync.offline')}
+              {' · '}
+              {catalogRefreshedAt
+                ? t('offlineSync.catalogCached', {
+                    time: format(new Date(catalogRefreshedAt), 'yyyy-MM-dd HH:mm'),
+                  })
+                : t('offlineSync.catalogMissing')}
+            </DialogDescription>
+          </DialogHeader>
+
+          {queue.length === 0 ? (
+            <p className="text-muted-foreground py-6 text-center text-sm">
+              {t('offlineSync.empty')}
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t('packaging.waybill')}</TableHead>
+                  <TableHead>{t('offlineSync.date')}</TableHead>
+                  <TableHead className="text-right">{t('offlineSync.items')}</TableHead>
+                  <TableHead>{t('offlineSync.status')}</TableHead>
+                  <TableHead className="w-[1%]" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {queue.map((waybill) => (
+                  <TableRow key={waybill.idempotency_key} className="align-top">
+                    <TableCell className="font-mono">{waybill.record.waybill_number}</TableCell>
+                    <TableCell>{waybill.record.packaging_date}</TableCell>
+                    <TableCell className="text-right">{waybill.items.length}</TableCell>
+                    <TableCell>
+                      <div className={STATUS_CLASSES[waybill.status]}>
+                        {t(`offlineSync.statuses.${waybill.status}`)}
+                      </div>
+                      {waybill.status === 'conflict' && (
+                        <ul className="text-muted-foreground mt-1 space-y-0.5 text-xs">
+                          {waybill.conflicts.map((conflict) => (
+                            <li key={conflict.product_id}>
+                              {t('offlineSync.conflictLine', {
+                                name: conflict.name,
+                                barcode: conflict.barcode,
+                                required: conflict.required,
+                                expected: conflict.expected,
+                                available: conflict.available,
+                              })}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                      {waybill.last_error && (
+                        <div className="text-muted-foreground mt-1 text-xs">
+                          {t('offlineSync.lastError', {
+                            attempts: waybill.attempts,
+                            error: waybill.last_error,
+                          })}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-1">
+                        {waybill.status !== 'pending' && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => onRetry(waybill.idempotency_key)}
+                          >
+                            {waybill.status === 'conflict'
+                              ? t('offlineSync.syncAnyway')
+                              : t('offlineSync.retry')}
+                          </Button>
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setDiscardWaybill(waybill)}
+                          title={t('offlineSync.discard')}
+                        >
+                          <Trash2 className="size-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          <DialogFooter>
+            <Button onClick={onSync} disabled={!isOnline || isSyncing || queue.length === 0}>
+              {isSyncing ? (
+                <Loader2 className="mr-2 size-4 animate-spin" />
+              ) : (
+                <RefreshCw className="mr-2 size-4" />
+              )}
+              {t('offlineSync.syncNow')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!discardWaybill} onOpenChange={(isOpen) => !isOpen && setDiscardWaybill(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t('offlineSync.discardTitle')}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t('offlineSync.discardDescription', {
+                waybill: discardWaybill?.record.waybill_number,
+              })}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t('common.cancel')}</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (discardWaybill) onDiscard(discardWaybill.idempotency_key)
+                setDiscardWaybill(null)
+              }}
+            >
+              {t('offlineSync.discard')}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  )
+}
@@ -0,0 +1,49 @@
+import { useTranslation } from 'react-i18next'
+import { Check, ClipboardList } from 'lucide-react'
+
+import type { PrealertCheck, PrealertLineStatus } from '@/types/prealert'
+
+interface PrealertChecklistProps {
+  check: PrealertCheck
+  orderReference: string | null
+}
+
+const STATUS_CLASSES: Record<PrealertLineStatus, string> = {
+  short: 'text-amber-600',
+  matched: 'text-green-600',
+  over: 'text-destructive',
+  wrong: 'text-destructive',
+}
+
+export function PrealertChecklist({ check, orderReference }: PrealertChecklistProps) {
+  const { t } = useTranslation()
+
+  return (
+    <div className="rounded-lg border bg-muted/30 p-3">
+      <div className="mb-2 flex items-center gap-2 text-sm font-medium">
+        <ClipboardList className="size-4" />
+        {t('packaging.prealertChecklist')}
+        {orderReference && (
+          <span className="text-muted-foreground font-mono text-xs">{orderReference}</span>
+        )}
+        {check.matches && <Check className="size-4 text-green-600" />}
+      </div>
+      <ul className="flex flex-col gap-1 text-sm">
+        {check.lines.map((line) => (
+          <li key={line.barcode} className="flex items-center gap-2">
+            <span className="min-w-0 flex-1 truncate">
+              {line.productName ?? t('packaging.prealertUnknownProduct')}
+              <span className="text-muted-foreground ml-2 font-mono text-xs">{line.barcode}</span>
+            </span>
+            <span className="font-mono tabular-nums">
+              {line.scanned}/{line.expected}
+            </span>
+            <span className={`w-24 text-right text-xs font-medium ${STATUS_CLASSES[line.status]}`}>
+              {t(`packaging.prealertStatus.${line.status}`)}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,83 @@
+import { useTranslation } from 'react-i18next'
+import { Plus, X } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import type { ProductBarcodeInput } from '@/types/product'
+
+interface BarcodeAliasesFieldProps {
+  value: ProductBarcodeInput[]
+  onChange: (aliases: ProductBarcodeInput[]) => void
+  disabled?: boolean
+}
+
+export function BarcodeAliasesField({
+  value,
+  onChange,
+  disabled = false,
+}: BarcodeAliasesFieldProps) {
+  const { t } = useTranslation()
+
+  const handleChange = (index: number, changes: Partial<ProductBarcodeInput>) => {
+    onChange(value.map((alias, i) => (i === index ? { ...alias, ...changes } : alias)))
+  }
+
+  const handleRemove = (index: number) => {
+    onChange(value.filter((_, i) => i !== index))
+  }
+
+  return (
+    <div className="space-y-3">
+      <Label>{t('productForm.alternateBarcodes')}</Label>
+      <div className="space-y-2">
+        {value.map((alias, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <Input
+              value={alias.barcode}
+              onChange={(e) => handleChange(index, { barcode: e.target.value })}
+              placeholder={t('productForm.alternateBarcodePlaceholder')}
+              disabled={disabled}
+              autoComplete="off"
+              className="flex-1"
+            />
+            <Input
+              type="number"
+              min="1"
+              step="1"
+              value={alias.pack_quantity}
+              onChange={(e) => handleChange(index, { pack_quantity: e.target.valueAsNumber || 1 })}
+              disabled={disabled}
+              className="w-24"
+              aria-label={t('productForm.packQuantity')}
+              title={t('productForm.packQuantity')}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => handleRemove(index)}
+              disabled={disabled}
+              className="shrink-0 text-destructive hover:text-destructive"
+            >
+              <X className="size-4" />
+            </Button>
+          </div>
+        ))}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange([...value, { barcode: '', pack_quantity: 1 }])}
+          disabled={disabled}
+        >
+          <Plus className="mr-2 size-4" />
+          {t('productForm.addAlternateBarcode')}
+        </Button>
+      </div>
+      <p className="text-muted-foreground text-sm">
+        {t('productForm.alternateBarcodesHint')}
+      </p>
+    </div>
+  )
+}
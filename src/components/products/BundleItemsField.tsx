@@ -6,17 +6,21 @@ import { Label } from '@/components/ui/label'
 import { ProductCombobox } from './ProductCombobox'
 
 interface BundleItemsFieldProps {
+  bundleId?: string // The bundle being edited, which can't contain itself
   value: string[]
   onChange: (productIds: string[]) => void
   disabled?: boolean
 }
 
 export function BundleItemsField({
+  bundleId,
   value,
   onChange,
   disabled = false,
 }: BundleItemsFieldProps) {
   const { t } = useTranslation()
+  const disabledProductIds = bundleId ? [bundleId] : []
+
   const handleSelect = (index: number, productId: string | undefined) => {
     const newValue = [...value]
 
@@ -49,6 +53,7 @@ export function BundleItemsField({
               <ProductCombobox
                 value={productId}
                 onSelect={(id) => handleSelect(index, id)}
+                disabledProductIds={disabledProductIds}
                 disabled={disabled}
               />
             </div>
@@ -69,6 +74,7 @@ export function BundleItemsField({
             <ProductCombobox
               value={undefined}
               onSelect={(id) => handleSelect(value.length, id)}
+              disabledProductIds={disabledProductIds}
               disabled={disabled}
               placeholder={t('productForm.addProductToBundle')}
             />
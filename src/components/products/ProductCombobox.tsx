@@ -38,6 +38,7 @@ export function ProductCombobox({
   const { t } = useTranslation()
   const [open, setOpen] = useState(false)
   const [products, setProducts] = useState<Product[]>([])
+  const [buildableQuantities, setBuildableQuantities] = useState<Map<string, number>>(new Map())
   const [selectedProductData, setSelectedProductData] = useState<Product | null>(null)
   const [isLoading, setIsLoading] = useState(false)
   const [searchQuery, setSearchQuery] = useState('')
@@ -49,11 +50,16 @@ export function ProductCombobox({
   const fetchProducts = useCallback(async () => {
     try {
       setIsLoading(true)
+      // Bundles can contain other bundles
       const result = await productService.list({
-        type: 'single',
         limit: 100,
       })
       setProducts(result.documents)
+      setBuildableQuantities(
+        await productService.getBuildableQuantities(
+          result.documents.filter((product) => product.type === 'bundle')
+        )
+      )
     } catch (err) {
       console.error('Error fetching products:', err)
     } finally {
@@ -155,6 +161,9 @@ export function ProductCombobox({
                         <span>{product.name}</span>
                         <span className="text-muted-foreground text-xs font-mono">
                           {product.barcode}
+                          {product.type === 'bundle' && ` · ${t('products.bundle')}`}
+                          {buildableQuantities.has(product.$id) &&
+                            ` · ${t('products.buildable', { count: buildableQuantities.get(product.$id) })}`}
                         </span>
                       </div>
                     </CommandItem>
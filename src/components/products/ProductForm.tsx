@@ -4,6 +4,7 @@ import { useTranslation } from 'react-i18next'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { z } from 'zod'
 
+import { BarcodeAliasesField } from '@/components/products/BarcodeAliasesField'
 import { BundleItemsField } from '@/components/products/BundleItemsField'
 import { Barcode } from '@/components/ui/barcode'
 import { Button } from '@/components/ui/button'
@@ -23,7 +24,8 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select'
-import type { Product, ProductType } from '@/types/product'
+import { productService } from '@/lib/appwrite'
+import type { Product, ProductBarcodeInput, ProductType } from '@/types/product'
 
 const productFormSchema = z.object({
   barcode: z
@@ -40,19 +42,25 @@ type FormValues = z.infer<typeof productFormSchema>
 
 export interface ProductFormValues extends FormValues {
   bundleItems: string[]
+  barcodeAliases: ProductBarcodeInput[]
 }
 
 interface ProductFormProps {
   product?: Product | null
   initialBundleItems?: string[]
+  initialBarcodeAliases?: ProductBarcodeInput[]
   onSubmit: (data: ProductFormValues) => Promise<void>
   onCancel: () => void
   isLoading?: boolean
 }
 
+// Stable default, so the reset effect below doesn't run on every render
+const NO_BARCODE_ALIASES: ProductBarcodeInput[] = []
+
 export function ProductForm({
   product,
   initialBundleItems = [],
+  initialBarcodeAliases = NO_BARCODE_ALIASES,
   onSubmit,
   onCancel,
   isLoading = false,
@@ -64,6 +72,8 @@ export function ProductForm({
 
   const [bundleItems, setBundleItems] = useState<string[]>(initialBundleItems)
   const [bundleError, setBundleError] = useState<string | null>(null)
+  const [barcodeAliases, setBarcodeAliases] = useState<ProductBarcodeInput[]>(initialBarcodeAliases)
+  const [aliasError, setAliasError] = useState<string | null>(null)
 
   const form = useForm<FormValues>({
     resolver: zodResolver(productFormSchema),
@@ -91,6 +101,11 @@ export function ProductForm({
     setBundleItems(initialBundleItems)
   }, [initialBundleItems])
 
+  // Reset alternate barcodes when initialBarcodeAliases changes
+  useEffect(() => {
+    setBarcodeAliases(initialBarcodeAliases)
+  }, [initialBarcodeAliases])
+
   // Focus barcode input on mount
   useEffect(() => {
     if (!product) {
@@ -148,10 +163,38 @@ export function ProductForm({
       return
     }
 
+    // Nested bundles can't lead back to this bundle
+    if (data.type === 'bundle') {
+      try {
+        await productService.validateBundleComponents(
+          { $id: product?.$id, name: data.name },
+          bundleItems
+        )
+      } catch (err) {
+        setBundleError(err instanceof Error ? err.message : t('productForm.bundleCycle'))
+        return
+      }
+    }
+
+    // Blank rows are dropped; a barcode can't be listed twice or be the product's own
+    const aliases = barcodeAliases
+      .map((alias) => ({ ...alias, barcode: alias.barcode.trim() }))
+      .filter((alias) => alias.barcode)
+    const aliasBarcodes = aliases.map((alias) => alias.barcode)
+    if (
+      aliasBarcodes.includes(data.barcode.trim()) ||
+      new Set(aliasBarcodes).size !== aliasBarcodes.length
+    ) {
+      setAliasError(t('productForm.alternateBarcodeDuplicate'))
+      return
+    }
+
     setBundleError(null)
+    setAliasError(null)
     await onSubmit({
       ...data,
       bundleItems: data.type === 'bundle' ? bundleItems : [],
+      barcodeAliases: aliases,
     })
   }
 
@@ -296,6 +339,7 @@ export function ProductForm({
         {selectedType === 'bundle' && (
           <div className="space-y-2">
             <BundleItemsField
+              bundleId={product?.$id}
               value={bundleItems}
               onChange={handleBundleItemsChange}
               disabled={isLoading}
@@ -306,6 +350,17 @@ export function ProductForm({
           </div>
         )}
 
+        <div className="space-y-2">
+          <BarcodeAliasesField
+            value={barcodeAliases}
+            onChange={setBarcodeAliases}
+            disabled={isLoading}
+          />
+          {aliasError && (
+            <p className="text-sm font-medium text-destructive">{aliasError}</p>
+          )}
+        </div>
+
         <div className="flex justify-end gap-2 pt-4">
           <Button
             type="button"
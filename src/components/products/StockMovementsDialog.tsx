@@ -0,0 +1,137 @@
+import { useTranslation } from 'react-i18next'
+import { format } from 'date-fns'
+import { Loader2, ScanSearch } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { useStockLedgerCheck, useStockMovements } from '@/hooks/use-stock-movements'
+import type { Product } from '@/types/product'
+
+interface StockMovementsDialogProps {
+  product: Product | null
+  onOpenChange: (open: boolean) => void
+}
+
+export function StockMovementsDialog({ product, onOpenChange }: StockMovementsDialogProps) {
+  const { t } = useTranslation()
+  const { data, isLoading } = useStockMovements(product?.$id ?? null)
+  const ledgerCheck = useStockLedgerCheck()
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) ledgerCheck.reset()
+    onOpenChange(open)
+  }
+
+  const check = ledgerCheck.data
+
+  return (
+    <Dialog open={!!product} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[640px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t('stockMovements.title')}</DialogTitle>
+          <DialogDescription>
+            {product?.name} ({product?.barcode}) · {t('products.stock')}: {product?.stock_quantity ?? 0}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center justify-between gap-2">
+          <div className="text-sm">
+            {check && (
+              <span className={check.drift === 0 ? 'text-green-600' : 'text-destructive'}>
+                {check.drift === 0
+                  ? t('stockMovements.noDrift', { count: check.movement_count })
+                  : t('stockMovements.drift', {
+                      drift: check.drift > 0 ? `+${check.drift}` : check.drift,
+                      rebuilt: check.rebuilt_quantity,
+                      current: check.current_quantity,
+                    })}
+                {check.gaps > 0 && ` ${t('stockMovements.gaps', { count: check.gaps })}`}
+              </span>
+            )}
+            {ledgerCheck.isError && (
+              <span className="text-destructive">{t('stockMovements.checkError')}</span>
+            )}
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={!product || ledgerCheck.isPending}
+            onClick={() => product && ledgerCheck.mutate(product.$id)}
+          >
+            {ledgerCheck.isPending ? (
+              <Loader2 className="mr-2 size-4 animate-spin" />
+            ) : (
+              <ScanSearch className="mr-2 size-4" />
+            )}
+            {t('stockMovements.checkDrift')}
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="text-muted-foreground size-6 animate-spin" />
+          </div>
+        ) : !data || data.documents.length === 0 ? (
+          <p className="text-muted-foreground py-8 text-center text-sm">
+            {t('stockMovements.noMovements')}
+          </p>
+        ) : (
+          <Table>
+            <TableHeader className="bg-muted/50">
+              <TableRow>
+                <TableHead className="w-40">{t('common.date')}</TableHead>
+                <TableHead>{t('stockMovements.reason')}</TableHead>
+                <TableHead className="w-20 text-right">{t('stockMovements.change')}</TableHead>
+                <TableHead className="w-20 text-right">{t('products.stock')}</TableHead>
+                <TableHead>{t('stockMovements.source')}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {data.documents.map((movement) => (
+                <TableRow key={movement.$id}>
+                  <TableCell className="text-muted-foreground text-sm">
+                    {format(new Date(movement.$createdAt), 'PPp')}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {t(`stockMovements.reasons.${movement.reason}`)}
+                  </TableCell>
+                  <TableCell
+                    className={`text-right font-mono text-sm ${movement.delta < 0 ? 'text-destructive' : 'text-green-600'}`}
+                  >
+                    {movement.delta > 0 ? `+${movement.delta}` : movement.delta}
+                  </TableCell>
+                  <TableCell className="text-right font-mono text-sm">
+                    {movement.resulting_quantity}
+                  </TableCell>
+                  <TableCell className="text-muted-foreground font-mono text-xs">
+                    {movement.source_id ?? '-'}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {data && data.total > data.documents.length && (
+          <p className="text-muted-foreground text-center text-xs">
+            {t('stockMovements.showingLatest', { count: data.documents.length, total: data.total })}
+          </p>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,412 @@
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { toast } from 'sonner'
+import { CalendarClock, Loader2, Pause, Play, Plus, Trash2 } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { EmailRecipientInput } from '@/components/EmailRecipientInput'
+import { useAuth } from '@/contexts/AuthContext'
+import {
+  useCreateReportSchedule,
+  useDeleteReportSchedule,
+  useReportSchedules,
+  useUpdateReportSchedule,
+} from '@/hooks/use-report-schedules'
+import { parseRecipients } from '@/lib/appwrite/report-schedules'
+import { formatDateTime } from '@/lib/utils'
+import {
+  REPORT_SCHEDULE_FREQUENCIES,
+  REPORT_SCHEDULE_RANGES,
+  type CreateReportScheduleInput,
+  type ReportSchedule,
+} from '@/types/report-schedule'
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour)
+const DAYS_OF_WEEK = [1, 2, 3, 4, 5, 6, 0] // Monday first
+const DAYS_OF_MONTH = Array.from({ length: 28 }, (_, i) => i + 1)
+
+const EMPTY_FORM: CreateReportScheduleInput = {
+  name: '',
+  frequency: 'daily',
+  date_range: 'yesterday',
+  format: 'pdf',
+  recipients: [],
+  hour: 8,
+  day_of_week: 1,
+  day_of_month: 1,
+}
+
+function formatHour(hour: number): string {
+  return `${String(hour).padStart(2, '0')}:00`
+}
+
+export function ReportSchedulesCard() {
+  const { t } = useTranslation()
+  const { user } = useAuth()
+  const { data: schedules = [], isLoading } = useReportSchedules()
+  const createSchedule = useCreateReportSchedule()
+  const updateSchedule = useUpdateReportSchedule()
+  const deleteSchedule = useDeleteReportSchedule()
+
+  const [isCreateOpen, setIsCreateOpen] = useState(false)
+  const [form, setForm] = useState<CreateReportScheduleInput>(EMPTY_FORM)
+  const [deleting, setDeleting] = useState<ReportSchedule | null>(null)
+
+  const setField = <K extends keyof CreateReportScheduleInput>(key: K, value: CreateReportScheduleInput[K]) =>
+    setForm((current) => ({ ...current, [key]: value }))
+
+  const describeTiming = (schedule: ReportSchedule): string => {
+    const time = formatHour(schedule.hour)
+    if (schedule.frequency === 'weekly') {
+      return t('reportSchedules.timing.weekly', {
+        day: t(`reportSchedules.days.${schedule.day_of_week ?? 1}`),
+        time,
+      })
+    }
+    if (schedule.frequency === 'monthly') {
+      return t('reportSchedules.timing.monthly', { day: schedule.day_of_month ?? 1, time })
+    }
+    return t('reportSchedules.timing.daily', { time })
+  }
+
+  const handleCreate = async () => {
+    if (!user) return
+
+    try {
+      await createSchedule.mutateAsync({ data: form, owner: { id: user.$id, name: user.name || user.email } })
+      toast.success(t('reportSchedules.created'))
+      setIsCreateOpen(false)
+      setForm(EMPTY_FORM)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('reportSchedules.saveFailed'))
+    }
+  }
+
+  const handleToggle = async (schedule: ReportSchedule) => {
+    try {
+      await updateSchedule.mutateAsync({ id: schedule.$id, data: { enabled: !schedule.enabled } })
+      toast.success(t(schedule.enabled ? 'reportSchedules.paused' : 'reportSchedules.resumed'))
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('reportSchedules.saveFailed'))
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!deleting) return
+
+    try {
+      await deleteSchedule.mutateAsync(deleting.$id)
+      toast.success(t('reportSchedules.deleted'))
+      setDeleting(null)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('reportSchedules.deleteFailed'))
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle>{t('reportSchedules.title')}</CardTitle>
+            <CardDescription>{t('reportSchedules.description')}</CardDescription>
+          </div>
+          <Button size="sm" onClick={() => setIsCreateOpen(true)}>
+            <Plus className="size-4" />
+            {t('reportSchedules.add')}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="size-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : schedules.length === 0 ? (
+          <p className="text-muted-foreground text-sm text-center py-6">{t('reportSchedules.empty')}</p>
+        ) : (
+          <div className="space-y-3">
+            {schedules.map((schedule) => (
+              <div key={schedule.$id} className="rounded-lg border p-3">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0 flex-1 space-y-1">
+                    <p className="flex items-center gap-2 font-medium">
+                      <CalendarClock className="size-4 shrink-0 text-muted-foreground" />
+                      <span className="truncate">{schedule.name}</span>
+                      {!schedule.enabled && (
+                        <span className="rounded bg-muted px-1.5 py-0.5 text-xs font-normal text-muted-foreground">
+                          {t('reportSchedules.pausedBadge')}
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {describeTiming(schedule)} · {t(`reportSchedules.ranges.${schedule.date_range}`)} ·{' '}
+                      {t(`reportSchedules.formats.${schedule.format}`)}
+                    </p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {parseRecipients(schedule).join(', ')}
+                    </p>
+                    {schedule.enabled && schedule.next_run_at && (
+                      <p className="text-xs text-muted-foreground">
+                        {t('reportSchedules.nextRun', { time: formatDateTime(schedule.next_run_at) })}
+                      </p>
+                    )}
+                    {schedule.last_run_at && (
+                      <p
+                        className={
+                          schedule.last_run_status === 'failed'
+                            ? 'text-xs text-destructive'
+                            : schedule.last_run_status === 'no_data'
+                              ? 'text-xs text-muted-foreground'
+                              : 'text-xs text-green-600'
+                        }
+                      >
+                        {schedule.last_run_status === 'failed'
+                          ? t('reportSchedules.lastRunFailed', {
+                              time: formatDateTime(schedule.last_run_at),
+                              error: schedule.last_run_error ?? '',
+                            })
+                          : schedule.last_run_status === 'no_data'
+                            ? t('reportSchedules.lastRunNoData', { time: formatDateTime(schedule.last_run_at) })
+                            : t('reportSchedules.lastRunSucceeded', { time: formatDateTime(schedule.last_run_at) })}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex gap-1">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleToggle(schedule)}
+                      disabled={updateSchedule.isPending}
+                      title={t(schedule.enabled ? 'reportSchedules.pause' : 'reportSchedules.resume')}
+                    >
+                      {schedule.enabled ? <Pause className="size-4" /> : <Play className="size-4" />}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setDeleting(schedule)}
+                      title={t('common.delete')}
+                    >
+                      <Trash2 className="size-4 text-destructive" />
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      {/* Create Schedule Dialog */}
+      <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        <DialogContent className="sm:max-w-[520px]">
+          <DialogHeader>
+            <DialogTitle>{t('reportSchedules.createTitle')}</DialogTitle>
+            <DialogDescription>{t('reportSchedules.createDescription')}</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="schedule-name">{t('reportSchedules.name')}</Label>
+              <Input
+                id="schedule-name"
+                value={form.name}
+                onChange={(e) => setField('name', e.target.value)}
+                placeholder={t('reportSchedules.namePlaceholder')}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>{t('reportSchedules.frequency')}</Label>
+                <Select
+                  value={form.frequency}
+                  onValueChange={(value) => setField('frequency', value as CreateReportScheduleInput['frequency'])}
+                >
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {REPORT_SCHEDULE_FREQUENCIES.map((frequency) => (
+                      <SelectItem key={frequency} value={frequency}>
+                        {t(`reportSchedules.frequencies.${frequency}`)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>{t('reportSchedules.time')}</Label>
+                <Select value={String(form.hour)} onValueChange={(value) => setField('hour', Number(value))}>
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {HOURS.map((hour) => (
+                      <SelectItem key={hour} value={String(hour)}>
+                        {formatHour(hour)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {form.frequency === 'weekly' && (
+              <div className="space-y-2">
+                <Label>{t('reportSchedules.dayOfWeek')}</Label>
+                <Select
+                  value={String(form.day_of_week)}
+                  onValueChange={(value) => setField('day_of_week', Number(value))}
+                >
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DAYS_OF_WEEK.map((day) => (
+                      <SelectItem key={day} value={String(day)}>
+                        {t(`reportSchedules.days.${day}`)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {form.frequency === 'monthly' && (
+              <div className="space-y-2">
+                <Label>{t('reportSchedules.dayOfMonth')}</Label>
+                <Select
+                  value={String(form.day_of_month)}
+                  onValueChange={(value) => setField('day_of_month', Number(value))}
+                >
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DAYS_OF_MONTH.map((day) => (
+                      <SelectItem key={day} value={String(day)}>
+                        {day}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>{t('reportSchedules.dateRange')}</Label>
+                <Select
+                  value={form.date_range}
+                  onValueChange={(value) => setField('date_range', value as CreateReportScheduleInput['date_range'])}
+                >
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {REPORT_SCHEDULE_RANGES.map((range) => (
+                      <SelectItem key={range} value={range}>
+                        {t(`reportSchedules.ranges.${range}`)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>{t('reportSchedules.format')}</Label>
+                <Select
+                  value={form.format}
+                  onValueChange={(value) => setField('format', value as CreateReportScheduleInput['format'])}
+                >
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="pdf">{t('reportSchedules.formats.pdf')}</SelectItem>
+                    <SelectItem value="excel">{t('reportSchedules.formats.excel')}</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>{t('reportSchedules.recipients')}</Label>
+              <EmailRecipientInput
+                recipients={form.recipients}
+                onChange={(recipients) => setField('recipients', recipients)}
+                placeholder={t('reports.emailPlaceholder')}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsCreateOpen(false)} disabled={createSchedule.isPending}>
+              {t('common.cancel')}
+            </Button>
+            <Button
+              onClick={handleCreate}
+              disabled={createSchedule.isPending || !form.name.trim() || form.recipients.length === 0}
+            >
+              {createSchedule.isPending && <Loader2 className="size-4 animate-spin" />}
+              {t('common.save')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t('reportSchedules.deleteTitle')}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t('reportSchedules.deleteMessage', { name: deleting?.name })}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={deleteSchedule.isPending}>{t('common.cancel')}</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              disabled={deleteSchedule.isPending}
+              className="bg-destructive text-white hover:bg-destructive/90"
+            >
+              {t('common.delete')}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  )
+}
@@ -0,0 +1,377 @@
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { toast } from 'sonner'
+import { LayoutTemplate, Loader2, Pencil, Plus, Trash2 } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { useAuth } from '@/contexts/AuthContext'
+import {
+  useCreateReportTemplate,
+  useDeleteReportTemplate,
+  useReportTemplates,
+  useUpdateReportTemplate,
+} from '@/hooks/use-report-templates'
+import { parseReportDefinition } from '@/lib/appwrite/report-templates'
+import {
+  DEFAULT_REPORT_DEFINITION,
+  REPORT_COLUMNS,
+  REPORT_GROUPINGS,
+  REPORT_SECTIONS,
+  REPORT_SORT_KEYS,
+  type CreateReportTemplateInput,
+  type ReportDefinition,
+  type ReportTemplate,
+} from '@/types/report-template'
+
+const EMPTY_FORM: CreateReportTemplateInput = {
+  name: '',
+  definition: DEFAULT_REPORT_DEFINITION,
+}
+
+// Add or remove a value, keeping the order of the full list
+function toggleValue<T extends string>(selected: T[], value: T, all: T[]): T[] {
+  return selected.includes(value)
+    ? selected.filter((entry) => entry !== value)
+    : all.filter((entry) => entry === value || selected.includes(entry))
+}
+
+export function ReportTemplatesCard() {
+  const { t } = useTranslation()
+  const { user } = useAuth()
+  const { data: templates = [], isLoading } = useReportTemplates()
+  const createTemplate = useCreateReportTemplate()
+  const updateTemplate = useUpdateReportTemplate()
+  const deleteTemplate = useDeleteReportTemplate()
+
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const [editing, setEditing] = useState<ReportTemplate | null>(null)
+  const [form, setForm] = useState<CreateReportTemplateInput>(EMPTY_FORM)
+  const [deleting, setDeleting] = useState<ReportTemplate | null>(null)
+
+  const isSaving = createTemplate.isPending || updateTemplate.isPending
+  const { definition } = form
+
+  const setDefinitionField = <K extends keyof ReportDefinition>(key: K, value: ReportDefinition[K]) =>
+    setForm((current) => ({ ...current, definition: { ...current.definition, [key]: value } }))
+
+  const openCreate = () => {
+    setEditing(null)
+    setForm(EMPTY_FORM)
+    setIsDialogOpen(true)
+  }
+
+  const openEdit = (template: ReportTemplate) => {
+    setEditing(template)
+    setForm({ name: template.name, definition: parseReportDefinition(template) })
+    setIsDialogOpen(true)
+  }
+
+  const handleSave = async () => {
+    if (!user) return
+
+    try {
+      if (editing) {
+        await updateTemplate.mutateAsync({ id: editing.$id, data: form })
+        toast.success(t('reportTemplates.updated'))
+      } else {
+        await createTemplate.mutateAsync({ data: form, owner: { id: user.$id, name: user.name || user.email } })
+        toast.success(t('reportTemplates.created'))
+      }
+      setIsDialogOpen(false)
+      setEditing(null)
+      setForm(EMPTY_FORM)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('reportTemplates.saveFailed'))
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!deleting) return
+
+    try {
+      await deleteTemplate.mutateAsync(deleting.$id)
+      toast.success(t('reportTemplates.deleted'))
+      setDeleting(null)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('reportTemplates.deleteFailed'))
+    }
+  }
+
+  const hasDetails = definition.sections.includes('details')
+  const hasBreakdown = definition.sections.includes('breakdown')
+  const canSave =
+    !!form.name.trim() && definition.sections.length > 0 && (!hasDetails || definition.columns.length > 0)
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle>{t('reportTemplates.title')}</CardTitle>
+            <CardDescription>{t('reportTemplates.description')}</CardDescription>
+          </div>
+          <Button size="sm" onClick={openCreate}>
+            <Plus className="size-4" />
+            {t('reportTemplates.add')}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="size-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : templates.length === 0 ? (
+          <p className="text-muted-foreground text-sm text-center py-6">{t('reportTemplates.empty')}</p>
+        ) : (
+          <div className="space-y-3">
+            {templates.map((template) => {
+              const templateDefinition = parseReportDefinition(template)
+
+              return (
+                <div key={template.$id} className="rounded-lg border p-3">
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="min-w-0 flex-1 space-y-1">
+                      <p className="flex items-center gap-2 font-medium">
+                        <LayoutTemplate className="size-4 shrink-0 text-muted-foreground" />
+                        <span className="truncate">{template.name}</span>
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {templateDefinition.sections.includes('breakdown') &&
+                          `${t('reportTemplates.groupedBy', {
+                            grouping: t(`reportTemplates.groupings.${templateDefinition.groupBy}`),
+                          })} · `}
+                        {t(`reportTemplates.bundles.${templateDefinition.bundles}`)}
+                      </p>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {templateDefinition.sections
+                          .map((section) => t(`reportTemplates.sections.${section}`))
+                          .join(', ')}
+                      </p>
+                    </div>
+                    <div className="flex gap-1">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => openEdit(template)}
+                        title={t('reportTemplates.edit')}
+                      >
+                        <Pencil className="size-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setDeleting(template)}
+                        title={t('common.delete')}
+                      >
+                        <Trash2 className="size-4 text-destructive" />
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      {/* Create / Edit Template Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{t(editing ? 'reportTemplates.editTitle' : 'reportTemplates.createTitle')}</DialogTitle>
+            <DialogDescription>{t('reportTemplates.dialogDescription')}</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="template-name">{t('reportTemplates.name')}</Label>
+              <Input
+                id="template-name"
+                value={form.name}
+                onChange={(e) => setForm((current) => ({ ...current, name: e.target.value }))}
+                placeholder={t('reportTemplates.namePlaceholder')}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>{t('reportTemplates.sectionsLabel')}</Label>
+              <div className="flex flex-wrap gap-2">
+                {REPORT_SECTIONS.map((section) => (
+                  <Button
+                    key={section}
+                    type="button"
+                    size="sm"
+                    variant={definition.sections.includes(section) ? 'default' : 'outline'}
+                    onClick={() =>
+                      setDefinitionField('sections', toggleValue(definition.sections, section, REPORT_SECTIONS))
+                    }
+                  >
+                    {t(`reportTemplates.sections.${section}`)}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            {hasBreakdown && (
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label>{t('reportTemplates.groupBy')}</Label>
+                  <Select
+                    value={definition.groupBy}
+                    onValueChange={(value) => setDefinitionField('groupBy', value as ReportDefinition['groupBy'])}
+                  >
+                    <SelectTrigger className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {REPORT_GROUPINGS.map((grouping) => (
+                        <SelectItem key={grouping} value={grouping}>
+                          {t(`reportTemplates.groupings.${grouping}`)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>{t('reportTemplates.sortBy')}</Label>
+                  <Select
+                    value={definition.sortBy}
+                    onValueChange={(value) => setDefinitionField('sortBy', value as ReportDefinition['sortBy'])}
+                  >
+                    <SelectTrigger className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {REPORT_SORT_KEYS.map((sortKey) => (
+                        <SelectItem key={sortKey} value={sortKey}>
+                          {t(`reportTemplates.sortKeys.${sortKey}`)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>{t('reportTemplates.sortDirection')}</Label>
+                  <Select
+                    value={definition.sortDirection}
+                    onValueChange={(value) =>
+                      setDefinitionField('sortDirection', value as ReportDefinition['sortDirection'])
+                    }
+                  >
+                    <SelectTrigger className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="asc">{t('reportTemplates.directions.asc')}</SelectItem>
+                      <SelectItem value="desc">{t('reportTemplates.directions.desc')}</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            )}
+
+            {hasDetails && (
+              <div className="space-y-2">
+                <Label>{t('reportTemplates.columnsLabel')}</Label>
+                <div className="flex flex-wrap gap-2">
+                  {REPORT_COLUMNS.map((column) => (
+                    <Button
+                      key={column}
+                      type="button"
+                      size="sm"
+                      variant={definition.columns.includes(column) ? 'default' : 'outline'}
+                      onClick={() =>
+                        setDefinitionField('columns', toggleValue(definition.columns, column, REPORT_COLUMNS))
+                      }
+                    >
+                      {t(`reportTemplates.columns.${column}`)}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label>{t('reportTemplates.bundlesLabel')}</Label>
+              <Select
+                value={definition.bundles}
+                onValueChange={(value) => setDefinitionField('bundles', value as ReportDefinition['bundles'])}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="as-is">{t('reportTemplates.bundles.as-is')}</SelectItem>
+                  <SelectItem value="exploded">{t('reportTemplates.bundles.exploded')}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)} disabled={isSaving}>
+              {t('common.cancel')}
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving || !canSave}>
+              {isSaving && <Loader2 className="size-4 animate-spin" />}
+              {t('common.save')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t('reportTemplates.deleteTitle')}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t('reportTemplates.deleteMessage', { name: deleting?.name })}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={deleteTemplate.isPending}>{t('common.cancel')}</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              disabled={deleteTemplate.isPending}
+              className="bg-destructive text-white hover:bg-destructive/90"
+            >
+              {t('common.delete')}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  )
+}
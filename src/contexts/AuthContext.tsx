@@ -3,6 +3,7 @@ import type { ReactNode } from 'react'
 import { createContext, useContext, useEffect, useState } from 'react'
 
 import type { User } from '@/lib/appwrite'
+import type { UserRole } from '@/types/role'
 
 import { authService } from '@/lib/appwrite'
 import {
@@ -10,10 +11,13 @@ import {
   setAuditUserContext,
   clearAuditSession,
 } from '@/lib/appwrite/audit-log'
+import { hasRole as roleSatisfies, setCurrentRole } from '@/lib/appwrite/roles'
 
 interface AuthContextType {
   user: User | null
   isLoading: boolean
+  role: UserRole | null
+  hasRole: (required: UserRole) => boolean
   login: (email: string, password: string) => Promise<void>
   register: (email: string, password: string, name?: string) => Promise<void>
   logout: () => Promise<void>
@@ -21,12 +25,20 @@ interface AuthContextType {
 
 const AuthContext = createContext<AuthContextType | null>(null)
 
+// Look up the user's role and share it with the services
+async function loadRole(user: User | null): Promise<UserRole | null> {
+  const role = user ? await authService.getRole(user.$id) : null
+  setCurrentRole(role)
+  return role
+}
+
 interface AuthProviderProps {
   children: ReactNode
 }
 
 export function AuthProvider({ children }: AuthProviderProps) {
   const [user, setUser] = useState<User | null>(null)
+  const [role, setRole] = useState<UserRole | null>(null)
   const [isLoading, setIsLoading] = useState(true)
 
   useEffect(() => {
@@ -36,6 +48,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
   async function checkAuth() {
     try {
       const currentUser = await authService.getCurrentUser()
+      setRole(await loadRole(currentUser))
       setUser(currentUser)
 
       // Set audit context if user is authenticated
@@ -48,6 +61,8 @@ export function AuthProvider({ children }: AuthProviderProps) {
       }
     } catch {
       setUser(null)
+      setRole(null)
+      setCurrentRole(null)
       clearAuditSession()
       setAuditUserContext(null)
     } finally {
@@ -58,22 +73,28 @@ export function AuthProvider({ children }: AuthProviderProps) {
   async function login(email: string, password: string) {
     await authService.login(email, password)
     const currentUser = await authService.getCurrentUser()
+    setRole(await loadRole(currentUser))
     setUser(currentUser)
   }
 
   async function register(email: string, password: string, name?: string) {
     await authService.createAccount(email, password, name)
     const currentUser = await authService.getCurrentUser()
+    setRole(await loadRole(currentUser))
     setUser(currentUser)
   }
 
   async function logout() {
     await authService.logout()
     setUser(null)
+    setRole(null)
+    setCurrentRole(null)
   }
 
+  const hasRole = (required: UserRole) => roleSatisfies(role, required)
+
   return (
-    <AuthContext.Provider value={{ user, isLoading, login, register, logout }}>
+    <AuthContext.Provider value={{ user, isLoading, role, hasRole, login, register, logout }}>
       {children}
     </AuthContext.Provider>
   )
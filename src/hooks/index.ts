@@ -1,5 +1,23 @@
+export {
+  useCouriers,
+  useCreateCourier,
+  useDeleteCourier,
+  useUpdateCourier,
+} from './use-couriers'
 export { useDebounce } from './use-debounce'
 export { useIsMobile } from './use-mobile'
+export {
+  useOfflineCatalog,
+  useOfflineQueue,
+  useOfflineSync,
+  useOnlineStatus,
+} from './use-offline-sync'
+export {
+  mergeItems,
+  mergeRecordChange,
+  removeItem,
+  usePackagingRealtime,
+} from './use-packaging-realtime'
 export {
   fetchAllProductsForExport,
   useCreateProduct,
@@ -8,3 +26,31 @@ export {
   useProducts,
   useUpdateProduct,
 } from './use-products'
+export {
+  useCreateReceiving,
+  useReceiving,
+  useReceivings,
+  useUpdateReceiving,
+  useVoidReceiving,
+} from './use-receiving'
+export { useStockLedgerCheck, useStockMovements } from './use-stock-movements'
+export {
+  useApproveStocktake,
+  useCancelStocktake,
+  useCreateStocktake,
+  useSaveStocktakeCounts,
+  useStocktake,
+  useStocktakes,
+} from './use-stocktakes'
+export {
+  useCreateReportSchedule,
+  useDeleteReportSchedule,
+  useReportSchedules,
+  useUpdateReportSchedule,
+} from './use-report-schedules'
+export {
+  useCreateReportTemplate,
+  useDeleteReportTemplate,
+  useReportTemplates,
+  useUpdateReportTemplate,
+} from './use-report-templates'
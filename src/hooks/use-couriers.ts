@@ -0,0 +1,50 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+
+import { courierService } from '@/lib/appwrite/couriers'
+import type { CreateCourierInput, UpdateCourierInput } from '@/types/courier'
+
+const COURIERS_QUERY_KEY = 'couriers'
+
+/**
+ * Hook to fetch all courier profiles by name
+ */
+export function useCouriers() {
+  return useQuery({
+    queryKey: [COURIERS_QUERY_KEY],
+    queryFn: () => courierService.list(),
+  })
+}
+
+export function useCreateCourier() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (data: CreateCourierInput) => courierService.create(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [COURIERS_QUERY_KEY] })
+    },
+  })
+}
+
+export function useUpdateCourier() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: UpdateCourierInput }) =>
+      courierService.update(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [COURIERS_QUERY_KEY] })
+    },
+  })
+}
+
+export function useDeleteCourier() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (id: string) => courierService.delete(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [COURIERS_QUERY_KEY] })
+    },
+  })
+}
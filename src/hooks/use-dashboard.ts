@@ -0,0 +1,30 @@
+import { useQuery } from '@tanstack/react-query'
+
+import { dashboardService } from '@/lib/appwrite/dashboard'
+import { productService } from '@/lib/appwrite/products'
+
+const DASHBOARD_QUERY_KEY = 'dashboard'
+
+/**
+ * Hook to fetch aggregated packaging statistics for a date range
+ */
+export function usePackagingStats(startDate: string, endDate: string, enabled = true) {
+  return useQuery({
+    queryKey: [DASHBOARD_QUERY_KEY, 'packaging-stats', startDate, endDate],
+    queryFn: () => dashboardService.getPackagingStats(startDate, endDate),
+    enabled: enabled && !!startDate && !!endDate,
+    staleTime: 60 * 1000,
+  })
+}
+
+/**
+ * Hook to fetch single products at or below a stock threshold
+ */
+export function useLowStockProducts(threshold: number, limit = 10) {
+  return useQuery({
+    queryKey: [DASHBOARD_QUERY_KEY, 'low-stock', threshold, limit],
+    queryFn: () =>
+      productService.list({ type: 'single', maxStock: threshold, limit }),
+    staleTime: 60 * 1000,
+  })
+}
@@ -1,11 +1,40 @@
-import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { useEffect, useRef } from 'react'
+import { type QueryKey, useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
 
-import { jobService } from '@/lib/appwrite'
-import type { JobAction, JobStatus, ParsedJob } from '@/types/job'
+import { jobService, realtimeService } from '@/lib/appwrite'
+import type { ExportFormat, ImportJob, JobAction, JobStatus, ParsedJob } from '@/types/job'
+import { COLLECTIONS, EXPORT_FILE_TYPES } from '@/types/job'
 
 const JOBS_QUERY_KEY = 'jobs'
 const ACTIVE_JOBS_QUERY_KEY = 'active-jobs'
 
+/**
+ * Refetch a job query whenever a job it covers changes
+ * Job progress arrives over the realtime channel instead of by polling
+ */
+function useJobChanges(
+  queryKey: QueryKey,
+  covers: (job: ImportJob) => boolean,
+  enabled: boolean
+) {
+  const queryClient = useQueryClient()
+  const latest = useRef({ queryKey, covers })
+
+  useEffect(() => {
+    latest.current = { queryKey, covers }
+  })
+
+  useEffect(() => {
+    if (!enabled) return
+
+    return realtimeService.subscribe<ImportJob>(COLLECTIONS.IMPORT_JOBS, ({ document }) => {
+      if (latest.current.covers(document)) {
+        queryClient.invalidateQueries({ queryKey: latest.current.queryKey, exact: true })
+      }
+    })
+  }, [queryClient, enabled])
+}
+
 interface UseJobsOptions {
   userId: string
   action?: JobAction
@@ -19,9 +48,12 @@ interface UseJobsOptions {
  */
 export function useJobs(options: UseJobsOptions) {
   const { userId, action, status, limit = 20, enabled = true } = options
+  const queryKey = [JOBS_QUERY_KEY, userId, action, status, limit]
+
+  useJobChanges(queryKey, (job) => job.user_id === userId, enabled && !!userId)
 
   return useQuery({
-    queryKey: [JOBS_QUERY_KEY, userId, action, status, limit],
+    queryKey,
     queryFn: () =>
       jobService.listByUser(userId, {
         action,
@@ -29,13 +61,6 @@ export function useJobs(options: UseJobsOptions) {
         limit,
       }),
     enabled: enabled && !!userId,
-    refetchInterval: (query) => {
-      // Refetch more frequently if there are active jobs
-      const hasActiveJobs = query.state.data?.documents.some(
-        (job) => job.status === 'pending' || job.status === 'processing'
-      )
-      return hasActiveJobs ? 3000 : false
-    },
   })
 }
 
@@ -43,44 +68,44 @@ export function useJobs(options: UseJobsOptions) {
  * Hook to fetch active jobs (pending/processing) for a user
  */
 export function useActiveJobs(userId: string, enabled = true) {
+  const queryKey = [ACTIVE_JOBS_QUERY_KEY, userId]
+
+  useJobChanges(queryKey, (job) => job.user_id === userId, enabled && !!userId)
+
   return useQuery({
-    queryKey: [ACTIVE_JOBS_QUERY_KEY, userId],
+    queryKey,
     queryFn: () => jobService.getActiveJobs(userId),
     enabled: enabled && !!userId,
-    refetchInterval: (query) => {
-      // Only poll if there are actual pending/processing jobs
-      const jobs = query.state.data || []
-      const hasPendingJobs = jobs.some(
-        (job) => job.status === 'pending' || job.status === 'processing'
-      )
-      return hasPendingJobs ? 3000 : false
-    },
   })
 }
 
 /**
  * Hook to fetch recently completed export jobs for a user
  */
-export function useRecentCompletedExports(userId: string, enabled = true, hasActiveJobs = false) {
+export function useRecentCompletedExports(userId: string, enabled = true) {
+  const queryKey = [JOBS_QUERY_KEY, 'recent-exports', userId]
+
+  useJobChanges(queryKey, (job) => job.user_id === userId, enabled && !!userId)
+
   return useQuery({
-    queryKey: [JOBS_QUERY_KEY, 'recent-exports', userId],
+    queryKey,
     queryFn: () => jobService.getRecentCompletedExports(userId),
     enabled: enabled && !!userId,
-    // Only poll when there are active jobs that might complete
-    refetchInterval: hasActiveJobs ? 5000 : false,
   })
 }
 
 /**
  * Hook to fetch completed report exports for a user
  */
-export function useCompletedReportExports(userId: string, enabled = true, hasActiveJobs = false) {
+export function useCompletedReportExports(userId: string, enabled = true) {
+  const queryKey = [JOBS_QUERY_KEY, 'completed-reports', userId]
+
+  useJobChanges(queryKey, (job) => job.user_id === userId, enabled && !!userId)
+
   return useQuery({
-    queryKey: [JOBS_QUERY_KEY, 'completed-reports', userId],
+    queryKey,
     queryFn: () => jobService.getCompletedReportExports(userId),
     enabled: enabled && !!userId,
-    // Only poll when there are active jobs that might complete
-    refetchInterval: hasActiveJobs ? 3000 : false,
   })
 }
 
@@ -88,18 +113,14 @@ export function useCompletedReportExports(userId: string, enabled = true, hasAct
  * Hook to fetch a single job by ID
  */
 export function useJob(jobId: string, enabled = true) {
+  const queryKey = [JOBS_QUERY_KEY, 'detail', jobId]
+
+  useJobChanges(queryKey, (job) => job.$id === jobId, enabled && !!jobId)
+
   return useQuery({
-    queryKey: [JOBS_QUERY_KEY, 'detail', jobId],
+    queryKey,
     queryFn: () => jobService.getById(jobId),
     enabled: enabled && !!jobId,
-    refetchInterval: (query) => {
-      // Refetch while job is active
-      const job = query.state.data
-      if (job && (job.status === 'pending' || job.status === 'processing')) {
-        return 2000
-      }
-      return false
-    },
   })
 }
 
@@ -124,6 +145,27 @@ export function useQueueImport() {
   })
 }
 
+/**
+ * Hook to queue an order pre-alert import job
+ */
+export function useQueuePrealertImport() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ file, userId }: { file: File; userId: string }) =>
+      jobService.queuePrealertImport(file, userId),
+    onSuccess: (_data, variables) => {
+      // Invalidate jobs queries to show new job
+      queryClient.invalidateQueries({
+        queryKey: [JOBS_QUERY_KEY, variables.userId],
+      })
+      queryClient.invalidateQueries({
+        queryKey: [ACTIVE_JOBS_QUERY_KEY, variables.userId],
+      })
+    },
+  })
+}
+
 /**
  * Hook to queue an export job
  */
@@ -134,10 +176,12 @@ export function useQueueExport() {
     mutationFn: ({
       userId,
       filters,
+      format,
     }: {
       userId: string
       filters?: { type?: 'single' | 'bundle' }
-    }) => jobService.queueExport(userId, filters),
+      format?: Exclude<ExportFormat, 'pdf'>
+    }) => jobService.queueExport(userId, filters, format),
     onSuccess: (_data, variables) => {
       // Invalidate jobs queries to show new job
       queryClient.invalidateQueries({
@@ -162,12 +206,16 @@ export function useQueueReportExport() {
       startDate,
       endDate,
       format = 'excel',
+      courierId,
+      templateId,
     }: {
       userId: string
       startDate: string
       endDate: string
-      format?: 'excel' | 'pdf'
-    }) => jobService.queueReportExport(userId, startDate, endDate, format),
+      format?: ExportFormat
+      courierId?: string
+      templateId?: string
+    }) => jobService.queueReportExport(userId, startDate, endDate, format, courierId, templateId),
     onSuccess: (_data, variables) => {
       // Invalidate all job-related queries to refresh the UI
       queryClient.invalidateQueries({
@@ -183,6 +231,68 @@ export function useQueueReportExport() {
   })
 }
 
+/**
+ * Hook to queue a receiving export job
+ */
+export function useQueueReceivingExport() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({
+      userId,
+      startDate,
+      endDate,
+    }: {
+      userId: string
+      startDate: string
+      endDate: string
+    }) => jobService.queueReceivingExport(userId, startDate, endDate),
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: [JOBS_QUERY_KEY, variables.userId],
+      })
+      queryClient.invalidateQueries({
+        queryKey: [ACTIVE_JOBS_QUERY_KEY, variables.userId],
+      })
+      queryClient.invalidateQueries({
+        queryKey: [JOBS_QUERY_KEY, 'completed-reports', variables.userId],
+      })
+    },
+  })
+}
+
+/**
+ * Hook to queue a stocktake variance report job
+ */
+export function useQueueStocktakeExport() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({
+      userId,
+      stocktakeId,
+      stocktakeName,
+      format = 'excel',
+    }: {
+      userId: string
+      stocktakeId: string
+      stocktakeName: string
+      format?: 'excel' | 'pdf'
+    }) => jobService.queueStocktakeExport(userId, stocktakeId, stocktakeName, format),
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: [JOBS_QUERY_KEY, variables.userId],
+      })
+      queryClient.invalidateQueries({
+        queryKey: [ACTIVE_JOBS_QUERY_KEY, variables.userId],
+      })
+      queryClient.invalidateQueries({
+        queryKey: [JOBS_QUERY_KEY, 'completed-reports', variables.userId],
+      })
+    },
+  })
+}
+
 /**
  * Hook to queue a send report email job
  */
@@ -213,6 +323,41 @@ export function useQueueSendReportEmail() {
   })
 }
 
+/**
+ * Hook to queue a report that is emailed once generated
+ */
+export function useQueueReportEmail() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({
+      userId,
+      startDate,
+      endDate,
+      format,
+      recipients,
+      courierId,
+      templateId,
+    }: {
+      userId: string
+      startDate: string
+      endDate: string
+      format: ExportFormat
+      recipients: string[]
+      courierId?: string
+      templateId?: string
+    }) => jobService.queueReportEmail(userId, startDate, endDate, format, recipients, courierId, templateId),
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: [JOBS_QUERY_KEY, variables.userId],
+      })
+      queryClient.invalidateQueries({
+        queryKey: [ACTIVE_JOBS_QUERY_KEY, variables.userId],
+      })
+    },
+  })
+}
+
 /**
  * Hook to download export result
  */
@@ -221,17 +366,19 @@ export function useDownloadExport() {
     mutationFn: async ({
       fileId,
       fileName,
+      format,
     }: {
       fileId: string
       fileName?: string
+      format?: ExportFormat
     }) => {
-      const blob = await jobService.downloadExport(fileId)
+      const blob = await jobService.downloadExport(fileId, format)
 
       // Create download link
       const url = window.URL.createObjectURL(blob)
       const link = document.createElement('a')
       link.href = url
-      link.download = fileName || `export_${Date.now()}.xlsx`
+      link.download = fileName || `export_${Date.now()}.${EXPORT_FILE_TYPES[format ?? 'excel'].extension}`
       document.body.appendChild(link)
       link.click()
       document.body.removeChild(link)
@@ -313,6 +460,25 @@ export function getJobStatusColor(status: JobStatus): string {
   }
 }
 
+/**
+ * Translation key for a job's status
+ * Multi-step jobs show the phase they are on while processing
+ */
+export function getJobStatusKey(job: Pick<ParsedJob, 'status' | 'phase'>): string {
+  return job.status === 'processing' && job.phase ? `jobs.phase.${job.phase}` : `jobs.status.${job.status}`
+}
+
+/**
+ * File format of an export job's result, from its action or else its filters
+ */
+export function getJobExportFormat(job: Pick<ParsedJob, 'action' | 'filters'>): ExportFormat {
+  const suffix = job.action.slice(job.action.lastIndexOf('-') + 1)
+  if (suffix in EXPORT_FILE_TYPES) return suffix as ExportFormat
+
+  const format = job.filters?.format
+  return typeof format === 'string' && format in EXPORT_FILE_TYPES ? (format as ExportFormat) : 'excel'
+}
+
 /**
  * Helper to format job stats
  */
@@ -0,0 +1,142 @@
+import { useEffect, useSyncExternalStore } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+
+import { offlineCatalogService } from '@/lib/offline/catalog'
+import { offlineDb } from '@/lib/offline/idb'
+import { offlineQueueService } from '@/lib/offline/sync-queue'
+import type { Location } from '@/types/location'
+import type { SyncQueueResult } from '@/types/offline'
+
+const OFFLINE_QUEUE_QUERY_KEY = 'offline-waybill-queue'
+const OFFLINE_CATALOG_QUERY_KEY = 'offline-catalog'
+
+// How often pending waybills are retried and the catalogue is refreshed
+const SYNC_INTERVAL_MS = 30 * 1000
+const CATALOG_REFRESH_MS = 5 * 60 * 1000
+
+function subscribeToNetwork(callback: () => void) {
+  window.addEventListener('online', callback)
+  window.addEventListener('offline', callback)
+  return () => {
+    window.removeEventListener('online', callback)
+    window.removeEventListener('offline', callback)
+  }
+}
+
+/**
+ * Hook to track whether the browser has a network connection
+ */
+export function useOnlineStatus(): boolean {
+  return useSyncExternalStore(subscribeToNetwork, () => navigator.onLine, () => true)
+}
+
+/**
+ * Hook to list waybills queued for sync
+ * Reads IndexedDB, so it keeps working offline
+ */
+export function useOfflineQueue() {
+  return useQuery({
+    queryKey: [OFFLINE_QUEUE_QUERY_KEY],
+    queryFn: () => offlineQueueService.list(),
+    enabled: offlineDb.isSupported(),
+    networkMode: 'always',
+  })
+}
+
+/**
+ * Hook to keep the offline product catalogue fresh while online
+ * Returns when the cached catalogue was last downloaded
+ */
+export function useOfflineCatalog(locations: Location[], isOnline: boolean) {
+  return useQuery({
+    queryKey: [OFFLINE_CATALOG_QUERY_KEY, isOnline, locations.map((location) => location.$id)],
+    queryFn: async () => {
+      if (isOnline) {
+        try {
+          await offlineCatalogService.refresh(locations)
+        } catch (error) {
+          console.error('Failed to refresh offline catalogue:', error)
+        }
+      }
+      return offlineCatalogService.getRefreshedAt()
+    },
+    enabled: offlineDb.isSupported(),
+    networkMode: 'always',
+    staleTime: CATALOG_REFRESH_MS,
+    refetchInterval: isOnline ? CATALOG_REFRESH_MS : false,
+  })
+}
+
+/**
+ * Hook for offline packaging: the sync queue, the cached catalogue and
+ * automatic sync whenever the connection is back
+ */
+export function useOfflineSync(options: {
+  locations: Location[]
+  onSyncComplete?: (result: SyncQueueResult) => void
+}) {
+  const queryClient = useQueryClient()
+  const isOnline = useOnlineStatus()
+  const { data: queue = [] } = useOfflineQueue()
+  const { data: catalogRefreshedAt = null } = useOfflineCatalog(options.locations, isOnline)
+
+  const refreshQueue = () =>
+    queryClient.invalidateQueries({ queryKey: [OFFLINE_QUEUE_QUERY_KEY] })
+
+  const syncMutation = useMutation({
+    mutationFn: () => offlineQueueService.sync(),
+    networkMode: 'always',
+    onSuccess: (result) => {
+      if (result.synced > 0) {
+        // Server stock moved; the cached catalogue is stale
+        queryClient.invalidateQueries({ queryKey: ['products'] })
+        queryClient.invalidateQueries({ queryKey: [OFFLINE_CATALOG_QUERY_KEY] })
+      }
+      options.onSyncComplete?.(result)
+    },
+    onSettled: refreshQueue,
+  })
+
+  const pendingCount = queue.filter((waybill) => waybill.status === 'pending').length
+  const { mutate: sync, isPending: isSyncing } = syncMutation
+
+  // Sync as soon as the connection is back, then retry periodically
+  useEffect(() => {
+    if (!isOnline || pendingCount === 0) return
+
+    sync()
+    const interval = setInterval(() => sync(), SYNC_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [isOnline, pendingCount, sync])
+
+  // Queue changes run against IndexedDB, so they work offline too
+  const { mutateAsync: enqueue } = useMutation({
+    mutationFn: (waybill: Parameters<typeof offlineQueueService.enqueue>[0]) =>
+      offlineQueueService.enqueue(waybill),
+    networkMode: 'always',
+    onSuccess: refreshQueue,
+  })
+  const { mutateAsync: retry } = useMutation({
+    mutationFn: (idempotencyKey: string) => offlineQueueService.retry(idempotencyKey),
+    networkMode: 'always',
+    onSuccess: refreshQueue,
+  })
+  const { mutateAsync: discard } = useMutation({
+    mutationFn: (idempotencyKey: string) => offlineQueueService.discard(idempotencyKey),
+    networkMode: 'always',
+    onSuccess: refreshQueue,
+  })
+
+  return {
+    isOnline,
+    isSupported: offlineDb.isSupported(),
+    queue,
+    pendingCount,
+    catalogRefreshedAt,
+    isSyncing,
+    sync,
+    enqueue,
+    retry,
+    discard,
+  }
+}
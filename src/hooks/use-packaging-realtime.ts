@@ -0,0 +1,132 @@
+import { useEffect, type Dispatch, type SetStateAction } from 'react'
+
+import { packagingRecordService } from '@/lib/appwrite/packaging'
+import { realtimeService } from '@/lib/appwrite/realtime'
+import type {
+  PackagingItem,
+  PackagingItemWithProduct,
+  PackagingRecord,
+  PackagingRecordWithProducts,
+} from '@/types/packaging'
+import { COLLECTIONS } from '@/types/packaging'
+
+// Items of one waybill are saved in quick succession; enrich them together
+const ITEM_BATCH_MS = 250
+
+/**
+ * Apply a record change to a date's records, keeping the items loaded so far
+ */
+export function mergeRecordChange(
+  records: PackagingRecordWithProducts[],
+  type: 'create' | 'update' | 'delete',
+  record: PackagingRecord,
+  date: string
+): PackagingRecordWithProducts[] {
+  const existing = records.find((r) => r.$id === record.$id)
+
+  if (type === 'delete' || record.packaging_date !== date) {
+    return existing ? records.filter((r) => r.$id !== record.$id) : records
+  }
+
+  if (!existing) {
+    return [{ ...record, items: [] }, ...records]
+  }
+
+  return records.map((r) => (r.$id === record.$id ? { ...record, items: r.items } : r))
+}
+
+/**
+ * Add or replace items in the records they belong to
+ * Items of records not in the list are ignored
+ */
+export function mergeItems(
+  records: PackagingRecordWithProducts[],
+  items: PackagingItemWithProduct[]
+): PackagingRecordWithProducts[] {
+  if (items.length === 0) return records
+
+  return records.map((record) => {
+    const incoming = items.filter((item) => item.packaging_record_id === record.$id)
+    if (incoming.length === 0) return record
+
+    const incomingIds = new Set(incoming.map((item) => item.$id))
+    return {
+      ...record,
+      items: [...record.items.filter((item) => !incomingIds.has(item.$id)), ...incoming],
+    }
+  })
+}
+
+/**
+ * Remove an item from the record it belongs to
+ */
+export function removeItem(
+  records: PackagingRecordWithProducts[],
+  item: PackagingItem
+): PackagingRecordWithProducts[] {
+  return records.map((record) =>
+    record.$id === item.packaging_record_id
+      ? { ...record, items: record.items.filter((i) => i.$id !== item.$id) }
+      : record
+  )
+}
+
+/**
+ * Hook to keep a date's packaging records live across packing stations
+ * Records and items saved, edited or deleted anywhere are merged in as
+ * they happen
+ */
+export function usePackagingRealtime(
+  date: string,
+  setRecords: Dispatch<SetStateAction<PackagingRecordWithProducts[]>>,
+  enabled = true
+) {
+  useEffect(() => {
+    if (!enabled) return
+
+    let pendingItems: PackagingItem[] = []
+    let flushTimer: ReturnType<typeof setTimeout> | null = null
+    let cancelled = false
+
+    const flushItems = async () => {
+      flushTimer = null
+      const batch = pendingItems
+      pendingItems = []
+
+      try {
+        const items = await packagingRecordService.enrichItems(batch)
+        if (!cancelled) setRecords((prev) => mergeItems(prev, items))
+      } catch (error) {
+        console.error('Error loading live packaging items:', error)
+      }
+    }
+
+    const unsubscribeRecords = realtimeService.subscribe<PackagingRecord>(
+      COLLECTIONS.PACKAGING_RECORDS,
+      ({ type, document }) => {
+        setRecords((prev) => mergeRecordChange(prev, type, document, date))
+      }
+    )
+
+    const unsubscribeItems = realtimeService.subscribe<PackagingItem>(
+      COLLECTIONS.PACKAGING_ITEMS,
+      ({ type, document }) => {
+        if (type === 'delete') {
+          pendingItems = pendingItems.filter((item) => item.$id !== document.$id)
+          setRecords((prev) => removeItem(prev, document))
+          return
+        }
+
+        pendingItems.push(document)
+        flushTimer ??= setTimeout(flushItems, ITEM_BATCH_MS)
+      }
+    )
+
+    return () => {
+      cancelled = true
+      if (flushTimer) clearTimeout(flushTimer)
+      unsubscribeRecords()
+      unsubscribeItems()
+    }
+  }, [date, setRecords, enabled])
+}
@@ -1,11 +1,12 @@
 import {
   useInfiniteQuery,
   useMutation,
+  useQuery,
   useQueryClient,
 } from '@tanstack/react-query'
 
-import { productComponentService, productService } from '@/lib/appwrite'
-import type { Product, ProductType } from '@/types/product'
+import { productBarcodeService, productComponentService, productService } from '@/lib/appwrite'
+import type { Product, ProductBarcodeInput, ProductType } from '@/types/product'
 
 const PRODUCTS_QUERY_KEY = 'products'
 const PAGE_SIZE = 50
@@ -48,6 +49,17 @@ export function useProducts(params: ProductsQueryParams = {}) {
   })
 }
 
+// Buildable quantity of the bundles among the given products (bundle ID to quantity)
+export function useBuildableQuantities(products: Product[]) {
+  const bundles = products.filter((product) => product.type === 'bundle')
+
+  return useQuery({
+    queryKey: [PRODUCTS_QUERY_KEY, 'buildable', bundles.map((bundle) => bundle.$id)],
+    queryFn: () => productService.getBuildableQuantities(bundles),
+    enabled: bundles.length > 0,
+  })
+}
+
 interface CreateProductInput {
   barcode: string
   sku_code?: string
@@ -56,6 +68,7 @@ interface CreateProductInput {
   cost: number
   stock_quantity?: number
   bundleItems?: string[]
+  barcodeAliases?: ProductBarcodeInput[]
 }
 
 // Helper to aggregate bundle items by product ID and count quantities
@@ -72,6 +85,10 @@ export function useCreateProduct() {
 
   return useMutation({
     mutationFn: async (data: CreateProductInput) => {
+      if (data.type === 'bundle' && data.bundleItems) {
+        await productService.validateBundleComponents({ name: data.name }, data.bundleItems)
+      }
+
       const newProduct = await productService.create({
         barcode: data.barcode,
         sku_code: data.sku_code,
@@ -93,6 +110,10 @@ export function useCreateProduct() {
         }
       }
 
+      if (data.barcodeAliases && data.barcodeAliases.length > 0) {
+        await productBarcodeService.replaceForProduct(newProduct.$id, data.barcodeAliases)
+      }
+
       return newProduct
     },
     onSuccess: (newProduct) => {
@@ -132,6 +153,7 @@ interface UpdateProductInput {
     cost: number
     stock_quantity?: number
     bundleItems?: string[]
+    barcodeAliases?: ProductBarcodeInput[]
   }
 }
 
@@ -140,6 +162,14 @@ export function useUpdateProduct() {
 
   return useMutation({
     mutationFn: async ({ productId, data }: UpdateProductInput) => {
+      // Reject cycles before anything is written
+      if (data.type === 'bundle' && data.bundleItems) {
+        await productService.validateBundleComponents(
+          { $id: productId, name: data.name },
+          data.bundleItems
+        )
+      }
+
       const updatedProduct = await productService.update(productId, {
         sku_code: data.sku_code,
         name: data.name,
@@ -163,6 +193,10 @@ export function useUpdateProduct() {
         }
       }
 
+      if (data.barcodeAliases) {
+        await productBarcodeService.replaceForProduct(productId, data.barcodeAliases)
+      }
+
       return updatedProduct
     },
     onMutate: async ({ productId, data }) => {
@@ -0,0 +1,66 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+
+import { receivingService } from '@/lib/appwrite/receiving'
+import type { CreateReceivingInput, UpdateReceivingInput } from '@/types/receiving'
+
+const RECEIVING_QUERY_KEY = 'receiving'
+
+/**
+ * Hook to list receivings in a date range, newest first
+ */
+export function useReceivings(params: { startDate?: string; endDate?: string; limit?: number }) {
+  return useQuery({
+    queryKey: [RECEIVING_QUERY_KEY, 'list', params.startDate, params.endDate, params.limit],
+    queryFn: () => receivingService.list(params),
+  })
+}
+
+/**
+ * Hook to fetch a receiving with its items
+ */
+export function useReceiving(recordId: string | null) {
+  return useQuery({
+    queryKey: [RECEIVING_QUERY_KEY, 'detail', recordId],
+    queryFn: () => receivingService.getWithItems(recordId!),
+    enabled: !!recordId,
+  })
+}
+
+// Receiving changes stock, so product lists are refreshed too
+function useInvalidateReceiving() {
+  const queryClient = useQueryClient()
+
+  return () => {
+    queryClient.invalidateQueries({ queryKey: [RECEIVING_QUERY_KEY] })
+    queryClient.invalidateQueries({ queryKey: ['products'] })
+  }
+}
+
+export function useCreateReceiving() {
+  const invalidate = useInvalidateReceiving()
+
+  return useMutation({
+    mutationFn: (data: CreateReceivingInput) => receivingService.create(data),
+    onSuccess: invalidate,
+  })
+}
+
+export function useUpdateReceiving() {
+  const invalidate = useInvalidateReceiving()
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: UpdateReceivingInput }) =>
+      receivingService.update(id, data),
+    onSuccess: invalidate,
+  })
+}
+
+export function useVoidReceiving() {
+  const invalidate = useInvalidateReceiving()
+
+  return useMutation({
+    mutationFn: ({ id, reason }: { id: string; reason?: string }) =>
+      receivingService.void(id, reason),
+    onSuccess: invalidate,
+  })
+}
@@ -0,0 +1,55 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+
+import { reportScheduleService } from '@/lib/appwrite/report-schedules'
+import type {
+  CreateReportScheduleInput,
+  UpdateReportScheduleInput,
+} from '@/types/report-schedule'
+
+const REPORT_SCHEDULE_QUERY_KEY = 'report-schedules'
+
+/**
+ * Hook to list report schedules
+ */
+export function useReportSchedules() {
+  return useQuery({
+    queryKey: [REPORT_SCHEDULE_QUERY_KEY],
+    queryFn: () => reportScheduleService.list(),
+  })
+}
+
+function useInvalidateReportSchedules() {
+  const queryClient = useQueryClient()
+
+  return () => queryClient.invalidateQueries({ queryKey: [REPORT_SCHEDULE_QUERY_KEY] })
+}
+
+export function useCreateReportSchedule() {
+  const invalidate = useInvalidateReportSchedules()
+
+  return useMutation({
+    mutationFn: ({ data, owner }: { data: CreateReportScheduleInput; owner: { id: string; name: string | null } }) =>
+      reportScheduleService.create(data, owner),
+    onSuccess: invalidate,
+  })
+}
+
+// Pausing and resuming go through update with `enabled`
+export function useUpdateReportSchedule() {
+  const invalidate = useInvalidateReportSchedules()
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: UpdateReportScheduleInput & { enabled?: boolean } }) =>
+      reportScheduleService.update(id, data),
+    onSuccess: invalidate,
+  })
+}
+
+export function useDeleteReportSchedule() {
+  const invalidate = useInvalidateReportSchedules()
+
+  return useMutation({
+    mutationFn: (id: string) => reportScheduleService.delete(id),
+    onSuccess: invalidate,
+  })
+}
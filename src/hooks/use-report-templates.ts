@@ -0,0 +1,54 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+
+import { reportTemplateService } from '@/lib/appwrite/report-templates'
+import type {
+  CreateReportTemplateInput,
+  UpdateReportTemplateInput,
+} from '@/types/report-template'
+
+const REPORT_TEMPLATE_QUERY_KEY = 'report-templates'
+
+/**
+ * Hook to list report templates
+ */
+export function useReportTemplates() {
+  return useQuery({
+    queryKey: [REPORT_TEMPLATE_QUERY_KEY],
+    queryFn: () => reportTemplateService.list(),
+  })
+}
+
+function useInvalidateReportTemplates() {
+  const queryClient = useQueryClient()
+
+  return () => queryClient.invalidateQueries({ queryKey: [REPORT_TEMPLATE_QUERY_KEY] })
+}
+
+export function useCreateReportTemplate() {
+  const invalidate = useInvalidateReportTemplates()
+
+  return useMutation({
+    mutationFn: ({ data, owner }: { data: CreateReportTemplateInput; owner: { id: string; name: string | null } }) =>
+      reportTemplateService.create(data, owner),
+    onSuccess: invalidate,
+  })
+}
+
+export function useUpdateReportTemplate() {
+  const invalidate = useInvalidateReportTemplates()
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: UpdateReportTemplateInput }) =>
+      reportTemplateService.update(id, data),
+    onSuccess: invalidate,
+  })
+}
+
+export function useDeleteReportTemplate() {
+  const invalidate = useInvalidateReportTemplates()
+
+  return useMutation({
+    mutationFn: (id: string) => reportTemplateService.delete(id),
+    onSuccess: invalidate,
+  })
+}
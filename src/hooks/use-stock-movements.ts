@@ -0,0 +1,25 @@
+import { useMutation, useQuery } from '@tanstack/react-query'
+
+import { stockMovementService } from '@/lib/appwrite/stock-movements'
+
+const STOCK_MOVEMENTS_QUERY_KEY = 'stock-movements'
+
+/**
+ * Hook to fetch a product's stock movement history, newest first
+ */
+export function useStockMovements(productId: string | null, limit = 50) {
+  return useQuery({
+    queryKey: [STOCK_MOVEMENTS_QUERY_KEY, productId, limit],
+    queryFn: () => stockMovementService.listByProduct(productId!, { limit }),
+    enabled: !!productId,
+  })
+}
+
+/**
+ * Hook to rebuild a product's stock from its movements and report drift
+ */
+export function useStockLedgerCheck() {
+  return useMutation({
+    mutationFn: (productId: string) => stockMovementService.rebuildStock(productId),
+  })
+}
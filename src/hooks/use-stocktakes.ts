@@ -0,0 +1,79 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+
+import { stocktakeService } from '@/lib/appwrite/stocktakes'
+import type {
+  CreateStocktakeInput,
+  StocktakeCountInput,
+  StocktakeReasonCode,
+} from '@/types/stocktake'
+
+const STOCKTAKE_QUERY_KEY = 'stocktakes'
+
+/**
+ * Hook to list stocktakes, newest first
+ */
+export function useStocktakes(params?: { limit?: number }) {
+  return useQuery({
+    queryKey: [STOCKTAKE_QUERY_KEY, 'list', params?.limit],
+    queryFn: () => stocktakeService.list(params),
+  })
+}
+
+/**
+ * Hook to fetch a stocktake with its items
+ */
+export function useStocktake(stocktakeId: string | null) {
+  return useQuery({
+    queryKey: [STOCKTAKE_QUERY_KEY, 'detail', stocktakeId],
+    queryFn: () => stocktakeService.getWithItems(stocktakeId!),
+    enabled: !!stocktakeId,
+  })
+}
+
+function useInvalidateStocktakes() {
+  const queryClient = useQueryClient()
+
+  return () => queryClient.invalidateQueries({ queryKey: [STOCKTAKE_QUERY_KEY] })
+}
+
+export function useCreateStocktake() {
+  const invalidate = useInvalidateStocktakes()
+
+  return useMutation({
+    mutationFn: (data: CreateStocktakeInput) => stocktakeService.create(data),
+    onSuccess: invalidate,
+  })
+}
+
+export function useSaveStocktakeCounts() {
+  const invalidate = useInvalidateStocktakes()
+
+  return useMutation({
+    mutationFn: ({ id, counts }: { id: string; counts: StocktakeCountInput[] }) =>
+      stocktakeService.saveCounts(id, counts),
+    onSuccess: invalidate,
+  })
+}
+
+// Approving changes stock, so product lists are refreshed too
+export function useApproveStocktake() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ id, reasonCode, notes }: { id: string; reasonCode: StocktakeReasonCode; notes?: string }) =>
+      stocktakeService.approve(id, reasonCode, notes),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [STOCKTAKE_QUERY_KEY] })
+      queryClient.invalidateQueries({ queryKey: ['products'] })
+    },
+  })
+}
+
+export function useCancelStocktake() {
+  const invalidate = useInvalidateStocktakes()
+
+  return useMutation({
+    mutationFn: ({ id, notes }: { id: string; notes?: string }) => stocktakeService.cancel(id, notes),
+    onSuccess: invalidate,
+  })
+}
@@ -12,6 +12,7 @@ import type {
 import { COLLECTIONS, SENSITIVE_FIELDS } from '@/types/audit'
 
 import { databaseService, Query } from './database'
+import { requireRole } from './roles'
 
 /**
  * Check if audit logging is enabled
@@ -325,6 +326,40 @@ export const auditLogService = {
     })
   },
 
+  /**
+   * Fetch audit logs matching the filters for export and record the export itself
+   */
+  async exportAuditLogs(
+    filters: AuditLogFilters,
+    format: 'csv' | 'xlsx'
+  ): Promise<ParsedAuditLog[]> {
+    requireRole('admin', 'audit_log_export', 'audit_log', { action_details: { format } })
+
+    const exportFilters = { ...filters, limit: filters.limit ?? 5000, offset: undefined }
+
+    try {
+      const result = await this.getAuditLogs(exportFilters)
+
+      this.log('audit_log_export', 'audit_log', {
+        action_details: {
+          format,
+          filters: exportFilters,
+          exportedCount: result.documents.length,
+          total: result.total,
+        },
+      }).catch(console.error)
+
+      return result.documents
+    } catch (error) {
+      this.log('audit_log_export', 'audit_log', {
+        action_details: { format, filters: exportFilters },
+        status: 'failure',
+        error_message: error instanceof Error ? error.message : 'Unknown error',
+      }).catch(console.error)
+      throw error
+    }
+  },
+
   /**
    * Get audit logs by action type
    */
@@ -1,15 +1,21 @@
 import type { Models } from 'appwrite'
 
-import { account, ID } from './config'
+import type { UserRole } from '@/types/role'
+import { DEFAULT_ROLE } from '@/types/role'
+
+import { account, ID, Query, teams } from './config'
 import {
   auditLogService,
   clearAuditSession,
   initAuditSession,
   setAuditUserContext,
 } from './audit-log'
+import { resolveRole } from './roles'
 
 export type User = Models.User<Models.Preferences>
 
+const ROLES_TEAM_ID = import.meta.env.VITE_APPWRITE_ROLES_TEAM_ID || 'staff'
+
 export const authService = {
   async createAccount(email: string, password: string, name?: string) {
     try {
@@ -134,6 +140,22 @@ export const authService = {
     }
   },
 
+  /**
+   * Get the user's role from their staff team membership.
+   * Users without a membership (or when the lookup fails) get the default role.
+   */
+  async getRole(userId: string): Promise<UserRole> {
+    try {
+      const memberships = await teams.listMemberships(ROLES_TEAM_ID, [
+        Query.equal('userId', userId),
+      ])
+      const roles = memberships.memberships.flatMap((membership) => membership.roles)
+      return resolveRole(roles) ?? DEFAULT_ROLE
+    } catch {
+      return DEFAULT_ROLE
+    }
+  },
+
   async updateName(name: string) {
     try {
       const result = await account.updateName(name)
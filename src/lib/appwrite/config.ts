@@ -1,4 +1,4 @@
-import { Account, Client, Databases, Functions, Messaging, Storage } from 'appwrite'
+import { Account, Client, Databases, Functions, Messaging, Storage, Teams } from 'appwrite'
 
 const client = new Client()
 
@@ -11,6 +11,7 @@ export const databases = new Databases(client)
 export const storage = new Storage(client)
 export const messaging = new Messaging(client)
 export const functions = new Functions(client)
+export const teams = new Teams(client)
 
 export { ID, Query, ExecutionMethod } from 'appwrite'
 export default client
@@ -0,0 +1,242 @@
+import { databaseService, Query } from './database'
+import { auditLogService } from './audit-log'
+import { requireRole } from './roles'
+
+import type {
+  CheckDigitAlgorithm,
+  Courier,
+  CreateCourierInput,
+  UpdateCourierInput,
+  WaybillCheck,
+  WaybillFormatIssue,
+} from '@/types/courier'
+import { COLLECTIONS } from '@/types/courier'
+
+// UPU S10 weights for the 8 serial digits
+const S10_WEIGHTS = [8, 6, 4, 2, 3, 5, 9, 7]
+
+/**
+ * Check the check digit of a waybill
+ * Prefix-based algorithms run over the digits after the courier prefix
+ */
+export function hasValidCheckDigit(
+  waybill: string,
+  algorithm: CheckDigitAlgorithm,
+  prefix = ''
+): boolean {
+  if (algorithm === 's10') {
+    const match = /^[A-Z]{2}(\d{8})(\d)[A-Z]{2}$/.exec(waybill)
+    if (!match) return false
+    const sum = [...match[1]].reduce((acc, digit, i) => acc + Number(digit) * S10_WEIGHTS[i], 0)
+    const check = 11 - (sum % 11)
+    const expected = check === 10 ? 0 : check === 11 ? 5 : check
+    return Number(match[2]) === expected
+  }
+
+  const digits = waybill.startsWith(prefix) ? waybill.slice(prefix.length) : waybill
+  if (!/^\d{2,}$/.test(digits)) return false
+
+  const body = digits.slice(0, -1)
+  const checkDigit = Number(digits.slice(-1))
+
+  if (algorithm === 'mod7') {
+    let remainder = 0
+    for (const digit of body) {
+      remainder = (remainder * 10 + Number(digit)) % 7
+    }
+    return remainder === checkDigit
+  }
+
+  // Luhn: double every second digit from the right, excluding the check digit
+  let sum = checkDigit
+  for (let i = 0; i < body.length; i++) {
+    let value = Number(body[body.length - 1 - i])
+    if (i % 2 === 0) {
+      value *= 2
+      if (value > 9) value -= 9
+    }
+    sum += value
+  }
+  return sum % 10 === 0
+}
+
+/**
+ * Full-match a waybill against a courier pattern
+ * An invalid pattern never matches
+ */
+function matchesPattern(waybill: string, pattern: string): boolean {
+  try {
+    return new RegExp(`^(?:${pattern})$`).test(waybill)
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Whether a courier looks like the owner of a waybill: its prefix
+ * matches, or without a prefix its pattern, or without either its length
+ */
+function claims(courier: Courier, waybill: string): boolean {
+  if (courier.prefix) return waybill.startsWith(courier.prefix)
+  if (courier.pattern) return matchesPattern(waybill, courier.pattern)
+  if (courier.length) return waybill.length === courier.length
+  return false
+}
+
+/**
+ * First way a waybill breaks its courier's format, if any
+ */
+function findFormatIssue(courier: Courier, waybill: string): WaybillFormatIssue | null {
+  if (courier.length && waybill.length !== courier.length) return 'length'
+  if (courier.pattern && !matchesPattern(waybill, courier.pattern)) return 'pattern'
+  if (courier.check_digit && !hasValidCheckDigit(waybill, courier.check_digit, courier.prefix ?? '')) {
+    return 'check_digit'
+  }
+  return null
+}
+
+/**
+ * Check a waybill number against the courier profiles
+ * The first courier it fully fits wins; otherwise the first courier that
+ * claims it reports why it does not fit
+ */
+export function checkWaybill(waybill: string, couriers: Courier[]): WaybillCheck {
+  let firstInvalid: WaybillCheck | null = null
+
+  for (const courier of couriers) {
+    if (!claims(courier, waybill)) continue
+
+    const issue = findFormatIssue(courier, waybill)
+    if (!issue) return { status: 'valid', courier }
+    firstInvalid ??= { status: 'invalid', courier, issue }
+  }
+
+  return firstInvalid ?? { status: 'unknown' }
+}
+
+/**
+ * Reject profiles that could never identify a waybill
+ */
+function validateProfile(data: CreateCourierInput | UpdateCourierInput, existing?: Courier): void {
+  const profile = { ...existing, ...data }
+  if (!profile.prefix && !profile.pattern && !profile.length) {
+    throw new Error('A courier needs a prefix, a pattern or a length')
+  }
+  if (profile.pattern) {
+    try {
+      new RegExp(profile.pattern)
+    } catch {
+      throw new Error(`Invalid waybill pattern: ${profile.pattern}`)
+    }
+  }
+}
+
+export const courierService = {
+  /**
+   * List all courier profiles by name
+   */
+  async list(): Promise<Courier[]> {
+    const result = await databaseService.listDocuments<Courier>(COLLECTIONS.COURIERS, [
+      Query.orderAsc('name'),
+      Query.limit(100),
+    ])
+    return result.documents
+  },
+
+  /**
+   * Get a courier profile by ID
+   */
+  async getById(courierId: string): Promise<Courier> {
+    return databaseService.getDocument<Courier>(COLLECTIONS.COURIERS, courierId)
+  },
+
+  /**
+   * Create a new courier profile
+   */
+  async create(data: CreateCourierInput): Promise<Courier> {
+    requireRole('admin', 'courier_create', 'courier', {
+      action_details: { name: data.name },
+    })
+
+    try {
+      validateProfile(data)
+
+      const courier = await databaseService.createDocument<Courier>(COLLECTIONS.COURIERS, {
+        name: data.name,
+        prefix: data.prefix || null,
+        pattern: data.pattern || null,
+        length: data.length ?? null,
+        check_digit: data.check_digit ?? null,
+      })
+
+      auditLogService.log('courier_create', 'courier', {
+        resource_id: courier.$id,
+        action_details: { ...data },
+      }).catch(console.error)
+
+      return courier
+    } catch (error) {
+      auditLogService.log('courier_create', 'courier', {
+        action_details: { ...data },
+        status: 'failure',
+        error_message: error instanceof Error ? error.message : 'Unknown error',
+      }).catch(console.error)
+      throw error
+    }
+  },
+
+  /**
+   * Update a courier profile
+   */
+  async update(courierId: string, data: UpdateCourierInput): Promise<Courier> {
+    requireRole('admin', 'courier_update', 'courier', { resource_id: courierId })
+
+    try {
+      validateProfile(data, await this.getById(courierId))
+
+      const courier = await databaseService.updateDocument<Courier>(
+        COLLECTIONS.COURIERS,
+        courierId,
+        data
+      )
+
+      auditLogService.log('courier_update', 'courier', {
+        resource_id: courierId,
+        action_details: { updates: data, name: courier.name },
+      }).catch(console.error)
+
+      return courier
+    } catch (error) {
+      auditLogService.log('courier_update', 'courier', {
+        resource_id: courierId,
+        action_details: { updates: data },
+        status: 'failure',
+        error_message: error instanceof Error ? error.message : 'Unknown error',
+      }).catch(console.error)
+      throw error
+    }
+  },
+
+  /**
+   * Delete a courier profile
+   * Packaging records keep the courier ID they were saved with
+   */
+  async delete(courierId: string): Promise<void> {
+    requireRole('admin', 'courier_delete', 'courier', { resource_id: courierId })
+
+    try {
+      await databaseService.deleteDocument(COLLECTIONS.COURIERS, courierId)
+
+      auditLogService.log('courier_delete', 'courier', {
+        resource_id: courierId,
+      }).catch(console.error)
+    } catch (error) {
+      auditLogService.log('courier_delete', 'courier', {
+        resource_id: courierId,
+        status: 'failure',
+        error_message: error instanceof Error ? error.message : 'Unknown error',
+      }).catch(console.error)
+      throw error
+    }
+  },
+}
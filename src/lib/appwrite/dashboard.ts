@@ -0,0 +1,137 @@
+import { eachDayOfInterval, format, parseISO } from 'date-fns'
+
+import { packagingRecordService } from './packaging'
+import { packagingCacheService } from './packaging-cache'
+import { productService } from './products'
+import { getTodayDate } from '@/lib/utils'
+
+import type { PackagingStats } from '@/types/dashboard'
+import type { PackagingItem, PackagingRecord } from '@/types/packaging'
+
+// Number of days fetched in parallel when loading a date range
+const DAY_BATCH_SIZE = 7
+
+// Items carry their product name from the cache or the pack-time snapshot
+type DashboardRecord = PackagingRecord & {
+  items: PackagingItem[]
+}
+
+/**
+ * Aggregate packaging records into dashboard statistics
+ * Pure function - records are grouped by their packaging_date
+ */
+export function summarizePackaging(
+  startDate: string,
+  endDate: string,
+  records: DashboardRecord[],
+  topLimit = 10
+): PackagingStats {
+  const days = eachDayOfInterval({
+    start: parseISO(startDate),
+    end: parseISO(endDate),
+  }).map((day) => ({ date: format(day, 'yyyy-MM-dd'), waybills: 0, items: 0 }))
+  const dayIndex = new Map(days.map((day, index) => [day.date, index]))
+
+  const itemsByHour = Array.from({ length: 24 }, () => 0)
+  const productCounts = new Map<string, { name: string; quantity: number }>()
+
+  for (const record of records) {
+    const index = dayIndex.get(record.packaging_date)
+    if (index === undefined) continue
+
+    days[index].waybills += 1
+    days[index].items += record.items.length
+
+    for (const item of record.items) {
+      const scannedAt = new Date(item.scanned_at)
+      if (!Number.isNaN(scannedAt.getTime())) {
+        itemsByHour[scannedAt.getHours()] += 1
+      }
+
+      const existing = productCounts.get(item.product_barcode)
+      if (existing) {
+        existing.quantity += 1
+        if (!existing.name && item.product_name) {
+          existing.name = item.product_name
+        }
+      } else {
+        productCounts.set(item.product_barcode, {
+          name: item.product_name ?? '',
+          quantity: 1,
+        })
+      }
+    }
+  }
+
+  const topProducts = Array.from(productCounts.entries())
+    .map(([barcode, { name, quantity }]) => ({ barcode, name, quantity }))
+    .sort((a, b) => b.quantity - a.quantity || a.barcode.localeCompare(b.barcode))
+    .slice(0, topLimit)
+
+  return {
+    startDate,
+    endDate,
+    totalWaybills: days.reduce((sum, day) => sum + day.waybills, 0),
+    totalItems: days.reduce((sum, day) => sum + day.items, 0),
+    days,
+    itemsByHour,
+    topProducts,
+  }
+}
+
+export const dashboardService = {
+  /**
+   * Load packaging records for a single day
+   * Today is always read live; past days use packaging_cache and fall back to
+   * the database when the day has no cache, an outdated one or one written
+   * before the day ended
+   */
+  async getRecordsForDate(date: string): Promise<DashboardRecord[]> {
+    if (date !== getTodayDate()) {
+      const cached = await packagingCacheService.get(date)
+      if (cached !== null) {
+        return cached
+      }
+    }
+    return packagingRecordService.listByDate(date)
+  },
+
+  /**
+   * Get aggregated packaging statistics for a date range (inclusive)
+   */
+  async getPackagingStats(
+    startDate: string,
+    endDate: string,
+    topLimit = 10
+  ): Promise<PackagingStats> {
+    const dates = eachDayOfInterval({
+      start: parseISO(startDate),
+      end: parseISO(endDate),
+    }).map((day) => format(day, 'yyyy-MM-dd'))
+
+    const records: DashboardRecord[] = []
+    for (let i = 0; i < dates.length; i += DAY_BATCH_SIZE) {
+      const batch = dates.slice(i, i + DAY_BATCH_SIZE)
+      const results = await Promise.all(batch.map((date) => this.getRecordsForDate(date)))
+      for (const dayRecords of results) {
+        records.push(...dayRecords)
+      }
+    }
+
+    const stats = summarizePackaging(startDate, endDate, records, topLimit)
+
+    // Live records carry no product names - resolve them for the top products only
+    const unnamed = stats.topProducts.filter((p) => !p.name).map((p) => p.barcode)
+    if (unnamed.length > 0) {
+      const result = await productService.list({ barcodes: unnamed, limit: unnamed.length })
+      const names = new Map(result.documents.map((p) => [p.barcode, p.name]))
+      for (const product of stats.topProducts) {
+        if (!product.name) {
+          product.name = names.get(product.barcode) ?? 'Unknown Product'
+        }
+      }
+    }
+
+    return stats
+  },
+}
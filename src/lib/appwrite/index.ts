@@ -6,7 +6,28 @@ export { databaseService } from './database'
 export type { Document } from './database'
 export { storageService } from './storage'
 export type { File } from './storage'
-export { productService, productComponentService } from './products'
+export {
+  productService,
+  productComponentService,
+  productBarcodeService,
+  parseBarcodeAliases,
+  formatBarcodeAliases,
+  parseBundleComponents,
+  orderImportedBundles,
+  calculateBuildableQuantity,
+  calculateBuildableQuantities,
+} from './products'
+export { locationService, locationStockService } from './locations'
+export { courierService, checkWaybill } from './couriers'
+export { stockMovementService } from './stock-movements'
+export { packagingDraftService } from './packaging-drafts'
+export { prealertService, checkPrealert, getScanFlags } from './prealerts'
+export { receivingService, mergeReceivingLines } from './receiving'
+export { stocktakeService, getStocktakeVariance, summarizeStocktake } from './stocktakes'
+export { reportScheduleService, getNextRunAt, parseRecipients } from './report-schedules'
+export { reportTemplateService, parseReportDefinition } from './report-templates'
+export { realtimeService } from './realtime'
+export type { DocumentChange, DocumentChangeType } from './realtime'
 export { jobService } from './jobs'
 export {
   auditLogService,
@@ -1,15 +1,17 @@
 import { functions, storage, ExecutionMethod, ID } from './config'
 import { databaseService, Query } from './database'
 import { auditLogService, getAuditUserContext } from './audit-log'
+import { requireRole } from './roles'
 
 import type {
+  ExportFormat,
   ImportJob,
   JobAction,
   JobStatus,
   ParsedJob,
   QueueJobResponse,
 } from '@/types/job'
-import { COLLECTIONS } from '@/types/job'
+import { COLLECTIONS, EXPORT_FILE_TYPES } from '@/types/job'
 
 const FUNCTION_ID = import.meta.env.VITE_APPWRITE_QUEUE_FUNCTION_ID || 'queue-product-job'
 const DELETE_REPORT_FUNCTION_ID = import.meta.env.VITE_APPWRITE_DELETE_REPORT_FUNCTION_ID || 'delete-report'
@@ -31,6 +33,10 @@ export const jobService = {
    * Upload file for import and queue the import job
    */
   async queueImport(file: File, userId: string): Promise<QueueJobResponse> {
+    requireRole('supervisor', 'job_queue_import', 'job', {
+      action_details: { fileName: file.name },
+    })
+
     try {
       // Upload file to storage first
       const uploadedFile = await storage.createFile(BUCKET_ID, 'unique()', file)
@@ -86,17 +92,80 @@ export const jobService = {
   },
 
   /**
-   * Queue an export job
+   * Upload an order pre-alert file (Excel or CSV) and queue its import
+   */
+  async queuePrealertImport(file: File, userId: string): Promise<QueueJobResponse> {
+    requireRole('supervisor', 'job_queue_prealert_import', 'job', {
+      action_details: { fileName: file.name },
+    })
+
+    try {
+      // Upload file to storage first
+      const uploadedFile = await storage.createFile(BUCKET_ID, 'unique()', file)
+
+      const execution = await functions.createExecution(
+        FUNCTION_ID,
+        JSON.stringify({
+          action: 'import-prealerts',
+          fileId: uploadedFile.$id,
+          userId,
+        }),
+        false, // async
+        '/', // path
+        ExecutionMethod.POST // method
+      )
+
+      const response = JSON.parse(execution.responseBody) as QueueJobResponse
+
+      if (!response.success) {
+        // Clean up uploaded file on failure
+        try {
+          await storage.deleteFile(BUCKET_ID, uploadedFile.$id)
+        } catch {
+          // Ignore cleanup errors
+        }
+        throw new Error(response.error || 'Failed to queue pre-alert import job')
+      }
+
+      auditLogService.log('job_queue_prealert_import', 'job', {
+        resource_id: response.jobId,
+        action_details: {
+          action: 'import-prealerts',
+          fileId: uploadedFile.$id,
+          fileName: file.name,
+          fileSize: file.size,
+        },
+      }).catch(console.error)
+
+      return response
+    } catch (error) {
+      auditLogService.log('job_queue_prealert_import', 'job', {
+        action_details: {
+          action: 'import-prealerts',
+          fileName: file.name,
+        },
+        status: 'failure',
+        error_message: error instanceof Error ? error.message : 'Unknown error',
+      }).catch(console.error)
+      throw error
+    }
+  },
+
+  /**
+   * Queue an export job (Excel, CSV or JSON of the product catalog)
    */
   async queueExport(
     userId: string,
-    filters?: { type?: 'single' | 'bundle' }
+    filters?: { type?: 'single' | 'bundle' },
+    format: Exclude<ExportFormat, 'pdf'> = 'excel'
   ): Promise<QueueJobResponse> {
+    const action: JobAction = `export-${format}`
+
     try {
       const execution = await functions.createExecution(
         FUNCTION_ID,
         JSON.stringify({
-          action: 'export-excel',
+          action,
           userId,
           filters,
         }),
@@ -126,8 +195,9 @@ export const jobService = {
       auditLogService.log('job_queue_export', 'job', {
         resource_id: response.jobId,
         action_details: {
-          action: 'export-excel',
+          action,
           filters,
+          format,
         },
       }).catch(console.error)
 
@@ -135,8 +205,9 @@ export const jobService = {
     } catch (error) {
       auditLogService.log('job_queue_export', 'job', {
         action_details: {
-          action: 'export-excel',
+          action,
           filters,
+          format,
         },
         status: 'failure',
         error_message: error instanceof Error ? error.message : 'Unknown error',
@@ -147,14 +218,21 @@ export const jobService = {
 
   /**
    * Queue a report export job
+   * Without a template the standard report is generated
    */
   async queueReportExport(
     userId: string,
     startDate: string,
     endDate: string,
-    format: 'excel' | 'pdf' = 'excel'
+    format: ExportFormat = 'excel',
+    courierId?: string,
+    templateId?: string
   ): Promise<QueueJobResponse> {
-    const action = format === 'pdf' ? 'export-reporting-pdf' : 'export-reporting-excel'
+    requireRole('supervisor', 'job_queue_report_export', 'job', {
+      action_details: { startDate, endDate, format, courierId, templateId },
+    })
+
+    const action: JobAction = `export-reporting-${format}`
     // Pre-generate job ID so we can return it immediately with async execution
     const jobId = ID.unique()
 
@@ -168,6 +246,8 @@ export const jobService = {
           startDate,
           endDate,
           format,
+          courierId, // Only records of this courier (all couriers if omitted)
+          templateId, // Report template to lay the report out with
           jobId, // Pass pre-generated job ID
         }),
         true, // async execution - function runs in background
@@ -184,6 +264,8 @@ export const jobService = {
           startDate,
           endDate,
           format,
+          courierId,
+          templateId,
         },
       }).catch(console.error)
 
@@ -195,6 +277,8 @@ export const jobService = {
           startDate,
           endDate,
           format,
+          courierId,
+          templateId,
         },
         status: 'failure',
         error_message: error instanceof Error ? error.message : 'Unknown error',
@@ -203,6 +287,159 @@ export const jobService = {
     }
   },
 
+  /**
+   * Queue a receiving export job (Excel of every receiving in the date range)
+   */
+  async queueReceivingExport(
+    userId: string,
+    startDate: string,
+    endDate: string
+  ): Promise<QueueJobResponse> {
+    requireRole('supervisor', 'job_queue_receiving_export', 'job', {
+      action_details: { startDate, endDate },
+    })
+
+    const action: JobAction = 'export-reporting-receiving'
+    // Pre-generate job ID so we can return it immediately with async execution
+    const jobId = ID.unique()
+
+    try {
+      await functions.createExecution(
+        FUNCTION_ID,
+        JSON.stringify({
+          action,
+          userId,
+          startDate,
+          endDate,
+          jobId,
+        }),
+        true, // async execution - function runs in background
+        '/', // path
+        ExecutionMethod.POST // method
+      )
+
+      auditLogService.log('job_queue_receiving_export', 'job', {
+        resource_id: jobId,
+        action_details: { action, startDate, endDate },
+      }).catch(console.error)
+
+      return { success: true, jobId, action, status: 'pending' }
+    } catch (error) {
+      auditLogService.log('job_queue_receiving_export', 'job', {
+        action_details: { action, startDate, endDate },
+        status: 'failure',
+        error_message: error instanceof Error ? error.message : 'Unknown error',
+      }).catch(console.error)
+      throw error
+    }
+  },
+
+  /**
+   * Queue a stocktake variance report job
+   */
+  async queueStocktakeExport(
+    userId: string,
+    stocktakeId: string,
+    stocktakeName: string,
+    format: 'excel' | 'pdf' = 'excel'
+  ): Promise<QueueJobResponse> {
+    requireRole('supervisor', 'job_queue_stocktake_export', 'job', {
+      resource_id: stocktakeId,
+      action_details: { stocktakeName, format },
+    })
+
+    const action: JobAction =
+      format === 'pdf' ? 'export-reporting-stocktake-pdf' : 'export-reporting-stocktake-excel'
+    // Pre-generate job ID so we can return it immediately with async execution
+    const jobId = ID.unique()
+
+    try {
+      await functions.createExecution(
+        FUNCTION_ID,
+        JSON.stringify({
+          action,
+          userId,
+          stocktakeId,
+          stocktakeName,
+          jobId,
+        }),
+        true, // async execution - function runs in background
+        '/', // path
+        ExecutionMethod.POST // method
+      )
+
+      auditLogService.log('job_queue_stocktake_export', 'job', {
+        resource_id: jobId,
+        action_details: { action, stocktakeId, stocktakeName },
+      }).catch(console.error)
+
+      return { success: true, jobId, action, status: 'pending' }
+    } catch (error) {
+      auditLogService.log('job_queue_stocktake_export', 'job', {
+        action_details: { action, stocktakeId, stocktakeName },
+        status: 'failure',
+        error_message: error instanceof Error ? error.message : 'Unknown error',
+      }).catch(console.error)
+      throw error
+    }
+  },
+
+  /**
+   * Queue a job that generates a packaging report and emails it once the file
+   * is ready, tracked as one job through its 'generating' and 'emailing' phases
+   */
+  async queueReportEmail(
+    userId: string,
+    startDate: string,
+    endDate: string,
+    format: ExportFormat,
+    recipients: string[],
+    courierId?: string,
+    templateId?: string
+  ): Promise<QueueJobResponse> {
+    requireRole('supervisor', 'job_queue_report_email', 'job', {
+      action_details: { startDate, endDate, format, courierId, templateId, recipientCount: recipients.length },
+    })
+
+    const action: JobAction = 'export-reporting-email'
+    // Pre-generate job ID so we can return it immediately with async execution
+    const jobId = ID.unique()
+
+    try {
+      await functions.createExecution(
+        FUNCTION_ID,
+        JSON.stringify({
+          action,
+          userId,
+          startDate,
+          endDate,
+          format,
+          courierId, // Only records of this courier (all couriers if omitted)
+          templateId, // Report template to lay the report out with
+          recipients,
+          jobId,
+        }),
+        true, // async execution - function runs in background
+        '/', // path
+        ExecutionMethod.POST // method
+      )
+
+      auditLogService.log('job_queue_report_email', 'job', {
+        resource_id: jobId,
+        action_details: { action, startDate, endDate, format, courierId, templateId, recipientCount: recipients.length },
+      }).catch(console.error)
+
+      return { success: true, jobId, action, status: 'pending' }
+    } catch (error) {
+      auditLogService.log('job_queue_report_email', 'job', {
+        action_details: { action, startDate, endDate, format, courierId, templateId, recipientCount: recipients.length },
+        status: 'failure',
+        error_message: error instanceof Error ? error.message : 'Unknown error',
+      }).catch(console.error)
+      throw error
+    }
+  },
+
   /**
    * Queue a send report email job
    */
@@ -212,6 +449,10 @@ export const jobService = {
     recipients: string[],
     dateRange: string
   ): Promise<QueueJobResponse> {
+    requireRole('supervisor', 'job_queue_send_email', 'job', {
+      action_details: { fileId, recipientCount: recipients.length, dateRange },
+    })
+
     try {
       const execution = await functions.createExecution(
         FUNCTION_ID,
@@ -437,21 +678,25 @@ export const jobService = {
   },
 
   /**
-   * Download export file
+   * Download export file, typed with the MIME type of its format when given
    */
-  async downloadExport(fileId: string): Promise<Blob> {
+  async downloadExport(fileId: string, format?: ExportFormat): Promise<Blob> {
     try {
       const url = storage.getFileDownload(BUCKET_ID, fileId)
       const response = await fetch(url)
       if (!response.ok) {
         throw new Error(`Failed to download file: ${response.statusText}`)
       }
-      const blob = await response.blob()
+      const downloaded = await response.blob()
+      const blob = format
+        ? new Blob([downloaded], { type: EXPORT_FILE_TYPES[format].mimeType })
+        : downloaded
 
       auditLogService.log('job_download', 'job', {
         resource_id: fileId,
         action_details: {
           fileId,
+          format,
           size: blob.size,
         },
       }).catch(console.error)
@@ -528,6 +773,10 @@ export const jobService = {
     jobIds: string[],
     fileIds: (string | null)[]
   ): Promise<{ success: boolean; jobsDeleted: number; filesDeleted: number }> {
+    requireRole('supervisor', 'job_delete', 'job', {
+      action_details: { job_ids: jobIds },
+    })
+
     const userContext = getAuditUserContext()
 
     const payload = {
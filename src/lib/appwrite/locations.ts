@@ -0,0 +1,355 @@
+import { databaseService, Query } from './database'
+import { auditLogService } from './audit-log'
+import { requireRole } from './roles'
+
+import type {
+  CreateLocationInput,
+  Location,
+  ProductStock,
+  UpdateLocationInput,
+} from '@/types/location'
+import { COLLECTIONS } from '@/types/location'
+import type { Product } from '@/types/product'
+
+// Per-location stock rows read per page
+const STOCK_PAGE_SIZE = 1000
+// Appwrite Query.equal() has a limit of 60 values, so IDs are queried in chunks
+const QUERY_VALUES_LIMIT = 60
+
+export const locationService = {
+  /**
+   * List all locations, default location first
+   */
+  async list(): Promise<Location[]> {
+    const result = await databaseService.listDocuments<Location>(COLLECTIONS.LOCATIONS, [
+      Query.orderDesc('is_default'),
+      Query.orderAsc('name'),
+      Query.limit(100),
+    ])
+    return result.documents
+  },
+
+  /**
+   * Get a location by ID
+   */
+  async getById(locationId: string): Promise<Location> {
+    return databaseService.getDocument<Location>(COLLECTIONS.LOCATIONS, locationId)
+  },
+
+  /**
+   * Get the default location, if one is configured
+   */
+  async getDefault(): Promise<Location | null> {
+    const result = await databaseService.listDocuments<Location>(COLLECTIONS.LOCATIONS, [
+      Query.equal('is_default', true),
+      Query.limit(1),
+    ])
+    return result.documents[0] ?? null
+  },
+
+  /**
+   * Create a new location
+   */
+  async create(data: CreateLocationInput): Promise<Location> {
+    requireRole('admin', 'location_create', 'location', {
+      action_details: { name: data.name, code: data.code },
+    })
+
+    try {
+      const location = await databaseService.createDocument<Location>(COLLECTIONS.LOCATIONS, {
+        name: data.name,
+        code: data.code,
+        is_default: data.is_default ?? false,
+      })
+
+      auditLogService.log('location_create', 'location', {
+        resource_id: location.$id,
+        action_details: { name: data.name, code: data.code, is_default: location.is_default },
+      }).catch(console.error)
+
+      return location
+    } catch (error) {
+      auditLogService.log('location_create', 'location', {
+        action_details: { name: data.name, code: data.code },
+        status: 'failure',
+        error_message: error instanceof Error ? error.message : 'Unknown error',
+      }).catch(console.error)
+      throw error
+    }
+  },
+
+  /**
+   * Update a location
+   */
+  async update(locationId: string, data: UpdateLocationInput): Promise<Location> {
+    requireRole('admin', 'location_update', 'location', { resource_id: locationId })
+
+    try {
+      const location = await databaseService.updateDocument<Location>(
+        COLLECTIONS.LOCATIONS,
+        locationId,
+        data
+      )
+
+      auditLogService.log('location_update', 'location', {
+        resource_id: locationId,
+        action_details: { updates: data, name: location.name },
+      }).catch(console.error)
+
+      return location
+    } catch (error) {
+      auditLogService.log('location_update', 'location', {
+        resource_id: locationId,
+        action_details: { updates: data },
+        status: 'failure',
+        error_message: error instanceof Error ? error.message : 'Unknown error',
+      }).catch(console.error)
+      throw error
+    }
+  },
+
+  /**
+   * Delete a location
+   * The default location and locations still holding stock cannot be deleted
+   */
+  async delete(locationId: string): Promise<void> {
+    requireRole('admin', 'location_delete', 'location', { resource_id: locationId })
+
+    try {
+      const location = await this.getById(locationId)
+      if (location.is_default) {
+        throw new Error('Cannot delete the default location')
+      }
+
+      const stockRows = await locationStockService._listInternal([], locationId)
+      if (stockRows.some((row) => row.quantity > 0)) {
+        throw new Error(`Cannot delete location "${location.name}" while it still holds stock`)
+      }
+
+      for (const row of stockRows) {
+        await databaseService.deleteDocument(COLLECTIONS.PRODUCT_STOCK, row.$id)
+      }
+      await databaseService.deleteDocument(COLLECTIONS.LOCATIONS, locationId)
+
+      auditLogService.log('location_delete', 'location', {
+        resource_id: locationId,
+        action_details: { name: location.name, code: location.code },
+      }).catch(console.error)
+    } catch (error) {
+      auditLogService.log('location_delete', 'location', {
+        resource_id: locationId,
+        status: 'failure',
+        error_message: error instanceof Error ? error.message : 'Unknown error',
+      }).catch(console.error)
+      throw error
+    }
+  },
+}
+
+/**
+ * Per-location stock.
+ * Product.stock_quantity stays the total across all locations. Only
+ * non-default locations have product_stock rows; the default location
+ * holds whatever is not assigned elsewhere, so imports and stock edits
+ * that only touch the total land in the default location.
+ */
+export const locationStockService = {
+  /**
+   * Internal: List stock rows for products, optionally at a single location
+   * Pass no product IDs to list every row at the location
+   * Every row is read: pages follow a cursor until the rows run out
+   */
+  async _listInternal(productIds: string[], locationId?: string): Promise<ProductStock[]> {
+    const idChunks: Array<string[] | null> = []
+    for (let i = 0; i < productIds.length; i += QUERY_VALUES_LIMIT) {
+      idChunks.push(productIds.slice(i, i + QUERY_VALUES_LIMIT))
+    }
+    if (idChunks.length === 0) idChunks.push(null)
+
+    const rows: ProductStock[] = []
+    for (const ids of idChunks) {
+      let cursor: string | null = null
+      while (true) {
+        const queries: string[] = [Query.limit(STOCK_PAGE_SIZE)]
+        if (ids) {
+          queries.push(Query.equal('product_id', ids))
+        }
+        if (locationId) {
+          queries.push(Query.equal('location_id', locationId))
+        }
+        if (cursor) {
+          queries.push(Query.cursorAfter(cursor))
+        }
+
+        const result = await databaseService.listDocuments<ProductStock>(
+          COLLECTIONS.PRODUCT_STOCK,
+          queries
+        )
+        rows.push(...result.documents)
+        if (result.documents.length < STOCK_PAGE_SIZE) break
+        cursor = result.documents[result.documents.length - 1].$id
+      }
+    }
+    return rows
+  },
+
+  /**
+   * Internal: Add (or with a negative delta, remove) stock at a location
+   * without touching the product total. No-op for the default location.
+   */
+  async _adjustInternal(productId: string, location: Location, delta: number): Promise<void> {
+    if (location.is_default || delta === 0) return
+
+    const [row] = await this._listInternal([productId], location.$id)
+    if (row) {
+      await databaseService.updateDocument<ProductStock>(COLLECTIONS.PRODUCT_STOCK, row.$id, {
+        quantity: Math.max(0, row.quantity + delta),
+      })
+    } else if (delta > 0) {
+      await databaseService.createDocument<ProductStock>(COLLECTIONS.PRODUCT_STOCK, {
+        product_id: productId,
+        location_id: location.$id,
+        quantity: delta,
+      })
+    }
+  },
+
+  /**
+   * Get the quantity of each product held at a location
+   * Returns a map of product ID to quantity
+   */
+  async getQuantities(products: Product[], location: Location): Promise<Map<string, number>> {
+    const quantities = new Map<string, number>()
+    if (products.length === 0) return quantities
+
+    const productIds = products.map((p) => p.$id)
+
+    if (location.is_default) {
+      // Default location: total minus everything assigned to other locations
+      const rows = await this._listInternal(productIds)
+      const assigned = new Map<string, number>()
+      for (const row of rows) {
+        assigned.set(row.product_id, (assigned.get(row.product_id) || 0) + row.quantity)
+      }
+      for (const product of products) {
+        quantities.set(
+          product.$id,
+          Math.max(0, product.stock_quantity - (assigned.get(product.$id) || 0))
+        )
+      }
+      return quantities
+    }
+
+    const rows = await this._listInternal(productIds, location.$id)
+    for (const product of products) {
+      quantities.set(product.$id, 0)
+    }
+    for (const row of rows) {
+      quantities.set(row.product_id, row.quantity)
+    }
+    return quantities
+  },
+
+  /**
+   * Return copies of the products with stock_quantity set to the
+   * quantity held at the location (for stock checks while packing)
+   */
+  async applyToProducts<T extends Product>(products: T[], location: Location): Promise<T[]> {
+    const quantities = await this.getQuantities(products, location)
+    return products.map((product) => ({
+      ...product,
+      stock_quantity: quantities.get(product.$id) ?? 0,
+    }))
+  },
+
+  /**
+   * Get the quantity of each product at every location in one pass
+   * Returns a map of product ID to (location ID to quantity)
+   */
+  async getStockByLocation(
+    products: Product[],
+    locations: Location[]
+  ): Promise<Map<string, Map<string, number>>> {
+    const rows = await this._listInternal([])
+    const assigned = new Map<string, Map<string, number>>()
+    for (const row of rows) {
+      const byLocation = assigned.get(row.product_id) ?? new Map<string, number>()
+      byLocation.set(row.location_id, row.quantity)
+      assigned.set(row.product_id, byLocation)
+    }
+
+    const stock = new Map<string, Map<string, number>>()
+    for (const product of products) {
+      const byLocation = new Map<string, number>()
+      let held = 0
+      for (const location of locations) {
+        if (location.is_default) continue
+        const quantity = assigned.get(product.$id)?.get(location.$id) ?? 0
+        byLocation.set(location.$id, quantity)
+        held += quantity
+      }
+      const defaultLocation = locations.find((location) => location.is_default)
+      if (defaultLocation) {
+        byLocation.set(defaultLocation.$id, Math.max(0, product.stock_quantity - held))
+      }
+      stock.set(product.$id, byLocation)
+    }
+    return stock
+  },
+
+  /**
+   * Move stock of a product between two locations
+   * The product total is unchanged
+   */
+  async transfer(
+    product: Product,
+    from: Location,
+    to: Location,
+    quantity: number
+  ): Promise<void> {
+    const details = {
+      barcode: product.barcode,
+      name: product.name,
+      from: from.name,
+      to: to.name,
+      quantity,
+    }
+
+    requireRole('supervisor', 'location_stock_transfer', 'location', {
+      resource_id: product.$id,
+      action_details: details,
+    })
+
+    try {
+      if (from.$id === to.$id) {
+        throw new Error('Source and destination locations must differ')
+      }
+      if (quantity <= 0) {
+        throw new Error('Transfer quantity must be positive')
+      }
+
+      const available = (await this.getQuantities([product], from)).get(product.$id) ?? 0
+      if (available < quantity) {
+        throw new Error(
+          `Insufficient stock for ${product.name} at ${from.name}: required ${quantity}, available ${available}`
+        )
+      }
+
+      await this._adjustInternal(product.$id, from, -quantity)
+      await this._adjustInternal(product.$id, to, quantity)
+
+      auditLogService.log('location_stock_transfer', 'location', {
+        resource_id: product.$id,
+        action_details: details,
+      }).catch(console.error)
+    } catch (error) {
+      auditLogService.log('location_stock_transfer', 'location', {
+        resource_id: product.$id,
+        action_details: details,
+        status: 'failure',
+        error_message: error instanceof Error ? error.message : 'Unknown error',
+      }).catch(console.error)
+      throw error
+    }
+  },
+}
@@ -1,7 +1,19 @@
 import { databaseService, Query } from './database'
 
 import type { PackagingCache, PackagingRecordWithProducts } from '@/types/packaging'
-import { COLLECTIONS } from '@/types/packaging'
+import { COLLECTIONS, PACKAGING_CACHE_VERSION } from '@/types/packaging'
+
+const LAST_DAY_END_MS = 36 * 60 * 60 * 1000 // A date ends last at UTC-12
+
+/**
+ * Whether a cached day can stand in for its records: it must have been
+ * written after the date ended in every time zone, or waybills packed
+ * later that day would be missing
+ * Mirrors isCacheComplete in trigger/lib/packaging-report-data.ts
+ */
+export function isCacheComplete(cacheDate: string, cachedAt: string): boolean {
+  return Date.parse(cachedAt) >= Date.parse(`${cacheDate}T00:00:00.000Z`) + LAST_DAY_END_MS
+}
 
 /**
  * Cache service for packaging data using Appwrite database
@@ -13,6 +25,7 @@ export const packagingCacheService = {
    * Get cached packaging data for a specific date
    * @param dateString - Date in YYYY-MM-DD format
    * @returns Cached packaging records with product info or null if not cached
+   * (or cached in an older layout, or before the day ended)
    */
   async get(dateString: string): Promise<PackagingRecordWithProducts[] | null> {
     try {
@@ -28,6 +41,15 @@ export const packagingCacheService = {
       }
 
       const cache = result.documents[0]
+      if (cache.schema_version !== PACKAGING_CACHE_VERSION) {
+        console.log(`[Cache] MISS - Outdated cache for ${dateString}`)
+        return null
+      }
+      if (!isCacheComplete(dateString, cache.cached_at)) {
+        console.log(`[Cache] MISS - Cache for ${dateString} was written before the day ended`)
+        return null
+      }
+
       const parsed = JSON.parse(cache.data) as PackagingRecordWithProducts[]
       console.log(`[Cache] HIT - Found ${parsed.length} records for ${dateString}`)
       return parsed
@@ -57,6 +79,7 @@ export const packagingCacheService = {
         cache_date: dateString,
         data: JSON.stringify(data),
         cached_at: new Date().toISOString(),
+        schema_version: PACKAGING_CACHE_VERSION,
       }
 
       if (existing.documents.length > 0) {
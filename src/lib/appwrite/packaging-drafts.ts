@@ -0,0 +1,104 @@
+import { AppwriteException } from 'appwrite'
+
+import { databaseService, Query } from './database'
+import { getAuditUserContext } from './audit-log'
+
+import type { PackagingDraft, PackagingDraftClaim } from '@/types/packaging'
+import { COLLECTIONS } from '@/types/packaging'
+
+// localStorage key for the ID that tells this browser's drafts apart
+const STATION_STORAGE_KEY = 'packaging-station-id'
+
+// A draft this old belongs to a station that closed without releasing it
+export const DRAFT_TTL_MS = 60 * 60 * 1000
+
+/**
+ * Get the ID of this packing station, creating it on first use
+ * Two browsers signed in as the same user are still different stations
+ */
+export function getStationId(): string {
+  let stationId = localStorage.getItem(STATION_STORAGE_KEY)
+  if (!stationId) {
+    stationId = `station_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`
+    localStorage.setItem(STATION_STORAGE_KEY, stationId)
+  }
+  return stationId
+}
+
+/**
+ * Whether a draft is still being packed
+ */
+export function isDraftActive(draft: PackagingDraft, now = Date.now()): boolean {
+  return now - new Date(draft.claimed_at).getTime() < DRAFT_TTL_MS
+}
+
+export const packagingDraftService = {
+  /**
+   * Get the draft of a waybill on a date, if any station holds one
+   */
+  async getByDateAndWaybill(date: string, waybill: string): Promise<PackagingDraft | null> {
+    const result = await databaseService.listDocuments<PackagingDraft>(
+      COLLECTIONS.PACKAGING_DRAFTS,
+      [
+        Query.equal('packaging_date', date),
+        Query.equal('waybill_number', waybill),
+        Query.limit(1),
+      ]
+    )
+    return result.documents[0] ?? null
+  },
+
+  /**
+   * Claim a waybill for this station while it is being packed
+   * Fails when another station holds an active draft of the waybill;
+   * this station's own or expired drafts are taken over
+   */
+  async claim(date: string, waybill: string): Promise<PackagingDraftClaim> {
+    const stationId = getStationId()
+
+    const held = await this.getByDateAndWaybill(date, waybill)
+    if (held) {
+      if (held.station_id !== stationId && isDraftActive(held)) {
+        return { claimed: false, draft: held }
+      }
+      await databaseService.deleteDocument(COLLECTIONS.PACKAGING_DRAFTS, held.$id)
+    }
+
+    const userContext = getAuditUserContext()
+
+    try {
+      const draft = await databaseService.createDocument<PackagingDraft>(
+        COLLECTIONS.PACKAGING_DRAFTS,
+        {
+          packaging_date: date,
+          waybill_number: waybill,
+          station_id: stationId,
+          user_id: userContext?.user_id ?? '',
+          user_email: userContext?.user_email ?? null,
+          claimed_at: new Date().toISOString(),
+        }
+      )
+      return { claimed: true, draft }
+    } catch (error) {
+      // Another station claimed it between the lookup and the create
+      if (error instanceof AppwriteException && error.code === 409) {
+        const winner = await this.getByDateAndWaybill(date, waybill)
+        if (winner) return { claimed: false, draft: winner }
+      }
+      throw error
+    }
+  },
+
+  /**
+   * Release a draft once its waybill is completed or abandoned
+   */
+  async release(draftId: string): Promise<void> {
+    try {
+      await databaseService.deleteDocument(COLLECTIONS.PACKAGING_DRAFTS, draftId)
+    } catch (error) {
+      // Already released, or taken over after expiring
+      if (error instanceof AppwriteException && error.code === 404) return
+      throw error
+    }
+  },
+}
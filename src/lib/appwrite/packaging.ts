@@ -2,10 +2,13 @@ import { databaseService, Query } from './database'
 import { packagingCacheService } from './packaging-cache'
 import { productService } from './products'
 import { auditLogService, getAuditUserContext } from './audit-log'
-import { functions } from './config'
+import { functions, ID } from './config'
+import { requireRole } from './roles'
 import { getTodayDate } from '@/lib/utils'
 
 import type {
+  BundleComponentInfo,
+  ComponentSnapshot,
   CreatePackagingItemInput,
   CreatePackagingRecordInput,
   PackagingItem,
@@ -18,11 +21,27 @@ import { COLLECTIONS } from '@/types/packaging'
 import { COLLECTIONS as PRODUCT_COLLECTIONS } from '@/types/product'
 import type { Product, ProductComponent } from '@/types/product'
 
+/**
+ * Parse an item's pack-time bundle components for display
+ */
+function parseComponentsSnapshot(snapshot: string): BundleComponentInfo[] {
+  return (JSON.parse(snapshot) as ComponentSnapshot[]).map((component) => ({
+    barcode: component.barcode,
+    productName: component.product_name,
+    quantity: component.quantity,
+    unitCost: component.unit_cost,
+  }))
+}
+
 // Function IDs - configurable via environment variables
 const CREATE_FUNCTION_ID = import.meta.env.VITE_APPWRITE_CREATE_PACKAGING_FUNCTION_ID || 'create-packaging'
 const UPDATE_FUNCTION_ID = import.meta.env.VITE_APPWRITE_UPDATE_PACKAGING_FUNCTION_ID || 'update-packaging'
 const DELETE_FUNCTION_ID = import.meta.env.VITE_APPWRITE_DELETE_PACKAGING_FUNCTION_ID || 'delete-packaging'
 
+// Attempts for a waybill commit when the function cannot be reached
+const COMMIT_ATTEMPTS = 3
+const COMMIT_RETRY_DELAY_MS = 1000
+
 export const packagingRecordService = {
   /**
    * Create a new packaging record
@@ -124,21 +143,38 @@ export const packagingRecordService = {
    * Create a packaging record with all items via Appwrite Function
    * This uses the Server SDK (no rate limits) for bulk operations
    *
+   * The function commits the record, items and stock all-or-nothing. The
+   * idempotency key makes retries safe: a waybill already committed under the
+   * key is returned as-is instead of deducting stock twice. Pass the same key
+   * when retrying the same waybill; unreachable-function errors are retried here.
+   *
    * @param data - Packaging record data (date, waybill)
    * @param items - Array of items to create
    * @param stockUpdates - Array of stock updates to apply
+   * @param idempotencyKey - Key identifying this waybill commit (generated if omitted)
    * @returns Created record and items
    */
   async createWithItemsViaFunction(
     data: CreatePackagingRecordInput,
     items: Array<{ product_barcode: string; product_name?: string; scanned_at?: string }>,
-    stockUpdates?: Array<{ product_id: string; deduct_amount: number }>
-  ): Promise<{ record: PackagingRecord; items: PackagingItem[]; stockUpdateSuccess: boolean }> {
+    stockUpdates?: Array<{ product_id: string; deduct_amount: number }>,
+    idempotencyKey: string = ID.unique()
+  ): Promise<{
+    record: PackagingRecord
+    items: PackagingItem[]
+    stockUpdateSuccess: boolean
+    replayed: boolean
+  }> {
     const userContext = getAuditUserContext()
 
     const payload = {
       packaging_date: data.packaging_date,
       waybill_number: data.waybill_number,
+      location_id: data.location_id,
+      courier_id: data.courier_id,
+      started_at: data.started_at,
+      finished_at: data.finished_at,
+      idempotency_key: idempotencyKey,
       items,
       stock_updates: stockUpdates || [],
       user_id: userContext?.user_id || '',
@@ -147,11 +183,22 @@ export const packagingRecordService = {
     }
 
     try {
-      const execution = await functions.createExecution(
-        CREATE_FUNCTION_ID,
-        JSON.stringify(payload),
-        false // synchronous execution
-      )
+      // Only failures to reach the function are retried; the key makes a
+      // repeated execution replay the first one if it did get through
+      let execution: Awaited<ReturnType<typeof functions.createExecution>> | null = null
+      for (let attempt = 1; execution === null; attempt++) {
+        try {
+          execution = await functions.createExecution(
+            CREATE_FUNCTION_ID,
+            JSON.stringify(payload),
+            false // synchronous execution
+          )
+        } catch (error) {
+          if (attempt >= COMMIT_ATTEMPTS) throw error
+          console.warn(`Waybill commit attempt ${attempt} failed, retrying:`, error)
+          await new Promise((resolve) => setTimeout(resolve, COMMIT_RETRY_DELAY_MS * attempt))
+        }
+      }
 
       // Parse the response
       const response = JSON.parse(execution.responseBody)
@@ -160,6 +207,12 @@ export const packagingRecordService = {
         throw new Error(response.error || 'Function execution failed')
       }
 
+      // A waybill saved for a past date (an offline one syncing late, say)
+      // would be missing from that date's cache
+      if (response.record.packaging_date !== getTodayDate()) {
+        await packagingCacheService.invalidate(response.record.packaging_date)
+      }
+
       // Map the response to our types
       // Use type assertion since function returns minimal data
       const record = {
@@ -171,10 +224,24 @@ export const packagingRecordService = {
         $permissions: [],
         packaging_date: response.record.packaging_date,
         waybill_number: response.record.waybill_number,
+        location_id: response.record.location_id ?? null,
+        courier_id: response.record.courier_id ?? null,
+        packed_by: response.record.packed_by ?? null,
+        packed_by_name: response.record.packed_by_name ?? null,
+        started_at: response.record.started_at ?? null,
+        finished_at: response.record.finished_at ?? null,
       } as unknown as PackagingRecord
 
       const createdItems: PackagingItem[] = response.items.map(
-        (item: { $id: string; packaging_record_id: string; product_barcode: string; scanned_at: string }) =>
+        (item: {
+          $id: string
+          packaging_record_id: string
+          product_barcode: string
+          scanned_at: string
+          product_name?: string | null
+          unit_cost?: number | null
+          components_snapshot?: string | null
+        }) =>
           ({
             $id: item.$id,
             $collectionId: COLLECTIONS.PACKAGING_ITEMS,
@@ -185,6 +252,9 @@ export const packagingRecordService = {
             packaging_record_id: item.packaging_record_id,
             product_barcode: item.product_barcode,
             scanned_at: item.scanned_at,
+            product_name: item.product_name ?? null,
+            unit_cost: item.unit_cost ?? null,
+            components_snapshot: item.components_snapshot ?? null,
           }) as unknown as PackagingItem
       )
 
@@ -192,6 +262,7 @@ export const packagingRecordService = {
         record,
         items: createdItems,
         stockUpdateSuccess: response.stock_updates?.success ?? true,
+        replayed: response.replayed ?? false,
       }
     } catch (error) {
       console.error('Function execution error:', error)
@@ -210,7 +281,7 @@ export const packagingRecordService = {
    */
   async updateViaFunction(
     recordId: string,
-    data?: { waybill_number: string },
+    data?: { waybill_number: string; courier_id?: string | null },
     items?: Array<{ product_barcode: string; product_name?: string; scanned_at?: string }>
   ): Promise<{ record: PackagingRecord; items: PackagingItem[] }> {
     const userContext = getAuditUserContext()
@@ -224,6 +295,9 @@ export const packagingRecordService = {
 
     if (data?.waybill_number !== undefined) {
       payload.waybill_number = data.waybill_number
+      if (data.courier_id !== undefined) {
+        payload.courier_id = data.courier_id
+      }
     }
 
     if (items !== undefined) {
@@ -260,10 +334,20 @@ export const packagingRecordService = {
         $permissions: [],
         packaging_date: response.record.packaging_date,
         waybill_number: response.record.waybill_number,
+        location_id: response.record.location_id ?? null,
+        courier_id: response.record.courier_id ?? null,
       } as unknown as PackagingRecord
 
       const updatedItems: PackagingItem[] = (response.items || []).map(
-        (item: { $id: string; packaging_record_id: string; product_barcode: string; scanned_at: string }) =>
+        (item: {
+          $id: string
+          packaging_record_id: string
+          product_barcode: string
+          scanned_at: string
+          product_name?: string | null
+          unit_cost?: number | null
+          components_snapshot?: string | null
+        }) =>
           ({
             $id: item.$id,
             $collectionId: COLLECTIONS.PACKAGING_ITEMS,
@@ -274,6 +358,9 @@ export const packagingRecordService = {
             packaging_record_id: item.packaging_record_id,
             product_barcode: item.product_barcode,
             scanned_at: item.scanned_at,
+            product_name: item.product_name ?? null,
+            unit_cost: item.unit_cost ?? null,
+            components_snapshot: item.components_snapshot ?? null,
           }) as unknown as PackagingItem
       )
 
@@ -337,6 +424,143 @@ export const packagingRecordService = {
     }
   },
 
+  /**
+   * Unpack (return) items from a shipped packaging record
+   * Packers may unpack their own waybills; anyone else's needs a supervisor
+   * - Partial return: remaining items are written back via the update-packaging function
+   * - Full return: the record is removed via the delete-packaging function
+   * Stock for the returned items is restored afterwards, with one audit entry per item
+   *
+   * @param record - The packaging record being unpacked
+   * @param returnedItemIds - IDs of the items being returned
+   * @returns Remaining item count and stock restore result
+   */
+  async unpackItems(
+    record: PackagingRecordWithProducts,
+    returnedItemIds: string[]
+  ): Promise<{ remainingCount: number; recordDeleted: boolean; stockRestoreSuccess: boolean; errors: string[] }> {
+    const returnedIds = new Set(returnedItemIds)
+    const returnedItems = record.items.filter((item) => returnedIds.has(item.$id))
+    const remainingItems = record.items.filter((item) => !returnedIds.has(item.$id))
+
+    if (returnedItems.length === 0) {
+      throw new Error('No items selected for return')
+    }
+
+    // Packers may return items of waybills they packed; others need a supervisor
+    const ownRecord = !!record.packed_by && record.packed_by === getAuditUserContext()?.user_id
+    requireRole(ownRecord ? 'packer' : 'supervisor', 'packaging_item_remove', 'packaging_item', {
+      resource_id: record.$id,
+      action_details: { waybill_number: record.waybill_number, reason: 'unpack' },
+    })
+
+    try {
+      const recordDeleted = remainingItems.length === 0
+      if (recordDeleted) {
+        // Stock is restored below, so the function must not restore it again
+        await this.deleteViaFunction(record.$id, false)
+      } else {
+        await this.updateViaFunction(
+          record.$id,
+          undefined,
+          remainingItems.map((item) => ({
+            product_barcode: item.product_barcode,
+            product_name: item.product_name,
+            scanned_at: item.scanned_at,
+          }))
+        )
+      }
+
+      // Bundles give back what they held when packed; only bundles packed
+      // before snapshots fall back to their current recipe
+      const snapshots = new Map<string, ComponentSnapshot[]>()
+      for (const item of returnedItems) {
+        if (item.components_snapshot) {
+          snapshots.set(item.$id, JSON.parse(item.components_snapshot) as ComponentSnapshot[])
+        }
+      }
+      const snapshotProducts = await productService._resolveBarcodesInternal(
+        [...snapshots.values()].flat().map((component) => component.barcode)
+      )
+      const missingErrors = [...new Set(
+        [...snapshots.values()].flat()
+          .filter((component) => !snapshotProducts.has(component.barcode))
+          .map((component) => `Product not found: ${component.product_name}`)
+      )]
+
+      const bundleBarcodes = [...new Set(
+        returnedItems
+          .filter((item) => item.is_bundle && !snapshots.has(item.$id))
+          .map((item) => item.product_barcode)
+      )]
+      const bundleComponentsMap = new Map<string, Array<{ product: Product; quantity: number }>>()
+      for (const barcode of bundleBarcodes) {
+        const bundle = await productService.getByBarcode(barcode)
+        if (bundle) {
+          const withComponents = await productService.getWithComponents(bundle.$id)
+          bundleComponentsMap.set(barcode, withComponents.components ?? [])
+        }
+      }
+
+      // Returned stock goes back to the location it was packed from
+      const stockResult = await productService.restoreStockForPackaging(
+        returnedItems.map((item) => {
+          const snapshot = snapshots.get(item.$id)
+          if (snapshot) {
+            return {
+              product_barcode: item.product_barcode,
+              is_bundle: true,
+              bundle_components: snapshot.flatMap((component) => {
+                const resolved = snapshotProducts.get(component.barcode)
+                return resolved ? [{ product: resolved.product, quantity: component.quantity }] : []
+              }),
+            }
+          }
+          return {
+            product_barcode: item.product_barcode,
+            is_bundle: item.is_bundle,
+            bundle_components: bundleComponentsMap.get(item.product_barcode),
+          }
+        }),
+        record.location_id ?? undefined,
+        { reason: 'unpack', sourceId: record.$id }
+      )
+
+      for (const item of returnedItems) {
+        auditLogService.log('packaging_item_remove', 'packaging_item', {
+          resource_id: item.$id,
+          action_details: {
+            packaging_record_id: record.$id,
+            packaging_date: record.packaging_date,
+            waybill_number: record.waybill_number,
+            product_barcode: item.product_barcode,
+            product_name: item.product_name,
+            reason: 'unpack',
+          },
+        }).catch(console.error)
+      }
+
+      return {
+        remainingCount: remainingItems.length,
+        recordDeleted,
+        stockRestoreSuccess: stockResult.success && missingErrors.length === 0,
+        errors: [...missingErrors, ...stockResult.errors],
+      }
+    } catch (error) {
+      auditLogService.log('packaging_item_remove', 'packaging_item', {
+        resource_id: record.$id,
+        action_details: {
+          waybill_number: record.waybill_number,
+          returned_items: returnedItems.map((i) => i.product_barcode),
+          reason: 'unpack',
+        },
+        status: 'failure',
+        error_message: error instanceof Error ? error.message : 'Unknown error',
+      }).catch(console.error)
+      throw error
+    }
+  },
+
   /**
    * Get a packaging record by ID
    */
@@ -395,6 +619,29 @@ export const packagingRecordService = {
     return result.documents[0] ?? null
   },
 
+  /**
+   * Get the most recent packaging record for a waybill with its items and product info
+   * Used by the unpack workflow to look up a shipped waybill by scan
+   */
+  async getLatestByWaybill(waybill: string): Promise<PackagingRecordWithProducts | null> {
+    const result = await databaseService.listDocuments<PackagingRecord>(
+      COLLECTIONS.PACKAGING_RECORDS,
+      [
+        Query.equal('waybill_number', waybill),
+        Query.orderDesc('packaging_date'),
+        Query.limit(1),
+      ]
+    )
+    const record = result.documents[0]
+    if (!record) {
+      return null
+    }
+
+    const items = await packagingItemService.listByRecordId(record.$id)
+    const [enriched] = await this.enrichWithProducts([{ ...record, items }])
+    return enriched
+  },
+
   /**
    * List all packaging records for a specific date (direct database query)
    * Use getPackagingByDate for cache-aside pattern
@@ -457,18 +704,36 @@ export const packagingRecordService = {
   async enrichWithProducts(
     records: PackagingRecordWithItems[]
   ): Promise<PackagingRecordWithProducts[]> {
-    // Collect all unique barcodes
+    const enrichedItems = await this.enrichItems(records.flatMap((record) => record.items))
+
+    // Items come back in order, so each record takes the next slice
+    let offset = 0
+    return records.map((record) => {
+      const items = enrichedItems.slice(offset, offset + record.items.length)
+      offset += record.items.length
+      return { ...record, items }
+    })
+  },
+
+  /**
+   * Enrich packaging items with product names and bundle components
+   * Items snapshotted at pack time keep the product as it was then; only
+   * older items are looked up from the current products
+   * Returns the items in the order given
+   */
+  async enrichItems(items: PackagingItem[]): Promise<PackagingItemWithProduct[]> {
+    if (items.length === 0) {
+      return []
+    }
+
+    // Collect all unique barcodes of items without a snapshot
     const allBarcodes = new Set<string>()
-    for (const record of records) {
-      for (const item of record.items) {
+    for (const item of items) {
+      if (item.product_name == null) {
         allBarcodes.add(item.product_barcode)
       }
     }
 
-    if (allBarcodes.size === 0) {
-      return records.map((record) => ({ ...record, items: [] }))
-    }
-
     // Batch fetch all products
     const productMap = new Map<string, Product>()
     const barcodeArray = Array.from(allBarcodes)
@@ -495,24 +760,32 @@ export const packagingRecordService = {
     >()
 
     if (bundleProducts.length > 0) {
-      // Batch fetch ALL components for all bundles in ONE query
-      const bundleIds = bundleProducts.map((b) => b.$id)
-      const allComponentsResult = await databaseService.listDocuments<ProductComponent>(
-        PRODUCT_COLLECTIONS.PRODUCT_COMPONENTS,
-        [
-          Query.equal('parent_product_id', bundleIds),
-          Query.limit(500),
-        ]
-      )
+      // Batch fetch components level by level: ALL components of a level's
+      // bundles in ONE query, then nested bundles on the next level
+      const componentsByParent = new Map<string, ProductComponent[]>()
+      const childProductMap = new Map<string, Product>()
+      let parentIds = bundleProducts.map((b) => b.$id)
+
+      while (parentIds.length > 0) {
+        const allComponentsResult = await databaseService.listDocuments<ProductComponent>(
+          PRODUCT_COLLECTIONS.PRODUCT_COMPONENTS,
+          [
+            Query.equal('parent_product_id', parentIds),
+            Query.limit(500),
+          ]
+        )
+        for (const component of allComponentsResult.documents) {
+          const siblings = componentsByParent.get(component.parent_product_id) ?? []
+          siblings.push(component)
+          componentsByParent.set(component.parent_product_id, siblings)
+        }
 
-      // Collect all child product IDs
-      const childProductIds = [...new Set(
-        allComponentsResult.documents.map((c) => c.child_product_id)
-      )]
+        // Collect child product IDs not fetched yet
+        const childProductIds = [...new Set(
+          allComponentsResult.documents.map((c) => c.child_product_id)
+        )].filter((id) => !childProductMap.has(id))
 
-      // Batch fetch all child products in ONE query
-      const childProductMap = new Map<string, Product>()
-      if (childProductIds.length > 0) {
+        // Batch fetch all child products in ONE query
         for (let i = 0; i < childProductIds.length; i += 50) {
           const batch = childProductIds.slice(i, i + 50)
           const childResult = await databaseService.listDocuments<Product>(
@@ -523,21 +796,48 @@ export const packagingRecordService = {
             childProductMap.set(child.$id, child)
           }
         }
+
+        parentIds = childProductIds.filter(
+          (id) => childProductMap.get(id)?.type === 'bundle' && !componentsByParent.has(id)
+        )
       }
 
-      // Group components by parent product and map to display format
-      for (const bundle of bundleProducts) {
-        const components = allComponentsResult.documents
-          .filter((c) => c.parent_product_id === bundle.$id)
-          .map((c) => {
-            const childProduct = childProductMap.get(c.child_product_id)
-            return {
-              barcode: childProduct?.barcode ?? '',
-              productName: childProduct?.name ?? 'Unknown',
-              quantity: c.quantity,
+      // Nested bundles are shown as the products they contain; a bundle
+      // that contains itself is shown as is
+      const expand = (
+        parentId: string,
+        path: string[]
+      ): Map<string, { product: Product; quantity: number }> => {
+        const expanded = new Map<string, { product: Product; quantity: number }>()
+        for (const component of componentsByParent.get(parentId) ?? []) {
+          const child = childProductMap.get(component.child_product_id)
+          if (!child) continue // Skip components with missing products
+
+          const contained = child.type === 'bundle' && !path.includes(child.$id)
+            ? [...expand(child.$id, [...path, child.$id]).values()].map((nested) => ({
+                product: nested.product,
+                quantity: nested.quantity * component.quantity,
+              }))
+            : [{ product: child, quantity: component.quantity }]
+          for (const { product, quantity } of contained) {
+            const existing = expanded.get(product.$id)
+            if (existing) {
+              existing.quantity += quantity
+            } else {
+              expanded.set(product.$id, { product, quantity })
             }
-          })
-          .filter((c) => c.barcode) // Remove components with missing products
+          }
+        }
+        return expanded
+      }
+
+      // Map each bundle's components to display format
+      for (const bundle of bundleProducts) {
+        const components = [...expand(bundle.$id, [bundle.$id]).values()].map((c) => ({
+          barcode: c.product.barcode,
+          productName: c.product.name,
+          quantity: c.quantity,
+        }))
 
         if (components.length > 0) {
           bundleComponentsMap.set(bundle.barcode, components)
@@ -545,24 +845,33 @@ export const packagingRecordService = {
       }
     }
 
-    // Enrich records with product info
-    return records.map((record) => ({
-      ...record,
-      items: record.items.map((item): PackagingItemWithProduct => {
-        const product = productMap.get(item.product_barcode)
+    // Enrich items with product info
+    return items.map((item): PackagingItemWithProduct => {
+      if (item.product_name != null) {
+        const components = item.components_snapshot
+          ? parseComponentsSnapshot(item.components_snapshot)
+          : []
         return {
           ...item,
-          product_name: product?.name ?? 'Unknown Product',
-          is_bundle: product?.type === 'bundle',
-          bundle_components: bundleComponentsMap.get(item.product_barcode),
+          product_name: item.product_name,
+          is_bundle: item.components_snapshot != null,
+          bundle_components: components.length > 0 ? components : undefined,
         }
-      }),
-    }))
+      }
+
+      const product = productMap.get(item.product_barcode)
+      return {
+        ...item,
+        product_name: product?.name ?? 'Unknown Product',
+        is_bundle: product?.type === 'bundle',
+        bundle_components: bundleComponentsMap.get(item.product_barcode),
+      }
+    })
   },
 
   /**
    * Get packaging records by date with cache-aside pattern.
-   * Cache is generated at midnight when day closes, so today always hits database.
+   * Cache is generated once the day closes, so today always hits database.
    */
   async getPackagingByDate(date: string): Promise<PackagingRecordWithProducts[]> {
     const today = getTodayDate()
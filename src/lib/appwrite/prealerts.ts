@@ -0,0 +1,127 @@
+import { databaseService, Query } from './database'
+import { auditLogService } from './audit-log'
+import { requireRole } from './roles'
+
+import type {
+  ExpectedItem,
+  OrderPrealert,
+  ParsedOrderPrealert,
+  PrealertCheck,
+  PrealertLine,
+  PrealertScanFlag,
+} from '@/types/prealert'
+import { COLLECTIONS } from '@/types/prealert'
+
+/**
+ * Parse pre-alert document with typed expected items
+ */
+function parsePrealert(prealert: OrderPrealert): ParsedOrderPrealert {
+  return {
+    ...prealert,
+    expected_items: JSON.parse(prealert.expected_items),
+  }
+}
+
+/**
+ * Compare scanned items with a pre-alert's expected items
+ * Expected lines keep the pre-alert's order; unexpected products follow
+ * in the order they were first scanned
+ */
+export function checkPrealert(
+  expected: ExpectedItem[],
+  scanned: Array<{ barcode: string; productName?: string | null }>
+): PrealertCheck {
+  const scannedCounts = new Map<string, { count: number; productName: string | null }>()
+  for (const item of scanned) {
+    const entry = scannedCounts.get(item.barcode)
+    scannedCounts.set(item.barcode, {
+      count: (entry?.count ?? 0) + 1,
+      productName: entry?.productName ?? item.productName ?? null,
+    })
+  }
+
+  const lines: PrealertLine[] = expected.map((item) => {
+    const entry = scannedCounts.get(item.barcode)
+    const count = entry?.count ?? 0
+    scannedCounts.delete(item.barcode)
+    return {
+      barcode: item.barcode,
+      productName: item.product_name ?? entry?.productName ?? null,
+      expected: item.quantity,
+      scanned: count,
+      status: count < item.quantity ? 'short' : count > item.quantity ? 'over' : 'matched',
+    }
+  })
+
+  for (const [barcode, entry] of scannedCounts) {
+    lines.push({
+      barcode,
+      productName: entry.productName,
+      expected: 0,
+      scanned: entry.count,
+      status: 'wrong',
+    })
+  }
+
+  return {
+    lines,
+    matches: lines.every((line) => line.status === 'matched'),
+  }
+}
+
+/**
+ * Flag each scan that does not belong on a pre-alerted waybill
+ * A scan past the expected quantity is an over-pack; earlier scans of
+ * the same product are not flagged
+ */
+export function getScanFlags(
+  expected: ExpectedItem[],
+  scannedBarcodes: string[]
+): Array<PrealertScanFlag | null> {
+  const expectedCounts = new Map(expected.map((item) => [item.barcode, item.quantity]))
+  const seen = new Map<string, number>()
+
+  return scannedBarcodes.map((barcode) => {
+    const count = (seen.get(barcode) ?? 0) + 1
+    seen.set(barcode, count)
+
+    const quantity = expectedCounts.get(barcode)
+    if (quantity === undefined) return 'wrong'
+    return count > quantity ? 'over' : null
+  })
+}
+
+export const prealertService = {
+  /**
+   * Get the pre-alert of a waybill, if one was imported
+   */
+  async getByWaybill(waybill: string): Promise<ParsedOrderPrealert | null> {
+    const result = await databaseService.listDocuments<OrderPrealert>(
+      COLLECTIONS.ORDER_PREALERTS,
+      [Query.equal('waybill_number', waybill), Query.limit(1)]
+    )
+    const prealert = result.documents[0]
+    return prealert ? parsePrealert(prealert) : null
+  },
+
+  /**
+   * Let a waybill that does not match its pre-alert be saved
+   * Only supervisors may override; the mismatched lines are audited
+   */
+  overrideMismatch(prealert: ParsedOrderPrealert, check: PrealertCheck): void {
+    requireRole('supervisor', 'prealert_override', 'prealert', {
+      resource_id: prealert.$id,
+      action_details: { waybill: prealert.waybill_number },
+    })
+
+    auditLogService.log('prealert_override', 'prealert', {
+      resource_id: prealert.$id,
+      action_details: {
+        waybill: prealert.waybill_number,
+        mismatches: check.lines
+          .filter((line) => line.status !== 'matched')
+          .map(({ barcode, expected, scanned, status }) => ({ barcode, expected, scanned, status })),
+      },
+    }).catch(console.error)
+  },
+}
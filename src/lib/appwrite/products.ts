@@ -1,15 +1,207 @@
 import { databaseService, Query } from './database'
 import { auditLogService } from './audit-log'
+import { locationService, locationStockService } from './locations'
+import { requireRole } from './roles'
+import { stockMovementService } from './stock-movements'
 
 import type {
   CreateProductComponentInput,
   CreateProductInput,
   Product,
+  ProductBarcode,
+  ProductBarcodeInput,
   ProductComponent,
   ProductWithComponents,
+  ResolvedBarcode,
   UpdateProductInput,
 } from '@/types/product'
 import { COLLECTIONS } from '@/types/product'
+import type { StockMovementReason } from '@/types/stock-movement'
+
+const PAGE_SIZE = 100
+
+/**
+ * Parse an "Alternate Barcodes" cell of the import format
+ * Comma-separated BARCODE or BARCODE:PACK_QUANTITY entries (e.g., "ABC123,CARTON01:12")
+ */
+export function parseBarcodeAliases(value: string): ProductBarcodeInput[] {
+  return value
+    .split(',')
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .map((part) => {
+      const [barcode, quantity] = part.split(':')
+      return {
+        barcode: barcode.trim(),
+        pack_quantity: parseInt(quantity) || 1,
+      }
+    })
+}
+
+/**
+ * Format alternate barcodes as an "Alternate Barcodes" cell
+ */
+export function formatBarcodeAliases(aliases: ProductBarcodeInput[]): string {
+  return aliases
+    .map(({ barcode, pack_quantity }) =>
+      pack_quantity > 1 ? `${barcode}:${pack_quantity}` : barcode
+    )
+    .join(',')
+}
+
+/**
+ * Parse a "Bundle Components" cell of the import format
+ * Comma-separated BARCODE:QUANTITY pairs (e.g., "ABC123:2,DEF456:1")
+ */
+export function parseBundleComponents(value: string): Array<{ barcode: string; quantity: number }> {
+  return value
+    .split(',')
+    .map((part) => part.trim().split(':'))
+    .filter(([barcode]) => barcode?.trim())
+    .map(([barcode, quantity]) => ({
+      barcode: barcode.trim(),
+      quantity: parseInt(quantity) || 1,
+    }))
+}
+
+/**
+ * Order imported bundles so nested bundles are saved before the bundles
+ * containing them. Bundles whose components lead round in a cycle are
+ * returned separately with the chain of barcodes.
+ * `existingComponents` holds the component barcodes of bundles not in the file.
+ */
+export function orderImportedBundles<T extends { barcode: string; components: string }>(
+  bundles: T[],
+  existingComponents: Map<string, string[]>
+): { ordered: T[]; cycles: Array<{ bundle: T; cycle: string[] }> } {
+  const byBarcode = new Map(bundles.map((bundle) => [bundle.barcode, bundle]))
+  const childrenOf = (barcode: string): string[] => {
+    const bundle = byBarcode.get(barcode)
+    return bundle
+      ? parseBundleComponents(bundle.components).map((component) => component.barcode)
+      : existingComponents.get(barcode) ?? []
+  }
+
+  const findCycle = (start: string): string[] | null => {
+    const done = new Set<string>()
+    const walk = (barcode: string, path: string[]): string[] | null => {
+      for (const child of childrenOf(barcode)) {
+        if (path.includes(child)) return [...path, child]
+        if (done.has(child)) continue
+        const cycle = walk(child, [...path, child])
+        if (cycle) return cycle
+      }
+      done.add(barcode)
+      return null
+    }
+    return walk(start, [start])
+  }
+
+  const cycles: Array<{ bundle: T; cycle: string[] }> = []
+  for (const bundle of bundles) {
+    const cycle = findCycle(bundle.barcode)
+    if (cycle) cycles.push({ bundle, cycle })
+  }
+  const cyclic = new Set(cycles.map(({ bundle }) => bundle.barcode))
+
+  // Depth first, so each bundle follows the bundles it contains
+  const ordered: T[] = []
+  const placed = new Set<string>()
+  const place = (barcode: string) => {
+    const bundle = byBarcode.get(barcode)
+    if (!bundle || placed.has(barcode) || cyclic.has(barcode)) return
+    placed.add(barcode)
+    childrenOf(barcode).forEach(place)
+    ordered.push(bundle)
+  }
+  bundles.forEach((bundle) => place(bundle.barcode))
+
+  return { ordered, cycles }
+}
+
+/**
+ * Number of bundles that can be built from the stock of their components
+ * Each component's stock is divided by the quantity one bundle takes, rounded
+ * down; a bundle without components can't be built
+ */
+export function calculateBuildableQuantity(
+  components: Array<{ product: Pick<Product, 'stock_quantity'>; quantity: number }>
+): number {
+  if (components.length === 0) return 0
+  return Math.min(
+    ...components.map(({ product, quantity }) =>
+      Math.max(0, Math.floor((product.stock_quantity ?? 0) / Math.max(quantity, 1)))
+    )
+  )
+}
+
+/**
+ * Buildable quantity of every bundle, from all products and component rows
+ * at once (for exports). Nested bundles are expanded into the products they
+ * contain; bundles caught in a cycle are left out.
+ */
+export function calculateBuildableQuantities(
+  products: Array<Pick<Product, '$id' | 'type' | 'stock_quantity'>>,
+  components: Array<Pick<ProductComponent, 'parent_product_id' | 'child_product_id' | 'quantity'>>
+): Map<string, number> {
+  const productsById = new Map(products.map((product) => [product.$id, product]))
+  const componentsByParent = new Map<string, typeof components>()
+  for (const component of components) {
+    const siblings = componentsByParent.get(component.parent_product_id) ?? []
+    siblings.push(component)
+    componentsByParent.set(component.parent_product_id, siblings)
+  }
+
+  // Product ID to quantity of each stocked product in one bundle; null for cycles
+  const expanded = new Map<string, Map<string, number> | null>()
+  const expand = (bundleId: string, path: string[]): Map<string, number> | null => {
+    if (path.includes(bundleId)) return null
+    if (expanded.has(bundleId)) return expanded.get(bundleId)!
+
+    const leaves = new Map<string, number>()
+    for (const component of componentsByParent.get(bundleId) ?? []) {
+      const child = productsById.get(component.child_product_id)
+      if (child?.type !== 'bundle') {
+        leaves.set(component.child_product_id, (leaves.get(component.child_product_id) ?? 0) + component.quantity)
+        continue
+      }
+      const nested = expand(child.$id, [...path, bundleId])
+      if (!nested) {
+        expanded.set(bundleId, null)
+        return null
+      }
+      for (const [productId, quantity] of nested) {
+        leaves.set(productId, (leaves.get(productId) ?? 0) + quantity * component.quantity)
+      }
+    }
+    expanded.set(bundleId, leaves)
+    return leaves
+  }
+
+  const buildable = new Map<string, number>()
+  for (const product of products) {
+    if (product.type !== 'bundle') continue
+    const leaves = expand(product.$id, [])
+    if (!leaves) continue
+    buildable.set(
+      product.$id,
+      calculateBuildableQuantity(
+        [...leaves].map(([productId, quantity]) => ({
+          product: { stock_quantity: productsById.get(productId)?.stock_quantity ?? 0 },
+          quantity,
+        }))
+      )
+    )
+  }
+  return buildable
+}
+
+/**
+ * Error for a chain of bundles that leads back to its first bundle
+ */
+function bundleCycleError(path: Array<Pick<Product, 'name'>>): Error {
+  return new Error(`Bundle cycle: ${path.map((product) => product.name).join(' → ')}`)
+}
 
 export const productService = {
   /**
@@ -56,6 +248,35 @@ export const productService = {
     return productMap
   },
 
+  /**
+   * Internal: Batch resolve barcodes (own or alternate) without audit logging
+   * A product's own barcode wins over another product's alternate barcode
+   */
+  async _resolveBarcodesInternal(barcodes: string[]): Promise<Map<string, ResolvedBarcode>> {
+    const unique = [...new Set(barcodes)]
+    const resolved = new Map<string, ResolvedBarcode>()
+    if (unique.length === 0) return resolved
+
+    const products = await this._getByBarcodesInternal(unique)
+    for (const [barcode, product] of products) {
+      resolved.set(barcode, { product, packQuantity: 1 })
+    }
+
+    const unresolved = unique.filter((barcode) => !resolved.has(barcode))
+    const aliases = await productBarcodeService._getByBarcodesInternal(unresolved)
+    const aliasProducts = await this._getByIdsInternal(
+      [...new Set([...aliases.values()].map((alias) => alias.product_id))]
+    )
+    for (const [barcode, alias] of aliases) {
+      const product = aliasProducts.get(alias.product_id)
+      if (product) {
+        resolved.set(barcode, { product, packQuantity: alias.pack_quantity })
+      }
+    }
+
+    return resolved
+  },
+
   /**
    * Internal: Update stock without individual audit logging
    * Used for batch operations
@@ -68,8 +289,16 @@ export const productService = {
 
   /**
    * Create a new product
+   * Initial stock is recorded as a stock movement with the given reason
    */
-  async create(data: CreateProductInput): Promise<Product> {
+  async create(
+    data: CreateProductInput,
+    stockReason: StockMovementReason = 'manual_adjust'
+  ): Promise<Product> {
+    requireRole('supervisor', 'product_create', 'product', {
+      action_details: { barcode: data.barcode, name: data.name },
+    })
+
     try {
       const product = await databaseService.createDocument<Product>(COLLECTIONS.PRODUCTS, {
         sku_code: data.sku_code ?? null,
@@ -80,6 +309,15 @@ export const productService = {
         stock_quantity: data.stock_quantity ?? 0,
       })
 
+      if (product.stock_quantity > 0) {
+        await stockMovementService._recordInternal([{
+          product_id: product.$id,
+          delta: product.stock_quantity,
+          resulting_quantity: product.stock_quantity,
+          reason: stockReason,
+        }])
+      }
+
       auditLogService.log('product_create', 'product', {
         resource_id: product.$id,
         action_details: {
@@ -121,20 +359,46 @@ export const productService = {
 
   /**
    * Get a product by barcode (for scanning)
+   * Alternate barcodes resolve to their product
    */
   async getByBarcode(barcode: string): Promise<Product | null> {
+    return (await this.resolveBarcode(barcode))?.product ?? null
+  },
+
+  /**
+   * Resolve a scanned barcode to its product and pack quantity
+   * The product's own barcode counts as one unit; an alternate barcode
+   * counts as its pack quantity (e.g., a carton of 12)
+   */
+  async resolveBarcode(barcode: string): Promise<ResolvedBarcode | null> {
     const result = await databaseService.listDocuments<Product>(
       COLLECTIONS.PRODUCTS,
       [Query.equal('barcode', barcode), Query.limit(1)]
     )
-    const product = result.documents[0] ?? null
+    let resolved: ResolvedBarcode | null = result.documents[0]
+      ? { product: result.documents[0], packQuantity: 1 }
+      : null
+
+    if (!resolved) {
+      const alias = (await productBarcodeService._getByBarcodesInternal([barcode])).get(barcode)
+      if (alias) {
+        resolved = {
+          product: await this._getByIdInternal(alias.product_id),
+          packQuantity: alias.pack_quantity,
+        }
+      }
+    }
 
     auditLogService.log('product_search_barcode', 'product', {
-      resource_id: product?.$id,
-      action_details: { barcode, found: !!product },
+      resource_id: resolved?.product.$id,
+      action_details: {
+        barcode,
+        found: !!resolved,
+        alias: resolved ? resolved.product.barcode !== barcode : undefined,
+      },
     }).catch(console.error)
 
-    return product
+    return resolved
   },
 
   /**
@@ -164,6 +428,7 @@ export const productService = {
     offset?: number
     search?: string
     barcodes?: string[] // Batch fetch by barcodes
+    maxStock?: number // Only products at or below this stock level (lowest first)
   }): Promise<{ documents: Product[]; total: number }> {
     const queries: string[] = []
 
@@ -174,6 +439,10 @@ export const productService = {
       // Batch fetch by barcodes
       queries.push(Query.equal('barcode', options.barcodes))
     }
+    if (options?.maxStock !== undefined) {
+      queries.push(Query.lessThanEqual('stock_quantity', options.maxStock))
+      queries.push(Query.orderAsc('stock_quantity'))
+    }
     if (options?.search) {
       // Search across barcode, name, and sku_code using OR
       queries.push(
@@ -206,15 +475,36 @@ export const productService = {
 
   /**
    * Update a product
+   * Stock changes are recorded as a stock movement with the given reason
    */
-  async update(productId: string, data: UpdateProductInput): Promise<Product> {
+  async update(
+    productId: string,
+    data: UpdateProductInput,
+    stockReason: StockMovementReason = 'manual_adjust'
+  ): Promise<Product> {
+    requireRole('supervisor', 'product_update', 'product', { resource_id: productId })
+
     try {
+      // Stock edits go to the ledger, so the previous quantity is needed
+      const previousStock = data.stock_quantity !== undefined
+        ? (await this._getByIdInternal(productId)).stock_quantity
+        : null
+
       const product = await databaseService.updateDocument<Product>(
         COLLECTIONS.PRODUCTS,
         productId,
         data
       )
 
+      if (previousStock !== null && product.stock_quantity !== previousStock) {
+        await stockMovementService._recordInternal([{
+          product_id: productId,
+          delta: product.stock_quantity - previousStock,
+          resulting_quantity: product.stock_quantity,
+          reason: stockReason,
+        }])
+      }
+
       auditLogService.log('product_update', 'product', {
         resource_id: productId,
         action_details: {
@@ -237,9 +527,11 @@ export const productService = {
   },
 
   /**
-   * Delete a product and its components
+   * Delete a product with its components and alternate barcodes
    */
   async delete(productId: string): Promise<void> {
+    requireRole('supervisor', 'product_delete', 'product', { resource_id: productId })
+
     try {
       // Get product details before deletion for audit
       let productDetails: { barcode?: string; name?: string } = {}
@@ -271,6 +563,12 @@ export const productService = {
         )
       }
 
+      // Alternate barcodes would otherwise resolve to a missing product
+      const aliases = await productBarcodeService.getByProductId(productId)
+      for (const alias of aliases) {
+        await databaseService.deleteDocument(COLLECTIONS.PRODUCT_BARCODES, alias.$id)
+      }
+
       // Delete the product
       await databaseService.deleteDocument(COLLECTIONS.PRODUCTS, productId)
 
@@ -279,6 +577,7 @@ export const productService = {
         action_details: {
           ...productDetails,
           componentsDeleted: parentComponents.documents.length + childComponents.documents.length,
+          barcodesDeleted: aliases.length,
         },
       }).catch(console.error)
     } catch (error) {
@@ -293,6 +592,8 @@ export const productService = {
 
   /**
    * Get a product with its components (for bundles)
+   * Nested bundles are expanded into the products they contain, so the
+   * components are what stock is taken from
    */
   async getWithComponents(productId: string): Promise<ProductWithComponents> {
     const product = await this.getById(productId)
@@ -301,22 +602,119 @@ export const productService = {
       return product
     }
 
+    return {
+      ...product,
+      components: await this._expandComponentsInternal(product),
+    }
+  },
+
+  /**
+   * Internal: Components of a bundle with nested bundles expanded, without audit logging
+   * Quantities are multiplied down the tree and repeated products added up;
+   * throws when a bundle contains itself
+   */
+  async _expandComponentsInternal(
+    bundle: Pick<Product, '$id' | 'name'>,
+    path: Array<Pick<Product, '$id' | 'name'>> = [bundle]
+  ): Promise<Array<{ product: Product; quantity: number }>> {
     const componentsResult =
       await databaseService.listDocuments<ProductComponent>(
         COLLECTIONS.PRODUCT_COMPONENTS,
-        [Query.equal('parent_product_id', productId)]
+        [Query.equal('parent_product_id', bundle.$id)]
       )
 
-    const components = await Promise.all(
+    const children = await Promise.all(
       componentsResult.documents.map(async (component) => ({
-        product: await this.getById(component.child_product_id),
+        product: await this._getByIdInternal(component.child_product_id),
         quantity: component.quantity,
       }))
     )
 
-    return {
-      ...product,
-      components,
+    const expanded = new Map<string, { product: Product; quantity: number }>()
+    const add = (product: Product, quantity: number) => {
+      const existing = expanded.get(product.$id)
+      if (existing) {
+        existing.quantity += quantity
+      } else {
+        expanded.set(product.$id, { product, quantity })
+      }
+    }
+
+    for (const child of children) {
+      if (child.product.type !== 'bundle') {
+        add(child.product, child.quantity)
+        continue
+      }
+      if (path.some((parent) => parent.$id === child.product.$id)) {
+        throw bundleCycleError([...path, child.product])
+      }
+      const nested = await this._expandComponentsInternal(child.product, [...path, child.product])
+      for (const component of nested) {
+        add(component.product, component.quantity * child.quantity)
+      }
+    }
+
+    return [...expanded.values()]
+  },
+
+  /**
+   * Get how many of each bundle can be built from its components' stock
+   * With a location, the components' stock at that location is used;
+   * bundles whose components can't be expanded are left out
+   * Returns a map of bundle ID to buildable quantity
+   */
+  async getBuildableQuantities(
+    bundles: Array<Pick<Product, '$id' | 'name'>>,
+    locationId?: string
+  ): Promise<Map<string, number>> {
+    const location = locationId ? await locationService.getById(locationId) : null
+
+    const entries = await Promise.all(
+      bundles.map(async (bundle): Promise<[string, number] | null> => {
+        let components: Array<{ product: Product; quantity: number }>
+        try {
+          components = await this._expandComponentsInternal(bundle)
+        } catch (error) {
+          console.error(`Failed to expand bundle ${bundle.name}:`, error)
+          return null
+        }
+
+        if (location) {
+          const located = await locationStockService.applyToProducts(
+            components.map((component) => component.product),
+            location
+          )
+          components = components.map((component, index) => ({
+            product: located[index],
+            quantity: component.quantity,
+          }))
+        }
+
+        return [bundle.$id, calculateBuildableQuantity(components)]
+      })
+    )
+
+    return new Map(entries.filter((entry): entry is [string, number] => entry !== null))
+  },
+
+  /**
+   * Check that a bundle's components don't lead back to the bundle
+   * A new bundle (without an ID) can only hit cycles already in its components
+   */
+  async validateBundleComponents(
+    bundle: { $id?: string; name: string },
+    childProductIds: string[]
+  ): Promise<void> {
+    const self = { $id: bundle.$id ?? '', name: bundle.name }
+    if (bundle.$id && childProductIds.includes(bundle.$id)) {
+      throw bundleCycleError([self, self])
+    }
+
+    const children = await this._getByIdsInternal([...new Set(childProductIds)])
+    for (const child of children.values()) {
+      if (child.type === 'bundle') {
+        await this._expandComponentsInternal(child, bundle.$id ? [self, child] : [child])
+      }
     }
   },
 
@@ -324,13 +722,28 @@ export const productService = {
    * Update stock quantity for a product
    */
   async updateStock(productId: string, newQuantity: number): Promise<Product> {
+    requireRole('supervisor', 'product_stock_update', 'product', {
+      resource_id: productId,
+      action_details: { newQuantity },
+    })
+
     try {
+      const previous = await this._getByIdInternal(productId)
       const product = await databaseService.updateDocument<Product>(
         COLLECTIONS.PRODUCTS,
         productId,
         { stock_quantity: Math.max(0, newQuantity) }
       )
 
+      if (product.stock_quantity !== previous.stock_quantity) {
+        await stockMovementService._recordInternal([{
+          product_id: productId,
+          delta: product.stock_quantity - previous.stock_quantity,
+          resulting_quantity: product.stock_quantity,
+          reason: 'manual_adjust',
+        }])
+      }
+
       auditLogService.log('product_stock_update', 'product', {
         resource_id: productId,
         action_details: {
@@ -355,7 +768,8 @@ export const productService = {
   /**
    * Calculate stock requirements for a list of packaging items
    * Returns a map of product ID to required quantity
-   * Optimized: Uses batch fetch for single products (1 API call instead of N)
+   * Alternate barcodes count as their pack quantity
+   * Optimized: Uses batch fetch for single products instead of one call per item
    */
   async calculateStockRequirements(
     items: Array<{
@@ -377,34 +791,40 @@ export const productService = {
       }
     }
 
-    // Batch fetch all single products at once (1 API call)
-    const productMap = await this._getByBarcodesInternal(singleProductBarcodes)
+    // Batch resolve all single product barcodes at once
+    const productMap = await this._resolveBarcodesInternal(singleProductBarcodes)
 
     // Process all items
     for (const item of items) {
       if (item.is_bundle && item.bundle_components) {
-        // For bundles, deduct from each component
+        // For bundles, deduct from each component; nested bundles given
+        // unexpanded are expanded into the products they contain
         for (const component of item.bundle_components) {
-          const productId = component.product.$id
-          const existing = requirements.get(productId)
-          if (existing) {
-            existing.required += component.quantity
-          } else {
-            requirements.set(productId, {
-              product: component.product,
-              required: component.quantity,
-            })
+          const stocked = component.product.type === 'bundle'
+            ? (await this._expandComponentsInternal(component.product)).map((nested) => ({
+                product: nested.product,
+                quantity: nested.quantity * component.quantity,
+              }))
+            : [component]
+          for (const { product, quantity } of stocked) {
+            const existing = requirements.get(product.$id)
+            if (existing) {
+              existing.required += quantity
+            } else {
+              requirements.set(product.$id, { product, required: quantity })
+            }
           }
         }
       } else {
-        // For single products, deduct 1 (use pre-fetched product)
-        const product = productMap.get(item.product_barcode)
-        if (product) {
+        // For single products, deduct 1 or the pack quantity (use pre-resolved product)
+        const resolved = productMap.get(item.product_barcode)
+        if (resolved) {
+          const { product, packQuantity } = resolved
           const existing = requirements.get(product.$id)
           if (existing) {
-            existing.required += 1
+            existing.required += packQuantity
           } else {
-            requirements.set(product.$id, { product, required: 1 })
+            requirements.set(product.$id, { product, required: packQuantity })
           }
         }
       }
@@ -415,6 +835,7 @@ export const productService = {
 
   /**
    * Validate that there is sufficient stock for packaging
+   * With a location, stock is checked at that location instead of the product total
    */
   async validateStockForPackaging(
     items: Array<{
@@ -424,7 +845,8 @@ export const productService = {
         product: Product
         quantity: number
       }>
-    }>
+    }>,
+    locationId?: string
   ): Promise<{
     valid: boolean
     insufficientStock: Array<{
@@ -442,16 +864,38 @@ export const productService = {
       available: number
     }> = []
 
-    for (const [, { product, required }] of requirements) {
-      // Re-fetch product to get latest stock (in case of concurrent updates)
-      const latestProduct = await this.getById(product.$id)
-      if (latestProduct.stock_quantity < required) {
-        insufficientStock.push({
-          barcode: latestProduct.barcode,
-          name: latestProduct.name,
-          required,
-          available: latestProduct.stock_quantity,
-        })
+    if (locationId) {
+      // Batch fetch latest products, then resolve their quantities at the location
+      const location = await locationService.getById(locationId)
+      const latestProducts = await this._getByIdsInternal(Array.from(requirements.keys()))
+      const available = await locationStockService.getQuantities(
+        Array.from(latestProducts.values()),
+        location
+      )
+
+      for (const [productId, { product, required }] of requirements) {
+        const quantity = available.get(productId) ?? 0
+        if (quantity < required) {
+          insufficientStock.push({
+            barcode: product.barcode,
+            name: product.name,
+            required,
+            available: quantity,
+          })
+        }
+      }
+    } else {
+      for (const [, { product, required }] of requirements) {
+        // Re-fetch product to get latest stock (in case of concurrent updates)
+        const latestProduct = await this.getById(product.$id)
+        if (latestProduct.stock_quantity < required) {
+          insufficientStock.push({
+            barcode: latestProduct.barcode,
+            name: latestProduct.name,
+            required,
+            available: latestProduct.stock_quantity,
+          })
+        }
       }
     }
 
@@ -464,6 +908,8 @@ export const productService = {
   /**
    * Deduct stock for packaging items
    * Should be called after packaging record is successfully created
+   * With a location, stock is taken from that location (and the product total)
+   * Each deduction is recorded as a stock movement (reason defaults to packaging)
    * Optimized: Uses batch fetch and parallel updates with a single audit log
    */
   async deductStockForPackaging(
@@ -474,7 +920,9 @@ export const productService = {
         product: Product
         quantity: number
       }>
-    }>
+    }>,
+    locationId?: string,
+    source?: { reason: StockMovementReason; sourceId?: string }
   ): Promise<{ success: boolean; errors: string[] }> {
     const requirements = await this.calculateStockRequirements(items)
     const errors: string[] = []
@@ -483,12 +931,20 @@ export const productService = {
       productName: string
       previousStock: number
       newStock: number
+      previousTotal: number
+      required: number
     }> = []
 
     // Batch fetch all products to get latest stock (1 API call)
     const productIds = Array.from(requirements.keys())
     const latestProducts = await this._getByIdsInternal(productIds)
 
+    // Resolve stock at the location (if any)
+    const location = locationId ? await locationService.getById(locationId) : null
+    const locationStock = location
+      ? await locationStockService.getQuantities(Array.from(latestProducts.values()), location)
+      : null
+
     // Calculate new stock values and validate
     for (const [productId, { product, required }] of requirements) {
       const latestProduct = latestProducts.get(productId)
@@ -497,10 +953,13 @@ export const productService = {
         continue
       }
 
-      const newStock = latestProduct.stock_quantity - required
+      const available = locationStock
+        ? locationStock.get(productId) ?? 0
+        : latestProduct.stock_quantity
+      const newStock = available - required
       if (newStock < 0) {
         errors.push(
-          `Insufficient stock for ${product.name}: required ${required}, available ${latestProduct.stock_quantity}`
+          `Insufficient stock for ${product.name}: required ${required}, available ${available}`
         )
         continue
       }
@@ -508,8 +967,10 @@ export const productService = {
       stockUpdates.push({
         productId,
         productName: product.name,
-        previousStock: latestProduct.stock_quantity,
+        previousStock: available,
         newStock,
+        previousTotal: latestProduct.stock_quantity,
+        required,
       })
     }
 
@@ -521,6 +982,7 @@ export const productService = {
           action_details: {
             itemCount: items.length,
             productsUpdated: 0,
+            location: location?.name,
             success: false,
             errors: result.errors,
           },
@@ -533,9 +995,12 @@ export const productService = {
 
     // Perform all stock updates in parallel (N API calls, but no audit logs per update)
     const updateResults = await Promise.allSettled(
-      stockUpdates.map(({ productId, newStock }) =>
-        this._updateStockInternal(productId, newStock)
-      )
+      stockUpdates.map(async ({ productId, previousTotal, required }) => {
+        await this._updateStockInternal(productId, previousTotal - required)
+        if (location) {
+          await locationStockService._adjustInternal(productId, location, -required)
+        }
+      })
     )
 
     // Check for update failures
@@ -552,9 +1017,23 @@ export const productService = {
     if (failedUpdates.length > 0) {
       const successfulUpdates = stockUpdates.filter((_, i) => updateResults[i].status === 'fulfilled')
       await Promise.allSettled(
-        successfulUpdates.map(({ productId, previousStock }) =>
-          this._updateStockInternal(productId, previousStock)
-        )
+        successfulUpdates.map(async ({ productId, previousTotal, required }) => {
+          await this._updateStockInternal(productId, previousTotal)
+          if (location) {
+            await locationStockService._adjustInternal(productId, location, required)
+          }
+        })
+      )
+    } else {
+      await stockMovementService._recordInternal(
+        stockUpdates.map(({ productId, previousTotal, required }) => ({
+          product_id: productId,
+          delta: -required,
+          resulting_quantity: Math.max(0, previousTotal - required),
+          reason: source?.reason ?? 'packaging',
+          source_id: source?.sourceId,
+          location_id: locationId,
+        }))
       )
     }
 
@@ -566,6 +1045,7 @@ export const productService = {
         action_details: {
           itemCount: items.length,
           productsUpdated: stockUpdates.length - failedUpdates.length,
+          location: location?.name,
           updates: stockUpdates.map((u) => ({
             barcode: requirements.get(u.productId)?.product.barcode,
             name: u.productName,
@@ -585,6 +1065,8 @@ export const productService = {
 
   /**
    * Restore stock when a packaging record is deleted
+   * With a location, stock is returned to that location (and the product total)
+   * Each restore is recorded as a stock movement (reason defaults to packaging)
    * Optimized: Uses batch fetch and parallel updates with a single audit log
    */
   async restoreStockForPackaging(
@@ -595,7 +1077,9 @@ export const productService = {
         product: Product
         quantity: number
       }>
-    }>
+    }>,
+    locationId?: string,
+    source?: { reason: StockMovementReason; sourceId?: string }
   ): Promise<{ success: boolean; errors: string[] }> {
     const requirements = await this.calculateStockRequirements(items)
     const errors: string[] = []
@@ -611,6 +1095,9 @@ export const productService = {
     const productIds = Array.from(requirements.keys())
     const latestProducts = await this._getByIdsInternal(productIds)
 
+    // Resolve the location (if any)
+    const location = locationId ? await locationService.getById(locationId) : null
+
     // Calculate new stock values
     for (const [productId, { product, required }] of requirements) {
       const latestProduct = latestProducts.get(productId)
@@ -630,9 +1117,12 @@ export const productService = {
 
     // Perform all stock updates in parallel (N API calls, no individual audit logs)
     const updateResults = await Promise.allSettled(
-      stockUpdates.map(({ productId, newStock }) =>
-        this._updateStockInternal(productId, newStock)
-      )
+      stockUpdates.map(async ({ productId, newStock, restored }) => {
+        await this._updateStockInternal(productId, newStock)
+        if (location) {
+          await locationStockService._adjustInternal(productId, location, restored)
+        }
+      })
     )
 
     // Check for update failures
@@ -643,6 +1133,19 @@ export const productService = {
       }
     })
 
+    await stockMovementService._recordInternal(
+      stockUpdates
+        .filter((_, i) => updateResults[i].status === 'fulfilled')
+        .map(({ productId, newStock, restored }) => ({
+          product_id: productId,
+          delta: restored,
+          resulting_quantity: newStock,
+          reason: source?.reason ?? 'packaging',
+          source_id: source?.sourceId,
+          location_id: locationId,
+        }))
+    )
+
     const successCount = updateResults.filter((r) => r.status === 'fulfilled').length
     const result = { success: errors.length === 0, errors }
 
@@ -652,6 +1155,7 @@ export const productService = {
         action_details: {
           itemCount: items.length,
           productsRestored: successCount,
+          location: location?.name,
           updates: stockUpdates.map((u) => ({
             barcode: requirements.get(u.productId)?.product.barcode,
             name: u.productName,
@@ -675,6 +1179,10 @@ export const productComponentService = {
    * Add a component to a bundle
    */
   async create(data: CreateProductComponentInput): Promise<ProductComponent> {
+    requireRole('supervisor', 'product_component_add', 'product_component', {
+      action_details: { parent_product_id: data.parent_product_id },
+    })
+
     try {
       const component = await databaseService.createDocument<ProductComponent>(
         COLLECTIONS.PRODUCT_COMPONENTS,
@@ -716,6 +1224,26 @@ export const productComponentService = {
     return result.documents
   },
 
+  /**
+   * Get every bundle component, a page at a time (for exports)
+   */
+  async listAll(): Promise<ProductComponent[]> {
+    const components: ProductComponent[] = []
+    let offset = 0
+
+    while (true) {
+      const result = await databaseService.listDocuments<ProductComponent>(
+        COLLECTIONS.PRODUCT_COMPONENTS,
+        [Query.limit(PAGE_SIZE), Query.offset(offset)]
+      )
+      components.push(...result.documents)
+      if (result.documents.length < PAGE_SIZE) break
+      offset += PAGE_SIZE
+    }
+
+    return components
+  },
+
   /**
    * Get bundles that contain a specific product
    */
@@ -734,6 +1262,11 @@ export const productComponentService = {
     componentId: string,
     quantity: number
   ): Promise<ProductComponent> {
+    requireRole('supervisor', 'product_component_update', 'product_component', {
+      resource_id: componentId,
+      action_details: { quantity },
+    })
+
     try {
       const component = await databaseService.updateDocument<ProductComponent>(
         COLLECTIONS.PRODUCT_COMPONENTS,
@@ -766,6 +1299,10 @@ export const productComponentService = {
    * Remove a component from a bundle
    */
   async delete(componentId: string): Promise<void> {
+    requireRole('supervisor', 'product_component_remove', 'product_component', {
+      resource_id: componentId,
+    })
+
     try {
       // Get component details before deletion
       let componentDetails: Record<string, unknown> = {}
@@ -820,3 +1357,144 @@ export const productComponentService = {
     }
   },
 }
+
+export const productBarcodeService = {
+  /**
+   * Internal: Batch fetch alternate barcodes by barcode without audit logging
+   */
+  async _getByBarcodesInternal(barcodes: string[]): Promise<Map<string, ProductBarcode>> {
+    if (barcodes.length === 0) return new Map()
+
+    const result = await databaseService.listDocuments<ProductBarcode>(COLLECTIONS.PRODUCT_BARCODES, [
+      Query.equal('barcode', barcodes),
+      Query.limit(barcodes.length),
+    ])
+
+    const aliasMap = new Map<string, ProductBarcode>()
+    for (const alias of result.documents) {
+      aliasMap.set(alias.barcode, alias)
+    }
+    return aliasMap
+  },
+
+  /**
+   * Get the alternate barcodes of a product
+   */
+  async getByProductId(productId: string): Promise<ProductBarcode[]> {
+    const result = await databaseService.listDocuments<ProductBarcode>(
+      COLLECTIONS.PRODUCT_BARCODES,
+      [Query.equal('product_id', productId), Query.limit(PAGE_SIZE)]
+    )
+    return result.documents
+  },
+
+  /**
+   * Get every alternate barcode, a page at a time (for exports)
+   */
+  async listAll(): Promise<ProductBarcode[]> {
+    const aliases: ProductBarcode[] = []
+    let offset = 0
+
+    while (true) {
+      const result = await databaseService.listDocuments<ProductBarcode>(
+        COLLECTIONS.PRODUCT_BARCODES,
+        [Query.limit(PAGE_SIZE), Query.offset(offset)]
+      )
+      aliases.push(...result.documents)
+      if (result.documents.length < PAGE_SIZE) break
+      offset += PAGE_SIZE
+    }
+
+    return aliases
+  },
+
+  /**
+   * Replace the alternate barcodes of a product
+   * A barcode can't be used twice, be another product's barcode or belong
+   * to another product; pack quantities must be whole numbers of at least 1
+   */
+  async replaceForProduct(
+    productId: string,
+    aliases: ProductBarcodeInput[]
+  ): Promise<ProductBarcode[]> {
+    requireRole('supervisor', 'product_barcode_update', 'product_barcode', {
+      resource_id: productId,
+    })
+
+    try {
+      const wanted = aliases.map((alias) => ({ ...alias, barcode: alias.barcode.trim() }))
+      const barcodes = wanted.map((alias) => alias.barcode)
+
+      for (const alias of wanted) {
+        if (!alias.barcode) {
+          throw new Error('Alternate barcodes cannot be empty')
+        }
+        if (!Number.isInteger(alias.pack_quantity) || alias.pack_quantity < 1) {
+          throw new Error(`Pack quantity of ${alias.barcode} must be a whole number of at least 1`)
+        }
+      }
+      const duplicate = barcodes.find((barcode, index) => barcodes.indexOf(barcode) !== index)
+      if (duplicate) {
+        throw new Error(`Alternate barcode ${duplicate} is listed twice`)
+      }
+
+      const products = await productService._getByBarcodesInternal(barcodes)
+      if (products.size > 0) {
+        const [barcode, product] = [...products][0]
+        throw new Error(`Barcode ${barcode} already belongs to ${product.name}`)
+      }
+      const taken = [...(await this._getByBarcodesInternal(barcodes)).values()]
+        .find((alias) => alias.product_id !== productId)
+      if (taken) {
+        throw new Error(`Barcode ${taken.barcode} is already an alternate barcode of another product`)
+      }
+
+      const existing = await this.getByProductId(productId)
+      const existingByBarcode = new Map(existing.map((alias) => [alias.barcode, alias]))
+
+      for (const alias of existing) {
+        if (!barcodes.includes(alias.barcode)) {
+          await databaseService.deleteDocument(COLLECTIONS.PRODUCT_BARCODES, alias.$id)
+        }
+      }
+
+      const saved: ProductBarcode[] = []
+      for (const alias of wanted) {
+        const current = existingByBarcode.get(alias.barcode)
+        if (!current) {
+          saved.push(await databaseService.createDocument<ProductBarcode>(COLLECTIONS.PRODUCT_BARCODES, {
+            product_id: productId,
+            barcode: alias.barcode,
+            pack_quantity: alias.pack_quantity,
+          }))
+        } else if (current.pack_quantity !== alias.pack_quantity) {
+          saved.push(await databaseService.updateDocument<ProductBarcode>(
+            COLLECTIONS.PRODUCT_BARCODES,
+            current.$id,
+            { pack_quantity: alias.pack_quantity }
+          ))
+        } else {
+          saved.push(current)
+        }
+      }
+
+      auditLogService.log('product_barcode_update', 'product_barcode', {
+        resource_id: productId,
+        action_details: {
+          previous: formatBarcodeAliases(existing),
+          barcodes: formatBarcodeAliases(wanted),
+        },
+      }).catch(console.error)
+
+      return saved
+    } catch (error) {
+      auditLogService.log('product_barcode_update', 'product_barcode', {
+        resource_id: productId,
+        action_details: { barcodes: formatBarcodeAliases(aliases) },
+        status: 'failure',
+        error_message: error instanceof Error ? error.message : 'Unknown error',
+      }).catch(console.error)
+      throw error
+    }
+  },
+}
@@ -0,0 +1,89 @@
+import type { Models, RealtimeResponseEvent } from 'appwrite'
+
+import client from './config'
+
+const DATABASE_ID = import.meta.env.VITE_APPWRITE_DATABASE_ID
+
+export type DocumentChangeType = 'create' | 'update' | 'delete'
+
+/**
+ * A document created, updated or deleted in a collection
+ */
+export interface DocumentChange<T extends Models.Document> {
+  type: DocumentChangeType
+  document: T
+}
+
+type ChangeListener = (change: DocumentChange<Models.Document>) => void
+
+interface CollectionSubscription {
+  listeners: Set<ChangeListener>
+  unsubscribe: () => void
+}
+
+// One realtime subscription per collection, shared by every listener
+const subscriptions = new Map<string, CollectionSubscription>()
+
+/**
+ * Realtime channel for the documents of a collection
+ */
+export function documentsChannel(collectionId: string): string {
+  return `databases.${DATABASE_ID}.collections.${collectionId}.documents`
+}
+
+/**
+ * Read the change type from the events of a realtime message
+ * Events end in the action, e.g. databases.*.collections.*.documents.*.update
+ */
+export function getChangeType(events: string[]): DocumentChangeType | null {
+  for (const event of events) {
+    const action = event.slice(event.lastIndexOf('.') + 1)
+    if (action === 'create' || action === 'update' || action === 'delete') {
+      return action
+    }
+  }
+  return null
+}
+
+export const realtimeService = {
+  /**
+   * Listen to document changes in a collection
+   * Listeners of the same collection share one channel; the channel is
+   * closed once the last listener unsubscribes
+   */
+  subscribe<T extends Models.Document>(
+    collectionId: string,
+    listener: (change: DocumentChange<T>) => void
+  ): () => void {
+    let subscription = subscriptions.get(collectionId)
+
+    if (!subscription) {
+      const listeners = new Set<ChangeListener>()
+      const unsubscribe = client.subscribe(
+        documentsChannel(collectionId),
+        (message: RealtimeResponseEvent<Models.Document>) => {
+          const type = getChangeType(message.events)
+          if (!type) return
+          for (const notify of listeners) {
+            notify({ type, document: message.payload })
+          }
+        }
+      )
+      subscription = { listeners, unsubscribe }
+      subscriptions.set(collectionId, subscription)
+    }
+
+    const entry = listener as ChangeListener
+    subscription.listeners.add(entry)
+
+    return () => {
+      const current = subscriptions.get(collectionId)
+      if (!current) return
+      current.listeners.delete(entry)
+      if (current.listeners.size === 0) {
+        current.unsubscribe()
+        subscriptions.delete(collectionId)
+      }
+    }
+  },
+}
@@ -0,0 +1,198 @@
+import { databaseService, Query } from './database'
+import { getAuditUserContext } from './audit-log'
+import { functions } from './config'
+import { requireRole } from './roles'
+
+import type {
+  CreateReceivingInput,
+  ReceivingItem,
+  ReceivingLineInput,
+  ReceivingRecord,
+  ReceivingRecordWithItems,
+  ReceivingStatus,
+  UpdateReceivingInput,
+} from '@/types/receiving'
+import { COLLECTIONS } from '@/types/receiving'
+
+// Function ID - configurable via environment variable
+const RECEIVE_FUNCTION_ID = import.meta.env.VITE_APPWRITE_RECEIVE_STOCK_FUNCTION_ID || 'receive-stock'
+
+// Most items a single receiving is expected to hold
+const MAX_RECEIVING_ITEMS = 5000
+
+/**
+ * Merge scanned lines of the same product into one line per barcode
+ * Keeps the order products were first scanned in
+ */
+export function mergeReceivingLines(lines: ReceivingLineInput[]): ReceivingLineInput[] {
+  const merged = new Map<string, number>()
+  for (const line of lines) {
+    merged.set(line.product_barcode, (merged.get(line.product_barcode) ?? 0) + line.quantity)
+  }
+  return [...merged].map(([product_barcode, quantity]) => ({ product_barcode, quantity }))
+}
+
+/**
+ * Map a receive-stock response to typed documents
+ * The function returns minimal data, hence the type assertions
+ */
+function mapResponse(response: {
+  record: Record<string, unknown>
+  items: Array<Record<string, unknown>>
+}): ReceivingRecordWithItems {
+  const record = {
+    ...response.record,
+    $collectionId: COLLECTIONS.RECEIVING_RECORDS,
+    $databaseId: '',
+    $permissions: [],
+  } as unknown as ReceivingRecord
+
+  const items = response.items.map(
+    (item) =>
+      ({
+        ...item,
+        $collectionId: COLLECTIONS.RECEIVING_ITEMS,
+        $databaseId: '',
+        $createdAt: record.$updatedAt,
+        $updatedAt: record.$updatedAt,
+        $permissions: [],
+      }) as unknown as ReceivingItem
+  )
+
+  return { ...record, items }
+}
+
+export const receivingService = {
+  /**
+   * Internal: Run an action of the receive-stock function
+   * The function checks the caller's role, adjusts stock and writes the audit entry
+   */
+  async _executeInternal(payload: Record<string, unknown>): Promise<ReceivingRecordWithItems> {
+    const userContext = getAuditUserContext()
+
+    const execution = await functions.createExecution(
+      RECEIVE_FUNCTION_ID,
+      JSON.stringify({
+        ...payload,
+        user_id: userContext?.user_id || '',
+        user_email: userContext?.user_email,
+        session_id: userContext?.session_id,
+      }),
+      false // synchronous execution
+    )
+
+    const response = JSON.parse(execution.responseBody)
+    if (!response.success) {
+      throw new Error(response.error || 'Function execution failed')
+    }
+    return mapResponse(response)
+  },
+
+  /**
+   * Receive a delivery: record it and add its products to stock
+   * Repeated barcodes are merged; bundles and unknown barcodes are rejected
+   */
+  async create(data: CreateReceivingInput): Promise<ReceivingRecordWithItems> {
+    const referenceNumber = data.reference_number.trim()
+    if (!referenceNumber) {
+      throw new Error('Reference number is required')
+    }
+    if (data.items.length === 0) {
+      throw new Error('Scan at least one product')
+    }
+
+    return this._executeInternal({
+      action: 'create',
+      receiving_date: data.receiving_date,
+      reference_number: referenceNumber,
+      location_id: data.location_id ?? null,
+      notes: data.notes ?? null,
+      items: mergeReceivingLines(data.items),
+    })
+  },
+
+  /**
+   * Edit a receiving; stock is adjusted by the difference in quantities
+   * Requires supervisor role
+   */
+  async update(recordId: string, data: UpdateReceivingInput): Promise<ReceivingRecordWithItems> {
+    requireRole('supervisor', 'receiving_update', 'receiving_record', { resource_id: recordId })
+
+    if (data.items && data.items.length === 0) {
+      throw new Error('A receiving needs at least one product; void it instead')
+    }
+
+    return this._executeInternal({
+      action: 'update',
+      record_id: recordId,
+      ...(data.reference_number !== undefined && { reference_number: data.reference_number.trim() }),
+      ...(data.notes !== undefined && { notes: data.notes }),
+      ...(data.items && { items: mergeReceivingLines(data.items) }),
+    })
+  },
+
+  /**
+   * Void a receiving: take its quantities back out of stock
+   * The record and its items are kept, marked as voided
+   * Requires supervisor role
+   */
+  async void(recordId: string, reason?: string): Promise<ReceivingRecordWithItems> {
+    requireRole('supervisor', 'receiving_void', 'receiving_record', { resource_id: recordId })
+
+    return this._executeInternal({
+      action: 'void',
+      record_id: recordId,
+      void_reason: reason?.trim() || null,
+    })
+  },
+
+  /**
+   * List receivings, newest first
+   * Dates are inclusive (YYYY-MM-DD)
+   */
+  async list(options?: {
+    startDate?: string
+    endDate?: string
+    status?: ReceivingStatus
+    limit?: number
+    offset?: number
+  }): Promise<{ documents: ReceivingRecord[]; total: number }> {
+    const queries: string[] = [
+      Query.orderDesc('receiving_date'),
+      Query.orderDesc('$createdAt'),
+      Query.limit(options?.limit ?? 25),
+    ]
+    if (options?.startDate) {
+      queries.push(Query.greaterThanEqual('receiving_date', options.startDate))
+    }
+    if (options?.endDate) {
+      queries.push(Query.lessThanEqual('receiving_date', options.endDate))
+    }
+    if (options?.status) {
+      queries.push(Query.equal('status', options.status))
+    }
+    if (options?.offset) {
+      queries.push(Query.offset(options.offset))
+    }
+
+    const result = await databaseService.listDocuments<ReceivingRecord>(
+      COLLECTIONS.RECEIVING_RECORDS,
+      queries
+    )
+    return { documents: result.documents, total: result.total }
+  },
+
+  /**
+   * Get a receiving with its items
+   */
+  async getWithItems(recordId: string): Promise<ReceivingRecordWithItems> {
+    const [record, items] = await Promise.all([
+      databaseService.getDocument<ReceivingRecord>(COLLECTIONS.RECEIVING_RECORDS, recordId),
+      databaseService.listDocuments<ReceivingItem>(COLLECTIONS.RECEIVING_ITEMS, [
+        Query.equal('receiving_record_id', recordId),
+        Query.limit(MAX_RECEIVING_ITEMS),
+      ]),
+    ])
+    return { ...record, items: items.documents }
+  },
+}
@@ -0,0 +1,265 @@
+import { databaseService, Query } from './database'
+import { auditLogService } from './audit-log'
+import { requireRole } from './roles'
+
+import type {
+  CreateReportScheduleInput,
+  ReportSchedule,
+  UpdateReportScheduleInput,
+} from '@/types/report-schedule'
+import { COLLECTIONS } from '@/types/report-schedule'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const MINUTE_MS = 60 * 1000
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+type ScheduleTiming = Pick<
+  ReportSchedule,
+  'frequency' | 'hour' | 'day_of_week' | 'day_of_month' | 'utc_offset'
+>
+
+/**
+ * Next time a schedule is due, strictly after the given time
+ * Works on the schedule's wall clock: the offset is applied, the run is
+ * placed with UTC calendar maths, and the offset is taken off again
+ */
+export function getNextRunAt(schedule: ScheduleTiming, after: Date = new Date()): Date {
+  const offsetMs = schedule.utc_offset * MINUTE_MS
+  const local = new Date(after.getTime() + offsetMs)
+  const year = local.getUTCFullYear()
+  const month = local.getUTCMonth()
+  const day = local.getUTCDate()
+
+  let candidate: number
+  if (schedule.frequency === 'monthly') {
+    const dayOfMonth = schedule.day_of_month ?? 1
+    candidate = Date.UTC(year, month, dayOfMonth, schedule.hour)
+    if (candidate <= local.getTime()) {
+      candidate = Date.UTC(year, month + 1, dayOfMonth, schedule.hour)
+    }
+  } else {
+    candidate = Date.UTC(year, month, day, schedule.hour)
+    if (schedule.frequency === 'weekly') {
+      const dayOfWeek = schedule.day_of_week ?? 1
+      candidate += ((dayOfWeek - local.getUTCDay() + 7) % 7) * DAY_MS
+      if (candidate <= local.getTime()) candidate += 7 * DAY_MS
+    } else if (candidate <= local.getTime()) {
+      candidate += DAY_MS
+    }
+  }
+
+  return new Date(candidate - offsetMs)
+}
+
+/**
+ * Recipients of a schedule; an unreadable list counts as empty
+ */
+export function parseRecipients(schedule: Pick<ReportSchedule, 'recipients'>): string[] {
+  try {
+    const recipients = JSON.parse(schedule.recipients)
+    return Array.isArray(recipients) ? recipients : []
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Reject schedules that could never be sent
+ */
+function validateSchedule(schedule: UpdateReportScheduleInput): void {
+  if (schedule.name !== undefined && !schedule.name.trim()) {
+    throw new Error('A report schedule needs a name')
+  }
+  if (schedule.recipients !== undefined) {
+    if (schedule.recipients.length === 0) {
+      throw new Error('A report schedule needs at least one recipient')
+    }
+    const invalid = schedule.recipients.find((email) => !EMAIL_PATTERN.test(email))
+    if (invalid) {
+      throw new Error(`Invalid email address: ${invalid}`)
+    }
+  }
+  if (schedule.hour !== undefined && (schedule.hour < 0 || schedule.hour > 23)) {
+    throw new Error('The hour must be between 0 and 23')
+  }
+  if (schedule.frequency === 'weekly' && schedule.day_of_week == null) {
+    throw new Error('A weekly schedule needs a day of the week')
+  }
+  if (schedule.frequency === 'monthly' && schedule.day_of_month == null) {
+    throw new Error('A monthly schedule needs a day of the month')
+  }
+}
+
+/**
+ * Document fields for a schedule's input; the day that does not apply
+ * to the frequency is cleared
+ */
+function toDocument(data: UpdateReportScheduleInput): Record<string, unknown> {
+  const { recipients, ...rest } = data
+  const document: Record<string, unknown> = { ...rest }
+
+  if (data.name !== undefined) document.name = data.name.trim()
+  if (recipients !== undefined) document.recipients = JSON.stringify(recipients)
+  if (data.frequency !== undefined) {
+    document.day_of_week = data.frequency === 'weekly' ? data.day_of_week : null
+    document.day_of_month = data.frequency === 'monthly' ? data.day_of_month : null
+  }
+
+  return document
+}
+
+export const reportScheduleService = {
+  /**
+   * List all report schedules by name
+   */
+  async list(): Promise<ReportSchedule[]> {
+    const result = await databaseService.listDocuments<ReportSchedule>(COLLECTIONS.REPORT_SCHEDULES, [
+      Query.orderAsc('name'),
+      Query.limit(100),
+    ])
+    return result.documents
+  },
+
+  /**
+   * Create a report schedule owned by the given user
+   * Hours are kept in the browser's time zone
+   */
+  async create(
+    data: CreateReportScheduleInput,
+    owner: { id: string; name: string | null }
+  ): Promise<ReportSchedule> {
+    requireRole('supervisor', 'report_schedule_create', 'report_schedule', {
+      action_details: { name: data.name },
+    })
+
+    try {
+      validateSchedule(data)
+
+      const timing = {
+        frequency: data.frequency,
+        hour: data.hour,
+        day_of_week: data.frequency === 'weekly' ? data.day_of_week ?? null : null,
+        day_of_month: data.frequency === 'monthly' ? data.day_of_month ?? null : null,
+        utc_offset: -new Date().getTimezoneOffset(),
+      }
+
+      const schedule = await databaseService.createDocument<ReportSchedule>(
+        COLLECTIONS.REPORT_SCHEDULES,
+        {
+          ...timing,
+          name: data.name.trim(),
+          date_range: data.date_range,
+          format: data.format,
+          recipients: JSON.stringify(data.recipients),
+          enabled: true,
+          user_id: owner.id,
+          created_by_name: owner.name,
+          next_run_at: getNextRunAt(timing).toISOString(),
+          last_run_at: null,
+          last_run_status: null,
+          last_run_error: null,
+          last_file_id: null,
+        }
+      )
+
+      auditLogService.log('report_schedule_create', 'report_schedule', {
+        resource_id: schedule.$id,
+        action_details: { ...data },
+      }).catch(console.error)
+
+      return schedule
+    } catch (error) {
+      auditLogService.log('report_schedule_create', 'report_schedule', {
+        action_details: { ...data },
+        status: 'failure',
+        error_message: error instanceof Error ? error.message : 'Unknown error',
+      }).catch(console.error)
+      throw error
+    }
+  },
+
+  /**
+   * Update a report schedule, or pause and resume it through `enabled`
+   * The next run is worked out again whenever the timing changes or it resumes
+   */
+  async update(
+    scheduleId: string,
+    data: UpdateReportScheduleInput & { enabled?: boolean }
+  ): Promise<ReportSchedule> {
+    requireRole('supervisor', 'report_schedule_update', 'report_schedule', {
+      resource_id: scheduleId,
+    })
+
+    try {
+      const existing = await databaseService.getDocument<ReportSchedule>(
+        COLLECTIONS.REPORT_SCHEDULES,
+        scheduleId
+      )
+      validateSchedule({
+        ...data,
+        frequency: data.frequency ?? existing.frequency,
+        day_of_week: data.day_of_week ?? existing.day_of_week,
+        day_of_month: data.day_of_month ?? existing.day_of_month,
+      })
+
+      const updates = toDocument(data)
+      const timingChanged = ['frequency', 'hour', 'day_of_week', 'day_of_month'].some(
+        (field) => field in data
+      )
+      const enabled = data.enabled ?? existing.enabled
+      if (enabled && (timingChanged || (data.enabled && !existing.enabled))) {
+        updates.utc_offset = -new Date().getTimezoneOffset()
+        updates.next_run_at = getNextRunAt({
+          ...existing,
+          ...updates,
+        } as ScheduleTiming).toISOString()
+      }
+
+      const schedule = await databaseService.updateDocument<ReportSchedule>(
+        COLLECTIONS.REPORT_SCHEDULES,
+        scheduleId,
+        updates
+      )
+
+      auditLogService.log('report_schedule_update', 'report_schedule', {
+        resource_id: scheduleId,
+        action_details: { updates: data, name: schedule.name },
+      }).catch(console.error)
+
+      return schedule
+    } catch (error) {
+      auditLogService.log('report_schedule_update', 'report_schedule', {
+        resource_id: scheduleId,
+        action_details: { updates: data },
+        status: 'failure',
+        error_message: error instanceof Error ? error.message : 'Unknown error',
+      }).catch(console.error)
+      throw error
+    }
+  },
+
+  /**
+   * Delete a report schedule
+   * Reports it already sent stay in the downloadable reports
+   */
+  async delete(scheduleId: string): Promise<void> {
+    requireRole('supervisor', 'report_schedule_delete', 'report_schedule', {
+      resource_id: scheduleId,
+    })
+
+    try {
+      await databaseService.deleteDocument(COLLECTIONS.REPORT_SCHEDULES, scheduleId)
+
+      auditLogService.log('report_schedule_delete', 'report_schedule', {
+        resource_id: scheduleId,
+      }).catch(console.error)
+    } catch (error) {
+      auditLogService.log('report_schedule_delete', 'report_schedule', {
+        resource_id: scheduleId,
+        status: 'failure',
+        error_message: error instanceof Error ? error.message : 'Unknown error',
+      }).catch(console.error)
+      throw error
+    }
+  },
+}
@@ -0,0 +1,195 @@
+import { databaseService, Query } from './database'
+import { auditLogService } from './audit-log'
+import { requireRole } from './roles'
+
+import type {
+  CreateReportTemplateInput,
+  ReportDefinition,
+  ReportTemplate,
+  UpdateReportTemplateInput,
+} from '@/types/report-template'
+import {
+  COLLECTIONS,
+  DEFAULT_REPORT_DEFINITION,
+  REPORT_COLUMNS,
+  REPORT_GROUPINGS,
+  REPORT_SECTIONS,
+  REPORT_SORT_KEYS,
+} from '@/types/report-template'
+
+function pickList<T extends string>(value: unknown, allowed: T[], fallback: T[]): T[] {
+  if (!Array.isArray(value)) return fallback
+  const picked = [...new Set(value.filter((entry): entry is T => allowed.includes(entry)))]
+  return picked.length > 0 ? picked : fallback
+}
+
+function pickOne<T extends string>(value: unknown, allowed: T[], fallback: T): T {
+  return allowed.includes(value as T) ? (value as T) : fallback
+}
+
+/**
+ * Definition of a template; unknown values fall back to the standard report
+ * Mirrors parseReportDefinition in trigger/lib/report-definition.ts, which
+ * reads the same definition when the report is generated
+ */
+export function parseReportDefinition(template: Pick<ReportTemplate, 'definition'>): ReportDefinition {
+  let saved: Record<string, unknown> = {}
+  try {
+    const parsed = JSON.parse(template.definition)
+    if (parsed && typeof parsed === 'object') saved = parsed
+  } catch {
+    // Use the standard report
+  }
+
+  const fallback = DEFAULT_REPORT_DEFINITION
+  return {
+    sections: pickList(saved.sections, REPORT_SECTIONS, fallback.sections),
+    groupBy: pickOne(saved.groupBy, REPORT_GROUPINGS, fallback.groupBy),
+    columns: pickList(saved.columns, REPORT_COLUMNS, fallback.columns),
+    sortBy: pickOne(saved.sortBy, REPORT_SORT_KEYS, fallback.sortBy),
+    sortDirection: saved.sortDirection === 'desc' ? 'desc' : 'asc',
+    bundles: saved.bundles === 'exploded' ? 'exploded' : 'as-is',
+  }
+}
+
+/**
+ * Reject templates that would produce an empty report
+ */
+function validateTemplate(template: UpdateReportTemplateInput): void {
+  if (template.name !== undefined && !template.name.trim()) {
+    throw new Error('A report template needs a name')
+  }
+  if (template.definition !== undefined) {
+    if (template.definition.sections.length === 0) {
+      throw new Error('A report template needs at least one section')
+    }
+    if (template.definition.sections.includes('details') && template.definition.columns.length === 0) {
+      throw new Error('The details section needs at least one column')
+    }
+  }
+}
+
+/**
+ * Document fields for a template's input
+ */
+function toDocument(data: UpdateReportTemplateInput): Record<string, unknown> {
+  const document: Record<string, unknown> = {}
+
+  if (data.name !== undefined) document.name = data.name.trim()
+  if (data.definition !== undefined) document.definition = JSON.stringify(data.definition)
+
+  return document
+}
+
+export const reportTemplateService = {
+  /**
+   * List all report templates by name
+   */
+  async list(): Promise<ReportTemplate[]> {
+    const result = await databaseService.listDocuments<ReportTemplate>(COLLECTIONS.REPORT_TEMPLATES, [
+      Query.orderAsc('name'),
+      Query.limit(100),
+    ])
+    return result.documents
+  },
+
+  /**
+   * Create a report template owned by the given user
+   */
+  async create(
+    data: CreateReportTemplateInput,
+    owner: { id: string; name: string | null }
+  ): Promise<ReportTemplate> {
+    requireRole('supervisor', 'report_template_create', 'report_template', {
+      action_details: { name: data.name },
+    })
+
+    try {
+      validateTemplate(data)
+
+      const template = await databaseService.createDocument<ReportTemplate>(
+        COLLECTIONS.REPORT_TEMPLATES,
+        {
+          name: data.name.trim(),
+          definition: JSON.stringify(data.definition),
+          user_id: owner.id,
+          created_by_name: owner.name,
+        }
+      )
+
+      auditLogService.log('report_template_create', 'report_template', {
+        resource_id: template.$id,
+        action_details: { ...data },
+      }).catch(console.error)
+
+      return template
+    } catch (error) {
+      auditLogService.log('report_template_create', 'report_template', {
+        action_details: { ...data },
+        status: 'failure',
+        error_message: error instanceof Error ? error.message : 'Unknown error',
+      }).catch(console.error)
+      throw error
+    }
+  },
+
+  /**
+   * Update a report template
+   * Reports already generated from it keep the layout they were made with
+   */
+  async update(templateId: string, data: UpdateReportTemplateInput): Promise<ReportTemplate> {
+    requireRole('supervisor', 'report_template_update', 'report_template', {
+      resource_id: templateId,
+    })
+
+    try {
+      validateTemplate(data)
+
+      const template = await databaseService.updateDocument<ReportTemplate>(
+        COLLECTIONS.REPORT_TEMPLATES,
+        templateId,
+        toDocument(data)
+      )
+
+      auditLogService.log('report_template_update', 'report_template', {
+        resource_id: templateId,
+        action_details: { updates: data, name: template.name },
+      }).catch(console.error)
+
+      return template
+    } catch (error) {
+      auditLogService.log('report_template_update', 'report_template', {
+        resource_id: templateId,
+        action_details: { updates: data },
+        status: 'failure',
+        error_message: error instanceof Error ? error.message : 'Unknown error',
+      }).catch(console.error)
+      throw error
+    }
+  },
+
+  /**
+   * Delete a report template
+   * Exports queued with it fail once they start; finished reports are kept
+   */
+  async delete(templateId: string): Promise<void> {
+    requireRole('supervisor', 'report_template_delete', 'report_template', {
+      resource_id: templateId,
+    })
+
+    try {
+      await databaseService.deleteDocument(COLLECTIONS.REPORT_TEMPLATES, templateId)
+
+      auditLogService.log('report_template_delete', 'report_template', {
+        resource_id: templateId,
+      }).catch(console.error)
+    } catch (error) {
+      auditLogService.log('report_template_delete', 'report_template', {
+        resource_id: templateId,
+        status: 'failure',
+        error_message: error instanceof Error ? error.message : 'Unknown error',
+      }).catch(console.error)
+      throw error
+    }
+  },
+}
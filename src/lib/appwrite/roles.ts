@@ -0,0 +1,65 @@
+import type { AuditActionType, AuditResourceType } from '@/types/audit'
+import type { UserRole } from '@/types/role'
+import { USER_ROLES } from '@/types/role'
+
+import { auditLogService } from './audit-log'
+
+/**
+ * Check whether a role grants at least the required role
+ */
+export function hasRole(role: UserRole | null, required: UserRole): boolean {
+  if (!role) return false
+  return USER_ROLES.indexOf(role) >= USER_ROLES.indexOf(required)
+}
+
+/**
+ * Pick the most privileged known role from a list of membership roles
+ */
+export function resolveRole(roles: string[]): UserRole | null {
+  let resolved: UserRole | null = null
+  for (const role of roles) {
+    if (USER_ROLES.includes(role as UserRole) && !hasRole(resolved, role as UserRole)) {
+      resolved = role as UserRole
+    }
+  }
+  return resolved
+}
+
+// Global role storage, set by AuthContext alongside the audit user context
+let currentRole: UserRole | null = null
+
+/**
+ * Set the role of the signed-in user
+ */
+export function setCurrentRole(role: UserRole | null): void {
+  currentRole = role
+}
+
+/**
+ * Get the role of the signed-in user
+ */
+export function getCurrentRole(): UserRole | null {
+  return currentRole
+}
+
+/**
+ * Throw if the signed-in user lacks the required role.
+ * Denials are audited as failures of the attempted action.
+ */
+export function requireRole(
+  required: UserRole,
+  action: AuditActionType,
+  resource: AuditResourceType,
+  options?: { resource_id?: string; action_details?: Record<string, unknown> }
+): void {
+  if (hasRole(currentRole, required)) return
+
+  const message = `Permission denied: requires ${required} role`
+  auditLogService.log(action, resource, {
+    resource_id: options?.resource_id,
+    action_details: { ...options?.action_details, required_role: required, role: currentRole },
+    status: 'failure',
+    error_message: message,
+  }).catch(console.error)
+  throw new Error(message)
+}
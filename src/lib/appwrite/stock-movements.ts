@@ -0,0 +1,154 @@
+import { databaseService, Query } from './database'
+import { auditLogService, getAuditUserContext } from './audit-log'
+
+import type { Product } from '@/types/product'
+import { COLLECTIONS as PRODUCT_COLLECTIONS } from '@/types/product'
+import type {
+  CreateStockMovementInput,
+  StockLedgerCheck,
+  StockMovement,
+} from '@/types/stock-movement'
+import { COLLECTIONS } from '@/types/stock-movement'
+
+// Page size when walking a product's full movement history
+const REBUILD_PAGE_SIZE = 100
+
+export const stockMovementService = {
+  /**
+   * Internal: Record stock movements for the current user
+   * Failures are logged and swallowed so a ledger write never undoes a stock change
+   */
+  async _recordInternal(movements: CreateStockMovementInput[]): Promise<void> {
+    if (movements.length === 0) return
+
+    const userId = getAuditUserContext()?.user_id ?? null
+
+    const results = await Promise.allSettled(
+      movements.map((movement) =>
+        databaseService.createDocument<StockMovement>(COLLECTIONS.STOCK_MOVEMENTS, {
+          product_id: movement.product_id,
+          delta: movement.delta,
+          resulting_quantity: movement.resulting_quantity,
+          reason: movement.reason,
+          source_id: movement.source_id ?? null,
+          user_id: userId,
+          location_id: movement.location_id ?? null,
+        })
+      )
+    )
+
+    results.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        console.error(
+          `Failed to record stock movement for product ${movements[index].product_id}:`,
+          result.reason
+        )
+      }
+    })
+  },
+
+  /**
+   * List a product's stock movements, newest first
+   */
+  async listByProduct(
+    productId: string,
+    options?: { limit?: number; offset?: number }
+  ): Promise<{ documents: StockMovement[]; total: number }> {
+    const queries: string[] = [
+      Query.equal('product_id', productId),
+      Query.orderDesc('$createdAt'),
+      Query.limit(options?.limit ?? 25),
+    ]
+    if (options?.offset) {
+      queries.push(Query.offset(options.offset))
+    }
+
+    const result = await databaseService.listDocuments<StockMovement>(
+      COLLECTIONS.STOCK_MOVEMENTS,
+      queries
+    )
+    return { documents: result.documents, total: result.total }
+  },
+
+  /**
+   * Rebuild a product's stock from its movements and compare it with the stored total
+   * The opening quantity is taken from the first movement, so history recorded
+   * before the ledger existed does not count as drift
+   */
+  async rebuildStock(productId: string): Promise<StockLedgerCheck> {
+    const product = await databaseService.getDocument<Product>(
+      PRODUCT_COLLECTIONS.PRODUCTS,
+      productId
+    )
+
+    let movementCount = 0
+    let openingQuantity = 0
+    let rebuiltQuantity = 0
+    let previousQuantity: number | null = null
+    let gaps = 0
+    let cursor: string | null = null
+
+    // Movements written in one batch often share a timestamp: $id breaks the
+    // tie and the cursor keeps each page starting right after the last one
+    while (true) {
+      const result: { documents: StockMovement[] } = await databaseService.listDocuments<StockMovement>(
+        COLLECTIONS.STOCK_MOVEMENTS,
+        [
+          Query.equal('product_id', productId),
+          Query.orderAsc('$createdAt'),
+          Query.orderAsc('$id'),
+          Query.limit(REBUILD_PAGE_SIZE),
+          ...(cursor ? [Query.cursorAfter(cursor)] : []),
+        ]
+      )
+
+      for (const movement of result.documents) {
+        const startingQuantity = movement.resulting_quantity - movement.delta
+        if (previousQuantity === null) {
+          openingQuantity = startingQuantity
+          rebuiltQuantity = startingQuantity
+        } else if (startingQuantity !== previousQuantity) {
+          gaps++
+        }
+
+        rebuiltQuantity += movement.delta
+        previousQuantity = movement.resulting_quantity
+        movementCount++
+      }
+
+      if (result.documents.length < REBUILD_PAGE_SIZE) break
+      cursor = result.documents[result.documents.length - 1].$id
+    }
+
+    // Without movements there is nothing to compare against
+    if (movementCount === 0) {
+      rebuiltQuantity = product.stock_quantity
+      openingQuantity = product.stock_quantity
+    }
+
+    const check: StockLedgerCheck = {
+      product_id: productId,
+      movement_count: movementCount,
+      opening_quantity: openingQuantity,
+      rebuilt_quantity: rebuiltQuantity,
+      current_quantity: product.stock_quantity,
+      drift: product.stock_quantity - rebuiltQuantity,
+      gaps,
+    }
+
+    auditLogService.log('product_stock_ledger_check', 'product', {
+      resource_id: productId,
+      action_details: {
+        barcode: product.barcode,
+        name: product.name,
+        movements: movementCount,
+        rebuilt: rebuiltQuantity,
+        current: product.stock_quantity,
+        drift: check.drift,
+        gaps,
+      },
+    }).catch(console.error)
+
+    return check
+  },
+}
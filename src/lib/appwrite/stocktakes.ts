@@ -0,0 +1,227 @@
+import { databaseService, Query } from './database'
+import { getAuditUserContext } from './audit-log'
+import { functions } from './config'
+import { requireRole } from './roles'
+
+import type {
+  CreateStocktakeInput,
+  Stocktake,
+  StocktakeCountInput,
+  StocktakeItem,
+  StocktakeReasonCode,
+  StocktakeStatus,
+  StocktakeSummary,
+  StocktakeWithItems,
+} from '@/types/stocktake'
+import { COLLECTIONS } from '@/types/stocktake'
+
+// Function ID - configurable via environment variable
+const STOCKTAKE_FUNCTION_ID = import.meta.env.VITE_APPWRITE_STOCKTAKE_FUNCTION_ID || 'stocktake'
+
+// Items read per request when loading a stocktake
+const ITEM_PAGE_SIZE = 5000
+
+/**
+ * Counted minus system quantity of an item, or null while it is uncounted
+ */
+export function getStocktakeVariance(item: Pick<StocktakeItem, 'system_quantity' | 'counted_quantity'>): number | null {
+  if (item.counted_quantity === null || item.counted_quantity === undefined) {
+    return null
+  }
+  return item.counted_quantity - item.system_quantity
+}
+
+/**
+ * Totals of a stocktake's counts and variances
+ * Uncounted items have no variance; approving leaves them unchanged
+ */
+export function summarizeStocktake(
+  items: Array<Pick<StocktakeItem, 'system_quantity' | 'counted_quantity' | 'unit_cost'>>
+): StocktakeSummary {
+  const summary: StocktakeSummary = {
+    total: items.length,
+    counted: 0,
+    uncounted: 0,
+    withVariance: 0,
+    unitsOver: 0,
+    unitsShort: 0,
+    varianceValue: 0,
+  }
+
+  for (const item of items) {
+    const variance = getStocktakeVariance(item)
+    if (variance === null) {
+      summary.uncounted++
+      continue
+    }
+    summary.counted++
+    if (variance === 0) continue
+
+    summary.withVariance++
+    if (variance > 0) {
+      summary.unitsOver += variance
+    } else {
+      summary.unitsShort -= variance
+    }
+    summary.varianceValue += variance * (item.unit_cost ?? 0)
+  }
+
+  summary.varianceValue = Math.round(summary.varianceValue * 100) / 100
+  return summary
+}
+
+/**
+ * Map a stocktake response to a typed document
+ * The function returns minimal data, hence the type assertion
+ */
+function mapResponse(response: { stocktake: Record<string, unknown> }): Stocktake {
+  return {
+    ...response.stocktake,
+    $collectionId: COLLECTIONS.STOCKTAKES,
+    $databaseId: '',
+    $permissions: [],
+  } as unknown as Stocktake
+}
+
+export const stocktakeService = {
+  /**
+   * Internal: Run an action of the stocktake function
+   * The function checks the caller's role, adjusts stock and writes the audit entry
+   */
+  async _executeInternal(payload: Record<string, unknown>): Promise<Stocktake> {
+    const userContext = getAuditUserContext()
+
+    const execution = await functions.createExecution(
+      STOCKTAKE_FUNCTION_ID,
+      JSON.stringify({
+        ...payload,
+        user_id: userContext?.user_id || '',
+        user_email: userContext?.user_email,
+        session_id: userContext?.session_id,
+      }),
+      false // synchronous execution
+    )
+
+    const response = JSON.parse(execution.responseBody)
+    if (!response.success) {
+      throw new Error(response.error || 'Function execution failed')
+    }
+    return mapResponse(response)
+  },
+
+  /**
+   * Start a stocktake: snapshot the system stock of every product counted
+   * An empty filter counts every single product at the location
+   * Requires supervisor role
+   */
+  async create(data: CreateStocktakeInput): Promise<Stocktake> {
+    requireRole('supervisor', 'stocktake_create', 'stocktake', { action_details: { name: data.name } })
+
+    const name = data.name.trim()
+    if (!name) {
+      throw new Error('Stocktake name is required')
+    }
+    const search = data.filters?.search?.trim()
+
+    return this._executeInternal({
+      action: 'create',
+      name,
+      location_id: data.location_id ?? null,
+      blind: data.blind ?? false,
+      filters: search ? { search } : null,
+    })
+  },
+
+  /**
+   * Save counted quantities; a null quantity clears the count
+   * Counts are absolute, so saving the same counts twice is harmless
+   */
+  async saveCounts(stocktakeId: string, counts: StocktakeCountInput[]): Promise<Stocktake> {
+    if (counts.length === 0) {
+      throw new Error('There are no counts to save')
+    }
+
+    return this._executeInternal({
+      action: 'count',
+      stocktake_id: stocktakeId,
+      counts,
+    })
+  },
+
+  /**
+   * Approve a stocktake: apply each counted variance to stock
+   * Uncounted items are left unchanged
+   * Requires supervisor role
+   */
+  async approve(stocktakeId: string, reasonCode: StocktakeReasonCode, notes?: string): Promise<Stocktake> {
+    requireRole('supervisor', 'stocktake_approve', 'stocktake', {
+      resource_id: stocktakeId,
+      action_details: { reason_code: reasonCode },
+    })
+
+    return this._executeInternal({
+      action: 'approve',
+      stocktake_id: stocktakeId,
+      reason_code: reasonCode,
+      notes: notes?.trim() || null,
+    })
+  },
+
+  /**
+   * Cancel a stocktake without changing stock
+   * Requires supervisor role
+   */
+  async cancel(stocktakeId: string, notes?: string): Promise<Stocktake> {
+    requireRole('supervisor', 'stocktake_cancel', 'stocktake', { resource_id: stocktakeId })
+
+    return this._executeInternal({
+      action: 'cancel',
+      stocktake_id: stocktakeId,
+      notes: notes?.trim() || null,
+    })
+  },
+
+  /**
+   * List stocktakes, newest first
+   */
+  async list(options?: {
+    status?: StocktakeStatus
+    limit?: number
+    offset?: number
+  }): Promise<{ documents: Stocktake[]; total: number }> {
+    const queries: string[] = [Query.orderDesc('$createdAt'), Query.limit(options?.limit ?? 25)]
+    if (options?.status) {
+      queries.push(Query.equal('status', options.status))
+    }
+    if (options?.offset) {
+      queries.push(Query.offset(options.offset))
+    }
+
+    const result = await databaseService.listDocuments<Stocktake>(COLLECTIONS.STOCKTAKES, queries)
+    return { documents: result.documents, total: result.total }
+  },
+
+  /**
+   * Get a stocktake with all of its items, ordered by product name
+   */
+  async getWithItems(stocktakeId: string): Promise<StocktakeWithItems> {
+    const stocktake = await databaseService.getDocument<Stocktake>(COLLECTIONS.STOCKTAKES, stocktakeId)
+
+    const items: StocktakeItem[] = []
+    let offset = 0
+    let hasMore = true
+    while (hasMore) {
+      const result = await databaseService.listDocuments<StocktakeItem>(COLLECTIONS.STOCKTAKE_ITEMS, [
+        Query.equal('stocktake_id', stocktakeId),
+        Query.orderAsc('product_name'),
+        Query.limit(ITEM_PAGE_SIZE),
+        Query.offset(offset),
+      ])
+      items.push(...result.documents)
+      offset += result.documents.length
+      hasMore = result.documents.length === ITEM_PAGE_SIZE
+    }
+
+    return { ...stocktake, items }
+  },
+}
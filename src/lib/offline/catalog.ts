@@ -0,0 +1,228 @@
+import { databaseService, Query } from '@/lib/appwrite/database'
+import { locationStockService } from '@/lib/appwrite/locations'
+import type { Location } from '@/types/location'
+import type { CatalogProduct, QueuedWaybill } from '@/types/offline'
+import type { Product, ProductBarcode, ProductComponent } from '@/types/product'
+import { COLLECTIONS as PRODUCT_COLLECTIONS } from '@/types/product'
+
+import { offlineDb, STORES } from './idb'
+
+const PAGE_SIZE = 100
+const REFRESHED_AT_KEY = 'refreshed_at'
+
+type LocatedProduct = {
+  product: Product
+  bundleComponents?: Array<{ product: Product; quantity: number }>
+  packQuantity: number // Units one scan of the barcode counts as
+}
+
+/**
+ * Fetch every document of a collection, a page at a time
+ */
+async function listAllDocuments<T extends Product | ProductComponent | ProductBarcode>(
+  collectionId: string
+): Promise<T[]> {
+  const documents: T[] = []
+  let offset = 0
+
+  while (true) {
+    const result = await databaseService.listDocuments<T>(collectionId, [
+      Query.limit(PAGE_SIZE),
+      Query.offset(offset),
+    ])
+    documents.push(...result.documents)
+    if (result.documents.length < PAGE_SIZE) break
+    offset += PAGE_SIZE
+  }
+
+  return documents
+}
+
+/**
+ * Total stock still to be deducted by queued waybills, per product
+ * Only waybills packed from the given location count
+ */
+export function getQueuedDeductions(
+  queue: QueuedWaybill[],
+  locationId?: string
+): Map<string, number> {
+  const deductions = new Map<string, number>()
+  for (const waybill of queue) {
+    if ((waybill.record.location_id ?? undefined) !== locationId) continue
+    for (const update of waybill.stock_updates) {
+      deductions.set(
+        update.product_id,
+        (deductions.get(update.product_id) || 0) + update.deduct_amount
+      )
+    }
+  }
+  return deductions
+}
+
+/**
+ * Copy of a cached product with its stock at the location, less
+ * whatever queued waybills will deduct
+ */
+function toLocatedProduct(
+  entry: CatalogProduct,
+  locationId: string | undefined,
+  deductions: Map<string, number>
+): Product {
+  const cached = locationId !== undefined
+    ? entry.stock_by_location[locationId] ?? entry.product.stock_quantity
+    : entry.product.stock_quantity
+  return {
+    ...entry.product,
+    stock_quantity: Math.max(0, cached - (deductions.get(entry.product.$id) || 0)),
+  }
+}
+
+/**
+ * Expand a cached bundle into the cached products it contains
+ * Nested bundles are multiplied out; throws when a bundle contains itself
+ */
+async function expandCachedBundle(
+  entry: CatalogProduct,
+  path: CatalogProduct[] = [entry]
+): Promise<Array<{ entry: CatalogProduct; quantity: number }>> {
+  const expanded = new Map<string, { entry: CatalogProduct; quantity: number }>()
+
+  for (const component of entry.components) {
+    const child = await offlineDb.get<CatalogProduct>(STORES.CATALOG, component.product_id)
+    if (!child) continue
+
+    let contained = [{ entry: child, quantity: component.quantity }]
+    if (child.product.type === 'bundle') {
+      if (path.some((parent) => parent.product.$id === child.product.$id)) {
+        const names = [...path, child].map((parent) => parent.product.name)
+        throw new Error(`Bundle cycle: ${names.join(' → ')}`)
+      }
+      contained = (await expandCachedBundle(child, [...path, child])).map((nested) => ({
+        entry: nested.entry,
+        quantity: nested.quantity * component.quantity,
+      }))
+    }
+
+    for (const { entry: product, quantity } of contained) {
+      const existing = expanded.get(product.product.$id)
+      if (existing) {
+        existing.quantity += quantity
+      } else {
+        expanded.set(product.product.$id, { entry: product, quantity })
+      }
+    }
+  }
+
+  return [...expanded.values()]
+}
+
+/**
+ * Product catalogue cached in IndexedDB so barcodes can be looked up
+ * while the packing station is offline
+ */
+export const offlineCatalogService = {
+  /**
+   * Download products, bundle components, alternate barcodes and per-location stock
+   * Returns the number of products cached
+   */
+  async refresh(locations: Location[]): Promise<number> {
+    const [products, components, aliases] = await Promise.all([
+      listAllDocuments<Product>(PRODUCT_COLLECTIONS.PRODUCTS),
+      listAllDocuments<ProductComponent>(PRODUCT_COLLECTIONS.PRODUCT_COMPONENTS),
+      listAllDocuments<ProductBarcode>(PRODUCT_COLLECTIONS.PRODUCT_BARCODES),
+    ])
+    const stock = locations.length > 0
+      ? await locationStockService.getStockByLocation(products, locations)
+      : new Map<string, Map<string, number>>()
+
+    const componentsByParent = new Map<string, CatalogProduct['components']>()
+    for (const component of components) {
+      const list = componentsByParent.get(component.parent_product_id) ?? []
+      list.push({ product_id: component.child_product_id, quantity: component.quantity })
+      componentsByParent.set(component.parent_product_id, list)
+    }
+
+    const aliasesByProduct = new Map<string, NonNullable<CatalogProduct['aliases']>>()
+    for (const alias of aliases) {
+      const list = aliasesByProduct.get(alias.product_id) ?? []
+      list.push({ barcode: alias.barcode, pack_quantity: alias.pack_quantity })
+      aliasesByProduct.set(alias.product_id, list)
+    }
+
+    const entries: CatalogProduct[] = products.map((product) => ({
+      product,
+      components: componentsByParent.get(product.$id) ?? [],
+      aliases: aliasesByProduct.get(product.$id) ?? [],
+      stock_by_location: Object.fromEntries(stock.get(product.$id) ?? []),
+    }))
+
+    await offlineDb.replaceAll(STORES.CATALOG, entries)
+    await offlineDb.put(STORES.CATALOG_META, new Date().toISOString(), REFRESHED_AT_KEY)
+
+    return entries.length
+  },
+
+  /**
+   * When the catalogue was last downloaded, or null if never
+   */
+  async getRefreshedAt(): Promise<string | null> {
+    return (await offlineDb.get<string>(STORES.CATALOG_META, REFRESHED_AT_KEY)) ?? null
+  },
+
+  /**
+   * Look up a product by barcode with stock at the location
+   * Alternate barcodes resolve to their product with its pack quantity
+   * Bundles come with their components; stock excludes queued waybills
+   */
+  async lookup(
+    barcode: string,
+    locationId: string | undefined,
+    queue: QueuedWaybill[]
+  ): Promise<LocatedProduct | null> {
+    let entry = await offlineDb.getByIndex<CatalogProduct>(STORES.CATALOG, 'barcode', barcode)
+    let packQuantity = 1
+    if (!entry) {
+      // Alternate barcodes aren't indexed; they are rare enough to scan for
+      const entries = await offlineDb.getAll<CatalogProduct>(STORES.CATALOG)
+      const alias = entries
+        .flatMap((candidate) => (candidate.aliases ?? []).map((a) => ({ candidate, ...a })))
+        .find((a) => a.barcode === barcode)
+      if (!alias) return null
+      entry = alias.candidate
+      packQuantity = alias.pack_quantity
+    }
+
+    const deductions = getQueuedDeductions(queue, locationId)
+    const located: LocatedProduct = {
+      product: toLocatedProduct(entry, locationId, deductions),
+      packQuantity,
+    }
+
+    if (entry.product.type === 'bundle' && entry.components.length > 0) {
+      located.bundleComponents = (await expandCachedBundle(entry)).map((component) => ({
+        product: toLocatedProduct(component.entry, locationId, deductions),
+        quantity: component.quantity,
+      }))
+    }
+
+    return located
+  },
+
+  /**
+   * Search cached products by barcode, name or SKU
+   */
+  async search(query: string, limit = 10): Promise<Product[]> {
+    const needle = query.trim().toLowerCase()
+    if (!needle) return []
+
+    const entries = await offlineDb.getAll<CatalogProduct>(STORES.CATALOG)
+    return entries
+      .map((entry) => entry.product)
+      .filter((product) =>
+        [product.barcode, product.name, product.sku_code ?? ''].some((field) =>
+          field.toLowerCase().includes(needle)
+        )
+      )
+      .slice(0, limit)
+  },
+}
@@ -0,0 +1,121 @@
+// IndexedDB database backing offline packaging
+const DB_NAME = 'wrapster-offline'
+const DB_VERSION = 1
+
+export const STORES = {
+  CATALOG: 'catalog',
+  CATALOG_META: 'catalog_meta',
+  WAYBILL_QUEUE: 'waybill_queue',
+} as const
+
+type StoreName = (typeof STORES)[keyof typeof STORES]
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+/**
+ * Wrap an IndexedDB request in a promise
+ */
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/**
+ * Open (and create or upgrade) the offline database once per page
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        const db = request.result
+        const catalog = db.createObjectStore(STORES.CATALOG, { keyPath: 'product.$id' })
+        catalog.createIndex('barcode', 'product.barcode', { unique: false })
+        db.createObjectStore(STORES.CATALOG_META)
+        db.createObjectStore(STORES.WAYBILL_QUEUE, { keyPath: 'idempotency_key' })
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    }).catch((error) => {
+      dbPromise = null
+      throw error
+    })
+  }
+  return dbPromise
+}
+
+/**
+ * Run a single request against a store
+ */
+async function withStore<T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase()
+  return promisify(run(db.transaction(storeName, mode).objectStore(storeName)))
+}
+
+export const offlineDb = {
+  /**
+   * Check whether the browser supports IndexedDB
+   */
+  isSupported(): boolean {
+    return typeof indexedDB !== 'undefined'
+  },
+
+  /**
+   * Get a value by key
+   */
+  async get<T>(storeName: StoreName, key: IDBValidKey): Promise<T | undefined> {
+    return withStore<T | undefined>(storeName, 'readonly', (store) => store.get(key))
+  },
+
+  /**
+   * Get every value in a store
+   */
+  async getAll<T>(storeName: StoreName): Promise<T[]> {
+    return withStore<T[]>(storeName, 'readonly', (store) => store.getAll())
+  },
+
+  /**
+   * Get the first value matching an index key
+   */
+  async getByIndex<T>(storeName: StoreName, index: string, key: IDBValidKey): Promise<T | undefined> {
+    return withStore<T | undefined>(storeName, 'readonly', (store) => store.index(index).get(key))
+  },
+
+  /**
+   * Insert or replace a value
+   */
+  async put<T>(storeName: StoreName, value: T, key?: IDBValidKey): Promise<void> {
+    await withStore(storeName, 'readwrite', (store) => store.put(value, key))
+  },
+
+  /**
+   * Delete a value by key
+   */
+  async delete(storeName: StoreName, key: IDBValidKey): Promise<void> {
+    await withStore(storeName, 'readwrite', (store) => store.delete(key))
+  },
+
+  /**
+   * Replace every value in a store in one transaction
+   */
+  async replaceAll<T>(storeName: StoreName, values: T[]): Promise<void> {
+    const db = await openDatabase()
+    const transaction = db.transaction(storeName, 'readwrite')
+    const store = transaction.objectStore(storeName)
+    store.clear()
+    for (const value of values) {
+      store.put(value)
+    }
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve()
+      transaction.onerror = () => reject(transaction.error)
+      transaction.onabort = () => reject(transaction.error)
+    })
+  },
+}
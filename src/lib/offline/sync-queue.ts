@@ -0,0 +1,195 @@
+import { locationService, locationStockService } from '@/lib/appwrite/locations'
+import { packagingRecordService } from '@/lib/appwrite/packaging'
+import { productService } from '@/lib/appwrite/products'
+import type { QueuedWaybill, StockConflict, SyncQueueResult } from '@/types/offline'
+import type { Product } from '@/types/product'
+
+import { offlineDb, STORES } from './idb'
+
+// Automatic sync attempts before a waybill waits for a manual retry
+export const MAX_SYNC_ATTEMPTS = 5
+
+// A sync pass already running in this tab
+let activeSync: Promise<SyncQueueResult> | null = null
+
+/**
+ * Check whether an error means the server could not be reached
+ * fetch rejects with a TypeError when the network is down
+ */
+export function isNetworkError(error: unknown): boolean {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true
+  return error instanceof TypeError
+}
+
+/**
+ * Compare a queued waybill's stock deductions with the stock now at its
+ * location. Products that no longer have enough stock are conflicts.
+ */
+export function findStockConflicts(
+  waybill: QueuedWaybill,
+  products: Map<string, Product>,
+  quantities: Map<string, number>
+): StockConflict[] {
+  const conflicts: StockConflict[] = []
+
+  for (const update of waybill.stock_updates) {
+    const product = products.get(update.product_id)
+    const available = quantities.get(update.product_id) ?? 0
+    if (product && available >= update.deduct_amount) continue
+
+    conflicts.push({
+      product_id: update.product_id,
+      barcode: product?.barcode ?? '',
+      name: product?.name ?? update.product_id,
+      required: update.deduct_amount,
+      expected: waybill.expected_stock[update.product_id] ?? available,
+      available,
+    })
+  }
+
+  return conflicts
+}
+
+/**
+ * Queue of waybills completed while offline, kept in IndexedDB until
+ * they are saved through the create-packaging function. Each waybill
+ * keeps its idempotency key, so a sync that reached the server before
+ * the connection dropped is replayed rather than saved twice.
+ */
+export const offlineQueueService = {
+  /**
+   * List queued waybills, oldest first
+   */
+  async list(): Promise<QueuedWaybill[]> {
+    const queue = await offlineDb.getAll<QueuedWaybill>(STORES.WAYBILL_QUEUE)
+    return queue.sort((a, b) => a.queued_at.localeCompare(b.queued_at))
+  },
+
+  /**
+   * Add a completed waybill to the queue
+   */
+  async enqueue(
+    waybill: Pick<
+      QueuedWaybill,
+      'idempotency_key' | 'record' | 'items' | 'stock_updates' | 'expected_stock'
+    >
+  ): Promise<QueuedWaybill> {
+    const queued: QueuedWaybill = {
+      ...waybill,
+      status: 'pending',
+      conflicts: [],
+      force: false,
+      attempts: 0,
+      last_error: null,
+      queued_at: new Date().toISOString(),
+    }
+    await offlineDb.put(STORES.WAYBILL_QUEUE, queued)
+    return queued
+  },
+
+  /**
+   * Put a conflicting or failed waybill back in line
+   * Conflicts are synced as they are, even though stock changed
+   */
+  async retry(idempotencyKey: string): Promise<void> {
+    const waybill = await offlineDb.get<QueuedWaybill>(STORES.WAYBILL_QUEUE, idempotencyKey)
+    if (!waybill) return
+
+    await offlineDb.put(STORES.WAYBILL_QUEUE, {
+      ...waybill,
+      status: 'pending',
+      force: waybill.force || waybill.status === 'conflict',
+      attempts: 0,
+      last_error: null,
+    })
+  },
+
+  /**
+   * Remove a waybill from the queue without saving it
+   */
+  async discard(idempotencyKey: string): Promise<void> {
+    await offlineDb.delete(STORES.WAYBILL_QUEUE, idempotencyKey)
+  },
+
+  /**
+   * Internal: Check a waybill against the stock now at its location
+   */
+  async _checkStockInternal(waybill: QueuedWaybill): Promise<StockConflict[]> {
+    const productIds = waybill.stock_updates.map((update) => update.product_id)
+    const products = await productService._getByIdsInternal(productIds)
+
+    let quantities = new Map<string, number>()
+    if (waybill.record.location_id) {
+      const location = await locationService.getById(waybill.record.location_id)
+      quantities = await locationStockService.getQuantities([...products.values()], location)
+    } else {
+      for (const product of products.values()) {
+        quantities.set(product.$id, product.stock_quantity)
+      }
+    }
+
+    return findStockConflicts(waybill, products, quantities)
+  },
+
+  /**
+   * Internal: Sync each pending waybill in order
+   */
+  async _syncInternal(): Promise<SyncQueueResult> {
+    const result: SyncQueueResult = { synced: 0, conflicts: 0, failed: 0, offline: false }
+    const queue = await this.list()
+
+    for (const waybill of queue) {
+      if (waybill.status !== 'pending') continue
+
+      try {
+        if (!waybill.force) {
+          const conflicts = await this._checkStockInternal(waybill)
+          if (conflicts.length > 0) {
+            await offlineDb.put(STORES.WAYBILL_QUEUE, { ...waybill, status: 'conflict', conflicts })
+            result.conflicts++
+            continue
+          }
+        }
+
+        await packagingRecordService.createWithItemsViaFunction(
+          waybill.record,
+          waybill.items,
+          waybill.stock_updates,
+          waybill.idempotency_key
+        )
+        await offlineDb.delete(STORES.WAYBILL_QUEUE, waybill.idempotency_key)
+        result.synced++
+      } catch (error) {
+        // Nothing else will get through until the connection is back;
+        // the waybill keeps its place and its attempts
+        if (isNetworkError(error)) {
+          result.offline = true
+          break
+        }
+
+        const attempts = waybill.attempts + 1
+        const exhausted = attempts >= MAX_SYNC_ATTEMPTS
+        await offlineDb.put(STORES.WAYBILL_QUEUE, {
+          ...waybill,
+          status: exhausted ? 'failed' : 'pending',
+          attempts,
+          last_error: error instanceof Error ? error.message : 'Unknown error',
+        })
+        if (exhausted) result.failed++
+      }
+    }
+
+    return result
+  },
+
+  /**
+   * Sync pending waybills through the create-packaging function
+   * Waybills whose stock changed are held back as conflicts
+   */
+  async sync(): Promise<SyncQueueResult> {
+    activeSync ??= this._syncInternal().finally(() => {
+      activeSync = null
+    })
+    return activeSync
+  },
+}
@@ -0,0 +1,35 @@
+// Scanner-style beep played when a camera scan is read
+const BEEP_FREQUENCY_HZ = 1800
+const BEEP_DURATION_S = 0.08
+const VIBRATION_MS = 80
+
+let audioContext: AudioContext | null = null
+
+/**
+ * Play a short beep and vibrate, like a handheld scanner
+ * Either may be unavailable (no Web Audio, no vibration motor, muted tab)
+ */
+export function playScanFeedback(): void {
+  if (typeof navigator !== 'undefined' && 'vibrate' in navigator) {
+    navigator.vibrate(VIBRATION_MS)
+  }
+
+  try {
+    audioContext ??= new AudioContext()
+    const oscillator = audioContext.createOscillator()
+    const gain = audioContext.createGain()
+    const now = audioContext.currentTime
+
+    oscillator.type = 'square'
+    oscillator.frequency.value = BEEP_FREQUENCY_HZ
+    gain.gain.setValueAtTime(0.1, now)
+    gain.gain.exponentialRampToValueAtTime(0.001, now + BEEP_DURATION_S)
+
+    oscillator.connect(gain)
+    gain.connect(audioContext.destination)
+    oscillator.start(now)
+    oscillator.stop(now + BEEP_DURATION_S)
+  } catch (error) {
+    console.warn('Scan beep unavailable:', error)
+  }
+}
@@ -1,20 +1,38 @@
 import { useState } from 'react'
 import { useQuery } from '@tanstack/react-query'
-import { formatDistanceToNow, format } from 'date-fns'
+import { endOfDay, formatDistanceToNow, format, startOfDay } from 'date-fns'
+import { useTranslation } from 'react-i18next'
+import { toast } from 'sonner'
+import * as XLSX from 'xlsx'
 import {
   AlertCircle,
   CheckCircle2,
   ChevronDown,
   ChevronRight,
-  Download,
+  FileSpreadsheet,
+  FileText,
+  History,
   Loader2,
-  Search,
+  X,
   XCircle,
 } from 'lucide-react'
 
 import { Button } from '@/components/ui/button'
+import { Calendar } from '@/components/ui/calendar'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
 import { Input } from '@/components/ui/input'
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover'
 import {
   Select,
   SelectContent,
@@ -27,94 +45,226 @@ import {
   CollapsibleContent,
   CollapsibleTrigger,
 } from '@/components/ui/collapsible'
+import { useDebounce } from '@/hooks/use-debounce'
 import { auditLogService } from '@/lib/appwrite/audit-log'
+import { cn } from '@/lib/utils'
 import type {
   AuditActionType,
+  AuditLogFilters,
   AuditResourceType,
   AuditStatus,
   ParsedAuditLog,
 } from '@/types/audit'
 
-const RESOURCE_TYPE_OPTIONS: Array<{ value: AuditResourceType | 'all'; label: string }> = [
-  { value: 'all', label: 'All Resources' },
+const RESOURCE_TYPE_OPTIONS: Array<{ value: AuditResourceType; label: string }> = [
   { value: 'auth', label: 'Authentication' },
   { value: 'product', label: 'Products' },
   { value: 'product_component', label: 'Product Components' },
+  { value: 'product_barcode', label: 'Product Barcodes' },
+  { value: 'location', label: 'Locations' },
+  { value: 'courier', label: 'Couriers' },
   { value: 'packaging_record', label: 'Packaging Records' },
   { value: 'packaging_item', label: 'Packaging Items' },
+  { value: 'prealert', label: 'Pre-alerts' },
+  { value: 'receiving_record', label: 'Receivings' },
+  { value: 'stocktake', label: 'Stocktakes' },
+  { value: 'report_schedule', label: 'Report Schedules' },
+  { value: 'report_template', label: 'Report Templates' },
   { value: 'job', label: 'Jobs' },
   { value: 'storage', label: 'Storage' },
+  { value: 'audit_log', label: 'Audit Logs' },
 ]
 
-const STATUS_OPTIONS: Array<{ value: AuditStatus | 'all'; label: string }> = [
-  { value: 'all', label: 'All Statuses' },
-  { value: 'success', label: 'Success' },
-  { value: 'failure', label: 'Failure' },
-]
+const ACTION_LABELS: Record<AuditActionType, string> = {
+  // Auth actions
+  auth_login: 'Login',
+  auth_logout: 'Logout',
+  auth_create_account: 'Create Account',
+  auth_update_name: 'Update Name',
+  auth_update_email: 'Update Email',
+  auth_update_password: 'Update Password',
+  auth_password_recovery_request: 'Password Recovery Request',
+  auth_password_recovery_confirm: 'Password Recovery Confirm',
+  auth_email_verification_request: 'Email Verification Request',
+  auth_email_verification_confirm: 'Email Verification Confirm',
+  // Product actions
+  product_create: 'Create Product',
+  product_update: 'Update Product',
+  product_delete: 'Delete Product',
+  product_view: 'View Product',
+  product_search_barcode: 'Search by Barcode',
+  product_search_sku: 'Search by SKU',
+  product_list: 'List Products',
+  product_stock_update: 'Update Stock',
+  product_stock_deduct: 'Deduct Stock',
+  product_stock_restore: 'Restore Stock',
+  product_stock_ledger_check: 'Check Stock Ledger',
+  // Product component actions
+  product_component_add: 'Add Component',
+  product_component_remove: 'Remove Component',
+  product_component_update: 'Update Component',
+  // Product barcode actions
+  product_barcode_update: 'Update Alternate Barcodes',
+  // Location actions
+  location_create: 'Create Location',
+  location_update: 'Update Location',
+  location_delete: 'Delete Location',
+  location_stock_transfer: 'Transfer Stock',
+  // Courier actions
+  courier_create: 'Create Courier',
+  courier_update: 'Update Courier',
+  courier_delete: 'Delete Courier',
+  // Packaging actions
+  packaging_record_create: 'Create Packaging Record',
+  packaging_record_update: 'Update Packaging Record',
+  packaging_record_delete: 'Delete Packaging Record',
+  packaging_record_view: 'View Packaging Record',
+  packaging_list_by_date: 'List Packaging by Date',
+  packaging_view_by_date: 'View Packaging by Date',
+  packaging_item_scan: 'Scan Item',
+  packaging_item_remove: 'Remove Item',
+  packaging_items_update: 'Update Packaging Items',
+  // Pre-alert actions
+  prealert_override: 'Override Pre-alert',
+  // Receiving actions
+  receiving_create: 'Create Receiving',
+  receiving_update: 'Update Receiving',
+  receiving_void: 'Void Receiving',
+  // Stocktake actions
+  stocktake_create: 'Create Stocktake',
+  stocktake_count: 'Save Stocktake Counts',
+  stocktake_approve: 'Approve Stocktake',
+  stocktake_cancel: 'Cancel Stocktake',
+  // Report schedule actions
+  report_schedule_create: 'Create Report Schedule',
+  report_schedule_update: 'Update Report Schedule',
+  report_schedule_delete: 'Delete Report Schedule',
+  // Report template actions
+  report_template_create: 'Create Report Template',
+  report_template_update: 'Update Report Template',
+  report_template_delete: 'Delete Report Template',
+  // Job actions
+  job_queue_import: 'Queue Import',
+  job_queue_prealert_import: 'Queue Pre-alert Import',
+  job_queue_export: 'Queue Export',
+  job_queue_report_export: 'Queue Report Export',
+  job_queue_receiving_export: 'Queue Receiving Export',
+  job_queue_stocktake_export: 'Queue Stocktake Export',
+  job_queue_send_email: 'Queue Send Email',
+  job_queue_report_email: 'Queue Report Email',
+  job_delete: 'Delete Job',
+  job_download: 'Download Job',
+  job_import_started: 'Import Started',
+  job_import_completed: 'Import Completed',
+  job_prealert_import_started: 'Pre-alert Import Started',
+  job_prealert_import_completed: 'Pre-alert Import Completed',
+  job_export_started: 'Export Started',
+  job_export_completed: 'Export Completed',
+  job_report_export_started: 'Report Export Started',
+  job_report_export_completed: 'Report Export Completed',
+  job_receiving_export_started: 'Receiving Export Started',
+  job_receiving_export_completed: 'Receiving Export Completed',
+  job_stocktake_export_started: 'Stocktake Export Started',
+  job_stocktake_export_completed: 'Stocktake Export Completed',
+  report_email_sent: 'Report Email Sent',
+  report_schedule_run: 'Scheduled Report Run',
+  // Storage actions
+  storage_file_upload: 'File Upload',
+  storage_file_delete: 'File Delete',
+  storage_file_view: 'File View',
+  storage_file_download: 'File Download',
+  // Audit log actions
+  audit_log_view: 'View Audit Log',
+  audit_log_export: 'Export Audit Log',
+}
+
+const ACTION_TYPE_OPTIONS = (Object.keys(ACTION_LABELS) as AuditActionType[]).map((value) => ({
+  value,
+  label: ACTION_LABELS[value],
+}))
 
 function getActionLabel(action: AuditActionType): string {
-  const labels: Record<string, string> = {
-    // Auth actions
-    auth_login: 'Login',
-    auth_logout: 'Logout',
-    auth_create_account: 'Create Account',
-    auth_update_name: 'Update Name',
-    auth_update_email: 'Update Email',
-    auth_update_password: 'Update Password',
-    auth_password_recovery_request: 'Password Recovery Request',
-    auth_password_recovery_confirm: 'Password Recovery Confirm',
-    auth_email_verification_request: 'Email Verification Request',
-    auth_email_verification_confirm: 'Email Verification Confirm',
-    // Product actions
-    product_create: 'Create Product',
-    product_update: 'Update Product',
-    product_delete: 'Delete Product',
-    product_view: 'View Product',
-    product_search_barcode: 'Search by Barcode',
-    product_search_sku: 'Search by SKU',
-    product_list: 'List Products',
-    product_stock_update: 'Update Stock',
-    product_stock_deduct: 'Deduct Stock',
-    product_stock_restore: 'Restore Stock',
-    // Product component actions
-    product_component_add: 'Add Component',
-    product_component_remove: 'Remove Component',
-    product_component_update: 'Update Component',
-    // Packaging actions
-    packaging_record_create: 'Create Packaging Record',
-    packaging_record_delete: 'Delete Packaging Record',
-    packaging_record_view: 'View Packaging Record',
-    packaging_list_by_date: 'List Packaging by Date',
-    packaging_view_by_date: 'View Packaging by Date',
-    packaging_item_scan: 'Scan Item',
-    packaging_item_remove: 'Remove Item',
-    // Job actions
-    job_queue_import: 'Queue Import',
-    job_queue_export: 'Queue Export',
-    job_queue_report_export: 'Queue Report Export',
-    job_queue_send_email: 'Queue Send Email',
-    job_delete: 'Delete Job',
-    job_download: 'Download Job',
-    job_import_started: 'Import Started',
-    job_import_completed: 'Import Completed',
-    job_export_started: 'Export Started',
-    job_export_completed: 'Export Completed',
-    job_report_export_started: 'Report Export Started',
-    job_report_export_completed: 'Report Export Completed',
-    report_email_sent: 'Report Email Sent',
-    // Storage actions
-    storage_file_upload: 'File Upload',
-    storage_file_delete: 'File Delete',
-    storage_file_view: 'File View',
-    storage_file_download: 'File Download',
-    // Audit log actions
-    audit_log_view: 'View Audit Log',
-    audit_log_export: 'Export Audit Log',
+  return ACTION_LABELS[action] || action
+}
+
+// Columns shared by the CSV and Excel exports
+const EXPORT_COLUMNS = [
+  'Timestamp',
+  'User ID',
+  'User Email',
+  'Action Type',
+  'Resource Type',
+  'Resource ID',
+  'Status',
+  'Error Message',
+  'Action Details',
+] as const
+
+function toExportRow(log: ParsedAuditLog): Record<(typeof EXPORT_COLUMNS)[number], string> {
+  return {
+    'Timestamp': log.timestamp,
+    'User ID': log.user_id,
+    'User Email': log.user_email || '',
+    'Action Type': log.action_type,
+    'Resource Type': log.resource_type,
+    'Resource ID': log.resource_id || '',
+    'Status': log.status,
+    'Error Message': log.error_message || '',
+    'Action Details': log.action_details ? JSON.stringify(log.action_details) : '',
   }
-  return labels[action] || action
 }
 
-function AuditLogItem({ log }: { log: ParsedAuditLog }) {
+// Quote a CSV field when it contains separators, quotes or newlines
+function escapeCsv(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+interface DateFilterProps {
+  date: Date | undefined
+  onDateChange: (date: Date | undefined) => void
+  placeholder: string
+}
+
+function DateFilter({ date, onDateChange, placeholder }: DateFilterProps) {
+  const [open, setOpen] = useState(false)
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          className={cn(
+            'w-[160px] justify-start text-left font-normal',
+            !date && 'text-muted-foreground'
+          )}
+        >
+          {date ? format(date, 'PP') : <span>{placeholder}</span>}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0" align="start">
+        <Calendar
+          mode="single"
+          selected={date}
+          onSelect={(selected) => {
+            onDateChange(selected)
+            setOpen(false)
+          }}
+          disabled={{ after: new Date() }}
+          initialFocus
+        />
+      </PopoverContent>
+    </Popover>
+  )
+}
+
+interface AuditLogItemProps {
+  log: ParsedAuditLog
+  onUserClick?: (userId: string) => void
+  onResourceClick?: (log: ParsedAuditLog) => void
+}
+
+function AuditLogItem({ log, onUserClick, onResourceClick }: AuditLogItemProps) {
+  const { t } = useTranslation()
   const [isOpen, setIsOpen] = useState(false)
 
   return (
@@ -178,29 +328,52 @@ function AuditLogItem({ log }: { log: ParsedAuditLog }) {
           <div className="mt-4 space-y-3 border-t pt-4">
             <div className="grid grid-cols-2 gap-4 text-sm">
               <div>
-                <span className="text-muted-foreground">User ID:</span>
-                <span className="ml-2 font-mono">{log.user_id}</span>
+                <span className="text-muted-foreground">{t('auditLogs.userId')}:</span>
+                {onUserClick ? (
+                  <button
+                    type="button"
+                    className="ml-2 font-mono underline-offset-2 hover:underline"
+                    onClick={() => onUserClick(log.user_id)}
+                    title={t('auditLogs.filterByThisUser')}
+                  >
+                    {log.user_id}
+                  </button>
+                ) : (
+                  <span className="ml-2 font-mono">{log.user_id}</span>
+                )}
               </div>
               <div>
-                <span className="text-muted-foreground">User Email:</span>
+                <span className="text-muted-foreground">{t('auditLogs.userEmail')}:</span>
                 <span className="ml-2">{log.user_email || 'N/A'}</span>
               </div>
               <div>
-                <span className="text-muted-foreground">Resource ID:</span>
-                <span className="ml-2 font-mono">{log.resource_id || 'N/A'}</span>
+                <span className="text-muted-foreground">{t('auditLogs.resourceId')}:</span>
+                {log.resource_id && onResourceClick ? (
+                  <button
+                    type="button"
+                    className="ml-2 inline-flex items-center gap-1 font-mono underline-offset-2 hover:underline"
+                    onClick={() => onResourceClick(log)}
+                    title={t('auditLogs.viewHistory')}
+                  >
+                    {log.resource_id}
+                    <History className="size-3" />
+                  </button>
+                ) : (
+                  <span className="ml-2 font-mono">{log.resource_id || 'N/A'}</span>
+                )}
               </div>
               <div>
-                <span className="text-muted-foreground">Session ID:</span>
+                <span className="text-muted-foreground">{t('auditLogs.sessionId')}:</span>
                 <span className="ml-2 font-mono text-xs">
                   {log.session_id || 'N/A'}
                 </span>
               </div>
               <div>
-                <span className="text-muted-foreground">IP Address:</span>
+                <span className="text-muted-foreground">{t('auditLogs.ipAddress')}:</span>
                 <span className="ml-2">{log.ip_address || 'N/A'}</span>
               </div>
               <div>
-                <span className="text-muted-foreground">User Agent:</span>
+                <span className="text-muted-foreground">{t('auditLogs.userAgent')}:</span>
                 <span className="ml-2 text-xs truncate">
                   {log.user_agent || 'N/A'}
                 </span>
@@ -208,7 +381,7 @@ function AuditLogItem({ log }: { log: ParsedAuditLog }) {
             </div>
             {log.action_details && (
               <div>
-                <span className="text-sm text-muted-foreground">Action Details:</span>
+                <span className="text-sm text-muted-foreground">{t('auditLogs.actionDetails')}:</span>
                 <pre className="mt-1 rounded bg-muted p-2 text-xs overflow-auto max-h-40">
                   {JSON.stringify(log.action_details, null, 2)}
                 </pre>
@@ -227,153 +400,296 @@ function AuditLogItem({ log }: { log: ParsedAuditLog }) {
   )
 }
 
+interface ResourceHistoryDialogProps {
+  resource: { type: AuditResourceType; id: string } | null
+  onClose: () => void
+}
+
+function ResourceHistoryDialog({ resource, onClose }: ResourceHistoryDialogProps) {
+  const { t } = useTranslation()
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['audit-logs', 'resource', resource?.type, resource?.id],
+    queryFn: () =>
+      auditLogService.getAuditLogsByResource(resource!.type, resource!.id, { limit: 100 }),
+    enabled: !!resource,
+  })
+
+  const logs = data?.documents || []
+
+  return (
+    <Dialog open={!!resource} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[700px] max-h-[80vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle>{t('auditLogs.resourceHistory')}</DialogTitle>
+          <DialogDescription>
+            <span className="rounded-full bg-muted px-2 py-0.5 text-xs">{resource?.type}</span>
+            <span className="ml-2 font-mono">{resource?.id}</span>
+          </DialogDescription>
+        </DialogHeader>
+        <div className="min-h-0 flex-1 space-y-3 overflow-auto">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="size-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : logs.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              {t('auditLogs.noLogs')}
+            </div>
+          ) : (
+            <>
+              <p className="text-sm text-muted-foreground">
+                {t('auditLogs.historyCount', { count: logs.length, total: data?.total ?? 0 })}
+              </p>
+              {logs.map((log) => (
+                <AuditLogItem key={log.$id} log={log} />
+              ))}
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
 export default function AuditLogs() {
+  const { t } = useTranslation()
+  const [userFilter, setUserFilter] = useState('')
+  const [actionFilter, setActionFilter] = useState<AuditActionType | 'all'>('all')
   const [resourceFilter, setResourceFilter] = useState<AuditResourceType | 'all'>('all')
+  const [resourceIdFilter, setResourceIdFilter] = useState('')
   const [statusFilter, setStatusFilter] = useState<AuditStatus | 'all'>('all')
-  const [searchQuery, setSearchQuery] = useState('')
+  const [startDate, setStartDate] = useState<Date | undefined>(undefined)
+  const [endDate, setEndDate] = useState<Date | undefined>(undefined)
   const [limit] = useState(50)
   const [offset, setOffset] = useState(0)
+  const [exportingFormat, setExportingFormat] = useState<'csv' | 'xlsx' | null>(null)
+  const [historyResource, setHistoryResource] = useState<{
+    type: AuditResourceType
+    id: string
+  } | null>(null)
+
+  // Debounce free-text filters to avoid a query per keystroke
+  const debouncedUser = useDebounce(userFilter.trim(), 300)
+  const debouncedResourceId = useDebounce(resourceIdFilter.trim(), 300)
+
+  const filters: AuditLogFilters = {
+    user_id: debouncedUser || undefined,
+    action_type: actionFilter === 'all' ? undefined : actionFilter,
+    resource_type: resourceFilter === 'all' ? undefined : resourceFilter,
+    resource_id: debouncedResourceId || undefined,
+    status: statusFilter === 'all' ? undefined : statusFilter,
+    startDate: startDate ? startOfDay(startDate).toISOString() : undefined,
+    endDate: endDate ? endOfDay(endDate).toISOString() : undefined,
+  }
 
   const { data, isLoading } = useQuery({
-    queryKey: ['audit-logs', resourceFilter, statusFilter, limit, offset],
-    queryFn: () =>
-      auditLogService.getAuditLogs({
-        resource_type: resourceFilter === 'all' ? undefined : resourceFilter,
-        status: statusFilter === 'all' ? undefined : statusFilter,
-        limit,
-        offset,
-      }),
+    queryKey: ['audit-logs', filters, limit, offset],
+    queryFn: () => auditLogService.getAuditLogs({ ...filters, limit, offset }),
   })
 
   const logs = data?.documents || []
   const total = data?.total || 0
 
-  const filteredLogs = searchQuery
-    ? logs.filter(
-        (log) =>
-          log.user_email?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-          log.user_id.toLowerCase().includes(searchQuery.toLowerCase()) ||
-          log.resource_id?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-          log.action_type.toLowerCase().includes(searchQuery.toLowerCase())
-      )
-    : logs
-
-  const handleExport = async () => {
-    const allLogs = await auditLogService.getAuditLogs({ limit: 5000 })
-    const csv = [
-      [
-        'Timestamp',
-        'User ID',
-        'User Email',
-        'Action Type',
-        'Resource Type',
-        'Resource ID',
-        'Status',
-        'Error Message',
-        'Action Details',
-      ].join(','),
-      ...allLogs.documents.map((log) =>
-        [
-          log.timestamp,
-          log.user_id,
-          log.user_email || '',
-          log.action_type,
-          log.resource_type,
-          log.resource_id || '',
-          log.status,
-          log.error_message || '',
-          log.action_details ? JSON.stringify(log.action_details).replace(/,/g, ';') : '',
-        ].join(',')
-      ),
-    ].join('\n')
-
-    const blob = new Blob([csv], { type: 'text/csv' })
-    const url = URL.createObjectURL(blob)
-    const a = document.createElement('a')
-    a.href = url
-    a.download = `audit-logs-${new Date().toISOString().split('T')[0]}.csv`
-    a.click()
-    URL.revokeObjectURL(url)
+  const hasFilters =
+    !!userFilter ||
+    actionFilter !== 'all' ||
+    resourceFilter !== 'all' ||
+    !!resourceIdFilter ||
+    statusFilter !== 'all' ||
+    !!startDate ||
+    !!endDate
+
+  // Any filter change returns to the first page
+  const withReset = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value)
+    setOffset(0)
+  }
+
+  const clearFilters = () => {
+    setUserFilter('')
+    setActionFilter('all')
+    setResourceFilter('all')
+    setResourceIdFilter('')
+    setStatusFilter('all')
+    setStartDate(undefined)
+    setEndDate(undefined)
+    setOffset(0)
+  }
+
+  const handleExport = async (exportFormat: 'csv' | 'xlsx') => {
+    try {
+      setExportingFormat(exportFormat)
+      const exportLogs = await auditLogService.exportAuditLogs(filters, exportFormat)
+      const rows = exportLogs.map(toExportRow)
+      const fileDate = new Date().toISOString().split('T')[0]
+
+      if (exportFormat === 'xlsx') {
+        const worksheet = XLSX.utils.json_to_sheet(rows, { header: [...EXPORT_COLUMNS] })
+        worksheet['!cols'] = [
+          { wch: 25 }, // Timestamp
+          { wch: 22 }, // User ID
+          { wch: 25 }, // User Email
+          { wch: 28 }, // Action Type
+          { wch: 18 }, // Resource Type
+          { wch: 22 }, // Resource ID
+          { wch: 10 }, // Status
+          { wch: 30 }, // Error Message
+          { wch: 60 }, // Action Details
+        ]
+        const workbook = XLSX.utils.book_new()
+        XLSX.utils.book_append_sheet(workbook, worksheet, 'Audit Logs')
+        XLSX.writeFile(workbook, `audit-logs-${fileDate}.xlsx`)
+      } else {
+        const csv = [
+          EXPORT_COLUMNS.join(','),
+          ...rows.map((row) => EXPORT_COLUMNS.map((column) => escapeCsv(row[column])).join(',')),
+        ].join('\n')
+
+        const blob = new Blob([csv], { type: 'text/csv' })
+        const url = URL.createObjectURL(blob)
+        const a = document.createElement('a')
+        a.href = url
+        a.download = `audit-logs-${fileDate}.csv`
+        a.click()
+        URL.revokeObjectURL(url)
+      }
+
+      toast.success(t('auditLogs.exportSuccess', { count: rows.length }))
+    } catch (err) {
+      console.error('Error exporting audit logs:', err)
+      toast.error(t('auditLogs.exportError'))
+    } finally {
+      setExportingFormat(null)
+    }
   }
 
   return (
     <div className="flex h-full flex-col gap-6 overflow-auto p-1">
       <div className="flex items-center justify-between">
         <div>
-          <h1 className="text-2xl font-bold">Audit Logs</h1>
+          <h1 className="text-2xl font-bold">{t('auditLogs.title')}</h1>
           <p className="text-muted-foreground mt-1">
-            View and search system activity logs
+            {t('auditLogs.subtitle')}
           </p>
         </div>
-        <Button variant="outline" onClick={handleExport}>
-          <Download className="mr-2 size-4" />
-          Export CSV
-        </Button>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={() => handleExport('csv')}
+            disabled={exportingFormat !== null}
+          >
+            {exportingFormat === 'csv' ? (
+              <Loader2 className="mr-2 size-4 animate-spin" />
+            ) : (
+              <FileText className="mr-2 size-4" />
+            )}
+            {t('auditLogs.exportCsv')}
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => handleExport('xlsx')}
+            disabled={exportingFormat !== null}
+          >
+            {exportingFormat === 'xlsx' ? (
+              <Loader2 className="mr-2 size-4 animate-spin" />
+            ) : (
+              <FileSpreadsheet className="mr-2 size-4" />
+            )}
+            {t('auditLogs.exportExcel')}
+          </Button>
+        </div>
       </div>
 
       {/* Filters */}
       <div className="flex flex-wrap gap-4">
-        <div className="flex-1 min-w-[200px]">
-          <div className="relative">
-            <Search className="absolute left-3 top-1/2 size-4 -translate-y-1/2 text-muted-foreground" />
-            <Input
-              placeholder="Search by user, action, or resource..."
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
-              className="pl-9"
-            />
-          </div>
-        </div>
+        <Input
+          placeholder={t('auditLogs.filterByUser')}
+          value={userFilter}
+          onChange={(e) => withReset(setUserFilter)(e.target.value)}
+          className="w-[200px] font-mono"
+        />
 
-        <div className="flex flex-col gap-1.5">
-          <Select
-            value={resourceFilter}
-            onValueChange={(value) => {
-              setResourceFilter(value as AuditResourceType | 'all')
-              setOffset(0)
-            }}
-          >
-            <SelectTrigger className="w-[180px]">
-              <SelectValue placeholder="Filter by resource" />
-            </SelectTrigger>
-            <SelectContent>
-              {RESOURCE_TYPE_OPTIONS.map((option) => (
-                <SelectItem key={option.value} value={option.value}>
-                  {option.label}
-                </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
-        </div>
+        <Select
+          value={actionFilter}
+          onValueChange={(value) => withReset(setActionFilter)(value as AuditActionType | 'all')}
+        >
+          <SelectTrigger className="w-[220px]">
+            <SelectValue placeholder={t('auditLogs.filterByAction')} />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">{t('auditLogs.allActions')}</SelectItem>
+            {ACTION_TYPE_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
 
-        <div className="flex flex-col gap-1.5">
-          <Select
-            value={statusFilter}
-            onValueChange={(value) => {
-              setStatusFilter(value as AuditStatus | 'all')
-              setOffset(0)
-            }}
-          >
-            <SelectTrigger className="w-[150px]">
-              <SelectValue placeholder="Filter by status" />
-            </SelectTrigger>
-            <SelectContent>
-              {STATUS_OPTIONS.map((option) => (
-                <SelectItem key={option.value} value={option.value}>
-                  {option.label}
-                </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
-        </div>
+        <Select
+          value={resourceFilter}
+          onValueChange={(value) => withReset(setResourceFilter)(value as AuditResourceType | 'all')}
+        >
+          <SelectTrigger className="w-[180px]">
+            <SelectValue placeholder={t('auditLogs.filterByResource')} />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">{t('auditLogs.allResources')}</SelectItem>
+            {RESOURCE_TYPE_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Input
+          placeholder={t('auditLogs.filterByResourceId')}
+          value={resourceIdFilter}
+          onChange={(e) => withReset(setResourceIdFilter)(e.target.value)}
+          className="w-[200px] font-mono"
+        />
+
+        <Select
+          value={statusFilter}
+          onValueChange={(value) => withReset(setStatusFilter)(value as AuditStatus | 'all')}
+        >
+          <SelectTrigger className="w-[150px]">
+            <SelectValue placeholder={t('auditLogs.filterByStatus')} />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">{t('auditLogs.allStatuses')}</SelectItem>
+            <SelectItem value="success">{t('auditLogs.success')}</SelectItem>
+            <SelectItem value="failure">{t('auditLogs.failure')}</SelectItem>
+          </SelectContent>
+        </Select>
+
+        <DateFilter
+          date={startDate}
+          onDateChange={withReset(setStartDate)}
+          placeholder={t('reports.startDate')}
+        />
+        <DateFilter
+          date={endDate}
+          onDateChange={withReset(setEndDate)}
+          placeholder={t('reports.endDate')}
+        />
+
+        {hasFilters && (
+          <Button variant="ghost" onClick={clearFilters}>
+            <X className="mr-2 size-4" />
+            {t('auditLogs.clearFilters')}
+          </Button>
+        )}
       </div>
 
       {/* Logs List */}
       <Card>
         <CardHeader>
-          <CardTitle>Activity Log</CardTitle>
+          <CardTitle>{t('auditLogs.activityLog')}</CardTitle>
           <CardDescription>
-            Showing {filteredLogs.length} of {total} logs
+            {t('auditLogs.showingLogs', { count: logs.length, total })}
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -381,14 +697,21 @@ export default function AuditLogs() {
             <div className="flex items-center justify-center py-8">
               <Loader2 className="size-6 animate-spin text-muted-foreground" />
             </div>
-          ) : filteredLogs.length === 0 ? (
+          ) : logs.length === 0 ? (
             <div className="text-center py-8 text-muted-foreground">
-              No audit logs found
+              {t('auditLogs.noLogs')}
             </div>
           ) : (
             <div className="space-y-3">
-              {filteredLogs.map((log) => (
-                <AuditLogItem key={log.$id} log={log} />
+              {logs.map((log) => (
+                <AuditLogItem
+                  key={log.$id}
+                  log={log}
+                  onUserClick={withReset(setUserFilter)}
+                  onResourceClick={(l) =>
+                    l.resource_id && setHistoryResource({ type: l.resource_type, id: l.resource_id })
+                  }
+                />
               ))}
             </div>
           )}
@@ -402,10 +725,13 @@ export default function AuditLogs() {
                 onClick={() => setOffset(Math.max(0, offset - limit))}
                 disabled={offset === 0}
               >
-                Previous
+                {t('auditLogs.previous')}
               </Button>
               <span className="text-sm text-muted-foreground">
-                Page {Math.floor(offset / limit) + 1} of {Math.ceil(total / limit)}
+                {t('auditLogs.pageOf', {
+                  page: Math.floor(offset / limit) + 1,
+                  pages: Math.ceil(total / limit),
+                })}
               </span>
               <Button
                 variant="outline"
@@ -413,12 +739,17 @@ export default function AuditLogs() {
                 onClick={() => setOffset(offset + limit)}
                 disabled={offset + limit >= total}
               >
-                Next
+                {t('auditLogs.next')}
               </Button>
             </div>
           )}
         </CardContent>
       </Card>
+
+      <ResourceHistoryDialog
+        resource={historyResource}
+        onClose={() => setHistoryResource(null)}
+      />
     </div>
   )
 }
@@ -0,0 +1,374 @@
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { toast } from 'sonner'
+import { CheckCircle2, CircleHelp, Loader2, Pencil, Plus, Trash2, XCircle } from 'lucide-react'
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { useCouriers, useCreateCourier, useDeleteCourier, useUpdateCourier } from '@/hooks/use-couriers'
+import { checkWaybill } from '@/lib/appwrite/couriers'
+import type { CheckDigitAlgorithm, Courier, CreateCourierInput } from '@/types/courier'
+
+// Select value for couriers without a check digit
+const NO_CHECK_DIGIT = 'none'
+
+const CHECK_DIGIT_OPTIONS: CheckDigitAlgorithm[] = ['luhn', 'mod7', 's10']
+
+interface CourierFormState {
+  name: string
+  prefix: string
+  pattern: string
+  length: string
+  check_digit: CheckDigitAlgorithm | typeof NO_CHECK_DIGIT
+}
+
+const EMPTY_FORM: CourierFormState = {
+  name: '',
+  prefix: '',
+  pattern: '',
+  length: '',
+  check_digit: NO_CHECK_DIGIT,
+}
+
+function toFormState(courier: Courier): CourierFormState {
+  return {
+    name: courier.name,
+    prefix: courier.prefix ?? '',
+    pattern: courier.pattern ?? '',
+    length: courier.length ? String(courier.length) : '',
+    check_digit: courier.check_digit ?? NO_CHECK_DIGIT,
+  }
+}
+
+function toInput(form: CourierFormState): CreateCourierInput {
+  return {
+    name: form.name.trim(),
+    prefix: form.prefix.trim() || null,
+    pattern: form.pattern.trim() || null,
+    length: form.length ? Number(form.length) : null,
+    check_digit: form.check_digit === NO_CHECK_DIGIT ? null : form.check_digit,
+  }
+}
+
+export default function Couriers() {
+  const { t } = useTranslation()
+  const { data: couriers = [], isLoading } = useCouriers()
+  const createCourier = useCreateCourier()
+  const updateCourier = useUpdateCourier()
+  const deleteCourier = useDeleteCourier()
+
+  // Create/edit dialog state (editing null with the dialog open = create)
+  const [isFormOpen, setIsFormOpen] = useState(false)
+  const [editing, setEditing] = useState<Courier | null>(null)
+  const [form, setForm] = useState<CourierFormState>(EMPTY_FORM)
+
+  const [deleting, setDeleting] = useState<Courier | null>(null)
+
+  // Try a waybill against the saved profiles
+  const [testWaybill, setTestWaybill] = useState('')
+  const testResult = testWaybill.trim() ? checkWaybill(testWaybill.trim(), couriers) : null
+
+  const isSaving = createCourier.isPending || updateCourier.isPending
+
+  const openCreate = () => {
+    setEditing(null)
+    setForm(EMPTY_FORM)
+    setIsFormOpen(true)
+  }
+
+  const openEdit = (courier: Courier) => {
+    setEditing(courier)
+    setForm(toFormState(courier))
+    setIsFormOpen(true)
+  }
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      toast.error(t('couriers.nameRequired'))
+      return
+    }
+    if (!form.prefix.trim() && !form.pattern.trim() && !form.length) {
+      toast.error(t('couriers.formatRequired'))
+      return
+    }
+
+    try {
+      if (editing) {
+        await updateCourier.mutateAsync({ id: editing.$id, data: toInput(form) })
+        toast.success(t('couriers.updated'))
+      } else {
+        await createCourier.mutateAsync(toInput(form))
+        toast.success(t('couriers.created'))
+      }
+      setIsFormOpen(false)
+    } catch (err) {
+      console.error('Error saving courier:', err)
+      toast.error(err instanceof Error ? err.message : t('couriers.saveError'))
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!deleting) return
+
+    try {
+      await deleteCourier.mutateAsync(deleting.$id)
+      toast.success(t('couriers.deleted'))
+    } catch (err) {
+      console.error('Error deleting courier:', err)
+      toast.error(t('couriers.deleteError'))
+    } finally {
+      setDeleting(null)
+    }
+  }
+
+  return (
+    <div className="flex h-full flex-col gap-6 overflow-auto p-1">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">{t('couriers.title')}</h1>
+          <p className="text-muted-foreground mt-1">
+            {t('couriers.subtitle')}
+          </p>
+        </div>
+        <Button onClick={openCreate}>
+          <Plus className="size-4" />
+          {t('couriers.addCourier')}
+        </Button>
+      </div>
+
+      {/* Waybill tester */}
+      <div className="flex flex-col gap-2 sm:max-w-md">
+        <Label htmlFor="test-waybill">{t('couriers.testWaybill')}</Label>
+        <Input
+          id="test-waybill"
+          value={testWaybill}
+          onChange={(e) => setTestWaybill(e.target.value)}
+          placeholder={t('couriers.testWaybillPlaceholder')}
+          className="font-mono"
+          autoComplete="off"
+        />
+        {testResult?.status === 'valid' && (
+          <p className="flex items-center gap-1.5 text-sm text-green-600">
+            <CheckCircle2 className="size-4" />
+            {t('couriers.testValid', { courier: testResult.courier.name })}
+          </p>
+        )}
+        {testResult?.status === 'invalid' && (
+          <p className="text-destructive flex items-center gap-1.5 text-sm">
+            <XCircle className="size-4" />
+            {t(`couriers.testInvalid.${testResult.issue}`, { courier: testResult.courier.name })}
+          </p>
+        )}
+        {testResult?.status === 'unknown' && (
+          <p className="text-muted-foreground flex items-center gap-1.5 text-sm">
+            <CircleHelp className="size-4" />
+            {t('couriers.testUnknown')}
+          </p>
+        )}
+      </div>
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{t('couriers.name')}</TableHead>
+              <TableHead>{t('couriers.prefix')}</TableHead>
+              <TableHead>{t('couriers.pattern')}</TableHead>
+              <TableHead>{t('couriers.length')}</TableHead>
+              <TableHead>{t('couriers.checkDigit')}</TableHead>
+              <TableHead className="w-[100px]" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={6} className="h-24 text-center">
+                  <Loader2 className="mx-auto size-5 animate-spin" />
+                </TableCell>
+              </TableRow>
+            ) : couriers.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-muted-foreground h-24 text-center">
+                  {t('couriers.empty')}
+                </TableCell>
+              </TableRow>
+            ) : (
+              couriers.map((courier) => (
+                <TableRow key={courier.$id}>
+                  <TableCell className="font-medium">{courier.name}</TableCell>
+                  <TableCell className="font-mono">{courier.prefix ?? '-'}</TableCell>
+                  <TableCell className="font-mono">{courier.pattern ?? '-'}</TableCell>
+                  <TableCell>{courier.length ?? '-'}</TableCell>
+                  <TableCell>
+                    {courier.check_digit ? t(`couriers.checkDigits.${courier.check_digit}`) : '-'}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex justify-end gap-1">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => openEdit(courier)}
+                        aria-label={t('couriers.editCourier')}
+                      >
+                        <Pencil className="size-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setDeleting(courier)}
+                        aria-label={t('couriers.deleteCourier')}
+                      >
+                        <Trash2 className="size-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {/* Create/Edit Dialog */}
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent className="sm:max-w-[480px]">
+          <DialogHeader>
+            <DialogTitle>
+              {editing ? t('couriers.editCourier') : t('couriers.addCourier')}
+            </DialogTitle>
+            <DialogDescription>{t('couriers.formDescription')}</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="courier-name">{t('couriers.name')}</Label>
+              <Input
+                id="courier-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                disabled={isSaving}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="courier-prefix">{t('couriers.prefix')}</Label>
+                <Input
+                  id="courier-prefix"
+                  value={form.prefix}
+                  onChange={(e) => setForm({ ...form, prefix: e.target.value })}
+                  className="font-mono"
+                  disabled={isSaving}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="courier-length">{t('couriers.length')}</Label>
+                <Input
+                  id="courier-length"
+                  type="number"
+                  min={1}
+                  value={form.length}
+                  onChange={(e) => setForm({ ...form, length: e.target.value })}
+                  disabled={isSaving}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="courier-pattern">{t('couriers.pattern')}</Label>
+              <Input
+                id="courier-pattern"
+                value={form.pattern}
+                onChange={(e) => setForm({ ...form, pattern: e.target.value })}
+                placeholder="[A-Z]{2}\d{9}[A-Z]{2}"
+                className="font-mono"
+                disabled={isSaving}
+              />
+              <p className="text-muted-foreground text-xs">{t('couriers.patternHint')}</p>
+            </div>
+            <div className="space-y-2">
+              <Label>{t('couriers.checkDigit')}</Label>
+              <Select
+                value={form.check_digit}
+                onValueChange={(value) =>
+                  setForm({ ...form, check_digit: value as CourierFormState['check_digit'] })
+                }
+                disabled={isSaving}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_CHECK_DIGIT}>{t('couriers.noCheckDigit')}</SelectItem>
+                  {CHECK_DIGIT_OPTIONS.map((algorithm) => (
+                    <SelectItem key={algorithm} value={algorithm}>
+                      {t(`couriers.checkDigits.${algorithm}`)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsFormOpen(false)} disabled={isSaving}>
+              {t('common.cancel')}
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving && <Loader2 className="size-4 animate-spin" />}
+              {t('common.save')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t('couriers.deleteCourier')}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t('couriers.deleteMessage', { name: deleting?.name })}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={deleteCourier.isPending}>{t('common.cancel')}</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} disabled={deleteCourier.isPending}>
+              {t('common.delete')}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
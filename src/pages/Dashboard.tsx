@@ -1,12 +1,346 @@
+import { useMemo, useState } from 'react'
+import { format, formatDistanceToNow, parseISO, subDays } from 'date-fns'
 import { useTranslation } from 'react-i18next'
+import { AlertTriangle, Boxes, Loader2, Package, RefreshCw, XCircle } from 'lucide-react'
+import { useQueryClient } from '@tanstack/react-query'
+
+import { BarChart } from '@/components/dashboard/BarChart'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { DatePicker } from '@/components/ui/date-picker'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { useAuth } from '@/contexts/AuthContext'
+import { useLowStockProducts, usePackagingStats } from '@/hooks/use-dashboard'
+import { useActiveJobs } from '@/hooks/use-jobs'
+
+// Single products at or below this stock level are flagged as low stock
+const LOW_STOCK_THRESHOLD = 10
+
+type RangePreset = 'today' | '7d' | '30d' | 'custom'
+
+// Helper to format Date to YYYY-MM-DD string
+function formatDateToString(date: Date): string {
+  return format(date, 'yyyy-MM-dd')
+}
+
+interface StatCardProps {
+  title: string
+  value: number | string
+  icon: React.ComponentType<{ className?: string }>
+  isLoading?: boolean
+  variant?: 'default' | 'warning' | 'destructive'
+}
+
+function StatCard({ title, value, icon: Icon, isLoading, variant = 'default' }: StatCardProps) {
+  const iconClass =
+    variant === 'destructive'
+      ? 'text-destructive'
+      : variant === 'warning'
+        ? 'text-yellow-600'
+        : 'text-muted-foreground'
+
+  return (
+    <Card className="gap-2 py-4">
+      <CardHeader className="flex flex-row items-center justify-between px-4">
+        <CardDescription>{title}</CardDescription>
+        <Icon className={`size-4 ${iconClass}`} />
+      </CardHeader>
+      <CardContent className="px-4">
+        {isLoading ? (
+          <Loader2 className="text-muted-foreground size-5 animate-spin" />
+        ) : (
+          <div className="text-2xl font-bold">{value}</div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
 
 export default function Dashboard() {
   const { t } = useTranslation()
+  const { user } = useAuth()
+  const queryClient = useQueryClient()
+
+  const today = formatDateToString(new Date())
+
+  // Date range state
+  const [preset, setPreset] = useState<RangePreset>('7d')
+  const [customStart, setCustomStart] = useState<Date | undefined>(subDays(new Date(), 6))
+  const [customEnd, setCustomEnd] = useState<Date | undefined>(new Date())
+
+  const { startDate, endDate } = useMemo(() => {
+    const now = new Date()
+    switch (preset) {
+      case 'today':
+        return { startDate: today, endDate: today }
+      case '30d':
+        return { startDate: formatDateToString(subDays(now, 29)), endDate: today }
+      case 'custom': {
+        const start = customStart ? formatDateToString(customStart) : today
+        const end = customEnd ? formatDateToString(customEnd) : today
+        // Keep the range valid even if the dates are picked in reverse
+        return start <= end ? { startDate: start, endDate: end } : { startDate: end, endDate: start }
+      }
+      default:
+        return { startDate: formatDateToString(subDays(now, 6)), endDate: today }
+    }
+  }, [preset, customStart, customEnd, today])
+
+  const todayStats = usePackagingStats(today, today)
+  const rangeStats = usePackagingStats(startDate, endDate)
+  const lowStock = useLowStockProducts(LOW_STOCK_THRESHOLD)
+  const { data: recentJobs = [], isLoading: isLoadingJobs } = useActiveJobs(user?.$id || '', !!user)
+
+  const failedJobs = recentJobs.filter((job) => job.status === 'failed')
+
+  const dailyChartData = useMemo(
+    () =>
+      (rangeStats.data?.days ?? []).map((day) => ({
+        label: format(parseISO(day.date), 'MM/dd'),
+        value: day.items,
+        tooltip: t('dashboard.dailyTooltip', {
+          date: day.date,
+          items: day.items,
+          waybills: day.waybills,
+        }),
+      })),
+    [rangeStats.data, t]
+  )
+
+  const hourlyChartData = useMemo(
+    () =>
+      (rangeStats.data?.itemsByHour ?? Array.from({ length: 24 }, () => 0)).map(
+        (value, hour) => ({
+          label: String(hour).padStart(2, '0'),
+          value,
+          tooltip: t('dashboard.hourlyTooltip', {
+            hour: `${String(hour).padStart(2, '0')}:00`,
+            items: value,
+          }),
+        })
+      ),
+    [rangeStats.data, t]
+  )
+
+  const isRefreshing = rangeStats.isFetching || todayStats.isFetching || lowStock.isFetching
+
+  const handleRefresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['dashboard'] })
+    queryClient.invalidateQueries({ queryKey: ['active-jobs'] })
+  }
 
   return (
-    <div>
-      <h1 className="text-2xl font-bold">{t('dashboard.title')}</h1>
-      <p className="text-muted-foreground mt-2">{t('dashboard.subtitle')}</p>
+    <div className="flex flex-col gap-4">
+      <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">{t('dashboard.title')}</h1>
+          <p className="text-muted-foreground mt-1">{t('dashboard.subtitle')}</p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={preset} onValueChange={(value) => setPreset(value as RangePreset)}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="today">{t('common.today')}</SelectItem>
+              <SelectItem value="7d">{t('dashboard.last7Days')}</SelectItem>
+              <SelectItem value="30d">{t('dashboard.last30Days')}</SelectItem>
+              <SelectItem value="custom">{t('dashboard.customRange')}</SelectItem>
+            </SelectContent>
+          </Select>
+          {preset === 'custom' && (
+            <>
+              <DatePicker date={customStart} onDateChange={setCustomStart} />
+              <DatePicker date={customEnd} onDateChange={setCustomEnd} />
+            </>
+          )}
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={handleRefresh}
+            disabled={isRefreshing}
+            title={t('common.refresh')}
+          >
+            <RefreshCw className={`size-4 ${isRefreshing ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+      </div>
+
+      {/* Today at a glance */}
+      <div className="grid grid-cols-2 gap-4 lg:grid-cols-4">
+        <StatCard
+          title={t('dashboard.waybillsToday')}
+          value={todayStats.data?.totalWaybills ?? 0}
+          icon={Package}
+          isLoading={todayStats.isLoading}
+        />
+        <StatCard
+          title={t('dashboard.itemsToday')}
+          value={todayStats.data?.totalItems ?? 0}
+          icon={Boxes}
+          isLoading={todayStats.isLoading}
+        />
+        <StatCard
+          title={t('dashboard.lowStockSingles')}
+          value={lowStock.data?.total ?? 0}
+          icon={AlertTriangle}
+          isLoading={lowStock.isLoading}
+          variant={(lowStock.data?.total ?? 0) > 0 ? 'warning' : 'default'}
+        />
+        <StatCard
+          title={t('dashboard.failedJobs')}
+          value={failedJobs.length}
+          icon={XCircle}
+          isLoading={isLoadingJobs}
+          variant={failedJobs.length > 0 ? 'destructive' : 'default'}
+        />
+      </div>
+
+      {rangeStats.isError && (
+        <div className="bg-destructive/10 text-destructive rounded-md p-3 text-sm">
+          {t('dashboard.loadError')}
+        </div>
+      )}
+
+      {/* Charts for the selected range */}
+      <div className="grid gap-4 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>{t('dashboard.itemsPerDay')}</CardTitle>
+            <CardDescription>
+              {t('dashboard.rangeSummary', {
+                start: startDate,
+                end: endDate,
+                waybills: rangeStats.data?.totalWaybills ?? 0,
+                items: rangeStats.data?.totalItems ?? 0,
+              })}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {rangeStats.isLoading ? (
+              <div className="flex h-40 items-center justify-center">
+                <Loader2 className="text-muted-foreground size-6 animate-spin" />
+              </div>
+            ) : (
+              <BarChart
+                data={dailyChartData}
+                labelEvery={dailyChartData.length > 10 ? Math.ceil(dailyChartData.length / 10) : 1}
+              />
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>{t('dashboard.itemsPerHour')}</CardTitle>
+            <CardDescription>{t('dashboard.itemsPerHourDescription')}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {rangeStats.isLoading ? (
+              <div className="flex h-40 items-center justify-center">
+                <Loader2 className="text-muted-foreground size-6 animate-spin" />
+              </div>
+            ) : (
+              <BarChart data={hourlyChartData} labelEvery={3} />
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="grid gap-4 lg:grid-cols-3">
+        {/* Top products */}
+        <Card>
+          <CardHeader>
+            <CardTitle>{t('dashboard.topProducts')}</CardTitle>
+            <CardDescription>{t('dashboard.topProductsDescription')}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {(rangeStats.data?.topProducts.length ?? 0) === 0 ? (
+              <p className="text-muted-foreground text-sm">{t('common.noData')}</p>
+            ) : (
+              <ul className="flex flex-col gap-2">
+                {rangeStats.data?.topProducts.map((product) => (
+                  <li key={product.barcode} className="flex items-center justify-between gap-2 text-sm">
+                    <div className="min-w-0">
+                      <div className="truncate">{product.name}</div>
+                      <div className="text-muted-foreground font-mono text-xs">{product.barcode}</div>
+                    </div>
+                    <span className="font-semibold">{product.quantity}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Low stock singles */}
+        <Card>
+          <CardHeader>
+            <CardTitle>{t('dashboard.lowStockSingles')}</CardTitle>
+            <CardDescription>
+              {t('dashboard.lowStockDescription', { threshold: LOW_STOCK_THRESHOLD })}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {(lowStock.data?.documents.length ?? 0) === 0 ? (
+              <p className="text-muted-foreground text-sm">{t('common.noData')}</p>
+            ) : (
+              <ul className="flex flex-col gap-2">
+                {lowStock.data?.documents.map((product) => (
+                  <li key={product.$id} className="flex items-center justify-between gap-2 text-sm">
+                    <div className="min-w-0">
+                      <div className="truncate">{product.name}</div>
+                      <div className="text-muted-foreground font-mono text-xs">{product.barcode}</div>
+                    </div>
+                    <span
+                      className={`font-semibold ${product.stock_quantity === 0 ? 'text-destructive' : 'text-yellow-600'}`}
+                    >
+                      {product.stock_quantity}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Failed jobs */}
+        <Card>
+          <CardHeader>
+            <CardTitle>{t('dashboard.failedJobs')}</CardTitle>
+            <CardDescription>{t('dashboard.failedJobsDescription')}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {failedJobs.length === 0 ? (
+              <p className="text-muted-foreground text-sm">{t('dashboard.noFailedJobs')}</p>
+            ) : (
+              <ul className="flex flex-col gap-2">
+                {failedJobs.map((job) => (
+                  <li key={job.$id} className="text-sm">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium">{job.action}</span>
+                      <span className="text-muted-foreground text-xs">
+                        {formatDistanceToNow(new Date(job.created_at), { addSuffix: true })}
+                      </span>
+                    </div>
+                    {job.error && (
+                      <div className="text-destructive truncate text-xs" title={job.error}>
+                        {job.error}
+                      </div>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      </div>
     </div>
   )
 }
@@ -25,10 +25,13 @@ import { useAuth } from '@/contexts/AuthContext'
 import {
   formatJobStats,
   getJobStatusColor,
+  getJobExportFormat,
+  getJobStatusKey,
   useDownloadExport,
   useJobs,
 } from '@/hooks/use-jobs'
 import type { JobAction, JobStatus, ParsedJob } from '@/types/job'
+import { EXPORT_FILE_TYPES } from '@/types/job'
 
 export default function Jobs() {
   const { t } = useTranslation()
@@ -79,10 +82,10 @@ export default function Jobs() {
 
   const getActionIcon = (action: string | null) => {
     if (!action) return null
-    if (action === 'import-excel') {
+    if (action === 'import-excel' || action === 'import-prealerts') {
       return <FileUp className="size-5" />
     }
-    if (action === 'export-excel') {
+    if (action === 'export-excel' || action === 'export-csv' || action === 'export-json') {
       return <Download className="size-5" />
     }
     if (action.includes('reporting')) {
@@ -99,9 +102,21 @@ export default function Jobs() {
     if (action === 'import-excel') {
       return t('jobs.import')
     }
-    if (action === 'export-excel') {
+    if (action === 'import-prealerts') {
+      return t('jobs.prealertImport')
+    }
+    if (action === 'export-excel' || action === 'export-csv' || action === 'export-json') {
       return t('jobs.export')
     }
+    if (action === 'export-reporting-receiving') {
+      return t('jobs.receivingExport')
+    }
+    if (action.startsWith('export-reporting-stocktake')) {
+      return t('jobs.stocktakeExport')
+    }
+    if (action === 'export-reporting-email') {
+      return t('jobs.reportEmail')
+    }
     if (action.includes('reporting')) {
       return t('jobs.reportExport')
     }
@@ -114,15 +129,20 @@ export default function Jobs() {
   const handleDownload = async (job: ParsedJob) => {
     if (job.result_file_id && job.action) {
       const date = new Date(job.created_at).toISOString().split('T')[0]
-      const isPdf = job.action === 'export-reporting-pdf'
+      const format = getJobExportFormat(job)
       const isReport = job.action.includes('reporting')
-      const ext = isPdf ? 'pdf' : 'xlsx'
-      const fileName = isReport
-        ? `packaging_report_${date}.${ext}`
-        : `products_export_${date}.xlsx`
+      const ext = EXPORT_FILE_TYPES[format].extension
+      const fileName = job.action === 'export-reporting-receiving'
+        ? `receiving_report_${date}.${ext}`
+        : job.action.startsWith('export-reporting-stocktake')
+          ? `stocktake_report_${date}.${ext}`
+          : isReport
+            ? `packaging_report_${date}.${ext}`
+            : `products_export_${date}.${ext}`
       await downloadExport.mutateAsync({
         fileId: job.result_file_id,
         fileName,
+        format,
       })
     }
   }
@@ -213,7 +233,7 @@ export default function Jobs() {
                           className={`inline-flex items-center gap-1 rounded-full px-2 py-0.5 text-xs font-medium ${getJobStatusColor(job.status)}`}
                         >
                           {getStatusIcon(job.status)}
-                          {t(`jobs.status.${job.status}`)}
+                          {t(getJobStatusKey(job))}
                         </span>
                       </div>
                       <div className="mt-1 text-sm text-muted-foreground">
@@ -235,7 +255,7 @@ export default function Jobs() {
                   </div>
                   {job.status === 'completed' &&
                     job.action &&
-                    (job.action === 'export-excel' || job.action.includes('reporting')) &&
+                    job.action.startsWith('export-') &&
                     job.result_file_id && (
                       <Button
                         variant="outline"
@@ -2,14 +2,14 @@ import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import { format } from 'date-fns'
 import { useTranslation } from 'react-i18next'
 import { toast } from 'sonner'
-import { Info, Loader2, Pencil, Plus, RefreshCw, Trash2, X } from 'lucide-react'
+import { AlertTriangle, Camera, CloudOff, CloudUpload, FileUp, Info, Loader2, Pencil, Plus, RefreshCw, Trash2, X } from 'lucide-react'
 import {
   type ColumnDef,
   flexRender,
   getCoreRowModel,
   useReactTable,
 } from '@tanstack/react-table'
-import { useQueryClient } from '@tanstack/react-query'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
 
 import {
   AlertDialog,
@@ -45,6 +45,13 @@ import {
   PopoverContent,
   PopoverTrigger,
 } from '@/components/ui/popover'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
 import {
   Table,
   TableBody,
@@ -58,12 +65,38 @@ import {
   TooltipContent,
   TooltipTrigger,
 } from '@/components/ui/tooltip'
+import { CameraScanner } from '@/components/packaging/CameraScanner'
+import { PendingSyncDialog } from '@/components/packaging/PendingSyncDialog'
+import { PrealertChecklist } from '@/components/packaging/PrealertChecklist'
+import { useAuth } from '@/contexts/AuthContext'
+import { useCouriers } from '@/hooks/use-couriers'
+import { useQueuePrealertImport } from '@/hooks/use-jobs'
+import { useIsMobile } from '@/hooks/use-mobile'
+import { useOfflineSync } from '@/hooks/use-offline-sync'
+import { usePackagingRealtime } from '@/hooks/use-packaging-realtime'
+import { ID } from '@/lib/appwrite/config'
+import { checkWaybill } from '@/lib/appwrite/couriers'
+import { locationService, locationStockService } from '@/lib/appwrite/locations'
 import { packagingRecordService } from '@/lib/appwrite/packaging'
+import { packagingDraftService } from '@/lib/appwrite/packaging-drafts'
+import { checkPrealert, getScanFlags, prealertService } from '@/lib/appwrite/prealerts'
 import { productService } from '@/lib/appwrite/products'
+import { offlineCatalogService } from '@/lib/offline/catalog'
+import { isNetworkError } from '@/lib/offline/sync-queue'
 import { formatTime, isToday } from '@/lib/utils'
-import type { PackagingItemWithProduct, PackagingRecordWithProducts } from '@/types/packaging'
+import type { WaybillCheck } from '@/types/courier'
+import type { SyncQueueResult } from '@/types/offline'
+import type {
+  PackagingDraft,
+  PackagingItemWithProduct,
+  PackagingRecordWithProducts,
+} from '@/types/packaging'
+import type { ParsedOrderPrealert } from '@/types/prealert'
 import type { Product } from '@/types/product'
 
+// localStorage key for the location this browser packs from
+const LOCATION_STORAGE_KEY = 'packaging-location'
+
 // Helper to format Date to YYYY-MM-DD string
 function formatDateToString(date: Date): string {
   return format(date, 'yyyy-MM-dd')
@@ -87,6 +120,13 @@ interface LocalPackagingItem {
   bundleComponents?: BundleComponentItem[]
   stockQuantity?: number // Original stock at time of scan (for single products)
   product?: Product // Full product reference for stock operations
+  packQuantity?: number // Units one scan counts as (case-pack barcodes)
+  scannedBarcode?: string // Alternate barcode scanned instead of the product's own
+}
+
+// One entry per unit: a case-pack scan stands for several of its product
+function unpackItems(items: LocalPackagingItem[]): LocalPackagingItem[] {
+  return items.flatMap((item) => Array.from({ length: item.packQuantity ?? 1 }, () => item))
 }
 
 // Insufficient stock info for error display
@@ -100,6 +140,19 @@ interface InsufficientStockItem {
 export default function Packaging() {
   const { t } = useTranslation()
   const queryClient = useQueryClient()
+  const { user, hasRole } = useAuth()
+
+  // Only supervisors may edit records from past dates
+  const canEditPastRecords = hasRole('supervisor')
+
+  // Supervisors import order pre-alerts and override mismatches
+  const canManagePrealerts = hasRole('supervisor')
+  const prealertInputRef = useRef<HTMLInputElement>(null)
+  const queuePrealertImport = useQueuePrealertImport()
+
+  // Packers on phones scan with the camera instead of a scanner
+  const isMobile = useIsMobile()
+  const [isCameraOpen, setIsCameraOpen] = useState(false)
 
   // Date navigation state
   const [selectedDate, setSelectedDate] = useState<Date>(new Date())
@@ -108,10 +161,77 @@ export default function Packaging() {
   // Edit mode state (for past records)
   const [isEditMode, setIsEditMode] = useState(false)
 
+  // Stock location to pack from (falls back to the default location)
+  const { data: locations = [] } = useQuery({
+    queryKey: ['locations'],
+    queryFn: () => locationService.list(),
+  })
+  const [selectedLocationId, setSelectedLocationId] = useState<string | null>(
+    () => localStorage.getItem(LOCATION_STORAGE_KEY)
+  )
+  const selectedLocation = useMemo(
+    () =>
+      locations.find((location) => location.$id === selectedLocationId) ??
+      locations.find((location) => location.is_default) ??
+      locations[0] ??
+      null,
+    [locations, selectedLocationId]
+  )
+
+  // Courier profiles that scanned waybills are validated against
+  const { data: couriers = [] } = useCouriers()
+
   // Current record being edited (stored in state only until Complete)
   const [currentWaybill, setCurrentWaybill] = useState<string | null>(null)
+  const [currentCourierId, setCurrentCourierId] = useState<string | null>(null)
+  const [currentStartedAt, setCurrentStartedAt] = useState<string | null>(null)
   const [currentItems, setCurrentItems] = useState<LocalPackagingItem[]>([])
 
+  // Draft that shows other stations this waybill is being packed here
+  const [currentDraft, setCurrentDraft] = useState<{ id: string; waybill: string } | null>(null)
+  const activeDraftId = currentDraft && currentDraft.waybill === currentWaybill ? currentDraft.id : null
+
+  // Release the draft once its waybill is completed, cleared or replaced
+  useEffect(() => {
+    if (!activeDraftId) return
+    return () => {
+      packagingDraftService.release(activeDraftId).catch(console.error)
+    }
+  }, [activeDraftId])
+
+  // Pre-alert of the current waybill: what it should contain
+  const [currentPrealert, setCurrentPrealert] = useState<ParsedOrderPrealert | null>(null)
+  const activePrealert = currentPrealert?.waybill_number === currentWaybill ? currentPrealert : null
+  const packedItems = useMemo(() => unpackItems(currentItems), [currentItems])
+  const prealertCheck = useMemo(
+    () => (activePrealert ? checkPrealert(activePrealert.expected_items, packedItems) : null),
+    [activePrealert, packedItems]
+  )
+  // Flag of each scanned card: that of its last unit
+  const scanFlags = useMemo(() => {
+    if (!activePrealert) return []
+    const unitFlags = getScanFlags(
+      activePrealert.expected_items,
+      packedItems.map((item) => item.barcode)
+    )
+    let units = 0
+    return currentItems.map((item) => {
+      units += item.packQuantity ?? 1
+      return unitFlags[units - 1]
+    })
+  }, [activePrealert, currentItems, packedItems])
+
+  // Waybill held back from completing because it does not match its pre-alert
+  const [prealertMismatch, setPrealertMismatch] = useState(false)
+
+  // Idempotency key of the current draft, reused when saving it is retried
+  const commitKeyRef = useRef<string | null>(null)
+
+  // Any change to the draft makes it a different commit
+  useEffect(() => {
+    commitKeyRef.current = null
+  }, [currentWaybill, currentItems, selectedDate, selectedLocation])
+
   // Records for selected date (from database)
   const [todayRecords, setTodayRecords] = useState<PackagingRecordWithProducts[]>([])
 
@@ -132,6 +252,8 @@ export default function Packaging() {
 
   // Waybill exists dialog state
   const [waybillExistsNumber, setWaybillExistsNumber] = useState<string | null>(null)
+  // Set when the waybill is being packed at another station rather than saved
+  const [waybillExistsDraft, setWaybillExistsDraft] = useState<PackagingDraft | null>(null)
 
   // Waybill previous usage warning state
   const [waybillWarning, setWaybillWarning] = useState<{
@@ -139,6 +261,12 @@ export default function Packaging() {
     previousDate: string
   } | null>(null)
 
+  // Waybill that fits no courier format, awaiting confirmation
+  const [waybillFormatWarning, setWaybillFormatWarning] = useState<{
+    waybill: string
+    check: Exclude<WaybillCheck, { status: 'valid' }>
+  } | null>(null)
+
   // Insufficient stock dialog state
   const [insufficientStockItems, setInsufficientStockItems] = useState<InsufficientStockItem[] | null>(null)
 
@@ -147,6 +275,8 @@ export default function Packaging() {
 
   // Product search state
   const [searchResults, setSearchResults] = useState<Product[]>([])
+  // Bundles among the search results that can be built (bundle ID to quantity)
+  const [searchBuildable, setSearchBuildable] = useState<Map<string, number>>(new Map())
   const [isSearchingProducts, setIsSearchingProducts] = useState(false)
   const [productPopoverOpen, setProductPopoverOpen] = useState(false)
 
@@ -170,10 +300,57 @@ export default function Packaging() {
     return originalStock
   }, [localStock])
 
+  // Helper: Replace stock quantities with those held at the selected location
+  const withLocationStock = useCallback(async (
+    product: Product,
+    bundleComponents?: Array<{ product: Product; quantity: number }>
+  ): Promise<{ product: Product; bundleComponents?: Array<{ product: Product; quantity: number }> }> => {
+    if (!selectedLocation) {
+      return { product, bundleComponents }
+    }
+
+    const [locatedProduct, ...locatedComponents] = await locationStockService.applyToProducts(
+      [product, ...(bundleComponents ?? []).map((comp) => comp.product)],
+      selectedLocation
+    )
+
+    return {
+      product: locatedProduct,
+      bundleComponents: bundleComponents?.map((comp, index) => ({
+        product: locatedComponents[index],
+        quantity: comp.quantity,
+      })),
+    }
+  }, [selectedLocation])
+
+  // Handle switching location - local stock tracking belongs to the old location
+  const handleLocationChange = useCallback((locationId: string) => {
+    setSelectedLocationId(locationId)
+    localStorage.setItem(LOCATION_STORAGE_KEY, locationId)
+    setLocalStock(new Map())
+  }, [])
+
+  // Import order pre-alerts (Excel or CSV) as a background job
+  const handlePrealertImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file || !user) return
+
+    try {
+      await queuePrealertImport.mutateAsync({ file, userId: user.$id })
+      toast.success(t('jobs.importQueued'))
+    } catch (err) {
+      console.error('Error queuing pre-alert import:', err)
+      toast.error(t('packaging.prealertImportError'))
+    }
+  }
+
   // Helper: Check stock availability and return insufficient items
+  // A case-pack scan needs its pack quantity (units) of the product
   const checkStockAvailability = useCallback((
     product: Product,
-    bundleComponents?: Array<{ product: Product; quantity: number }>
+    bundleComponents?: Array<{ product: Product; quantity: number }>,
+    units = 1
   ): InsufficientStockItem[] => {
     const insufficient: InsufficientStockItem[] = []
 
@@ -181,11 +358,11 @@ export default function Packaging() {
       // For bundles, check each component
       for (const comp of bundleComponents) {
         const available = getAvailableStock(comp.product.barcode, comp.product.stock_quantity)
-        if (available < comp.quantity) {
+        if (available < comp.quantity * units) {
           insufficient.push({
             barcode: comp.product.barcode,
             name: comp.product.name,
-            required: comp.quantity,
+            required: comp.quantity * units,
             available,
           })
         }
@@ -193,11 +370,11 @@ export default function Packaging() {
     } else {
       // For single products, check the product itself
       const available = getAvailableStock(product.barcode, product.stock_quantity)
-      if (available < 1) {
+      if (available < units) {
         insufficient.push({
           barcode: product.barcode,
           name: product.name,
-          required: 1,
+          required: units,
           available,
         })
       }
@@ -209,7 +386,8 @@ export default function Packaging() {
   // Helper: Deduct stock for a product
   const deductStock = useCallback((
     product: Product,
-    bundleComponents?: Array<{ product: Product; quantity: number }>
+    bundleComponents?: Array<{ product: Product; quantity: number }>,
+    units = 1
   ) => {
     setLocalStock((prev) => {
       const newStock = new Map(prev)
@@ -220,14 +398,14 @@ export default function Packaging() {
           const current = newStock.has(comp.product.barcode)
             ? newStock.get(comp.product.barcode)!
             : comp.product.stock_quantity
-          newStock.set(comp.product.barcode, current - comp.quantity)
+          newStock.set(comp.product.barcode, current - comp.quantity * units)
         }
       } else {
-        // For single products, deduct 1
+        // For single products, deduct 1 (or the pack quantity)
         const current = newStock.has(product.barcode)
           ? newStock.get(product.barcode)!
           : product.stock_quantity
-        newStock.set(product.barcode, current - 1)
+        newStock.set(product.barcode, current - units)
       }
 
       return newStock
@@ -236,6 +414,7 @@ export default function Packaging() {
 
   // Helper: Restore stock for a product (when removing from list)
   const restoreStock = useCallback((item: LocalPackagingItem) => {
+    const units = item.packQuantity ?? 1
     setLocalStock((prev) => {
       const newStock = new Map(prev)
 
@@ -243,12 +422,12 @@ export default function Packaging() {
         // For bundles, restore each component
         for (const comp of item.bundleComponents) {
           const current = newStock.get(comp.barcode) ?? comp.product.stock_quantity
-          newStock.set(comp.barcode, current + comp.quantity)
+          newStock.set(comp.barcode, current + comp.quantity * units)
         }
       } else if (item.product) {
-        // For single products, restore 1
+        // For single products, restore 1 (or the pack quantity)
         const current = newStock.get(item.barcode) ?? item.product.stock_quantity
-        newStock.set(item.barcode, current + 1)
+        newStock.set(item.barcode, current + units)
       }
 
       return newStock
@@ -280,6 +459,27 @@ export default function Packaging() {
     }
   }, [selectedDate])
 
+  // Report waybills synced from the offline queue
+  const handleSyncComplete = useCallback((result: SyncQueueResult) => {
+    if (result.synced > 0) {
+      toast.success(t('packaging.offlineSynced', { count: result.synced }))
+      fetchRecords()
+    }
+    if (result.conflicts > 0) {
+      toast.error(t('packaging.offlineConflicts', { count: result.conflicts }))
+    }
+  }, [fetchRecords, t])
+
+  // Offline mode: waybills completed without a connection are queued on
+  // this device and synced once it is back
+  const offlineSync = useOfflineSync({ locations, onSyncComplete: handleSyncComplete })
+  const { isOnline, queue: offlineQueue, enqueue: enqueueOffline } = offlineSync
+  const syncIssueCount = offlineQueue.length - offlineSync.pendingCount
+
+  // Waybills packed at other stations appear without a refresh
+  usePackagingRealtime(formatDateToString(selectedDate), setTodayRecords, isOnline)
+  const [isSyncDialogOpen, setIsSyncDialogOpen] = useState(false)
+
   // Search products based on input
   const searchProducts = useCallback(async (query: string) => {
     if (!query.trim()) {
@@ -289,15 +489,33 @@ export default function Packaging() {
 
     try {
       setIsSearchingProducts(true)
+      if (!isOnline) {
+        setSearchResults(await offlineCatalogService.search(query))
+        setSearchBuildable(new Map())
+        return
+      }
       const result = await productService.list({ search: query, limit: 10 })
       setSearchResults(result.documents)
+
+      // Warn about bundles that can't be built before they are scanned
+      const bundles = result.documents.filter((product) => product.type === 'bundle')
+      setSearchBuildable(
+        bundles.length > 0
+          ? await productService
+              .getBuildableQuantities(bundles, selectedLocation?.$id)
+              .catch((err) => {
+                console.error('Error calculating buildable bundles:', err)
+                return new Map<string, number>()
+              })
+          : new Map()
+      )
     } catch (err) {
       console.error('Error searching products:', err)
       setSearchResults([])
     } finally {
       setIsSearchingProducts(false)
     }
-  }, [])
+  }, [isOnline, selectedLocation])
 
   // Load records when date changes
   useEffect(() => {
@@ -314,14 +532,14 @@ export default function Packaging() {
   useEffect(() => {
     const handleFocus = () => {
       // Only refresh if not in the middle of editing/submitting
-      if (!isSubmitting && !currentWaybill && !editRecord) {
+      if (isOnline && !isSubmitting && !currentWaybill && !editRecord) {
         fetchRecords()
       }
     }
 
     window.addEventListener('focus', handleFocus)
     return () => window.removeEventListener('focus', handleFocus)
-  }, [fetchRecords, isSubmitting, currentWaybill, editRecord])
+  }, [fetchRecords, isOnline, isSubmitting, currentWaybill, editRecord])
 
   // Search products when input changes
   useEffect(() => {
@@ -341,7 +559,11 @@ export default function Packaging() {
   }, [currentWaybill])
 
   // Handle waybill submission (state only, no database)
-  const handleWaybillSubmit = useCallback(async (scannedBarcode?: string, skipWarning = false) => {
+  const handleWaybillSubmit = useCallback(async (
+    scannedBarcode?: string,
+    skipWarning = false,
+    skipFormatCheck = false
+  ) => {
     const waybillToSubmit = (scannedBarcode ?? waybillInput).trim()
 
     if (!waybillToSubmit) {
@@ -349,6 +571,14 @@ export default function Packaging() {
       return
     }
 
+    // Catch mistyped or partial scans before anything is packed against them
+    const formatCheck = checkWaybill(waybillToSubmit, couriers)
+    if (couriers.length > 0 && formatCheck.status !== 'valid' && !skipFormatCheck) {
+      setWaybillFormatWarning({ waybill: waybillToSubmit, check: formatCheck })
+      setWaybillInput('')
+      return
+    }
+
     try {
       setIsSubmitting(true)
       setError(null)
@@ -356,55 +586,99 @@ export default function Packaging() {
       const dateStr = formatDateToString(selectedDate)
       const todayStr = formatDateToString(new Date())
       const isForToday = dateStr === todayStr
+      let draftId: string | null = null
+      let prealert: ParsedOrderPrealert | null = null
+
+      if (isOnline) {
+        // Check if waybill already exists for today's date (priority check)
+        if (!skipWarning) {
+          const existingToday = await packagingRecordService.getByDateAndWaybill(
+            todayStr,
+            waybillToSubmit
+          )
 
-      // Check if waybill already exists for today's date (priority check)
-      if (!skipWarning) {
-        const existingToday = await packagingRecordService.getByDateAndWaybill(
-          todayStr,
-          waybillToSubmit
-        )
-
-        if (existingToday) {
-          setWaybillExistsNumber(waybillToSubmit)
-          setWaybillInput('')
-          return
+          if (existingToday) {
+            setWaybillExistsNumber(waybillToSubmit)
+            setWaybillInput('')
+            return
+          }
         }
-      }
 
-      // Check if waybill already exists for the selected date (if not today)
-      if (!isForToday) {
-        const existing = await packagingRecordService.getByDateAndWaybill(
-          dateStr,
-          waybillToSubmit
-        )
+        // Check if waybill already exists for the selected date (if not today)
+        if (!isForToday) {
+          const existing = await packagingRecordService.getByDateAndWaybill(
+            dateStr,
+            waybillToSubmit
+          )
 
-        if (existing) {
-          setWaybillExistsNumber(waybillToSubmit)
-          setWaybillInput('')
-          return
+          if (existing) {
+            setWaybillExistsNumber(waybillToSubmit)
+            setWaybillInput('')
+            return
+          }
         }
-      }
 
-      // Check if waybill was used on a previous date (only if not skipping warning)
-      if (!skipWarning) {
-        const previousUsage = await packagingRecordService.getWaybillPreviousUsage(
-          waybillToSubmit,
-          dateStr
-        )
+        // Check if waybill was used on a previous date (only if not skipping warning)
+        if (!skipWarning) {
+          const previousUsage = await packagingRecordService.getWaybillPreviousUsage(
+            waybillToSubmit,
+            dateStr
+          )
+
+          if (previousUsage) {
+            // Show warning dialog and wait for user confirmation
+            setWaybillWarning({
+              waybill: waybillToSubmit,
+              previousDate: previousUsage.packaging_date,
+            })
+            setWaybillInput('')
+            return
+          }
+        }
 
-        if (previousUsage) {
-          // Show warning dialog and wait for user confirmation
-          setWaybillWarning({
-            waybill: waybillToSubmit,
-            previousDate: previousUsage.packaging_date,
+        // Claim the waybill so other stations see it is being packed
+        // Packing goes on without a claim; saved records are still unique
+        const claim = await packagingDraftService
+          .claim(dateStr, waybillToSubmit)
+          .catch((claimError) => {
+            console.error('Error claiming waybill:', claimError)
+            return null
           })
+
+        if (claim && !claim.claimed) {
+          setWaybillExistsNumber(waybillToSubmit)
+          setWaybillExistsDraft(claim.draft)
           setWaybillInput('')
           return
         }
+        draftId = claim?.draft.$id ?? null
+
+        // Pre-alerts are only checked online; packing goes on without one
+        prealert = await prealertService
+          .getByWaybill(waybillToSubmit)
+          .catch((prealertError) => {
+            console.error('Error loading pre-alert:', prealertError)
+            return null
+          })
+      } else if (
+        // Offline: only waybills queued on this device can be checked
+        offlineQueue.some(
+          (queued) =>
+            queued.record.waybill_number === waybillToSubmit &&
+            queued.record.packaging_date === dateStr
+        )
+      ) {
+        setWaybillExistsNumber(waybillToSubmit)
+        setWaybillInput('')
+        return
       }
 
       // Store in state only (no database record yet)
       setCurrentWaybill(waybillToSubmit)
+      setCurrentDraft(draftId ? { id: draftId, waybill: waybillToSubmit } : null)
+      setCurrentPrealert(prealert)
+      setCurrentCourierId(formatCheck.status === 'unknown' ? null : formatCheck.courier.$id)
+      setCurrentStartedAt(new Date().toISOString())
       setCurrentItems([])
       // Move focus to product input
       setTimeout(() => productInputRef.current?.focus(), 0)
@@ -414,7 +688,22 @@ export default function Packaging() {
     } finally {
       setIsSubmitting(false)
     }
-  }, [waybillInput, selectedDate, t])
+  }, [waybillInput, couriers, selectedDate, isOnline, offlineQueue, t])
+
+  // Warn as soon as a scan does not belong on the pre-alerted waybill
+  const warnPrealertScan = useCallback((item: LocalPackagingItem) => {
+    if (!activePrealert) return
+    const { barcode } = item
+    const flag = getScanFlags(
+      activePrealert.expected_items,
+      unpackItems([...currentItems, item]).map((unit) => unit.barcode)
+    ).at(-1)
+    if (flag === 'wrong') {
+      toast.error(t('packaging.prealertWrongItem', { barcode }))
+    } else if (flag === 'over') {
+      toast.error(t('packaging.prealertOverPack', { barcode }))
+    }
+  }, [activePrealert, currentItems, t])
 
   // Handle product barcode submission (state only, no database)
   const handleProductSubmit = useCallback(async (scannedBarcode?: string) => {
@@ -434,25 +723,54 @@ export default function Packaging() {
       setIsSubmitting(true)
       setError(null)
 
-      // Check if product exists in database
-      const product = await productService.getByBarcode(barcodeToSubmit)
-      if (!product) {
-        setProductNotFoundBarcode(barcodeToSubmit)
-        setProductInput('')
-        return
-      }
+      let product: Product
+      let packQuantity: number
+      let located: Awaited<ReturnType<typeof withLocationStock>>
+      if (isOnline) {
+        // Check if product exists in database, by its own or an alternate barcode
+        const found = await productService.resolveBarcode(barcodeToSubmit)
+        if (!found) {
+          setProductNotFoundBarcode(barcodeToSubmit)
+          setProductInput('')
+          return
+        }
+        product = found.product
+        packQuantity = found.packQuantity
+
+        // Fetch bundle components if applicable
+        let bundleComponents: Array<{ product: Product; quantity: number }> | undefined
+        if (product.type === 'bundle') {
+          const productWithComponents = await productService.getWithComponents(product.$id)
+          if (productWithComponents.components && productWithComponents.components.length > 0) {
+            bundleComponents = productWithComponents.components
+          }
+        }
 
-      // Fetch bundle components if applicable
-      let bundleComponents: Array<{ product: Product; quantity: number }> | undefined
-      if (product.type === 'bundle') {
-        const productWithComponents = await productService.getWithComponents(product.$id)
-        if (productWithComponents.components && productWithComponents.components.length > 0) {
-          bundleComponents = productWithComponents.components
+        located = await withLocationStock(product, bundleComponents)
+      } else {
+        // Offline: look the barcode up in the cached catalogue, with stock
+        // already reduced by waybills waiting to sync
+        const cached = await offlineCatalogService.lookup(
+          barcodeToSubmit,
+          selectedLocation?.$id,
+          offlineQueue
+        )
+        if (!cached) {
+          setProductNotFoundBarcode(barcodeToSubmit)
+          setProductInput('')
+          return
         }
+        product = cached.product
+        packQuantity = cached.packQuantity
+        located = cached
       }
 
-      // Check stock availability
-      const insufficientItems = checkStockAvailability(product, bundleComponents)
+      // Check stock availability at the selected location
+      const insufficientItems = checkStockAvailability(
+        located.product,
+        located.bundleComponents,
+        packQuantity
+      )
       if (insufficientItems.length > 0) {
         setInsufficientStockItems(insufficientItems)
         setProductInput('')
@@ -460,20 +778,22 @@ export default function Packaging() {
       }
 
       // Deduct stock from local state
-      deductStock(product, bundleComponents)
+      deductStock(located.product, located.bundleComponents, packQuantity)
 
-      // Build the item
+      // Build the item, always under the product's own barcode
       const newItem: LocalPackagingItem = {
-        barcode: barcodeToSubmit,
+        barcode: product.barcode,
         productName: product.name,
         isBundle: product.type === 'bundle',
-        stockQuantity: product.stock_quantity,
-        product,
+        stockQuantity: located.product.stock_quantity,
+        product: located.product,
       }
+      if (packQuantity > 1) newItem.packQuantity = packQuantity
+      if (barcodeToSubmit !== product.barcode) newItem.scannedBarcode = barcodeToSubmit
 
       // Add bundle components if applicable
-      if (bundleComponents) {
-        newItem.bundleComponents = bundleComponents.map((comp) => ({
+      if (located.bundleComponents) {
+        newItem.bundleComponents = located.bundleComponents.map((comp) => ({
           barcode: comp.product.barcode,
           productName: comp.product.name,
           quantity: comp.quantity,
@@ -482,6 +802,7 @@ export default function Packaging() {
       }
 
       setCurrentItems((prev) => [...prev, newItem])
+      warnPrealertScan(newItem)
       setProductInput('')
       setProductPopoverOpen(false)
 
@@ -493,12 +814,18 @@ export default function Packaging() {
     } finally {
       setIsSubmitting(false)
     }
-  }, [currentWaybill, productInput, checkStockAvailability, deductStock])
+  }, [currentWaybill, productInput, isOnline, selectedLocation, offlineQueue, withLocationStock, checkStockAvailability, deductStock, warnPrealertScan])
 
   // Handle product selection from dropdown
   const handleProductSelect = useCallback(async (product: Product) => {
     if (!currentWaybill) return
 
+    // Offline: the cached catalogue is looked up by barcode
+    if (!isOnline) {
+      await handleProductSubmit(product.barcode)
+      return
+    }
+
     setIsSubmitting(true)
 
     // Fetch bundle components if applicable
@@ -510,12 +837,26 @@ export default function Packaging() {
           bundleComponents = productWithComponents.components
         }
       } catch (err) {
+        // Without its components a bundle can't be checked or deducted
         console.error('Error fetching bundle components:', err)
+        setError('Failed to check product')
+        setIsSubmitting(false)
+        return
       }
     }
 
-    // Check stock availability
-    const insufficientItems = checkStockAvailability(product, bundleComponents)
+    // Check stock availability at the selected location
+    let located: Awaited<ReturnType<typeof withLocationStock>>
+    try {
+      located = await withLocationStock(product, bundleComponents)
+    } catch (err) {
+      console.error('Error checking location stock:', err)
+      setError(t('packaging.locationStockError'))
+      setIsSubmitting(false)
+      return
+    }
+
+    const insufficientItems = checkStockAvailability(located.product, located.bundleComponents)
     if (insufficientItems.length > 0) {
       setInsufficientStockItems(insufficientItems)
       setProductInput('')
@@ -525,19 +866,19 @@ export default function Packaging() {
     }
 
     // Deduct stock from local state
-    deductStock(product, bundleComponents)
+    deductStock(located.product, located.bundleComponents)
 
     const newItem: LocalPackagingItem = {
       barcode: product.barcode,
       productName: product.name,
       isBundle: product.type === 'bundle',
-      stockQuantity: product.stock_quantity,
-      product,
+      stockQuantity: located.product.stock_quantity,
+      product: located.product,
     }
 
     // Add bundle components if applicable
-    if (bundleComponents) {
-      newItem.bundleComponents = bundleComponents.map((comp) => ({
+    if (located.bundleComponents) {
+      newItem.bundleComponents = located.bundleComponents.map((comp) => ({
         barcode: comp.product.barcode,
         productName: comp.product.name,
         quantity: comp.quantity,
@@ -546,13 +887,23 @@ export default function Packaging() {
     }
 
     setCurrentItems((prev) => [...prev, newItem])
+    warnPrealertScan(newItem)
     setProductInput('')
     setProductPopoverOpen(false)
     setIsSubmitting(false)
 
     // Keep focus on product input for continuous scanning
     setTimeout(() => productInputRef.current?.focus(), 0)
-  }, [currentWaybill, checkStockAvailability, deductStock])
+  }, [currentWaybill, isOnline, handleProductSubmit, withLocationStock, checkStockAvailability, deductStock, warnPrealertScan, t])
+
+  // Handle a camera scan: the first code is the waybill, then products
+  const handleCameraScan = useCallback(async (code: string) => {
+    if (currentWaybill) {
+      await handleProductSubmit(code)
+    } else {
+      await handleWaybillSubmit(code)
+    }
+  }, [currentWaybill, handleProductSubmit, handleWaybillSubmit])
 
   // Handle removing an item from current draft
   const handleRemoveItem = useCallback((index: number) => {
@@ -568,20 +919,26 @@ export default function Packaging() {
   }, [restoreStock])
 
   // Handle completing current waybill - save to database via Appwrite Function
-  const handleCompleteWaybill = useCallback(async () => {
+  // A pre-alerted waybill is only saved once it matches, unless a supervisor overrides
+  const handleCompleteWaybill = useCallback(async (overridePrealert = false) => {
     if (!currentWaybill || currentItems.length === 0) {
       toast.error(t('packaging.scanAtLeastOne'))
       return
     }
 
+    if (prealertCheck && !prealertCheck.matches && !overridePrealert) {
+      setPrealertMismatch(true)
+      return
+    }
+
     try {
       setIsSubmitting(true)
       setError(null)
 
       const dateStr = formatDateToString(selectedDate)
 
-      // Build items array for the function
-      const items = currentItems.map(item => ({
+      // Build items array for the function, one item per packed unit
+      const items = packedItems.map(item => ({
         product_barcode: item.barcode,
         product_name: item.productName,
       }))
@@ -589,7 +946,7 @@ export default function Packaging() {
       // Build stock updates array (product_id + deduct_amount)
       // Uses Map to aggregate duplicate products (same product scanned multiple times)
       const stockUpdatesMap = new Map<string, number>()
-      for (const item of currentItems) {
+      for (const item of packedItems) {
         if (item.isBundle && item.bundleComponents) {
           for (const comp of item.bundleComponents) {
             const current = stockUpdatesMap.get(comp.product.$id) || 0
@@ -604,12 +961,77 @@ export default function Packaging() {
         ([product_id, deduct_amount]) => ({ product_id, deduct_amount })
       )
 
+      const recordInput = {
+        packaging_date: dateStr,
+        waybill_number: currentWaybill,
+        location_id: selectedLocation?.$id,
+        courier_id: currentCourierId ?? undefined,
+        started_at: currentStartedAt ?? undefined,
+        finished_at: new Date().toISOString(),
+      }
+      commitKeyRef.current ??= ID.unique()
+      const idempotencyKey = commitKeyRef.current
+
+      // Clear state for next waybill
+      const resetDraft = () => {
+        setCurrentWaybill(null)
+        setCurrentItems([])
+        setWaybillInput('')
+        setProductInput('')
+        setLocalStock(new Map()) // Clear local stock tracking
+        waybillInputRef.current?.focus()
+      }
+
+      // Keep the waybill on this device until the connection is back,
+      // with the stock it was packed against for conflict checks
+      const queueOffline = async () => {
+        const expectedStock: Record<string, number> = {}
+        for (const item of currentItems) {
+          const stocked = item.isBundle && item.bundleComponents
+            ? item.bundleComponents.map((comp) => comp.product)
+            : item.product ? [item.product] : []
+          for (const product of stocked) {
+            expectedStock[product.$id] ??= product.stock_quantity
+          }
+        }
+
+        try {
+          const scannedAt = new Date().toISOString()
+          await enqueueOffline({
+            idempotency_key: idempotencyKey,
+            record: recordInput,
+            items: items.map((item) => ({ ...item, scanned_at: scannedAt })),
+            stock_updates: stockUpdates,
+            expected_stock: expectedStock,
+          })
+          resetDraft()
+          toast.success(t('packaging.savedOffline', { waybill: currentWaybill }))
+        } catch (err) {
+          console.error('Error queueing packaging record:', err)
+          setError(t('packaging.offlineSaveError'))
+        }
+      }
+
+      if (!isOnline) {
+        await queueOffline()
+        return
+      }
+
       // Create record, items, and update stock via Appwrite Function (no rate limits)
-      const result = await packagingRecordService.createWithItemsViaFunction(
-        { packaging_date: dateStr, waybill_number: currentWaybill },
-        items,
-        stockUpdates
-      )
+      let result: Awaited<ReturnType<typeof packagingRecordService.createWithItemsViaFunction>>
+      try {
+        result = await packagingRecordService.createWithItemsViaFunction(
+          recordInput,
+          items,
+          stockUpdates,
+          idempotencyKey
+        )
+      } catch (err) {
+        if (!isNetworkError(err)) throw err
+        // The connection dropped mid-save; the queued retry reuses the key
+        await queueOffline()
+        return
+      }
 
       if (!result.stockUpdateSuccess) {
         console.error('Stock deduction failed in function')
@@ -619,9 +1041,9 @@ export default function Packaging() {
       // Build saved items with product info for display
       const savedItems: PackagingItemWithProduct[] = result.items.map((savedItem, index) => ({
         ...savedItem,
-        product_name: currentItems[index].productName,
-        is_bundle: currentItems[index].isBundle,
-        bundle_components: currentItems[index].bundleComponents,
+        product_name: packedItems[index].productName,
+        is_bundle: packedItems[index].isBundle,
+        bundle_components: packedItems[index].bundleComponents,
       }))
 
       // Invalidate products cache to reflect stock changes
@@ -632,15 +1054,13 @@ export default function Packaging() {
         ...result.record,
         items: savedItems,
       }
-      setTodayRecords((prev) => [completedRecord, ...prev])
+      // The live update may have added the record already
+      setTodayRecords((prev) => [
+        completedRecord,
+        ...prev.filter((record) => record.$id !== completedRecord.$id),
+      ])
 
-      // Clear state for next waybill
-      setCurrentWaybill(null)
-      setCurrentItems([])
-      setWaybillInput('')
-      setProductInput('')
-      setLocalStock(new Map()) // Clear local stock tracking
-      waybillInputRef.current?.focus()
+      resetDraft()
 
       toast.success(t('packaging.recordSaved'))
     } catch (err) {
@@ -649,7 +1069,22 @@ export default function Packaging() {
     } finally {
       setIsSubmitting(false)
     }
-  }, [currentWaybill, currentItems, queryClient, t, selectedDate])
+  }, [currentWaybill, currentCourierId, currentStartedAt, currentItems, packedItems, prealertCheck, queryClient, t, selectedDate, selectedLocation, isOnline, enqueueOffline])
+
+  // Override a pre-alert mismatch and save the waybill as packed
+  const handlePrealertOverride = () => {
+    setPrealertMismatch(false)
+    if (!activePrealert || !prealertCheck) return
+
+    try {
+      prealertService.overrideMismatch(activePrealert, prealertCheck)
+    } catch (err) {
+      console.error('Error overriding pre-alert:', err)
+      toast.error(t('packaging.prealertOverrideError'))
+      return
+    }
+    handleCompleteWaybill(true)
+  }
 
   // Barcode scanner detection and Enter key handling
   useEffect(() => {
@@ -689,6 +1124,7 @@ export default function Packaging() {
           e.preventDefault()
           e.stopImmediatePropagation()
           setWaybillExistsNumber(null)
+          setWaybillExistsDraft(null)
           waybillInputRef.current?.focus()
           return
         }
@@ -703,6 +1139,14 @@ export default function Packaging() {
         if (deleteRecord) {
           return
         }
+        // Same for the waybill format dialog (Rescan/Use anyway)
+        if (waybillFormatWarning) {
+          return
+        }
+        // And the pre-alert mismatch dialog (Keep packing/Override)
+        if (prealertMismatch) {
+          return
+        }
 
         // If focused on our input fields, let the input's onKeyDown handler process it
         // This ensures manual keyboard input uses the full input value, not the partial buffer
@@ -772,7 +1216,7 @@ export default function Packaging() {
     // Use capture phase so this fires BEFORE the input's onKeyDown
     window.addEventListener('keydown', handleKeyDown, true)
     return () => window.removeEventListener('keydown', handleKeyDown, true)
-  }, [currentWaybill, currentItems.length, productInput, handleWaybillSubmit, handleProductSubmit, handleCompleteWaybill, productNotFoundBarcode, waybillExistsNumber, insufficientStockItems, deleteRecord])
+  }, [currentWaybill, currentItems.length, productInput, handleWaybillSubmit, handleProductSubmit, handleCompleteWaybill, productNotFoundBarcode, waybillExistsNumber, insufficientStockItems, deleteRecord, waybillFormatWarning, prealertMismatch])
 
   // Handle delete record via Appwrite Function
   const handleDeleteRecord = async () => {
@@ -971,12 +1415,16 @@ export default function Packaging() {
         originalBarcodes.length !== newBarcodes.length ||
         originalBarcodes.some((b, i) => b !== newBarcodes[i])
 
+      // A new waybill number may belong to a different courier
+      const editCheck = checkWaybill(editWaybillNumber, couriers)
+      const editCourierId = editCheck.status === 'unknown' ? null : editCheck.courier.$id
+
       // Only call function if something changed
       if (waybillChanged || itemsChanged) {
         // Update via Appwrite Function (no rate limits)
         await packagingRecordService.updateViaFunction(
           editRecord.$id,
-          waybillChanged ? { waybill_number: editWaybillNumber } : undefined,
+          waybillChanged ? { waybill_number: editWaybillNumber, courier_id: editCourierId } : undefined,
           itemsChanged
             ? expandedItems.map((item) => ({
                 product_barcode: item.barcode,
@@ -1176,6 +1624,65 @@ export default function Packaging() {
           </p>
         </div>
         <div className="flex gap-2 self-end sm:self-auto">
+          {(!isOnline || offlineQueue.length > 0) && (
+            <Button
+              variant="outline"
+              onClick={() => setIsSyncDialogOpen(true)}
+              className={!isOnline || syncIssueCount > 0 ? 'text-destructive' : 'text-amber-600'}
+            >
+              {isOnline ? (
+                <CloudUpload className={`mr-2 size-4 ${offlineSync.isSyncing ? 'animate-pulse' : ''}`} />
+              ) : (
+                <CloudOff className="mr-2 size-4" />
+              )}
+              {!isOnline && offlineQueue.length === 0
+                ? t('packaging.offlineBadge')
+                : syncIssueCount > 0
+                  ? t('packaging.syncIssues', { count: syncIssueCount })
+                  : t('packaging.pendingSync', { count: offlineSync.pendingCount })}
+            </Button>
+          )}
+          {canManagePrealerts && (
+            <>
+              <input
+                ref={prealertInputRef}
+                type="file"
+                accept=".xlsx,.xls,.csv"
+                onChange={handlePrealertImport}
+                className="hidden"
+              />
+              <Button
+                variant="outline"
+                onClick={() => prealertInputRef.current?.click()}
+                disabled={queuePrealertImport.isPending}
+              >
+                {queuePrealertImport.isPending ? (
+                  <Loader2 className="mr-2 size-4 animate-spin" />
+                ) : (
+                  <FileUp className="mr-2 size-4" />
+                )}
+                {t('packaging.importPrealerts')}
+              </Button>
+            </>
+          )}
+          {locations.length > 0 && (
+            <Select
+              value={selectedLocation?.$id}
+              onValueChange={handleLocationChange}
+              disabled={isSubmitting || currentWaybill !== null}
+            >
+              <SelectTrigger className="w-[180px]" aria-label={t('packaging.location')}>
+                <SelectValue placeholder={t('packaging.selectLocation')} />
+              </SelectTrigger>
+              <SelectContent>
+                {locations.map((location) => (
+                  <SelectItem key={location.$id} value={location.$id}>
+                    {location.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
           <DatePicker
             date={selectedDate}
             onDateChange={(date) => date && setSelectedDate(date)}
@@ -1203,14 +1710,16 @@ export default function Packaging() {
               >
                 {t('common.today')}
               </Button>
-              <Button
-                variant={isEditMode ? 'default' : 'outline'}
-                onClick={() => setIsEditMode(!isEditMode)}
-                disabled={isSubmitting}
-              >
-                <Pencil className="mr-2 size-4" />
-                {isEditMode ? t('packaging.editing') : t('common.edit')}
-              </Button>
+              {canEditPastRecords && (
+                <Button
+                  variant={isEditMode ? 'default' : 'outline'}
+                  onClick={() => setIsEditMode(!isEditMode)}
+                  disabled={isSubmitting}
+                >
+                  <Pencil className="mr-2 size-4" />
+                  {isEditMode ? t('packaging.editing') : t('common.edit')}
+                </Button>
+              )}
             </>
           )}
         </div>
@@ -1322,7 +1831,15 @@ export default function Packaging() {
                                         <span className="text-muted-foreground text-xs font-mono">
                                           {product.barcode}
                                           {product.sku_code && ` • ${product.sku_code}`}
+                                          {searchBuildable.has(product.$id) &&
+                                            ` • ${t('products.buildable', { count: searchBuildable.get(product.$id) })}`}
                                         </span>
+                                        {searchBuildable.get(product.$id) === 0 && (
+                                          <span className="flex items-center gap-1 text-xs text-amber-600">
+                                            <AlertTriangle className="size-3" />
+                                            {t('packaging.bundleNotBuildable')}
+                                          </span>
+                                        )}
                                       </div>
                                     </CommandItem>
                                   ))}
@@ -1332,12 +1849,24 @@ export default function Packaging() {
                           </Command>
                         </PopoverContent>
                       </Popover>
+                      {isMobile && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setIsCameraOpen(true)}
+                          disabled={isSubmitting}
+                          className="h-8"
+                          title={t('packaging.scanWithCamera')}
+                        >
+                          <Camera className="size-4" />
+                        </Button>
+                      )}
                       {currentWaybill && (
                         <div className="flex items-center gap-1">
                           <Button
                             size="sm"
                             variant="outline"
-                            onClick={handleCompleteWaybill}
+                            onClick={() => handleCompleteWaybill()}
                             disabled={isSubmitting}
                             className="h-8 whitespace-nowrap"
                           >
@@ -1354,13 +1883,20 @@ export default function Packaging() {
                         </div>
                       )}
                     </div>
+                    {/* Expected contents of a pre-alerted waybill */}
+                    {activePrealert && prealertCheck && (
+                      <PrealertChecklist
+                        check={prealertCheck}
+                        orderReference={activePrealert.order_reference}
+                      />
+                    )}
                     {/* Current items for active waybill - Card Display */}
                     {currentItems.length > 0 && (
                       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-2 pt-1">
                         {currentItems.map((item, index) => (
                           <div
                             key={index}
-                            className="relative rounded-lg border bg-card p-3 shadow-sm"
+                            className={`relative rounded-lg border bg-card p-3 shadow-sm ${scanFlags[index] ? 'border-destructive' : ''}`}
                           >
                             {/* Remove button */}
                             <button
@@ -1375,12 +1911,24 @@ export default function Packaging() {
                             {/* Product info */}
                             <div className="pr-6">
                               <div className="font-medium text-sm line-clamp-2">{item.productName}</div>
-                              <div className="font-mono text-xs text-muted-foreground mt-1">{item.barcode}</div>
+                              <div className="font-mono text-xs text-muted-foreground mt-1">
+                                {item.scannedBarcode ? `${item.scannedBarcode} → ${item.barcode}` : item.barcode}
+                              </div>
                               {item.isBundle && (
                                 <span className="inline-block mt-1 px-1.5 py-0.5 text-xs rounded bg-primary/10 text-primary">
                                   Bundle
                                 </span>
                               )}
+                              {item.packQuantity && (
+                                <span className="inline-block mt-1 ml-1 px-1.5 py-0.5 text-xs rounded bg-primary/10 text-primary">
+                                  {t('packaging.casePack', { count: item.packQuantity })}
+                                </span>
+                              )}
+                              {scanFlags[index] && (
+                                <span className="inline-block mt-1 ml-1 px-1.5 py-0.5 text-xs rounded bg-destructive/10 text-destructive">
+                                  {t(`packaging.prealertFlag.${scanFlags[index]}`)}
+                                </span>
+                              )}
                             </div>
 
                             {/* Bundle components */}
@@ -1406,7 +1954,7 @@ export default function Packaging() {
                 </TableCell>
                 <TableCell className="text-center align-top pt-3" style={{ width: 80 }}>
                   {currentWaybill && (
-                    <span className="font-semibold">{currentItems.length}</span>
+                    <span className="font-semibold">{packedItems.length}</span>
                   )}
                 </TableCell>
                 <TableCell className="text-muted-foreground align-top pt-3" style={{ width: 100 }}>
@@ -1522,21 +2070,67 @@ export default function Packaging() {
         </AlertDialogContent>
       </AlertDialog>
 
+      {/* Pre-alert Mismatch Dialog */}
+      <AlertDialog
+        open={prealertMismatch}
+        onOpenChange={(open) => {
+          if (!open) {
+            setPrealertMismatch(false)
+            productInputRef.current?.focus()
+          }
+        }}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t('packaging.prealertMismatchTitle')}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {canManagePrealerts
+                ? t('packaging.prealertMismatchMessage', { waybill: currentWaybill })
+                : t('packaging.prealertMismatchSupervisor', { waybill: currentWaybill })}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          {prealertCheck && (
+            <PrealertChecklist
+              check={prealertCheck}
+              orderReference={activePrealert?.order_reference ?? null}
+            />
+          )}
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t('packaging.keepPacking')}</AlertDialogCancel>
+            {canManagePrealerts && (
+              <AlertDialogAction onClick={handlePrealertOverride}>
+                {t('packaging.prealertOverride')}
+              </AlertDialogAction>
+            )}
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       {/* Waybill Exists Today Warning Dialog */}
       <AlertDialog
         open={!!waybillExistsNumber}
         onOpenChange={(open) => {
           if (!open) {
             setWaybillExistsNumber(null)
+            setWaybillExistsDraft(null)
             waybillInputRef.current?.focus()
           }
         }}
       >
         <AlertDialogContent>
           <AlertDialogHeader>
-            <AlertDialogTitle>{t('packaging.waybillExistsTodayTitle')}</AlertDialogTitle>
+            <AlertDialogTitle>
+              {waybillExistsDraft
+                ? t('packaging.waybillInProgressTitle')
+                : t('packaging.waybillExistsTodayTitle')}
+            </AlertDialogTitle>
             <AlertDialogDescription>
-              {t('packaging.waybillExistsTodayMessage', { waybill: waybillExistsNumber })}
+              {waybillExistsDraft
+                ? t('packaging.waybillInProgressMessage', {
+                    waybill: waybillExistsNumber,
+                    user: waybillExistsDraft.user_email || t('packaging.anotherPacker'),
+                  })
+                : t('packaging.waybillExistsTodayMessage', { waybill: waybillExistsNumber })}
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -1555,6 +2149,7 @@ export default function Packaging() {
                 if (waybill) {
                   // Proceed with the waybill even though it exists
                   setCurrentWaybill(waybill)
+                  setCurrentStartedAt(new Date().toISOString())
                   setCurrentItems([])
                   setTimeout(() => productInputRef.current?.focus(), 0)
                 }
@@ -1600,7 +2195,7 @@ export default function Packaging() {
                 const waybill = waybillWarning?.waybill
                 setWaybillWarning(null)
                 if (waybill) {
-                  handleWaybillSubmit(waybill, true)
+                  handleWaybillSubmit(waybill, true, true)
                 }
               }}
             >
@@ -1610,6 +2205,52 @@ export default function Packaging() {
         </AlertDialogContent>
       </AlertDialog>
 
+      {/* Waybill Format Warning Dialog */}
+      <AlertDialog
+        open={!!waybillFormatWarning}
+        onOpenChange={(open) => {
+          if (!open) {
+            setWaybillFormatWarning(null)
+            waybillInputRef.current?.focus()
+          }
+        }}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t('packaging.waybillFormatTitle')}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {waybillFormatWarning?.check.status === 'invalid'
+                ? t(`packaging.waybillFormatInvalid.${waybillFormatWarning.check.issue}`, {
+                    waybill: waybillFormatWarning.waybill,
+                    courier: waybillFormatWarning.check.courier.name,
+                  })
+                : t('packaging.waybillFormatUnknown', { waybill: waybillFormatWarning?.waybill })}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel
+              onClick={() => {
+                setWaybillFormatWarning(null)
+                waybillInputRef.current?.focus()
+              }}
+            >
+              {t('packaging.rescanWaybill')}
+            </AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                const waybill = waybillFormatWarning?.waybill
+                setWaybillFormatWarning(null)
+                if (waybill) {
+                  handleWaybillSubmit(waybill, false, true)
+                }
+              }}
+            >
+              {t('packaging.useWaybillAnyway')}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       {/* Insufficient Stock Dialog */}
       <AlertDialog
         open={!!insufficientStockItems}
@@ -1837,6 +2478,36 @@ export default function Packaging() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <CameraScanner
+        open={isCameraOpen}
+        onOpenChange={setIsCameraOpen}
+        onScan={handleCameraScan}
+        title={currentWaybill
+          ? t('packaging.cameraScanProduct', { waybill: currentWaybill })
+          : t('packaging.cameraScanWaybill')}
+        description={currentWaybill
+          ? t('packaging.cameraItemsScanned', { count: packedItems.length })
+          : undefined}
+      >
+        {currentWaybill && (
+          <Button onClick={() => handleCompleteWaybill()} disabled={isSubmitting || currentItems.length === 0}>
+            {t('common.complete')}
+          </Button>
+        )}
+      </CameraScanner>
+
+      <PendingSyncDialog
+        open={isSyncDialogOpen}
+        onOpenChange={setIsSyncDialogOpen}
+        queue={offlineQueue}
+        isOnline={isOnline}
+        isSyncing={offlineSync.isSyncing}
+        catalogRefreshedAt={offlineSync.catalogRefreshedAt}
+        onSync={() => offlineSync.sync()}
+        onRetry={offlineSync.retry}
+        onDiscard={offlineSync.discard}
+      />
     </div >
   )
 }
\ No newline at end of file
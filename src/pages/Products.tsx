@@ -17,6 +17,7 @@ import {
   ProductForm,
   type ProductFormValues,
 } from '@/components/products/ProductForm'
+import { StockMovementsDialog } from '@/components/products/StockMovementsDialog'
 import {
   AlertDialog,
   AlertDialogAction,
@@ -53,31 +54,54 @@ import {
 } from '@/components/ui/table'
 import { useAuth } from '@/contexts/AuthContext'
 import { useDebounce } from '@/hooks/use-debounce'
-import { useActiveJobs, useDeleteJob, useDownloadExport, useQueueExport, useQueueImport, useRecentCompletedExports } from '@/hooks/use-jobs'
+import { getJobExportFormat, useActiveJobs, useDeleteJob, useDownloadExport, useQueueExport, useQueueImport, useRecentCompletedExports } from '@/hooks/use-jobs'
 import { useQueryClient } from '@tanstack/react-query'
 import {
   fetchAllProductsForExport,
+  useBuildableQuantities,
   useCreateProduct,
   useDeleteProduct,
   useProducts,
   useUpdateProduct,
 } from '@/hooks/use-products'
-import { productComponentService, productService } from '@/lib/appwrite'
-import type { Product, ProductType } from '@/types/product'
+import {
+  calculateBuildableQuantities,
+  formatBarcodeAliases,
+  orderImportedBundles,
+  parseBarcodeAliases,
+  parseBundleComponents,
+  productBarcodeService,
+  productComponentService,
+  productService,
+} from '@/lib/appwrite'
+import type { ExportFormat, JobAction } from '@/types/job'
+import { EXPORT_FILE_TYPES } from '@/types/job'
+import type { Product, ProductBarcodeInput, ProductType } from '@/types/product'
 import { toast } from 'sonner'
 
+// Formats the server-side product export can write
+type ProductExportFormat = Exclude<ExportFormat, 'pdf'>
+
+const PRODUCT_EXPORT_ACTIONS: JobAction[] = ['export-excel', 'export-csv', 'export-json']
+
 export default function Products() {
   const { t } = useTranslation()
-  const { user } = useAuth()
+  const { user, hasRole } = useAuth()
+
+  // Packers can browse and export the catalog; changes need a supervisor
+  const canManageProducts = hasRole('supervisor')
 
   // Dialog states
   const [isFormOpen, setIsFormOpen] = useState(false)
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false)
   const [selectedProduct, setSelectedProduct] = useState<Product | null>(null)
+  const [historyProduct, setHistoryProduct] = useState<Product | null>(null)
   const [initialBundleItems, setInitialBundleItems] = useState<string[]>([])
+  const [initialBarcodeAliases, setInitialBarcodeAliases] = useState<ProductBarcodeInput[]>([])
   const [isExporting, setIsExporting] = useState(false)
   const [isImporting, setIsImporting] = useState(false)
   const [useAsyncMode] = useState(true) // Async mode enabled by default
+  const [exportFormat, setExportFormat] = useState<ProductExportFormat>('excel')
   const [error, setError] = useState<string | null>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
 
@@ -90,13 +114,9 @@ export default function Products() {
     user?.$id || '',
     !!user
   )
-  const hasActiveJobs = activeJobs.some(
-    (job) => job.status === 'pending' || job.status === 'processing'
-  )
   const { data: completedExports = [] } = useRecentCompletedExports(
     user?.$id || '',
-    !!user,
-    hasActiveJobs
+    !!user
   )
 
   // Filter to only product exports (not reports)
@@ -107,7 +127,7 @@ export default function Products() {
     (job) => job.action === 'import-excel' && (job.status === 'pending' || job.status === 'processing')
   )
   const hasRunningExportJob = activeJobs.some(
-    (job) => job.action === 'export-excel' && (job.status === 'pending' || job.status === 'processing')
+    (job) => PRODUCT_EXPORT_ACTIONS.includes(job.action) && (job.status === 'pending' || job.status === 'processing')
   )
 
   // Track completed import jobs to invalidate cache
@@ -147,12 +167,16 @@ export default function Products() {
     return data?.pages.flatMap((page) => page.documents) ?? []
   }, [data])
 
+  // Bundles hold no stock of their own; show how many can be built
+  const { data: buildableQuantities } = useBuildableQuantities(products)
+
   const total = data?.pages[0]?.total ?? 0
   const hasMore = hasNextPage ?? false
 
   const handleCreate = () => {
     setSelectedProduct(null)
     setInitialBundleItems([])
+    setInitialBarcodeAliases([])
     setIsFormOpen(true)
   }
 
@@ -164,7 +188,7 @@ export default function Products() {
         setError(null)
 
         const filters = typeFilter !== 'all' ? { type: typeFilter } : undefined
-        await queueExport.mutateAsync({ userId: user.$id, filters })
+        await queueExport.mutateAsync({ userId: user.$id, filters, format: exportFormat })
 
         toast.success(t('jobs.exportQueued'))
       } catch (err) {
@@ -183,17 +207,28 @@ export default function Products() {
       setError(null)
 
       // Fetch all products using parallel batch fetching
-      const allProducts = await fetchAllProductsForExport()
+      const [allProducts, allAliases, allComponents] = await Promise.all([
+        fetchAllProductsForExport(),
+        productBarcodeService.listAll(),
+        productComponentService.listAll(),
+      ])
+      const buildable = calculateBuildableQuantities(allProducts, allComponents)
+      const aliasesByProduct = new Map<string, ProductBarcodeInput[]>()
+      for (const alias of allAliases) {
+        aliasesByProduct.set(alias.product_id, [...(aliasesByProduct.get(alias.product_id) ?? []), alias])
+      }
 
       // Prepare data for Excel
       const exportData = allProducts.map((product, index) => ({
         'No.': index + 1,
         'Barcode': product.barcode,
+        'Alternate Barcodes': formatBarcodeAliases(aliasesByProduct.get(product.$id) ?? []),
         'SKU Code': product.sku_code || '',
         'Product Name': product.name,
         'Type': product.type === 'bundle' ? 'Bundle' : 'Single',
         'Cost': product.cost,
         'Stock Quantity': product.type === 'bundle' ? '' : (product.stock_quantity ?? 0),
+        'Buildable Quantity': product.type === 'bundle' ? (buildable.get(product.$id) ?? '') : '',
         'Created At': new Date(product.$createdAt).toLocaleString(),
       }))
 
@@ -204,16 +239,50 @@ export default function Products() {
       worksheet['!cols'] = [
         { wch: 6 },   // No.
         { wch: 15 },  // Barcode
+        { wch: 25 },  // Alternate Barcodes
         { wch: 15 },  // SKU Code
         { wch: 30 },  // Product Name
         { wch: 10 },  // Type
         { wch: 12 },  // Cost
         { wch: 15 },  // Stock Quantity
+        { wch: 18 },  // Buildable Quantity
         { wch: 20 },  // Created At
       ]
 
+      // Stock valuation of single products, with a total row
+      const singles = allProducts.filter((product) => product.type !== 'bundle')
+      const valuationData: Array<Record<string, string | number>> = singles.map((product, index) => ({
+        'No.': index + 1,
+        'Barcode': product.barcode,
+        'Product Name': product.name,
+        'Unit Cost': product.cost,
+        'Stock Quantity': product.stock_quantity ?? 0,
+        'Stock Value': Math.round((product.stock_quantity ?? 0) * product.cost * 100) / 100,
+      }))
+      valuationData.push({
+        'No.': '',
+        'Barcode': '',
+        'Product Name': 'Total',
+        'Unit Cost': '',
+        'Stock Quantity': singles.reduce((sum, product) => sum + (product.stock_quantity ?? 0), 0),
+        'Stock Value': Math.round(
+          singles.reduce((sum, product) => sum + (product.stock_quantity ?? 0) * product.cost, 0) * 100
+        ) / 100,
+      })
+
+      const valuationSheet = XLSX.utils.json_to_sheet(valuationData)
+      valuationSheet['!cols'] = [
+        { wch: 6 },   // No.
+        { wch: 15 },  // Barcode
+        { wch: 30 },  // Product Name
+        { wch: 12 },  // Unit Cost
+        { wch: 15 },  // Stock Quantity
+        { wch: 15 },  // Stock Value
+      ]
+
       const workbook = XLSX.utils.book_new()
       XLSX.utils.book_append_sheet(workbook, worksheet, 'Products')
+      XLSX.utils.book_append_sheet(workbook, valuationSheet, 'Stock Valuation')
 
       // Generate filename with date
       const date = new Date().toISOString().split('T')[0]
@@ -234,9 +303,11 @@ export default function Products() {
     if (!job.result_file_id) return
 
     const date = new Date(job.created_at).toISOString().split('T')[0]
+    const format = getJobExportFormat(job)
     await downloadExport.mutateAsync({
       fileId: job.result_file_id,
-      fileName: `products_export_${date}.xlsx`,
+      fileName: `products_export_${date}.${EXPORT_FILE_TYPES[format].extension}`,
+      format,
     })
   }
 
@@ -254,6 +325,7 @@ export default function Products() {
     const templateData = [
       {
         'Barcode': '1234567890123',
+        'Alternate Barcodes': '1234567890124,11234567890120:12',
         'SKU Code': 'SKU-001',
         'Product Name': 'Sample Single Product',
         'Type': 'Single',
@@ -263,6 +335,7 @@ export default function Products() {
       },
       {
         'Barcode': '9876543210987',
+        'Alternate Barcodes': '',
         'SKU Code': 'SKU-BUNDLE-001',
         'Product Name': 'Sample Bundle Product',
         'Type': 'Bundle',
@@ -274,12 +347,13 @@ export default function Products() {
 
     const instructionsData = [
       { 'Column': 'Barcode', 'Required': 'Yes', 'Description': 'Unique product barcode (any format)' },
+      { 'Column': 'Alternate Barcodes', 'Required': 'No', 'Description': 'Other barcodes that scan as this product: comma-separated BARCODE or BARCODE:UNITS for case packs (e.g., "ABC124,CARTON01:12"). Leave blank to keep the current ones' },
       { 'Column': 'SKU Code', 'Required': 'No', 'Description': 'Optional SKU code for the product' },
       { 'Column': 'Product Name', 'Required': 'Yes', 'Description': 'Name of the product' },
       { 'Column': 'Type', 'Required': 'Yes', 'Description': 'Either "Single" or "Bundle"' },
       { 'Column': 'Cost', 'Required': 'No', 'Description': 'Product cost (defaults to 0)' },
       { 'Column': 'Stock Quantity', 'Required': 'No', 'Description': 'Stock quantity for single products (defaults to 0, ignored for bundles)' },
-      { 'Column': 'Bundle Components', 'Required': 'No', 'Description': 'For bundles: comma-separated list of BARCODE:QUANTITY pairs (e.g., "ABC123:2,DEF456:1")' },
+      { 'Column': 'Bundle Components', 'Required': 'No', 'Description': 'For bundles: comma-separated list of BARCODE:QUANTITY pairs (e.g., "ABC123:2,DEF456:1"). Components can be other bundles, but a bundle cannot contain itself' },
     ]
 
     const workbook = XLSX.utils.book_new()
@@ -288,6 +362,7 @@ export default function Products() {
     const productsSheet = XLSX.utils.json_to_sheet(templateData)
     productsSheet['!cols'] = [
       { wch: 18 }, // Barcode
+      { wch: 30 }, // Alternate Barcodes
       { wch: 15 }, // SKU Code
       { wch: 30 }, // Product Name
       { wch: 10 }, // Type
@@ -351,6 +426,7 @@ export default function Products() {
       const worksheet = workbook.Sheets[workbook.SheetNames[0]]
       const jsonData = XLSX.utils.sheet_to_json<{
         'Barcode': string
+        'Alternate Barcodes'?: string
         'SKU Code'?: string
         'Product Name': string
         'Type': string
@@ -388,6 +464,8 @@ export default function Products() {
 
       // First pass: Import/update single products to build barcode->id map
       const productMap = new Map<string, string>()
+      // Alternate barcodes are saved once every product exists
+      const aliasesToProcess: Array<{ barcode: string; aliases: string }> = []
       const bundlesToProcess: Array<{
         barcode: string
         sku_code?: string
@@ -417,6 +495,11 @@ export default function Products() {
         const stockQuantity = Number(row['Stock Quantity']) || 0
         const components = row['Bundle Components'] || ''
 
+        // A blank cell keeps the product's current alternate barcodes
+        if (row['Alternate Barcodes']) {
+          aliasesToProcess.push({ barcode, aliases: String(row['Alternate Barcodes']) })
+        }
+
         // Check cache for existing product
         const existing = productCache.get(barcode)
 
@@ -447,7 +530,7 @@ export default function Products() {
                   name,
                   cost,
                   stock_quantity: stockQuantity,
-                })
+                }, 'import')
                 productCache.set(barcode, { ...existing, name, sku_code: skuCode || null, cost, stock_quantity: stockQuantity })
                 updated++
               } catch {
@@ -466,7 +549,7 @@ export default function Products() {
                 type: 'single',
                 cost,
                 stock_quantity: stockQuantity,
-              })
+              }, 'import')
               productMap.set(barcode, newProduct.$id)
               productCache.set(barcode, {
                 $id: newProduct.$id,
@@ -484,8 +567,36 @@ export default function Products() {
         }
       }
 
+      // Components of existing bundles outside the file, for cycle checks
+      const barcodeById = new Map([...productCache].map(([barcode, product]) => [product.$id, barcode]))
+      const fileBundles = new Set(bundlesToProcess.map((bundle) => bundle.barcode))
+      const existingComponents = new Map<string, string[]>()
+      const nestedBarcodes = bundlesToProcess.flatMap((bundle) =>
+        parseBundleComponents(bundle.components).map((component) => component.barcode)
+      )
+      while (nestedBarcodes.length > 0) {
+        const barcode = nestedBarcodes.pop()!
+        const product = productCache.get(barcode)
+        if (product?.type !== 'bundle' || fileBundles.has(barcode) || existingComponents.has(barcode)) {
+          continue
+        }
+        const components = await productComponentService.getByParentId(product.$id)
+        const children = components
+          .map((component) => barcodeById.get(component.child_product_id))
+          .filter((child): child is string => !!child)
+        existingComponents.set(barcode, children)
+        nestedBarcodes.push(...children)
+      }
+
+      // Nested bundles are saved first; bundles in a cycle are not saved
+      const { ordered, cycles } = orderImportedBundles(bundlesToProcess, existingComponents)
+      for (const { cycle } of cycles) {
+        failed++
+        toast.error(t('products.importBundleCycle', { cycle: cycle.join(' → ') }))
+      }
+
       // Second pass: Import/update bundles with components
-      for (const bundle of bundlesToProcess) {
+      for (const bundle of ordered) {
         try {
           let bundleId: string
 
@@ -506,7 +617,7 @@ export default function Products() {
                 name: bundle.name,
                 cost: bundle.cost,
                 stock_quantity: bundle.stock_quantity,
-              })
+              }, 'import')
             }
             bundleId = bundle.existingId
 
@@ -523,29 +634,23 @@ export default function Products() {
               type: 'bundle',
               cost: bundle.cost,
               stock_quantity: bundle.stock_quantity,
-            })
+            }, 'import')
             bundleId = newBundle.$id
             productMap.set(bundle.barcode, bundleId)
             imported++
           }
 
           // Add components with throttling
-          if (bundle.components) {
-            const componentParts = bundle.components.split(',')
-            for (const part of componentParts) {
-              const [componentBarcode, qtyStr] = part.trim().split(':')
-              if (componentBarcode) {
-                const componentId = productMap.get(componentBarcode.trim())
-
-                if (componentId) {
-                  await delay(API_DELAY)
-                  await productComponentService.create({
-                    parent_product_id: bundleId,
-                    child_product_id: componentId,
-                    quantity: parseInt(qtyStr) || 1,
-                  })
-                }
-              }
+          for (const component of parseBundleComponents(bundle.components)) {
+            const componentId = productMap.get(component.barcode)
+
+            if (componentId) {
+              await delay(API_DELAY)
+              await productComponentService.create({
+                parent_product_id: bundleId,
+                child_product_id: componentId,
+                quantity: component.quantity,
+              })
             }
           }
         } catch {
@@ -553,6 +658,18 @@ export default function Products() {
         }
       }
 
+      // Third pass: Replace alternate barcodes
+      for (const { barcode, aliases } of aliasesToProcess) {
+        const productId = productMap.get(barcode)
+        if (!productId) continue
+        try {
+          await delay(API_DELAY)
+          await productBarcodeService.replaceForProduct(productId, parseBarcodeAliases(aliases))
+        } catch {
+          failed++
+        }
+      }
+
       toast.success(t('products.importComplete', { imported, updated, skipped, failed }))
 
       // Refresh the products list
@@ -587,6 +704,16 @@ export default function Products() {
       setInitialBundleItems([])
     }
 
+    try {
+      const aliases = await productBarcodeService.getByProductId(product.$id)
+      setInitialBarcodeAliases(
+        aliases.map(({ barcode, pack_quantity }) => ({ barcode, pack_quantity }))
+      )
+    } catch (err) {
+      console.error('Error fetching alternate barcodes:', err)
+      setInitialBarcodeAliases([])
+    }
+
     setIsFormOpen(true)
   }
 
@@ -610,6 +737,7 @@ export default function Products() {
             cost: data.cost,
             stock_quantity: data.type === 'single' ? data.stock_quantity : 0,
             bundleItems: data.bundleItems,
+            barcodeAliases: data.barcodeAliases,
           },
         })
       } else {
@@ -622,12 +750,14 @@ export default function Products() {
           cost: data.cost,
           stock_quantity: data.type === 'single' ? data.stock_quantity : 0,
           bundleItems: data.bundleItems,
+          barcodeAliases: data.barcodeAliases,
         })
       }
 
       setIsFormOpen(false)
       setSelectedProduct(null)
       setInitialBundleItems([])
+      setInitialBarcodeAliases([])
     } catch (err) {
       const errorMessage =
         err instanceof Error ? err.message : 'Failed to save product'
@@ -654,6 +784,7 @@ export default function Products() {
     setIsFormOpen(false)
     setSelectedProduct(null)
     setInitialBundleItems([])
+    setInitialBarcodeAliases([])
   }
 
 
@@ -668,7 +799,7 @@ export default function Products() {
   const HIDDEN_ON_MOBILE = ['sku_code', 'stock_quantity', 'cost']
 
   // Define columns for React Table
-  const columns = useMemo<ColumnDef<Product>[]>(
+  const allColumns = useMemo<ColumnDef<Product>[]>(
     () => [
       {
         accessorKey: 'barcode',
@@ -783,7 +914,23 @@ export default function Products() {
         ),
         cell: ({ row }) => (
           <div className="text-right">
-            {row.original.type === 'bundle' ? '-' : (row.original.stock_quantity ?? 0)}
+            {row.original.type === 'bundle' ? (
+              <span
+                className="text-muted-foreground"
+                title={t('products.buildableHint')}
+              >
+                {buildableQuantities?.get(row.original.$id) ?? '-'}
+              </span>
+            ) : (
+              <button
+                type="button"
+                className="hover:underline"
+                onClick={() => setHistoryProduct(row.original)}
+                title={t('products.viewStockHistory')}
+              >
+                {row.original.stock_quantity ?? 0}
+              </button>
+            )}
           </div>
         ),
       },
@@ -836,7 +983,12 @@ export default function Products() {
         ),
       },
     ],
-    [t]
+    [t, buildableQuantities]
+  )
+
+  const columns = useMemo(
+    () => (canManageProducts ? allColumns : allColumns.filter((column) => column.id !== 'actions')),
+    [allColumns, canManageProducts]
   )
 
   const table = useReactTable({
@@ -914,27 +1066,45 @@ export default function Products() {
             onChange={handleImport}
             className="hidden"
           />
-          <Button
-            variant="outline"
-            onClick={handleDownloadTemplate}
-            disabled={isImporting || hasRunningImportJob}
-            title={t('common.template')}
-          >
-            <Download className="mr-2 size-4" />
-            {t('common.template')}
-          </Button>
-          <Button
-            variant="outline"
-            onClick={() => fileInputRef.current?.click()}
-            disabled={isImporting || hasRunningImportJob || isLoading}
+          {canManageProducts && (
+            <>
+              <Button
+                variant="outline"
+                onClick={handleDownloadTemplate}
+                disabled={isImporting || hasRunningImportJob}
+                title={t('common.template')}
+              >
+                <Download className="mr-2 size-4" />
+                {t('common.template')}
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isImporting || hasRunningImportJob || isLoading}
+              >
+                {isImporting || hasRunningImportJob ? (
+                  <Loader2 className="mr-2 size-4 animate-spin" />
+                ) : (
+                  <FileUp className="mr-2 size-4" />
+                )}
+                {t('common.import')}
+              </Button>
+            </>
+          )}
+          <Select
+            value={exportFormat}
+            onValueChange={(value) => setExportFormat(value as ProductExportFormat)}
+            disabled={isExporting || hasRunningExportJob}
           >
-            {isImporting || hasRunningImportJob ? (
-              <Loader2 className="mr-2 size-4 animate-spin" />
-            ) : (
-              <FileUp className="mr-2 size-4" />
-            )}
-            {t('common.import')}
-          </Button>
+            <SelectTrigger className="w-24" aria-label={t('products.exportFormat')}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="excel">Excel</SelectItem>
+              <SelectItem value="csv">CSV</SelectItem>
+              <SelectItem value="json">JSON</SelectItem>
+            </SelectContent>
+          </Select>
           <Button
             variant="outline"
             onClick={handleExport}
@@ -947,10 +1117,12 @@ export default function Products() {
             )}
             {t('common.export')}
           </Button>
-          <Button onClick={handleCreate}>
-            <Plus className="mr-2 size-4" />
-            {t('products.addProduct')}
-          </Button>
+          {canManageProducts && (
+            <Button onClick={handleCreate}>
+              <Plus className="mr-2 size-4" />
+              {t('products.addProduct')}
+            </Button>
+          )}
         </div>
       </div>
 
@@ -1147,6 +1319,7 @@ export default function Products() {
             key={selectedProduct?.$id ?? 'new'}
             product={selectedProduct}
             initialBundleItems={initialBundleItems}
+            initialBarcodeAliases={initialBarcodeAliases}
             onSubmit={handleFormSubmit}
             onCancel={handleFormCancel}
             isLoading={isSubmitting}
@@ -1154,6 +1327,11 @@ export default function Products() {
         </DialogContent>
       </Dialog>
 
+      <StockMovementsDialog
+        product={historyProduct}
+        onOpenChange={(open) => !open && setHistoryProduct(null)}
+      />
+
       <AlertDialog
         open={isDeleteDialogOpen}
         onOpenChange={setIsDeleteDialogOpen}
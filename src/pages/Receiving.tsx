@@ -0,0 +1,725 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { format } from 'date-fns'
+import { useTranslation } from 'react-i18next'
+import { toast } from 'sonner'
+import { Ban, Eye, Loader2, PackagePlus, Pencil, Trash2 } from 'lucide-react'
+import { useQuery } from '@tanstack/react-query'
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { Button } from '@/components/ui/button'
+import { DatePicker } from '@/components/ui/date-picker'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { useAuth } from '@/contexts/AuthContext'
+import {
+  useCreateReceiving,
+  useReceiving,
+  useReceivings,
+  useUpdateReceiving,
+  useVoidReceiving,
+} from '@/hooks/use-receiving'
+import { locationService } from '@/lib/appwrite/locations'
+import { productService } from '@/lib/appwrite/products'
+import { formatTime } from '@/lib/utils'
+
+/**
+ * Product line of a receiving being scanned or edited
+ */
+interface ReceivingLine {
+  barcode: string
+  name: string
+  quantity: number
+}
+
+function toLineInputs(lines: ReceivingLine[]) {
+  return lines.map((line) => ({ product_barcode: line.barcode, quantity: line.quantity }))
+}
+
+interface LineTableProps {
+  lines: ReceivingLine[]
+  disabled: boolean
+  onQuantityChange?: (barcode: string, quantity: number) => void
+  onRemove?: (barcode: string) => void
+}
+
+function LineTable({ lines, disabled, onQuantityChange, onRemove }: LineTableProps) {
+  const { t } = useTranslation()
+  const editable = !!onQuantityChange
+
+  return (
+    <Table className="min-w-[480px]">
+      <TableHeader className="bg-muted/50 sticky top-0 z-10">
+        <TableRow>
+          <TableHead className="w-12">#</TableHead>
+          <TableHead className="w-48">{t('packaging.productBarcode')}</TableHead>
+          <TableHead>{t('receiving.product')}</TableHead>
+          <TableHead className="w-32 text-right">{t('receiving.quantity')}</TableHead>
+          {onRemove && <TableHead className="w-16" />}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {lines.map((line, index) => (
+          <TableRow key={line.barcode}>
+            <TableCell className="text-muted-foreground">{index + 1}</TableCell>
+            <TableCell className="font-mono text-sm">{line.barcode}</TableCell>
+            <TableCell className="text-sm">{line.name}</TableCell>
+            <TableCell className="text-right">
+              {editable ? (
+                <Input
+                  type="number"
+                  min={1}
+                  value={line.quantity}
+                  onChange={(e) => onQuantityChange(line.barcode, Math.max(1, Math.floor(Number(e.target.value) || 1)))}
+                  disabled={disabled}
+                  aria-label={t('receiving.quantity')}
+                  className="ml-auto h-8 w-24 text-right"
+                />
+              ) : (
+                line.quantity
+              )}
+            </TableCell>
+            {onRemove && (
+              <TableCell>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="size-8"
+                  onClick={() => onRemove(line.barcode)}
+                  disabled={disabled}
+                  title={t('common.remove')}
+                >
+                  <Trash2 className="size-4" />
+                </Button>
+              </TableCell>
+            )}
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  )
+}
+
+export default function Receiving() {
+  const { t } = useTranslation()
+  const { hasRole } = useAuth()
+  const isSupervisor = hasRole('supervisor')
+
+  // Receiving date (only supervisors can receive into a past date)
+  const [selectedDate, setSelectedDate] = useState<Date>(new Date())
+
+  // Location the delivery goes to (falls back to the default location)
+  const { data: locations = [] } = useQuery({
+    queryKey: ['locations'],
+    queryFn: () => locationService.list(),
+  })
+  const [selectedLocationId, setSelectedLocationId] = useState<string | null>(null)
+  const selectedLocation = useMemo(
+    () =>
+      locations.find((location) => location.$id === selectedLocationId) ??
+      locations.find((location) => location.is_default) ??
+      locations[0] ??
+      null,
+    [locations, selectedLocationId]
+  )
+
+  // Delivery being received (set by the reference scan)
+  const [reference, setReference] = useState<string | null>(null)
+  const [lines, setLines] = useState<ReceivingLine[]>([])
+  const [notes, setNotes] = useState('')
+
+  // Input states
+  const [referenceInput, setReferenceInput] = useState('')
+  const [productInput, setProductInput] = useState('')
+
+  // Loading and dialog states
+  const [isScanning, setIsScanning] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [confirmOpen, setConfirmOpen] = useState(false)
+
+  // History and detail dialog
+  const [historyDate, setHistoryDate] = useState<Date>(new Date())
+  const [detailId, setDetailId] = useState<string | null>(null)
+  const [isEditing, setIsEditing] = useState(false)
+  const [editReference, setEditReference] = useState('')
+  const [editNotes, setEditNotes] = useState('')
+  const [editLines, setEditLines] = useState<ReceivingLine[]>([])
+  const [voidOpen, setVoidOpen] = useState(false)
+  const [voidReason, setVoidReason] = useState('')
+
+  const historyDateString = format(historyDate, 'yyyy-MM-dd')
+  const { data: history, isLoading: isHistoryLoading } = useReceivings({
+    startDate: historyDateString,
+    endDate: historyDateString,
+    limit: 100,
+  })
+  const { data: detail, isLoading: isDetailLoading } = useReceiving(detailId)
+
+  const createReceiving = useCreateReceiving()
+  const updateReceiving = useUpdateReceiving()
+  const voidReceiving = useVoidReceiving()
+  const isSubmitting = createReceiving.isPending
+  const isSaving = updateReceiving.isPending || voidReceiving.isPending
+
+  const referenceInputRef = useRef<HTMLInputElement>(null)
+  const productInputRef = useRef<HTMLInputElement>(null)
+
+  const totalQuantity = lines.reduce((sum, line) => sum + line.quantity, 0)
+
+  // Focus the correct input for the current step
+  useEffect(() => {
+    if (reference) {
+      productInputRef.current?.focus()
+    } else {
+      referenceInputRef.current?.focus()
+    }
+  }, [reference])
+
+  const resetState = useCallback(() => {
+    setReference(null)
+    setLines([])
+    setNotes('')
+    setReferenceInput('')
+    setProductInput('')
+    setError(null)
+  }, [])
+
+  const handleReferenceSubmit = useCallback(() => {
+    const value = referenceInput.trim()
+    if (!value) {
+      toast.error(t('receiving.enterReferenceError'))
+      return
+    }
+    setReference(value)
+    setError(null)
+  }, [referenceInput, t])
+
+  // Add the scanned product; case-pack barcodes add their pack quantity
+  const handleProductSubmit = useCallback(async () => {
+    const barcode = productInput.trim()
+    if (!barcode || !reference) return
+
+    try {
+      setIsScanning(true)
+      const resolved = await productService.resolveBarcode(barcode)
+      if (!resolved) {
+        toast.error(t('receiving.productNotFound', { barcode }))
+        return
+      }
+      if (resolved.product.type === 'bundle') {
+        toast.error(t('receiving.bundleNotAllowed', { name: resolved.product.name }))
+        return
+      }
+
+      const { product, packQuantity } = resolved
+      setLines((prev) => {
+        const existing = prev.find((line) => line.barcode === product.barcode)
+        if (existing) {
+          return prev.map((line) =>
+            line.barcode === product.barcode
+              ? { ...line, quantity: line.quantity + packQuantity }
+              : line
+          )
+        }
+        return [...prev, { barcode: product.barcode, name: product.name, quantity: packQuantity }]
+      })
+    } catch (err) {
+      console.error('Error looking up product:', err)
+      toast.error(t('receiving.lookupError'))
+    } finally {
+      setIsScanning(false)
+      setProductInput('')
+    }
+  }, [productInput, reference, t])
+
+  const handleConfirmReceive = async () => {
+    if (!reference || lines.length === 0) return
+
+    try {
+      setError(null)
+      await createReceiving.mutateAsync({
+        receiving_date: format(selectedDate, 'yyyy-MM-dd'),
+        reference_number: reference,
+        location_id: selectedLocation?.$id ?? null,
+        notes: notes.trim() || null,
+        items: toLineInputs(lines),
+      })
+      toast.success(t('receiving.receiveSuccess', { reference, count: totalQuantity }))
+      setConfirmOpen(false)
+      resetState()
+    } catch (err) {
+      console.error('Error receiving stock:', err)
+      setConfirmOpen(false)
+      setError(err instanceof Error ? err.message : t('receiving.receiveError'))
+    }
+  }
+
+  const handleReferenceKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault()
+      handleReferenceSubmit()
+    }
+  }
+
+  const handleProductKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault()
+      if (productInput.trim() === '' && lines.length > 0) {
+        setConfirmOpen(true)
+      } else {
+        handleProductSubmit()
+      }
+    } else if (e.key === 'Backspace' && productInput === '' && lines.length === 0) {
+      e.preventDefault()
+      resetState()
+    }
+  }
+
+  const openDetail = (recordId: string) => {
+    setDetailId(recordId)
+    setIsEditing(false)
+  }
+
+  const startEditing = () => {
+    if (!detail) return
+    setEditReference(detail.reference_number)
+    setEditNotes(detail.notes ?? '')
+    setEditLines(
+      detail.items.map((item) => ({
+        barcode: item.product_barcode,
+        name: item.product_name ?? item.product_barcode,
+        quantity: item.quantity,
+      }))
+    )
+    setIsEditing(true)
+  }
+
+  const handleSaveEdit = async () => {
+    if (!detail) return
+    if (editLines.length === 0) {
+      toast.error(t('receiving.emptyEditError'))
+      return
+    }
+
+    try {
+      await updateReceiving.mutateAsync({
+        id: detail.$id,
+        data: {
+          reference_number: editReference,
+          notes: editNotes.trim() || null,
+          items: toLineInputs(editLines),
+        },
+      })
+      toast.success(t('receiving.updateSuccess'))
+      setIsEditing(false)
+    } catch (err) {
+      console.error('Error updating receiving:', err)
+      toast.error(err instanceof Error ? err.message : t('receiving.updateError'))
+    }
+  }
+
+  const handleConfirmVoid = async () => {
+    if (!detail) return
+
+    try {
+      await voidReceiving.mutateAsync({ id: detail.$id, reason: voidReason })
+      toast.success(t('receiving.voidSuccess', { reference: detail.reference_number }))
+      setVoidOpen(false)
+      setVoidReason('')
+    } catch (err) {
+      console.error('Error voiding receiving:', err)
+      setVoidOpen(false)
+      toast.error(err instanceof Error ? err.message : t('receiving.voidError'))
+    }
+  }
+
+  return (
+    <div className="flex h-full flex-col gap-4 overflow-auto">
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <div>
+          <h1 className="text-2xl font-bold">{t('receiving.title')}</h1>
+          <p className="text-muted-foreground mt-1">{t('receiving.subtitle')}</p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          {locations.length > 1 && (
+            <Select
+              value={selectedLocation?.$id}
+              onValueChange={setSelectedLocationId}
+              disabled={isSubmitting || lines.length > 0}
+            >
+              <SelectTrigger className="w-[180px]" aria-label={t('packaging.location')}>
+                <SelectValue placeholder={t('packaging.selectLocation')} />
+              </SelectTrigger>
+              <SelectContent>
+                {locations.map((location) => (
+                  <SelectItem key={location.$id} value={location.$id}>
+                    {location.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <DatePicker
+            date={selectedDate}
+            onDateChange={(date) => date && setSelectedDate(date)}
+            disabled={isSubmitting || !isSupervisor}
+          />
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-destructive/10 text-destructive shrink-0 rounded-md p-3 text-sm">
+          {error}
+          <button className="ml-2 underline" onClick={() => setError(null)}>
+            {t('common.dismiss')}
+          </button>
+        </div>
+      )}
+
+      <div className="flex shrink-0 flex-col gap-2 sm:flex-row">
+        <Input
+          ref={referenceInputRef}
+          value={reference ?? referenceInput}
+          onChange={(e) => setReferenceInput(e.target.value)}
+          onKeyDown={handleReferenceKeyDown}
+          placeholder={t('receiving.scanReference')}
+          disabled={isSubmitting || !!reference}
+          autoComplete="off"
+          className="h-9 font-mono sm:max-w-xs"
+        />
+        <Input
+          ref={productInputRef}
+          value={productInput}
+          onChange={(e) => setProductInput(e.target.value)}
+          onKeyDown={handleProductKeyDown}
+          placeholder={reference ? t('packaging.scanProduct') : t('receiving.enterReferenceFirst')}
+          disabled={isSubmitting || isScanning || !reference}
+          autoComplete="off"
+          className="h-9 font-mono sm:max-w-xs"
+        />
+        {reference && (
+          <div className="flex gap-2">
+            <Button
+              onClick={() => setConfirmOpen(true)}
+              disabled={isSubmitting || lines.length === 0}
+            >
+              {isSubmitting ? (
+                <Loader2 className="mr-2 size-4 animate-spin" />
+              ) : (
+                <PackagePlus className="mr-2 size-4" />
+              )}
+              {t('receiving.confirmReceive')}
+            </Button>
+            <Button variant="ghost" onClick={resetState} disabled={isSubmitting}>
+              {t('common.cancel')}
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {reference ? (
+        <div className="flex min-h-[240px] flex-col gap-2">
+          <div className="text-muted-foreground flex flex-wrap gap-4 text-sm">
+            <span>
+              {t('receiving.products')}: <span className="text-foreground font-medium">{lines.length}</span>
+            </span>
+            <span>
+              {t('receiving.units')}: <span className="text-foreground font-medium">{totalQuantity}</span>
+            </span>
+          </div>
+          <Input
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder={t('receiving.notesPlaceholder')}
+            disabled={isSubmitting}
+            maxLength={1000}
+            className="h-9 sm:max-w-xl"
+          />
+          {lines.length > 0 ? (
+            <div className="max-h-[50vh] overflow-auto rounded-md border">
+              <LineTable
+                lines={lines}
+                disabled={isSubmitting}
+                onQuantityChange={(barcode, quantity) =>
+                  setLines((prev) => prev.map((line) => (line.barcode === barcode ? { ...line, quantity } : line)))
+                }
+                onRemove={(barcode) => setLines((prev) => prev.filter((line) => line.barcode !== barcode))}
+              />
+            </div>
+          ) : (
+            <div className="text-muted-foreground flex flex-1 items-center justify-center rounded-md border border-dashed text-sm">
+              {t('receiving.scanProducts')}
+            </div>
+          )}
+        </div>
+      ) : (
+        <div className="text-muted-foreground flex min-h-[160px] flex-col items-center justify-center gap-2 rounded-md border border-dashed text-sm">
+          <PackagePlus className="size-8" />
+          <span>{t('receiving.scanToStart')}</span>
+        </div>
+      )}
+
+      {/* Receiving history */}
+      <div className="flex flex-col gap-2">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <h2 className="text-lg font-semibold">{t('receiving.history')}</h2>
+          <DatePicker date={historyDate} onDateChange={(date) => date && setHistoryDate(date)} />
+        </div>
+        <div className="overflow-auto rounded-md border">
+          <Table className="min-w-[600px]">
+            <TableHeader className="bg-muted/50">
+              <TableRow>
+                <TableHead>{t('receiving.reference')}</TableHead>
+                <TableHead className="w-24">{t('common.time')}</TableHead>
+                <TableHead>{t('receiving.receivedBy')}</TableHead>
+                <TableHead className="w-28">{t('receiving.status')}</TableHead>
+                <TableHead className="w-16" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isHistoryLoading ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center">
+                    <Loader2 className="mx-auto size-4 animate-spin" />
+                  </TableCell>
+                </TableRow>
+              ) : !history || history.documents.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-muted-foreground text-center text-sm">
+                    {t('receiving.noReceivings')}
+                  </TableCell>
+                </TableRow>
+              ) : (
+                history.documents.map((record) => (
+                  <TableRow key={record.$id}>
+                    <TableCell className="font-mono text-sm">{record.reference_number}</TableCell>
+                    <TableCell className="text-muted-foreground text-sm">{formatTime(record.$createdAt)}</TableCell>
+                    <TableCell className="text-sm">{record.received_by_name ?? '-'}</TableCell>
+                    <TableCell>
+                      {record.status === 'voided' ? (
+                        <span className="bg-destructive/10 text-destructive inline-block rounded px-1.5 py-0.5 text-xs">
+                          {t('receiving.voided')}
+                        </span>
+                      ) : (
+                        <span className="bg-primary/10 text-primary inline-block rounded px-1.5 py-0.5 text-xs">
+                          {t('receiving.received')}
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="size-8"
+                        onClick={() => openDetail(record.$id)}
+                        title={t('receiving.viewDetails')}
+                      >
+                        <Eye className="size-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </div>
+
+      {/* Confirm Receive Dialog */}
+      <AlertDialog open={confirmOpen} onOpenChange={(open) => !isSubmitting && setConfirmOpen(open)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t('receiving.confirmTitle')}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t('receiving.confirmMessage', {
+                reference,
+                products: lines.length,
+                count: totalQuantity,
+                location: selectedLocation?.name ?? '-',
+              })}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isSubmitting}>{t('common.cancel')}</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault()
+                handleConfirmReceive()
+              }}
+              disabled={isSubmitting}
+            >
+              {isSubmitting && <Loader2 className="mr-2 size-4 animate-spin" />}
+              {t('receiving.confirmReceive')}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Receiving Detail Dialog */}
+      <Dialog open={detailId !== null} onOpenChange={(open) => !open && !isSaving && setDetailId(null)}>
+        <DialogContent className="sm:max-w-[720px]">
+          <DialogHeader>
+            <DialogTitle>{detail?.reference_number ?? t('receiving.details')}</DialogTitle>
+            <DialogDescription>
+              {detail &&
+                t('receiving.detailSummary', {
+                  date: detail.receiving_date,
+                  name: detail.received_by_name ?? '-',
+                })}
+            </DialogDescription>
+          </DialogHeader>
+
+          {isDetailLoading || !detail ? (
+            <Loader2 className="mx-auto size-6 animate-spin" />
+          ) : isEditing ? (
+            <div className="flex flex-col gap-3">
+              <div className="grid gap-2">
+                <Label htmlFor="receiving-reference">{t('receiving.reference')}</Label>
+                <Input
+                  id="receiving-reference"
+                  value={editReference}
+                  onChange={(e) => setEditReference(e.target.value)}
+                  disabled={isSaving}
+                  className="font-mono"
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="receiving-notes">{t('receiving.notes')}</Label>
+                <Input
+                  id="receiving-notes"
+                  value={editNotes}
+                  onChange={(e) => setEditNotes(e.target.value)}
+                  disabled={isSaving}
+                  maxLength={1000}
+                />
+              </div>
+              <div className="max-h-[40vh] overflow-auto rounded-md border">
+                <LineTable
+                  lines={editLines}
+                  disabled={isSaving}
+                  onQuantityChange={(barcode, quantity) =>
+                    setEditLines((prev) => prev.map((line) => (line.barcode === barcode ? { ...line, quantity } : line)))
+                  }
+                  onRemove={(barcode) => setEditLines((prev) => prev.filter((line) => line.barcode !== barcode))}
+                />
+              </div>
+            </div>
+          ) : (
+            <div className="flex flex-col gap-3">
+              {detail.status === 'voided' && (
+                <div className="bg-destructive/10 text-destructive rounded-md p-3 text-sm">
+                  {t('receiving.voidedNotice', { reason: detail.void_reason || '-' })}
+                </div>
+              )}
+              {detail.notes && (
+                <p className="text-sm">
+                  <span className="text-muted-foreground">{t('receiving.notes')}:</span> {detail.notes}
+                </p>
+              )}
+              <div className="max-h-[50vh] overflow-auto rounded-md border">
+                <LineTable
+                  lines={detail.items.map((item) => ({
+                    barcode: item.product_barcode,
+                    name: item.product_name ?? item.product_barcode,
+                    quantity: item.quantity,
+                  }))}
+                  disabled
+                />
+              </div>
+            </div>
+          )}
+
+          {detail && isSupervisor && detail.status === 'received' && (
+            <DialogFooter>
+              {isEditing ? (
+                <>
+                  <Button variant="ghost" onClick={() => setIsEditing(false)} disabled={isSaving}>
+                    {t('common.cancel')}
+                  </Button>
+                  <Button onClick={handleSaveEdit} disabled={isSaving}>
+                    {updateReceiving.isPending && <Loader2 className="mr-2 size-4 animate-spin" />}
+                    {t('common.save')}
+                  </Button>
+                </>
+              ) : (
+                <>
+                  <Button variant="outline" onClick={() => setVoidOpen(true)} disabled={isSaving}>
+                    <Ban className="mr-2 size-4" />
+                    {t('receiving.void')}
+                  </Button>
+                  <Button onClick={startEditing} disabled={isSaving}>
+                    <Pencil className="mr-2 size-4" />
+                    {t('common.edit')}
+                  </Button>
+                </>
+              )}
+            </DialogFooter>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Confirm Void Dialog */}
+      <AlertDialog open={voidOpen} onOpenChange={(open) => !voidReceiving.isPending && setVoidOpen(open)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t('receiving.voidTitle')}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t('receiving.voidMessage', { reference: detail?.reference_number })}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <Input
+            value={voidReason}
+            onChange={(e) => setVoidReason(e.target.value)}
+            placeholder={t('receiving.voidReasonPlaceholder')}
+            disabled={voidReceiving.isPending}
+            maxLength={500}
+          />
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={voidReceiving.isPending}>{t('common.cancel')}</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault()
+                handleConfirmVoid()
+              }}
+              disabled={voidReceiving.isPending}
+            >
+              {voidReceiving.isPending && <Loader2 className="mr-2 size-4 animate-spin" />}
+              {t('receiving.void')}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
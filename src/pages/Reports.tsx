@@ -2,7 +2,7 @@ import { useState } from 'react'
 import { format, formatDistanceToNow, startOfDay } from 'date-fns'
 import { useTranslation } from 'react-i18next'
 import { toast } from 'sonner'
-import { Download, FileSpreadsheet, FileText, Loader2, Mail, Send, Trash2, X } from 'lucide-react'
+import { Download, FileBraces, FileSpreadsheet, FileText, Loader2, Mail, PackagePlus, Send, Trash2, X } from 'lucide-react'
 
 import { Button } from '@/components/ui/button'
 import { Calendar } from '@/components/ui/calendar'
@@ -22,11 +22,50 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
 import { EmailRecipientInput } from '@/components/EmailRecipientInput'
+import { ReportSchedulesCard } from '@/components/reports/ReportSchedulesCard'
+import { ReportTemplatesCard } from '@/components/reports/ReportTemplatesCard'
 import { useAuth } from '@/contexts/AuthContext'
-import { useActiveJobs, useCompletedReportExports, useDeleteReportViaFunction, useDownloadExport, useQueueReportExport, useQueueSendReportEmail } from '@/hooks/use-jobs'
+import { useCouriers } from '@/hooks/use-couriers'
+import {
+  getJobExportFormat,
+  useCompletedReportExports,
+  useDeleteReportViaFunction,
+  useDownloadExport,
+  useQueueReceivingExport,
+  useQueueReportEmail,
+  useQueueReportExport,
+  useQueueSendReportEmail,
+} from '@/hooks/use-jobs'
+import { useReportTemplates } from '@/hooks/use-report-templates'
 import { cn } from '@/lib/utils'
-import type { ParsedJob } from '@/types/job'
+import type { ExportFormat, ParsedJob } from '@/types/job'
+import { EXPORT_FILE_TYPES } from '@/types/job'
+
+// Courier select value for reports across every courier
+const ALL_COURIERS = 'all'
+
+// Template select value for the standard report layout
+const STANDARD_TEMPLATE = 'standard'
+
+// Export format value that queues an Excel and a PDF report together
+const EXCEL_AND_PDF = 'excel-pdf'
+
+// Downloadable files of one batch of reports
+interface ReportGroupFiles {
+  excel: ParsedJob | null
+  pdf: ParsedJob | null
+  csv: ParsedJob | null
+  json: ParsedJob | null
+  receiving: ParsedJob | null
+}
 
 // Helper to format Date to YYYY-MM-DD string
 function formatDateToString(date: Date): string {
@@ -97,38 +136,45 @@ export default function Reports() {
   const [startDate, setStartDate] = useState<Date | undefined>(undefined)
   const [endDate, setEndDate] = useState<Date | undefined>(undefined)
   const [isExporting, setIsExporting] = useState(false)
+  const [courierFilter, setCourierFilter] = useState(ALL_COURIERS)
+  const [exportFormat, setExportFormat] = useState<ExportFormat | typeof EXCEL_AND_PDF>(EXCEL_AND_PDF)
+  const [templateFilter, setTemplateFilter] = useState(STANDARD_TEMPLATE)
+
+  const { data: couriers = [] } = useCouriers()
+  const { data: templates = [] } = useReportTemplates()
+  const templateId = templateFilter === STANDARD_TEMPLATE ? undefined : templateFilter
 
   // Email state
   const [emailingGroupKey, setEmailingGroupKey] = useState<string | null>(null)
   const [emailRecipients, setEmailRecipients] = useState<string[]>([])
+  const [exportEmailRecipients, setExportEmailRecipients] = useState<string[]>([])
+  const [exportEmailFormat, setExportEmailFormat] = useState<ExportFormat>('pdf')
 
   // Delete state
-  const [deleteGroup, setDeleteGroup] = useState<{
-    dateRange: string
-    excel: ParsedJob | null
-    pdf: ParsedJob | null
-  } | null>(null)
+  const [deleteGroup, setDeleteGroup] = useState<({ dateRange: string } & ReportGroupFiles) | null>(null)
   const [isDeleting, setIsDeleting] = useState(false)
 
   const today = startOfDay(new Date())
 
   // Async job hooks
   const queueReportExport = useQueueReportExport()
+  const queueReceivingExport = useQueueReceivingExport()
   const downloadExport = useDownloadExport()
   const queueSendReportEmail = useQueueSendReportEmail()
+  const queueReportEmail = useQueueReportEmail()
   const deleteReportViaFunction = useDeleteReportViaFunction()
-  const { data: activeJobs = [] } = useActiveJobs(user?.$id || '', !!user)
-  const hasActiveJobs = activeJobs.some(
-    (job) => job.status === 'pending' || job.status === 'processing'
-  )
   const { data: completedReports = [] } = useCompletedReportExports(
     user?.$id || '',
-    !!user,
-    hasActiveJobs
+    !!user
   )
 
   // Group completed reports by date range (filters field contains startDate and endDate)
   const getReportDateRange = (job: ParsedJob): string => {
+    // Stocktake reports are named after their stocktake
+    const stocktakeName = (job.filters as Record<string, string> | null)?.stocktakeName
+    if (stocktakeName) {
+      return stocktakeName
+    }
     if (job.filters) {
       const startDate = (job.filters as Record<string, string>).startDate
       const endDate = (job.filters as Record<string, string>).endDate
@@ -140,7 +186,15 @@ export default function Reports() {
     return format(new Date(job.created_at), 'yyyy-MM-dd')
   }
 
-  // Export both Excel and PDF
+  // Courier a report was filtered to (null for all couriers)
+  const getReportCourierId = (job: ParsedJob): string | null =>
+    (job.filters as Record<string, string | null> | null)?.courierId ?? null
+
+  // Template a report was laid out with (null for the standard report)
+  const getReportTemplateId = (job: ParsedJob): string | null =>
+    (job.filters as Record<string, string | null> | null)?.templateId ?? null
+
+  // Export in the chosen format, or both Excel and PDF
   const handleExport = async () => {
     if (!user || !startDate || !endDate) {
       toast.error(t('reports.selectDatesError'))
@@ -156,22 +210,21 @@ export default function Reports() {
       setIsExporting(true)
       const startDateStr = formatDateToString(startDate)
       const endDateStr = formatDateToString(endDate)
-
-      // Queue both Excel and PDF exports
-      await Promise.all([
-        queueReportExport.mutateAsync({
-          userId: user.$id,
-          startDate: startDateStr,
-          endDate: endDateStr,
-          format: 'excel',
-        }),
-        queueReportExport.mutateAsync({
-          userId: user.$id,
-          startDate: startDateStr,
-          endDate: endDateStr,
-          format: 'pdf',
-        }),
-      ])
+      const courierId = courierFilter === ALL_COURIERS ? undefined : courierFilter
+
+      const formats: ExportFormat[] = exportFormat === EXCEL_AND_PDF ? ['excel', 'pdf'] : [exportFormat]
+      await Promise.all(
+        formats.map((format) =>
+          queueReportExport.mutateAsync({
+            userId: user.$id,
+            startDate: startDateStr,
+            endDate: endDateStr,
+            format,
+            courierId,
+            templateId,
+          })
+        )
+      )
 
       toast.success(t('jobs.reportExportQueued'))
     } catch (err) {
@@ -182,17 +235,91 @@ export default function Reports() {
     }
   }
 
+  // Generate a report and email it once the file is ready, as one job
+  const handleExportEmail = async () => {
+    if (!user || !startDate || !endDate) {
+      toast.error(t('reports.selectDatesError'))
+      return
+    }
+
+    if (startDate > endDate) {
+      toast.error(t('reports.dateError'))
+      return
+    }
+
+    if (exportEmailRecipients.length === 0) {
+      toast.error(t('reports.addRecipientsError'))
+      return
+    }
+
+    try {
+      setIsExporting(true)
+      await queueReportEmail.mutateAsync({
+        userId: user.$id,
+        startDate: formatDateToString(startDate),
+        endDate: formatDateToString(endDate),
+        format: exportEmailFormat,
+        recipients: exportEmailRecipients,
+        courierId: courierFilter === ALL_COURIERS ? undefined : courierFilter,
+        templateId,
+      })
+
+      toast.success(t('reports.reportEmailQueued'))
+      setExportEmailRecipients([])
+    } catch (err) {
+      console.error('Error queuing report email:', err)
+      toast.error(t('reports.exportError'))
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  // Export goods received in the date range (Excel only)
+  const handleReceivingExport = async () => {
+    if (!user || !startDate || !endDate) {
+      toast.error(t('reports.selectDatesError'))
+      return
+    }
+
+    if (startDate > endDate) {
+      toast.error(t('reports.dateError'))
+      return
+    }
+
+    try {
+      setIsExporting(true)
+      await queueReceivingExport.mutateAsync({
+        userId: user.$id,
+        startDate: formatDateToString(startDate),
+        endDate: formatDateToString(endDate),
+      })
+
+      toast.success(t('jobs.reportExportQueued'))
+    } catch (err) {
+      console.error('Error queuing receiving export:', err)
+      toast.error(t('reports.exportError'))
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
   const handleDownload = async (job: ParsedJob) => {
     if (!job.result_file_id) return
 
     const dateRange = getReportDateRange(job)
-    const isPdf = job.action === 'export-reporting-pdf'
-    const ext = isPdf ? 'pdf' : 'xlsx'
-    const fileName = `packaging-report-${dateRange.replace(/ to /g, '-to-')}.${ext}`
+    const format = getJobExportFormat(job)
+    const ext = EXPORT_FILE_TYPES[format].extension
+    const prefix = job.action === 'export-reporting-receiving'
+      ? 'receiving-report'
+      : job.action.startsWith('export-reporting-stocktake')
+        ? 'stocktake-report'
+        : 'packaging-report'
+    const fileName = `${prefix}-${dateRange.replace(/ to /g, '-to-').replace(/[^\w.-]+/g, '-')}.${ext}`
 
     await downloadExport.mutateAsync({
       fileId: job.result_file_id,
       fileName,
+      format,
     })
   }
 
@@ -237,18 +364,10 @@ export default function Reports() {
       setIsDeleting(true)
 
       // Collect job IDs and file IDs to delete
-      const jobIds: string[] = []
-      const fileIds: (string | null)[] = []
-
-      if (deleteGroup.excel) {
-        jobIds.push(deleteGroup.excel.$id)
-        fileIds.push(deleteGroup.excel.result_file_id)
-      }
-
-      if (deleteGroup.pdf) {
-        jobIds.push(deleteGroup.pdf.$id)
-        fileIds.push(deleteGroup.pdf.result_file_id)
-      }
+      const jobs = [deleteGroup.excel, deleteGroup.pdf, deleteGroup.csv, deleteGroup.json, deleteGroup.receiving]
+        .filter((job): job is ParsedJob => job !== null)
+      const jobIds = jobs.map((job) => job.$id)
+      const fileIds = jobs.map((job) => job.result_file_id)
 
       // Delete via server-side function (uses API key to delete files)
       await deleteReportViaFunction.mutateAsync({ jobIds, fileIds })
@@ -265,27 +384,35 @@ export default function Reports() {
 
   const canExport = startDate && endDate && startDate <= endDate
 
-  // Group reports by date range + timestamp (within 1 minute = same batch)
+  // Group reports by date range + courier + template + timestamp (within 1 minute = same batch)
   const groupedReports = completedReports.reduce((acc, job) => {
     const dateRange = getReportDateRange(job)
+    const courierId = getReportCourierId(job)
+    const templateId = getReportTemplateId(job)
     const createdTime = new Date(job.created_at).getTime()
     // Round to nearest minute to group reports generated together
     const timestampKey = Math.floor(createdTime / 60000)
-    const groupKey = `${dateRange}_${timestampKey}`
+    const groupKey = `${dateRange}_${courierId ?? ALL_COURIERS}_${templateId ?? STANDARD_TEMPLATE}_${timestampKey}`
 
     if (!acc[groupKey]) {
       acc[groupKey] = {
         dateRange,
+        courierId,
+        templateId,
         createdAt: job.created_at,
-        excel: null as ParsedJob | null,
-        pdf: null as ParsedJob | null,
+        excel: null,
+        pdf: null,
+        csv: null,
+        json: null,
+        receiving: null,
       }
     }
 
-    if (job.action === 'export-reporting-excel') {
-      acc[groupKey].excel = job
-    } else if (job.action === 'export-reporting-pdf') {
-      acc[groupKey].pdf = job
+    if (job.action === 'export-reporting-receiving') {
+      acc[groupKey].receiving = job
+    } else {
+      // Reports fill the slot of their format, generated-and-emailed ones included
+      acc[groupKey][getJobExportFormat(job)] = job
     }
 
     // Keep the earliest created_at for the group
@@ -294,7 +421,10 @@ export default function Reports() {
     }
 
     return acc
-  }, {} as Record<string, { dateRange: string; createdAt: string; excel: ParsedJob | null; pdf: ParsedJob | null }>)
+  }, {} as Record<
+    string,
+    { dateRange: string; courierId: string | null; templateId: string | null; createdAt: string } & ReportGroupFiles
+  >)
 
   // Sort groups by creation time (newest first)
   const sortedGroups = Object.values(groupedReports).sort(
@@ -311,59 +441,169 @@ export default function Reports() {
       </div>
 
       <div className="grid min-h-0 flex-1 grid-cols-1 gap-4 lg:grid-cols-2">
-        {/* Left: Export Form */}
-        <Card className="flex flex-col">
-          <CardHeader className="shrink-0">
-            <CardTitle>{t('reports.packagingReport')}</CardTitle>
-            <CardDescription>
-              {t('reports.exportDescription')}
-            </CardDescription>
-          </CardHeader>
-          <CardContent className="space-y-4 sm:space-y-6">
-            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 sm:gap-6">
-              <DatePickerField
-                label={t('reports.startDate')}
-                date={startDate}
-                onDateChange={setStartDate}
-                disabled={isExporting}
-                maxDate={endDate || today}
-                pickDateText={t('reports.pickDate')}
-              />
-              <DatePickerField
-                label={t('reports.endDate')}
-                date={endDate}
-                onDateChange={setEndDate}
-                disabled={isExporting}
-                maxDate={today}
-                pickDateText={t('reports.pickDate')}
-              />
-            </div>
-
-            <Button
-              onClick={handleExport}
-              disabled={!canExport || isExporting}
-              className="w-full"
-            >
-              {isExporting ? (
-                <>
-                  <Loader2 className="size-4 animate-spin" />
-                  {t('reports.exporting')}
-                </>
-              ) : (
-                <>
-                  <Download className="size-4" />
-                  {t('common.export')}
-                </>
+        {/* Left: Export Form and Scheduled Reports */}
+        <div className="flex min-h-0 flex-col gap-4 overflow-auto">
+          <Card className="flex flex-col">
+            <CardHeader className="shrink-0">
+              <CardTitle>{t('reports.packagingReport')}</CardTitle>
+              <CardDescription>
+                {t('reports.exportDescription')}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4 sm:space-y-6">
+              <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 sm:gap-6">
+                <DatePickerField
+                  label={t('reports.startDate')}
+                  date={startDate}
+                  onDateChange={setStartDate}
+                  disabled={isExporting}
+                  maxDate={endDate || today}
+                  pickDateText={t('reports.pickDate')}
+                />
+                <DatePickerField
+                  label={t('reports.endDate')}
+                  date={endDate}
+                  onDateChange={setEndDate}
+                  disabled={isExporting}
+                  maxDate={today}
+                  pickDateText={t('reports.pickDate')}
+                />
+              </div>
+
+              {couriers.length > 0 && (
+                <div className="flex flex-col gap-2">
+                  <label className="text-sm font-medium">{t('reports.courier')}</label>
+                  <Select value={courierFilter} onValueChange={setCourierFilter} disabled={isExporting}>
+                    <SelectTrigger className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL_COURIERS}>{t('reports.allCouriers')}</SelectItem>
+                      {couriers.map((courier) => (
+                        <SelectItem key={courier.$id} value={courier.$id}>
+                          {courier.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
               )}
-            </Button>
 
-            {startDate && endDate && startDate > endDate && (
-              <p className="text-destructive text-sm">
-                {t('reports.dateError')}
-              </p>
-            )}
-          </CardContent>
-        </Card>
+              {templates.length > 0 && (
+                <div className="flex flex-col gap-2">
+                  <label className="text-sm font-medium">{t('reports.template')}</label>
+                  <Select value={templateFilter} onValueChange={setTemplateFilter} disabled={isExporting}>
+                    <SelectTrigger className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={STANDARD_TEMPLATE}>{t('reports.standardTemplate')}</SelectItem>
+                      {templates.map((template) => (
+                        <SelectItem key={template.$id} value={template.$id}>
+                          {template.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              <div className="flex flex-col gap-2">
+                <label className="text-sm font-medium">{t('reports.format')}</label>
+                <Select
+                  value={exportFormat}
+                  onValueChange={(value) => setExportFormat(value as ExportFormat | typeof EXCEL_AND_PDF)}
+                  disabled={isExporting}
+                >
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={EXCEL_AND_PDF}>{t('reports.excelAndPdf')}</SelectItem>
+                    <SelectItem value="excel">Excel</SelectItem>
+                    <SelectItem value="pdf">PDF</SelectItem>
+                    <SelectItem value="csv">CSV</SelectItem>
+                    <SelectItem value="json">JSON</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <Button
+                onClick={handleExport}
+                disabled={!canExport || isExporting}
+                className="w-full"
+              >
+                {isExporting ? (
+                  <>
+                    <Loader2 className="size-4 animate-spin" />
+                    {t('reports.exporting')}
+                  </>
+                ) : (
+                  <>
+                    <Download className="size-4" />
+                    {t('common.export')}
+                  </>
+                )}
+              </Button>
+
+              <Button
+                variant="outline"
+                onClick={handleReceivingExport}
+                disabled={!canExport || isExporting}
+                className="w-full"
+              >
+                <PackagePlus className="size-4" />
+                {t('reports.exportReceivings')}
+              </Button>
+
+              <div className="space-y-2 border-t pt-4">
+                <label className="text-sm font-medium">{t('reports.emailWhenReady')}</label>
+                <EmailRecipientInput
+                  recipients={exportEmailRecipients}
+                  onChange={setExportEmailRecipients}
+                  placeholder={t('reports.emailPlaceholder')}
+                  disabled={isExporting}
+                />
+                <div className="flex gap-2">
+                  <Select
+                    value={exportEmailFormat}
+                    onValueChange={(value) => setExportEmailFormat(value as ExportFormat)}
+                    disabled={isExporting}
+                  >
+                    <SelectTrigger className="w-28">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="pdf">PDF</SelectItem>
+                      <SelectItem value="excel">Excel</SelectItem>
+                      <SelectItem value="csv">CSV</SelectItem>
+                      <SelectItem value="json">JSON</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="outline"
+                    onClick={handleExportEmail}
+                    disabled={!canExport || isExporting || exportEmailRecipients.length === 0}
+                    className="flex-1"
+                  >
+                    <Send className="size-4" />
+                    {t('reports.exportAndEmail')}
+                  </Button>
+                </div>
+              </div>
+
+              {startDate && endDate && startDate > endDate && (
+                <p className="text-destructive text-sm">
+                  {t('reports.dateError')}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          <ReportTemplatesCard />
+
+          <ReportSchedulesCard />
+        </div>
 
         {/* Right: Completed Reports */}
         <Card className="flex min-h-0 flex-col">
@@ -381,10 +621,18 @@ export default function Reports() {
             ) : (
               <div className="space-y-3">
                 {sortedGroups.map((group) => {
-                  const groupKey = `${group.dateRange}_${group.createdAt}`
+                  const groupKey =
+                    `${group.dateRange}_${group.courierId ?? ALL_COURIERS}_${group.templateId ?? STANDARD_TEMPLATE}_${group.createdAt}`
+                  const groupCourier = group.courierId
+                    ? couriers.find((courier) => courier.$id === group.courierId)?.name ?? t('reports.unknownCourier')
+                    : null
+                  const groupTemplate = group.templateId
+                    ? templates.find((template) => template.$id === group.templateId)?.name ?? t('reports.unknownTemplate')
+                    : null
                   const isEmailingThisGroup = emailingGroupKey === groupKey
-                  // Prefer PDF for email, fallback to Excel
-                  const emailFileId = group.pdf?.result_file_id || group.excel?.result_file_id
+                  // Prefer PDF for email, fallback to Excel, then the data formats
+                  const emailFileId = group.pdf?.result_file_id || group.excel?.result_file_id ||
+                    group.csv?.result_file_id || group.json?.result_file_id || group.receiving?.result_file_id
 
                   return (
                     <div
@@ -393,7 +641,11 @@ export default function Reports() {
                     >
                       <div className="flex items-center justify-between gap-4">
                         <div className="flex-1 min-w-0">
-                          <p className="font-medium truncate">{group.dateRange}</p>
+                          <p className="font-medium truncate">
+                            {group.dateRange}
+                            {groupCourier && <span className="text-muted-foreground font-normal"> · {groupCourier}</span>}
+                            {groupTemplate && <span className="text-muted-foreground font-normal"> · {groupTemplate}</span>}
+                          </p>
                           <p className="text-xs text-muted-foreground">
                             {format(new Date(group.createdAt), 'MMM d, yyyy, h:mm a')} — Generated {formatDistanceToNow(new Date(group.createdAt))} ago
                           </p>
@@ -422,6 +674,39 @@ export default function Reports() {
                               <FileText className="size-5 text-red-600" />
                             </Button>
                           )}
+                          {group.csv && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => handleDownload(group.csv!)}
+                              disabled={downloadExport.isPending}
+                              title={t('reports.downloadCsv')}
+                            >
+                              <FileSpreadsheet className="size-5 text-sky-600" />
+                            </Button>
+                          )}
+                          {group.json && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => handleDownload(group.json!)}
+                              disabled={downloadExport.isPending}
+                              title={t('reports.downloadJson')}
+                            >
+                              <FileBraces className="size-5 text-violet-600" />
+                            </Button>
+                          )}
+                          {group.receiving && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => handleDownload(group.receiving!)}
+                              disabled={downloadExport.isPending}
+                              title={t('reports.downloadReceiving')}
+                            >
+                              <PackagePlus className="size-5 text-amber-600" />
+                            </Button>
+                          )}
                           {emailFileId && (
                             <Button
                               variant="ghost"
@@ -441,6 +726,9 @@ export default function Reports() {
                               dateRange: group.dateRange,
                               excel: group.excel,
                               pdf: group.pdf,
+                              csv: group.csv,
+                              json: group.json,
+                              receiving: group.receiving,
                             })}
                             disabled={isDeleting}
                             title={t('reports.deleteReport')}
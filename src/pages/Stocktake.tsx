@@ -0,0 +1,828 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { toast } from 'sonner'
+import {
+  ArrowLeft,
+  Ban,
+  CheckCircle,
+  ClipboardList,
+  Download,
+  Eye,
+  FileText,
+  Loader2,
+  Plus,
+  Save,
+} from 'lucide-react'
+import { useQuery } from '@tanstack/react-query'
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { useAuth } from '@/contexts/AuthContext'
+import { useQueueStocktakeExport } from '@/hooks/use-jobs'
+import {
+  useApproveStocktake,
+  useCancelStocktake,
+  useCreateStocktake,
+  useSaveStocktakeCounts,
+  useStocktake,
+  useStocktakes,
+} from '@/hooks/use-stocktakes'
+import { locationService } from '@/lib/appwrite/locations'
+import { productService } from '@/lib/appwrite/products'
+import { getStocktakeVariance, summarizeStocktake } from '@/lib/appwrite/stocktakes'
+import { formatDateTime } from '@/lib/utils'
+import type { StocktakeReasonCode, StocktakeStatus } from '@/types/stocktake'
+import { STOCKTAKE_REASON_CODES } from '@/types/stocktake'
+
+type ItemFilter = 'all' | 'uncounted' | 'counted' | 'variance'
+
+// Most rows rendered at once; narrow the list with the search box
+const MAX_VISIBLE_ROWS = 500
+
+function StatusBadge({ status }: { status: StocktakeStatus }) {
+  const { t } = useTranslation()
+  const className =
+    status === 'approved'
+      ? 'bg-primary/10 text-primary'
+      : status === 'cancelled'
+        ? 'bg-destructive/10 text-destructive'
+        : 'bg-amber-500/10 text-amber-600'
+
+  return (
+    <span className={`inline-block rounded px-1.5 py-0.5 text-xs ${className}`}>
+      {t(`stocktake.statuses.${status}`)}
+    </span>
+  )
+}
+
+function formatVariance(variance: number | null) {
+  if (variance === null) return '-'
+  return variance > 0 ? `+${variance}` : String(variance)
+}
+
+export default function Stocktake() {
+  const { t } = useTranslation()
+  const { user, hasRole } = useAuth()
+  const isSupervisor = hasRole('supervisor')
+
+  const { data: locations = [] } = useQuery({
+    queryKey: ['locations'],
+    queryFn: () => locationService.list(),
+  })
+  const defaultLocation = locations.find((location) => location.is_default) ?? locations[0] ?? null
+  const getLocationName = (locationId: string | null) =>
+    (locationId ? locations.find((location) => location.$id === locationId) : defaultLocation)?.name ?? '-'
+
+  // Stocktake being counted or reviewed
+  const [activeId, setActiveId] = useState<string | null>(null)
+  const { data: stocktakes, isLoading: isListLoading } = useStocktakes({ limit: 50 })
+  const { data: stocktake, isLoading: isStocktakeLoading } = useStocktake(activeId)
+
+  // Counts entered since the last save, keyed by barcode (null clears a count)
+  const [drafts, setDrafts] = useState<Record<string, number | null>>({})
+  const [productInput, setProductInput] = useState('')
+  const [isScanning, setIsScanning] = useState(false)
+  const [search, setSearch] = useState('')
+  const [filter, setFilter] = useState<ItemFilter>('all')
+
+  // New stocktake dialog
+  const [createOpen, setCreateOpen] = useState(false)
+  const [newName, setNewName] = useState('')
+  const [newLocationId, setNewLocationId] = useState<string | null>(null)
+  const [newSearch, setNewSearch] = useState('')
+  const [newBlind, setNewBlind] = useState(false)
+
+  // Approve and cancel dialogs
+  const [approveOpen, setApproveOpen] = useState(false)
+  const [reasonCode, setReasonCode] = useState<StocktakeReasonCode>('cycle_count')
+  const [approveNotes, setApproveNotes] = useState('')
+  const [cancelOpen, setCancelOpen] = useState(false)
+
+  const createStocktake = useCreateStocktake()
+  const saveCounts = useSaveStocktakeCounts()
+  const approveStocktake = useApproveStocktake()
+  const cancelStocktake = useCancelStocktake()
+  const queueStocktakeExport = useQueueStocktakeExport()
+
+  const productInputRef = useRef<HTMLInputElement>(null)
+
+  const isCounting = stocktake?.status === 'counting'
+  // Blind counts hide system quantities from counters until the stocktake is closed
+  const showSystem = !!stocktake && (!stocktake.blind || !isCounting || isSupervisor)
+
+  // Items with unsaved counts applied
+  const items = useMemo(
+    () =>
+      (stocktake?.items ?? []).map((item) =>
+        item.product_barcode in drafts ? { ...item, counted_quantity: drafts[item.product_barcode] } : item
+      ),
+    [stocktake, drafts]
+  )
+  const summary = useMemo(() => summarizeStocktake(items), [items])
+
+  const unsavedCounts = useMemo(
+    () =>
+      (stocktake?.items ?? [])
+        .filter((item) => item.product_barcode in drafts && drafts[item.product_barcode] !== item.counted_quantity)
+        .map((item) => ({ product_barcode: item.product_barcode, counted_quantity: drafts[item.product_barcode] })),
+    [stocktake, drafts]
+  )
+
+  const filteredItems = useMemo(() => {
+    const term = search.trim().toLowerCase()
+    return items.filter((item) => {
+      if (
+        term &&
+        !item.product_barcode.toLowerCase().includes(term) &&
+        !(item.product_name ?? '').toLowerCase().includes(term)
+      ) {
+        return false
+      }
+      const variance = getStocktakeVariance(item)
+      if (filter === 'uncounted') return variance === null
+      if (filter === 'counted') return variance !== null
+      if (filter === 'variance') return variance !== null && variance !== 0
+      return true
+    })
+  }, [items, search, filter])
+
+  // Start each stocktake with no unsaved counts
+  useEffect(() => {
+    setDrafts({})
+    setSearch('')
+    setFilter('all')
+  }, [activeId])
+
+  useEffect(() => {
+    if (isCounting) {
+      productInputRef.current?.focus()
+    }
+  }, [isCounting])
+
+  const setCount = (barcode: string, quantity: number | null) => {
+    setDrafts((prev) => ({ ...prev, [barcode]: quantity }))
+  }
+
+  // Each scan adds one (or a case-pack quantity) to the product's count
+  const handleProductSubmit = useCallback(async () => {
+    const barcode = productInput.trim()
+    if (!barcode || !stocktake) return
+
+    try {
+      setIsScanning(true)
+      const resolved = await productService.resolveBarcode(barcode)
+      const item = resolved && stocktake.items.find((entry) => entry.product_id === resolved.product.$id)
+      if (!resolved || !item) {
+        toast.error(t('stocktake.notInStocktake', { barcode }))
+        return
+      }
+
+      setDrafts((prev) => {
+        const current =
+          item.product_barcode in prev ? prev[item.product_barcode] : item.counted_quantity
+        return { ...prev, [item.product_barcode]: (current ?? 0) + resolved.packQuantity }
+      })
+    } catch (err) {
+      console.error('Error looking up product:', err)
+      toast.error(t('stocktake.lookupError'))
+    } finally {
+      setIsScanning(false)
+      setProductInput('')
+    }
+  }, [productInput, stocktake, t])
+
+  const handleProductKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault()
+      handleProductSubmit()
+    }
+  }
+
+  const handleSaveCounts = async () => {
+    if (!stocktake || unsavedCounts.length === 0) return
+
+    try {
+      await saveCounts.mutateAsync({ id: stocktake.$id, counts: unsavedCounts })
+      setDrafts({})
+      toast.success(t('stocktake.saveSuccess', { count: unsavedCounts.length }))
+    } catch (err) {
+      console.error('Error saving counts:', err)
+      toast.error(err instanceof Error ? err.message : t('stocktake.saveError'))
+    }
+  }
+
+  const openCreate = () => {
+    setNewName('')
+    setNewLocationId(defaultLocation?.$id ?? null)
+    setNewSearch('')
+    setNewBlind(false)
+    setCreateOpen(true)
+  }
+
+  const handleCreate = async () => {
+    if (!newName.trim()) {
+      toast.error(t('stocktake.nameRequired'))
+      return
+    }
+
+    try {
+      const created = await createStocktake.mutateAsync({
+        name: newName,
+        location_id: newLocationId,
+        blind: newBlind,
+        filters: { search: newSearch },
+      })
+      toast.success(t('stocktake.createSuccess', { name: created.name, count: created.item_count }))
+      setCreateOpen(false)
+      setActiveId(created.$id)
+    } catch (err) {
+      console.error('Error creating stocktake:', err)
+      toast.error(err instanceof Error ? err.message : t('stocktake.createError'))
+    }
+  }
+
+  const handleApprove = async () => {
+    if (!stocktake) return
+
+    try {
+      await approveStocktake.mutateAsync({ id: stocktake.$id, reasonCode, notes: approveNotes })
+      toast.success(t('stocktake.approveSuccess', { name: stocktake.name, count: summary.withVariance }))
+      setApproveOpen(false)
+      setApproveNotes('')
+    } catch (err) {
+      console.error('Error approving stocktake:', err)
+      setApproveOpen(false)
+      toast.error(err instanceof Error ? err.message : t('stocktake.approveError'))
+    }
+  }
+
+  const handleCancel = async () => {
+    if (!stocktake) return
+
+    try {
+      await cancelStocktake.mutateAsync({ id: stocktake.$id })
+      setDrafts({})
+      toast.success(t('stocktake.cancelSuccess', { name: stocktake.name }))
+      setCancelOpen(false)
+    } catch (err) {
+      console.error('Error cancelling stocktake:', err)
+      setCancelOpen(false)
+      toast.error(err instanceof Error ? err.message : t('stocktake.cancelError'))
+    }
+  }
+
+  const handleExport = async (format: 'excel' | 'pdf') => {
+    if (!stocktake || !user) return
+
+    try {
+      await queueStocktakeExport.mutateAsync({
+        userId: user.$id,
+        stocktakeId: stocktake.$id,
+        stocktakeName: stocktake.name,
+        format,
+      })
+      toast.success(t('jobs.reportExportQueued'))
+    } catch (err) {
+      console.error('Error queueing stocktake export:', err)
+      toast.error(t('reports.exportError'))
+    }
+  }
+
+  const isBusy = saveCounts.isPending || approveStocktake.isPending || cancelStocktake.isPending
+
+  if (activeId) {
+    return (
+      <div className="flex h-full flex-col gap-4 overflow-auto">
+        <div className="flex flex-wrap items-start justify-between gap-2">
+          <div className="flex items-start gap-2">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setActiveId(null)}
+              disabled={isBusy}
+              title={t('stocktake.backToList')}
+            >
+              <ArrowLeft className="size-4" />
+            </Button>
+            <div>
+              <h1 className="flex flex-wrap items-center gap-2 text-2xl font-bold">
+                {stocktake?.name ?? t('stocktake.title')}
+                {stocktake && <StatusBadge status={stocktake.status} />}
+              </h1>
+              {stocktake && (
+                <p className="text-muted-foreground mt-1 text-sm">
+                  {t('stocktake.sessionSummary', {
+                    location: getLocationName(stocktake.location_id),
+                    name: stocktake.created_by_name ?? '-',
+                    date: formatDateTime(stocktake.$createdAt),
+                  })}
+                  {stocktake.blind && ` · ${t('stocktake.blindCount')}`}
+                </p>
+              )}
+            </div>
+          </div>
+          {stocktake && isSupervisor && (
+            <div className="flex flex-wrap gap-2">
+              <Button
+                variant="outline"
+                onClick={() => handleExport('excel')}
+                disabled={queueStocktakeExport.isPending}
+              >
+                <Download className="mr-2 size-4" />
+                {t('reports.exportExcel')}
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => handleExport('pdf')}
+                disabled={queueStocktakeExport.isPending}
+              >
+                <FileText className="mr-2 size-4" />
+                {t('reports.exportPdf')}
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {isStocktakeLoading || !stocktake ? (
+          <Loader2 className="mx-auto size-6 animate-spin" />
+        ) : (
+          <>
+            {stocktake.status !== 'counting' && (
+              <div className="bg-muted rounded-md p-3 text-sm">
+                {stocktake.status === 'approved'
+                  ? t('stocktake.approvedNotice', {
+                      name: stocktake.closed_by_name ?? '-',
+                      reason: stocktake.reason_code ? t(`stocktake.reasons.${stocktake.reason_code}`) : '-',
+                    })
+                  : t('stocktake.cancelledNotice', { name: stocktake.closed_by_name ?? '-' })}
+                {stocktake.notes && ` · ${stocktake.notes}`}
+              </div>
+            )}
+
+            <div className="text-muted-foreground flex flex-wrap gap-4 text-sm">
+              <span>
+                {t('stocktake.products')}: <span className="text-foreground font-medium">{summary.total}</span>
+              </span>
+              <span>
+                {t('stocktake.counted')}: <span className="text-foreground font-medium">{summary.counted}</span>
+              </span>
+              <span>
+                {t('stocktake.uncounted')}: <span className="text-foreground font-medium">{summary.uncounted}</span>
+              </span>
+              {showSystem && (
+                <>
+                  <span>
+                    {t('stocktake.withVariance')}:{' '}
+                    <span className="text-foreground font-medium">{summary.withVariance}</span>
+                  </span>
+                  <span>
+                    {t('stocktake.unitsOver')}: <span className="font-medium text-green-600">+{summary.unitsOver}</span>
+                  </span>
+                  <span>
+                    {t('stocktake.unitsShort')}:{' '}
+                    <span className="text-destructive font-medium">-{summary.unitsShort}</span>
+                  </span>
+                  <span>
+                    {t('stocktake.varianceValue')}:{' '}
+                    <span className="text-foreground font-medium">{summary.varianceValue.toFixed(2)}</span>
+                  </span>
+                </>
+              )}
+            </div>
+
+            <div className="flex shrink-0 flex-col gap-2 sm:flex-row">
+              {isCounting && (
+                <Input
+                  ref={productInputRef}
+                  value={productInput}
+                  onChange={(e) => setProductInput(e.target.value)}
+                  onKeyDown={handleProductKeyDown}
+                  placeholder={t('packaging.scanProduct')}
+                  disabled={isBusy || isScanning}
+                  autoComplete="off"
+                  className="h-9 font-mono sm:max-w-xs"
+                />
+              )}
+              <Input
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder={t('stocktake.searchPlaceholder')}
+                className="h-9 sm:max-w-xs"
+              />
+              <Select value={filter} onValueChange={(value) => setFilter(value as ItemFilter)}>
+                <SelectTrigger className="w-[160px]" aria-label={t('stocktake.filter')}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">{t('stocktake.filters.all')}</SelectItem>
+                  <SelectItem value="uncounted">{t('stocktake.filters.uncounted')}</SelectItem>
+                  <SelectItem value="counted">{t('stocktake.filters.counted')}</SelectItem>
+                  {showSystem && <SelectItem value="variance">{t('stocktake.filters.variance')}</SelectItem>}
+                </SelectContent>
+              </Select>
+              {isCounting && (
+                <div className="flex flex-wrap gap-2 sm:ml-auto">
+                  <Button onClick={handleSaveCounts} disabled={isBusy || unsavedCounts.length === 0}>
+                    {saveCounts.isPending ? (
+                      <Loader2 className="mr-2 size-4 animate-spin" />
+                    ) : (
+                      <Save className="mr-2 size-4" />
+                    )}
+                    {unsavedCounts.length > 0
+                      ? t('stocktake.saveCountsPending', { count: unsavedCounts.length })
+                      : t('stocktake.saveCounts')}
+                  </Button>
+                  {isSupervisor && (
+                    <>
+                      <Button
+                        variant="outline"
+                        onClick={() => setApproveOpen(true)}
+                        disabled={isBusy || unsavedCounts.length > 0 || summary.counted === 0}
+                        title={unsavedCounts.length > 0 ? t('stocktake.saveBeforeApprove') : undefined}
+                      >
+                        <CheckCircle className="mr-2 size-4" />
+                        {t('stocktake.approve')}
+                      </Button>
+                      <Button variant="ghost" onClick={() => setCancelOpen(true)} disabled={isBusy}>
+                        <Ban className="mr-2 size-4" />
+                        {t('stocktake.cancelStocktake')}
+                      </Button>
+                    </>
+                  )}
+                </div>
+              )}
+            </div>
+
+            <div className="max-h-[60vh] overflow-auto rounded-md border">
+              <Table className="min-w-[560px]">
+                <TableHeader className="bg-muted/50 sticky top-0 z-10">
+                  <TableRow>
+                    <TableHead className="w-12">#</TableHead>
+                    <TableHead className="w-48">{t('packaging.productBarcode')}</TableHead>
+                    <TableHead>{t('stocktake.product')}</TableHead>
+                    {showSystem && <TableHead className="w-24 text-right">{t('stocktake.system')}</TableHead>}
+                    <TableHead className="w-32 text-right">{t('stocktake.counted')}</TableHead>
+                    {showSystem && <TableHead className="w-24 text-right">{t('stocktake.variance')}</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredItems.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={showSystem ? 6 : 4} className="text-muted-foreground text-center text-sm">
+                        {t('stocktake.noItems')}
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    filteredItems.slice(0, MAX_VISIBLE_ROWS).map((item, index) => {
+                      const variance = getStocktakeVariance(item)
+                      const isUnsaved = unsavedCounts.some((count) => count.product_barcode === item.product_barcode)
+
+                      return (
+                        <TableRow key={item.$id}>
+                          <TableCell className="text-muted-foreground">{index + 1}</TableCell>
+                          <TableCell className="font-mono text-sm">{item.product_barcode}</TableCell>
+                          <TableCell className="text-sm">{item.product_name ?? '-'}</TableCell>
+                          {showSystem && <TableCell className="text-right">{item.system_quantity}</TableCell>}
+                          <TableCell className="text-right">
+                            {isCounting ? (
+                              <Input
+                                type="number"
+                                min={0}
+                                value={item.counted_quantity ?? ''}
+                                onChange={(e) =>
+                                  setCount(
+                                    item.product_barcode,
+                                    e.target.value === '' ? null : Math.max(0, Math.floor(Number(e.target.value) || 0))
+                                  )
+                                }
+                                disabled={isBusy}
+                                aria-label={t('stocktake.counted')}
+                                className={`ml-auto h-8 w-24 text-right ${isUnsaved ? 'border-amber-500' : ''}`}
+                              />
+                            ) : (
+                              item.counted_quantity ?? '-'
+                            )}
+                          </TableCell>
+                          {showSystem && (
+                            <TableCell
+                              className={`text-right font-medium ${
+                                variance === null || variance === 0
+                                  ? 'text-muted-foreground'
+                                  : variance > 0
+                                    ? 'text-green-600'
+                                    : 'text-destructive'
+                              }`}
+                            >
+                              {formatVariance(variance)}
+                            </TableCell>
+                          )}
+                        </TableRow>
+                      )
+                    })
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+            {filteredItems.length > MAX_VISIBLE_ROWS && (
+              <p className="text-muted-foreground text-sm">
+                {t('stocktake.showingFirst', { count: MAX_VISIBLE_ROWS, total: filteredItems.length })}
+              </p>
+            )}
+          </>
+        )}
+
+        {/* Approve Dialog */}
+        <Dialog open={approveOpen} onOpenChange={(open) => !approveStocktake.isPending && setApproveOpen(open)}>
+          <DialogContent className="sm:max-w-[480px]">
+            <DialogHeader>
+              <DialogTitle>{t('stocktake.approveTitle')}</DialogTitle>
+              <DialogDescription>
+                {t('stocktake.approveMessage', {
+                  count: summary.withVariance,
+                  location: stocktake ? getLocationName(stocktake.location_id) : '-',
+                })}
+              </DialogDescription>
+            </DialogHeader>
+            <div className="flex flex-col gap-3">
+              <div className="text-muted-foreground grid grid-cols-2 gap-1 text-sm">
+                <span>{t('stocktake.counted')}</span>
+                <span className="text-foreground text-right">
+                  {summary.counted} / {summary.total}
+                </span>
+                <span>{t('stocktake.unitsOver')}</span>
+                <span className="text-right text-green-600">+{summary.unitsOver}</span>
+                <span>{t('stocktake.unitsShort')}</span>
+                <span className="text-destructive text-right">-{summary.unitsShort}</span>
+                <span>{t('stocktake.varianceValue')}</span>
+                <span className="text-foreground text-right">{summary.varianceValue.toFixed(2)}</span>
+              </div>
+              {summary.uncounted > 0 && (
+                <p className="text-sm text-amber-600">
+                  {t('stocktake.uncountedWarning', { count: summary.uncounted })}
+                </p>
+              )}
+              <div className="grid gap-2">
+                <Label>{t('stocktake.reasonCode')}</Label>
+                <Select
+                  value={reasonCode}
+                  onValueChange={(value) => setReasonCode(value as StocktakeReasonCode)}
+                  disabled={approveStocktake.isPending}
+                >
+                  <SelectTrigger aria-label={t('stocktake.reasonCode')}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {STOCKTAKE_REASON_CODES.map((code) => (
+                      <SelectItem key={code} value={code}>
+                        {t(`stocktake.reasons.${code}`)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="stocktake-approve-notes">{t('stocktake.notes')}</Label>
+                <Input
+                  id="stocktake-approve-notes"
+                  value={approveNotes}
+                  onChange={(e) => setApproveNotes(e.target.value)}
+                  placeholder={t('stocktake.notesPlaceholder')}
+                  disabled={approveStocktake.isPending}
+                  maxLength={1000}
+                />
+              </div>
+            </div>
+            <DialogFooter>
+              <Button variant="ghost" onClick={() => setApproveOpen(false)} disabled={approveStocktake.isPending}>
+                {t('common.cancel')}
+              </Button>
+              <Button onClick={handleApprove} disabled={approveStocktake.isPending}>
+                {approveStocktake.isPending && <Loader2 className="mr-2 size-4 animate-spin" />}
+                {t('stocktake.approve')}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        {/* Confirm Cancel Dialog */}
+        <AlertDialog open={cancelOpen} onOpenChange={(open) => !cancelStocktake.isPending && setCancelOpen(open)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>{t('stocktake.cancelTitle')}</AlertDialogTitle>
+              <AlertDialogDescription>
+                {t('stocktake.cancelMessage', { name: stocktake?.name })}
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel disabled={cancelStocktake.isPending}>{t('common.cancel')}</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={(e) => {
+                  e.preventDefault()
+                  handleCancel()
+                }}
+                disabled={cancelStocktake.isPending}
+              >
+                {cancelStocktake.isPending && <Loader2 className="mr-2 size-4 animate-spin" />}
+                {t('stocktake.cancelStocktake')}
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex h-full flex-col gap-4 overflow-auto">
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <div>
+          <h1 className="text-2xl font-bold">{t('stocktake.title')}</h1>
+          <p className="text-muted-foreground mt-1">{t('stocktake.subtitle')}</p>
+        </div>
+        {isSupervisor && (
+          <Button onClick={openCreate}>
+            <Plus className="mr-2 size-4" />
+            {t('stocktake.newStocktake')}
+          </Button>
+        )}
+      </div>
+
+      <div className="overflow-auto rounded-md border">
+        <Table className="min-w-[640px]">
+          <TableHeader className="bg-muted/50">
+            <TableRow>
+              <TableHead>{t('stocktake.name')}</TableHead>
+              <TableHead>{t('packaging.location')}</TableHead>
+              <TableHead className="w-24 text-right">{t('stocktake.products')}</TableHead>
+              <TableHead>{t('stocktake.startedBy')}</TableHead>
+              <TableHead className="w-32">{t('common.date')}</TableHead>
+              <TableHead className="w-28">{t('stocktake.status')}</TableHead>
+              <TableHead className="w-16" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isListLoading ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center">
+                  <Loader2 className="mx-auto size-4 animate-spin" />
+                </TableCell>
+              </TableRow>
+            ) : !stocktakes || stocktakes.documents.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-muted-foreground text-center text-sm">
+                  <div className="flex flex-col items-center gap-2 py-6">
+                    <ClipboardList className="size-8" />
+                    {t('stocktake.noStocktakes')}
+                  </div>
+                </TableCell>
+              </TableRow>
+            ) : (
+              stocktakes.documents.map((entry) => (
+                <TableRow key={entry.$id}>
+                  <TableCell className="text-sm font-medium">
+                    {entry.name}
+                    {entry.blind && (
+                      <span className="text-muted-foreground ml-2 text-xs">{t('stocktake.blindCount')}</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm">{getLocationName(entry.location_id)}</TableCell>
+                  <TableCell className="text-right">{entry.item_count}</TableCell>
+                  <TableCell className="text-sm">{entry.created_by_name ?? '-'}</TableCell>
+                  <TableCell className="text-muted-foreground text-sm">{formatDateTime(entry.$createdAt)}</TableCell>
+                  <TableCell>
+                    <StatusBadge status={entry.status} />
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="size-8"
+                      onClick={() => setActiveId(entry.$id)}
+                      title={t('stocktake.open')}
+                    >
+                      <Eye className="size-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {/* New Stocktake Dialog */}
+      <Dialog open={createOpen} onOpenChange={(open) => !createStocktake.isPending && setCreateOpen(open)}>
+        <DialogContent className="sm:max-w-[480px]">
+          <DialogHeader>
+            <DialogTitle>{t('stocktake.newStocktake')}</DialogTitle>
+            <DialogDescription>{t('stocktake.newDescription')}</DialogDescription>
+          </DialogHeader>
+          <div className="flex flex-col gap-3">
+            <div className="grid gap-2">
+              <Label htmlFor="stocktake-name">{t('stocktake.name')}</Label>
+              <Input
+                id="stocktake-name"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                placeholder={t('stocktake.namePlaceholder')}
+                disabled={createStocktake.isPending}
+                maxLength={255}
+              />
+            </div>
+            {locations.length > 1 && (
+              <div className="grid gap-2">
+                <Label>{t('packaging.location')}</Label>
+                <Select
+                  value={newLocationId ?? undefined}
+                  onValueChange={setNewLocationId}
+                  disabled={createStocktake.isPending}
+                >
+                  <SelectTrigger aria-label={t('packaging.location')}>
+                    <SelectValue placeholder={t('packaging.selectLocation')} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {locations.map((location) => (
+                      <SelectItem key={location.$id} value={location.$id}>
+                        {location.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="grid gap-2">
+              <Label htmlFor="stocktake-filter">{t('stocktake.productFilter')}</Label>
+              <Input
+                id="stocktake-filter"
+                value={newSearch}
+                onChange={(e) => setNewSearch(e.target.value)}
+                placeholder={t('stocktake.productFilterPlaceholder')}
+                disabled={createStocktake.isPending}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label>{t('stocktake.countMode')}</Label>
+              <Select
+                value={newBlind ? 'blind' : 'open'}
+                onValueChange={(value) => setNewBlind(value === 'blind')}
+                disabled={createStocktake.isPending}
+              >
+                <SelectTrigger aria-label={t('stocktake.countMode')}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="open">{t('stocktake.openCount')}</SelectItem>
+                  <SelectItem value="blind">{t('stocktake.blindCount')}</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-muted-foreground text-xs">{t('stocktake.blindDescription')}</p>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setCreateOpen(false)} disabled={createStocktake.isPending}>
+              {t('common.cancel')}
+            </Button>
+            <Button onClick={handleCreate} disabled={createStocktake.isPending}>
+              {createStocktake.isPending && <Loader2 className="mr-2 size-4 animate-spin" />}
+              {t('stocktake.start')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -0,0 +1,385 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { toast } from 'sonner'
+import { Loader2, PackageOpen, RotateCcw, Undo2 } from 'lucide-react'
+import { useQueryClient } from '@tanstack/react-query'
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { packagingRecordService } from '@/lib/appwrite/packaging'
+import { formatTime } from '@/lib/utils'
+import type { PackagingRecordWithProducts } from '@/types/packaging'
+
+export default function Unpack() {
+  const { t } = useTranslation()
+  const queryClient = useQueryClient()
+
+  // Record being unpacked (looked up by waybill scan)
+  const [record, setRecord] = useState<PackagingRecordWithProducts | null>(null)
+  // IDs of items scanned back as returned
+  const [returnedIds, setReturnedIds] = useState<Set<string>>(new Set())
+
+  // Input states
+  const [waybillInput, setWaybillInput] = useState('')
+  const [productInput, setProductInput] = useState('')
+
+  // Loading and dialog states
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [confirmOpen, setConfirmOpen] = useState(false)
+
+  const waybillInputRef = useRef<HTMLInputElement>(null)
+  const productInputRef = useRef<HTMLInputElement>(null)
+
+  const returnedCount = returnedIds.size
+  const remainingCount = (record?.items.length ?? 0) - returnedCount
+
+  // Focus the correct input for the current step
+  useEffect(() => {
+    if (record) {
+      productInputRef.current?.focus()
+    } else {
+      waybillInputRef.current?.focus()
+    }
+  }, [record])
+
+  const resetState = useCallback(() => {
+    setRecord(null)
+    setReturnedIds(new Set())
+    setWaybillInput('')
+    setProductInput('')
+    setError(null)
+  }, [])
+
+  // Look up the shipped waybill
+  const handleWaybillSubmit = useCallback(async () => {
+    const waybill = waybillInput.trim()
+    if (!waybill) {
+      toast.error(t('packaging.enterWaybillError'))
+      return
+    }
+
+    try {
+      setIsSubmitting(true)
+      setError(null)
+
+      const found = await packagingRecordService.getLatestByWaybill(waybill)
+      if (!found) {
+        setError(t('unpack.waybillNotFound', { waybill }))
+        setWaybillInput('')
+        return
+      }
+      if (found.items.length === 0) {
+        setError(t('unpack.waybillEmpty', { waybill }))
+        setWaybillInput('')
+        return
+      }
+
+      setRecord(found)
+      setReturnedIds(new Set())
+    } catch (err) {
+      console.error('Error looking up waybill:', err)
+      setError(t('unpack.lookupError'))
+    } finally {
+      setIsSubmitting(false)
+    }
+  }, [waybillInput, t])
+
+  // Mark the first not-yet-returned item with the scanned barcode as returned
+  const handleProductSubmit = useCallback(() => {
+    const barcode = productInput.trim()
+    if (!barcode || !record) return
+
+    const match = record.items.find(
+      (item) => item.product_barcode === barcode && !returnedIds.has(item.$id)
+    )
+
+    if (!match) {
+      const inWaybill = record.items.some((item) => item.product_barcode === barcode)
+      toast.error(
+        inWaybill
+          ? t('unpack.allReturned', { barcode })
+          : t('unpack.notInWaybill', { barcode })
+      )
+    } else {
+      setReturnedIds((prev) => new Set(prev).add(match.$id))
+    }
+
+    setProductInput('')
+  }, [productInput, record, returnedIds, t])
+
+  const toggleReturned = (itemId: string) => {
+    setReturnedIds((prev) => {
+      const next = new Set(prev)
+      if (next.has(itemId)) {
+        next.delete(itemId)
+      } else {
+        next.add(itemId)
+      }
+      return next
+    })
+  }
+
+  const handleReturnAll = () => {
+    if (!record) return
+    setReturnedIds(new Set(record.items.map((item) => item.$id)))
+  }
+
+  // Apply the return: update/delete the record and restore stock
+  const handleConfirmUnpack = async () => {
+    if (!record || returnedCount === 0) return
+
+    try {
+      setIsSubmitting(true)
+      setError(null)
+
+      const result = await packagingRecordService.unpackItems(record, Array.from(returnedIds))
+
+      if (!result.stockRestoreSuccess) {
+        console.error('Stock restoration failed:', result.errors)
+        toast.error(t('packaging.stockRestoreError'))
+      }
+
+      // Invalidate products cache to reflect stock changes
+      await queryClient.invalidateQueries({ queryKey: ['products'] })
+
+      toast.success(
+        result.recordDeleted
+          ? t('unpack.fullReturnSuccess', { waybill: record.waybill_number })
+          : t('unpack.partialReturnSuccess', {
+            count: returnedCount,
+            remaining: result.remainingCount,
+          })
+      )
+      setConfirmOpen(false)
+      resetState()
+    } catch (err) {
+      console.error('Error unpacking record:', err)
+      setConfirmOpen(false)
+      setError(t('unpack.unpackError'))
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleWaybillKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault()
+      handleWaybillSubmit()
+    }
+  }
+
+  const handleProductKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault()
+      if (productInput.trim() === '' && returnedCount > 0) {
+        setConfirmOpen(true)
+      } else {
+        handleProductSubmit()
+      }
+    } else if (e.key === 'Backspace' && productInput === '') {
+      e.preventDefault()
+      resetState()
+    }
+  }
+
+  return (
+    <div className="flex h-full flex-col gap-4 overflow-hidden">
+      <div>
+        <h1 className="text-2xl font-bold">{t('unpack.title')}</h1>
+        <p className="text-muted-foreground mt-1">{t('unpack.subtitle')}</p>
+      </div>
+
+      {error && (
+        <div className="bg-destructive/10 text-destructive shrink-0 rounded-md p-3 text-sm">
+          {error}
+          <button className="ml-2 underline" onClick={() => setError(null)}>
+            {t('common.dismiss')}
+          </button>
+        </div>
+      )}
+
+      <div className="flex shrink-0 flex-col gap-2 sm:flex-row">
+        <Input
+          ref={waybillInputRef}
+          value={record?.waybill_number ?? waybillInput}
+          onChange={(e) => setWaybillInput(e.target.value)}
+          onKeyDown={handleWaybillKeyDown}
+          placeholder={t('packaging.scanWaybill')}
+          disabled={isSubmitting || !!record}
+          autoComplete="off"
+          className="h-9 font-mono sm:max-w-xs"
+        />
+        <Input
+          ref={productInputRef}
+          value={productInput}
+          onChange={(e) => setProductInput(e.target.value)}
+          onKeyDown={handleProductKeyDown}
+          placeholder={record ? t('unpack.scanReturnedItem') : t('packaging.enterWaybillFirst')}
+          disabled={isSubmitting || !record}
+          autoComplete="off"
+          className="h-9 font-mono sm:max-w-xs"
+        />
+        {record && (
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={handleReturnAll} disabled={isSubmitting}>
+              <PackageOpen className="mr-2 size-4" />
+              {t('unpack.returnAll')}
+            </Button>
+            <Button
+              onClick={() => setConfirmOpen(true)}
+              disabled={isSubmitting || returnedCount === 0}
+            >
+              {isSubmitting ? (
+                <Loader2 className="mr-2 size-4 animate-spin" />
+              ) : (
+                <Undo2 className="mr-2 size-4" />
+              )}
+              {t('unpack.confirmReturn')}
+            </Button>
+            <Button variant="ghost" onClick={resetState} disabled={isSubmitting}>
+              {t('common.cancel')}
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {record ? (
+        <div className="flex min-h-0 flex-1 flex-col gap-2">
+          <div className="text-muted-foreground flex flex-wrap gap-4 text-sm">
+            <span>
+              {t('common.date')}: <span className="text-foreground font-medium">{record.packaging_date}</span>
+            </span>
+            <span>
+              {t('unpack.returned')}: <span className="text-foreground font-medium">{returnedCount}</span>
+            </span>
+            <span>
+              {t('unpack.remaining')}: <span className="text-foreground font-medium">{remainingCount}</span>
+            </span>
+          </div>
+
+          <div className="min-h-0 flex-1 overflow-auto rounded-md border">
+            <Table className="min-w-[600px]">
+              <TableHeader className="bg-muted/50 sticky top-0 z-10">
+                <TableRow>
+                  <TableHead className="w-12">#</TableHead>
+                  <TableHead className="w-48">{t('packaging.productBarcode')}</TableHead>
+                  <TableHead>{t('unpack.product')}</TableHead>
+                  <TableHead className="w-24">{t('common.time')}</TableHead>
+                  <TableHead className="w-32">{t('unpack.status')}</TableHead>
+                  <TableHead className="w-16" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {record.items.map((item, index) => {
+                  const isReturned = returnedIds.has(item.$id)
+                  return (
+                    <TableRow key={item.$id} className={isReturned ? 'bg-muted/50' : undefined}>
+                      <TableCell className="text-muted-foreground">{index + 1}</TableCell>
+                      <TableCell className="font-mono text-sm">{item.product_barcode}</TableCell>
+                      <TableCell>
+                        <div className="text-sm">{item.product_name}</div>
+                        {item.is_bundle && item.bundle_components && item.bundle_components.length > 0 && (
+                          <div className="text-muted-foreground mt-1 text-xs">
+                            {t('packaging.contains')}{' '}
+                            {item.bundle_components
+                              .map((comp) => (comp.quantity > 1 ? `${comp.productName} ×${comp.quantity}` : comp.productName))
+                              .join(', ')}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground text-sm">
+                        {formatTime(item.scanned_at)}
+                      </TableCell>
+                      <TableCell>
+                        {isReturned ? (
+                          <span className="bg-primary/10 text-primary inline-block rounded px-1.5 py-0.5 text-xs">
+                            {t('unpack.returned')}
+                          </span>
+                        ) : (
+                          <span className="text-muted-foreground text-xs">{t('unpack.packed')}</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="size-8"
+                          onClick={() => toggleReturned(item.$id)}
+                          disabled={isSubmitting}
+                          title={isReturned ? t('unpack.undoReturn') : t('unpack.markReturned')}
+                        >
+                          {isReturned ? <RotateCcw className="size-4" /> : <Undo2 className="size-4" />}
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      ) : (
+        <div className="text-muted-foreground flex flex-1 flex-col items-center justify-center gap-2 rounded-md border border-dashed text-sm">
+          {isSubmitting ? (
+            <Loader2 className="size-6 animate-spin" />
+          ) : (
+            <>
+              <PackageOpen className="size-8" />
+              <span>{t('unpack.scanToStart')}</span>
+            </>
+          )}
+        </div>
+      )}
+
+      {/* Confirm Return Dialog */}
+      <AlertDialog open={confirmOpen} onOpenChange={(open) => !isSubmitting && setConfirmOpen(open)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t('unpack.confirmTitle')}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {remainingCount === 0
+                ? t('unpack.confirmFullMessage', { waybill: record?.waybill_number, count: returnedCount })
+                : t('unpack.confirmPartialMessage', {
+                  waybill: record?.waybill_number,
+                  count: returnedCount,
+                  remaining: remainingCount,
+                })}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isSubmitting}>{t('common.cancel')}</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault()
+                handleConfirmUnpack()
+              }}
+              disabled={isSubmitting}
+            >
+              {isSubmitting && <Loader2 className="mr-2 size-4 animate-spin" />}
+              {t('unpack.confirmReturn')}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
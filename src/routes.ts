@@ -2,18 +2,27 @@ import type { ComponentType } from 'react'
 
 import { lazy } from 'react'
 
+import type { UserRole } from '@/types/role'
+
 export interface RouteConfig {
   path: string
   component: ComponentType
   isPublic?: boolean
+  // Minimum role needed; protected routes without one are open to every role
+  requiredRole?: UserRole
 }
 
 const Login = lazy(() => import('@/pages/Login'))
 const Dashboard = lazy(() => import('@/pages/Dashboard'))
 const Products = lazy(() => import('@/pages/Products'))
 const Packaging = lazy(() => import('@/pages/Packaging'))
+const Unpack = lazy(() => import('@/pages/Unpack'))
+const Receiving = lazy(() => import('@/pages/Receiving'))
+const Stocktake = lazy(() => import('@/pages/Stocktake'))
 const Reports = lazy(() => import('@/pages/Reports'))
 const Jobs = lazy(() => import('@/pages/Jobs'))
+const Couriers = lazy(() => import('@/pages/Couriers'))
+const AuditLogs = lazy(() => import('@/pages/AuditLogs'))
 
 export const routes: RouteConfig[] = [
   {
@@ -36,18 +45,50 @@ export const routes: RouteConfig[] = [
     component: Packaging,
     isPublic: false,
   },
+  {
+    path: '/unpack',
+    component: Unpack,
+    isPublic: false,
+  },
+  {
+    path: '/receiving',
+    component: Receiving,
+    isPublic: false,
+  },
+  {
+    path: '/stocktake',
+    component: Stocktake,
+    isPublic: false,
+  },
   {
     path: '/reports',
     component: Reports,
     isPublic: false,
+    requiredRole: 'supervisor',
   },
   {
     path: '/jobs',
     component: Jobs,
     isPublic: false,
   },
+  {
+    path: '/couriers',
+    component: Couriers,
+    isPublic: false,
+    requiredRole: 'admin',
+  },
+  {
+    path: '/audit-logs',
+    component: AuditLogs,
+    isPublic: false,
+    requiredRole: 'admin',
+  },
 ]
 
 export const publicPaths = routes
   .filter((route) => route.isPublic)
   .map((route) => route.path)
+
+export function getRequiredRole(path: string): UserRole | undefined {
+  return routes.find((route) => route.path === path)?.requiredRole
+}
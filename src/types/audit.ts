@@ -26,10 +26,22 @@ export type AuditActionType =
   | 'product_stock_update'
   | 'product_stock_deduct'
   | 'product_stock_restore'
+  | 'product_stock_ledger_check'
   // Product component actions
   | 'product_component_add'
   | 'product_component_remove'
   | 'product_component_update'
+  // Product barcode (alias) actions
+  | 'product_barcode_update'
+  // Location actions
+  | 'location_create'
+  | 'location_update'
+  | 'location_delete'
+  | 'location_stock_transfer'
+  // Courier actions
+  | 'courier_create'
+  | 'courier_update'
+  | 'courier_delete'
   // Packaging actions
   | 'packaging_record_create'
   | 'packaging_record_update'
@@ -40,20 +52,50 @@ export type AuditActionType =
   | 'packaging_item_scan'
   | 'packaging_item_remove'
   | 'packaging_items_update'
+  // Pre-alert actions
+  | 'prealert_override'
+  // Receiving actions
+  | 'receiving_create'
+  | 'receiving_update'
+  | 'receiving_void'
+  // Stocktake actions
+  | 'stocktake_create'
+  | 'stocktake_count'
+  | 'stocktake_approve'
+  | 'stocktake_cancel'
+  // Report schedule actions
+  | 'report_schedule_create'
+  | 'report_schedule_update'
+  | 'report_schedule_delete'
+  // Report template actions
+  | 'report_template_create'
+  | 'report_template_update'
+  | 'report_template_delete'
   // Job actions
   | 'job_queue_import'
+  | 'job_queue_prealert_import'
   | 'job_queue_export'
   | 'job_queue_report_export'
+  | 'job_queue_receiving_export'
+  | 'job_queue_stocktake_export'
   | 'job_queue_send_email'
+  | 'job_queue_report_email'
   | 'job_delete'
   | 'job_download'
   | 'job_import_started'
   | 'job_import_completed'
+  | 'job_prealert_import_started'
+  | 'job_prealert_import_completed'
   | 'job_export_started'
   | 'job_export_completed'
   | 'job_report_export_started'
   | 'job_report_export_completed'
+  | 'job_receiving_export_started'
+  | 'job_receiving_export_completed'
+  | 'job_stocktake_export_started'
+  | 'job_stocktake_export_completed'
   | 'report_email_sent'
+  | 'report_schedule_run'
   // Storage actions
   | 'storage_file_upload'
   | 'storage_file_delete'
@@ -70,8 +112,16 @@ export type AuditResourceType =
   | 'auth'
   | 'product'
   | 'product_component'
+  | 'product_barcode'
+  | 'location'
+  | 'courier'
   | 'packaging_record'
   | 'packaging_item'
+  | 'prealert'
+  | 'receiving_record'
+  | 'stocktake'
+  | 'report_schedule'
+  | 'report_template'
   | 'job'
   | 'storage'
   | 'audit_log'
@@ -0,0 +1,57 @@
+import type { Models } from 'appwrite'
+
+/**
+ * Check digit algorithms a courier's waybill numbers can use
+ * - luhn: Luhn (mod 10) over the digits after the prefix
+ * - mod7: last digit is the preceding digits modulo 7
+ * - s10: UPU S10 international postal format (AA123456789CC)
+ */
+export type CheckDigitAlgorithm = 'luhn' | 'mod7' | 's10'
+
+/**
+ * Courier profile document from Appwrite
+ * Describes the waybill number format of one courier
+ */
+export interface Courier extends Models.Document {
+  name: string
+  prefix: string | null // Waybills start with this
+  pattern: string | null // Regular expression the whole waybill must match
+  length: number | null // Exact waybill length
+  check_digit: CheckDigitAlgorithm | null
+}
+
+/**
+ * Input data for creating a new courier profile
+ */
+export type CreateCourierInput = {
+  name: string
+  prefix?: string | null
+  pattern?: string | null
+  length?: number | null
+  check_digit?: CheckDigitAlgorithm | null
+}
+
+/**
+ * Input data for updating a courier profile
+ */
+export type UpdateCourierInput = Partial<CreateCourierInput>
+
+/**
+ * Why a waybill does not fit its courier's format
+ */
+export type WaybillFormatIssue = 'length' | 'pattern' | 'check_digit'
+
+/**
+ * Result of checking a waybill number against the courier profiles
+ */
+export type WaybillCheck =
+  | { status: 'valid'; courier: Courier }
+  | { status: 'invalid'; courier: Courier; issue: WaybillFormatIssue } // Looks like this courier, but is mistyped or partial
+  | { status: 'unknown' } // No courier claims the waybill
+
+/**
+ * Collection IDs for Appwrite
+ */
+export const COLLECTIONS = {
+  COURIERS: 'couriers',
+} as const
@@ -0,0 +1,30 @@
+/**
+ * Packaging totals for a single day
+ */
+export interface DailyPackagingStats {
+  date: string // YYYY-MM-DD format
+  waybills: number
+  items: number
+}
+
+/**
+ * Packed quantity for a single product across a date range
+ */
+export interface TopProductStat {
+  barcode: string
+  name: string
+  quantity: number
+}
+
+/**
+ * Aggregated packaging statistics for a date range (dashboard)
+ */
+export interface PackagingStats {
+  startDate: string
+  endDate: string
+  totalWaybills: number
+  totalItems: number
+  days: DailyPackagingStats[] // One entry per day, oldest first
+  itemsByHour: number[] // 24 buckets (local time) of scanned items
+  topProducts: TopProductStat[] // Sorted by quantity descending
+}
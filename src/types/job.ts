@@ -3,13 +3,36 @@ import type { Models } from 'appwrite'
 /**
  * Job action type
  */
-export type JobAction = 'import-excel' | 'export-excel' | 'export-reporting-excel' | 'export-reporting-pdf' | 'send-report-email'
+export type JobAction = 'import-excel' | 'import-prealerts' | 'export-excel' | 'export-csv' | 'export-json' | 'export-reporting-excel' | 'export-reporting-pdf' | 'export-reporting-csv' | 'export-reporting-json' | 'export-reporting-receiving' | 'export-reporting-stocktake-excel' | 'export-reporting-stocktake-pdf' | 'send-report-email' | 'export-reporting-email'
+
+/**
+ * File format of an export or report
+ */
+export type ExportFormat = 'excel' | 'pdf' | 'csv' | 'json'
+
+/**
+ * File extension and MIME type of each export format
+ */
+export const EXPORT_FILE_TYPES: Record<ExportFormat, { extension: string; mimeType: string }> = {
+  excel: {
+    extension: 'xlsx',
+    mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  },
+  pdf: { extension: 'pdf', mimeType: 'application/pdf' },
+  csv: { extension: 'csv', mimeType: 'text/csv' },
+  json: { extension: 'json', mimeType: 'application/json' },
+}
 
 /**
  * Job status type
  */
 export type JobStatus = 'pending' | 'processing' | 'completed' | 'failed'
 
+/**
+ * Phase of a job that runs in steps (generate-and-email report jobs)
+ */
+export type JobPhase = 'generating' | 'emailing'
+
 /**
  * Import/Export job statistics
  */
@@ -32,6 +55,7 @@ export interface ImportJob extends Models.Document {
   filters: string | null
   stats: string | null
   error: string | null
+  phase?: JobPhase | null // Step a multi-step job is on, or failed in
   created_at: string
   completed_at: string | null
 }
@@ -0,0 +1,43 @@
+import type { Models } from 'appwrite'
+
+/**
+ * Stock location (warehouse) document from Appwrite
+ */
+export interface Location extends Models.Document {
+  name: string
+  code: string
+  is_default: boolean // Holds all stock not assigned to another location
+}
+
+/**
+ * Per-location stock document from Appwrite
+ * Only kept for non-default locations; the default location holds the
+ * product total minus every other location
+ */
+export interface ProductStock extends Models.Document {
+  product_id: string
+  location_id: string
+  quantity: number
+}
+
+/**
+ * Input data for creating a new location
+ */
+export type CreateLocationInput = {
+  name: string
+  code: string
+  is_default?: boolean
+}
+
+/**
+ * Input data for updating a location
+ */
+export type UpdateLocationInput = Partial<CreateLocationInput>
+
+/**
+ * Collection IDs for Appwrite
+ */
+export const COLLECTIONS = {
+  LOCATIONS: 'locations',
+  PRODUCT_STOCK: 'product_stock',
+} as const
@@ -0,0 +1,60 @@
+import type { CreatePackagingRecordInput } from './packaging'
+import type { Product } from './product'
+
+/**
+ * Product cached in IndexedDB for barcode lookup while offline
+ */
+export interface CatalogProduct {
+  product: Product
+  components: Array<{ product_id: string; quantity: number }> // Bundles only
+  aliases?: Array<{ barcode: string; pack_quantity: number }> // Alternate barcodes; missing in older caches
+  stock_by_location: Record<string, number> // Location ID to quantity when cached
+}
+
+/**
+ * Sync state of a queued waybill
+ */
+export type QueuedWaybillStatus =
+  | 'pending' // Waiting to be synced
+  | 'conflict' // Stock at the location no longer covers the waybill
+  | 'failed' // The server rejected the waybill
+
+/**
+ * Product whose stock no longer covers a queued waybill
+ */
+export interface StockConflict {
+  product_id: string
+  barcode: string
+  name: string
+  required: number
+  expected: number // Available at the location when the waybill was queued
+  available: number // Available at the location when syncing
+}
+
+/**
+ * Waybill completed while offline, waiting to be saved
+ * through the create-packaging function
+ */
+export interface QueuedWaybill {
+  idempotency_key: string // Reused for every sync attempt
+  record: CreatePackagingRecordInput
+  items: Array<{ product_barcode: string; product_name?: string; scanned_at?: string }>
+  stock_updates: Array<{ product_id: string; deduct_amount: number }>
+  expected_stock: Record<string, number> // Product ID to stock at the location when queued
+  status: QueuedWaybillStatus
+  conflicts: StockConflict[]
+  force: boolean // Sync even if stock changed
+  attempts: number
+  last_error: string | null
+  queued_at: string
+}
+
+/**
+ * Result of one pass over the sync queue
+ */
+export type SyncQueueResult = {
+  synced: number
+  conflicts: number
+  failed: number
+  offline: boolean // Stopped early because the network dropped
+}
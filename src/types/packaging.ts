@@ -7,6 +7,12 @@ import type { Models } from 'appwrite'
 export interface PackagingRecord extends Models.Document {
   packaging_date: string // YYYY-MM-DD format
   waybill_number: string
+  location_id?: string | null // Location the stock was taken from (null for the default location)
+  courier_id?: string | null // Courier detected from the waybill format (null if unrecognised)
+  packed_by?: string | null // User ID of the packer (set by create-packaging)
+  packed_by_name?: string | null // Packer's name at the time of packing
+  started_at?: string | null // ISO datetime the waybill was scanned
+  finished_at?: string | null // ISO datetime the waybill was completed
 }
 
 /**
@@ -17,6 +23,20 @@ export interface PackagingItem extends Models.Document {
   packaging_record_id: string
   product_barcode: string
   scanned_at: string // ISO datetime
+  product_name?: string | null // Product name at pack time (null before snapshots)
+  unit_cost?: number | null // Product cost at pack time
+  components_snapshot?: string | null // JSON stringified ComponentSnapshot[] (bundles only)
+}
+
+/**
+ * Bundle component as it was when the bundle was packed
+ * Nested bundles are exploded into the products they contain
+ */
+export interface ComponentSnapshot {
+  barcode: string
+  product_name: string
+  quantity: number
+  unit_cost: number
 }
 
 /**
@@ -26,6 +46,7 @@ export interface BundleComponentInfo {
   barcode: string
   productName: string
   quantity: number
+  unitCost?: number // Set when read from a pack-time snapshot
 }
 
 /**
@@ -57,6 +78,10 @@ export interface PackagingRecordWithProducts extends PackagingRecord {
 export type CreatePackagingRecordInput = {
   packaging_date: string
   waybill_number: string
+  location_id?: string
+  courier_id?: string
+  started_at?: string // ISO datetime the waybill was scanned
+  finished_at?: string // ISO datetime the waybill was completed
 }
 
 /**
@@ -76,8 +101,36 @@ export interface PackagingCache extends Models.Document {
   cache_date: string // YYYY-MM-DD format - the date this cache represents
   data: string // JSON stringified PackagingRecordWithItems[]
   cached_at: string // ISO datetime when cache was created
+  schema_version: number | null // PACKAGING_CACHE_VERSION it was written with (null before versions)
 }
 
+/**
+ * Waybill a station is packing but has not completed yet
+ * Lets other stations see the waybill before its record exists
+ */
+export interface PackagingDraft extends Models.Document {
+  packaging_date: string // YYYY-MM-DD format
+  waybill_number: string
+  station_id: string // Browser that claimed the waybill
+  user_id: string
+  user_email: string | null
+  claimed_at: string // ISO datetime
+}
+
+/**
+ * Result of claiming a waybill for this station
+ */
+export type PackagingDraftClaim =
+  | { claimed: true; draft: PackagingDraft }
+  | { claimed: false; draft: PackagingDraft } // Another station is packing it
+
+/**
+ * Version of the cached day layout; caches of another version are not used
+ * 2: records keep every field, not just their date and waybill
+ * Mirrors PACKAGING_CACHE_VERSION in trigger/lib/packaging-report-data.ts
+ */
+export const PACKAGING_CACHE_VERSION = 2
+
 /**
  * Collection IDs for Appwrite
  */
@@ -85,4 +138,5 @@ export const COLLECTIONS = {
   PACKAGING_RECORDS: 'packaging_records',
   PACKAGING_ITEMS: 'packaging_items',
   PACKAGING_CACHE: 'packaging_cache',
+  PACKAGING_DRAFTS: 'packaging_drafts',
 } as const
@@ -0,0 +1,70 @@
+import type { Models } from 'appwrite'
+
+/**
+ * Product and quantity a pre-alerted waybill should contain
+ */
+export interface ExpectedItem {
+  barcode: string
+  quantity: number
+  product_name: string | null // Null if the barcode is not a known product
+}
+
+/**
+ * Order pre-alert document from Appwrite
+ * Lists what a waybill should contain, imported before it is packed
+ */
+export interface OrderPrealert extends Models.Document {
+  waybill_number: string
+  order_reference: string | null
+  expected_items: string // JSON string of ExpectedItem[]
+  import_job_id: string | null // Job that last imported the pre-alert
+  imported_at: string
+}
+
+/**
+ * Pre-alert with parsed expected items
+ */
+export interface ParsedOrderPrealert extends Omit<OrderPrealert, 'expected_items'> {
+  expected_items: ExpectedItem[]
+}
+
+/**
+ * How a checklist line compares with what was scanned
+ * - short: fewer scanned than expected (nothing scanned yet included)
+ * - matched: scanned exactly as expected
+ * - over: more scanned than expected
+ * - wrong: scanned but not on the pre-alert
+ */
+export type PrealertLineStatus = 'short' | 'matched' | 'over' | 'wrong'
+
+/**
+ * One line of a pre-alert checklist
+ */
+export interface PrealertLine {
+  barcode: string
+  productName: string | null
+  expected: number
+  scanned: number
+  status: PrealertLineStatus
+}
+
+/**
+ * Result of comparing scanned items with a pre-alert
+ */
+export interface PrealertCheck {
+  lines: PrealertLine[]
+  matches: boolean // Every line is matched
+}
+
+/**
+ * Flag on a single scan: the product is not on the pre-alert, or is one
+ * more than expected
+ */
+export type PrealertScanFlag = 'wrong' | 'over'
+
+/**
+ * Collection IDs for Appwrite
+ */
+export const COLLECTIONS = {
+  ORDER_PREALERTS: 'order_prealerts',
+} as const
@@ -27,6 +27,33 @@ export interface ProductComponent extends Models.Document {
   quantity: number
 }
 
+/**
+ * Alternate barcode (alias) document from Appwrite
+ * A supplier's new barcode or a carton GTIN that resolves to a product;
+ * one scan of a case-pack barcode counts as pack_quantity units
+ */
+export interface ProductBarcode extends Models.Document {
+  product_id: string
+  barcode: string
+  pack_quantity: number
+}
+
+/**
+ * Alternate barcode as edited on a product
+ */
+export type ProductBarcodeInput = {
+  barcode: string
+  pack_quantity: number
+}
+
+/**
+ * Product a scanned barcode resolves to, and how many units one scan counts as
+ */
+export interface ResolvedBarcode {
+  product: Product
+  packQuantity: number // 1 for the product's own barcode
+}
+
 /**
  * Product with its components expanded (for bundles)
  */
@@ -69,4 +96,5 @@ export type CreateProductComponentInput = {
 export const COLLECTIONS = {
   PRODUCTS: 'products',
   PRODUCT_COMPONENTS: 'product_components',
+  PRODUCT_BARCODES: 'product_barcodes',
 } as const
@@ -0,0 +1,82 @@
+import type { Models } from 'appwrite'
+
+/**
+ * Whether a receiving still counts towards stock
+ * - received: the quantities were added to stock
+ * - voided: the quantities were taken back out again
+ */
+export type ReceivingStatus = 'received' | 'voided'
+
+/**
+ * Receiving record document from Appwrite
+ * One inbound delivery, identified by its delivery or reference number
+ */
+export interface ReceivingRecord extends Models.Document {
+  receiving_date: string // YYYY-MM-DD format
+  reference_number: string
+  location_id: string | null // Location the stock went to (null for the default location)
+  notes: string | null
+  received_by: string | null // User ID of whoever received the delivery
+  received_by_name: string | null // Their name at the time of receiving
+  status: ReceivingStatus
+  voided_at: string | null
+  voided_by: string | null
+  void_reason: string | null
+}
+
+/**
+ * Receiving item document from Appwrite
+ * One product of a receiving, with the quantity received
+ */
+export interface ReceivingItem extends Models.Document {
+  receiving_record_id: string
+  product_id: string
+  product_barcode: string
+  product_name: string | null // Product name at receiving time
+  quantity: number
+  unit_cost: number | null // Product cost at receiving time
+}
+
+/**
+ * Receiving record with its items
+ */
+export interface ReceivingRecordWithItems extends ReceivingRecord {
+  items: ReceivingItem[]
+}
+
+/**
+ * Product and quantity scanned into a receiving
+ */
+export interface ReceivingLineInput {
+  product_barcode: string
+  quantity: number
+}
+
+/**
+ * Input data for creating a receiving
+ */
+export type CreateReceivingInput = {
+  receiving_date: string
+  reference_number: string
+  location_id?: string | null
+  notes?: string | null
+  items: ReceivingLineInput[]
+}
+
+/**
+ * Input data for editing a receiving
+ * Items replace the existing items; stock is adjusted by the difference
+ */
+export type UpdateReceivingInput = {
+  reference_number?: string
+  notes?: string | null
+  items?: ReceivingLineInput[]
+}
+
+/**
+ * Collection IDs for Appwrite
+ */
+export const COLLECTIONS = {
+  RECEIVING_RECORDS: 'receiving_records',
+  RECEIVING_ITEMS: 'receiving_items',
+} as const
@@ -0,0 +1,82 @@
+import type { Models } from 'appwrite'
+
+/**
+ * How often a scheduled report is sent
+ */
+export type ReportScheduleFrequency = 'daily' | 'weekly' | 'monthly'
+
+/**
+ * Period a scheduled report covers, relative to when it runs
+ * - yesterday: the day before
+ * - last_7_days: the seven days before
+ * - last_week: the previous Monday to Sunday
+ * - last_month: the previous calendar month
+ */
+export type ReportScheduleRange = 'yesterday' | 'last_7_days' | 'last_week' | 'last_month'
+
+export type ReportScheduleFormat = 'excel' | 'pdf'
+
+/**
+ * Outcome of a schedule's last run; no_data means nothing was packed in
+ * the range, so no report was emailed
+ */
+export type ReportScheduleRunStatus = 'success' | 'failed' | 'no_data'
+
+export const REPORT_SCHEDULE_FREQUENCIES: ReportScheduleFrequency[] = ['daily', 'weekly', 'monthly']
+
+export const REPORT_SCHEDULE_RANGES: ReportScheduleRange[] = [
+  'yesterday',
+  'last_7_days',
+  'last_week',
+  'last_month',
+]
+
+/**
+ * Report schedule document from Appwrite
+ * Times are the creator's local time, kept as an offset from UTC
+ */
+export interface ReportSchedule extends Models.Document {
+  name: string
+  frequency: ReportScheduleFrequency
+  date_range: ReportScheduleRange
+  format: ReportScheduleFormat
+  recipients: string // JSON array of email addresses
+  hour: number // 0-23, local time
+  day_of_week: number | null // 0 (Sunday) to 6, weekly schedules only
+  day_of_month: number | null // 1-28, monthly schedules only
+  utc_offset: number // Minutes ahead of UTC when the schedule was saved
+  enabled: boolean // false while paused
+  user_id: string // Owner; the generated reports are theirs
+  created_by_name: string | null
+  next_run_at: string | null
+  last_run_at: string | null
+  last_run_status: ReportScheduleRunStatus | null
+  last_run_error: string | null
+  last_file_id: string | null // Report file of the last successful run
+}
+
+/**
+ * Input data for creating a report schedule
+ */
+export type CreateReportScheduleInput = {
+  name: string
+  frequency: ReportScheduleFrequency
+  date_range: ReportScheduleRange
+  format: ReportScheduleFormat
+  recipients: string[]
+  hour: number
+  day_of_week?: number | null
+  day_of_month?: number | null
+}
+
+/**
+ * Input data for updating a report schedule
+ */
+export type UpdateReportScheduleInput = Partial<CreateReportScheduleInput>
+
+/**
+ * Collection IDs for Appwrite
+ */
+export const COLLECTIONS = {
+  REPORT_SCHEDULES: 'report_schedules',
+} as const
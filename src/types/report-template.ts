@@ -0,0 +1,129 @@
+import type { Models } from 'appwrite'
+
+/**
+ * Parts a packaging report can be built from
+ * - breakdown: totals grouped by the template's grouping
+ * - details: one row per packed item, with the template's columns
+ */
+export type ReportSection =
+  | 'summary'
+  | 'daily-summary'
+  | 'product-quantities'
+  | 'waybill-costs'
+  | 'stock-by-location'
+  | 'packer-productivity'
+  | 'breakdown'
+  | 'details'
+
+export type ReportGrouping = 'day' | 'waybill' | 'product' | 'packer' | 'courier'
+
+export type ReportColumn =
+  | 'date'
+  | 'waybill'
+  | 'courier'
+  | 'location'
+  | 'packer'
+  | 'barcode'
+  | 'product'
+  | 'unit-cost'
+  | 'scanned-at'
+
+/**
+ * Order of the breakdown rows: by the group itself, or by one of its totals
+ */
+export type ReportSortKey = 'group' | 'waybills' | 'items' | 'cost'
+
+export type ReportSortDirection = 'asc' | 'desc'
+
+/**
+ * How bundles are reported
+ * - as-is: the bundle as it was scanned
+ * - exploded: the products it held when it was packed
+ */
+export type ReportBundleMode = 'as-is' | 'exploded'
+
+export interface ReportDefinition {
+  sections: ReportSection[] // In the order they are written
+  groupBy: ReportGrouping
+  columns: ReportColumn[] // Columns of the details section, in order
+  sortBy: ReportSortKey
+  sortDirection: ReportSortDirection
+  bundles: ReportBundleMode
+}
+
+export const REPORT_SECTIONS: ReportSection[] = [
+  'summary',
+  'daily-summary',
+  'product-quantities',
+  'waybill-costs',
+  'stock-by-location',
+  'packer-productivity',
+  'breakdown',
+  'details',
+]
+
+export const REPORT_GROUPINGS: ReportGrouping[] = ['day', 'waybill', 'product', 'packer', 'courier']
+
+export const REPORT_COLUMNS: ReportColumn[] = [
+  'date',
+  'waybill',
+  'courier',
+  'location',
+  'packer',
+  'barcode',
+  'product',
+  'unit-cost',
+  'scanned-at',
+]
+
+export const REPORT_SORT_KEYS: ReportSortKey[] = ['group', 'waybills', 'items', 'cost']
+
+/**
+ * The standard report, as exported without a template
+ */
+export const DEFAULT_REPORT_DEFINITION: ReportDefinition = {
+  sections: [
+    'summary',
+    'daily-summary',
+    'product-quantities',
+    'waybill-costs',
+    'stock-by-location',
+    'packer-productivity',
+    'details',
+  ],
+  groupBy: 'day',
+  columns: ['date', 'waybill', 'courier', 'location', 'barcode', 'product', 'unit-cost', 'scanned-at'],
+  sortBy: 'group',
+  sortDirection: 'asc',
+  bundles: 'as-is',
+}
+
+/**
+ * Report template document from Appwrite
+ */
+export interface ReportTemplate extends Models.Document {
+  name: string
+  definition: string // JSON ReportDefinition
+  user_id: string
+  created_by_name: string | null
+}
+
+/**
+ * Input data for creating a report template
+ */
+export type CreateReportTemplateInput = {
+  name: string
+  definition: ReportDefinition
+}
+
+/**
+ * Input data for updating a report template
+ */
+export type UpdateReportTemplateInput = Partial<CreateReportTemplateInput>
+
+/**
+ * Collection IDs for Appwrite
+ */
+export const COLLECTIONS = {
+  REPORT_TEMPLATES: 'report_templates',
+} as const
@@ -0,0 +1,14 @@
+/**
+ * User roles, stored as membership roles on the staff team in Appwrite
+ */
+export type UserRole = 'packer' | 'supervisor' | 'admin'
+
+/**
+ * Roles ordered from least to most privileged
+ */
+export const USER_ROLES: UserRole[] = ['packer', 'supervisor', 'admin']
+
+/**
+ * Role granted to signed-in users without a staff team membership
+ */
+export const DEFAULT_ROLE: UserRole = 'packer'
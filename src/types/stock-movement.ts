@@ -0,0 +1,52 @@
+import type { Models } from 'appwrite'
+
+/**
+ * Why a product's stock changed
+ */
+export type StockMovementReason = 'packaging' | 'unpack' | 'import' | 'manual_adjust' | 'receiving' | 'stocktake'
+
+/**
+ * Stock movement (ledger entry) document from Appwrite
+ * One entry per product per stock change, written by whoever changed the stock
+ */
+export interface StockMovement extends Models.Document {
+  product_id: string
+  delta: number // Signed change applied to the product total
+  resulting_quantity: number // Product total after the change
+  reason: StockMovementReason
+  source_id: string | null // Packaging record, import job, etc.
+  user_id: string | null
+  location_id: string | null // Location the change was made at (null = product total only)
+}
+
+/**
+ * Input data for recording a stock movement
+ */
+export type CreateStockMovementInput = {
+  product_id: string
+  delta: number
+  resulting_quantity: number
+  reason: StockMovementReason
+  source_id?: string | null
+  location_id?: string | null
+}
+
+/**
+ * Result of rebuilding a product's stock from its movements
+ */
+export interface StockLedgerCheck {
+  product_id: string
+  movement_count: number
+  opening_quantity: number // Stock before the first recorded movement
+  rebuilt_quantity: number // Opening quantity plus every delta
+  current_quantity: number // Product total as stored
+  drift: number // current_quantity - rebuilt_quantity
+  gaps: number // Movements whose starting quantity does not follow the previous movement
+}
+
+/**
+ * Collection IDs for Appwrite
+ */
+export const COLLECTIONS = {
+  STOCK_MOVEMENTS: 'stock_movements',
+} as const
@@ -0,0 +1,112 @@
+import type { Models } from 'appwrite'
+
+/**
+ * Stage of a stocktake
+ * - counting: items are being counted; stock is unchanged
+ * - approved: a supervisor applied the variances to stock
+ * - cancelled: closed without changing stock
+ */
+export type StocktakeStatus = 'counting' | 'approved' | 'cancelled'
+
+/**
+ * Why the variances of a stocktake were applied
+ */
+export type StocktakeReasonCode = 'cycle_count' | 'damaged' | 'lost' | 'found' | 'correction'
+
+export const STOCKTAKE_REASON_CODES: StocktakeReasonCode[] = [
+  'cycle_count',
+  'damaged',
+  'lost',
+  'found',
+  'correction',
+]
+
+/**
+ * Which products a stocktake counts
+ * An empty filter counts every single product
+ */
+export interface StocktakeFilters {
+  search?: string // Barcode, name or SKU contains this text
+}
+
+/**
+ * Stocktake document from Appwrite
+ * One count session of a location
+ */
+export interface Stocktake extends Models.Document {
+  name: string
+  location_id: string | null // Location being counted (null for the default location)
+  blind: boolean // Hide system quantities from counters
+  filters: string | null // JSON StocktakeFilters
+  status: StocktakeStatus
+  item_count: number
+  created_by: string | null
+  created_by_name: string | null
+  reason_code: StocktakeReasonCode | null // Set when approved
+  notes: string | null
+  closed_by: string | null // Who approved or cancelled it
+  closed_by_name: string | null
+  closed_at: string | null
+}
+
+/**
+ * Stocktake item document from Appwrite
+ * One product of a stocktake, with the system quantity when the count started
+ */
+export interface StocktakeItem extends Models.Document {
+  stocktake_id: string
+  product_id: string
+  product_barcode: string
+  product_name: string | null
+  unit_cost: number | null
+  system_quantity: number // Stock at the location when the stocktake was created
+  counted_quantity: number | null // null until counted
+  counted_by: string | null
+  counted_at: string | null
+}
+
+/**
+ * Stocktake with its items
+ */
+export interface StocktakeWithItems extends Stocktake {
+  items: StocktakeItem[]
+}
+
+/**
+ * Counted quantity of one product
+ */
+export interface StocktakeCountInput {
+  product_barcode: string
+  counted_quantity: number | null // null clears the count
+}
+
+/**
+ * Input data for creating a stocktake
+ */
+export type CreateStocktakeInput = {
+  name: string
+  location_id?: string | null
+  blind?: boolean
+  filters?: StocktakeFilters
+}
+
+/**
+ * Totals of a stocktake's counts and variances
+ */
+export interface StocktakeSummary {
+  total: number
+  counted: number
+  uncounted: number
+  withVariance: number
+  unitsOver: number // Sum of positive variances
+  unitsShort: number // Sum of negative variances (as a positive number)
+  varianceValue: number // Net variance at unit cost
+}
+
+/**
+ * Collection IDs for Appwrite
+ */
+export const COLLECTIONS = {
+  STOCKTAKES: 'stocktakes',
+  STOCKTAKE_ITEMS: 'stocktake_items',
+} as const
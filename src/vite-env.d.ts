@@ -5,6 +5,7 @@ interface ImportMetaEnv {
   readonly VITE_APPWRITE_PROJECT_ID: string
   readonly VITE_APPWRITE_DATABASE_ID: string
   readonly VITE_APPWRITE_BUCKET_ID: string
+  readonly VITE_APPWRITE_ROLES_TEAM_ID?: string
 }
 
 interface ImportMeta {
@@ -6,11 +6,18 @@ import { Databases, ID } from 'node-appwrite'
 export type JobAuditActionType =
   | 'job_import_started'
   | 'job_import_completed'
+  | 'job_prealert_import_started'
+  | 'job_prealert_import_completed'
   | 'job_export_started'
   | 'job_export_completed'
   | 'job_report_export_started'
   | 'job_report_export_completed'
+  | 'job_receiving_export_started'
+  | 'job_receiving_export_completed'
+  | 'job_stocktake_export_started'
+  | 'job_stocktake_export_completed'
   | 'report_email_sent'
+  | 'report_schedule_run'
 
 /**
  * Audit log status
@@ -0,0 +1,135 @@
+export interface BundleComponentCell {
+  barcode: string
+  quantity: number
+}
+
+/**
+ * Parse a "Bundle Components" cell: comma-separated BARCODE:QUANTITY pairs
+ */
+export function parseBundleComponents(value: string): BundleComponentCell[] {
+  return value
+    .split(',')
+    .map((part) => part.trim().split(':'))
+    .filter(([barcode]) => barcode?.trim())
+    .map(([barcode, quantity]) => ({
+      barcode: barcode.trim(),
+      quantity: parseInt(quantity) || 1,
+    }))
+}
+
+/**
+ * Order imported bundles so nested bundles are saved before the bundles
+ * containing them. Bundles whose components lead round in a cycle are
+ * returned separately with the chain of barcodes.
+ * `existingComponents` holds the component barcodes of bundles not in the file.
+ */
+export function orderImportedBundles<T extends { barcode: string; components: string }>(
+  bundles: T[],
+  existingComponents: Map<string, string[]>
+): { ordered: T[]; cycles: Array<{ bundle: T; cycle: string[] }> } {
+  const byBarcode = new Map(bundles.map((bundle) => [bundle.barcode, bundle]))
+  const childrenOf = (barcode: string): string[] => {
+    const bundle = byBarcode.get(barcode)
+    return bundle
+      ? parseBundleComponents(bundle.components).map((component) => component.barcode)
+      : existingComponents.get(barcode) ?? []
+  }
+
+  const findCycle = (start: string): string[] | null => {
+    const done = new Set<string>()
+    const walk = (barcode: string, path: string[]): string[] | null => {
+      for (const child of childrenOf(barcode)) {
+        if (path.includes(child)) return [...path, child]
+        if (done.has(child)) continue
+        const cycle = walk(child, [...path, child])
+        if (cycle) return cycle
+      }
+      done.add(barcode)
+      return null
+    }
+    return walk(start, [start])
+  }
+
+  const cycles: Array<{ bundle: T; cycle: string[] }> = []
+  for (const bundle of bundles) {
+    const cycle = findCycle(bundle.barcode)
+    if (cycle) cycles.push({ bundle, cycle })
+  }
+  const cyclic = new Set(cycles.map(({ bundle }) => bundle.barcode))
+
+  // Depth first, so each bundle follows the bundles it contains
+  const ordered: T[] = []
+  const placed = new Set<string>()
+  const place = (barcode: string) => {
+    const bundle = byBarcode.get(barcode)
+    if (!bundle || placed.has(barcode) || cyclic.has(barcode)) return
+    placed.add(barcode)
+    childrenOf(barcode).forEach(place)
+    ordered.push(bundle)
+  }
+  bundles.forEach((bundle) => place(bundle.barcode))
+
+  return { ordered, cycles }
+}
+
+/**
+ * Buildable quantity of every bundle: each component's stock divided by the
+ * quantity one bundle takes, rounded down. Nested bundles are expanded into the
+ * products they contain; bundles caught in a cycle are left out.
+ */
+export function calculateBuildableQuantities(
+  products: Array<{ $id: string; type: string; stock_quantity: number }>,
+  components: Array<{ parent_product_id: string; child_product_id: string; quantity: number }>
+): Map<string, number> {
+  const productsById = new Map(products.map((product) => [product.$id, product]))
+  const componentsByParent = new Map<string, typeof components>()
+  for (const component of components) {
+    const siblings = componentsByParent.get(component.parent_product_id) ?? []
+    siblings.push(component)
+    componentsByParent.set(component.parent_product_id, siblings)
+  }
+
+  // Product ID to quantity of each stocked product in one bundle; null for cycles
+  const expanded = new Map<string, Map<string, number> | null>()
+  const expand = (bundleId: string, path: string[]): Map<string, number> | null => {
+    if (path.includes(bundleId)) return null
+    if (expanded.has(bundleId)) return expanded.get(bundleId)!
+
+    const leaves = new Map<string, number>()
+    for (const component of componentsByParent.get(bundleId) ?? []) {
+      const child = productsById.get(component.child_product_id)
+      if (child?.type !== 'bundle') {
+        leaves.set(component.child_product_id, (leaves.get(component.child_product_id) ?? 0) + component.quantity)
+        continue
+      }
+      const nested = expand(child.$id, [...path, bundleId])
+      if (!nested) {
+        expanded.set(bundleId, null)
+        return null
+      }
+      for (const [productId, quantity] of nested) {
+        leaves.set(productId, (leaves.get(productId) ?? 0) + quantity * component.quantity)
+      }
+    }
+    expanded.set(bundleId, leaves)
+    return leaves
+  }
+
+  const buildable = new Map<string, number>()
+  for (const product of products) {
+    if (product.type !== 'bundle') continue
+    const leaves = expand(product.$id, [])
+    if (!leaves) continue
+    buildable.set(
+      product.$id,
+      leaves.size === 0
+        ? 0
+        : Math.min(
+            ...[...leaves].map(([productId, quantity]) =>
+              Math.max(0, Math.floor((productsById.get(productId)?.stock_quantity ?? 0) / Math.max(quantity, 1)))
+            )
+          )
+    )
+  }
+  return buildable
+}
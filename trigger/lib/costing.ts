@@ -0,0 +1,78 @@
+export type BundleCosting = 'bundle' | 'components'
+
+export interface CostedItem {
+  unit_cost: number | null
+  components_snapshot: string | null
+}
+
+export interface CatalogueProduct {
+  $id: string
+  type: string
+  cost: number
+}
+
+export interface CatalogueComponent {
+  child_product_id: string
+  quantity: number
+}
+
+/**
+ * Read the bundle costing setting: bundles are costed from their own cost
+ * unless it is set to 'components'
+ */
+export function getBundleCosting(value: string | undefined): BundleCosting {
+  return value?.trim().toLowerCase() === 'components' ? 'components' : 'bundle'
+}
+
+/**
+ * Round a cost to cents
+ */
+export function roundCost(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+/**
+ * Current cost of the products a bundle holds, as create-packaging would
+ * snapshot it now. Nested bundles are costed from the products they hold;
+ * a bundle that contains itself counts at its own cost
+ */
+export function getComponentsCost(
+  bundle: CatalogueProduct,
+  productsById: Map<string, CatalogueProduct>,
+  componentsByParent: Map<string, CatalogueComponent[]>,
+  path: string[] = [bundle.$id]
+): number {
+  let cost = 0
+  for (const component of componentsByParent.get(bundle.$id) ?? []) {
+    const product = productsById.get(component.child_product_id)
+    if (!product) continue
+
+    const unitCost = product.type === 'bundle' && !path.includes(product.$id)
+      ? getComponentsCost(product, productsById, componentsByParent, [...path, product.$id])
+      : product.cost
+    cost += unitCost * component.quantity
+  }
+  return roundCost(cost)
+}
+
+/**
+ * Cost of one packed item, as recorded at pack time
+ * With 'components' costing a bundle costs the sum of the products it held.
+ * Items packed before snapshots were recorded use `currentCost`, or with
+ * 'components' costing, `currentComponentsCost` when the item is a bundle.
+ */
+export function getItemCost(
+  item: CostedItem,
+  costing: BundleCosting,
+  currentCost: number,
+  currentComponentsCost?: number
+): number {
+  if (item.unit_cost === null) {
+    return costing === 'components' && currentComponentsCost !== undefined ? currentComponentsCost : currentCost
+  }
+  if (costing === 'components' && item.components_snapshot) {
+    const components = JSON.parse(item.components_snapshot) as Array<{ quantity: number; unit_cost: number }>
+    return roundCost(components.reduce((sum, component) => sum + component.unit_cost * component.quantity, 0))
+  }
+  return item.unit_cost
+}
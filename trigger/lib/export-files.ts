@@ -0,0 +1,80 @@
+import { once } from 'events'
+import * as fs from 'fs'
+
+export type ExportFormat = 'excel' | 'pdf' | 'csv' | 'json'
+
+export const EXPORT_EXTENSIONS: Record<ExportFormat, string> = {
+  excel: 'xlsx',
+  pdf: 'pdf',
+  csv: 'csv',
+  json: 'json',
+}
+
+/**
+ * Quote a CSV field when it contains separators, quotes or newlines
+ */
+export function escapeCsv(value: unknown): string {
+  const text = value == null ? '' : String(value)
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Write text to a file a piece at a time, waiting whenever the file falls behind
+ */
+async function writeStreamed(filePath: string, pieces: Iterable<string>): Promise<void> {
+  const output = fs.createWriteStream(filePath)
+
+  for (const piece of pieces) {
+    if (!output.write(piece)) {
+      await once(output, 'drain')
+    }
+  }
+
+  output.end()
+  await once(output, 'finish')
+}
+
+/**
+ * Write rows to a CSV file with a header line of the given columns
+ */
+export async function writeCsvFile(
+  filePath: string,
+  columns: string[],
+  rows: Iterable<Record<string, unknown>>
+): Promise<void> {
+  function* lines(): Iterable<string> {
+    yield columns.map(escapeCsv).join(',') + '\n'
+    for (const row of rows) {
+      yield columns.map((column) => escapeCsv(row[column])).join(',') + '\n'
+    }
+  }
+
+  await writeStreamed(filePath, lines())
+}
+
+/**
+ * Write a JSON object whose properties are lists of rows, one row at a time
+ */
+export async function writeJsonFile(
+  filePath: string,
+  sections: Record<string, Iterable<unknown>>
+): Promise<void> {
+  function* pieces(): Iterable<string> {
+    yield '{'
+    let firstSection = true
+    for (const [name, rows] of Object.entries(sections)) {
+      yield `${firstSection ? '' : ','}\n  ${JSON.stringify(name)}: [`
+      firstSection = false
+
+      let firstRow = true
+      for (const row of rows) {
+        yield `${firstRow ? '' : ','}\n    ${JSON.stringify(row)}`
+        firstRow = false
+      }
+      yield firstRow ? ']' : '\n  ]'
+    }
+    yield '\n}\n'
+  }
+
+  await writeStreamed(filePath, pieces())
+}
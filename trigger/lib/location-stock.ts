@@ -0,0 +1,93 @@
+import { Databases, Query } from 'node-appwrite'
+
+const LOCATIONS_COLLECTION = 'locations'
+const PRODUCT_STOCK_COLLECTION = 'product_stock'
+const PAGE_SIZE = 100
+
+export interface StockLocation {
+  $id: string
+  name: string
+  code: string
+  is_default: boolean
+}
+
+/**
+ * Fetch all locations, default location first
+ */
+export async function fetchLocations(databases: Databases): Promise<StockLocation[]> {
+  const databaseId = process.env.APPWRITE_DATABASE_ID!
+
+  const result = await databases.listDocuments(databaseId, LOCATIONS_COLLECTION, [
+    Query.orderDesc('is_default'),
+    Query.orderAsc('name'),
+    Query.limit(100),
+  ])
+
+  return result.documents.map((doc) => ({
+    $id: doc.$id,
+    name: doc.name as string,
+    code: doc.code as string,
+    is_default: Boolean(doc.is_default),
+  }))
+}
+
+/**
+ * Fetch every per-location stock row
+ * Returns a map of product ID to (location ID to quantity)
+ */
+export async function fetchLocationStock(
+  databases: Databases
+): Promise<Map<string, Map<string, number>>> {
+  const databaseId = process.env.APPWRITE_DATABASE_ID!
+  const stock = new Map<string, Map<string, number>>()
+  let offset = 0
+
+  while (true) {
+    const result = await databases.listDocuments(databaseId, PRODUCT_STOCK_COLLECTION, [
+      Query.limit(PAGE_SIZE),
+      Query.offset(offset),
+    ])
+
+    for (const doc of result.documents) {
+      const productId = doc.product_id as string
+      const byLocation = stock.get(productId) ?? new Map<string, number>()
+      byLocation.set(doc.location_id as string, (doc.quantity as number) ?? 0)
+      stock.set(productId, byLocation)
+    }
+
+    if (result.documents.length < PAGE_SIZE) break
+    offset += PAGE_SIZE
+  }
+
+  return stock
+}
+
+/**
+ * Split a product's total stock across locations.
+ * Non-default locations use their stock rows; the default location holds
+ * the total minus everything assigned elsewhere.
+ */
+export function getStockByLocation(
+  productId: string,
+  totalStock: number,
+  locations: StockLocation[],
+  locationStock: Map<string, Map<string, number>>
+): Map<string, number> {
+  const byLocation = locationStock.get(productId)
+  const quantities = new Map<string, number>()
+  let assigned = 0
+
+  for (const location of locations) {
+    if (location.is_default) continue
+    const quantity = byLocation?.get(location.$id) ?? 0
+    quantities.set(location.$id, quantity)
+    assigned += quantity
+  }
+
+  const defaultLocation = locations.find((location) => location.is_default)
+  if (defaultLocation) {
+    quantities.set(defaultLocation.$id, Math.max(0, totalStock - assigned))
+  }
+
+  return quantities
+}
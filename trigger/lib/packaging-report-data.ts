@@ -0,0 +1,415 @@
+import { Databases, Models, Query } from 'node-appwrite'
+import { type CatalogueComponent, getComponentsCost } from './costing'
+
+const COLLECTIONS = {
+  PACKAGING_RECORDS: 'packaging_records',
+  PACKAGING_ITEMS: 'packaging_items',
+  PACKAGING_CACHE: 'packaging_cache',
+  PRODUCTS: 'products',
+  PRODUCT_COMPONENTS: 'product_components',
+} as const
+
+const RECORD_PAGE_SIZE = 500
+const ITEM_PAGE_SIZE = 1000
+const COMPONENT_PAGE_SIZE = 1000
+const QUERY_VALUES_LIMIT = 60 // Appwrite Query.equal() has a limit of 60 values
+const CACHE_DATES_PER_REQUEST = 10 // A cached day can hold up to 1MB of JSON
+const DAY_MS = 24 * 60 * 60 * 1000
+const LAST_DAY_END_MS = 36 * 60 * 60 * 1000 // A date ends last at UTC-12
+
+/**
+ * Version of the cached day layout; caches of another version are read
+ * from the database instead
+ * 2: records keep every field, not just their date and waybill
+ * Mirrors PACKAGING_CACHE_VERSION in src/types/packaging.ts
+ */
+export const PACKAGING_CACHE_VERSION = 2
+
+export interface PackagingRecord {
+  $id: string
+  $createdAt: string
+  packaging_date: string
+  waybill_number: string
+  location_id: string | null
+  courier_id: string | null
+  packed_by: string | null
+  packed_by_name: string | null
+  started_at: string | null
+  finished_at: string | null
+}
+
+export interface PackagingItem {
+  $id: string
+  packaging_record_id: string
+  product_barcode: string
+  scanned_at: string
+  product_name: string | null // Name at pack time (null before snapshots)
+  unit_cost: number | null
+  components_snapshot: string | null
+}
+
+export interface Product {
+  $id: string
+  barcode: string
+  name: string
+  type: string
+  stock_quantity: number
+  cost: number
+}
+
+export interface PackagingReportData {
+  records: PackagingRecord[] // By date, then in the order they were packed
+  items: PackagingItem[] // By record, then by scan time
+  products: Map<string, Product> // By barcode; products deleted since are missing
+  componentCosts: Map<string, number> // By bundle barcode, for bundles packed before snapshots
+  cachedDays: number
+  requests: number
+}
+
+type ListDocuments = (
+  collectionId: string,
+  queries: string[]
+) => Promise<Models.DocumentList<Models.DefaultDocument>>
+
+function toRecord(doc: Record<string, unknown>): PackagingRecord {
+  return {
+    $id: doc.$id as string,
+    $createdAt: (doc.$createdAt as string) ?? '',
+    packaging_date: doc.packaging_date as string,
+    waybill_number: doc.waybill_number as string,
+    location_id: (doc.location_id as string | null) ?? null,
+    courier_id: (doc.courier_id as string | null) ?? null,
+    packed_by: (doc.packed_by as string | null) ?? null,
+    packed_by_name: (doc.packed_by_name as string | null) ?? null,
+    started_at: (doc.started_at as string | null) ?? null,
+    finished_at: (doc.finished_at as string | null) ?? null,
+  }
+}
+
+function toItem(doc: Record<string, unknown>): PackagingItem {
+  return {
+    $id: doc.$id as string,
+    packaging_record_id: doc.packaging_record_id as string,
+    product_barcode: doc.product_barcode as string,
+    scanned_at: doc.scanned_at as string,
+    product_name: (doc.product_name as string | null) ?? null,
+    unit_cost: (doc.unit_cost as number | null) ?? null,
+    components_snapshot: (doc.components_snapshot as string | null) ?? null,
+  }
+}
+
+/**
+ * Replace each bundle with the products it held when it was packed, one
+ * item per unit, costed and named as snapshotted
+ * Bundles packed before snapshots were recorded stay whole
+ */
+export function explodeBundleItems(items: PackagingItem[]): PackagingItem[] {
+  return items.flatMap((item) => {
+    if (!item.components_snapshot) return [item]
+
+    const components = JSON.parse(item.components_snapshot) as Array<{
+      barcode: string
+      product_name: string
+      quantity: number
+      unit_cost: number
+    }>
+    return components.flatMap((component, index) =>
+      Array.from({ length: component.quantity }, (_, unit) => ({
+        $id: `${item.$id}:${index}:${unit}`,
+        packaging_record_id: item.packaging_record_id,
+        product_barcode: component.barcode,
+        scanned_at: item.scanned_at,
+        product_name: component.product_name,
+        unit_cost: component.unit_cost,
+        components_snapshot: null,
+      }))
+    )
+  })
+}
+
+function chunk<T>(values: T[], size: number): T[][] {
+  const chunks: T[][] = []
+  for (let i = 0; i < values.length; i += size) {
+    chunks.push(values.slice(i, i + size))
+  }
+  return chunks
+}
+
+/**
+ * Every date from start to end, inclusive
+ */
+export function getDatesInRange(startDate: string, endDate: string): string[] {
+  const dates: string[] = []
+  const end = Date.parse(`${endDate}T00:00:00.000Z`)
+
+  for (let day = Date.parse(`${startDate}T00:00:00.000Z`); day <= end; day += DAY_MS) {
+    dates.push(new Date(day).toISOString().slice(0, 10))
+  }
+
+  return dates
+}
+
+/**
+ * Whether a cached day can stand in for its records: it must have been
+ * written after the date ended in every time zone, or waybills packed
+ * later that day would be missing
+ * New, edited and deleted records of past dates drop the cache, so a
+ * complete one stays complete
+ */
+export function isCacheComplete(cacheDate: string, cachedAt: string): boolean {
+  return Date.parse(cachedAt) >= Date.parse(`${cacheDate}T00:00:00.000Z`) + LAST_DAY_END_MS
+}
+
+/**
+ * Page through a query with cursors, so deep pages cost no more than the first
+ */
+async function listAll(
+  list: ListDocuments,
+  collectionId: string,
+  queries: string[],
+  pageSize: number
+): Promise<Models.DefaultDocument[]> {
+  const documents: Models.DefaultDocument[] = []
+  let cursor: string | null = null
+
+  while (true) {
+    const result = await list(collectionId, [
+      ...queries,
+      Query.limit(pageSize),
+      ...(cursor ? [Query.cursorAfter(cursor)] : []),
+    ])
+    documents.push(...result.documents)
+
+    if (result.documents.length < pageSize) break
+    cursor = result.documents[result.documents.length - 1].$id
+  }
+
+  return documents
+}
+
+function toProduct(doc: Record<string, unknown>): Product {
+  return {
+    $id: doc.$id as string,
+    barcode: doc.barcode as string,
+    name: doc.name as string,
+    type: doc.type as string,
+    stock_quantity: (doc.stock_quantity as number) ?? 0,
+    cost: (doc.cost as number) ?? 0,
+  }
+}
+
+/**
+ * Current cost of the components of each bundle, by bundle barcode
+ * Nested bundles are followed down to the products they hold, one level of
+ * the catalogue at a time
+ */
+async function fetchComponentCosts(list: ListDocuments, bundles: Product[]): Promise<Map<string, number>> {
+  const productsById = new Map<string, Product>(bundles.map((bundle) => [bundle.$id, bundle]))
+  const componentsByParent = new Map<string, CatalogueComponent[]>()
+  let parentIds = bundles.map((bundle) => bundle.$id)
+
+  while (parentIds.length > 0) {
+    const childIds = new Set<string>()
+    for (const parentChunk of chunk(parentIds, QUERY_VALUES_LIMIT)) {
+      const components = await listAll(
+        list,
+        COLLECTIONS.PRODUCT_COMPONENTS,
+        [Query.equal('parent_product_id', parentChunk)],
+        COMPONENT_PAGE_SIZE
+      )
+
+      for (const doc of components) {
+        const parentId = doc.parent_product_id as string
+        const childId = doc.child_product_id as string
+        const parentComponents = componentsByParent.get(parentId) ?? []
+        parentComponents.push({ child_product_id: childId, quantity: doc.quantity as number })
+        componentsByParent.set(parentId, parentComponents)
+        childIds.add(childId)
+      }
+    }
+
+    const missingIds = [...childIds].filter((id) => !productsById.has(id))
+    parentIds = []
+    for (const idChunk of chunk(missingIds, QUERY_VALUES_LIMIT)) {
+      const result = await list(COLLECTIONS.PRODUCTS, [
+        Query.equal('$id', idChunk),
+        Query.limit(idChunk.length),
+      ])
+
+      for (const doc of result.documents) {
+        const product = toProduct(doc)
+        productsById.set(product.$id, product)
+        if (product.type === 'bundle') parentIds.push(product.$id)
+      }
+    }
+  }
+
+  return new Map(
+    bundles.map((bundle) => [bundle.barcode, getComponentsCost(bundle, productsById, componentsByParent)])
+  )
+}
+
+/**
+ * Records and items of the days in the packaging cache
+ * Days with an incomplete, outdated or unreadable cache are left out
+ */
+async function fetchCachedDays(
+  list: ListDocuments,
+  dates: string[]
+): Promise<Map<string, { records: PackagingRecord[]; items: PackagingItem[] }>> {
+  const days = new Map<string, { records: PackagingRecord[]; items: PackagingItem[] }>()
+  const now = Date.now()
+  const endedDates = dates.filter(
+    (date) => Date.parse(`${date}T00:00:00.000Z`) + LAST_DAY_END_MS <= now
+  )
+
+  for (const dateChunk of chunk(endedDates, CACHE_DATES_PER_REQUEST)) {
+    const result = await list(COLLECTIONS.PACKAGING_CACHE, [
+      Query.equal('cache_date', dateChunk),
+      Query.limit(dateChunk.length),
+    ])
+
+    for (const cache of result.documents) {
+      const cacheDate = cache.cache_date as string
+      if (cache.schema_version !== PACKAGING_CACHE_VERSION) continue
+      if (!isCacheComplete(cacheDate, cache.cached_at as string)) continue
+
+      try {
+        const cachedRecords = JSON.parse(cache.data as string) as Array<
+          Record<string, unknown> & { items?: Array<Record<string, unknown>> }
+        >
+        days.set(cacheDate, {
+          records: cachedRecords.map(toRecord),
+          items: cachedRecords.flatMap((record) => (record.items ?? []).map(toItem)),
+        })
+      } catch {
+        // Read the day from the database instead
+      }
+    }
+  }
+
+  return days
+}
+
+/**
+ * Load everything a packaging report needs for a date range
+ * Finished days come from the packaging cache; the rest are read with one
+ * query per page of records, items of up to 60 records at a time and
+ * products of up to 60 barcodes at a time
+ * With `explodeBundles`, bundle items are replaced by their components
+ * With `costBundlesFromComponents`, bundles packed before snapshots were
+ * recorded get the current cost of their components in `componentCosts`
+ */
+export async function loadPackagingReportData(
+  databases: Databases,
+  {
+    startDate,
+    endDate,
+    courierId,
+    explodeBundles = false,
+    costBundlesFromComponents = false,
+  }: {
+    startDate: string
+    endDate: string
+    courierId?: string
+    explodeBundles?: boolean
+    costBundlesFromComponents?: boolean
+  }
+): Promise<PackagingReportData> {
+  const databaseId = process.env.APPWRITE_DATABASE_ID!
+  let requests = 0
+  const list: ListDocuments = (collectionId, queries) => {
+    requests++
+    return databases.listDocuments(databaseId, collectionId, queries)
+  }
+
+  const dates = getDatesInRange(startDate, endDate)
+  const cachedDays = await fetchCachedDays(list, dates)
+
+  const records: PackagingRecord[] = []
+  const items: PackagingItem[] = []
+  for (const day of cachedDays.values()) {
+    const dayRecords = courierId
+      ? day.records.filter((record) => record.courier_id === courierId)
+      : day.records
+    const recordIds = new Set(dayRecords.map((record) => record.$id))
+    records.push(...dayRecords)
+    items.push(...day.items.filter((item) => recordIds.has(item.packaging_record_id)))
+  }
+
+  // Days without a cache are read from the database
+  const liveDates = dates.filter((date) => !cachedDays.has(date))
+  for (const dateChunk of chunk(liveDates, QUERY_VALUES_LIMIT)) {
+    const liveRecords = await listAll(
+      list,
+      COLLECTIONS.PACKAGING_RECORDS,
+      [
+        Query.equal('packaging_date', dateChunk),
+        ...(courierId ? [Query.equal('courier_id', courierId)] : []),
+        Query.orderAsc('packaging_date'),
+      ],
+      RECORD_PAGE_SIZE
+    )
+
+    for (const recordChunk of chunk(liveRecords, QUERY_VALUES_LIMIT)) {
+      const liveItems = await listAll(
+        list,
+        COLLECTIONS.PACKAGING_ITEMS,
+        [
+          Query.equal('packaging_record_id', recordChunk.map((record) => record.$id)),
+          Query.orderAsc('scanned_at'),
+        ],
+        ITEM_PAGE_SIZE
+      )
+      records.push(...recordChunk.map(toRecord))
+      items.push(...liveItems.map(toItem))
+    }
+  }
+
+  records.sort(
+    (a, b) => a.packaging_date.localeCompare(b.packaging_date) || a.$createdAt.localeCompare(b.$createdAt)
+  )
+
+  const itemsByRecord = new Map<string, PackagingItem[]>()
+  for (const item of items) {
+    const recordItems = itemsByRecord.get(item.packaging_record_id) ?? []
+    recordItems.push(item)
+    itemsByRecord.set(item.packaging_record_id, recordItems)
+  }
+  const sortedItems = records.flatMap((record) =>
+    (itemsByRecord.get(record.$id) ?? []).sort((a, b) => a.scanned_at.localeCompare(b.scanned_at))
+  )
+  const orderedItems = explodeBundles ? explodeBundleItems(sortedItems) : sortedItems
+
+  const products = new Map<string, Product>()
+  const barcodes = [...new Set(orderedItems.map((item) => item.product_barcode))]
+  for (const barcodeChunk of chunk(barcodes, QUERY_VALUES_LIMIT)) {
+    const result = await list(COLLECTIONS.PRODUCTS, [
+      Query.equal('barcode', barcodeChunk),
+      Query.limit(barcodeChunk.length),
+    ])
+
+    for (const doc of result.documents) {
+      products.set(doc.barcode as string, toProduct(doc))
+    }
+  }
+
+  // Bundles packed before snapshots have no record of what they held
+  const unsnapshottedBundles = costBundlesFromComponents
+    ? [...new Set(orderedItems.filter((item) => item.unit_cost === null).map((item) => item.product_barcode))]
+        .map((barcode) => products.get(barcode))
+        .filter((product): product is Product => product?.type === 'bundle')
+    : []
+  const componentCosts = unsnapshottedBundles.length > 0
+    ? await fetchComponentCosts(list, unsnapshottedBundles)
+    : new Map<string, number>()
+
+  return {
+    records,
+    items: orderedItems,
+    products,
+    componentCosts,
+    cachedDays: cachedDays.size,
+    requests,
+  }
+}
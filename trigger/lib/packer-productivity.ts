@@ -0,0 +1,98 @@
+// A break longer than this between two waybills starts a new shift
+const SHIFT_BREAK_MS = 2 * 60 * 60 * 1000
+
+// A pause between waybills longer than this, within a shift, is idle time
+const IDLE_GAP_MS = 5 * 60 * 1000
+
+export interface PackedWaybill {
+  packed_by: string
+  packed_by_name: string | null
+  packaging_date: string
+  started_at: string
+  finished_at: string
+  items: number
+}
+
+export interface PackerShift {
+  packerId: string
+  packerName: string
+  date: string // Packaging date of the shift's first waybill
+  start: string // ISO datetime the first waybill was scanned
+  end: string // ISO datetime the last waybill was completed
+  waybills: number
+  items: number
+  avgSecondsPerWaybill: number
+  idleGaps: number
+  idleMinutes: number
+}
+
+/**
+ * Split each packer's waybills into shifts and measure them
+ * Shifts are ordered by packer name, then start time
+ */
+export function buildPackerShifts(waybills: PackedWaybill[]): PackerShift[] {
+  const byPacker = new Map<string, PackedWaybill[]>()
+  for (const waybill of waybills) {
+    const list = byPacker.get(waybill.packed_by) ?? []
+    list.push(waybill)
+    byPacker.set(waybill.packed_by, list)
+  }
+
+  const shifts: PackerShift[] = []
+
+  for (const [packerId, packed] of byPacker) {
+    packed.sort((a, b) => a.started_at.localeCompare(b.started_at))
+    // Latest name wins, in case the packer was renamed during the period
+    const packerName = packed[packed.length - 1].packed_by_name || packerId
+
+    let shift: PackerShift | null = null
+    let packingMs = 0
+    let lastFinished = 0
+
+    const closeShift = () => {
+      if (!shift) return
+      shift.avgSecondsPerWaybill = Math.round(packingMs / shift.waybills / 1000)
+      shifts.push(shift)
+    }
+
+    for (const waybill of packed) {
+      const started = new Date(waybill.started_at).getTime()
+      const finished = new Date(waybill.finished_at).getTime()
+      const gap = started - lastFinished
+
+      if (!shift || gap > SHIFT_BREAK_MS) {
+        closeShift()
+        shift = {
+          packerId,
+          packerName,
+          date: waybill.packaging_date,
+          start: waybill.started_at,
+          end: waybill.finished_at,
+          waybills: 0,
+          items: 0,
+          avgSecondsPerWaybill: 0,
+          idleGaps: 0,
+          idleMinutes: 0,
+        }
+        packingMs = 0
+      } else if (gap > IDLE_GAP_MS) {
+        shift.idleGaps += 1
+        shift.idleMinutes += Math.round(gap / 60000)
+      }
+
+      shift.waybills += 1
+      shift.items += waybill.items
+      packingMs += Math.max(0, finished - started)
+      if (finished > lastFinished) {
+        lastFinished = finished
+        shift.end = waybill.finished_at
+      }
+    }
+
+    closeShift()
+  }
+
+  return shifts.sort(
+    (a, b) => a.packerName.localeCompare(b.packerName) || a.start.localeCompare(b.start)
+  )
+}
@@ -0,0 +1,124 @@
+import { logger } from "@trigger.dev/sdk/v3";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import { fileURLToPath } from "url";
+
+// ESM-compatible __dirname
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Cache for font file path
+let cachedFontPath: string | null = null;
+
+function getBundledFontPath(): string | null {
+  // Try to find the bundled font file
+  // In trigger.dev, additionalFiles are copied relative to the project root
+  const possiblePaths = [
+    // Trigger.dev production paths (additionalFiles preserves directory structure)
+    "/app/trigger/fonts/NotoSansSC-Regular.ttf",
+    "/app/fonts/NotoSansSC-Regular.ttf",
+    // Relative to current file in trigger directory
+    path.join(__dirname, "fonts", "NotoSansSC-Regular.ttf"),
+    path.join(__dirname, "..", "fonts", "NotoSansSC-Regular.ttf"),
+    // One level up from __dirname (if task file is in trigger/)
+    path.join(__dirname, "..", "trigger", "fonts", "NotoSansSC-Regular.ttf"),
+    // Relative to process cwd
+    path.join(process.cwd(), "trigger", "fonts", "NotoSansSC-Regular.ttf"),
+    path.join(process.cwd(), "fonts", "NotoSansSC-Regular.ttf"),
+    // Direct path in build output
+    "./trigger/fonts/NotoSansSC-Regular.ttf",
+    "./fonts/NotoSansSC-Regular.ttf",
+  ];
+
+  logger.info("Searching for bundled font", {
+    __dirname,
+    cwd: process.cwd(),
+  });
+
+  for (const fontPath of possiblePaths) {
+    try {
+      const resolvedPath = path.resolve(fontPath);
+      if (fs.existsSync(resolvedPath)) {
+        logger.info(`Found bundled font at ${resolvedPath}`);
+        return resolvedPath;
+      }
+    } catch (err) {
+      logger.debug(`Error checking path ${fontPath}`, { error: err });
+    }
+  }
+
+  // List directory contents for debugging
+  try {
+    const appContents = fs.existsSync("/app") ? fs.readdirSync("/app") : [];
+    const triggerContents = fs.existsSync("/app/trigger") ? fs.readdirSync("/app/trigger") : [];
+    logger.info("Directory listing for debugging", {
+      app_contents: appContents,
+      trigger_contents: triggerContents,
+      __dirname_contents: fs.existsSync(__dirname) ? fs.readdirSync(__dirname) : "dir not found",
+    });
+  } catch (err) {
+    logger.warn("Failed to list directories for debugging", { error: err });
+  }
+
+  return null;
+}
+
+/**
+ * Path of a font with Chinese glyphs for PDF reports: the bundled font,
+ * or one downloaded from a CDN when the bundle has none
+ */
+export async function ensureFontFile(): Promise<string> {
+  if (cachedFontPath && fs.existsSync(cachedFontPath)) {
+    return cachedFontPath;
+  }
+
+  // First try bundled font
+  const bundledPath = getBundledFontPath();
+  if (bundledPath) {
+    cachedFontPath = bundledPath;
+    return bundledPath;
+  }
+
+  logger.info("Bundled font not found, trying CDN fallbacks");
+
+  // Fetch Noto Sans SC font from CDN (supports Chinese characters)
+  const fontUrls = [
+    // Google Fonts direct link
+    "https://fonts.gstatic.com/s/notosanssc/v37/k3kCo84MPvpLmixcA63oeAL7Iqp5IZJF9bmaG9_EnYxNbPzS5HE.ttf",
+    // jsDelivr CDN with fontsource package
+    "https://cdn.jsdelivr.net/npm/@fontsource/noto-sans-sc@5.0.19/files/noto-sans-sc-chinese-simplified-400-normal.woff",
+    // Backup: Use a simpler Latin font if Chinese font fails
+    "https://fonts.gstatic.com/s/notosans/v36/o-0mIpQlx3QUlC5A4PNB6Ryti20_6n1iPHjcz6L1SoM-jCpoiyD9A99e.ttf",
+  ];
+
+  for (const url of fontUrls) {
+    try {
+      logger.info(`Fetching font from ${url}`);
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), 30000); // 30s timeout
+
+      const response = await fetch(url, { signal: controller.signal });
+      clearTimeout(timeoutId);
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      const arrayBuffer = await response.arrayBuffer();
+      const fontBuffer = Buffer.from(arrayBuffer);
+      logger.info(`Font loaded, size: ${fontBuffer.length} bytes`);
+
+      // Write to temp file so pdfkit can use it
+      const tempDir = os.tmpdir();
+      const fontPath = path.join(tempDir, "NotoSansSC-Regular.ttf");
+      fs.writeFileSync(fontPath, fontBuffer);
+      cachedFontPath = fontPath;
+      logger.info(`Font written to ${fontPath}`);
+      return fontPath;
+    } catch (error) {
+      logger.warn(`Failed to fetch font from ${url}`, { error });
+    }
+  }
+
+  throw new Error("Failed to fetch font from all sources");
+}
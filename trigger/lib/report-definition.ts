@@ -0,0 +1,119 @@
+/**
+ * Report definitions choose what a packaging report holds
+ * Mirrors the types in src/types/report-template.ts
+ */
+export type ReportSection =
+  | 'summary'
+  | 'daily-summary'
+  | 'product-quantities'
+  | 'waybill-costs'
+  | 'stock-by-location'
+  | 'packer-productivity'
+  | 'breakdown'
+  | 'details'
+
+export type ReportGrouping = 'day' | 'waybill' | 'product' | 'packer' | 'courier'
+
+export type ReportColumn =
+  | 'date'
+  | 'waybill'
+  | 'courier'
+  | 'location'
+  | 'packer'
+  | 'barcode'
+  | 'product'
+  | 'unit-cost'
+  | 'scanned-at'
+
+export type ReportSortKey = 'group' | 'waybills' | 'items' | 'cost'
+
+export type ReportSortDirection = 'asc' | 'desc'
+
+export type ReportBundleMode = 'as-is' | 'exploded'
+
+export interface ReportDefinition {
+  sections: ReportSection[] // In the order they are written
+  groupBy: ReportGrouping // Rows of the breakdown section
+  columns: ReportColumn[] // Columns of the details section, in order
+  sortBy: ReportSortKey // Order of the breakdown rows
+  sortDirection: ReportSortDirection
+  bundles: ReportBundleMode // Exploded bundles count as the products they held
+}
+
+const REPORT_SECTIONS: ReportSection[] = [
+  'summary',
+  'daily-summary',
+  'product-quantities',
+  'waybill-costs',
+  'stock-by-location',
+  'packer-productivity',
+  'breakdown',
+  'details',
+]
+const REPORT_GROUPINGS: ReportGrouping[] = ['day', 'waybill', 'product', 'packer', 'courier']
+const REPORT_COLUMNS: ReportColumn[] = [
+  'date',
+  'waybill',
+  'courier',
+  'location',
+  'packer',
+  'barcode',
+  'product',
+  'unit-cost',
+  'scanned-at',
+]
+const REPORT_SORT_KEYS: ReportSortKey[] = ['group', 'waybills', 'items', 'cost']
+
+/**
+ * The standard report: every fixed section, bundles as packed
+ */
+export const DEFAULT_REPORT_DEFINITION: ReportDefinition = {
+  sections: [
+    'summary',
+    'daily-summary',
+    'product-quantities',
+    'waybill-costs',
+    'stock-by-location',
+    'packer-productivity',
+    'details',
+  ],
+  groupBy: 'day',
+  columns: ['date', 'waybill', 'courier', 'location', 'barcode', 'product', 'unit-cost', 'scanned-at'],
+  sortBy: 'group',
+  sortDirection: 'asc',
+  bundles: 'as-is',
+}
+
+function pickList<T extends string>(value: unknown, allowed: T[], fallback: T[]): T[] {
+  if (!Array.isArray(value)) return fallback
+  const picked = [...new Set(value.filter((entry): entry is T => allowed.includes(entry)))]
+  return picked.length > 0 ? picked : fallback
+}
+
+function pickOne<T extends string>(value: unknown, allowed: T[], fallback: T): T {
+  return allowed.includes(value as T) ? (value as T) : fallback
+}
+
+/**
+ * Read a saved report definition; unknown values fall back to the standard report
+ * Mirrors parseReportDefinition in src/lib/appwrite/report-templates.ts
+ */
+export function parseReportDefinition(json: string | null): ReportDefinition {
+  let saved: Record<string, unknown> = {}
+  try {
+    const parsed = json ? JSON.parse(json) : {}
+    if (parsed && typeof parsed === 'object') saved = parsed
+  } catch {
+    // Use the standard report
+  }
+
+  const fallback = DEFAULT_REPORT_DEFINITION
+  return {
+    sections: pickList(saved.sections, REPORT_SECTIONS, fallback.sections),
+    groupBy: pickOne(saved.groupBy, REPORT_GROUPINGS, fallback.groupBy),
+    columns: pickList(saved.columns, REPORT_COLUMNS, fallback.columns),
+    sortBy: pickOne(saved.sortBy, REPORT_SORT_KEYS, fallback.sortBy),
+    sortDirection: saved.sortDirection === 'desc' ? 'desc' : 'asc',
+    bundles: saved.bundles === 'exploded' ? 'exploded' : 'as-is',
+  }
+}
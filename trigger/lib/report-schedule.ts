@@ -0,0 +1,81 @@
+export type ReportScheduleFrequency = 'daily' | 'weekly' | 'monthly'
+
+export type ReportScheduleRange = 'yesterday' | 'last_7_days' | 'last_week' | 'last_month'
+
+export interface ScheduleTiming {
+  frequency: ReportScheduleFrequency
+  hour: number
+  day_of_week: number | null
+  day_of_month: number | null
+  utc_offset: number // Minutes ahead of UTC
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const MINUTE_MS = 60 * 1000
+
+/**
+ * Next time a schedule is due, strictly after the given time
+ * Mirrors getNextRunAt in src/lib/appwrite/report-schedules.ts
+ */
+export function getNextRunAt(schedule: ScheduleTiming, after: Date = new Date()): Date {
+  const offsetMs = schedule.utc_offset * MINUTE_MS
+  const local = new Date(after.getTime() + offsetMs)
+  const year = local.getUTCFullYear()
+  const month = local.getUTCMonth()
+  const day = local.getUTCDate()
+
+  let candidate: number
+  if (schedule.frequency === 'monthly') {
+    const dayOfMonth = schedule.day_of_month ?? 1
+    candidate = Date.UTC(year, month, dayOfMonth, schedule.hour)
+    if (candidate <= local.getTime()) {
+      candidate = Date.UTC(year, month + 1, dayOfMonth, schedule.hour)
+    }
+  } else {
+    candidate = Date.UTC(year, month, day, schedule.hour)
+    if (schedule.frequency === 'weekly') {
+      const dayOfWeek = schedule.day_of_week ?? 1
+      candidate += ((dayOfWeek - local.getUTCDay() + 7) % 7) * DAY_MS
+      if (candidate <= local.getTime()) candidate += 7 * DAY_MS
+    } else if (candidate <= local.getTime()) {
+      candidate += DAY_MS
+    }
+  }
+
+  return new Date(candidate - offsetMs)
+}
+
+function toDateString(time: number): string {
+  return new Date(time).toISOString().slice(0, 10)
+}
+
+/**
+ * Packaging dates (YYYY-MM-DD) a scheduled report covers when run at
+ * `runAt`, counted on the schedule's wall clock
+ */
+export function getScheduleDateRange(
+  range: ReportScheduleRange,
+  utcOffset: number,
+  runAt: Date
+): { startDate: string; endDate: string } {
+  const local = new Date(runAt.getTime() + utcOffset * MINUTE_MS)
+  const today = Date.UTC(local.getUTCFullYear(), local.getUTCMonth(), local.getUTCDate())
+
+  switch (range) {
+    case 'last_7_days':
+      return { startDate: toDateString(today - 7 * DAY_MS), endDate: toDateString(today - DAY_MS) }
+    case 'last_week': {
+      // Weeks run Monday to Sunday
+      const sinceMonday = (local.getUTCDay() + 6) % 7
+      const monday = today - (sinceMonday + 7) * DAY_MS
+      return { startDate: toDateString(monday), endDate: toDateString(monday + 6 * DAY_MS) }
+    }
+    case 'last_month': {
+      const firstOfMonth = Date.UTC(local.getUTCFullYear(), local.getUTCMonth(), 1)
+      const firstOfLastMonth = Date.UTC(local.getUTCFullYear(), local.getUTCMonth() - 1, 1)
+      return { startDate: toDateString(firstOfLastMonth), endDate: toDateString(firstOfMonth - DAY_MS) }
+    }
+    default:
+      return { startDate: toDateString(today - DAY_MS), endDate: toDateString(today - DAY_MS) }
+  }
+}
@@ -0,0 +1,42 @@
+import { Databases, ID } from 'node-appwrite'
+
+const STOCK_MOVEMENTS_COLLECTION = 'stock_movements'
+
+/**
+ * Why a product's stock changed
+ */
+export type StockMovementReason = 'packaging' | 'unpack' | 'import' | 'manual_adjust' | 'receiving' | 'stocktake'
+
+/**
+ * Record a stock movement in the ledger from a background job
+ */
+export async function recordStockMovement(
+  databases: Databases,
+  params: {
+    productId: string
+    previousQuantity: number
+    newQuantity: number
+    reason: StockMovementReason
+    sourceId?: string | null
+    userId?: string | null
+  }
+): Promise<void> {
+  const databaseId = process.env.APPWRITE_DATABASE_ID!
+  const delta = params.newQuantity - params.previousQuantity
+  if (delta === 0) return
+
+  try {
+    await databases.createDocument(databaseId, STOCK_MOVEMENTS_COLLECTION, ID.unique(), {
+      product_id: params.productId,
+      delta,
+      resulting_quantity: params.newQuantity,
+      reason: params.reason,
+      source_id: params.sourceId ?? null,
+      user_id: params.userId ?? null,
+      location_id: null, // Jobs only change the product total (default location)
+    })
+  } catch (error) {
+    // Don't throw - the stock change itself already succeeded
+    console.error('Failed to record stock movement:', error)
+  }
+}
@@ -1,5 +1,6 @@
 import { schedules, task, logger } from "@trigger.dev/sdk/v3";
 import { Client, Databases, ID, Query } from "node-appwrite";
+import { PACKAGING_CACHE_VERSION } from "./lib/packaging-report-data";
 
 interface PackagingRecord {
   $id: string;
@@ -7,6 +8,12 @@ interface PackagingRecord {
   $updatedAt: string;
   packaging_date: string;
   waybill_number: string;
+  location_id: string | null;
+  courier_id: string | null;
+  packed_by: string | null;
+  packed_by_name: string | null;
+  started_at: string | null;
+  finished_at: string | null;
 }
 
 interface PackagingItem {
@@ -16,6 +23,9 @@ interface PackagingItem {
   packaging_record_id: string;
   product_barcode: string;
   scanned_at: string;
+  product_name: string | null;
+  unit_cost: number | null;
+  components_snapshot: string | null;
 }
 
 interface Product {
@@ -29,6 +39,14 @@ interface BundleComponentInfo {
   barcode: string;
   productName: string;
   quantity: number;
+  unitCost?: number;
+}
+
+interface ComponentSnapshot {
+  barcode: string;
+  product_name: string;
+  quantity: number;
+  unit_cost: number;
 }
 
 interface PackagingItemWithProduct extends PackagingItem {
@@ -45,6 +63,7 @@ interface PackagingCache {
   cache_date: string;
   data: string;
   cached_at: string;
+  schema_version: number;
 }
 
 const COLLECTIONS = {
@@ -81,6 +100,58 @@ function getYesterdayDate(): string {
 /**
  * Fetch all packaging records for a specific date with product info
  */
+/**
+ * Fetch the components of a bundle for display
+ * Nested bundles are shown as the products they contain; a bundle that
+ * contains itself is shown as is
+ */
+async function fetchBundleComponents(
+  databases: Databases,
+  databaseId: string,
+  bundle: Product,
+  path: string[]
+): Promise<BundleComponentInfo[]> {
+  const componentsResult = await databases.listDocuments(
+    databaseId,
+    COLLECTIONS.PRODUCT_COMPONENTS,
+    [Query.equal("parent_product_id", bundle.$id)]
+  );
+
+  const components = new Map<string, BundleComponentInfo>();
+  for (const comp of componentsResult.documents) {
+    const quantity = comp.quantity as number;
+    const childProduct = await databases.getDocument(
+      databaseId,
+      COLLECTIONS.PRODUCTS,
+      comp.child_product_id as string
+    );
+    await delay(API_DELAY);
+
+    const child: Product = {
+      $id: childProduct.$id,
+      barcode: childProduct.barcode as string,
+      name: childProduct.name as string,
+      type: childProduct.type as "single" | "bundle",
+    };
+    const contained = child.type === "bundle" && !path.includes(child.$id)
+      ? (await fetchBundleComponents(databases, databaseId, child, [...path, child.$id])).map(
+          (nested) => ({ ...nested, quantity: nested.quantity * quantity })
+        )
+      : [{ barcode: child.barcode, productName: child.name, quantity }];
+
+    for (const component of contained) {
+      const existing = components.get(component.barcode);
+      if (existing) {
+        existing.quantity += component.quantity;
+      } else {
+        components.set(component.barcode, component);
+      }
+    }
+  }
+
+  return [...components.values()];
+}
+
 async function fetchPackagingRecordsByDate(
   databases: Databases,
   databaseId: string,
@@ -110,6 +181,12 @@ async function fetchPackagingRecordsByDate(
         $updatedAt: doc.$updatedAt,
         packaging_date: doc.packaging_date as string,
         waybill_number: doc.waybill_number as string,
+        location_id: (doc.location_id as string | null) ?? null,
+        courier_id: (doc.courier_id as string | null) ?? null,
+        packed_by: (doc.packed_by as string | null) ?? null,
+        packed_by_name: (doc.packed_by_name as string | null) ?? null,
+        started_at: (doc.started_at as string | null) ?? null,
+        finished_at: (doc.finished_at as string | null) ?? null,
       });
     }
 
@@ -140,13 +217,19 @@ async function fetchPackagingRecordsByDate(
         packaging_record_id: item.packaging_record_id as string,
         product_barcode: item.product_barcode as string,
         scanned_at: item.scanned_at as string,
+        product_name: (item.product_name as string | null) ?? null,
+        unit_cost: (item.unit_cost as number | null) ?? null,
+        components_snapshot: (item.components_snapshot as string | null) ?? null,
       });
     }
     await delay(API_DELAY);
   }
 
-  // Collect unique barcodes and batch fetch products
-  const uniqueBarcodes = [...new Set(allItems.map((item) => item.product_barcode))];
+  // Items snapshotted at pack time keep the product as it was then; only
+  // older items are looked up from the current products
+  const uniqueBarcodes = [
+    ...new Set(allItems.filter((item) => item.product_name === null).map((item) => item.product_barcode)),
+  ];
   const productMap = new Map<string, Product>();
 
   // Fetch products in batches
@@ -174,31 +257,7 @@ async function fetchPackagingRecordsByDate(
 
   for (const bundle of bundleProducts) {
     try {
-      const componentsResult = await databases.listDocuments(
-        databaseId,
-        COLLECTIONS.PRODUCT_COMPONENTS,
-        [Query.equal("parent_product_id", bundle.$id)]
-      );
-
-      const components: BundleComponentInfo[] = [];
-      for (const comp of componentsResult.documents) {
-        const childProductId = comp.child_product_id as string;
-        const quantity = comp.quantity as number;
-
-        const childProduct = await databases.getDocument(
-          databaseId,
-          COLLECTIONS.PRODUCTS,
-          childProductId
-        );
-
-        components.push({
-          barcode: childProduct.barcode as string,
-          productName: childProduct.name as string,
-          quantity,
-        });
-        await delay(API_DELAY);
-      }
-
+      const components = await fetchBundleComponents(databases, databaseId, bundle, [bundle.$id]);
       if (components.length > 0) {
         bundleComponentsMap.set(bundle.barcode, components);
       }
@@ -211,6 +270,23 @@ async function fetchPackagingRecordsByDate(
   const recordsWithProducts: PackagingRecordWithProducts[] = allRecords.map((record) => {
     const recordItems = allItems.filter((item) => item.packaging_record_id === record.$id);
     const enrichedItems: PackagingItemWithProduct[] = recordItems.map((item) => {
+      if (item.product_name !== null) {
+        const components = item.components_snapshot
+          ? (JSON.parse(item.components_snapshot) as ComponentSnapshot[]).map((component) => ({
+              barcode: component.barcode,
+              productName: component.product_name,
+              quantity: component.quantity,
+              unitCost: component.unit_cost,
+            }))
+          : [];
+        return {
+          ...item,
+          product_name: item.product_name,
+          is_bundle: item.components_snapshot !== null,
+          bundle_components: components.length > 0 ? components : undefined,
+        };
+      }
+
       const product = productMap.get(item.product_barcode);
       return {
         ...item,
@@ -248,6 +324,7 @@ async function cachePackagingData(
     cache_date: dateString,
     data: JSON.stringify(data),
     cached_at: new Date().toISOString(),
+    schema_version: PACKAGING_CACHE_VERSION,
   };
 
   if (existing.documents.length > 0) {
@@ -271,12 +348,13 @@ async function cachePackagingData(
 
 /**
  * Scheduled task to archive yesterday's packaging data to cache
- * Runs daily at midnight (00:00 UTC)
+ * Runs daily at noon UTC, when yesterday has ended in every time zone
+ * (UTC-12 included), so reports can use the cache in place of the records
  * Includes product names and bundle components for fast retrieval
  */
 export const packagingArchivalTask = schedules.task({
   id: "packaging-archival",
-  cron: "0 0 * * *", // Every day at midnight UTC
+  cron: "0 12 * * *", // Every day at noon UTC
   run: async () => {
     const { databases } = createAppwriteClient();
     const databaseId = process.env.APPWRITE_DATABASE_ID!;
@@ -0,0 +1,228 @@
+import { task, logger } from "@trigger.dev/sdk/v3";
+import { Client, Databases, Models, Query } from "node-appwrite";
+
+interface Product {
+  $id: string;
+  barcode: string;
+  name: string;
+  type: string;
+  cost: number;
+}
+
+interface ProductComponent {
+  parent_product_id: string;
+  child_product_id: string;
+  quantity: number;
+}
+
+interface ComponentSnapshot {
+  barcode: string;
+  product_name: string;
+  quantity: number;
+  unit_cost: number;
+}
+
+interface BackfillPayload {
+  dryRun?: boolean; // Count the items without writing
+}
+
+const COLLECTIONS = {
+  PACKAGING_ITEMS: "packaging_items",
+  PRODUCTS: "products",
+  PRODUCT_COMPONENTS: "product_components",
+} as const;
+
+const BATCH_SIZE = 100;
+const API_DELAY = 50;
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function createAppwriteClient() {
+  const client = new Client()
+    .setEndpoint(process.env.APPWRITE_ENDPOINT!)
+    .setProject(process.env.APPWRITE_PROJECT_ID!)
+    .setKey(process.env.APPWRITE_API_KEY!);
+
+  return {
+    databases: new Databases(client),
+  };
+}
+
+/**
+ * Fetch every document of a collection, a page at a time
+ */
+async function fetchAll(
+  databases: Databases,
+  databaseId: string,
+  collectionId: string
+): Promise<Array<Record<string, unknown> & { $id: string }>> {
+  const documents: Array<Record<string, unknown> & { $id: string }> = [];
+  let offset = 0;
+
+  while (true) {
+    const result = await databases.listDocuments(databaseId, collectionId, [
+      Query.limit(BATCH_SIZE),
+      Query.offset(offset),
+    ]);
+    documents.push(...result.documents);
+    if (result.documents.length < BATCH_SIZE) break;
+    offset += BATCH_SIZE;
+    await delay(API_DELAY);
+  }
+
+  return documents;
+}
+
+/**
+ * Explode a bundle into the products it holds, as create-packaging does.
+ * Nested bundles are expanded; a bundle that contains itself is kept as is.
+ */
+function snapshotBundleComponents(
+  bundle: Product,
+  productsById: Map<string, Product>,
+  componentsByParent: Map<string, ProductComponent[]>,
+  quantity: number,
+  path: string[]
+): Map<string, ComponentSnapshot> {
+  const expanded = new Map<string, ComponentSnapshot>();
+
+  for (const component of componentsByParent.get(bundle.$id) ?? []) {
+    const product = productsById.get(component.child_product_id);
+    if (!product) continue;
+
+    const contained = product.type === "bundle" && !path.includes(product.$id)
+      ? snapshotBundleComponents(
+          product,
+          productsById,
+          componentsByParent,
+          component.quantity * quantity,
+          [...path, product.$id]
+        )
+      : new Map([[product.$id, {
+          barcode: product.barcode,
+          product_name: product.name,
+          quantity: component.quantity * quantity,
+          unit_cost: product.cost,
+        }]]);
+
+    for (const [productId, snapshot] of contained) {
+      const existing = expanded.get(productId);
+      if (existing) {
+        existing.quantity += snapshot.quantity;
+      } else {
+        expanded.set(productId, snapshot);
+      }
+    }
+  }
+
+  return expanded;
+}
+
+/**
+ * One-off task: snapshot the product name, unit cost and bundle components
+ * onto packaging items packed before create-packaging recorded them.
+ * The current catalogue is the best record left of those products. Items
+ * whose barcode no longer matches a product are left without a snapshot.
+ * Safe to run again: only items without a snapshot are touched.
+ */
+export const packagingSnapshotBackfillTask = task({
+  id: "packaging-snapshot-backfill",
+  retry: { maxAttempts: 1 },
+  maxDuration: 3600,
+  run: async (payload: BackfillPayload = {}) => {
+    const { databases } = createAppwriteClient();
+    const databaseId = process.env.APPWRITE_DATABASE_ID!;
+
+    logger.info("Starting packaging snapshot backfill", { dryRun: payload.dryRun ?? false });
+
+    // Load the catalogue once
+    const products: Product[] = (await fetchAll(databases, databaseId, COLLECTIONS.PRODUCTS)).map((doc) => ({
+      $id: doc.$id,
+      barcode: doc.barcode as string,
+      name: doc.name as string,
+      type: doc.type as string,
+      cost: (doc.cost as number) ?? 0,
+    }));
+    const productsById = new Map(products.map((product) => [product.$id, product]));
+    const productsByBarcode = new Map(products.map((product) => [product.barcode, product]));
+
+    const componentsByParent = new Map<string, ProductComponent[]>();
+    for (const doc of await fetchAll(databases, databaseId, COLLECTIONS.PRODUCT_COMPONENTS)) {
+      const component: ProductComponent = {
+        parent_product_id: doc.parent_product_id as string,
+        child_product_id: doc.child_product_id as string,
+        quantity: doc.quantity as number,
+      };
+      const siblings = componentsByParent.get(component.parent_product_id) ?? [];
+      siblings.push(component);
+      componentsByParent.set(component.parent_product_id, siblings);
+    }
+
+    logger.info(`Loaded ${products.length} products`);
+
+    // Snapshot attributes per barcode, built on first use
+    const snapshots = new Map<string, Record<string, unknown>>();
+    const snapshotFor = (barcode: string): Record<string, unknown> | null => {
+      const product = productsByBarcode.get(barcode);
+      if (!product) return null;
+      if (!snapshots.has(barcode)) {
+        const components = product.type === "bundle"
+          ? snapshotBundleComponents(product, productsById, componentsByParent, 1, [product.$id])
+          : null;
+        snapshots.set(barcode, {
+          product_name: product.name,
+          unit_cost: product.cost,
+          components_snapshot: components ? JSON.stringify([...components.values()]) : null,
+        });
+      }
+      return snapshots.get(barcode)!;
+    };
+
+    // Walk the items without a snapshot by cursor: updated items drop out
+    // of the query, items without a product stay in it
+    let cursor: string | null = null;
+    let updated = 0;
+    let unmatched = 0;
+    let failed = 0;
+
+    while (true) {
+      const result: Models.DocumentList<Models.Document & { product_barcode: string }> = await databases.listDocuments(
+        databaseId,
+        COLLECTIONS.PACKAGING_ITEMS,
+        [
+          Query.isNull("product_name"),
+          Query.orderAsc("$id"),
+          Query.limit(BATCH_SIZE),
+          ...(cursor ? [Query.cursorAfter(cursor)] : []),
+        ]
+      );
+
+      for (const item of result.documents) {
+        const snapshot = snapshotFor(item.product_barcode);
+        if (!snapshot) {
+          unmatched++;
+          continue;
+        }
+        if (payload.dryRun) {
+          updated++;
+          continue;
+        }
+        try {
+          await databases.updateDocument(databaseId, COLLECTIONS.PACKAGING_ITEMS, item.$id, snapshot);
+          updated++;
+        } catch (error) {
+          failed++;
+          logger.error(`Failed to snapshot item ${item.$id}`, { error });
+        }
+      }
+
+      if (result.documents.length < BATCH_SIZE) break;
+      cursor = result.documents[result.documents.length - 1].$id;
+      await delay(API_DELAY);
+    }
+
+    const summary = { dryRun: payload.dryRun ?? false, updated, unmatched, failed };
+    logger.info("Packaging snapshot backfill completed", summary);
+    return summary;
+  },
+});
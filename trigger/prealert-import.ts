@@ -0,0 +1,290 @@
+import { task, logger } from "@trigger.dev/sdk/v3";
+import { Client, Databases, Storage, ID, Query } from "node-appwrite";
+import * as XLSX from "xlsx";
+import { createAuditLog } from "./lib/audit-log";
+
+interface PrealertImportPayload {
+  jobId: string;
+  fileId: string;
+  userId: string;
+}
+
+interface ImportStats {
+  imported: number;
+  updated: number;
+  skipped: number;
+  failed: number;
+}
+
+interface PrealertRow {
+  Waybill?: string | number;
+  Barcode?: string | number;
+  Quantity?: string | number;
+  "Order Reference"?: string | number;
+}
+
+interface ExpectedItem {
+  barcode: string;
+  quantity: number;
+  product_name: string | null;
+}
+
+interface WaybillPrealert {
+  orderReference: string | null;
+  quantities: Map<string, number>; // Barcode -> expected quantity
+}
+
+const COLLECTIONS = {
+  PRODUCTS: "products",
+  ORDER_PREALERTS: "order_prealerts",
+  IMPORT_JOBS: "import_jobs",
+} as const;
+
+const API_DELAY = 50; // 50ms between API calls
+const LOOKUP_BATCH_SIZE = 100;
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function createAppwriteClient() {
+  const client = new Client()
+    .setEndpoint(process.env.APPWRITE_ENDPOINT!)
+    .setProject(process.env.APPWRITE_PROJECT_ID!)
+    .setKey(process.env.APPWRITE_API_KEY!);
+
+  return {
+    databases: new Databases(client),
+    storage: new Storage(client),
+  };
+}
+
+async function updateJobStatus(
+  databases: Databases,
+  jobId: string,
+  status: string,
+  stats?: ImportStats,
+  error?: string
+) {
+  const databaseId = process.env.APPWRITE_DATABASE_ID!;
+  const updateData: Record<string, unknown> = { status };
+
+  if (stats) {
+    updateData.stats = JSON.stringify(stats);
+  }
+  if (error) {
+    updateData.error = error;
+  }
+  if (status === "completed" || status === "failed") {
+    updateData.completed_at = new Date().toISOString();
+  }
+
+  await databases.updateDocument(databaseId, COLLECTIONS.IMPORT_JOBS, jobId, updateData);
+}
+
+async function markJobFailed(jobId: string, errorMessage: string) {
+  try {
+    const { databases } = createAppwriteClient();
+    await updateJobStatus(databases, jobId, "failed", undefined, errorMessage);
+  } catch (e) {
+    logger.error("Failed to update job status", { jobId, error: e });
+  }
+}
+
+/**
+ * Group the rows by waybill, adding up repeated barcodes
+ * Rows without a waybill or barcode, or with a bad quantity, are skipped
+ */
+function groupRows(rows: PrealertRow[], stats: ImportStats): Map<string, WaybillPrealert> {
+  const waybills = new Map<string, WaybillPrealert>();
+
+  for (const row of rows) {
+    const waybill = row.Waybill !== undefined ? String(row.Waybill).trim() : "";
+    const barcode = row.Barcode !== undefined ? String(row.Barcode).trim() : "";
+    // A missing quantity means one
+    const quantity = row.Quantity === undefined || row.Quantity === "" ? 1 : Number(row.Quantity);
+
+    if (!waybill || !barcode || !Number.isInteger(quantity) || quantity < 1) {
+      stats.skipped++;
+      continue;
+    }
+
+    const prealert = waybills.get(waybill) ?? { orderReference: null, quantities: new Map() };
+    prealert.quantities.set(barcode, (prealert.quantities.get(barcode) ?? 0) + quantity);
+    if (row["Order Reference"] !== undefined && String(row["Order Reference"]).trim()) {
+      prealert.orderReference = String(row["Order Reference"]).trim();
+    }
+    waybills.set(waybill, prealert);
+  }
+
+  return waybills;
+}
+
+/**
+ * Look up documents whose field is one of the values, in batches
+ */
+async function listByValues(
+  databases: Databases,
+  collectionId: string,
+  field: string,
+  values: string[]
+) {
+  const databaseId = process.env.APPWRITE_DATABASE_ID!;
+  const documents = [];
+
+  for (let i = 0; i < values.length; i += LOOKUP_BATCH_SIZE) {
+    const batch = values.slice(i, i + LOOKUP_BATCH_SIZE);
+    const result = await databases.listDocuments(databaseId, collectionId, [
+      Query.equal(field, batch),
+      Query.limit(LOOKUP_BATCH_SIZE),
+    ]);
+    documents.push(...result.documents);
+    await delay(API_DELAY);
+  }
+
+  return documents;
+}
+
+export const prealertImportTask = task({
+  id: "prealert-import",
+  retry: { maxAttempts: 3 },
+  queue: {
+    concurrencyLimit: 5,
+  },
+  onFailure: async ({ payload, error }) => {
+    logger.error("Pre-alert import task failed permanently", { jobId: payload.jobId, error });
+    await markJobFailed(payload.jobId, error instanceof Error ? error.message : "Task failed after all retries");
+  },
+  run: async (payload: PrealertImportPayload) => {
+    const { jobId, fileId, userId } = payload;
+    const { databases, storage } = createAppwriteClient();
+    const databaseId = process.env.APPWRITE_DATABASE_ID!;
+    const bucketId = process.env.APPWRITE_BUCKET_ID!;
+
+    logger.info("Starting pre-alert import", { jobId, fileId, userId });
+
+    try {
+      await updateJobStatus(databases, jobId, "processing");
+
+      await createAuditLog(databases, {
+        userId,
+        actionType: 'job_prealert_import_started',
+        resourceType: 'job',
+        resourceId: jobId,
+        actionDetails: { fileId },
+        status: 'success',
+      });
+
+      // Download and parse the file (Excel or CSV)
+      logger.info("Downloading file from storage");
+      const arrayBuffer = await storage.getFileDownload(bucketId, fileId);
+      const workbook = XLSX.read(arrayBuffer);
+      const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+      const rows = XLSX.utils.sheet_to_json<PrealertRow>(worksheet);
+
+      const stats: ImportStats = {
+        imported: 0,
+        updated: 0,
+        skipped: 0,
+        failed: 0,
+      };
+
+      const waybills = groupRows(rows, stats);
+      logger.info(`Processing ${waybills.size} waybills from ${rows.length} rows`);
+
+      // Product names for the packers' checklist
+      const barcodes = [...new Set([...waybills.values()].flatMap((w) => [...w.quantities.keys()]))];
+      const productNames = new Map<string, string>();
+      for (const product of await listByValues(databases, COLLECTIONS.PRODUCTS, "barcode", barcodes)) {
+        productNames.set(product.barcode as string, product.name as string);
+      }
+
+      // A waybill imported again replaces its earlier pre-alert
+      const existingIds = new Map<string, string>();
+      for (const prealert of await listByValues(
+        databases,
+        COLLECTIONS.ORDER_PREALERTS,
+        "waybill_number",
+        [...waybills.keys()]
+      )) {
+        existingIds.set(prealert.waybill_number as string, prealert.$id);
+      }
+
+      const importedAt = new Date().toISOString();
+
+      for (const [waybill, prealert] of waybills) {
+        const expectedItems: ExpectedItem[] = [...prealert.quantities].map(([barcode, quantity]) => ({
+          barcode,
+          quantity,
+          product_name: productNames.get(barcode) ?? null,
+        }));
+        const data = {
+          waybill_number: waybill,
+          order_reference: prealert.orderReference,
+          expected_items: JSON.stringify(expectedItems),
+          import_job_id: jobId,
+          imported_at: importedAt,
+        };
+
+        try {
+          await delay(API_DELAY);
+          const existingId = existingIds.get(waybill);
+          if (existingId) {
+            await databases.updateDocument(databaseId, COLLECTIONS.ORDER_PREALERTS, existingId, data);
+            stats.updated++;
+          } else {
+            await databases.createDocument(databaseId, COLLECTIONS.ORDER_PREALERTS, ID.unique(), data);
+            stats.imported++;
+          }
+        } catch (err) {
+          logger.error("Failed to save pre-alert", { waybill, error: err });
+          stats.failed++;
+        }
+      }
+
+      await updateJobStatus(databases, jobId, "completed", stats);
+
+      await createAuditLog(databases, {
+        userId,
+        actionType: 'job_prealert_import_completed',
+        resourceType: 'job',
+        resourceId: jobId,
+        actionDetails: {
+          stats,
+          totalRows: rows.length,
+          waybills: waybills.size,
+          unknownBarcodes: barcodes.filter((barcode) => !productNames.has(barcode)).length,
+        },
+        status: 'success',
+      });
+
+      // Clean up uploaded file
+      try {
+        await storage.deleteFile(bucketId, fileId);
+      } catch {
+        logger.warn("Failed to delete import file", { fileId });
+      }
+
+      logger.info("Pre-alert import completed", { stats });
+      return { success: true, stats };
+    } catch (error) {
+      logger.error("Pre-alert import failed", { error });
+
+      await createAuditLog(databases, {
+        userId,
+        actionType: 'job_prealert_import_completed',
+        resourceType: 'job',
+        resourceId: jobId,
+        status: 'failure',
+        errorMessage: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      await updateJobStatus(
+        databases,
+        jobId,
+        "failed",
+        undefined,
+        error instanceof Error ? error.message : "Unknown error"
+      );
+      throw error;
+    }
+  },
+});
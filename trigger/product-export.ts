@@ -2,7 +2,14 @@ import { task, logger } from "@trigger.dev/sdk/v3";
 import { Client, Databases, Storage, ID, Query } from "node-appwrite";
 import { InputFile } from "node-appwrite/file";
 import * as XLSX from "xlsx";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
 import { createAuditLog } from "./lib/audit-log";
+import { calculateBuildableQuantities } from "./lib/bundles";
+import { fetchLocations, fetchLocationStock, getStockByLocation } from "./lib/location-stock";
+import { roundCost } from "./lib/costing";
+import { EXPORT_EXTENSIONS, writeCsvFile, writeJsonFile } from "./lib/export-files";
 
 interface ExportPayload {
   jobId: string;
@@ -10,6 +17,7 @@ interface ExportPayload {
   filters?: {
     type?: "single" | "bundle";
   };
+  format?: "excel" | "csv" | "json"; // Excel if omitted
 }
 
 interface ExportResult {
@@ -20,6 +28,8 @@ interface ExportResult {
 
 const COLLECTIONS = {
   PRODUCTS: "products",
+  PRODUCT_BARCODES: "product_barcodes",
+  PRODUCT_COMPONENTS: "product_components",
   IMPORT_JOBS: "import_jobs",
 } as const;
 
@@ -83,12 +93,12 @@ export const productExportTask = task({
     await markJobFailed(payload.jobId, error instanceof Error ? error.message : "Task failed after all retries");
   },
   run: async (payload: ExportPayload): Promise<ExportResult> => {
-    const { jobId, userId, filters } = payload;
+    const { jobId, userId, filters, format = "excel" } = payload;
     const { databases, storage } = createAppwriteClient();
     const databaseId = process.env.APPWRITE_DATABASE_ID!;
     const bucketId = process.env.APPWRITE_BUCKET_ID!;
 
-    logger.info("Starting product export", { jobId, userId, filters });
+    logger.info("Starting product export", { jobId, userId, filters, format });
 
     try {
       // Update job status to processing
@@ -100,7 +110,7 @@ export const productExportTask = task({
         actionType: 'job_export_started',
         resourceType: 'job',
         resourceId: jobId,
-        actionDetails: { filters },
+        actionDetails: { filters, format },
         status: 'success',
       });
 
@@ -155,49 +165,232 @@ export const productExportTask = task({
 
       logger.info(`Fetched ${allProducts.length} products for export`);
 
-      // Prepare data for Excel
-      const exportData = allProducts.map((product, index) => ({
-        "No.": index + 1,
-        Barcode: product.barcode,
-        "SKU Code": product.sku_code || "",
-        "Product Name": product.name,
-        Type: product.type === "bundle" ? "Bundle" : "Single",
-        Cost: product.cost,
-        "Stock Quantity": product.type === "bundle" ? "" : product.stock_quantity,
-        "Created At": new Date(product.$createdAt).toLocaleString(),
-      }));
-
-      // Create workbook and worksheet
-      const worksheet = XLSX.utils.json_to_sheet(exportData);
-
-      // Set column widths
-      worksheet["!cols"] = [
-        { wch: 6 }, // No.
-        { wch: 15 }, // Barcode
-        { wch: 15 }, // SKU Code
-        { wch: 30 }, // Product Name
-        { wch: 10 }, // Type
-        { wch: 12 }, // Cost
-        { wch: 15 }, // Stock Quantity
-        { wch: 20 }, // Created At
+      // Fetch alternate barcodes, formatted as the import's BARCODE:PACK_QUANTITY list
+      const aliasesByProduct = new Map<string, string[]>();
+      offset = 0;
+      hasMore = true;
+      while (hasMore) {
+        const result = await databases.listDocuments(databaseId, COLLECTIONS.PRODUCT_BARCODES, [
+          Query.limit(BATCH_SIZE),
+          Query.offset(offset),
+        ]);
+
+        for (const doc of result.documents) {
+          const packQuantity = doc.pack_quantity as number;
+          const aliases = aliasesByProduct.get(doc.product_id as string) ?? [];
+          aliases.push(packQuantity > 1 ? `${doc.barcode}:${packQuantity}` : (doc.barcode as string));
+          aliasesByProduct.set(doc.product_id as string, aliases);
+        }
+
+        offset += result.documents.length;
+        hasMore = result.documents.length === BATCH_SIZE;
+
+        if (hasMore) {
+          await delay(API_DELAY);
+        }
+      }
+
+      // Fetch bundle components for the buildable quantity of bundles
+      const components: Array<{ parent_product_id: string; child_product_id: string; quantity: number }> = [];
+      offset = 0;
+      hasMore = true;
+      while (hasMore) {
+        const result = await databases.listDocuments(databaseId, COLLECTIONS.PRODUCT_COMPONENTS, [
+          Query.limit(BATCH_SIZE),
+          Query.offset(offset),
+        ]);
+
+        for (const doc of result.documents) {
+          components.push({
+            parent_product_id: doc.parent_product_id as string,
+            child_product_id: doc.child_product_id as string,
+            quantity: doc.quantity as number,
+          });
+        }
+
+        offset += result.documents.length;
+        hasMore = result.documents.length === BATCH_SIZE;
+
+        if (hasMore) {
+          await delay(API_DELAY);
+        }
+      }
+
+      // With a type filter, components may not be among the exported products
+      const stockProducts = new Map(
+        allProducts.map((product) => [product.$id, { $id: product.$id, type: product.type, stock_quantity: product.stock_quantity }])
+      );
+      const missingIds = [
+        ...new Set(components.map((component) => component.child_product_id).filter((id) => !stockProducts.has(id))),
       ];
+      for (let i = 0; i < missingIds.length; i += BATCH_SIZE) {
+        const result = await databases.listDocuments(databaseId, COLLECTIONS.PRODUCTS, [
+          Query.equal("$id", missingIds.slice(i, i + BATCH_SIZE)),
+          Query.limit(BATCH_SIZE),
+        ]);
+        for (const doc of result.documents) {
+          stockProducts.set(doc.$id, {
+            $id: doc.$id,
+            type: doc.type as string,
+            stock_quantity: (doc.stock_quantity as number) ?? 0,
+          });
+        }
+      }
+      const buildable = calculateBuildableQuantities([...stockProducts.values()], components);
+
+      // Fetch per-location stock for the stock breakdown columns
+      const locations = await fetchLocations(databases);
+      const locationStock = await fetchLocationStock(databases);
+
+      // Prepare data for Excel
+      const exportData = allProducts.map((product, index) => {
+        const stockByLocation = getStockByLocation(
+          product.$id,
+          product.stock_quantity,
+          locations,
+          locationStock
+        );
+        const locationColumns: Record<string, number | string> = {};
+        for (const location of locations) {
+          locationColumns[`Stock: ${location.name}`] =
+            product.type === "bundle" ? "" : stockByLocation.get(location.$id) ?? 0;
+        }
+
+        return {
+          "No.": index + 1,
+          Barcode: product.barcode,
+          "Alternate Barcodes": aliasesByProduct.get(product.$id)?.join(",") ?? "",
+          "SKU Code": product.sku_code || "",
+          "Product Name": product.name,
+          Type: product.type === "bundle" ? "Bundle" : "Single",
+          Cost: product.cost,
+          "Stock Quantity": product.type === "bundle" ? "" : product.stock_quantity,
+          "Buildable Quantity": product.type === "bundle" ? buildable.get(product.$id) ?? "" : "",
+          ...locationColumns,
+          "Created At": new Date(product.$createdAt).toLocaleString(),
+        };
+      });
 
-      const workbook = XLSX.utils.book_new();
-      XLSX.utils.book_append_sheet(workbook, worksheet, "Products");
+      // Stock valuation: cost times stock on hand for single products, per
+      // location, with a total row. Bundles hold no stock of their own.
+      const valuedProducts = allProducts.filter((product) => product.type !== "bundle");
+      const locationTotals = new Map(locations.map((location) => [location.$id, 0]));
+      let totalValue = 0;
+      const valuationData: Array<Record<string, string | number>> = valuedProducts.map((product, index) => {
+        const stockByLocation = getStockByLocation(
+          product.$id,
+          product.stock_quantity,
+          locations,
+          locationStock
+        );
+        const row: Record<string, string | number> = {
+          "No.": index + 1,
+          Barcode: product.barcode,
+          "Product Name": product.name,
+          "Unit Cost": product.cost,
+          "Stock Quantity": product.stock_quantity,
+        };
+        for (const location of locations) {
+          const value = roundCost((stockByLocation.get(location.$id) ?? 0) * product.cost);
+          row[`Value: ${location.name}`] = value;
+          locationTotals.set(location.$id, locationTotals.get(location.$id)! + value);
+        }
+        const value = roundCost(product.stock_quantity * product.cost);
+        row["Stock Value"] = value;
+        totalValue += value;
+        return row;
+      });
 
-      // Generate file buffer
-      const buffer = XLSX.write(workbook, { type: "buffer", bookType: "xlsx" });
+      const totalRow: Record<string, string | number> = {
+        "No.": "",
+        Barcode: "",
+        "Product Name": "Total",
+        "Unit Cost": "",
+        "Stock Quantity": valuedProducts.reduce((sum, product) => sum + product.stock_quantity, 0),
+      };
+      for (const location of locations) {
+        totalRow[`Value: ${location.name}`] = roundCost(locationTotals.get(location.$id)!);
+      }
+      totalRow["Stock Value"] = roundCost(totalValue);
+      valuationData.push(totalRow);
 
       // Generate filename with date
       const date = new Date().toISOString().split("T")[0];
-      const fileName = `products_export_${date}_${Date.now()}.xlsx`;
+      const fileName = `products_export_${date}_${Date.now()}.${EXPORT_EXTENSIONS[format]}`;
+
+      let exportFile: ReturnType<typeof InputFile.fromBuffer>;
+      if (format === "excel") {
+        // Create workbook and worksheet
+        const worksheet = XLSX.utils.json_to_sheet(exportData);
+
+        // Set column widths
+        worksheet["!cols"] = [
+          { wch: 6 }, // No.
+          { wch: 15 }, // Barcode
+          { wch: 25 }, // Alternate Barcodes
+          { wch: 15 }, // SKU Code
+          { wch: 30 }, // Product Name
+          { wch: 10 }, // Type
+          { wch: 12 }, // Cost
+          { wch: 15 }, // Stock Quantity
+          { wch: 18 }, // Buildable Quantity
+          ...locations.map(() => ({ wch: 18 })), // Stock per location
+          { wch: 20 }, // Created At
+        ];
+
+        const valuationSheet = XLSX.utils.json_to_sheet(valuationData);
+        valuationSheet["!cols"] = [
+          { wch: 6 }, // No.
+          { wch: 15 }, // Barcode
+          { wch: 30 }, // Product Name
+          { wch: 12 }, // Unit Cost
+          { wch: 15 }, // Stock Quantity
+          ...locations.map(() => ({ wch: 18 })), // Value per location
+          { wch: 15 }, // Stock Value
+        ];
+
+        // Products stays the first sheet so the file can be imported back
+        const workbook = XLSX.utils.book_new();
+        XLSX.utils.book_append_sheet(workbook, worksheet, "Products");
+        XLSX.utils.book_append_sheet(workbook, valuationSheet, "Stock Valuation");
+
+        // Generate file buffer
+        const buffer = XLSX.write(workbook, { type: "buffer", bookType: "xlsx" });
+        exportFile = InputFile.fromBuffer(buffer, fileName);
+      } else {
+        const filePath = path.join(os.tmpdir(), `${ID.unique()}-${fileName}`);
+        try {
+          if (format === "csv") {
+            // CSV holds the products only, with the same columns as the Products sheet
+            const columns = [
+              "No.",
+              "Barcode",
+              "Alternate Barcodes",
+              "SKU Code",
+              "Product Name",
+              "Type",
+              "Cost",
+              "Stock Quantity",
+              "Buildable Quantity",
+              ...locations.map((location) => `Stock: ${location.name}`),
+              "Created At",
+            ];
+            await writeCsvFile(filePath, columns, exportData);
+          } else {
+            await writeJsonFile(filePath, { products: exportData, stockValuation: valuationData });
+          }
+          exportFile = InputFile.fromPath(filePath, fileName);
+        } finally {
+          await fs.promises.rm(filePath, { force: true });
+        }
+      }
 
       // Upload to Appwrite Storage
       logger.info("Uploading export file to storage");
       const file = await storage.createFile(
         bucketId,
         ID.unique(),
-        InputFile.fromBuffer(buffer, fileName)
+        exportFile
       );
 
       // Update job status to completed
@@ -212,6 +405,7 @@ export const productExportTask = task({
         actionDetails: {
           fileId: file.$id,
           fileName,
+          format,
           totalProducts: allProducts.length,
         },
         status: 'success',
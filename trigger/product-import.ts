@@ -2,6 +2,8 @@ import { task, logger } from "@trigger.dev/sdk/v3";
 import { Client, Databases, Storage, ID, Query } from "node-appwrite";
 import * as XLSX from "xlsx";
 import { createAuditLog } from "./lib/audit-log";
+import { recordStockMovement } from "./lib/stock-movements";
+import { orderImportedBundles, parseBundleComponents } from "./lib/bundles";
 
 interface ImportPayload {
   jobId: string;
@@ -24,6 +26,7 @@ interface ProductRow {
   Cost?: number;
   "Stock Quantity"?: number;
   "Bundle Components"?: string;
+  "Alternate Barcodes"?: string | number;
 }
 
 interface CachedProduct {
@@ -35,9 +38,16 @@ interface CachedProduct {
   type: string;
 }
 
+interface CachedAlias {
+  $id: string;
+  product_id: string;
+  pack_quantity: number;
+}
+
 const COLLECTIONS = {
   PRODUCTS: "products",
   PRODUCT_COMPONENTS: "product_components",
+  PRODUCT_BARCODES: "product_barcodes",
   IMPORT_JOBS: "import_jobs",
 } as const;
 
@@ -121,6 +131,55 @@ async function fetchAllProducts(databases: Databases): Promise<Map<string, Cache
   return cache;
 }
 
+async function fetchAllAliases(databases: Databases): Promise<Map<string, CachedAlias>> {
+  const databaseId = process.env.APPWRITE_DATABASE_ID!;
+  const cache = new Map<string, CachedAlias>();
+  const batchSize = 100;
+  let offset = 0;
+  let hasMore = true;
+
+  while (hasMore) {
+    const result = await databases.listDocuments(databaseId, COLLECTIONS.PRODUCT_BARCODES, [
+      Query.limit(batchSize),
+      Query.offset(offset),
+    ]);
+
+    for (const doc of result.documents) {
+      cache.set(doc.barcode as string, {
+        $id: doc.$id,
+        product_id: doc.product_id as string,
+        pack_quantity: doc.pack_quantity as number,
+      });
+    }
+
+    offset += result.documents.length;
+    hasMore = result.documents.length === batchSize;
+    await delay(API_DELAY);
+  }
+
+  return cache;
+}
+
+/**
+ * Parse an "Alternate Barcodes" cell: BARCODE or BARCODE:PACK_QUANTITY, comma-separated
+ */
+function parseAliases(value: string): Map<string, number> {
+  const aliases = new Map<string, number>();
+  for (const part of value.split(",")) {
+    const [barcode, qtyStr] = part.trim().split(":");
+    if (!barcode?.trim()) continue;
+    const packQuantity = qtyStr === undefined ? 1 : Number(qtyStr);
+    if (!Number.isInteger(packQuantity) || packQuantity < 1) {
+      throw new Error(`Invalid pack quantity for ${barcode.trim()}`);
+    }
+    if (aliases.has(barcode.trim())) {
+      throw new Error(`Alternate barcode ${barcode.trim()} is listed twice`);
+    }
+    aliases.set(barcode.trim(), packQuantity);
+  }
+  return aliases;
+}
+
 export const productImportTask = task({
   id: "product-import",
   retry: { maxAttempts: 3 },
@@ -191,6 +250,9 @@ export const productImportTask = task({
         failed: 0,
       };
 
+      // Collect alternate barcodes for third pass; a blank cell keeps the current ones
+      const aliasesToProcess = new Map<string, string>();
+
       // Collect bundles for second pass
       const bundlesToProcess: Array<{
         barcode: string;
@@ -216,6 +278,10 @@ export const productImportTask = task({
         const cost = Number(row.Cost) || 0;
         const stockQuantity = Number(row["Stock Quantity"]) || 0;
         const components = row["Bundle Components"] || "";
+        const aliases = row["Alternate Barcodes"] !== undefined ? String(row["Alternate Barcodes"]).trim() : "";
+        if (aliases) {
+          aliasesToProcess.set(barcode, aliases);
+        }
 
         const existing = productCache.get(barcode);
 
@@ -247,6 +313,14 @@ export const productImportTask = task({
                   stock_quantity: stockQuantity,
                 });
                 productCache.set(barcode, { ...existing, name, sku_code: skuCode || null, cost, stock_quantity: stockQuantity });
+                await recordStockMovement(databases, {
+                  productId: existing.$id,
+                  previousQuantity: existing.stock_quantity,
+                  newQuantity: stockQuantity,
+                  reason: "import",
+                  sourceId: jobId,
+                  userId,
+                });
                 stats.updated++;
               } catch (err) {
                 logger.error("Failed to update product", { barcode, error: err });
@@ -280,6 +354,14 @@ export const productImportTask = task({
                 stock_quantity: stockQuantity,
                 type: "single",
               });
+              await recordStockMovement(databases, {
+                productId: newProduct.$id,
+                previousQuantity: 0,
+                newQuantity: stockQuantity,
+                reason: "import",
+                sourceId: jobId,
+                userId,
+              });
               stats.imported++;
             } catch (err) {
               logger.error("Failed to create product", { barcode, error: err });
@@ -289,8 +371,41 @@ export const productImportTask = task({
         }
       }
 
+      // Components of existing bundles outside the file, for cycle checks
+      const barcodeById = new Map([...productCache].map(([barcode, product]) => [product.$id, barcode]));
+      const fileBundles = new Set(bundlesToProcess.map((bundle) => bundle.barcode));
+      const existingComponents = new Map<string, string[]>();
+      const nestedBarcodes = bundlesToProcess.flatMap((bundle) =>
+        parseBundleComponents(bundle.components).map((component) => component.barcode)
+      );
+      while (nestedBarcodes.length > 0) {
+        const barcode = nestedBarcodes.pop()!;
+        const product = productCache.get(barcode);
+        if (product?.type !== "bundle" || fileBundles.has(barcode) || existingComponents.has(barcode)) {
+          continue;
+        }
+        const components = await databases.listDocuments(databaseId, COLLECTIONS.PRODUCT_COMPONENTS, [
+          Query.equal("parent_product_id", product.$id),
+          Query.limit(100),
+        ]);
+        const children = components.documents
+          .map((component) => barcodeById.get(component.child_product_id as string))
+          .filter((child): child is string => !!child);
+        existingComponents.set(barcode, children);
+        nestedBarcodes.push(...children);
+        await delay(API_DELAY);
+      }
+
+      // Nested bundles are saved first; bundles in a cycle are not saved
+      const { ordered, cycles } = orderImportedBundles(bundlesToProcess, existingComponents);
+      const bundleCycles = cycles.map(({ cycle }) => cycle.join(" → "));
+      for (const cycle of bundleCycles) {
+        logger.error("Bundle not imported, it would contain itself", { cycle });
+        stats.failed++;
+      }
+
       // Second pass: Import/update bundles with components
-      for (const bundle of bundlesToProcess) {
+      for (const bundle of ordered) {
         try {
           let bundleId: string;
 
@@ -311,6 +426,14 @@ export const productImportTask = task({
                 cost: bundle.cost,
                 stock_quantity: bundle.stock_quantity,
               });
+              await recordStockMovement(databases, {
+                productId: bundle.existingId,
+                previousQuantity: existing.stock_quantity,
+                newQuantity: bundle.stock_quantity,
+                reason: "import",
+                sourceId: jobId,
+                userId,
+              });
             }
             bundleId = bundle.existingId;
 
@@ -343,31 +466,33 @@ export const productImportTask = task({
               }
             );
             bundleId = newBundle.$id;
+            await recordStockMovement(databases, {
+              productId: bundleId,
+              previousQuantity: 0,
+              newQuantity: bundle.stock_quantity,
+              reason: "import",
+              sourceId: jobId,
+              userId,
+            });
             productMap.set(bundle.barcode, bundleId);
             stats.imported++;
           }
 
           // Add components
-          if (bundle.components) {
-            const componentParts = bundle.components.split(",");
-            for (const part of componentParts) {
-              const [componentBarcode, qtyStr] = part.trim().split(":");
-              if (componentBarcode) {
-                const componentId = productMap.get(componentBarcode.trim());
-                if (componentId) {
-                  await delay(API_DELAY);
-                  await databases.createDocument(
-                    databaseId,
-                    COLLECTIONS.PRODUCT_COMPONENTS,
-                    ID.unique(),
-                    {
-                      parent_product_id: bundleId,
-                      child_product_id: componentId,
-                      quantity: parseInt(qtyStr) || 1,
-                    }
-                  );
+          for (const component of parseBundleComponents(bundle.components)) {
+            const componentId = productMap.get(component.barcode);
+            if (componentId) {
+              await delay(API_DELAY);
+              await databases.createDocument(
+                databaseId,
+                COLLECTIONS.PRODUCT_COMPONENTS,
+                ID.unique(),
+                {
+                  parent_product_id: bundleId,
+                  child_product_id: componentId,
+                  quantity: component.quantity,
                 }
-              }
+              );
             }
           }
         } catch (err) {
@@ -376,6 +501,60 @@ export const productImportTask = task({
         }
       }
 
+      // Third pass: Replace alternate barcodes of products that list them
+      if (aliasesToProcess.size > 0) {
+        const aliasCache = await fetchAllAliases(databases);
+
+        for (const [barcode, value] of aliasesToProcess) {
+          const productId = productMap.get(barcode);
+          if (!productId) continue;
+
+          try {
+            const aliases = parseAliases(value);
+            for (const aliasBarcode of aliases.keys()) {
+              if (productMap.has(aliasBarcode)) {
+                throw new Error(`Barcode ${aliasBarcode} already belongs to a product`);
+              }
+              const owner = aliasCache.get(aliasBarcode)?.product_id;
+              if (owner && owner !== productId) {
+                throw new Error(`Barcode ${aliasBarcode} is already an alternate barcode of another product`);
+              }
+            }
+
+            for (const [aliasBarcode, alias] of aliasCache) {
+              if (alias.product_id === productId && !aliases.has(aliasBarcode)) {
+                await delay(API_DELAY);
+                await databases.deleteDocument(databaseId, COLLECTIONS.PRODUCT_BARCODES, alias.$id);
+                aliasCache.delete(aliasBarcode);
+              }
+            }
+
+            for (const [aliasBarcode, packQuantity] of aliases) {
+              const current = aliasCache.get(aliasBarcode);
+              if (!current) {
+                await delay(API_DELAY);
+                const created = await databases.createDocument(
+                  databaseId,
+                  COLLECTIONS.PRODUCT_BARCODES,
+                  ID.unique(),
+                  { product_id: productId, barcode: aliasBarcode, pack_quantity: packQuantity }
+                );
+                aliasCache.set(aliasBarcode, { $id: created.$id, product_id: productId, pack_quantity: packQuantity });
+              } else if (current.pack_quantity !== packQuantity) {
+                await delay(API_DELAY);
+                await databases.updateDocument(databaseId, COLLECTIONS.PRODUCT_BARCODES, current.$id, {
+                  pack_quantity: packQuantity,
+                });
+                aliasCache.set(aliasBarcode, { ...current, pack_quantity: packQuantity });
+              }
+            }
+          } catch (err) {
+            logger.error("Failed to update alternate barcodes", { barcode, error: err });
+            stats.failed++;
+          }
+        }
+      }
+
       // Update job status to completed
       await updateJobStatus(databases, jobId, "completed", stats);
 
@@ -388,6 +567,7 @@ export const productImportTask = task({
         actionDetails: {
           stats,
           totalRows: jsonData.length,
+          bundleCycles,
         },
         status: 'success',
       });
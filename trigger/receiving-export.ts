@@ -0,0 +1,369 @@
+import { task, logger } from "@trigger.dev/sdk/v3";
+import { Client, Databases, Storage, ID, Query } from "node-appwrite";
+import { InputFile } from "node-appwrite/file";
+import * as XLSX from "xlsx";
+import { createAuditLog } from "./lib/audit-log";
+import { roundCost } from "./lib/costing";
+import { fetchLocations } from "./lib/location-stock";
+
+interface ReceivingExportPayload {
+  jobId: string;
+  userId: string;
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD
+}
+
+interface ReceivingExportResult {
+  fileId: string;
+  fileName: string;
+  totalReceivings: number;
+  totalItems: number;
+}
+
+interface ReceivingRecord {
+  $id: string;
+  receiving_date: string;
+  reference_number: string;
+  location_id: string | null;
+  notes: string | null;
+  received_by_name: string | null;
+  status: string;
+  voided_at: string | null;
+  void_reason: string | null;
+  $createdAt: string;
+}
+
+interface ReceivingItem {
+  receiving_record_id: string;
+  product_barcode: string;
+  product_name: string | null;
+  quantity: number;
+  unit_cost: number | null;
+}
+
+const COLLECTIONS = {
+  RECEIVING_RECORDS: "receiving_records",
+  RECEIVING_ITEMS: "receiving_items",
+  IMPORT_JOBS: "import_jobs",
+} as const;
+
+const BATCH_SIZE = 100;
+const API_DELAY = 50;
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function createAppwriteClient() {
+  const client = new Client()
+    .setEndpoint(process.env.APPWRITE_ENDPOINT!)
+    .setProject(process.env.APPWRITE_PROJECT_ID!)
+    .setKey(process.env.APPWRITE_API_KEY!);
+
+  return {
+    databases: new Databases(client),
+    storage: new Storage(client),
+  };
+}
+
+async function updateJobStatus(
+  databases: Databases,
+  jobId: string,
+  status: string,
+  resultFileId?: string,
+  error?: string
+) {
+  const databaseId = process.env.APPWRITE_DATABASE_ID!;
+  const updateData: Record<string, unknown> = { status };
+
+  if (resultFileId) {
+    updateData.result_file_id = resultFileId;
+  }
+  if (error) {
+    updateData.error = error;
+  }
+  if (status === "completed" || status === "failed") {
+    updateData.completed_at = new Date().toISOString();
+  }
+
+  await databases.updateDocument(databaseId, COLLECTIONS.IMPORT_JOBS, jobId, updateData);
+}
+
+async function markJobFailed(jobId: string, errorMessage: string) {
+  try {
+    const { databases } = createAppwriteClient();
+    await updateJobStatus(databases, jobId, "failed", undefined, errorMessage);
+  } catch (e) {
+    logger.error("Failed to update job status", { jobId, error: e });
+  }
+}
+
+export const receivingExportTask = task({
+  id: "receiving-export",
+  retry: { maxAttempts: 3 },
+  queue: {
+    concurrencyLimit: 5,
+  },
+  onFailure: async ({ payload, error }) => {
+    logger.error("Receiving export task failed permanently", { jobId: payload.jobId, error });
+    await markJobFailed(payload.jobId, error instanceof Error ? error.message : "Task failed after all retries");
+  },
+  run: async (payload: ReceivingExportPayload): Promise<ReceivingExportResult> => {
+    const { jobId, userId, startDate, endDate } = payload;
+    const { databases, storage } = createAppwriteClient();
+    const databaseId = process.env.APPWRITE_DATABASE_ID!;
+    const bucketId = process.env.APPWRITE_BUCKET_ID!;
+
+    logger.info("Starting receiving export", { jobId, userId, startDate, endDate });
+
+    try {
+      // Update job status to processing
+      await updateJobStatus(databases, jobId, "processing");
+
+      // Log job start
+      await createAuditLog(databases, {
+        userId,
+        actionType: 'job_receiving_export_started',
+        resourceType: 'job',
+        resourceId: jobId,
+        actionDetails: { startDate, endDate },
+        status: 'success',
+      });
+
+      // Fetch receivings in the date range, oldest first
+      const records: ReceivingRecord[] = [];
+      let offset = 0;
+      let hasMore = true;
+
+      while (hasMore) {
+        const result = await databases.listDocuments(databaseId, COLLECTIONS.RECEIVING_RECORDS, [
+          Query.greaterThanEqual("receiving_date", startDate),
+          Query.lessThanEqual("receiving_date", endDate),
+          Query.orderAsc("receiving_date"),
+          Query.orderAsc("$createdAt"),
+          Query.limit(BATCH_SIZE),
+          Query.offset(offset),
+        ]);
+
+        for (const doc of result.documents) {
+          records.push({
+            $id: doc.$id,
+            receiving_date: doc.receiving_date as string,
+            reference_number: doc.reference_number as string,
+            location_id: (doc.location_id as string | null) ?? null,
+            notes: (doc.notes as string | null) ?? null,
+            received_by_name: (doc.received_by_name as string | null) ?? null,
+            status: doc.status as string,
+            voided_at: (doc.voided_at as string | null) ?? null,
+            void_reason: (doc.void_reason as string | null) ?? null,
+            $createdAt: doc.$createdAt,
+          });
+        }
+
+        offset += result.documents.length;
+        hasMore = result.documents.length === BATCH_SIZE;
+
+        if (hasMore) {
+          await delay(API_DELAY);
+        }
+      }
+
+      logger.info(`Fetched ${records.length} receivings for export`);
+
+      // Fetch the items of those receivings
+      const itemsByRecord = new Map<string, ReceivingItem[]>();
+      const recordIds = records.map((record) => record.$id);
+
+      for (let i = 0; i < recordIds.length; i += BATCH_SIZE) {
+        const batchIds = recordIds.slice(i, i + BATCH_SIZE);
+        offset = 0;
+        hasMore = true;
+
+        while (hasMore) {
+          const result = await databases.listDocuments(databaseId, COLLECTIONS.RECEIVING_ITEMS, [
+            Query.equal("receiving_record_id", batchIds),
+            Query.limit(BATCH_SIZE),
+            Query.offset(offset),
+          ]);
+
+          for (const doc of result.documents) {
+            const recordId = doc.receiving_record_id as string;
+            const items = itemsByRecord.get(recordId) ?? [];
+            items.push({
+              receiving_record_id: recordId,
+              product_barcode: doc.product_barcode as string,
+              product_name: (doc.product_name as string | null) ?? null,
+              quantity: doc.quantity as number,
+              unit_cost: (doc.unit_cost as number | null) ?? null,
+            });
+            itemsByRecord.set(recordId, items);
+          }
+
+          offset += result.documents.length;
+          hasMore = result.documents.length === BATCH_SIZE;
+
+          if (hasMore) {
+            await delay(API_DELAY);
+          }
+        }
+      }
+
+      const locations = await fetchLocations(databases);
+      const locationNames = new Map(locations.map((location) => [location.$id, location.name]));
+      const defaultLocationName = locations.find((location) => location.is_default)?.name ?? "";
+
+      // Receivings sheet: one row per delivery
+      let totalUnits = 0;
+      let totalValue = 0;
+      let voidedCount = 0;
+      const receivingData = records.map((record, index) => {
+        const items = itemsByRecord.get(record.$id) ?? [];
+        const units = items.reduce((sum, item) => sum + item.quantity, 0);
+        const value = roundCost(items.reduce((sum, item) => sum + (item.unit_cost ?? 0) * item.quantity, 0));
+
+        // Voided receivings are listed but no longer count towards stock
+        if (record.status === "voided") {
+          voidedCount++;
+        } else {
+          totalUnits += units;
+          totalValue += value;
+        }
+
+        return {
+          "No.": index + 1,
+          Date: record.receiving_date,
+          Reference: record.reference_number,
+          Location: record.location_id ? locationNames.get(record.location_id) ?? "" : defaultLocationName,
+          "Received By": record.received_by_name || "",
+          Products: items.length,
+          Units: units,
+          Value: value,
+          Status: record.status === "voided" ? "Voided" : "Received",
+          "Void Reason": record.void_reason || "",
+          Notes: record.notes || "",
+          "Received At": new Date(record.$createdAt).toLocaleString(),
+        };
+      });
+
+      const receivingSheet = XLSX.utils.json_to_sheet(receivingData);
+      receivingSheet["!cols"] = [
+        { wch: 6 }, // No.
+        { wch: 12 }, // Date
+        { wch: 20 }, // Reference
+        { wch: 18 }, // Location
+        { wch: 20 }, // Received By
+        { wch: 10 }, // Products
+        { wch: 10 }, // Units
+        { wch: 12 }, // Value
+        { wch: 10 }, // Status
+        { wch: 25 }, // Void Reason
+        { wch: 30 }, // Notes
+        { wch: 20 }, // Received At
+      ];
+
+      // Items sheet: one row per product received
+      const itemData: Array<Record<string, string | number>> = [];
+      for (const record of records) {
+        for (const item of itemsByRecord.get(record.$id) ?? []) {
+          itemData.push({
+            "No.": itemData.length + 1,
+            Date: record.receiving_date,
+            Reference: record.reference_number,
+            Barcode: item.product_barcode,
+            "Product Name": item.product_name || "",
+            Quantity: item.quantity,
+            "Unit Cost": item.unit_cost ?? "",
+            Value: roundCost((item.unit_cost ?? 0) * item.quantity),
+            Status: record.status === "voided" ? "Voided" : "Received",
+          });
+        }
+      }
+
+      const itemSheet = XLSX.utils.json_to_sheet(itemData);
+      itemSheet["!cols"] = [
+        { wch: 6 }, // No.
+        { wch: 12 }, // Date
+        { wch: 20 }, // Reference
+        { wch: 15 }, // Barcode
+        { wch: 30 }, // Product Name
+        { wch: 10 }, // Quantity
+        { wch: 12 }, // Unit Cost
+        { wch: 12 }, // Value
+        { wch: 10 }, // Status
+      ];
+
+      const summarySheet = XLSX.utils.json_to_sheet([
+        { Metric: "Report Period", Value: startDate === endDate ? startDate : `${startDate} to ${endDate}` },
+        { Metric: "Total Receivings", Value: records.length },
+        { Metric: "Voided Receivings", Value: voidedCount },
+        { Metric: "Total Units Received", Value: totalUnits },
+        { Metric: "Total Value Received", Value: roundCost(totalValue) },
+        { Metric: "Generated At", Value: new Date().toLocaleString() },
+      ]);
+      summarySheet["!cols"] = [{ wch: 22 }, { wch: 25 }];
+
+      const workbook = XLSX.utils.book_new();
+      XLSX.utils.book_append_sheet(workbook, summarySheet, "Summary");
+      XLSX.utils.book_append_sheet(workbook, receivingSheet, "Receivings");
+      XLSX.utils.book_append_sheet(workbook, itemSheet, "Items");
+
+      // Generate file buffer
+      const buffer = XLSX.write(workbook, { type: "buffer", bookType: "xlsx" });
+      const fileName = `receiving_report_${startDate}_to_${endDate}_${Date.now()}.xlsx`;
+
+      // Upload to Appwrite Storage
+      logger.info("Uploading receiving export to storage");
+      const file = await storage.createFile(
+        bucketId,
+        ID.unique(),
+        InputFile.fromBuffer(buffer, fileName)
+      );
+
+      // Update job status to completed
+      await updateJobStatus(databases, jobId, "completed", file.$id);
+
+      // Log job completion
+      await createAuditLog(databases, {
+        userId,
+        actionType: 'job_receiving_export_completed',
+        resourceType: 'job',
+        resourceId: jobId,
+        actionDetails: {
+          fileId: file.$id,
+          fileName,
+          totalReceivings: records.length,
+          totalItems: itemData.length,
+        },
+        status: 'success',
+      });
+
+      logger.info("Receiving export completed", { fileId: file.$id, fileName, totalReceivings: records.length });
+
+      return {
+        fileId: file.$id,
+        fileName,
+        totalReceivings: records.length,
+        totalItems: itemData.length,
+      };
+    } catch (error) {
+      logger.error("Receiving export failed", { error });
+
+      // Log job failure
+      await createAuditLog(databases, {
+        userId,
+        actionType: 'job_receiving_export_completed',
+        resourceType: 'job',
+        resourceId: jobId,
+        status: 'failure',
+        errorMessage: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      await updateJobStatus(
+        databases,
+        jobId,
+        "failed",
+        undefined,
+        error instanceof Error ? error.message : "Unknown error"
+      );
+      throw error;
+    }
+  },
+});
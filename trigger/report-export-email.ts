@@ -0,0 +1,187 @@
+import { task, logger } from "@trigger.dev/sdk/v3";
+import { Client, Databases, Storage, Users } from "node-appwrite";
+import { createAuditLog } from "./lib/audit-log";
+import { generatePackagingReport } from "./report-export";
+import { sendReportEmail } from "./send-report-email";
+import type { ExportFormat } from "./lib/export-files";
+
+interface ReportExportEmailPayload {
+  jobId: string;
+  userId: string;
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD
+  format: ExportFormat;
+  courierId?: string; // Only records of this courier (all couriers if omitted)
+  templateId?: string; // Saved report template (the standard report if omitted)
+  recipients: string[];
+}
+
+type JobPhase = "generating" | "emailing";
+
+const COLLECTIONS = {
+  IMPORT_JOBS: "import_jobs",
+} as const;
+
+// Prefix of the job error for a failure in each phase
+const PHASE_ERRORS: Record<JobPhase, string> = {
+  generating: "Report generation failed",
+  emailing: "Report email failed",
+};
+
+function createAppwriteClient() {
+  const client = new Client()
+    .setEndpoint(process.env.APPWRITE_ENDPOINT!)
+    .setProject(process.env.APPWRITE_PROJECT_ID!)
+    .setKey(process.env.APPWRITE_API_KEY!);
+
+  return {
+    databases: new Databases(client),
+    storage: new Storage(client),
+    users: new Users(client),
+  };
+}
+
+async function updateJob(databases: Databases, jobId: string, data: Record<string, unknown>) {
+  const databaseId = process.env.APPWRITE_DATABASE_ID!;
+  const updateData: Record<string, unknown> = { ...data };
+
+  if (data.stats) {
+    updateData.stats = JSON.stringify(data.stats);
+  }
+  if (data.status === "completed" || data.status === "failed") {
+    updateData.completed_at = new Date().toISOString();
+  }
+
+  await databases.updateDocument(databaseId, COLLECTIONS.IMPORT_JOBS, jobId, updateData);
+}
+
+async function markJobFailed(jobId: string, errorMessage: string) {
+  try {
+    const { databases } = createAppwriteClient();
+    await updateJob(databases, jobId, { status: "failed", error: errorMessage });
+  } catch (e) {
+    logger.error("Failed to update job status", { jobId, error: e });
+  }
+}
+
+/**
+ * Generate a packaging report and email it once the file is ready
+ * One import_jobs row tracks both steps through its `phase`; a failure
+ * in either leaves the phase it failed in and one error on the job
+ */
+export const reportExportEmailTask = task({
+  id: "report-export-email",
+  retry: { maxAttempts: 3 },
+  queue: {
+    concurrencyLimit: 5,
+  },
+  onFailure: async ({ payload, error }) => {
+    logger.error("Report export email task failed permanently", { jobId: payload.jobId, error });
+    await markJobFailed(payload.jobId, error instanceof Error ? error.message : "Task failed after all retries");
+  },
+  run: async (payload: ReportExportEmailPayload) => {
+    const { jobId, userId, startDate, endDate, format, courierId, templateId, recipients } = payload;
+    const clients = createAppwriteClient();
+    const { databases, storage } = clients;
+    const dateRange = startDate === endDate ? startDate : `${startDate} to ${endDate}`;
+
+    logger.info("Starting report export email", { jobId, userId, startDate, endDate, format, courierId, templateId });
+
+    let phase: JobPhase = "generating";
+
+    try {
+      // A retry after the report was generated only resends the email
+      const job = await databases.getDocument(process.env.APPWRITE_DATABASE_ID!, COLLECTIONS.IMPORT_JOBS, jobId);
+      const generatedFileId = job.phase === "emailing" ? (job.result_file_id as string | null) : null;
+      if (generatedFileId) {
+        phase = "emailing";
+        logger.info("Report already generated, resending email", { jobId, fileId: generatedFileId });
+      }
+
+      await updateJob(databases, jobId, { status: "processing", phase, error: null });
+
+      let fileId = generatedFileId;
+      let reportStats: Record<string, number> = {};
+
+      if (!fileId) {
+        await createAuditLog(databases, {
+          userId,
+          actionType: 'job_report_export_started',
+          resourceType: 'job',
+          resourceId: jobId,
+          actionDetails: { startDate, endDate, format, courierId, templateId, recipientCount: recipients.length },
+          status: 'success',
+        });
+
+        const report = await generatePackagingReport(clients, {
+          userId,
+          startDate,
+          endDate,
+          format,
+          courierId,
+          templateId,
+        });
+        if (!report) {
+          throw new Error(`No waybills were packed in ${dateRange}, so there is no report to email`);
+        }
+
+        await createAuditLog(databases, {
+          userId,
+          actionType: 'job_report_export_completed',
+          resourceType: 'job',
+          resourceId: jobId,
+          actionDetails: { ...report, format },
+          status: 'success',
+        });
+
+        // The file is kept on the job before emailing, so a retry only
+        // resends the email
+        fileId = report.fileId;
+        reportStats = { records: report.records, items: report.items, products: report.products };
+        phase = "emailing";
+        await updateJob(databases, jobId, { phase, result_file_id: fileId });
+      }
+
+      const { messageId } = await sendReportEmail(storage, { fileId, recipients, dateRange });
+
+      await createAuditLog(databases, {
+        userId,
+        actionType: 'report_email_sent',
+        resourceType: 'job',
+        resourceId: jobId,
+        actionDetails: { recipientCount: recipients.length, fileId, dateRange, messageId },
+        status: 'success',
+      });
+
+      await updateJob(databases, jobId, {
+        status: "completed",
+        stats: { ...reportStats, recipients: recipients.length, messageId },
+      });
+
+      logger.info("Report export email completed", { jobId, fileId, recipients: recipients.length });
+
+      return {
+        success: true,
+        fileId,
+        recipients: recipients.length,
+        messageId,
+      };
+    } catch (error) {
+      const message = `${PHASE_ERRORS[phase]}: ${error instanceof Error ? error.message : "Unknown error"}`;
+      logger.error("Report export email failed", { jobId, phase, error });
+
+      await createAuditLog(databases, {
+        userId,
+        actionType: phase === "generating" ? 'job_report_export_completed' : 'report_email_sent',
+        resourceType: 'job',
+        resourceId: jobId,
+        actionDetails: { phase, dateRange, recipientCount: recipients.length },
+        status: 'failure',
+        errorMessage: message,
+      });
+
+      await updateJob(databases, jobId, { status: "failed", error: message });
+      throw new Error(message);
+    }
+  },
+});
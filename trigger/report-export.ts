@@ -1,54 +1,72 @@
 import { task, logger } from "@trigger.dev/sdk/v3";
 import { Client, Databases, Storage, Users, ID, Query } from "node-appwrite";
 import { InputFile } from "node-appwrite/file";
-import * as XLSX from "xlsx";
+import ExcelJS from "exceljs";
 import PDFTable from "pdfkit-table";
 import * as fs from "fs";
-import * as path from "path";
 import * as os from "os";
-import { fileURLToPath } from "url";
+import * as path from "path";
 import { createAuditLog } from "./lib/audit-log";
-
-// ESM-compatible __dirname
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
+import { ensureFontFile } from "./lib/pdf-font";
+import { fetchLocations, fetchLocationStock, getStockByLocation } from "./lib/location-stock";
+import { buildPackerShifts, type PackedWaybill } from "./lib/packer-productivity";
+import { getBundleCosting, getItemCost, roundCost } from "./lib/costing";
+import {
+  loadPackagingReportData,
+  type PackagingItem,
+  type PackagingRecord,
+  type Product,
+} from "./lib/packaging-report-data";
+import { EXPORT_EXTENSIONS, writeCsvFile, writeJsonFile, type ExportFormat } from "./lib/export-files";
+import {
+  DEFAULT_REPORT_DEFINITION,
+  parseReportDefinition,
+  type ReportColumn,
+  type ReportDefinition,
+  type ReportGrouping,
+  type ReportSection,
+} from "./lib/report-definition";
 
 interface ReportExportPayload {
   jobId: string;
   userId: string;
   startDate: string; // YYYY-MM-DD
   endDate: string; // YYYY-MM-DD
-  format: "excel" | "pdf";
+  format: ExportFormat;
+  courierId?: string; // Only records of this courier (all couriers if omitted)
+  templateId?: string; // Saved report template (the standard report if omitted)
 }
 
-interface PackagingRecord {
-  $id: string;
-  packaging_date: string;
-  waybill_number: string;
+export interface ReportTemplate {
+  name: string;
+  definition: ReportDefinition;
 }
 
-interface PackagingItem {
-  $id: string;
-  packaging_record_id: string;
-  product_barcode: string;
-  scanned_at: string;
+interface GeneratedReport {
+  fileId: string;
+  fileName: string;
+  records: number;
+  items: number;
+  products: number;
 }
 
-interface Product {
-  $id: string;
-  barcode: string;
-  name: string;
+export interface ReportFileStats {
+  records: number;
+  items: number;
+  products: number;
+  requests: number; // Database requests made to load the report
+  cachedDays: number; // Days read from the packaging cache
 }
 
 const COLLECTIONS = {
-  PACKAGING_RECORDS: "packaging_records",
-  PACKAGING_ITEMS: "packaging_items",
-  PRODUCTS: "products",
   IMPORT_JOBS: "import_jobs",
+  COURIERS: "couriers",
+  REPORT_TEMPLATES: "report_templates",
 } as const;
 
-const API_DELAY = 50;
-const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+// Detail rows handed to the PDF table at a time; each batch after the first
+// starts a new page with its own header
+const PDF_ROWS_PER_TABLE = 1000;
 
 function createAppwriteClient() {
   const client = new Client()
@@ -104,134 +122,103 @@ function formatDate(dateStr: string): string {
   return date.toISOString().replace("T", " ").substring(0, 19);
 }
 
-interface PDFData {
-  startDate: string;
-  endDate: string;
-  summaryData: Array<{ Metric: string; Value: string | number }>;
-  dailySummaryData: Array<{ Date: string; Records: number; "Items Scanned": number }>;
-  productQuantitiesData: Array<{ "No.": number; "Product Name": string; Barcode: string; "Total Quantity": number }>;
-  exportData: Array<{
-    "No.": number;
-    Date: string;
-    Waybill: string;
-    "Product Barcode": string;
-    "Product Name": string;
-    "Scanned At": string;
-  }>;
+interface ReportTableColumn {
+  key: string; // Row field, also the column name in Excel, CSV and JSON
+  width: number; // Excel column width
+  pdfWidth: number;
+  pdfLabel?: string; // PDF header when it differs from the key
+  align?: "left" | "center" | "right"; // PDF alignment, left by default
+  pdfText?: (value: string | number) => string; // PDF cell text, the value as-is by default
 }
 
-// Cache for font file path
-let cachedFontPath: string | null = null;
-
-function getBundledFontPath(): string | null {
-  // Try to find the bundled font file
-  // In trigger.dev, additionalFiles are copied relative to the project root
-  const possiblePaths = [
-    // Trigger.dev production paths (additionalFiles preserves directory structure)
-    "/app/trigger/fonts/NotoSansSC-Regular.ttf",
-    "/app/fonts/NotoSansSC-Regular.ttf",
-    // Relative to current file in trigger directory
-    path.join(__dirname, "fonts", "NotoSansSC-Regular.ttf"),
-    path.join(__dirname, "..", "fonts", "NotoSansSC-Regular.ttf"),
-    // One level up from __dirname (if task file is in trigger/)
-    path.join(__dirname, "..", "trigger", "fonts", "NotoSansSC-Regular.ttf"),
-    // Relative to process cwd
-    path.join(process.cwd(), "trigger", "fonts", "NotoSansSC-Regular.ttf"),
-    path.join(process.cwd(), "fonts", "NotoSansSC-Regular.ttf"),
-    // Direct path in build output
-    "./trigger/fonts/NotoSansSC-Regular.ttf",
-    "./fonts/NotoSansSC-Regular.ttf",
-  ];
-
-  logger.info("Searching for bundled font", {
-    __dirname,
-    cwd: process.cwd(),
-  });
+type ReportRow = Record<string, string | number>;
 
-  for (const fontPath of possiblePaths) {
-    try {
-      const resolvedPath = path.resolve(fontPath);
-      if (fs.existsSync(resolvedPath)) {
-        logger.info(`Found bundled font at ${resolvedPath}`);
-        return resolvedPath;
-      }
-    } catch (err) {
-      logger.debug(`Error checking path ${fontPath}`, { error: err });
-    }
-  }
-
-  // List directory contents for debugging
-  try {
-    const appContents = fs.existsSync("/app") ? fs.readdirSync("/app") : [];
-    const triggerContents = fs.existsSync("/app/trigger") ? fs.readdirSync("/app/trigger") : [];
-    logger.info("Directory listing for debugging", {
-      app_contents: appContents,
-      trigger_contents: triggerContents,
-      __dirname_contents: fs.existsSync(__dirname) ? fs.readdirSync(__dirname) : "dir not found",
-    });
-  } catch (err) {
-    logger.warn("Failed to list directories for debugging", { error: err });
-  }
-
-  return null;
+interface ReportTable {
+  title: string; // Excel sheet name and PDF section title
+  pdfTitle?: string; // PDF section title when it differs from the sheet name
+  jsonKey: string;
+  columns: ReportTableColumn[];
+  rows: () => Iterable<ReportRow>; // Made as the table is written
 }
 
-async function ensureFontFile(): Promise<string> {
-  if (cachedFontPath && fs.existsSync(cachedFontPath)) {
-    return cachedFontPath;
-  }
-
-  // First try bundled font
-  const bundledPath = getBundledFontPath();
-  if (bundledPath) {
-    cachedFontPath = bundledPath;
-    return bundledPath;
-  }
-
-  logger.info("Bundled font not found, trying CDN fallbacks");
-
-  // Fetch Noto Sans SC font from CDN (supports Chinese characters)
-  const fontUrls = [
-    // Google Fonts direct link
-    "https://fonts.gstatic.com/s/notosanssc/v37/k3kCo84MPvpLmixcA63oeAL7Iqp5IZJF9bmaG9_EnYxNbPzS5HE.ttf",
-    // jsDelivr CDN with fontsource package
-    "https://cdn.jsdelivr.net/npm/@fontsource/noto-sans-sc@5.0.19/files/noto-sans-sc-chinese-simplified-400-normal.woff",
-    // Backup: Use a simpler Latin font if Chinese font fails
-    "https://fonts.gstatic.com/s/notosans/v36/o-0mIpQlx3QUlC5A4PNB6Ryti20_6n1iPHjcz6L1SoM-jCpoiyD9A99e.ttf",
-  ];
-
-  for (const url of fontUrls) {
-    try {
-      logger.info(`Fetching font from ${url}`);
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 30000); // 30s timeout
-
-      const response = await fetch(url, { signal: controller.signal });
-      clearTimeout(timeoutId);
+interface ReportContent {
+  startDate: string;
+  endDate: string;
+  tables: ReportTable[]; // One per section, in the order of the report definition
+}
 
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}`);
-      }
-      const arrayBuffer = await response.arrayBuffer();
-      const fontBuffer = Buffer.from(arrayBuffer);
-      logger.info(`Font loaded, size: ${fontBuffer.length} bytes`);
-
-      // Write to temp file so pdfkit can use it
-      const tempDir = os.tmpdir();
-      const fontPath = path.join(tempDir, "NotoSansSC-Regular.ttf");
-      fs.writeFileSync(fontPath, fontBuffer);
-      cachedFontPath = fontPath;
-      logger.info(`Font written to ${fontPath}`);
-      return fontPath;
-    } catch (error) {
-      logger.warn(`Failed to fetch font from ${url}`, { error });
-    }
+const costText = (value: string | number) => Number(value).toFixed(2);
+const timeText = (value: string | number) => String(value).split(" ")[1] || String(value);
+
+const NUMBER_COLUMN: ReportTableColumn = { key: "No.", width: 6, pdfWidth: 30, pdfLabel: "#", align: "center" };
+const TOTAL_COST_COLUMN: ReportTableColumn = {
+  key: "Total Cost",
+  width: 12,
+  pdfWidth: 80,
+  align: "right",
+  pdfText: costText,
+};
+
+// Columns a details section can hold
+const DETAIL_COLUMNS: Record<ReportColumn, ReportTableColumn> = {
+  date: { key: "Date", width: 12, pdfWidth: 55 },
+  waybill: { key: "Waybill", width: 25, pdfWidth: 80 },
+  courier: { key: "Courier", width: 18, pdfWidth: 55 },
+  location: { key: "Location", width: 18, pdfWidth: 60 },
+  packer: { key: "Packer", width: 20, pdfWidth: 60 },
+  barcode: { key: "Product Barcode", width: 15, pdfWidth: 70, pdfLabel: "Barcode" },
+  product: { key: "Product Name", width: 40, pdfWidth: 85 },
+  "unit-cost": { key: "Unit Cost", width: 10, pdfWidth: 45, pdfLabel: "Cost", align: "right", pdfText: costText },
+  "scanned-at": { key: "Scanned At", width: 20, pdfWidth: 45, pdfLabel: "Time", pdfText: timeText },
+};
+
+// Columns naming each breakdown row, by grouping
+const BREAKDOWN_COLUMNS: Record<ReportGrouping, ReportTableColumn[]> = {
+  day: [{ key: "Date", width: 12, pdfWidth: 110 }],
+  waybill: [
+    { key: "Date", width: 12, pdfWidth: 70 },
+    { key: "Waybill", width: 25, pdfWidth: 130 },
+    { key: "Courier", width: 18, pdfWidth: 90 },
+    { key: "Packer", width: 20, pdfWidth: 90 },
+  ],
+  product: [
+    { key: "Product Name", width: 40, pdfWidth: 200 },
+    { key: "Barcode", width: 15, pdfWidth: 110 },
+  ],
+  packer: [{ key: "Packer", width: 25, pdfWidth: 200 }],
+  courier: [{ key: "Courier", width: 25, pdfWidth: 200 }],
+};
+
+const BREAKDOWN_TITLES: Record<ReportGrouping, string> = {
+  day: "By Day",
+  waybill: "By Waybill",
+  product: "By Product",
+  packer: "By Packer",
+  courier: "By Courier",
+};
+
+/**
+ * Rows of a table with only its columns, for files that keep every field
+ */
+function* columnRows(table: ReportTable): Iterable<ReportRow> {
+  for (const row of table.rows()) {
+    yield Object.fromEntries(table.columns.map((column) => [column.key, row[column.key]]));
   }
+}
 
-  throw new Error("Failed to fetch font from all sources");
+/**
+ * Stretch or shrink a table's PDF columns to fill the page width
+ */
+function fitToPage(columns: ReportTableColumn[], width = 520): ReportTableColumn[] {
+  const total = columns.reduce((sum, column) => sum + column.pdfWidth, 0);
+  return columns.map((column) => ({ ...column, pdfWidth: Math.floor((column.pdfWidth * width) / total) }));
 }
 
-async function generatePDF(data: PDFData): Promise<Buffer> {
+/**
+ * Write the PDF report to a file
+ * Pages are flushed to the file as they are finished rather than kept until the end
+ */
+async function generatePDF(data: ReportContent, filePath: string): Promise<void> {
   // Ensure font file exists before creating document
   const fontPath = await ensureFontFile();
 
@@ -242,7 +229,6 @@ async function generatePDF(data: PDFData): Promise<Buffer> {
   const doc = new PDFTable({
     size: "A4",
     margin: 40,
-    bufferPages: true,
     font: fontPath, // Use custom font from the start
   });
 
@@ -250,11 +236,12 @@ async function generatePDF(data: PDFData): Promise<Buffer> {
   doc.registerFont("NotoSans", fontPath);
   doc.registerFont("NotoSans-Bold", fontPath); // Use same font for bold (no bold variant available)
 
-  const chunks: Buffer[] = [];
-  doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+  const output = fs.createWriteStream(filePath);
+  doc.pipe(output);
 
-  const endPromise = new Promise<Buffer>((resolve, reject) => {
-    doc.on("end", () => resolve(Buffer.concat(chunks)));
+  const endPromise = new Promise<void>((resolve, reject) => {
+    output.on("finish", resolve);
+    output.on("error", reject);
     doc.on("error", reject);
   });
 
@@ -351,97 +338,628 @@ async function generatePDF(data: PDFData): Promise<Buffer> {
     };
   };
 
-  // Helper function for section title (used on pages 2-4)
+  // Helper function for section titles
   const addSectionTitle = (title: string) => {
     doc.fontSize(FONT_SIZE.SECTION).font("NotoSans-Bold").text(title);
     doc.moveDown(0.5);
   };
 
-  // Page 1: Summary (with main report header)
+  // Page 1: main report header, then a page per section
   doc.fontSize(FONT_SIZE.TITLE).font("NotoSans-Bold").text("Packaging Report", { align: "center" });
   doc.moveDown(0.3);
   const dateDisplay = data.startDate === data.endDate ? data.startDate : `${data.startDate} to ${data.endDate}`;
   doc.fontSize(FONT_SIZE.SUBTITLE).font("NotoSans").text(dateDisplay, { align: "center" });
   doc.moveDown(1);
-  addSectionTitle("Summary");
 
-  await doc.table(
-    {
-      headers: [
-        { label: "Metric", align: "left", headerColor: headerColor, headerOpacity: 1 },
-        { label: "Value", align: "left", headerColor: headerColor, headerOpacity: 1 },
-      ],
-      rows: data.summaryData.map((row) => [row.Metric, String(row.Value)]),
-    },
-    getTableOptions([200, 300], 500)
-  );
+  for (const [index, table] of data.tables.entries()) {
+    if (index > 0) {
+      doc.addPage();
+    }
+    addSectionTitle(table.pdfTitle ?? table.title);
 
-  // Page 2: Daily Summary
-  doc.addPage();
-  addSectionTitle("Daily Summary");
+    const columnsSize = table.columns.map((column) => column.pdfWidth);
+    const headers = table.columns.map((column) => ({
+      label: column.pdfLabel ?? column.key,
+      align: column.align ?? "left",
+      headerColor: headerColor,
+      headerOpacity: 1,
+    }));
+
+    // Rows are read from the iterator in batches, so a long range is never
+    // held in memory as a whole table
+    let rows: string[][] = [];
+    let batches = 0;
+    const writeRows = async () => {
+      if (batches > 0) {
+        doc.addPage();
+      }
+      await doc.table(
+        { headers, rows },
+        getTableOptions(columnsSize, columnsSize.reduce((sum, width) => sum + width, 0))
+      );
+      batches++;
+      rows = [];
+    };
 
-  await doc.table(
-    {
-      headers: [
-        { label: "Date", align: "left", headerColor: headerColor, headerOpacity: 1 },
-        { label: "Waybill Records", align: "right", headerColor: headerColor, headerOpacity: 1 },
-        { label: "Items Scanned", align: "right", headerColor: headerColor, headerOpacity: 1 },
-      ],
-      rows: data.dailySummaryData.map((row) => [row.Date, String(row.Records), String(row["Items Scanned"])]),
-    },
-    getTableOptions([200, 150, 150], 500)
-  );
+    for (const row of table.rows()) {
+      rows.push(
+        table.columns.map((column) =>
+          column.pdfText ? column.pdfText(row[column.key]) : String(row[column.key])
+        )
+      );
+      if (rows.length === PDF_ROWS_PER_TABLE) {
+        await writeRows();
+      }
+    }
+    if (rows.length > 0 || batches === 0) {
+      await writeRows();
+    }
+  }
 
-  // Page 3: Product Quantities
-  doc.addPage();
-  addSectionTitle("Total Packed Product Quantities");
+  doc.end();
+  return endPromise;
+}
 
-  await doc.table(
-    {
-      headers: [
-        { label: "#", align: "center", headerColor: headerColor, headerOpacity: 1 },
-        { label: "Product Name", align: "left", headerColor: headerColor, headerOpacity: 1 },
-        { label: "Barcode", align: "left", headerColor: headerColor, headerOpacity: 1 },
-        { label: "Total Qty", align: "right", headerColor: headerColor, headerOpacity: 1 },
-      ],
-      rows: data.productQuantitiesData.map((row) => [
-        String(row["No."]),
-        row["Product Name"],
-        row.Barcode,
-        String(row["Total Quantity"]),
-      ]),
-    },
-    getTableOptions([30, 250, 120, 100], 500)
-  );
+/**
+ * Write the Excel report to a file a row at a time, so a long range is
+ * never held in memory as a whole workbook
+ */
+async function generateExcel(data: ReportContent, filePath: string): Promise<void> {
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({
+    filename: filePath,
+    useStyles: false,
+    useSharedStrings: false,
+  });
+
+  // Sheets are written one after another; each is committed before the next starts
+  for (const table of data.tables) {
+    const sheet = workbook.addWorksheet(table.title);
+    sheet.columns = table.columns.map(({ key, width }) => ({ header: key, key, width }));
+    for (const row of table.rows()) {
+      sheet.addRow(row).commit();
+    }
+    sheet.commit();
+  }
+
+  await workbook.commit();
+}
+
+/**
+ * Build a packaging report for a date range and write it to a file
+ * A template chooses the sections, breakdown, detail columns and how
+ * bundles are counted; without one the standard report is written
+ * Returns null when nothing was packed in the range
+ */
+export async function writePackagingReport(
+  databases: Databases,
+  { startDate, endDate, format, courierId }: Omit<ReportExportPayload, "jobId" | "userId" | "templateId">,
+  exportedByName: string,
+  filePath: string,
+  template?: ReportTemplate
+): Promise<ReportFileStats | null> {
+  const databaseId = process.env.APPWRITE_DATABASE_ID!;
+  const definition = template?.definition ?? DEFAULT_REPORT_DEFINITION;
+  const bundleCosting = getBundleCosting(process.env.REPORT_BUNDLE_COSTING);
+
+  const {
+    records: allRecords,
+    items: allItems,
+    products: productDocs,
+    componentCosts,
+    requests,
+    cachedDays,
+  } = await loadPackagingReportData(databases, {
+    startDate,
+    endDate,
+    courierId,
+    explodeBundles: definition.bundles === "exploded",
+    costBundlesFromComponents: bundleCosting === "components",
+  });
+
+  logger.info(`Fetched ${allRecords.length} packaging records and ${allItems.length} items`, {
+    requests,
+    cachedDays,
+  });
+
+  if (allRecords.length === 0) {
+    return null;
+  }
 
-  // Page 4: Details
-  doc.addPage();
-  addSectionTitle("Details");
+  const recordsById = new Map(allRecords.map((record) => [record.$id, record]));
+  const recordOf = (item: PackagingItem) => recordsById.get(item.packaging_record_id)!;
+  const uniqueBarcodes = new Set(allItems.map((item) => item.product_barcode));
+
+  // Items are costed as they were packed; REPORT_BUNDLE_COSTING=components
+  // costs bundles from the products they held instead of their own cost,
+  // and bundles packed before snapshots from the products they hold now
+  const itemCost = (item: PackagingItem) =>
+    getItemCost(
+      item,
+      bundleCosting,
+      productDocs.get(item.product_barcode)?.cost ?? 0,
+      componentCosts.get(item.product_barcode)
+    );
+
+  // Create daily summary
+  const dailySummary = new Map<string, { records: number; items: number; cost: number }>();
+  for (const record of allRecords) {
+    const existing = dailySummary.get(record.packaging_date) || { records: 0, items: 0, cost: 0 };
+    existing.records += 1;
+    dailySummary.set(record.packaging_date, existing);
+  }
+  for (const item of allItems) {
+    const existing = dailySummary.get(recordOf(item).packaging_date);
+    if (existing) {
+      existing.items += 1;
+      existing.cost += itemCost(item);
+    }
+  }
 
-  await doc.table(
+  // Cost of goods packed per waybill
+  const waybillCosts = new Map<string, { items: number; cost: number }>();
+  for (const item of allItems) {
+    const existing = waybillCosts.get(item.packaging_record_id) || { items: 0, cost: 0 };
+    existing.items += 1;
+    existing.cost += itemCost(item);
+    waybillCosts.set(item.packaging_record_id, existing);
+  }
+  const totalCost = roundCost(allItems.reduce((sum, item) => sum + itemCost(item), 0));
+
+  // Items are named as they were packed; older items without a snapshot
+  // fall back to the current product name
+  const itemName = (item: PackagingItem) =>
+    item.product_name ?? productDocs.get(item.product_barcode)?.name ?? "Unknown Product";
+
+  // Calculate product quantities
+  const quantityMap = new Map<string, { barcode: string; quantity: number; cost: number }>();
+  for (const item of allItems) {
+    const productName = itemName(item);
+    const existing = quantityMap.get(productName);
+    if (existing) {
+      existing.quantity += 1;
+      existing.cost += itemCost(item);
+    } else {
+      quantityMap.set(productName, { barcode: item.product_barcode, quantity: 1, cost: itemCost(item) });
+    }
+  }
+
+  const productQuantities = Array.from(quantityMap.entries())
+    .map(([name, data]) => ({ name, barcode: data.barcode, quantity: data.quantity, cost: data.cost }))
+    .sort((a, b) => b.quantity - a.quantity);
+
+  // Resolve locations; records without one were packed from the default location
+  const locations = await fetchLocations(databases);
+  const locationNames = new Map(locations.map((location) => [location.$id, location.name]));
+  const defaultLocationName = locations.find((location) => location.is_default)?.name ?? "-";
+
+  // Resolve couriers; records without one had an unrecognised waybill format
+  const couriersResult = await databases.listDocuments(databaseId, COLLECTIONS.COURIERS, [
+    Query.limit(100),
+  ]);
+  const courierNames = new Map(
+    couriersResult.documents.map((courier) => [courier.$id, courier.name as string])
+  );
+  const courierName = (record: PackagingRecord) =>
+    record.courier_id ? courierNames.get(record.courier_id) ?? "Unknown" : "-";
+  const packerName = (record: PackagingRecord) =>
+    record.packed_by ? record.packed_by_name ?? "Unknown" : "-";
+
+  // Packer productivity; records made before packers were recorded are left out
+  const packedWaybills: PackedWaybill[] = allRecords
+    .filter((record) => record.packed_by && record.started_at && record.finished_at)
+    .map((record) => ({
+      packed_by: record.packed_by!,
+      packed_by_name: record.packed_by_name,
+      packaging_date: record.packaging_date,
+      started_at: record.started_at!,
+      finished_at: record.finished_at!,
+      items: waybillCosts.get(record.$id)?.items ?? 0,
+    }));
+
+  const summaryData: ReportRow[] = [
+    { Metric: "Report Period", Value: startDate === endDate ? startDate : `${startDate} to ${endDate}` },
+    { Metric: "Courier", Value: courierId ? courierNames.get(courierId) ?? "Unknown" : "All Couriers" },
+    ...(template ? [{ Metric: "Template", Value: template.name }] : []),
+    { Metric: "Total Waybill Records", Value: allRecords.length },
+    { Metric: "Total Items Scanned", Value: allItems.length },
+    { Metric: "Unique Products", Value: uniqueBarcodes.size },
+    { Metric: "Total Cost", Value: totalCost.toFixed(2) },
     {
-      headers: [
-        { label: "#", align: "center", headerColor: headerColor, headerOpacity: 1 },
-        { label: "Date", align: "left", headerColor: headerColor, headerOpacity: 1 },
-        { label: "Time", align: "left", headerColor: headerColor, headerOpacity: 1 },
-        { label: "Waybill", align: "left", headerColor: headerColor, headerOpacity: 1 },
-        { label: "Barcode", align: "left", headerColor: headerColor, headerOpacity: 1 },
-        { label: "Product Name", align: "left", headerColor: headerColor, headerOpacity: 1 },
-      ],
-      rows: data.exportData.map((row) => [
-        String(row["No."]),
-        row.Date,
-        row["Scanned At"].split(" ")[1] || row["Scanned At"],
-        row.Waybill,
-        row["Product Barcode"],
-        row["Product Name"],
-      ]),
+      Metric: "Bundle Costing",
+      Value: bundleCosting === "components" ? "Sum of components" : "Bundle cost",
     },
-    getTableOptions([25, 65, 55, 100, 85, 190], 520)
-  );
+    ...(definition.bundles === "exploded" ? [{ Metric: "Bundles", Value: "Exploded into components" }] : []),
+    { Metric: "Packers", Value: new Set(packedWaybills.map((waybill) => waybill.packed_by)).size },
+    { Metric: "Waybills Without Packer", Value: allRecords.length - packedWaybills.length },
+    { Metric: "Exported By", Value: exportedByName },
+    { Metric: "Generated At", Value: formatDate(new Date().toISOString()) },
+  ];
 
-  doc.end();
-  return endPromise;
+  // Rows per breakdown group, in the order groups were first met
+  const breakdownRows = (): ReportRow[] => {
+    const groups = new Map<string, { row: ReportRow; waybills: Set<string>; items: number; cost: number }>();
+    const groupOf = (key: string, row: () => ReportRow) => {
+      let group = groups.get(key);
+      if (!group) {
+        group = { row: row(), waybills: new Set(), items: 0, cost: 0 };
+        groups.set(key, group);
+      }
+      return group;
+    };
+    const recordGroup = (record: PackagingRecord) => {
+      switch (definition.groupBy) {
+        case "waybill":
+          return groupOf(record.$id, () => ({
+            Date: record.packaging_date,
+            Waybill: record.waybill_number,
+            Courier: courierName(record),
+            Packer: packerName(record),
+          }));
+        case "packer":
+          return groupOf(record.packed_by ?? "", () => ({ Packer: packerName(record) }));
+        case "courier":
+          return groupOf(record.courier_id ?? "", () => ({ Courier: courierName(record) }));
+        default:
+          return groupOf(record.packaging_date, () => ({ Date: record.packaging_date }));
+      }
+    };
+
+    if (definition.groupBy === "product") {
+      for (const item of allItems) {
+        const group = groupOf(item.product_barcode, () => ({
+          "Product Name": itemName(item),
+          Barcode: item.product_barcode,
+        }));
+        group.waybills.add(item.packaging_record_id);
+        group.items += 1;
+        group.cost += itemCost(item);
+      }
+    } else {
+      for (const record of allRecords) {
+        recordGroup(record).waybills.add(record.$id);
+      }
+      for (const item of allItems) {
+        const group = recordGroup(recordOf(item));
+        group.items += 1;
+        group.cost += itemCost(item);
+      }
+    }
+
+    // Days and waybills are already in packing order; other groups sort by name
+    const labelKey = BREAKDOWN_COLUMNS[definition.groupBy][0].key;
+    const byGroup = definition.groupBy === "day" || definition.groupBy === "waybill"
+      ? () => 0
+      : (a: ReportRow, b: ReportRow) => String(a[labelKey]).localeCompare(String(b[labelKey]));
+    const direction = definition.sortDirection === "desc" ? -1 : 1;
+
+    return Array.from(groups.values())
+      .map((group, order) => ({
+        order,
+        row: {
+          ...group.row,
+          Waybills: group.waybills.size,
+          Items: group.items,
+          "Total Cost": roundCost(group.cost),
+        } as ReportRow,
+      }))
+      .sort((a, b) => {
+        const compared = definition.sortBy === "group"
+          ? byGroup(a.row, b.row)
+          : definition.sortBy === "waybills"
+            ? Number(a.row.Waybills) - Number(b.row.Waybills)
+            : definition.sortBy === "items"
+              ? Number(a.row.Items) - Number(b.row.Items)
+              : Number(a.row["Total Cost"]) - Number(b.row["Total Cost"]);
+        return direction * (compared || a.order - b.order);
+      })
+      .map(({ row }, index) => ({ "No.": index + 1, ...row }));
+  };
+
+  // Current stock of the packed single products, per location
+  const stockByLocationRows = async (): Promise<ReportRow[]> => {
+    const locationStock = await fetchLocationStock(databases);
+    return productQuantities
+      .map((p) => productDocs.get(p.barcode))
+      .filter((product): product is Product => !!product && product.type !== "bundle")
+      .map((product, index) => {
+        const stockByLocation = getStockByLocation(
+          product.$id,
+          product.stock_quantity,
+          locations,
+          locationStock
+        );
+        const row: ReportRow = {
+          "No.": index + 1,
+          "Product Name": product.name,
+          Barcode: product.barcode,
+        };
+        for (const location of locations) {
+          row[location.name] = stockByLocation.get(location.$id) ?? 0;
+        }
+        row["Total Stock"] = product.stock_quantity;
+        return row;
+      });
+  };
+
+  // Detail rows are made while the file is written rather than all up front
+  function* detailRows(): Iterable<ReportRow> {
+    let index = 0;
+    for (const item of allItems) {
+      const record = recordOf(item);
+      yield {
+        "No.": ++index,
+        Date: record.packaging_date,
+        Waybill: record.waybill_number,
+        Courier: courierName(record),
+        Location: record.location_id
+          ? locationNames.get(record.location_id) ?? "Unknown"
+          : defaultLocationName,
+        Packer: packerName(record),
+        "Product Barcode": item.product_barcode,
+        "Product Name": itemName(item),
+        "Unit Cost": itemCost(item),
+        "Scanned At": formatDate(item.scanned_at),
+      };
+    }
+  }
+
+  const buildTable = async (section: ReportSection): Promise<ReportTable> => {
+    switch (section) {
+      case "summary":
+        return {
+          title: "Summary",
+          jsonKey: "summary",
+          columns: [
+            { key: "Metric", width: 20, pdfWidth: 200 },
+            { key: "Value", width: 30, pdfWidth: 300 },
+          ],
+          rows: () => summaryData,
+        };
+      case "daily-summary":
+        return {
+          title: "Daily Summary",
+          jsonKey: "dailySummary",
+          columns: [
+            { key: "Date", width: 12, pdfWidth: 170 },
+            { key: "Records", width: 10, pdfWidth: 110, pdfLabel: "Waybill Records", align: "right" },
+            { key: "Items Scanned", width: 15, pdfWidth: 110, align: "right" },
+            { ...TOTAL_COST_COLUMN, pdfWidth: 110 },
+          ],
+          rows: () =>
+            Array.from(dailySummary.entries())
+              .sort(([a], [b]) => a.localeCompare(b))
+              .map(([date, data]) => ({
+                Date: date,
+                Records: data.records,
+                "Items Scanned": data.items,
+                "Total Cost": roundCost(data.cost),
+              })),
+        };
+      case "product-quantities":
+        return {
+          title: "Product Quantities",
+          pdfTitle: "Total Packed Product Quantities",
+          jsonKey: "productQuantities",
+          columns: [
+            NUMBER_COLUMN,
+            { key: "Product Name", width: 40, pdfWidth: 210 },
+            { key: "Barcode", width: 15, pdfWidth: 110 },
+            { key: "Total Quantity", width: 15, pdfWidth: 70, pdfLabel: "Total Qty", align: "right" },
+            TOTAL_COST_COLUMN,
+          ],
+          rows: () =>
+            productQuantities.map((p, index) => ({
+              "No.": index + 1,
+              "Product Name": p.name,
+              Barcode: p.barcode,
+              "Total Quantity": p.quantity,
+              "Total Cost": roundCost(p.cost),
+            })),
+        };
+      case "waybill-costs":
+        return {
+          title: "Waybill Costs",
+          jsonKey: "waybillCosts",
+          columns: [
+            NUMBER_COLUMN,
+            { key: "Date", width: 12, pdfWidth: 80 },
+            { key: "Waybill", width: 25, pdfWidth: 150 },
+            { key: "Courier", width: 18, pdfWidth: 100 },
+            { key: "Items", width: 8, pdfWidth: 60, align: "right" },
+            TOTAL_COST_COLUMN,
+          ],
+          rows: () =>
+            allRecords.map((record, index) => ({
+              "No.": index + 1,
+              Date: record.packaging_date,
+              Waybill: record.waybill_number,
+              Courier: courierName(record),
+              Items: waybillCosts.get(record.$id)?.items ?? 0,
+              "Total Cost": roundCost(waybillCosts.get(record.$id)?.cost ?? 0),
+            })),
+        };
+      case "stock-by-location": {
+        const stockRows = await stockByLocationRows();
+        const stockColumnWidth = Math.floor(220 / (locations.length + 1));
+        return {
+          title: "Stock by Location",
+          jsonKey: "stockByLocation",
+          columns: [
+            NUMBER_COLUMN,
+            { key: "Product Name", width: 40, pdfWidth: 170 },
+            { key: "Barcode", width: 15, pdfWidth: 100 },
+            ...locations.map((location) => ({
+              key: location.name,
+              width: 18,
+              pdfWidth: stockColumnWidth,
+              align: "right" as const,
+            })),
+            { key: "Total Stock", width: 12, pdfWidth: stockColumnWidth, pdfLabel: "Total", align: "right" },
+          ],
+          rows: () => stockRows,
+        };
+      }
+      case "packer-productivity":
+        return {
+          title: "Packer Productivity",
+          jsonKey: "packerProductivity",
+          columns: [
+            { ...NUMBER_COLUMN, pdfWidth: 25 },
+            { key: "Packer", width: 25, pdfWidth: 95 },
+            { key: "Date", width: 12, pdfWidth: 60 },
+            { key: "Shift Start", width: 20, pdfWidth: 50, pdfLabel: "Start", pdfText: timeText },
+            { key: "Shift End", width: 20, pdfWidth: 50, pdfLabel: "End", pdfText: timeText },
+            { key: "Waybills", width: 10, pdfWidth: 50, align: "right" },
+            { key: "Items", width: 10, pdfWidth: 45, align: "right" },
+            { key: "Avg Seconds / Waybill", width: 22, pdfWidth: 55, pdfLabel: "Avg Sec", align: "right" },
+            { key: "Idle Gaps", width: 10, pdfWidth: 45, align: "right" },
+            { key: "Idle Minutes", width: 12, pdfWidth: 45, pdfLabel: "Idle Min", align: "right" },
+          ],
+          rows: () =>
+            buildPackerShifts(packedWaybills).map((shift, index) => ({
+              "No.": index + 1,
+              Packer: shift.packerName,
+              Date: shift.date,
+              "Shift Start": formatDate(shift.start),
+              "Shift End": formatDate(shift.end),
+              Waybills: shift.waybills,
+              Items: shift.items,
+              "Avg Seconds / Waybill": shift.avgSecondsPerWaybill,
+              "Idle Gaps": shift.idleGaps,
+              "Idle Minutes": shift.idleMinutes,
+            })),
+        };
+      case "breakdown":
+        return {
+          title: BREAKDOWN_TITLES[definition.groupBy],
+          jsonKey: "breakdown",
+          columns: fitToPage([
+            NUMBER_COLUMN,
+            ...BREAKDOWN_COLUMNS[definition.groupBy],
+            // A waybill is always one waybill
+            ...(definition.groupBy === "waybill"
+              ? []
+              : [{ key: "Waybills", width: 10, pdfWidth: 70, align: "right" as const }]),
+            { key: "Items", width: 10, pdfWidth: 60, align: "right" },
+            TOTAL_COST_COLUMN,
+          ]),
+          rows: breakdownRows,
+        };
+      case "details":
+        return {
+          title: "Details",
+          jsonKey: "details",
+          columns: fitToPage([
+            { ...NUMBER_COLUMN, pdfWidth: 25 },
+            ...definition.columns.map((column) => DETAIL_COLUMNS[column]),
+          ]),
+          rows: detailRows,
+        };
+    }
+  };
+
+  const tables: ReportTable[] = [];
+  for (const section of definition.sections) {
+    tables.push(await buildTable(section));
+  }
+
+  if (format === "pdf") {
+    logger.info("Generating PDF file");
+    await generatePDF({ startDate, endDate, tables }, filePath);
+  } else if (format === "csv") {
+    // CSV holds one row per item, the shape BI tools load; a template
+    // without details writes its first section instead
+    logger.info("Generating CSV file");
+    const table = tables.find((candidate) => candidate.jsonKey === "details") ?? tables[0];
+    await writeCsvFile(filePath, table.columns.map((column) => column.key), table.rows());
+  } else if (format === "json") {
+    logger.info("Generating JSON file");
+    await writeJsonFile(
+      filePath,
+      Object.fromEntries(tables.map((table) => [table.jsonKey, columnRows(table)]))
+    );
+  } else {
+    logger.info("Generating Excel file");
+    await generateExcel({ startDate, endDate, tables }, filePath);
+  }
+
+  return {
+    records: allRecords.length,
+    items: allItems.length,
+    products: uniqueBarcodes.size,
+    requests,
+    cachedDays,
+  };
+}
+
+/**
+ * Load a saved report template
+ * Throws when it has been deleted since the report was queued
+ */
+async function loadReportTemplate(databases: Databases, templateId: string): Promise<ReportTemplate> {
+  const databaseId = process.env.APPWRITE_DATABASE_ID!;
+
+  try {
+    const template = await databases.getDocument(databaseId, COLLECTIONS.REPORT_TEMPLATES, templateId);
+    return {
+      name: template.name as string,
+      definition: parseReportDefinition(template.definition as string),
+    };
+  } catch (error) {
+    logger.error("Failed to load report template", { templateId, error });
+    throw new Error("Report template not found");
+  }
+}
+
+/**
+ * Build a packaging report for a date range and upload it to storage
+ * Returns null when nothing was packed in the range
+ */
+export async function generatePackagingReport(
+  { databases, storage, users }: ReturnType<typeof createAppwriteClient>,
+  { userId, startDate, endDate, format, courierId, templateId }: Omit<ReportExportPayload, "jobId">
+): Promise<GeneratedReport | null> {
+  const bucketId = process.env.APPWRITE_BUCKET_ID!;
+  const template = templateId ? await loadReportTemplate(databases, templateId) : undefined;
+
+  // Fetch user information
+  let exportedByName = "Unknown User";
+  try {
+    const user = await users.get(userId);
+    exportedByName = user.name || user.email || "Unknown User";
+  } catch (userError) {
+    logger.warn("Failed to fetch user information", { userId, error: userError });
+  }
+
+  const fileName = `packaging-report-${startDate}-to-${endDate}.${EXPORT_EXTENSIONS[format]}`;
+  const filePath = path.join(os.tmpdir(), `${ID.unique()}-${fileName}`);
+
+  try {
+    const stats = await writePackagingReport(
+      databases,
+      { startDate, endDate, format, courierId },
+      exportedByName,
+      filePath,
+      template
+    );
+    if (!stats) {
+      return null;
+    }
+
+    // Upload to storage
+    logger.info("Uploading report to storage");
+    const file = await storage.createFile(bucketId, ID.unique(), InputFile.fromPath(filePath, fileName));
+
+    return {
+      fileId: file.$id,
+      fileName,
+      records: stats.records,
+      items: stats.items,
+      products: stats.products,
+    };
+  } finally {
+    await fs.promises.rm(filePath, { force: true });
+  }
 }
 
 export const reportExportTask = task({
@@ -455,12 +973,10 @@ export const reportExportTask = task({
     await markJobFailed(payload.jobId, error instanceof Error ? error.message : "Task failed after all retries");
   },
   run: async (payload: ReportExportPayload) => {
-    const { jobId, userId, startDate, endDate, format } = payload;
+    const { jobId, userId, startDate, endDate, format, courierId, templateId } = payload;
     const { databases, storage, users } = createAppwriteClient();
-    const databaseId = process.env.APPWRITE_DATABASE_ID!;
-    const bucketId = process.env.APPWRITE_BUCKET_ID!;
 
-    logger.info("Starting report export", { jobId, userId, startDate, endDate, format });
+    logger.info("Starting report export", { jobId, userId, startDate, endDate, format, courierId, templateId });
 
     try {
       await updateJobStatus(databases, jobId, "processing");
@@ -471,49 +987,20 @@ export const reportExportTask = task({
         actionType: 'job_report_export_started',
         resourceType: 'job',
         resourceId: jobId,
-        actionDetails: { startDate, endDate, format },
+        actionDetails: { startDate, endDate, format, courierId, templateId },
         status: 'success',
       });
 
-      // Fetch user information
-      let exportedByName = "Unknown User";
-      try {
-        const user = await users.get(userId);
-        exportedByName = user.name || user.email || "Unknown User";
-      } catch (userError) {
-        logger.warn("Failed to fetch user information", { userId, error: userError });
-      }
-
-      // Fetch all packaging records in the date range
-      const allRecords: PackagingRecord[] = [];
-      let offset = 0;
-      const limit = 100;
-
-      while (true) {
-        const result = await databases.listDocuments(databaseId, COLLECTIONS.PACKAGING_RECORDS, [
-          Query.greaterThanEqual("packaging_date", startDate),
-          Query.lessThanEqual("packaging_date", endDate),
-          Query.orderAsc("packaging_date"),
-          Query.limit(limit),
-          Query.offset(offset),
-        ]);
-
-        for (const doc of result.documents) {
-          allRecords.push({
-            $id: doc.$id,
-            packaging_date: doc.packaging_date as string,
-            waybill_number: doc.waybill_number as string,
-          });
-        }
-
-        if (result.documents.length < limit) break;
-        offset += limit;
-        await delay(API_DELAY);
-      }
-
-      logger.info(`Fetched ${allRecords.length} packaging records`);
+      const report = await generatePackagingReport({ databases, storage, users }, {
+        userId,
+        startDate,
+        endDate,
+        format,
+        courierId,
+        templateId,
+      });
 
-      if (allRecords.length === 0) {
+      if (!report) {
         await updateJobStatus(databases, jobId, "completed", undefined, {
           records: 0,
           items: 0,
@@ -521,182 +1008,11 @@ export const reportExportTask = task({
         return { success: true, records: 0, items: 0 };
       }
 
-      // Fetch all items for each record
-      const allItems: Array<PackagingItem & { waybill_number: string; packaging_date: string }> = [];
-
-      for (const record of allRecords) {
-        // Paginate through all items for this record (Appwrite default limit is 25)
-        let itemOffset = 0;
-        const itemLimit = 100;
-
-        while (true) {
-          const itemsResult = await databases.listDocuments(databaseId, COLLECTIONS.PACKAGING_ITEMS, [
-            Query.equal("packaging_record_id", record.$id),
-            Query.orderAsc("scanned_at"),
-            Query.limit(itemLimit),
-            Query.offset(itemOffset),
-          ]);
-
-          for (const item of itemsResult.documents) {
-            allItems.push({
-              $id: item.$id,
-              packaging_record_id: item.packaging_record_id as string,
-              product_barcode: item.product_barcode as string,
-              scanned_at: item.scanned_at as string,
-              waybill_number: record.waybill_number,
-              packaging_date: record.packaging_date,
-            });
-          }
-
-          if (itemsResult.documents.length < itemLimit) break;
-          itemOffset += itemLimit;
-          await delay(API_DELAY);
-        }
-
-        await delay(API_DELAY);
-      }
-
-      logger.info(`Fetched ${allItems.length} packaging items`);
-
-      // Build product map
-      const uniqueBarcodes = [...new Set(allItems.map((item) => item.product_barcode))];
-      const productMap = new Map<string, string>();
-
-      for (const barcode of uniqueBarcodes) {
-        const result = await databases.listDocuments(databaseId, COLLECTIONS.PRODUCTS, [
-          Query.equal("barcode", barcode),
-          Query.limit(1),
-        ]);
-        if (result.documents.length > 0) {
-          productMap.set(barcode, result.documents[0].name as string);
-        } else {
-          productMap.set(barcode, "Unknown Product");
-        }
-        await delay(API_DELAY);
-      }
-
-      // Create daily summary
-      const dailySummary = new Map<string, { records: number; items: number }>();
-      for (const record of allRecords) {
-        const existing = dailySummary.get(record.packaging_date) || { records: 0, items: 0 };
-        existing.records += 1;
-        dailySummary.set(record.packaging_date, existing);
-      }
-      for (const item of allItems) {
-        const existing = dailySummary.get(item.packaging_date);
-        if (existing) {
-          existing.items += 1;
-        }
-      }
-
-      // Calculate product quantities
-      const quantityMap = new Map<string, { barcode: string; quantity: number }>();
-      for (const item of allItems) {
-        const productName = productMap.get(item.product_barcode) || "Unknown Product";
-        const existing = quantityMap.get(productName);
-        if (existing) {
-          existing.quantity += 1;
-        } else {
-          quantityMap.set(productName, { barcode: item.product_barcode, quantity: 1 });
-        }
-      }
-
-      const productQuantities = Array.from(quantityMap.entries())
-        .map(([name, data]) => ({ name, barcode: data.barcode, quantity: data.quantity }))
-        .sort((a, b) => b.quantity - a.quantity);
-
-      // Prepare common data structures
-      const exportData = allItems.map((item, index) => ({
-        "No.": index + 1,
-        Date: item.packaging_date,
-        Waybill: item.waybill_number,
-        "Product Barcode": item.product_barcode,
-        "Product Name": productMap.get(item.product_barcode) || "Unknown",
-        "Scanned At": formatDate(item.scanned_at),
-      }));
-
-      const summaryData = [
-        { Metric: "Report Period", Value: startDate === endDate ? startDate : `${startDate} to ${endDate}` },
-        { Metric: "Total Waybill Records", Value: allRecords.length },
-        { Metric: "Total Items Scanned", Value: allItems.length },
-        { Metric: "Unique Products", Value: uniqueBarcodes.length },
-        { Metric: "Exported By", Value: exportedByName },
-        { Metric: "Generated At", Value: formatDate(new Date().toISOString()) },
-      ];
-
-      const dailySummaryData = Array.from(dailySummary.entries())
-        .sort(([a], [b]) => a.localeCompare(b))
-        .map(([date, data]) => ({
-          Date: date,
-          Records: data.records,
-          "Items Scanned": data.items,
-        }));
-
-      const productQuantitiesData = productQuantities.map((p, index) => ({
-        "No.": index + 1,
-        "Product Name": p.name,
-        Barcode: p.barcode,
-        "Total Quantity": p.quantity,
-      }));
-
-      let buffer: Buffer;
-      let fileName: string;
-
-      if (format === "pdf") {
-        // Generate PDF file
-        logger.info("Generating PDF file");
-        buffer = await generatePDF({
-          startDate,
-          endDate,
-          summaryData,
-          dailySummaryData,
-          productQuantitiesData,
-          exportData,
-        });
-        fileName = `packaging-report-${startDate}-to-${endDate}.pdf`;
-      } else {
-        // Generate Excel file
-        logger.info("Generating Excel file");
-
-        // Create workbook
-        const workbook = XLSX.utils.book_new();
-
-        const summarySheet = XLSX.utils.json_to_sheet(summaryData);
-        summarySheet["!cols"] = [{ wch: 20 }, { wch: 30 }];
-        XLSX.utils.book_append_sheet(workbook, summarySheet, "Summary");
-
-        const dailySheet = XLSX.utils.json_to_sheet(dailySummaryData);
-        dailySheet["!cols"] = [{ wch: 12 }, { wch: 10 }, { wch: 15 }];
-        XLSX.utils.book_append_sheet(workbook, dailySheet, "Daily Summary");
-
-        const productSheet = XLSX.utils.json_to_sheet(productQuantitiesData);
-        productSheet["!cols"] = [{ wch: 6 }, { wch: 40 }, { wch: 15 }, { wch: 15 }];
-        XLSX.utils.book_append_sheet(workbook, productSheet, "Product Quantities");
-
-        const detailsSheet = XLSX.utils.json_to_sheet(exportData);
-        detailsSheet["!cols"] = [
-          { wch: 6 },
-          { wch: 12 },
-          { wch: 25 },
-          { wch: 15 },
-          { wch: 40 },
-          { wch: 20 },
-        ];
-        XLSX.utils.book_append_sheet(workbook, detailsSheet, "Details");
-
-        buffer = XLSX.write(workbook, { type: "buffer", bookType: "xlsx" });
-        fileName = `packaging-report-${startDate}-to-${endDate}.xlsx`;
-      }
-
-      // Upload to storage
-      logger.info("Uploading report to storage");
-      const file = await storage.createFile(bucketId, ID.unique(), InputFile.fromBuffer(buffer, fileName));
-
       // Update job status
-      await updateJobStatus(databases, jobId, "completed", file.$id, {
-        records: allRecords.length,
-        items: allItems.length,
-        products: uniqueBarcodes.length,
+      await updateJobStatus(databases, jobId, "completed", report.fileId, {
+        records: report.records,
+        items: report.items,
+        products: report.products,
       });
 
       // Log job completion
@@ -705,25 +1021,18 @@ export const reportExportTask = task({
         actionType: 'job_report_export_completed',
         resourceType: 'job',
         resourceId: jobId,
-        actionDetails: {
-          fileId: file.$id,
-          fileName,
-          records: allRecords.length,
-          items: allItems.length,
-          products: uniqueBarcodes.length,
-          format,
-        },
+        actionDetails: { ...report, format },
         status: 'success',
       });
 
-      logger.info("Report export completed", { fileId: file.$id, records: allRecords.length, items: allItems.length });
+      logger.info("Report export completed", { fileId: report.fileId, records: report.records, items: report.items });
 
       return {
         success: true,
-        fileId: file.$id,
-        fileName,
-        records: allRecords.length,
-        items: allItems.length,
+        fileId: report.fileId,
+        fileName: report.fileName,
+        records: report.records,
+        items: report.items,
       };
     } catch (error) {
       logger.error("Report export failed", { error });
@@ -0,0 +1,227 @@
+import { schedules, logger } from "@trigger.dev/sdk/v3";
+import { Client, Databases, ID, Query } from "node-appwrite";
+import { createAuditLog } from "./lib/audit-log";
+import {
+  getNextRunAt,
+  getScheduleDateRange,
+  type ReportScheduleFrequency,
+  type ReportScheduleRange,
+} from "./lib/report-schedule";
+import { reportExportTask } from "./report-export";
+import { sendReportEmailTask } from "./send-report-email";
+
+interface ReportSchedule {
+  $id: string;
+  name: string;
+  frequency: ReportScheduleFrequency;
+  date_range: ReportScheduleRange;
+  format: "excel" | "pdf";
+  recipients: string;
+  hour: number;
+  day_of_week: number | null;
+  day_of_month: number | null;
+  utc_offset: number;
+  user_id: string;
+  next_run_at: string;
+}
+
+const COLLECTIONS = {
+  REPORT_SCHEDULES: "report_schedules",
+  IMPORT_JOBS: "import_jobs",
+} as const;
+
+function createAppwriteClient() {
+  const client = new Client()
+    .setEndpoint(process.env.APPWRITE_ENDPOINT!)
+    .setProject(process.env.APPWRITE_PROJECT_ID!)
+    .setKey(process.env.APPWRITE_API_KEY!);
+
+  return {
+    databases: new Databases(client),
+  };
+}
+
+/**
+ * Fetch enabled schedules that are due
+ */
+async function fetchDueSchedules(databases: Databases, databaseId: string, now: string): Promise<ReportSchedule[]> {
+  const result = await databases.listDocuments(databaseId, COLLECTIONS.REPORT_SCHEDULES, [
+    Query.equal("enabled", true),
+    Query.lessThanEqual("next_run_at", now),
+    Query.orderAsc("next_run_at"),
+    Query.limit(100),
+  ]);
+
+  return result.documents as unknown as ReportSchedule[];
+}
+
+/**
+ * Create an import_jobs record the way queue-product-job does, so scheduled
+ * reports show up with the ones generated by hand
+ */
+async function createJob(
+  databases: Databases,
+  databaseId: string,
+  userId: string,
+  action: string,
+  filters: Record<string, unknown>,
+  fileId: string | null = null
+): Promise<string> {
+  const job = await databases.createDocument(databaseId, COLLECTIONS.IMPORT_JOBS, ID.unique(), {
+    user_id: userId,
+    action,
+    status: "pending",
+    file_id: fileId,
+    filters: JSON.stringify(filters),
+    created_at: new Date().toISOString(),
+  });
+  return job.$id;
+}
+
+/**
+ * Generate a schedule's report and email it
+ * Returns the report file ID, or null when nothing was packed in the range
+ * and no email was sent
+ */
+async function runSchedule(
+  databases: Databases,
+  databaseId: string,
+  schedule: ReportSchedule
+): Promise<string | null> {
+  const recipients = JSON.parse(schedule.recipients) as string[];
+  const { startDate, endDate } = getScheduleDateRange(
+    schedule.date_range,
+    schedule.utc_offset,
+    new Date(schedule.next_run_at)
+  );
+  const dateRange = startDate === endDate ? startDate : `${startDate} to ${endDate}`;
+
+  const exportJobId = await createJob(databases, databaseId, schedule.user_id, `export-reporting-${schedule.format}`, {
+    startDate,
+    endDate,
+    format: schedule.format,
+    courierId: null,
+    scheduleId: schedule.$id,
+  });
+
+  const exportResult = await reportExportTask.triggerAndWait({
+    jobId: exportJobId,
+    userId: schedule.user_id,
+    startDate,
+    endDate,
+    format: schedule.format,
+  });
+  if (!exportResult.ok) {
+    throw new Error(`Report export failed: ${String(exportResult.error)}`);
+  }
+  const fileId = exportResult.output.fileId;
+  if (!fileId) {
+    if (exportResult.output.records === 0) {
+      logger.info("Nothing packed in the scheduled range, skipping the email", {
+        scheduleId: schedule.$id,
+        dateRange,
+      });
+      return null;
+    }
+    throw new Error("Report export did not produce a file");
+  }
+
+  const emailJobId = await createJob(
+    databases,
+    databaseId,
+    schedule.user_id,
+    "send-report-email",
+    { recipients, dateRange, fileId, scheduleId: schedule.$id },
+    fileId
+  );
+
+  const emailResult = await sendReportEmailTask.triggerAndWait({
+    jobId: emailJobId,
+    userId: schedule.user_id,
+    fileId,
+    recipients,
+    dateRange,
+  });
+  if (!emailResult.ok) {
+    throw new Error(`Report email failed: ${String(emailResult.error)}`);
+  }
+
+  return fileId;
+}
+
+export const reportSchedulesTask = schedules.task({
+  id: "report-schedules",
+  cron: "0 * * * *", // Every hour, on the hour
+  run: async () => {
+    const { databases } = createAppwriteClient();
+    const databaseId = process.env.APPWRITE_DATABASE_ID!;
+    const now = new Date();
+
+    const dueSchedules = await fetchDueSchedules(databases, databaseId, now.toISOString());
+    logger.info(`Found ${dueSchedules.length} due report schedules`);
+
+    let succeeded = 0;
+    let empty = 0;
+    let failed = 0;
+
+    // Claim every due run before generating any, so an overlapping hourly
+    // run does not send them twice
+    for (const schedule of dueSchedules) {
+      await databases.updateDocument(databaseId, COLLECTIONS.REPORT_SCHEDULES, schedule.$id, {
+        next_run_at: getNextRunAt(schedule, now).toISOString(),
+      });
+    }
+
+    for (const schedule of dueSchedules) {
+      try {
+        const fileId = await runSchedule(databases, databaseId, schedule);
+
+        // A range with nothing packed is not a failure; the last file is kept
+        await databases.updateDocument(databaseId, COLLECTIONS.REPORT_SCHEDULES, schedule.$id, {
+          last_run_at: new Date().toISOString(),
+          last_run_status: fileId ? "success" : "no_data",
+          last_run_error: null,
+          ...(fileId ? { last_file_id: fileId } : {}),
+        });
+
+        await createAuditLog(databases, {
+          userId: schedule.user_id,
+          actionType: "report_schedule_run",
+          resourceType: "report_schedule",
+          resourceId: schedule.$id,
+          actionDetails: { name: schedule.name, fileId, noData: !fileId, dueAt: schedule.next_run_at },
+          status: "success",
+        });
+
+        if (fileId) {
+          succeeded++;
+        } else {
+          empty++;
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        logger.error("Scheduled report failed", { scheduleId: schedule.$id, error: message });
+
+        await databases.updateDocument(databaseId, COLLECTIONS.REPORT_SCHEDULES, schedule.$id, {
+          last_run_at: new Date().toISOString(),
+          last_run_status: "failed",
+          last_run_error: message.slice(0, 1000),
+        });
+
+        await createAuditLog(databases, {
+          userId: schedule.user_id,
+          actionType: "report_schedule_run",
+          resourceType: "report_schedule",
+          resourceId: schedule.$id,
+          actionDetails: { name: schedule.name, dueAt: schedule.next_run_at },
+          status: "failure",
+          errorMessage: message,
+        });
+
+        failed++;
+      }
+    }
+
+    return { success: true, due: dueSchedules.length, succeeded, empty, failed };
+  },
+});
@@ -15,6 +15,14 @@ const COLLECTIONS = {
   IMPORT_JOBS: "import_jobs",
 } as const;
 
+// Name of each report file type in the email, by file extension
+const FILE_TYPE_LABELS: Record<string, string> = {
+  xlsx: "Excel",
+  pdf: "PDF",
+  csv: "CSV",
+  json: "JSON",
+};
+
 function createAppwriteClient() {
   const client = new Client()
     .setEndpoint(process.env.APPWRITE_ENDPOINT!)
@@ -59,6 +67,74 @@ async function markJobFailed(jobId: string, errorMessage: string) {
   }
 }
 
+/**
+ * Email the download link of a report file through Resend
+ * Throws when Resend is not configured or rejects the email
+ */
+export async function sendReportEmail(
+  storage: Storage,
+  { fileId, recipients, dateRange }: Pick<SendReportEmailPayload, "fileId" | "recipients" | "dateRange">
+): Promise<{ messageId?: string }> {
+  const bucketId = process.env.APPWRITE_BUCKET_ID!;
+
+  const resendApiKey = process.env.RESEND_API_KEY;
+  if (!resendApiKey) {
+    throw new Error("RESEND_API_KEY environment variable is not set");
+  }
+
+  const resend = new Resend(resendApiKey);
+  const fromEmail = process.env.RESEND_FROM_EMAIL || "reports@wrapster.app";
+
+  // Get file details to determine file type
+  const file = await storage.getFile(bucketId, fileId);
+  const fileName = file.name;
+  const fileType = FILE_TYPE_LABELS[fileName.slice(fileName.lastIndexOf(".") + 1)] ?? "Excel";
+
+  // Get download URL for the file
+  const endpoint = process.env.APPWRITE_ENDPOINT!;
+  const projectId = process.env.APPWRITE_PROJECT_ID!;
+  const downloadUrl = `${endpoint}/storage/buckets/${bucketId}/files/${fileId}/view?project=${projectId}`;
+
+  // Create email content
+  const subject = `Packaging Report - ${dateRange}`;
+  const htmlContent = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <h2 style="color: #333;">Packaging Report</h2>
+      <p>Hello,</p>
+      <p>Please find the packaging report for <strong>${dateRange}</strong>.</p>
+      <p>
+        <a href="${downloadUrl}"
+           style="display: inline-block; padding: 12px 24px; background-color: #eaa108; color: #422f06; text-decoration: none; border-radius: 6px; font-weight: bold;">
+          Download ${fileType} Report
+        </a>
+      </p>
+      <p style="color: #666; font-size: 14px; margin-top: 20px;">
+        This is an automated email from Wrapster Packaging System.
+      </p>
+    </div>
+  `;
+
+  // Send email using Resend
+  const { data, error } = await resend.emails.send({
+    from: fromEmail,
+    to: recipients,
+    subject,
+    html: htmlContent,
+  });
+
+  if (error) {
+    logger.error("Resend API error", { error });
+    throw new Error(error.message);
+  }
+
+  logger.info("Email sent successfully via Resend", {
+    messageId: data?.id,
+    recipients,
+  });
+
+  return { messageId: data?.id };
+}
+
 export const sendReportEmailTask = task({
   id: "send-report-email",
   retry: { maxAttempts: 3 },
@@ -72,78 +148,19 @@ export const sendReportEmailTask = task({
   run: async (payload: SendReportEmailPayload) => {
     const { jobId, userId, fileId, recipients, dateRange } = payload;
     const { databases, storage } = createAppwriteClient();
-    const bucketId = process.env.APPWRITE_BUCKET_ID!;
 
     logger.info("Starting send report email", { jobId, recipients, dateRange });
 
-    // Check for Resend API key
-    const resendApiKey = process.env.RESEND_API_KEY;
-    if (!resendApiKey) {
-      const errorMsg = "RESEND_API_KEY environment variable is not set";
-      logger.error(errorMsg);
-      await updateJobStatus(databases, jobId, "failed", undefined, errorMsg);
-      throw new Error(errorMsg);
-    }
-
-    const resend = new Resend(resendApiKey);
-    const fromEmail = process.env.RESEND_FROM_EMAIL || "reports@wrapster.app";
-
     try {
       await updateJobStatus(databases, jobId, "processing");
 
-      // Get file details to determine file type
-      const file = await storage.getFile(bucketId, fileId);
-      const fileName = file.name;
-      const isPdf = fileName.endsWith('.pdf');
-
-      // Get download URL for the file
-      const endpoint = process.env.APPWRITE_ENDPOINT!;
-      const projectId = process.env.APPWRITE_PROJECT_ID!;
-      const downloadUrl = `${endpoint}/storage/buckets/${bucketId}/files/${fileId}/view?project=${projectId}`;
-
-      // Create email content
-      const subject = `Packaging Report - ${dateRange}`;
-      const htmlContent = `
-        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-          <h2 style="color: #333;">Packaging Report</h2>
-          <p>Hello,</p>
-          <p>Please find the packaging report for <strong>${dateRange}</strong>.</p>
-          <p>
-            <a href="${downloadUrl}"
-               style="display: inline-block; padding: 12px 24px; background-color: #eaa108; color: #422f06; text-decoration: none; border-radius: 6px; font-weight: bold;">
-              Download ${isPdf ? 'PDF' : 'Excel'} Report
-            </a>
-          </p>
-          <p style="color: #666; font-size: 14px; margin-top: 20px;">
-            This is an automated email from Wrapster Packaging System.
-          </p>
-        </div>
-      `;
-
-      // Send email using Resend
-      const { data, error } = await resend.emails.send({
-        from: fromEmail,
-        to: recipients,
-        subject,
-        html: htmlContent,
-      });
-
-      if (error) {
-        logger.error("Resend API error", { error });
-        await updateJobStatus(databases, jobId, "failed", undefined, error.message);
-        throw new Error(error.message);
-      }
-
-      logger.info("Email sent successfully via Resend", {
-        messageId: data?.id,
-        recipients,
-      });
+      const { messageId } = await sendReportEmail(storage, { fileId, recipients, dateRange });
 
       // Update job status to completed
       await updateJobStatus(databases, jobId, "completed", {
         recipients: recipients.length,
         emailsSent: recipients.length,
-        messageId: data?.id,
+        messageId,
       });
 
       // Log email sent
@@ -156,7 +173,7 @@ export const sendReportEmailTask = task({
           recipientCount: recipients.length,
           fileId,
           dateRange,
-          messageId: data?.id,
+          messageId,
         },
         status: 'success',
       });
@@ -166,7 +183,7 @@ export const sendReportEmailTask = task({
       return {
         success: true,
         recipients: recipients.length,
-        messageId: data?.id,
+        messageId,
       };
     } catch (error) {
       logger.error("Send report email failed", { error });
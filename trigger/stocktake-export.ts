@@ -0,0 +1,439 @@
+import { task, logger } from "@trigger.dev/sdk/v3";
+import { Client, Databases, Storage, ID, Query } from "node-appwrite";
+import { InputFile } from "node-appwrite/file";
+import * as XLSX from "xlsx";
+import PDFTable from "pdfkit-table";
+import { createAuditLog } from "./lib/audit-log";
+import { roundCost } from "./lib/costing";
+import { fetchLocations } from "./lib/location-stock";
+import { ensureFontFile } from "./lib/pdf-font";
+
+interface StocktakeExportPayload {
+  jobId: string;
+  userId: string;
+  stocktakeId: string;
+  format: "excel" | "pdf";
+}
+
+interface StocktakeExportResult {
+  fileId: string;
+  fileName: string;
+  totalItems: number;
+  totalVariances: number;
+}
+
+interface StocktakeItem {
+  product_barcode: string;
+  product_name: string | null;
+  unit_cost: number | null;
+  system_quantity: number;
+  counted_quantity: number | null;
+}
+
+interface VarianceRow {
+  "No.": number;
+  Barcode: string;
+  "Product Name": string;
+  System: number;
+  Counted: number;
+  Variance: number;
+  "Unit Cost": number;
+  "Variance Value": number;
+}
+
+const COLLECTIONS = {
+  STOCKTAKES: "stocktakes",
+  STOCKTAKE_ITEMS: "stocktake_items",
+  IMPORT_JOBS: "import_jobs",
+} as const;
+
+const REASON_LABELS: Record<string, string> = {
+  cycle_count: "Cycle count",
+  damaged: "Damaged",
+  lost: "Lost",
+  found: "Found",
+  correction: "Correction",
+};
+
+const BATCH_SIZE = 100;
+const API_DELAY = 50;
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function createAppwriteClient() {
+  const client = new Client()
+    .setEndpoint(process.env.APPWRITE_ENDPOINT!)
+    .setProject(process.env.APPWRITE_PROJECT_ID!)
+    .setKey(process.env.APPWRITE_API_KEY!);
+
+  return {
+    databases: new Databases(client),
+    storage: new Storage(client),
+  };
+}
+
+async function updateJobStatus(
+  databases: Databases,
+  jobId: string,
+  status: string,
+  resultFileId?: string,
+  error?: string
+) {
+  const databaseId = process.env.APPWRITE_DATABASE_ID!;
+  const updateData: Record<string, unknown> = { status };
+
+  if (resultFileId) {
+    updateData.result_file_id = resultFileId;
+  }
+  if (error) {
+    updateData.error = error;
+  }
+  if (status === "completed" || status === "failed") {
+    updateData.completed_at = new Date().toISOString();
+  }
+
+  await databases.updateDocument(databaseId, COLLECTIONS.IMPORT_JOBS, jobId, updateData);
+}
+
+async function markJobFailed(jobId: string, errorMessage: string) {
+  try {
+    const { databases } = createAppwriteClient();
+    await updateJobStatus(databases, jobId, "failed", undefined, errorMessage);
+  } catch (e) {
+    logger.error("Failed to update job status", { jobId, error: e });
+  }
+}
+
+async function generatePDF(data: {
+  title: string;
+  subtitle: string;
+  summaryData: Array<{ Metric: string; Value: string | number }>;
+  varianceData: VarianceRow[];
+}): Promise<Buffer> {
+  const fontPath = await ensureFontFile();
+  const headerColor = "#424242";
+
+  const doc = new PDFTable({
+    size: "A4",
+    margin: 40,
+    bufferPages: true,
+    font: fontPath,
+  });
+  doc.registerFont("NotoSans", fontPath);
+
+  const chunks: Buffer[] = [];
+  doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+
+  const endPromise = new Promise<Buffer>((resolve, reject) => {
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  const tableOptions = (columnsSize: number[]) => ({
+    padding: [5, 5, 5, 5],
+    width: columnsSize.reduce((sum, size) => sum + size, 0),
+    columnsSize,
+    divider: {
+      header: { disabled: false, width: 0.5, opacity: 1 },
+      horizontal: { disabled: false, width: 0.5, opacity: 0.5 },
+    },
+    prepareHeader: () => doc.font("NotoSans").fontSize(10).fillColor("#ffffff"),
+    prepareRow: () => doc.font("NotoSans").fontSize(9).fillColor("#000000"),
+  });
+
+  doc.fontSize(18).font("NotoSans").text(data.title, { align: "center" });
+  doc.moveDown(0.3);
+  doc.fontSize(12).text(data.subtitle, { align: "center" });
+  doc.moveDown(1);
+
+  doc.fontSize(14).text("Summary");
+  doc.moveDown(0.5);
+  await doc.table(
+    {
+      headers: [
+        { label: "Metric", align: "left", headerColor, headerOpacity: 1 },
+        { label: "Value", align: "left", headerColor, headerOpacity: 1 },
+      ],
+      rows: data.summaryData.map((row) => [row.Metric, String(row.Value)]),
+    },
+    tableOptions([200, 300])
+  );
+
+  doc.addPage();
+  doc.fontSize(14).font("NotoSans").text("Variances");
+  doc.moveDown(0.5);
+  await doc.table(
+    {
+      headers: [
+        { label: "No.", align: "left", headerColor, headerOpacity: 1 },
+        { label: "Barcode", align: "left", headerColor, headerOpacity: 1 },
+        { label: "Product Name", align: "left", headerColor, headerOpacity: 1 },
+        { label: "System", align: "right", headerColor, headerOpacity: 1 },
+        { label: "Counted", align: "right", headerColor, headerOpacity: 1 },
+        { label: "Variance", align: "right", headerColor, headerOpacity: 1 },
+        { label: "Value", align: "right", headerColor, headerOpacity: 1 },
+      ],
+      rows: data.varianceData.map((row) => [
+        String(row["No."]),
+        row.Barcode,
+        row["Product Name"],
+        String(row.System),
+        String(row.Counted),
+        row.Variance > 0 ? `+${row.Variance}` : String(row.Variance),
+        row["Variance Value"].toFixed(2),
+      ]),
+    },
+    tableOptions([30, 85, 165, 50, 55, 55, 75])
+  );
+
+  doc.end();
+  return endPromise;
+}
+
+export const stocktakeExportTask = task({
+  id: "stocktake-export",
+  retry: { maxAttempts: 3 },
+  queue: {
+    concurrencyLimit: 5,
+  },
+  onFailure: async ({ payload, error }) => {
+    logger.error("Stocktake export task failed permanently", { jobId: payload.jobId, error });
+    await markJobFailed(payload.jobId, error instanceof Error ? error.message : "Task failed after all retries");
+  },
+  run: async (payload: StocktakeExportPayload): Promise<StocktakeExportResult> => {
+    const { jobId, userId, stocktakeId, format } = payload;
+    const { databases, storage } = createAppwriteClient();
+    const databaseId = process.env.APPWRITE_DATABASE_ID!;
+    const bucketId = process.env.APPWRITE_BUCKET_ID!;
+
+    logger.info("Starting stocktake export", { jobId, userId, stocktakeId, format });
+
+    try {
+      // Update job status to processing
+      await updateJobStatus(databases, jobId, "processing");
+
+      // Log job start
+      await createAuditLog(databases, {
+        userId,
+        actionType: 'job_stocktake_export_started',
+        resourceType: 'job',
+        resourceId: jobId,
+        actionDetails: { stocktakeId, format },
+        status: 'success',
+      });
+
+      const stocktake = await databases.getDocument(databaseId, COLLECTIONS.STOCKTAKES, stocktakeId);
+
+      // Fetch the items of the stocktake
+      const items: StocktakeItem[] = [];
+      let offset = 0;
+      let hasMore = true;
+
+      while (hasMore) {
+        const result = await databases.listDocuments(databaseId, COLLECTIONS.STOCKTAKE_ITEMS, [
+          Query.equal("stocktake_id", stocktakeId),
+          Query.orderAsc("product_name"),
+          Query.limit(BATCH_SIZE),
+          Query.offset(offset),
+        ]);
+
+        for (const doc of result.documents) {
+          items.push({
+            product_barcode: doc.product_barcode as string,
+            product_name: (doc.product_name as string | null) ?? null,
+            unit_cost: (doc.unit_cost as number | null) ?? null,
+            system_quantity: doc.system_quantity as number,
+            counted_quantity: (doc.counted_quantity as number | null) ?? null,
+          });
+        }
+
+        offset += result.documents.length;
+        hasMore = result.documents.length === BATCH_SIZE;
+
+        if (hasMore) {
+          await delay(API_DELAY);
+        }
+      }
+
+      logger.info(`Fetched ${items.length} stocktake items for export`);
+
+      const locations = await fetchLocations(databases);
+      const locationName = stocktake.location_id
+        ? locations.find((location) => location.$id === stocktake.location_id)?.name ?? ""
+        : locations.find((location) => location.is_default)?.name ?? "";
+
+      // Uncounted items have no variance and are left unchanged on approval
+      const counted = items.filter((item) => item.counted_quantity !== null);
+      const varianceData: VarianceRow[] = [];
+      let unitsOver = 0;
+      let unitsShort = 0;
+      let varianceValue = 0;
+
+      for (const item of counted) {
+        const variance = item.counted_quantity! - item.system_quantity;
+        if (variance === 0) continue;
+
+        const value = roundCost(variance * (item.unit_cost ?? 0));
+        if (variance > 0) {
+          unitsOver += variance;
+        } else {
+          unitsShort -= variance;
+        }
+        varianceValue += value;
+
+        varianceData.push({
+          "No.": varianceData.length + 1,
+          Barcode: item.product_barcode,
+          "Product Name": item.product_name || "",
+          System: item.system_quantity,
+          Counted: item.counted_quantity!,
+          Variance: variance,
+          "Unit Cost": item.unit_cost ?? 0,
+          "Variance Value": value,
+        });
+      }
+
+      const statusLabel =
+        stocktake.status === "approved" ? "Approved" : stocktake.status === "cancelled" ? "Cancelled" : "Counting";
+
+      const summaryData: Array<{ Metric: string; Value: string | number }> = [
+        { Metric: "Stocktake", Value: stocktake.name as string },
+        { Metric: "Location", Value: locationName },
+        { Metric: "Status", Value: statusLabel },
+        { Metric: "Blind Count", Value: stocktake.blind ? "Yes" : "No" },
+        { Metric: "Started By", Value: (stocktake.created_by_name as string | null) || "" },
+        { Metric: "Started At", Value: new Date(stocktake.$createdAt).toLocaleString() },
+        { Metric: "Products", Value: items.length },
+        { Metric: "Counted", Value: counted.length },
+        { Metric: "Uncounted", Value: items.length - counted.length },
+        { Metric: "With Variance", Value: varianceData.length },
+        { Metric: "Units Over", Value: unitsOver },
+        { Metric: "Units Short", Value: unitsShort },
+        { Metric: "Net Variance Value", Value: roundCost(varianceValue) },
+      ];
+      if (stocktake.status !== "counting") {
+        summaryData.push(
+          { Metric: stocktake.status === "approved" ? "Approved By" : "Cancelled By", Value: (stocktake.closed_by_name as string | null) || "" },
+          { Metric: "Closed At", Value: stocktake.closed_at ? new Date(stocktake.closed_at as string).toLocaleString() : "" }
+        );
+      }
+      if (stocktake.reason_code) {
+        summaryData.push({ Metric: "Reason", Value: REASON_LABELS[stocktake.reason_code as string] ?? (stocktake.reason_code as string) });
+      }
+      if (stocktake.notes) {
+        summaryData.push({ Metric: "Notes", Value: stocktake.notes as string });
+      }
+      summaryData.push({ Metric: "Generated At", Value: new Date().toLocaleString() });
+
+      const baseName = `stocktake_report_${(stocktake.name as string).replace(/[^a-zA-Z0-9-]+/g, "-")}_${Date.now()}`;
+      let buffer: Buffer;
+      let fileName: string;
+
+      if (format === "pdf") {
+        logger.info("Generating PDF file");
+        buffer = await generatePDF({
+          title: "Stocktake Variance Report",
+          subtitle: locationName ? `${stocktake.name} - ${locationName}` : (stocktake.name as string),
+          summaryData,
+          varianceData,
+        });
+        fileName = `${baseName}.pdf`;
+      } else {
+        logger.info("Generating Excel file");
+
+        const summarySheet = XLSX.utils.json_to_sheet(summaryData);
+        summarySheet["!cols"] = [{ wch: 20 }, { wch: 30 }];
+
+        const varianceSheet = XLSX.utils.json_to_sheet(varianceData);
+        varianceSheet["!cols"] = [
+          { wch: 6 }, // No.
+          { wch: 15 }, // Barcode
+          { wch: 30 }, // Product Name
+          { wch: 10 }, // System
+          { wch: 10 }, // Counted
+          { wch: 10 }, // Variance
+          { wch: 12 }, // Unit Cost
+          { wch: 14 }, // Variance Value
+        ];
+
+        // Counts sheet: every product, counted or not
+        const countSheet = XLSX.utils.json_to_sheet(
+          items.map((item, index) => ({
+            "No.": index + 1,
+            Barcode: item.product_barcode,
+            "Product Name": item.product_name || "",
+            System: item.system_quantity,
+            Counted: item.counted_quantity ?? "",
+            Variance: item.counted_quantity === null ? "" : item.counted_quantity - item.system_quantity,
+          }))
+        );
+        countSheet["!cols"] = [{ wch: 6 }, { wch: 15 }, { wch: 30 }, { wch: 10 }, { wch: 10 }, { wch: 10 }];
+
+        const workbook = XLSX.utils.book_new();
+        XLSX.utils.book_append_sheet(workbook, summarySheet, "Summary");
+        XLSX.utils.book_append_sheet(workbook, varianceSheet, "Variances");
+        XLSX.utils.book_append_sheet(workbook, countSheet, "Counts");
+
+        buffer = XLSX.write(workbook, { type: "buffer", bookType: "xlsx" });
+        fileName = `${baseName}.xlsx`;
+      }
+
+      // Upload to Appwrite Storage
+      logger.info("Uploading stocktake export to storage");
+      const file = await storage.createFile(
+        bucketId,
+        ID.unique(),
+        InputFile.fromBuffer(buffer, fileName)
+      );
+
+      // Update job status to completed
+      await updateJobStatus(databases, jobId, "completed", file.$id);
+
+      // Log job completion
+      await createAuditLog(databases, {
+        userId,
+        actionType: 'job_stocktake_export_completed',
+        resourceType: 'job',
+        resourceId: jobId,
+        actionDetails: {
+          fileId: file.$id,
+          fileName,
+          stocktakeId,
+          totalItems: items.length,
+          totalVariances: varianceData.length,
+        },
+        status: 'success',
+      });
+
+      logger.info("Stocktake export completed", { fileId: file.$id, fileName, totalVariances: varianceData.length });
+
+      return {
+        fileId: file.$id,
+        fileName,
+        totalItems: items.length,
+        totalVariances: varianceData.length,
+      };
+    } catch (error) {
+      logger.error("Stocktake export failed", { error });
+
+      // Log job failure
+      await createAuditLog(databases, {
+        userId,
+        actionType: 'job_stocktake_export_completed',
+        resourceType: 'job',
+        resourceId: jobId,
+        status: 'failure',
+        errorMessage: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      await updateJobStatus(
+        databases,
+        jobId,
+        "failed",
+        undefined,
+        error instanceof Error ? error.message : "Unknown error"
+      );
+      throw error;
+    }
+  },
+});